@@ -0,0 +1,222 @@
+/**
+ * Command-Line Argument Parsing
+ *
+ * Parses `dh-convert` arguments into input files, output settings,
+ * ConversionOptions, MarkdownFormatOptions, and validation strictness.
+ *
+ * @module cli/args
+ * @version 1.0.0
+ */
+
+import { ConversionOptions } from '../orchestrator/converter';
+import { MarkdownFormatOptions } from '../formatters/markdownFormatter';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How validation results affect the exit code.
+ *
+ * - `off`: skip validation
+ * - `lenient`: report issues; fail only on errors
+ * - `strict`: report issues; fail on errors or warnings
+ */
+export type ValidationMode = 'off' | 'lenient' | 'strict';
+
+/**
+ * Parsed `dh-convert` command line.
+ */
+export interface CliOptions {
+  /** Input files. `-` (or no files) reads stdin. */
+  inputs: string[];
+  /** Directory to write output files to. Writes to stdout when unset. */
+  outDir?: string;
+  /** Options passed to the conversion orchestrator. */
+  conversion: ConversionOptions;
+  /** How validation results affect the exit code. */
+  validation: ValidationMode;
+  /** Print each conversion log to stderr. */
+  verbose: boolean;
+  /** Show usage and exit. */
+  help: boolean;
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+/**
+ * Usage text printed by `dh-convert --help`.
+ */
+export const CLI_USAGE = `Usage: dh-convert [options] [files...]
+
+Converts D&D 5e, Pathfinder 2e, OSR, and Numenera stat blocks to Daggerheart
+adversaries. Text files are auto-detected; .json files hold D&D 5e stat
+blocks, a 5etools bestiary/homebrew file, Open5e API monsters, or Foundry
+VTT actor exports. Reads stdin when no files (or "-") are given.
+
+Output:
+  -o, --out-dir <dir>       Write one file per creature to <dir> (default: stdout)
+  -f, --format <format>     markdown, json, or both (default: markdown)
+
+Conversion:
+  --no-design-notes         Omit design notes
+  --loot                    Generate loot for each adversary
+  --repair-ocr              Repair PDF copy artifacts in D&D 5e text before parsing
+  --verbose                 Verbose design notes; print conversion logs to stderr
+
+Markdown:
+  --header-level <1-3>      Header level for the adversary name (default: 1)
+  --no-description          Omit the description section
+  --no-movement             Omit movement details
+  --no-source               Omit source system attribution
+
+Validation:
+  --validation <mode>       off, lenient, or strict (default: lenient)
+                            lenient fails on errors; strict also fails on warnings
+
+  -h, --help                Show this help
+
+Exit codes: 0 success, 1 one or more conversions failed, 2 usage error.`;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const FORMATS = ['markdown', 'json', 'both'] as const;
+const VALIDATION_MODES: ValidationMode[] = ['off', 'lenient', 'strict'];
+
+/**
+ * Reads the value following a flag, or the part after `=`.
+ */
+function takeValue(flag: string, inline: string | undefined, argv: string[], index: number): string {
+  if (inline !== undefined) {
+    return inline;
+  }
+  const value = argv[index + 1];
+  if (value === undefined || value.startsWith('-')) {
+    throw new Error(`Option ${flag} requires a value`);
+  }
+  return value;
+}
+
+// ============================================================================
+// MAIN PARSER
+// ============================================================================
+
+/**
+ * Parses `dh-convert` command-line arguments.
+ *
+ * Accepts both `--flag value` and `--flag=value`. Throws on unknown
+ * options and invalid values.
+ *
+ * @param argv - Arguments after the program name
+ * @returns Parsed CLI options
+ *
+ * @example
+ * ```typescript
+ * const options = parseCliArgs(['goblin.txt', '-o', 'out', '--format', 'both']);
+ * // options.outDir === 'out'
+ * // options.conversion.outputFormat === 'both'
+ * ```
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const inputs: string[] = [];
+  const conversion: ConversionOptions = {};
+  const markdownOptions: MarkdownFormatOptions = {};
+  let outDir: string | undefined;
+  let validation: ValidationMode = 'lenient';
+  let verbose = false;
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+
+    if (arg === '-' || !arg.startsWith('-')) {
+      inputs.push(arg);
+      continue;
+    }
+
+    const [flag = arg, inline] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = (): string => {
+      const taken = takeValue(flag, inline, argv, i);
+      if (inline === undefined) {
+        i++;
+      }
+      return taken;
+    };
+
+    switch (flag) {
+      case '-h':
+      case '--help':
+        help = true;
+        break;
+      case '-o':
+      case '--out-dir':
+        outDir = value();
+        break;
+      case '-f':
+      case '--format': {
+        const format = value();
+        if (!(FORMATS as readonly string[]).includes(format)) {
+          throw new Error(`Invalid format "${format}" (expected ${FORMATS.join(', ')})`);
+        }
+        conversion.outputFormat = format as (typeof FORMATS)[number];
+        break;
+      }
+      case '--no-design-notes':
+        conversion.includeDesignNotes = false;
+        break;
+      case '--loot':
+        conversion.includeLoot = true;
+        break;
+      case '--repair-ocr':
+        conversion.repairOcr = true;
+        break;
+      case '--verbose':
+        conversion.verboseNotes = true;
+        verbose = true;
+        break;
+      case '--header-level': {
+        const level = Number(value());
+        if (level !== 1 && level !== 2 && level !== 3) {
+          throw new Error('Option --header-level must be 1, 2, or 3');
+        }
+        markdownOptions.headerLevel = level;
+        break;
+      }
+      case '--no-description':
+        markdownOptions.includeDescription = false;
+        break;
+      case '--no-movement':
+        markdownOptions.includeMovement = false;
+        break;
+      case '--no-source':
+        markdownOptions.includeSourceAttribution = false;
+        break;
+      case '--validation': {
+        const mode = value();
+        if (!VALIDATION_MODES.includes(mode as ValidationMode)) {
+          throw new Error(`Invalid validation mode "${mode}" (expected ${VALIDATION_MODES.join(', ')})`);
+        }
+        validation = mode as ValidationMode;
+        break;
+      }
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  if (Object.keys(markdownOptions).length > 0) {
+    conversion.markdownOptions = markdownOptions;
+  }
+
+  const options: CliOptions = { inputs, conversion, validation, verbose, help };
+  if (outDir !== undefined) {
+    options.outDir = outDir;
+  }
+  return options;
+}
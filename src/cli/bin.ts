@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+/**
+ * dh-convert executable entry point.
+ *
+ * @module cli/bin
+ * @version 1.0.0
+ */
+
+import { runCli } from './dhConvert';
+
+process.exitCode = runCli(process.argv.slice(2));
@@ -0,0 +1,340 @@
+/**
+ * dh-convert Command
+ *
+ * Batch-converts stat block files (or stdin) to Daggerheart adversaries.
+ * Text inputs are auto-detected as D&D 5e, Pathfinder 2e, OSR, or
+ * Numenera; JSON inputs hold D&D 5e stat blocks (one or an array),
+ * 5etools/Open5e monster data, or Foundry VTT actor exports. Each creature
+ * is validated and written as Markdown and/or JSON to an output directory,
+ * or printed to stdout.
+ *
+ * File and stream access goes through a CliIO so the command can run
+ * against an in-memory file system in tests.
+ *
+ * @module cli/dhConvert
+ * @version 1.0.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DnD5eMonster } from '../models/dnd5e';
+import {
+  convertFromAnyText,
+  convertFromStatBlock,
+  validateStatBlock,
+  ConversionResult,
+} from '../orchestrator/converter';
+import { detectMonsterJsonFormat, isJsonObject } from '../parsers/jsonImporter';
+import { importFiveTools } from '../parsers/fiveToolsImporter';
+import { importOpen5e } from '../parsers/open5eImporter';
+import { importFoundry } from '../parsers/foundryImporter';
+import { validateAdversary } from '../validation/qualityChecker';
+import { CLI_USAGE, CliOptions, parseCliArgs } from './args';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * File system and stream access used by the command.
+ */
+export interface CliIO {
+  /** Reads a UTF-8 file. */
+  readFile(filePath: string): string;
+  /** Reads all of stdin. */
+  readStdin(): string;
+  /** Writes a UTF-8 file. */
+  writeFile(filePath: string, content: string): void;
+  /** Creates a directory and any missing parents. */
+  makeDir(dirPath: string): void;
+  /** Writes to stdout. */
+  stdout(text: string): void;
+  /** Writes to stderr. */
+  stderr(text: string): void;
+}
+
+/**
+ * One creature read from an input, ready to convert.
+ */
+interface CreatureInput {
+  /** Where the creature came from, for messages. */
+  label: string;
+  /** Converts the creature. */
+  convert(options: CliOptions): ConversionResult;
+}
+
+// ============================================================================
+// EXIT CODES
+// ============================================================================
+
+/** All conversions succeeded. */
+export const EXIT_SUCCESS = 0;
+/** One or more conversions failed. */
+export const EXIT_FAILURE = 1;
+/** Invalid arguments. */
+export const EXIT_USAGE = 2;
+
+// ============================================================================
+// NODE IO
+// ============================================================================
+
+/**
+ * CliIO backed by the real file system and process streams.
+ */
+export const nodeIO: CliIO = {
+  readFile: (filePath) => fs.readFileSync(filePath, 'utf8'),
+  readStdin: () => fs.readFileSync(0, 'utf8'),
+  writeFile: (filePath, content) => fs.writeFileSync(filePath, content, 'utf8'),
+  makeDir: (dirPath) => {
+    fs.mkdirSync(dirPath, { recursive: true });
+  },
+  stdout: (text) => {
+    process.stdout.write(text);
+  },
+  stderr: (text) => {
+    process.stderr.write(text);
+  },
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Turns a creature name into a file name.
+ */
+function toFileSlug(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'adversary';
+}
+
+/**
+ * Returns an error's message.
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Splits an input into the creatures it contains. JSON may hold D&D 5e
+ * stat blocks, 5etools/Open5e monsters, or Foundry VTT actors; import
+ * warnings go to stderr.
+ */
+function readCreatures(source: string, content: string, io: CliIO): CreatureInput[] {
+  const isStdin = source === '-';
+  const isJson = isStdin ? /^\s*[[{]/.test(content) : source.toLowerCase().endsWith('.json');
+  const label = isStdin ? '<stdin>' : source;
+
+  if (!isJson) {
+    return [{ label, convert: (options) => convertFromAnyText(content, options.conversion) }];
+  }
+
+  const parsed: unknown = JSON.parse(content);
+  const format = detectMonsterJsonFormat(parsed);
+
+  if (format !== 'dnd5e') {
+    const imported =
+      format === '5etools' ? importFiveTools(parsed) : format === 'open5e' ? importOpen5e(parsed) : importFoundry(parsed);
+    const inputs: CreatureInput[] = imported.monsters.map((monster) => ({
+      label: `${label}[${monster.name}]`,
+      convert: (options) => convertFromStatBlock(monster, options.conversion),
+    }));
+    const failures: CreatureInput[] = imported.errors.map((error) => ({
+      label,
+      convert: () => {
+        throw new Error(error);
+      },
+    }));
+    for (const warning of imported.warnings) {
+      io.stderr(`${label}: warning: ${warning}\n`);
+    }
+    return [...inputs, ...failures];
+  }
+
+  const entries: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+
+  return entries.map((entry, index) => ({
+    label: entries.length > 1 ? `${label}[${index}]` : label,
+    convert: (options) => {
+      if (!isJsonObject(entry)) {
+        throw new Error(`expected a stat block object, got ${entry === null ? 'null' : typeof entry}`);
+      }
+      const statBlock = entry as unknown as DnD5eMonster;
+      const check = validateStatBlock(statBlock);
+      if (!check.isValid) {
+        throw new Error(check.errors.join('; '));
+      }
+      return convertFromStatBlock(statBlock, options.conversion);
+    },
+  }));
+}
+
+/**
+ * Validates a converted adversary and reports issues.
+ *
+ * @returns True if the adversary passes at the requested strictness
+ */
+function checkAdversary(result: ConversionResult, label: string, options: CliOptions, io: CliIO): boolean {
+  if (options.validation === 'off') {
+    return true;
+  }
+
+  const validation = validateAdversary(result.adversary);
+  const reported = validation.issues.filter((issue) => issue.severity !== 'info');
+  for (const issue of reported) {
+    io.stderr(`${label}: ${issue.severity}: ${issue.field}: ${issue.message}\n`);
+  }
+
+  const hasErrors = reported.some((issue) => issue.severity === 'error');
+  const hasWarnings = reported.some((issue) => issue.severity === 'warning');
+  return !hasErrors && !(options.validation === 'strict' && hasWarnings);
+}
+
+/**
+ * Serializes a result as JSON, leaving out the Markdown and log.
+ */
+function toJson(result: ConversionResult): string {
+  const { markdown: _markdown, conversionLog: _log, ...data } = result;
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+// ============================================================================
+// MAIN COMMAND
+// ============================================================================
+
+/**
+ * Runs the `dh-convert` command.
+ *
+ * Every input is converted even if an earlier one fails; the exit
+ * code reports whether any conversion (or strict validation) failed.
+ *
+ * @param argv - Arguments after the program name
+ * @param io - File system and stream access. Default: real Node IO
+ * @returns Process exit code
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = runCli(['goblin.txt', 'dragon.json', '--out-dir', 'converted']);
+ * ```
+ */
+export function runCli(argv: string[], io: CliIO = nodeIO): number {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr(`dh-convert: ${errorMessage(error)}\nRun "dh-convert --help" for usage.\n`);
+    return EXIT_USAGE;
+  }
+
+  if (options.help) {
+    io.stdout(`${CLI_USAGE}\n`);
+    return EXIT_SUCCESS;
+  }
+
+  const format = options.conversion.outputFormat ?? 'markdown';
+  const writeMarkdown = format === 'markdown' || format === 'both';
+  const writeJson = format === 'json' || format === 'both';
+  const sources = options.inputs.length > 0 ? options.inputs : ['-'];
+  const usedSlugs = new Map<string, number>();
+  const printed: string[] = [];
+  let converted = 0;
+  let failed = 0;
+
+  if (options.outDir !== undefined) {
+    try {
+      io.makeDir(options.outDir);
+    } catch (error) {
+      io.stderr(`${options.outDir}: error: ${errorMessage(error)}\n`);
+      return EXIT_FAILURE;
+    }
+  }
+
+  for (const source of sources) {
+    let creatures: CreatureInput[];
+    try {
+      const content = source === '-' ? io.readStdin() : io.readFile(source);
+      creatures = readCreatures(source, content, io);
+    } catch (error) {
+      io.stderr(`${source === '-' ? '<stdin>' : source}: error: ${errorMessage(error)}\n`);
+      failed++;
+      continue;
+    }
+
+    for (const creature of creatures) {
+      let result: ConversionResult;
+      try {
+        result = creature.convert(options);
+      } catch (error) {
+        io.stderr(`${creature.label}: error: ${errorMessage(error)}\n`);
+        failed++;
+        continue;
+      }
+
+      if (options.verbose) {
+        for (const line of result.conversionLog) {
+          io.stderr(`${creature.label}: ${line}\n`);
+        }
+      }
+
+      if (!checkAdversary(result, creature.label, options, io)) {
+        io.stderr(`${creature.label}: error: ${result.adversary.name} failed ${options.validation} validation\n`);
+        failed++;
+        continue;
+      }
+
+      if (options.outDir === undefined) {
+        if (writeMarkdown && result.markdown) {
+          printed.push(`${result.markdown}\n`);
+        }
+        if (writeJson) {
+          printed.push(toJson(result));
+        }
+        converted++;
+        continue;
+      }
+
+      // Keep file names unique when creatures share a name
+      const baseSlug = toFileSlug(result.adversary.name);
+      const count = (usedSlugs.get(baseSlug) ?? 0) + 1;
+      usedSlugs.set(baseSlug, count);
+      const slug = count > 1 ? `${baseSlug}-${count}` : baseSlug;
+
+      const outputs: Array<[string, string]> = [];
+      if (writeMarkdown && result.markdown) {
+        outputs.push([path.join(options.outDir, `${slug}.md`), `${result.markdown}\n`]);
+      }
+      if (writeJson) {
+        outputs.push([path.join(options.outDir, `${slug}.json`), toJson(result)]);
+      }
+
+      let written = true;
+      for (const [filePath, content] of outputs) {
+        try {
+          io.writeFile(filePath, content);
+          io.stderr(`${creature.label}: wrote ${filePath}\n`);
+        } catch (error) {
+          io.stderr(`${filePath}: error: ${errorMessage(error)}\n`);
+          written = false;
+        }
+      }
+      if (written) {
+        converted++;
+      } else {
+        failed++;
+      }
+    }
+  }
+
+  if (printed.length > 0) {
+    io.stdout(printed.join('\n'));
+  }
+
+  const total = converted + failed;
+  io.stderr(`Converted ${converted} of ${total} creature${total === 1 ? '' : 's'}` +
+    `${failed > 0 ? ` (${failed} failed)` : ''}\n`);
+
+  return failed > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+}
@@ -0,0 +1,21 @@
+/**
+ * CLI Module
+ *
+ * Exports the `dh-convert` command and its argument parser.
+ *
+ * @module cli
+ * @version 1.0.0
+ */
+
+// Argument parsing
+export { parseCliArgs, CLI_USAGE, type CliOptions, type ValidationMode } from './args';
+
+// Command
+export {
+  runCli,
+  nodeIO,
+  EXIT_SUCCESS,
+  EXIT_FAILURE,
+  EXIT_USAGE,
+  type CliIO,
+} from './dhConvert';
@@ -0,0 +1,589 @@
+/**
+ * Aberration and Psionic Creature Conversion Logic
+ *
+ * Specialized handling for mind flayers, beholders, aboleths, and other
+ * aberrations, plus any creature with psionic innate casting. Recognizes
+ * their signature mind-bending abilities and converts them into Daggerheart
+ * features with costs, Reaction Rolls, and conditions.
+ *
+ * Converted Abilities:
+ * | Source Ability                 | Daggerheart Feature                         |
+ * |--------------------------------|---------------------------------------------|
+ * | Eye Rays                       | Action (1 Fear): random ray table           |
+ * | Die-roll effect tables         | Action (1 Fear): random effect table        |
+ * | Mind Blast                     | Action (Stress): psychic blast, Disoriented |
+ * | Enslave / Dominate             | Action (1 Fear): Charmed under its control  |
+ * | Innate Spellcasting (Psionics) | Passive: Psionics, plus a Dominate action   |
+ *
+ * Mental saves become Instinct (Intelligence, Wisdom) or Presence (Charisma)
+ * Reaction Rolls; other saves use the standard attribute mapping.
+ *
+ * @module aberrationConversion
+ * @version 1.0.0
+ */
+
+import { DnD5eMonster, CreatureType, AbilityScore, DnD5eCondition } from '../models/dnd5e';
+import {
+  Feature,
+  FeatureType,
+  FeatureCostType,
+  DamageType,
+  Attribute,
+  Condition,
+  RangeBand,
+} from '../models/daggerheart';
+import { feetToRangeBand } from './attackConversion';
+import { ABILITY_TO_ATTRIBUTE, CONDITION_MAP, dcToDifficulty, getAbilities } from './featureConversion';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+/**
+ * Recognized aberration subtypes for specialized conversion.
+ */
+export type AberrationSubtype = 'illithid' | 'beholder' | 'aboleth' | 'generic_aberration';
+
+/**
+ * Result of aberration-specific conversion.
+ */
+export interface AberrationConversionResult {
+  /** Detected subtype */
+  subtype: AberrationSubtype;
+  /** Whether the creature casts its innate spells psionically */
+  isPsionic: boolean;
+  /** Features converted from the creature's aberrant abilities */
+  thematicFeatures: Feature[];
+  /** Names of generically converted features these replace */
+  replacedFeatures: string[];
+  /** Suggested motives appropriate for the subtype */
+  suggestedMotives: string[];
+  /** Notes about the conversion decisions */
+  conversionNotes: string[];
+}
+
+/**
+ * A named ability from the stat block, with any parsed usage limits.
+ */
+type Ability = NonNullable<DnD5eMonster['actions']>[number];
+
+// ============================================================================
+// DETECTION PATTERNS
+// ============================================================================
+
+/**
+ * Patterns for detecting subtypes from the name.
+ */
+const SUBTYPE_PATTERNS: Array<{ pattern: RegExp; subtype: AberrationSubtype }> = [
+  { pattern: /\bmind flayer\b|\billithid\b/i, subtype: 'illithid' },
+  { pattern: /\bbeholder\b|\beye tyrant\b|\bspectator\b|\bgauth\b/i, subtype: 'beholder' },
+  { pattern: /\baboleth\b/i, subtype: 'aboleth' },
+];
+
+/**
+ * Motives for each subtype.
+ */
+const SUBTYPE_MOTIVES: Record<AberrationSubtype, string[]> = {
+  illithid: ['Feed on minds', 'Enthrall servants', 'Serve the colony', 'Study lesser beings'],
+  beholder: ['Eliminate rivals', 'Guard its lair', 'Prove its perfection', 'Hoard treasures'],
+  aboleth: ['Reclaim a lost empire', 'Enslave surface dwellers', 'Hoard ancient memories'],
+  generic_aberration: ['Consume the unfamiliar', 'Twist minds', 'Spread alien influence'],
+};
+
+/**
+ * Innate spells that seize control of a mind.
+ */
+const MIND_CONTROL_SPELLS = /\b(dominate (?:monster|person|beast)|charm (?:monster|person)|(?:mass )?suggestion)\b/i;
+
+/**
+ * Saving throw ability names as they appear in stat block text.
+ */
+const SAVE_ABILITIES: Record<string, AbilityScore> = {
+  strength: AbilityScore.STRENGTH,
+  dexterity: AbilityScore.DEXTERITY,
+  constitution: AbilityScore.CONSTITUTION,
+  intelligence: AbilityScore.INTELLIGENCE,
+  wisdom: AbilityScore.WISDOM,
+  charisma: AbilityScore.CHARISMA,
+};
+
+/**
+ * Mental saves resisted with Instinct or Presence rather than Knowledge.
+ */
+const MENTAL_SAVE_ATTRIBUTE: Partial<Record<AbilityScore, Attribute>> = {
+  [AbilityScore.INTELLIGENCE]: Attribute.INSTINCT,
+  [AbilityScore.WISDOM]: Attribute.INSTINCT,
+  [AbilityScore.CHARISMA]: Attribute.PRESENCE,
+};
+
+/**
+ * Number words used for ray counts ("fires three of the following rays").
+ */
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+// ============================================================================
+// DETECTION FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds an Innate Spellcasting trait cast psionically, with no components.
+ */
+function findPsionicTrait(statBlock: DnD5eMonster): Ability | undefined {
+  return statBlock.traits?.find(
+    (t) =>
+      /innate spellcasting/i.test(t.name) &&
+      (/psionic/i.test(`${t.name} ${t.description}`) ||
+        /requiring no components/i.test(t.description))
+  );
+}
+
+/**
+ * Checks if a stat block represents an aberration or a psionic creature.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns True if the creature is an aberration or casts psionically
+ */
+export function isAberrationOrPsionic(statBlock: DnD5eMonster): boolean {
+  return statBlock.creatureType === CreatureType.ABERRATION || findPsionicTrait(statBlock) !== undefined;
+}
+
+/**
+ * Detects the aberration subtype from its name, falling back to its
+ * signature ability.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns Detected subtype
+ */
+export function detectAberrationSubtype(statBlock: DnD5eMonster): AberrationSubtype {
+  for (const { pattern, subtype } of SUBTYPE_PATTERNS) {
+    if (pattern.test(statBlock.name)) {
+      return subtype;
+    }
+  }
+
+  if (statBlock.creatureType !== CreatureType.ABERRATION) {
+    return 'generic_aberration';
+  }
+
+  const abilities = getAbilities(statBlock);
+  if (abilities.some((a) => /^eye rays?\b/i.test(a.name))) return 'beholder';
+  if (abilities.some((a) => /^mind blast\b/i.test(a.name))) return 'illithid';
+  if (abilities.some((a) => /^enslave\b/i.test(a.name))) return 'aboleth';
+
+  return 'generic_aberration';
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Maps a saving throw ability to its Reaction Roll attribute.
+ */
+function saveToAttribute(ability: AbilityScore): Attribute {
+  return MENTAL_SAVE_ATTRIBUTE[ability] ?? ABILITY_TO_ATTRIBUTE[ability] ?? Attribute.INSTINCT;
+}
+
+/**
+ * Reads "DC 16 Wisdom saving throw" from ability text.
+ */
+function parseSave(text: string): { ability: AbilityScore; dc: number } | undefined {
+  const match = text.match(/DC\s*(\d+)\s+(\w+)\s+saving throw/i);
+  const ability = match?.[2] ? SAVE_ABILITIES[match[2].toLowerCase()] : undefined;
+  if (!match?.[1] || !ability) return undefined;
+  return { ability, dc: parseInt(match[1], 10) };
+}
+
+/**
+ * Reads the first range in feet ("within 120 feet") as a range band.
+ */
+function parseRange(text: string, fallback: RangeBand): RangeBand {
+  const distance = text.match(/within (\d+) f(?:ee)?t/i);
+  return distance?.[1] ? feetToRangeBand(parseInt(distance[1], 10)) : fallback;
+}
+
+/**
+ * Formats a Reaction Roll, e.g. "an Instinct Reaction Roll (16)".
+ */
+function describeRoll(attribute: Attribute, difficulty?: number): string {
+  const article = /^[AEIOU]/.test(attribute) ? 'an' : 'a';
+  return `${article} ${attribute} Reaction Roll${difficulty ? ` (${difficulty})` : ''}`;
+}
+
+/**
+ * Finds the first D&D condition named in the text and maps it.
+ */
+function findCondition(text: string): Condition | undefined {
+  const normalized = text.replace(/\basleep\b/i, 'unconscious');
+  for (const condition of Object.values(DnD5eCondition)) {
+    if (new RegExp(`\\b${condition}\\b`, 'i').test(normalized)) {
+      return CONDITION_MAP[condition];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Adds a condition to a feature's applied conditions, once.
+ */
+function addCondition(feature: Feature, condition: Condition): void {
+  const conditions = feature.appliedConditions ?? [];
+  if (!conditions.includes(condition)) {
+    feature.appliedConditions = [...conditions, condition];
+  }
+}
+
+// ============================================================================
+// FEATURE CONVERTERS
+// ============================================================================
+
+/**
+ * Converts a numbered eye ray list into one Fear-costed random table.
+ */
+function convertEyeRays(statBlock: DnD5eMonster, result: AberrationConversionResult): void {
+  const ability = statBlock.actions?.find((a) => /^eye rays?\b/i.test(a.name));
+  if (!ability) return;
+
+  const rays = [
+    ...ability.description.matchAll(/(?:^|\s)(\d+)\.\s+([A-Z][\w' -]*?)\.\s+([\s\S]*?)(?=\s+\d+\.\s+[A-Z]|$)/g),
+  ];
+  if (rays.length === 0) return;
+
+  const intro = ability.description.slice(0, rays[0]?.index ?? 0);
+  const countWord = intro.match(/\b(one|two|three|four|five|six|\d+) of the following/i)?.[1]?.toLowerCase();
+  const count = countWord ? NUMBER_WORDS[countWord] ?? parseInt(countWord, 10) : 1;
+  const range = parseRange(intro, RangeBand.FAR);
+  const die = [4, 6, 8, 10, 12, 20].includes(rays.length) ? `a d${rays.length}` : 'randomly';
+
+  const feature: Feature = {
+    name: 'Eye Rays',
+    type: FeatureType.ACTION,
+    description: '',
+    cost: { type: FeatureCostType.FEAR, amount: 1 },
+    target: `Up to ${count} target${count === 1 ? '' : 's'} within ${range} range`,
+  };
+
+  const entries = rays.map(([, number, name, text = '']) => {
+    const save = parseSave(text);
+    const dice = text.match(/\((\d+)d(\d+)(?:\s*[+-]\s*\d+)?\)\s+\w+\s+damage/i);
+    const condition = findCondition(text);
+    const outcomes: string[] = [];
+
+    if (dice?.[1] && dice[2]) {
+      const diceCount = Math.max(1, Math.ceil(parseInt(dice[1], 10) / 2));
+      const half = /half as much/i.test(text) ? ' (half on a success)' : '';
+      outcomes.push(`take ${diceCount}d${dice[2]} magic damage${half}`);
+    }
+    if (condition) {
+      outcomes.push(`become ${condition}`);
+      addCondition(feature, condition);
+    }
+
+    if (!save || outcomes.length === 0) {
+      const firstSentence = text.match(/^[^.]+\./)?.[0] ?? text;
+      return `${number}. ${name}: ${firstSentence.replace(/\.$/, '')}`;
+    }
+    const roll = describeRoll(saveToAttribute(save.ability), dcToDifficulty(save.dc));
+    return `${number}. ${name}: ${roll.charAt(0).toUpperCase()}${roll.slice(1)} or ${outcomes.join(' and ')}`;
+  });
+
+  feature.description =
+    `Spend a Fear to fire ${count} eye ray${count === 1 ? '' : 's'} at up to ${count} ` +
+    `target${count === 1 ? '' : 's'} within ${range} range. Roll ${die} for each ray: ${entries.join('; ')}.`;
+
+  result.replacedFeatures.push(ability.name);
+  result.thematicFeatures.push(feature);
+  result.conversionNotes.push(
+    `${ability.name}: ${rays.length} rays combined into one Fear action; ray damage dice halved`
+  );
+}
+
+/**
+ * Converts "roll a d8 to determine what it does" tables into a Fear-costed
+ * action with the table in its description.
+ */
+function convertEffectTables(statBlock: DnD5eMonster, result: AberrationConversionResult): void {
+  for (const ability of getAbilities(statBlock)) {
+    if (result.replacedFeatures.includes(ability.name)) continue;
+
+    const die = ability.description.match(/\brolls? an? d(\d+)\b/i);
+    const entries = [
+      ...ability.description.matchAll(/On an? (\d+)(?:\s*(?:to|or|-|–)\s*(\d+))?,\s*([^.]+)\./g),
+    ];
+    if (!die?.[1] || entries.length < 2) continue;
+
+    const save = parseSave(ability.description);
+    const attribute = save ? saveToAttribute(save.ability) : Attribute.INSTINCT;
+    const isMental = save !== undefined && MENTAL_SAVE_ATTRIBUTE[save.ability] !== undefined;
+    const range = parseRange(ability.description, RangeBand.CLOSE);
+    const table = entries
+      .map(([, low, high, effect = '']) => `${low}${high ? `–${high}` : ''}: ${effect.trim()}`)
+      .join('; ');
+
+    const feature: Feature = {
+      name: ability.name,
+      type: FeatureType.ACTION,
+      description:
+        `Spend a Fear to unleash its ${ability.name.toLowerCase()}. Each creature within ${range} range ` +
+        `makes ${describeRoll(attribute, save ? dcToDifficulty(save.dc) : undefined)}. On a failure, they ` +
+        `${isMental ? 'become Disoriented and ' : ''}roll a d${die[1]} to see what they do the next time ` +
+        `they act: ${table}.`,
+      cost: { type: FeatureCostType.FEAR, amount: 1 },
+      target: `All creatures within ${range} range`,
+      reactionRollAttribute: attribute,
+    };
+    if (save) {
+      feature.reactionRollDifficulty = dcToDifficulty(save.dc);
+    }
+    if (isMental) {
+      feature.appliedConditions = [Condition.DISORIENTED];
+    }
+
+    result.replacedFeatures.push(ability.name);
+    result.thematicFeatures.push(feature);
+    result.conversionNotes.push(`${ability.name}: d${die[1]} effect table converted to a Fear action`);
+  }
+}
+
+/**
+ * Converts a psychic area blast that stuns into a Disorienting action.
+ */
+function convertMindBlast(statBlock: DnD5eMonster, result: AberrationConversionResult): void {
+  const ability = statBlock.actions?.find(
+    (a) =>
+      /^mind blast\b/i.test(a.name) ||
+      (/psychic damage/i.test(a.description) &&
+        a.areaOfEffect !== undefined &&
+        /\b(stunned|incapacitated)\b/i.test(a.description))
+  );
+  if (!ability) return;
+
+  const save = ability.savingThrow ?? parseSave(ability.description);
+  const attribute = save ? saveToAttribute(save.ability) : Attribute.INSTINCT;
+  const difficulty = save ? dcToDifficulty(save.dc) : undefined;
+  const range = ability.areaOfEffect ? feetToRangeBand(ability.areaOfEffect.size) : RangeBand.CLOSE;
+  const area = ability.areaOfEffect?.type === 'cone' ? `in front of it within ${range} range` : `within ${range} range`;
+
+  // Recharge follows the standard Stress costs; otherwise it costs Fear
+  const stress = ability.recharge ? (ability.recharge.minRoll >= 6 ? 2 : 1) : 0;
+  const costText = stress > 0 ? `Mark ${stress === 1 ? 'a' : stress} Stress` : 'Spend a Fear';
+
+  const feature: Feature = {
+    name: ability.name,
+    type: FeatureType.ACTION,
+    description: '',
+    cost: stress > 0 ? { type: FeatureCostType.STRESS, amount: stress } : { type: FeatureCostType.FEAR, amount: 1 },
+    target: `All targets ${area}`,
+    reactionRollAttribute: attribute,
+    appliedConditions: [Condition.DISORIENTED],
+  };
+  if (difficulty) {
+    feature.reactionRollDifficulty = difficulty;
+  }
+
+  let damageText = '';
+  const dice = ability.damage?.dice;
+  if (dice) {
+    const diceSize = ([4, 6, 8, 10, 12] as const).find((size) => size >= dice.dieSize) ?? 12;
+    feature.damage = {
+      diceCount: dice.count,
+      diceSize,
+      modifier: dice.modifier,
+      damageType: DamageType.MAGIC,
+    };
+    damageText = `take ${dice.count}d${diceSize}${dice.modifier ? `+${dice.modifier}` : ''} magic damage and `;
+  }
+
+  feature.description =
+    `${costText} to unleash a wave of psychic force. Each target ${area} makes ` +
+    `${describeRoll(attribute, difficulty)}. Targets who fail ${damageText}become Disoriented. ` +
+    'They can repeat the roll the next time they act, clearing the condition on a success.';
+
+  result.replacedFeatures.push(ability.name);
+  result.thematicFeatures.push(feature);
+  result.conversionNotes.push(`${ability.name}: stun converted to Disoriented`);
+}
+
+/**
+ * Builds a Fear-costed mind-control action that applies Charmed.
+ */
+function buildMindControl(
+  name: string,
+  range: RangeBand,
+  attribute: Attribute,
+  difficulty: number | undefined,
+  repeatsOnDamage: boolean
+): Feature {
+  const sentences = [
+    `Spend a Fear to seize the mind of a target within ${range} range. They make ${describeRoll(attribute, difficulty)}.`,
+    "On a failure, they become Charmed: the GM directs their actions, they can't make reactions, and the effect lasts until the adversary is defeated.",
+  ];
+  if (repeatsOnDamage) {
+    sentences.push('Whenever they take damage, they can repeat the roll, clearing the condition on a success.');
+  }
+
+  const feature: Feature = {
+    name,
+    type: FeatureType.ACTION,
+    description: sentences.join(' '),
+    cost: { type: FeatureCostType.FEAR, amount: 1 },
+    target: `One target within ${range} range`,
+    reactionRollAttribute: attribute,
+    appliedConditions: [Condition.CHARMED],
+  };
+  if (difficulty) {
+    feature.reactionRollDifficulty = difficulty;
+  }
+  return feature;
+}
+
+/**
+ * Converts Enslave and other charm-and-control abilities.
+ */
+function convertMindControl(statBlock: DnD5eMonster, result: AberrationConversionResult): void {
+  const ability = getAbilities(statBlock).find(
+    (a) =>
+      !result.replacedFeatures.includes(a.name) &&
+      (/^(enslave|dominate)\b/i.test(a.name) ||
+        (/\bcharmed\b/i.test(a.description) && /\bcontrol\b/i.test(a.description)))
+  );
+  if (!ability) return;
+
+  const save = parseSave(ability.description);
+  const feature = buildMindControl(
+    ability.name,
+    parseRange(ability.description, RangeBand.FAR),
+    save ? saveToAttribute(save.ability) : Attribute.INSTINCT,
+    save ? dcToDifficulty(save.dc) : undefined,
+    /takes damage, the target can repeat the saving throw/i.test(ability.description)
+  );
+
+  result.replacedFeatures.push(ability.name);
+  result.thematicFeatures.push(feature);
+  if (ability.uses) {
+    result.conversionNotes.push(`${ability.name}: ${ability.uses.count}/${ability.uses.rechargeOn} replaced by a Fear cost`);
+  }
+}
+
+/**
+ * Converts psionic innate spellcasting into a Psionics passive, adding a
+ * Dominate action for mind-control spells.
+ */
+function convertPsionics(statBlock: DnD5eMonster, result: AberrationConversionResult): void {
+  const trait = findPsionicTrait(statBlock);
+  if (!trait) return;
+
+  const groups = [
+    ...trait.description.matchAll(/(at will|\d\/day(?: each)?):\s*(.+?)(?=\s*\b\d\/day|$)/gis),
+  ].map(([, frequency = '', spells = '']) => {
+    const names = spells.replace(/\s*\([^)]*\)/g, '').trim().replace(/\.$/, '');
+    return `${names} (${frequency.toLowerCase()})`;
+  });
+
+  const sentences = [
+    "Casts its innate spells with its mind alone, needing no words or gestures; effects that silence it or bind its hands can't stop them.",
+  ];
+  if (groups.length > 0) {
+    sentences.push(`Spells: ${groups.join('; ')}.`);
+  }
+
+  result.replacedFeatures.push(trait.name);
+  result.thematicFeatures.push({
+    name: 'Psionics',
+    type: FeatureType.PASSIVE,
+    description: sentences.join(' '),
+  });
+
+  // Spellcasting parsed from an importer gets its own spell features
+  const spell = trait.description.match(MIND_CONTROL_SPELLS)?.[1];
+  const hasMindControl = result.thematicFeatures.some((f) =>
+    f.appliedConditions?.includes(Condition.CHARMED)
+  );
+  if (!spell || hasMindControl || statBlock.spellcasting) return;
+
+  const dc = trait.description.match(/spell save DC\s*(\d+)/i);
+  result.thematicFeatures.push(
+    buildMindControl(
+      /^dominate/i.test(spell) ? 'Dominate' : 'Psionic Suggestion',
+      RangeBand.FAR,
+      Attribute.INSTINCT,
+      dc?.[1] ? dcToDifficulty(parseInt(dc[1], 10)) : undefined,
+      /^dominate/i.test(spell)
+    )
+  );
+  result.conversionNotes.push(`${trait.name}: ${spell.toLowerCase()} converted to a Fear action`);
+}
+
+// ============================================================================
+// MAIN CONVERSION FUNCTION
+// ============================================================================
+
+/**
+ * Converts an aberration or psionic creature, replacing its generically
+ * converted mind-bending abilities with thematic Daggerheart features.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns Conversion result with features and motives
+ *
+ * @example
+ * ```typescript
+ * const result = convertAberration(aboleth);
+ * // result.subtype: "aboleth"
+ * // result.thematicFeatures: [Enslave]
+ * // result.thematicFeatures[0].appliedConditions: ["Charmed"]
+ * ```
+ */
+export function convertAberration(statBlock: DnD5eMonster): AberrationConversionResult {
+  if (!isAberrationOrPsionic(statBlock)) {
+    return {
+      subtype: 'generic_aberration',
+      isPsionic: false,
+      thematicFeatures: [],
+      replacedFeatures: [],
+      suggestedMotives: [],
+      conversionNotes: ['Creature is not an aberration or psionic - no conversion performed'],
+    };
+  }
+
+  const subtype = detectAberrationSubtype(statBlock);
+  const isAberration = statBlock.creatureType === CreatureType.ABERRATION;
+  const result: AberrationConversionResult = {
+    subtype,
+    isPsionic: findPsionicTrait(statBlock) !== undefined,
+    thematicFeatures: [],
+    replacedFeatures: [],
+    suggestedMotives: isAberration ? [...SUBTYPE_MOTIVES[subtype]] : [],
+    conversionNotes: [`Detected subtype: ${subtype}`],
+  };
+
+  convertEyeRays(statBlock, result);
+  convertEffectTables(statBlock, result);
+  convertMindBlast(statBlock, result);
+  convertMindControl(statBlock, result);
+  convertPsionics(statBlock, result);
+
+  result.conversionNotes.push(`Converted ${result.thematicFeatures.length} aberrant abilities`);
+
+  return result;
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Gets the display name for an aberration subtype.
+ *
+ * @param subtype - Aberration subtype
+ * @returns Human-readable name
+ */
+export function getAberrationSubtypeName(subtype: AberrationSubtype): string {
+  const names: Record<AberrationSubtype, string> = {
+    illithid: 'Illithid',
+    beholder: 'Beholder',
+    aboleth: 'Aboleth',
+    generic_aberration: 'Aberration',
+  };
+
+  return names[subtype];
+}
@@ -255,6 +255,20 @@ export function convertRange(attack: DnD5eAttack): RangeBand {
   return RangeBand.CLOSE;
 }
 
+/**
+ * Converts a distance in feet from ability text to a Daggerheart range band.
+ *
+ * @param feet - Distance in feet
+ * @returns Daggerheart range band
+ */
+export function feetToRangeBand(feet: number): RangeBand {
+  if (feet <= 5) return RangeBand.MELEE;
+  if (feet <= 10) return RangeBand.VERY_CLOSE;
+  if (feet <= 30) return RangeBand.CLOSE;
+  if (feet <= 100) return RangeBand.FAR;
+  return RangeBand.VERY_FAR;
+}
+
 // ============================================================================
 // MAIN CONVERSION FUNCTIONS
 // ============================================================================
@@ -15,6 +15,7 @@ import {
   parseCR,
   calculateModifier,
 } from '../models/dnd5e';
+import { detectSwarm, decidePackGroup } from './swarmConversion';
 
 // ============================================================================
 // TYPES
@@ -384,44 +385,6 @@ function checkSolo(
   return { isSolo: false, reason: '' };
 }
 
-/**
- * Determines if a monster should be classified as a Swarm.
- * @param monster - The D&D 5e monster
- * @returns Object with result and reasoning
- */
-function checkSwarm(monster: DnD5eMonster): { isSwarm: boolean; reason: string } {
-  // Check subtypes for "swarm"
-  if (monster.subtypes) {
-    const hasSwarmSubtype = monster.subtypes.some(
-      (subtype) => subtype.toLowerCase() === 'swarm'
-    );
-    if (hasSwarmSubtype) {
-      return { isSwarm: true, reason: 'Creature type includes "swarm" subtype' };
-    }
-  }
-
-  // Check name for "swarm of"
-  if (monster.name.toLowerCase().includes('swarm of')) {
-    return { isSwarm: true, reason: 'Name indicates swarm creature' };
-  }
-
-  // Check traits for swarm-related abilities
-  if (monster.traits) {
-    for (const trait of monster.traits) {
-      const traitText = `${trait.name} ${trait.description}`.toLowerCase();
-      if (
-        traitText.includes('swarm') &&
-        (traitText.includes("can occupy another creature's space") ||
-          traitText.includes('swarm has hit point'))
-      ) {
-        return { isSwarm: true, reason: 'Has swarm-specific traits' };
-      }
-    }
-  }
-
-  return { isSwarm: false, reason: '' };
-}
-
 /**
  * Determines if a monster should be classified as a Minion.
  * @param monster - The D&D 5e monster
@@ -467,35 +430,6 @@ function checkMinion(
   return { isMinion: false, confidence: 0, reason: '' };
 }
 
-/**
- * Determines if a monster should be classified as a Horde.
- * @param monster - The D&D 5e monster
- * @param cr - Numeric CR value
- * @returns Object with result and reasoning
- */
-function checkHorde(
-  monster: DnD5eMonster,
-  cr: number
-): { isHorde: boolean; reason: string } {
-  // Check for pack tactics or similar group-based traits
-  if (monster.traits) {
-    for (const trait of monster.traits) {
-      const traitLower = trait.name.toLowerCase();
-      if (traitLower.includes('pack tactics') || traitLower.includes('mob')) {
-        // Pack tactics creatures at low CR are good horde candidates
-        if (cr <= 2) {
-          return {
-            isHorde: true,
-            reason: `Has "${trait.name}" suggesting group combat role`,
-          };
-        }
-      }
-    }
-  }
-
-  return { isHorde: false, reason: '' };
-}
-
 // ============================================================================
 // COMBAT ROLE CLASSIFICATION
 // ============================================================================
@@ -667,8 +601,8 @@ function determineRole(monster: DnD5eMonster): {
  * Classification priority:
  * 1. Swarm - Detected by subtype or name
  * 2. Solo - Legendary/mythic actions, high CR
- * 3. Minion - Very low CR, low HP
- * 4. Horde - Pack tactics at low CR
+ * 3. Horde or grouped Minions - Pack tactics at low CR, by HP
+ * 4. Minion - Very low CR, low HP
  * 5. Standard - Default fallback
  *
  * Combat roles are assigned based on abilities, spells, and stat distribution.
@@ -696,7 +630,7 @@ export function classifyAdversary(monster: DnD5eMonster): ClassificationResult {
   let confidence = 0.7; // Default confidence for Standard
 
   // === Step 1: Check for Swarm ===
-  const swarmCheck = checkSwarm(monster);
+  const swarmCheck = detectSwarm(monster);
   if (swarmCheck.isSwarm) {
     type = AdversaryType.SWARM;
     confidence = 0.95;
@@ -731,31 +665,29 @@ export function classifyAdversary(monster: DnD5eMonster): ClassificationResult {
     };
   }
 
-  // === Step 3: Check for Minion ===
-  const minionCheck = checkMinion(monster, cr);
-  if (minionCheck.isMinion) {
-    type = AdversaryType.MINION;
-    confidence = minionCheck.confidence;
-    reasoningParts.push(minionCheck.reason);
+  // === Step 3: Decide between Horde and grouped Minions for packs ===
+  const packDecision = decidePackGroup(monster, cr);
+  if (packDecision) {
+    reasoningParts.push(packDecision.reason);
 
     return {
-      type,
-      role: undefined, // Minions don't have combat roles
-      confidence,
+      type: packDecision.type,
+      role: undefined, // Hordes and Minions act as a unit
+      confidence: packDecision.type === AdversaryType.HORDE ? 0.75 : 0.8,
       reasoning: reasoningParts.join('; '),
     };
   }
 
-  // === Step 4: Check for Horde ===
-  const hordeCheck = checkHorde(monster, cr);
-  if (hordeCheck.isHorde) {
-    type = AdversaryType.HORDE;
-    confidence = 0.75;
-    reasoningParts.push(hordeCheck.reason);
+  // === Step 4: Check for Minion ===
+  const minionCheck = checkMinion(monster, cr);
+  if (minionCheck.isMinion) {
+    type = AdversaryType.MINION;
+    confidence = minionCheck.confidence;
+    reasoningParts.push(minionCheck.reason);
 
     return {
       type,
-      role: undefined, // Hordes act as a unit
+      role: undefined, // Minions don't have combat roles
       confidence,
       reasoning: reasoningParts.join('; '),
     };
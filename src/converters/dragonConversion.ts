@@ -74,6 +74,8 @@ export interface DragonConversionResult {
   ageCategory: DragonAge;
   /** Converted breath weapon feature */
   breathWeapon: Feature;
+  /** Names of generically converted breath actions the breath weapon replaces */
+  replacedFeatures: string[];
   /** Legendary and special dragon features */
   legendaryFeatures: Feature[];
   /** Thematic motives appropriate for dragon type */
@@ -386,14 +388,15 @@ function getBreathWeaponDice(age: DragonAge): number {
  * @param color - Dragon color
  * @param age - Dragon age category
  * @param recharge - D&D recharge specification
+ * @param element - Breath element, when known from something other than color
  * @returns Breath weapon feature
  */
 function createBreathWeapon(
   color: DragonColor,
   age: DragonAge,
-  recharge?: { minRoll: number; maxRoll?: number }
+  recharge?: { minRoll: number; maxRoll?: number },
+  element: string = DRAGON_ELEMENT[color]
 ): Feature {
-  const element = DRAGON_ELEMENT[color];
   const shape = BREATH_SHAPE[color];
   const range = getBreathWeaponRange(age, shape);
   const diceCount = getBreathWeaponDice(age);
@@ -757,6 +760,7 @@ export function convertDragon(statBlock: DnD5eMonster): DragonConversionResult {
         type: FeatureType.ACTION,
         description: 'Not a dragon - no breath weapon conversion performed.',
       },
+      replacedFeatures: [],
       legendaryFeatures: [],
       thematicMotives: [],
       conversionNotes: ['Creature is not a dragon - no conversion performed'],
@@ -772,9 +776,19 @@ export function convertDragon(statBlock: DnD5eMonster): DragonConversionResult {
   // Extract breath weapon recharge from original stat block
   const recharge = extractBreathRecharge(statBlock);
 
-  // Create breath weapon
-  const breathWeapon = createBreathWeapon(color, age, recharge);
-  conversionNotes.push(`Breath weapon: ${DRAGON_ELEMENT[color]}, ${breathWeapon.cost?.amount} Stress`);
+  // Create breath weapon, taking an unknown color's element from its own breath
+  const breathDamage = statBlock.actions?.find((action) => /breath/i.test(action.name))?.damage?.damageType;
+  const element =
+    color === 'unknown' && breathDamage
+      ? breathDamage.charAt(0).toUpperCase() + breathDamage.slice(1)
+      : DRAGON_ELEMENT[color];
+  const breathWeapon = createBreathWeapon(color, age, recharge, element);
+  conversionNotes.push(`Breath weapon: ${element}, ${breathWeapon.cost?.amount} Stress`);
+
+  // The stat block's own breath actions are replaced, not kept alongside it
+  const replacedFeatures = [...(statBlock.actions ?? []), ...(statBlock.traits ?? [])]
+    .map((ability) => ability.name)
+    .filter((name) => /breath/i.test(name) && name !== breathWeapon.name);
 
   // Check if original had legendary actions
   const hasLegendary = !!statBlock.legendaryActions;
@@ -791,6 +805,7 @@ export function convertDragon(statBlock: DnD5eMonster): DragonConversionResult {
     dragonType: color,
     ageCategory: age,
     breathWeapon,
+    replacedFeatures,
     legendaryFeatures,
     thematicMotives,
     conversionNotes,
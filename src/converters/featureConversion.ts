@@ -250,7 +250,7 @@ const REACTION_TRIGGER_PATTERNS: Array<{
 /**
  * Maps D&D conditions to Daggerheart conditions.
  */
-const CONDITION_MAP: Record<DnD5eCondition, Condition | undefined> = {
+export const CONDITION_MAP: Record<DnD5eCondition, Condition | undefined> = {
   [DnD5eCondition.BLINDED]: Condition.DISORIENTED,
   [DnD5eCondition.CHARMED]: Condition.CHARMED,
   [DnD5eCondition.DEAFENED]: Condition.DISORIENTED,
@@ -275,7 +275,7 @@ const CONDITION_MAP: Record<DnD5eCondition, Condition | undefined> = {
 /**
  * Maps D&D ability scores to Daggerheart attributes for Reaction Rolls.
  */
-const ABILITY_TO_ATTRIBUTE: Record<string, Attribute> = {
+export const ABILITY_TO_ATTRIBUTE: Record<string, Attribute> = {
   STR: Attribute.STRENGTH,
   DEX: Attribute.AGILITY,
   CON: Attribute.STRENGTH,
@@ -284,6 +284,42 @@ const ABILITY_TO_ATTRIBUTE: Record<string, Attribute> = {
   CHA: Attribute.PRESENCE,
 };
 
+/**
+ * Maps a D&D ability name or abbreviation ("Dexterity", "dex") to its
+ * Reaction Roll attribute.
+ *
+ * @param ability - Ability name as written in a stat block
+ * @returns Daggerheart attribute, or undefined for an unknown ability
+ */
+export function abilityToAttribute(ability: string): Attribute | undefined {
+  return ABILITY_TO_ATTRIBUTE[ability.slice(0, 3).toUpperCase()];
+}
+
+/**
+ * Converts a D&D save DC to a Daggerheart Reaction Roll difficulty.
+ *
+ * @param dc - D&D saving throw DC
+ * @returns Reaction Roll difficulty (DC 15 → 15, DC 20 → 18)
+ */
+export function dcToDifficulty(dc: number): number {
+  return Math.floor(dc / 2) + 8;
+}
+
+/**
+ * Lists a creature's traits, actions, and bonus actions in one place, for
+ * converters that look up signature abilities by name.
+ *
+ * @param statBlock - D&D 5e stat block
+ * @returns Traits, then actions, then bonus actions
+ */
+export function getAbilities(statBlock: DnD5eMonster): Array<Trait | DnD5eAction | BonusAction> {
+  return [
+    ...(statBlock.traits ?? []),
+    ...(statBlock.actions ?? []),
+    ...(statBlock.bonusActions ?? []),
+  ];
+}
+
 // ============================================================================
 // DAMAGE DICE PARSING
 // ============================================================================
@@ -781,8 +817,7 @@ export function convertAction(action: DnD5eAction): ConvertedFeature {
     const attribute = ABILITY_TO_ATTRIBUTE[savingThrow.ability];
     if (attribute) {
       feature.reactionRollAttribute = attribute;
-      // Convert DC to difficulty (approximate)
-      feature.reactionRollDifficulty = Math.floor(savingThrow.dc / 2) + 8;
+      feature.reactionRollDifficulty = dcToDifficulty(savingThrow.dc);
     }
   }
 
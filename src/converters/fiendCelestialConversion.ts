@@ -0,0 +1,504 @@
+/**
+ * Fiend and Celestial Creature Conversion Logic
+ *
+ * Specialized handling for demons, devils, yugoloths, and angels. Detects the
+ * subtype and converts their signature outsider abilities into Daggerheart
+ * features with costs, alongside subtype motives and design notes.
+ *
+ * Converted Abilities:
+ * | Source Ability          | Daggerheart Feature                          |
+ * |-------------------------|----------------------------------------------|
+ * | Magic Resistance        | Passive: advantage on magical Reaction Rolls |
+ * | Innate teleport         | Action (1 Stress): teleport within range     |
+ * | Summon Demon/Devil      | Action (1 Fear): call Minions from its plane |
+ * | Magic Weapons (devil)   | Passive: Devilish Weapons, infernal wounds   |
+ * | Angelic Weapons         | Passive: magic damage plus radiant dice      |
+ * | Fire/radiant/necrotic   | Passive: damaging aura                       |
+ *
+ * @module fiendCelestialConversion
+ * @version 1.0.0
+ */
+
+import {
+  DnD5eMonster,
+  CreatureType,
+  GoodEvilAxis,
+  LawChaosAxis,
+  isStandardAlignment,
+} from '../models/dnd5e';
+import {
+  Feature,
+  FeatureType,
+  FeatureCostType,
+  DamageType,
+  Attribute,
+  RangeBand,
+} from '../models/daggerheart';
+import { feetToRangeBand } from './attackConversion';
+import { dcToDifficulty, getAbilities } from './featureConversion';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+/**
+ * Recognized fiend and celestial subtypes for specialized conversion.
+ */
+export type FiendCelestialSubtype =
+  | 'demon'
+  | 'devil'
+  | 'yugoloth'
+  | 'angel'
+  | 'generic_fiend'
+  | 'generic_celestial';
+
+/**
+ * Result of fiend/celestial-specific conversion.
+ */
+export interface FiendCelestialConversionResult {
+  /** Detected subtype */
+  subtype: FiendCelestialSubtype;
+  /** Features converted from the creature's outsider abilities */
+  thematicFeatures: Feature[];
+  /** Names of generically converted features these replace */
+  replacedFeatures: string[];
+  /** Suggested motives appropriate for the subtype */
+  suggestedMotives: string[];
+  /** GM guidance for running the subtype */
+  designNotes: string[];
+  /** Notes about the conversion decisions */
+  conversionNotes: string[];
+}
+
+// ============================================================================
+// DETECTION PATTERNS
+// ============================================================================
+
+/**
+ * Patterns for detecting subtypes from the subtype tag or name.
+ */
+const SUBTYPE_PATTERNS: Array<{
+  pattern: RegExp;
+  subtype: FiendCelestialSubtype;
+}> = [
+  {
+    pattern:
+      /\bdemon\b|\bbalor\b|\bvrock\b|\bhezrou\b|\bglabrezu\b|\bmarilith\b|\bnalfeshnee\b|\bquasit\b|\bdretch\b|\bmanes\b/i,
+    subtype: 'demon',
+  },
+  {
+    pattern: /\bdevil\b|\bimp\b|\bpit fiend\b|\berinyes\b|\blemure\b/i,
+    subtype: 'devil',
+  },
+  {
+    pattern:
+      /\b(?:yugoloth|arcanaloth|canoloth|dergholoth|hydroloth|merrenoloth|mezzoloth|nycaloth|oinoloth|piscoloth|ultroloth|yagnoloth)s?\b/i,
+    subtype: 'yugoloth',
+  },
+  { pattern: /\bangel\b|\bdeva\b|\bplanetar\b|\bsolar\b/i, subtype: 'angel' },
+];
+
+// ============================================================================
+// SUBTYPE FLAVOR
+// ============================================================================
+
+/**
+ * Plural name and home plane used for summoning features.
+ */
+const SUBTYPE_SUMMONS: Record<FiendCelestialSubtype, { allies: string; plane: string }> = {
+  demon: { allies: 'Demons', plane: 'the Abyss' },
+  devil: { allies: 'Devils', plane: 'the Nine Hells' },
+  yugoloth: { allies: 'Yugoloths', plane: 'the Lower Planes' },
+  angel: { allies: 'Angels', plane: 'the Upper Planes' },
+  generic_fiend: { allies: 'Fiends', plane: 'the Lower Planes' },
+  generic_celestial: { allies: 'Celestials', plane: 'the Upper Planes' },
+};
+
+/**
+ * Motives for each subtype.
+ */
+const SUBTYPE_MOTIVES: Record<FiendCelestialSubtype, string[]> = {
+  demon: ['Spread chaos and ruin', 'Slaughter the living', 'Devour souls', 'Tear down order'],
+  devil: [
+    'Bargain for souls',
+    'Climb the infernal hierarchy',
+    'Enforce contracts',
+    'Corrupt the righteous',
+  ],
+  yugoloth: ['Sell its services', 'Profit from conflict', 'Play both sides', 'Hoard secrets'],
+  angel: ['Carry out divine will', 'Smite fiends', 'Protect the faithful', 'Judge the wicked'],
+  generic_fiend: ['Corrupt mortals', 'Claim souls', 'Escape its bindings'],
+  generic_celestial: ['Guard the sacred', 'Root out evil', 'Deliver a message'],
+};
+
+/**
+ * Design notes for each subtype.
+ */
+const SUBTYPE_DESIGN_NOTES: Record<FiendCelestialSubtype, string[]> = {
+  demon: [
+    'Demons fight without restraint: spend Fear on summons early and keep pressing even when the fight turns against them.',
+    'Summoned demons are as likely to squabble as cooperate; a roll with Fear is a good moment for them to turn on each other.',
+  ],
+  devil: [
+    'Devils want a bargain more than a brawl: offer the PCs a deal mid-fight, and have them retreat rather than die for nothing.',
+    'Devils fight in formation and follow rank; lesser devils shield their superiors until ordered otherwise.',
+  ],
+  yugoloth: [
+    'Yugoloths are mercenaries: if the PCs can outbid the employer, let them switch sides or walk away.',
+  ],
+  angel: [
+    'Angels answer to a higher power: they strike fiends and the wicked first and may spare a foe who yields or repents.',
+    'Appeals to their mandate make good Presence rolls; an angel shown it serves a wrong cause may stand down.',
+  ],
+  generic_fiend: [
+    'Fiends are bound by their nature and their planes; true names, bindings, and holy ground make good levers for the PCs.',
+  ],
+  generic_celestial: [
+    'Celestials are rarely true enemies; consider why it opposes the PCs and let them resolve the conflict without a fight.',
+  ],
+};
+
+/**
+ * Damage types that make a trait a thematic aura.
+ */
+const AURA_DAMAGE_TYPES = /\b(fire|radiant|necrotic|cold|poison)\s+damage/i;
+
+// ============================================================================
+// DETECTION FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks if a stat block represents a fiend or celestial.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns True if the creature is a fiend or celestial
+ */
+export function isFiendOrCelestial(statBlock: DnD5eMonster): boolean {
+  return (
+    statBlock.creatureType === CreatureType.FIEND ||
+    statBlock.creatureType === CreatureType.CELESTIAL
+  );
+}
+
+/**
+ * Detects the fiend or celestial subtype from subtype tags, name, and
+ * alignment.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns Detected subtype
+ */
+export function detectFiendCelestialSubtype(statBlock: DnD5eMonster): FiendCelestialSubtype {
+  const isFiend = statBlock.creatureType === CreatureType.FIEND;
+  const candidates = [...(statBlock.subtypes ?? []), statBlock.name];
+
+  // Subtypes first, then name; only fiend subtypes for fiends and vice versa
+  for (const candidate of candidates) {
+    for (const { pattern, subtype } of SUBTYPE_PATTERNS) {
+      if (isFiend === (subtype !== 'angel') && pattern.test(candidate)) {
+        return subtype;
+      }
+    }
+  }
+
+  if (!isFiend) {
+    return 'generic_celestial';
+  }
+
+  // Chaotic, lawful, and neutral evil fiends follow the Blood War factions
+  if (
+    isStandardAlignment(statBlock.alignment) &&
+    statBlock.alignment.goodEvil === GoodEvilAxis.EVIL
+  ) {
+    switch (statBlock.alignment.lawChaos) {
+      case LawChaosAxis.CHAOTIC:
+        return 'demon';
+      case LawChaosAxis.LAWFUL:
+        return 'devil';
+      case LawChaosAxis.NEUTRAL:
+        return 'yugoloth';
+    }
+  }
+
+  return 'generic_fiend';
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Reads the first dice expression followed by a damage type.
+ */
+function extractDice(text: string): { count: number; size: number } | undefined {
+  const match = text.match(/(\d+)d(\d+)\)?\s*(?:\w+\s+)?damage/i);
+  if (!match?.[1] || !match[2]) return undefined;
+  return { count: parseInt(match[1], 10), size: parseInt(match[2], 10) };
+}
+
+// ============================================================================
+// FEATURE CONVERTERS
+// ============================================================================
+
+/**
+ * Converts Magic Resistance to a Reaction Roll advantage.
+ */
+function convertMagicResistance(
+  statBlock: DnD5eMonster,
+  result: FiendCelestialConversionResult
+): void {
+  const trait = statBlock.traits?.find((t) => /^magic resistance\b/i.test(t.name));
+  if (!trait) return;
+
+  result.replacedFeatures.push(trait.name);
+  result.thematicFeatures.push({
+    name: 'Magic Resistance',
+    type: FeatureType.PASSIVE,
+    description: 'Has advantage on Reaction Rolls against spells and other magical effects.',
+  });
+}
+
+/**
+ * Converts an innate teleport action to a Stress-costed action.
+ */
+function convertTeleport(statBlock: DnD5eMonster, result: FiendCelestialConversionResult): void {
+  const ability = getAbilities(statBlock).find(
+    (a) => /^teleport\b/i.test(a.name) || /\bmagically teleports\b/i.test(a.description)
+  );
+  if (!ability) return;
+
+  const distance = ability.description.match(/up to (\d+) f(?:ee)?t/i);
+  const range = distance?.[1] ? feetToRangeBand(parseInt(distance[1], 10)) : RangeBand.FAR;
+
+  result.replacedFeatures.push(ability.name);
+  result.thematicFeatures.push({
+    name: 'Teleport',
+    type: FeatureType.ACTION,
+    description: `Mark a Stress to teleport to a point it can see within ${range} range.`,
+    cost: { type: FeatureCostType.STRESS, amount: 1 },
+  });
+}
+
+/**
+ * Converts a summoning action to a Fear-costed action that calls Minions.
+ */
+function convertSummoning(
+  statBlock: DnD5eMonster,
+  subtype: FiendCelestialSubtype,
+  result: FiendCelestialConversionResult
+): void {
+  const ability = getAbilities(statBlock).find((a) => /^summon\b/i.test(a.name));
+  if (!ability) return;
+
+  const { allies, plane } = SUBTYPE_SUMMONS[subtype];
+  const chance = ability.description.match(/(\d+)\s*(?:percent|%)\s+chance/i);
+
+  result.replacedFeatures.push(ability.name);
+  result.thematicFeatures.push({
+    name: `Summon ${allies}`,
+    type: FeatureType.ACTION,
+    description:
+      `Spend a Fear to call lesser ${allies.toLowerCase()} from ${plane}. ` +
+      'They appear within Close range and act as Minions, one for each PC. Use once per scene.',
+    cost: { type: FeatureCostType.FEAR, amount: 1 },
+  });
+
+  if (chance?.[1]) {
+    result.conversionNotes.push(
+      `${ability.name}: the ${chance[1]}% summoning chance is replaced by a Fear cost`
+    );
+  }
+}
+
+/**
+ * Converts a devil's magic weapons and infernal wounds.
+ */
+function convertDevilishWeapons(
+  statBlock: DnD5eMonster,
+  result: FiendCelestialConversionResult
+): void {
+  const magicWeapons = statBlock.traits?.find((t) => /^magic weapons\b/i.test(t.name));
+  const woundAttack = statBlock.attacks?.find((a) =>
+    /infernal wound/i.test(a.additionalEffects ?? '')
+  );
+  if (!magicWeapons && !woundAttack) return;
+
+  const parts: string[] = [];
+  if (magicWeapons) {
+    result.replacedFeatures.push(magicWeapons.name);
+    parts.push('Its weapon attacks deal magic damage.');
+  }
+
+  const feature: Feature = {
+    name: 'Devilish Weapons',
+    type: FeatureType.PASSIVE,
+    description: '',
+  };
+
+  if (woundAttack) {
+    const dc = woundAttack.additionalEffects?.match(/DC\s*(\d+)/i);
+    const difficulty = dc?.[1] ? dcToDifficulty(parseInt(dc[1], 10)) : undefined;
+    parts.push(
+      `When its ${woundAttack.name} attack deals damage, the target makes a Strength Reaction Roll` +
+        `${difficulty ? ` (${difficulty})` : ''}. On a failure, the infernal wound festers and they mark ` +
+        'a Stress at the start of each of their turns until an ally tends the wound or they are magically healed.'
+    );
+    feature.reactionRollAttribute = Attribute.STRENGTH;
+    if (difficulty) {
+      feature.reactionRollDifficulty = difficulty;
+    }
+  }
+
+  feature.description = parts.join(' ');
+  result.thematicFeatures.push(feature);
+}
+
+/**
+ * Converts Angelic Weapons, halving the extra radiant dice.
+ */
+function convertAngelicWeapons(
+  statBlock: DnD5eMonster,
+  result: FiendCelestialConversionResult
+): void {
+  const trait = statBlock.traits?.find((t) => /^angelic weapons\b/i.test(t.name));
+  if (!trait) return;
+
+  const extra = trait.description.match(/extra (?:\d+ \()?(\d+)d8\)? radiant/i);
+  const diceCount = extra?.[1] ? Math.max(1, Math.ceil(parseInt(extra[1], 10) / 2)) : 1;
+
+  result.replacedFeatures.push(trait.name);
+  result.thematicFeatures.push({
+    name: 'Angelic Weapons',
+    type: FeatureType.PASSIVE,
+    description: `Its weapon attacks deal magic damage and an extra ${diceCount}d8 radiant damage on a hit.`,
+    damage: { diceCount, diceSize: 8, modifier: 0, damageType: DamageType.MAGIC },
+  });
+}
+
+/**
+ * Converts damaging auras to passives that deal magic damage.
+ */
+function convertAuras(statBlock: DnD5eMonster, result: FiendCelestialConversionResult): void {
+  for (const trait of statBlock.traits ?? []) {
+    const damageType = trait.description.match(AURA_DAMAGE_TYPES)?.[1];
+    const isAura =
+      /\baura\b/i.test(trait.name) ||
+      /start of each of (?:its|the \w+'s) turns, each creature within/i.test(trait.description);
+    if (!isAura || !damageType) continue;
+
+    const dice = extractDice(trait.description);
+    const distance = trait.description.match(/within (\d+) f(?:ee)?t/i);
+    const range = distance?.[1] ? feetToRangeBand(parseInt(distance[1], 10)) : RangeBand.VERY_CLOSE;
+    const element = damageType.charAt(0).toUpperCase() + damageType.slice(1).toLowerCase();
+    const damageText = dice ? `${dice.count}d${dice.size} magic damage` : 'magic damage';
+
+    const sentences = [
+      `At the start of its turn, each creature within ${range} range takes ${damageText} (${damageType.toLowerCase()}).`,
+    ];
+    if (/touches|hits it with a melee attack/i.test(trait.description)) {
+      sentences.push('A creature that touches it or hits it with a melee attack takes the same damage.');
+    }
+
+    const feature: Feature = {
+      name: /\baura\b/i.test(trait.name) ? trait.name : `${element} Aura`,
+      type: FeatureType.PASSIVE,
+      description: sentences.join(' '),
+      target: `All creatures within ${range} range`,
+    };
+    if (dice) {
+      const diceSize = ([4, 6, 8, 10, 12] as const).find((size) => size >= dice.size) ?? 12;
+      feature.damage = { diceCount: dice.count, diceSize, modifier: 0, damageType: DamageType.MAGIC };
+    }
+
+    result.replacedFeatures.push(trait.name);
+    result.thematicFeatures.push(feature);
+  }
+}
+
+// ============================================================================
+// MAIN CONVERSION FUNCTION
+// ============================================================================
+
+/**
+ * Gets the design notes for a fiend or celestial's subtype.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns Design notes, or an empty array for other creatures
+ */
+export function getFiendCelestialDesignNotes(statBlock: DnD5eMonster): string[] {
+  if (!isFiendOrCelestial(statBlock)) return [];
+  return [...SUBTYPE_DESIGN_NOTES[detectFiendCelestialSubtype(statBlock)]];
+}
+
+/**
+ * Converts a fiend or celestial, replacing its generically converted
+ * outsider abilities with thematic Daggerheart features.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns Conversion result with features, motives, and design notes
+ *
+ * @example
+ * ```typescript
+ * const result = convertFiendOrCelestial(balor);
+ * // result.subtype: "demon"
+ * // result.thematicFeatures: [Magic Resistance, Teleport, Fire Aura]
+ * // result.replacedFeatures: ["Magic Resistance", "Teleport", "Fire Aura"]
+ * ```
+ */
+export function convertFiendOrCelestial(statBlock: DnD5eMonster): FiendCelestialConversionResult {
+  if (!isFiendOrCelestial(statBlock)) {
+    return {
+      subtype: 'generic_fiend',
+      thematicFeatures: [],
+      replacedFeatures: [],
+      suggestedMotives: [],
+      designNotes: [],
+      conversionNotes: ['Creature is not a fiend or celestial - no conversion performed'],
+    };
+  }
+
+  const subtype = detectFiendCelestialSubtype(statBlock);
+  const result: FiendCelestialConversionResult = {
+    subtype,
+    thematicFeatures: [],
+    replacedFeatures: [],
+    suggestedMotives: [...SUBTYPE_MOTIVES[subtype]],
+    designNotes: [...SUBTYPE_DESIGN_NOTES[subtype]],
+    conversionNotes: [`Detected subtype: ${subtype}`],
+  };
+
+  convertMagicResistance(statBlock, result);
+  convertTeleport(statBlock, result);
+  convertSummoning(statBlock, subtype, result);
+  if (subtype === 'devil') {
+    convertDevilishWeapons(statBlock, result);
+  }
+  convertAngelicWeapons(statBlock, result);
+  convertAuras(statBlock, result);
+
+  result.conversionNotes.push(`Converted ${result.thematicFeatures.length} outsider abilities`);
+
+  return result;
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Gets the display name for a fiend or celestial subtype.
+ *
+ * @param subtype - Fiend or celestial subtype
+ * @returns Human-readable name
+ */
+export function getFiendCelestialSubtypeName(subtype: FiendCelestialSubtype): string {
+  const names: Record<FiendCelestialSubtype, string> = {
+    demon: 'Demon',
+    devil: 'Devil',
+    yugoloth: 'Yugoloth',
+    angel: 'Angel',
+    generic_fiend: 'Fiend',
+    generic_celestial: 'Celestial',
+  };
+
+  return names[subtype];
+}
@@ -69,6 +69,7 @@ export {
   // Utility functions
   convertAttackModifier,
   convertRange,
+  feetToRangeBand,
   getDamageType,
   isPhysicalDamage,
   isMagicDamage,
@@ -98,26 +99,32 @@ export {
   getReactionFeatures,
   calculateTotalStressCost,
   summarizeFeatures,
+  abilityToAttribute,
+  dcToDifficulty,
+  getAbilities,
   // Type exports
   type ConvertedFeature,
   type FeatureConversionOptions,
 } from './featureConversion';
 
-// Multiattack and Legendary conversion
+// Multiattack, Legendary and Mythic conversion
 export {
   // Core conversion functions
   convertMultiattack,
   convertLegendaryActions,
+  convertMythicActions,
   convertMultiattackAndLegendary,
   // Utility functions
   hasMultiattack,
   hasLegendaryActions,
+  hasMythicActions,
   hasLegendaryResistance,
   getMultiattackCount,
   summarizeLegendaryCapabilities,
   // Type exports
   type MultiattackResult,
   type LegendaryConversionResult,
+  type MythicConversionResult,
   type CombinedConversionResult,
 } from './multiattackConversion';
 
@@ -130,12 +137,21 @@ export {
   // Utility functions
   getSpellcastingAbilityName,
   summarizeSpellcasterConversion,
+  findUnknownSpells,
   // Type exports
   type SpellcasterConversionResult,
   type AnalyzedSpell,
   SpellCategory,
 } from './spellcasterConversion';
 
+// SRD spell data
+export {
+  lookupSrdSpell,
+  SRD_SPELLS,
+  type SrdSpell,
+  type SpellSchool,
+} from './srdSpells';
+
 // Undead conversion
 export {
   // Core conversion functions
@@ -153,6 +169,49 @@ export {
   type UndeadConversionResult,
 } from './undeadConversion';
 
+// Fiend and celestial conversion
+export {
+  // Core conversion functions
+  convertFiendOrCelestial,
+  isFiendOrCelestial,
+  detectFiendCelestialSubtype,
+  getFiendCelestialDesignNotes,
+  // Utility functions
+  getFiendCelestialSubtypeName,
+  // Type exports
+  type FiendCelestialSubtype,
+  type FiendCelestialConversionResult,
+} from './fiendCelestialConversion';
+
+// Aberration and psionic conversion
+export {
+  // Core conversion functions
+  convertAberration,
+  isAberrationOrPsionic,
+  detectAberrationSubtype,
+  // Utility functions
+  getAberrationSubtypeName,
+  // Type exports
+  type AberrationSubtype,
+  type AberrationConversionResult,
+} from './aberrationConversion';
+
+// Swarm and pack conversion
+export {
+  // Core conversion functions
+  convertSwarmOrPack,
+  buildHordeFeature,
+  decidePackGroup,
+  // Detection functions
+  detectSwarm,
+  isSwarm,
+  isSwarmOrPack,
+  findPackTrait,
+  // Type exports
+  type GroupDecision,
+  type SwarmPackConversionResult,
+} from './swarmConversion';
+
 // Construct and Ooze conversion specialization
 export {
   // Core conversion functions
@@ -194,6 +253,16 @@ export {
   type DragonConversionResult,
 } from './dragonConversion';
 
+// Lair action conversion
+export {
+  // Core conversion functions
+  convertLairActions,
+  // Detection functions
+  hasLairActions,
+  // Type exports
+  type LairConversionResult,
+} from './lairConversion';
+
 // OSR/Basic D&D to 5e adapter
 export {
   // Core conversion functions
@@ -213,10 +282,16 @@ export {
   // Detection utilities
   estimateSize as estimateOSRSize,
   detectCreatureType as detectOSRCreatureType,
+  // OSR mechanics
+  createMoraleFeature as createOSRMoraleFeature,
+  determineGroupType as determineOSRGroupType,
+  describeTreasureType as describeOSRTreasureType,
+  createGroupFeature as createOSRGroupFeature,
   // Utility functions
   summarizeOSRConversion,
   // Type exports
   type OSRTo5eResult,
+  type OSRAdjustments,
   type OSRConversionOptions,
 } from './osrAdapter';
 
@@ -231,3 +306,39 @@ export {
   // Type exports
   type PF2eConversionSummary,
 } from './pf2eAdapter';
+
+// Pathfinder 2e to Daggerheart native conversion
+export {
+  convertPF2eToDaggerheart,
+  pf2eLevelToTierPlacement,
+  type PF2eTierPlacement,
+  type PF2eNativeConversionResult,
+} from './pf2eConversion';
+
+// Numenera/Cypher System to 5e adapter
+export {
+  // Core conversion function
+  convertNumeneraToDnD5e,
+  // Level to CR/Tier mapping
+  levelToCR,
+  levelToTier,
+  armorToThresholdBonus,
+  // Individual conversion functions
+  convertArmorClass as convertNumeneraArmorClass,
+  convertHitPoints as convertNumeneraHitPoints,
+  convertSpeed as convertNumeneraSpeed,
+  estimateAbilityScores as estimateNumeneraAbilityScores,
+  convertDamage as convertNumeneraDamage,
+  convertAttack as convertNumeneraAttack,
+  convertTraits as convertNumeneraTraits,
+  convertIntrusions as convertNumeneraIntrusions,
+  // Detection utilities
+  detectSize as detectNumeneraSize,
+  detectCreatureType as detectNumeneraCreatureType,
+  // Utility functions
+  summarizeNumeneraConversion,
+  // Type exports
+  type NumeneraTo5eResult,
+  type NumeneraAdjustments,
+  type NumeneraConversionOptions,
+} from './numeneraAdapter';
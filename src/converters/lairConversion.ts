@@ -0,0 +1,295 @@
+/**
+ * Lair Action Conversion
+ *
+ * Converts D&D 5e lair actions and regional effects into Daggerheart
+ * environment features. Lair actions fire on initiative count 20 in 5e;
+ * Daggerheart has no initiative, so each becomes a Fear-costed environment
+ * action the GM can spend on when the spotlight shifts. Regional effects
+ * become Fear-costed features that bring the lair's influence into a scene.
+ *
+ * @module lairConversion
+ * @version 1.0.0
+ */
+
+import { DnD5eMonster, DnD5eCondition, LairAction } from '../models/dnd5e';
+import {
+  Feature,
+  FeatureType,
+  FeatureCostType,
+  DamageType,
+  Attribute,
+  Condition,
+} from '../models/daggerheart';
+import { feetToRangeBand } from './attackConversion';
+import { CONDITION_MAP, abilityToAttribute, dcToDifficulty } from './featureConversion';
+
+// ============================================================================
+// EXPORTED INTERFACES
+// ============================================================================
+
+/**
+ * Result of converting a creature's lair.
+ */
+export interface LairConversionResult {
+  /** Display name for the lair environment */
+  environmentName: string;
+  /** Environment features converted from lair actions */
+  lairFeatures: Feature[];
+  /** Environment features converted from regional effects */
+  regionalFeatures: Feature[];
+  /** Notes about the conversion decisions */
+  conversionNotes: string[];
+}
+
+// ============================================================================
+// CONVERSION TABLES
+// ============================================================================
+
+/**
+ * Lair effects that impose a condition without naming a 5e condition.
+ */
+const LAIR_EFFECT_CONDITIONS: Array<{ pattern: RegExp; condition: Condition }> = [
+  { pattern: /\bentangle/i, condition: Condition.RESTRAINED },
+  { pattern: /\bheavily obscured\b|\bdarkness\b/i, condition: Condition.DISORIENTED },
+];
+
+/**
+ * Damage types that map to magic damage.
+ */
+const MAGIC_DAMAGE_TYPES = /acid|cold|fire|force|lightning|necrotic|poison|psychic|radiant|thunder/i;
+
+/**
+ * Keywords used to name unnamed lair actions, checked in order.
+ */
+const LAIR_NAME_KEYWORDS: Array<{ pattern: RegExp; name: string }> = [
+  { pattern: /magma|lava/i, name: 'Magma Eruption' },
+  { pattern: /tremor|earthquake|shakes/i, name: 'Tremor' },
+  { pattern: /volcanic gas|toxic gas|poison(?:ous)? gas|cloud/i, name: 'Choking Cloud' },
+  { pattern: /fog|mist|obscured/i, name: 'Rolling Fog' },
+  { pattern: /ice|frost|freezing/i, name: 'Freezing Ground' },
+  { pattern: /water|current|wave|flood/i, name: 'Surging Water' },
+  { pattern: /lightning|thunder|storm/i, name: 'Crackling Storm' },
+  { pattern: /darkness|shadow/i, name: 'Creeping Darkness' },
+  { pattern: /vines|roots|plants|webs?/i, name: 'Grasping Growth' },
+  { pattern: /ceiling|stalactite|collapse|rocks? fall/i, name: 'Falling Debris' },
+  { pattern: /spirit|ghost|undead|souls?/i, name: 'Restless Spirits' },
+  { pattern: /wall|barrier/i, name: 'Shifting Walls' },
+  { pattern: /portal|plane of|planar/i, name: 'Planar Rift' },
+];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Derives a feature name for an unnamed lair action.
+ */
+function deriveLairActionName(action: LairAction, index: number): string {
+  if (action.name) return action.name;
+
+  for (const { pattern, name } of LAIR_NAME_KEYWORDS) {
+    if (pattern.test(action.description)) return name;
+  }
+
+  return `Lair Action ${index + 1}`;
+}
+
+/**
+ * Converts a D&D save in the description into Reaction Roll fields.
+ */
+function extractReactionRoll(
+  description: string
+): { attribute: Attribute; difficulty?: number } | undefined {
+  const saveMatch = description.match(
+    /(?:DC\s*(\d+)\s+)?(strength|dexterity|constitution|intelligence|wisdom|charisma)\s+saving\s+throw/i
+  );
+  if (!saveMatch || !saveMatch[2]) return undefined;
+
+  const attribute = abilityToAttribute(saveMatch[2]);
+  if (!attribute) return undefined;
+
+  return saveMatch[1]
+    ? { attribute, difficulty: dcToDifficulty(parseInt(saveMatch[1], 10)) }
+    : { attribute };
+}
+
+/**
+ * Extracts and scales damage dice from a lair action description.
+ * Dice larger than d12 are clamped to d12.
+ */
+function extractDamage(description: string): Feature['damage'] {
+  const match = description.match(/(\d+)d(\d+)(?:\s*([+-])\s*(\d+))?\)?\s*(\w+)\s+damage/i);
+  if (!match || !match[1] || !match[2] || !match[5]) return undefined;
+
+  const rawSize = parseInt(match[2], 10);
+  const diceSize = ([4, 6, 8, 10, 12] as const).find((size) => size >= rawSize) ?? 12;
+  const modifier = match[4] ? parseInt(match[4], 10) * (match[3] === '-' ? -1 : 1) : 0;
+
+  return {
+    diceCount: parseInt(match[1], 10),
+    diceSize,
+    modifier,
+    damageType: MAGIC_DAMAGE_TYPES.test(match[5]) ? DamageType.MAGIC : DamageType.PHYSICAL,
+    isDirect: false,
+  };
+}
+
+/**
+ * Rewrites D&D-specific phrasing for Daggerheart play.
+ */
+function adaptDescription(description: string): string {
+  return description
+    .replace(/\bon initiative count \d+(?: \(losing initiative ties\))?,?\s*/gi, '')
+    .replace(/\bDC\s*(\d+)\s+(\w+)\s+saving\s+throw/gi, (_m, dc: string, ability: string) => {
+      const attribute = abilityToAttribute(ability) ?? ability;
+      return `${attribute} Reaction Roll (${dcToDifficulty(parseInt(dc, 10))})`;
+    })
+    .replace(/\b(\w+)\s+saving\s+throw/gi, (_m, ability: string) => {
+      const attribute = abilityToAttribute(ability) ?? ability;
+      return `${attribute} Reaction Roll`;
+    })
+    .replace(/\buntil initiative count \d+ on the next round\b/gi, 'until the GM next spends Fear')
+    .replace(/\bwithin (\d+) feet\b/gi, (_m, feet: string) => `within ${feetToRangeBand(parseInt(feet, 10))} range`)
+    .replace(/\b\d+\s*\((\d+d\d+(?:\s*[+-]\s*\d+)?)\)\s*(\w+)\s+damage/gi, (_m, dice: string, type: string) =>
+      `${dice.replace(/\s/g, '')} ${MAGIC_DAMAGE_TYPES.test(type) ? 'magic' : 'physical'} damage`
+    )
+    .replace(/\ba (Agility|Instinct)\b/g, 'an $1')
+    .trim();
+}
+
+/**
+ * Converts a single lair action into a Fear-costed environment feature.
+ */
+function convertLairAction(action: LairAction, index: number): Feature {
+  const feature: Feature = {
+    name: deriveLairActionName(action, index),
+    type: FeatureType.ACTION,
+    description: `Spend a Fear to trigger this lair effect. ${adaptDescription(action.description)}`,
+    cost: {
+      type: FeatureCostType.FEAR,
+      amount: 1,
+    },
+  };
+
+  const reactionRoll = extractReactionRoll(action.description);
+  if (reactionRoll) {
+    feature.reactionRollAttribute = reactionRoll.attribute;
+    if (reactionRoll.difficulty !== undefined) {
+      feature.reactionRollDifficulty = reactionRoll.difficulty;
+    }
+  }
+
+  const damage = extractDamage(action.description);
+  if (damage) {
+    feature.damage = damage;
+  }
+
+  const conditions = [
+    ...Object.values(DnD5eCondition)
+      .filter((condition) => new RegExp(`\\b${condition}\\b`, 'i').test(action.description))
+      .map((condition) => CONDITION_MAP[condition]),
+    ...LAIR_EFFECT_CONDITIONS.filter(({ pattern }) => pattern.test(action.description)).map(({ condition }) => condition),
+  ].filter((condition): condition is Condition => condition !== undefined);
+  if (conditions.length > 0) {
+    feature.appliedConditions = [...new Set(conditions)];
+  }
+
+  return feature;
+}
+
+/**
+ * Converts a single regional effect into a Fear-costed environment feature.
+ */
+function convertRegionalEffect(effect: string, index: number, creatureName: string): Feature {
+  const keyword = LAIR_NAME_KEYWORDS.find(({ pattern }) => pattern.test(effect));
+
+  return {
+    name: keyword ? `Regional ${keyword.name}` : `Regional Effect ${index + 1}`,
+    type: FeatureType.ACTION,
+    description: `Spend a Fear to show the ${creatureName.toLowerCase()}'s influence on the surrounding region. ${adaptDescription(effect)}`,
+    cost: {
+      type: FeatureCostType.FEAR,
+      amount: 1,
+    },
+  };
+}
+
+// ============================================================================
+// MAIN CONVERSION FUNCTION
+// ============================================================================
+
+/**
+ * Checks if a creature has lair actions or regional effects to convert.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns True if the creature has a lair
+ */
+export function hasLairActions(statBlock: DnD5eMonster): boolean {
+  const lair = statBlock.lairActions;
+  if (!lair) return false;
+
+  return lair.actions.length > 0 || (lair.regionalEffects?.length ?? 0) > 0;
+}
+
+/**
+ * Converts a creature's lair actions and regional effects to environment features.
+ *
+ * Every feature costs 1 Fear. Saving throws become Reaction Rolls, damage
+ * dice are clamped to Daggerheart die sizes, and common 5e conditions are
+ * mapped to Daggerheart conditions.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns Lair environment features and conversion notes
+ *
+ * @example
+ * ```typescript
+ * const result = convertLairActions(adultRedDragon);
+ * // result.environmentName: "Adult Red Dragon's Lair"
+ * // result.lairFeatures: [Magma Eruption, Tremor, Choking Cloud]
+ * // result.regionalFeatures: [Regional Tremor, ...]
+ * ```
+ */
+export function convertLairActions(statBlock: DnD5eMonster): LairConversionResult {
+  const environmentName = `${statBlock.name}'s Lair`;
+
+  if (!hasLairActions(statBlock) || !statBlock.lairActions) {
+    return {
+      environmentName,
+      lairFeatures: [],
+      regionalFeatures: [],
+      conversionNotes: ['Creature has no lair - no conversion performed'],
+    };
+  }
+
+  const lair = statBlock.lairActions;
+  const conversionNotes: string[] = [];
+
+  const lairFeatures = lair.actions.map((action, index) => convertLairAction(action, index));
+  if (lairFeatures.length > 0) {
+    conversionNotes.push(
+      `Converted ${lairFeatures.length} lair actions (initiative count ${lair.initiativeCount}) to 1-Fear environment actions`
+    );
+  }
+
+  const regionalFeatures = (lair.regionalEffects ?? []).map((effect, index) =>
+    convertRegionalEffect(effect, index, statBlock.name)
+  );
+  if (regionalFeatures.length > 0) {
+    conversionNotes.push(
+      `Converted ${regionalFeatures.length} regional effects to 1-Fear environment features`
+    );
+  }
+
+  if (/can't use the same effect two rounds in a row/i.test(lair.description ?? '')) {
+    conversionNotes.push(
+      "Original lair can't repeat an effect on consecutive rounds; avoid using the same lair feature twice in a row"
+    );
+  }
+
+  return {
+    environmentName,
+    lairFeatures,
+    regionalFeatures,
+    conversionNotes,
+  };
+}
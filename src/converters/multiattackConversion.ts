@@ -14,6 +14,11 @@
  * - Each legendary action: Reaction feature with Stress cost
  * - Legendary resistance: "Legendary Resilience" passive
  *
+ * Mythic Action Conversion Rules:
+ * - Mythic trait: Phase change when the first HP track is cleared
+ * - Phase two HP: Scaled from the HP the mythic trait restores
+ * - Each mythic action: Action with Fear cost, usable only in phase two
+ *
  * @module multiattackConversion
  * @version 1.0.0
  */
@@ -23,6 +28,7 @@ import {
   Multiattack,
   LegendaryActions,
   LegendaryAction,
+  MythicAction,
   DnD5eAttack,
 } from '../models/dnd5e';
 import {
@@ -31,8 +37,11 @@ import {
   FeatureType,
   FeatureCostType,
   DamageExpression,
+  PhaseTwoFeature,
   Tier,
 } from '../models/daggerheart';
+import { feetToRangeBand } from './attackConversion';
+import { abilityToAttribute, convertLegendaryAction, dcToDifficulty } from './featureConversion';
 
 // ============================================================================
 // EXPORTED INTERFACES
@@ -64,6 +73,16 @@ export interface LegendaryConversionResult {
   conversionNotes: string;
 }
 
+/**
+ * Result of mythic action conversion.
+ */
+export interface MythicConversionResult {
+  /** Phase two HP track and unlocked features */
+  phaseTwo: PhaseTwoFeature;
+  /** Notes about the conversion */
+  conversionNotes: string;
+}
+
 // ============================================================================
 // MULTIATTACK PARSING
 // ============================================================================
@@ -513,6 +532,162 @@ export function convertLegendaryActions(
   };
 }
 
+// ============================================================================
+// MYTHIC ACTION CONVERSION
+// ============================================================================
+
+/** A save in a mythic action, e.g. "DC 21 Dexterity saving throw". */
+const MYTHIC_SAVE_PATTERN =
+  /\bDC\s*(\d+)\s+(Strength|Dexterity|Constitution|Intelligence|Wisdom|Charisma)\s+saving\s+throw/i;
+
+/**
+ * Rewrites saves, distances, and legendary action timing left in a
+ * converted mythic action description.
+ *
+ * @param description - Description after legendary action text conversion
+ * @param difficulty - Reaction Roll difficulty of the action's save, if any
+ */
+function adaptMythicDescription(description: string, difficulty?: number): string {
+  const band = (feet: string) => feetToRangeBand(parseInt(feet, 10));
+
+  return description
+    .replace(
+      /\b(Strength|Dexterity|Constitution|Intelligence|Wisdom|Charisma) Reaction Roll\b/g,
+      (match, ability: string) => {
+        const attribute = abilityToAttribute(ability);
+        return attribute ? `${attribute} Reaction Roll${difficulty ? ` (${difficulty})` : ''}` : match;
+      }
+    )
+    .replace(/\ba (Agility|Instinct)\b/g, 'an $1')
+    .replace(
+      /\bwithin (\d+) f(?:ee|oo)?t\b(?: of (?:it|them|the \w+))?/gi,
+      (_m, feet: string) => `within ${band(feet)} range`
+    )
+    .replace(
+      /\ba (\d+)-foot (cone|line|cube|sphere|radius)\b/gi,
+      (_m, feet: string, shape: string) => `a ${shape} out to ${band(feet)} range`
+    )
+    .replace(/\b(\d+) f(?:ee|oo)?t\b/gi, (_m, feet: string) => `${band(feet)} range`)
+    .split(/(?<=[.!?])\s+/)
+    .filter((sentence) => !/\blegendary actions?\b/i.test(sentence))
+    .join(' ');
+}
+
+/**
+ * Converts a single D&D mythic action to a Fear-costed Daggerheart action
+ * usable only in phase two. The description goes through the same text
+ * conversion as legendary actions.
+ *
+ * @param mythicAction - D&D mythic action
+ * @returns Converted Daggerheart feature
+ */
+function convertSingleMythicAction(mythicAction: MythicAction): Feature {
+  const converted = convertLegendaryAction(mythicAction);
+  const fear = mythicAction.cost === 1 ? 'a Fear' : `${mythicAction.cost} Fear`;
+
+  const save = mythicAction.description.match(MYTHIC_SAVE_PATTERN);
+  const attribute = save?.[2] ? abilityToAttribute(save[2]) : undefined;
+  const difficulty = save?.[1] ? dcToDifficulty(parseInt(save[1], 10)) : undefined;
+
+  const feature: Feature = {
+    name: mythicAction.name,
+    type: FeatureType.ACTION,
+    description: `Phase two only. Spend ${fear} to spotlight this adversary: ${adaptMythicDescription(converted.description, difficulty)}`,
+    cost: {
+      type: FeatureCostType.FEAR,
+      amount: mythicAction.cost,
+    },
+  };
+  if (attribute && difficulty !== undefined) {
+    feature.reactionRollAttribute = attribute;
+    feature.reactionRollDifficulty = difficulty;
+  }
+  if (converted.damage) {
+    feature.damage = converted.damage;
+  }
+  return feature;
+}
+
+/**
+ * Calculates the phase two HP track from the HP the mythic trait restores.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @param phaseOneHP - Converted Daggerheart HP of the first track
+ * @returns HP for the second track
+ */
+function calculatePhaseTwoHP(statBlock: DnD5eMonster, phaseOneHP: number): number {
+  const description = statBlock.mythicActions?.trait.description ?? '';
+
+  // "regains all of its hit points" or "hit point maximum" = full second track
+  if (/regains?\s*all\s*(?:of\s*)?(?:its|their)\s*hit\s*points|hit\s*point\s*maximum/i.test(description)) {
+    return phaseOneHP;
+  }
+
+  // "regains 200 hit points" = proportional second track
+  const regainMatch = description.match(/regains?\s*(\d+)\s*hit\s*points/i);
+  if (regainMatch && regainMatch[1] && statBlock.hitPoints.average > 0) {
+    const ratio = parseInt(regainMatch[1], 10) / statBlock.hitPoints.average;
+    return Math.min(phaseOneHP, Math.max(1, Math.round(phaseOneHP * ratio)));
+  }
+
+  // Unknown restoration: half the first track
+  return Math.max(1, Math.ceil(phaseOneHP / 2));
+}
+
+/**
+ * Converts D&D mythic trait and mythic actions to a Daggerheart phase change.
+ *
+ * Mythic Action Conversion Rules:
+ * - Mythic trait: When the adversary marks its last HP, it clears all HP
+ *   and enters phase two instead of being defeated
+ * - Phase two HP: Full track if the trait restores all HP, otherwise scaled
+ *   by the share of 5e hit points it restores
+ * - Each mythic action: Action with Fear cost = action cost,
+ *   only usable in phase two
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @param phaseOneHP - Converted Daggerheart HP of the first track
+ * @returns Mythic conversion result
+ *
+ * @example
+ * ```typescript
+ * const result = convertMythicActions(tarrasque, 12);
+ * // result.phaseTwo.hp = 12 (Colossal Rejuvenation restores all HP)
+ * // result.phaseTwo.features = [Tail Swipe, Devour] with Fear costs
+ * ```
+ */
+export function convertMythicActions(
+  statBlock: DnD5eMonster,
+  phaseOneHP: number
+): MythicConversionResult {
+  if (!statBlock.mythicActions) {
+    return {
+      phaseTwo: { hasPhaseTwo: false },
+      conversionNotes: 'No mythic abilities to convert',
+    };
+  }
+
+  const { trait, actions } = statBlock.mythicActions;
+  const notes: string[] = [];
+
+  const hp = calculatePhaseTwoHP(statBlock, phaseOneHP);
+  notes.push(`Mythic trait (${trait.name}) -> phase change with a ${hp} HP second track`);
+
+  const features = actions.map(convertSingleMythicAction);
+  notes.push(`${features.length} mythic actions -> Fear-costed actions usable only in phase two`);
+
+  return {
+    phaseTwo: {
+      hasPhaseTwo: true,
+      name: trait.name,
+      trigger: `When this adversary marks its last Hit Point, it is not defeated. Instead, clear all marked Hit Points, set its HP to ${hp}, and begin phase two.`,
+      hp,
+      features,
+    },
+    conversionNotes: notes.join('; '),
+  };
+}
+
 // ============================================================================
 // COMBINED CONVERSION
 // ============================================================================
@@ -527,6 +702,8 @@ export interface CombinedConversionResult {
   features: Feature[];
   /** Bonus Stress from legendary action pool */
   bonusStress: number;
+  /** Phase two from mythic actions, when phase one HP is provided */
+  phaseTwo?: PhaseTwoFeature;
   /** Combined conversion notes */
   conversionNotes: string;
 }
@@ -535,15 +712,18 @@ export interface CombinedConversionResult {
  * Performs combined multiattack and legendary action conversion.
  *
  * This is a convenience function that calls both convertMultiattack
- * and convertLegendaryActions, combining the results.
+ * and convertLegendaryActions, combining the results. When the converted
+ * HP is provided, mythic actions are converted into a phase two as well.
  *
  * @param statBlock - D&D 5e monster stat block
  * @param baseAttacks - Pre-converted Daggerheart attacks
+ * @param phaseOneHP - Converted Daggerheart HP, used to size a mythic phase two
  * @returns Combined conversion result
  */
 export function convertMultiattackAndLegendary(
   statBlock: DnD5eMonster,
-  baseAttacks: Attack[]
+  baseAttacks: Attack[],
+  phaseOneHP?: number
 ): CombinedConversionResult {
   const multiattackResult = convertMultiattack(statBlock, baseAttacks);
   const legendaryResult = convertLegendaryActions(statBlock);
@@ -568,12 +748,22 @@ export function convertMultiattackAndLegendary(
     notes.push(legendaryResult.conversionNotes);
   }
 
-  return {
+  const result: CombinedConversionResult = {
     enhancedAttacks: multiattackResult.enhancedAttacks,
     features,
     bonusStress: legendaryResult.bonusStress,
-    conversionNotes: notes.join('. '),
+    conversionNotes: '',
   };
+
+  // Add mythic phase two if present
+  if (phaseOneHP !== undefined && hasMythicActions(statBlock)) {
+    const mythicResult = convertMythicActions(statBlock, phaseOneHP);
+    result.phaseTwo = mythicResult.phaseTwo;
+    notes.push(mythicResult.conversionNotes);
+  }
+
+  result.conversionNotes = notes.join('. ');
+  return result;
 }
 
 // ============================================================================
@@ -598,6 +788,15 @@ export function hasLegendaryActions(statBlock: DnD5eMonster): boolean {
   return !!statBlock.legendaryActions && statBlock.legendaryActions.actions.length > 0;
 }
 
+/**
+ * Checks if a stat block has mythic actions.
+ * @param statBlock - D&D 5e monster stat block
+ * @returns True if has mythic actions
+ */
+export function hasMythicActions(statBlock: DnD5eMonster): boolean {
+  return !!statBlock.mythicActions && statBlock.mythicActions.actions.length > 0;
+}
+
 /**
  * Checks if a stat block has legendary resistance.
  * @param statBlock - D&D 5e monster stat block
@@ -0,0 +1,652 @@
+/**
+ * Numenera to D&D 5e Adapter
+ *
+ * Converts Numenera / Cypher System stat blocks to D&D 5e format for
+ * further conversion to Daggerheart. Cypher creatures have no hit dice,
+ * ability scores or attack bonuses, so the 5e stat block is built from
+ * the creature's level. Stats that map directly onto Daggerheart (Health,
+ * Armor and GM intrusions) are returned as adjustments that the pipeline
+ * applies after the 5e -> Daggerheart conversion.
+ *
+ * @module converters/numeneraAdapter
+ * @version 1.0.0
+ */
+
+import {
+  NumeneraStatBlock,
+  NumeneraDamage,
+  NumeneraModification,
+  NumeneraMovementMode,
+  NumeneraRange,
+} from '../models/numenera';
+
+import {
+  DnD5eMonster,
+  CreatureSize,
+  CreatureType,
+  LawChaosAxis,
+  GoodEvilAxis,
+  ArmorClass,
+  HitPoints,
+  Speed,
+  AbilityScores,
+  Trait,
+  DnD5eAttack,
+  AttackType,
+  AttackDamage,
+  DnD5eDamageType,
+  CR_TO_XP,
+  calculateProficiencyBonus,
+} from '../models/dnd5e';
+
+import { Feature, FeatureType, FeatureCostType, Tier } from '../models/daggerheart';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Daggerheart stats taken directly from the Numenera stat block.
+ *
+ * These bypass the 5e intermediate step, which has no equivalent
+ * for Armor or GM intrusions.
+ */
+export interface NumeneraAdjustments {
+  /** Daggerheart HP, taken from Health (roughly 1:1). */
+  hp: number;
+  /** Bonus added to each damage threshold for Armor. */
+  thresholdBonus: number;
+  /** GM intrusions converted to 2-Stress actions. */
+  intrusionFeatures: Feature[];
+}
+
+/**
+ * Result of Numenera to 5e conversion.
+ */
+export interface NumeneraTo5eResult {
+  /** The converted 5e monster. */
+  result: DnD5eMonster;
+  /** Daggerheart stats to apply after the 5e conversion. */
+  adjustments: NumeneraAdjustments;
+  /** Conversion notes/decisions made. */
+  notes: string[];
+  /** Warnings about potential issues. */
+  warnings: string[];
+}
+
+/**
+ * Options for Numenera to 5e conversion.
+ */
+export interface NumeneraConversionOptions {
+  /** Default creature size if not specified. */
+  defaultSize?: CreatureSize;
+  /** Default creature type if not detected. */
+  defaultType?: CreatureType;
+}
+
+// ============================================================================
+// CONSTANTS - LEVEL TO CR MAPPING
+// ============================================================================
+
+/**
+ * Maps Numenera level to approximate 5e Challenge Rating.
+ *
+ * Each CR is chosen so that the pipeline's CR -> Tier breakpoints land
+ * on the documented Numenera tier table.
+ *
+ * | Level | Difficulty (×3) | D&D 5e CR | Daggerheart Tier |
+ * |-------|-----------------|-----------|------------------|
+ * | 1-2   | 3-6             | 1-2       | Tier 1           |
+ * | 3-4   | 9-12            | 4-6       | Tier 2           |
+ * | 5-6   | 15-18           | 8-11      | Tier 3           |
+ * | 7-10  | 21-30           | 14-24     | Tier 4           |
+ */
+const LEVEL_TO_CR: Record<number, number> = {
+  1: 1,
+  2: 2,
+  3: 4,
+  4: 6,
+  5: 8,
+  6: 11,
+  7: 14,
+  8: 17,
+  9: 20,
+  10: 24,
+};
+
+/**
+ * Maps Cypher range categories to 5e speeds in feet.
+ */
+const RANGE_TO_FEET: Record<NumeneraRange, number> = {
+  [NumeneraRange.IMMEDIATE]: 10,
+  [NumeneraRange.SHORT]: 30,
+  [NumeneraRange.LONG]: 60,
+  [NumeneraRange.VERY_LONG]: 120,
+};
+
+/**
+ * Maps Numenera special damage kinds to 5e damage types.
+ */
+const DAMAGE_KIND_MAP: Record<string, DnD5eDamageType> = {
+  heat: DnD5eDamageType.FIRE,
+  fire: DnD5eDamageType.FIRE,
+  cold: DnD5eDamageType.COLD,
+  electrical: DnD5eDamageType.LIGHTNING,
+  electricity: DnD5eDamageType.LIGHTNING,
+  acid: DnD5eDamageType.ACID,
+  poison: DnD5eDamageType.POISON,
+  psychic: DnD5eDamageType.PSYCHIC,
+  mental: DnD5eDamageType.PSYCHIC,
+  sonic: DnD5eDamageType.THUNDER,
+  radiation: DnD5eDamageType.NECROTIC,
+  force: DnD5eDamageType.FORCE,
+};
+
+/**
+ * Keywords used to name GM intrusion features, checked in order.
+ */
+const INTRUSION_NAME_KEYWORDS: Array<{ pattern: RegExp; name: string }> = [
+  { pattern: /heat|fire|burn|scald|ignite/i, name: 'Searing Heat' },
+  { pattern: /cold|freez|frost|ice/i, name: 'Numbing Cold' },
+  { pattern: /poison|venom|toxin/i, name: 'Venomous Strike' },
+  { pattern: /prone|knock|trip/i, name: 'Knockdown' },
+  { pattern: /grab|grip|grasp|hold|entangle|wrap/i, name: 'Crushing Grip' },
+  { pattern: /drop|disarm|weapon/i, name: 'Disarm' },
+  { pattern: /throw|thrown|fling|hurl|push/i, name: 'Hurl' },
+  { pattern: /swallow|engulf|devour/i, name: 'Engulf' },
+  { pattern: /ally|allies|call|summon|another/i, name: 'Reinforcements' },
+  { pattern: /flee|escape|retreat|vanish/i, name: 'Sudden Escape' },
+  { pattern: /cypher|artifact|device|numenera/i, name: 'Device Malfunction' },
+];
+
+/**
+ * Combat-text patterns that describe a special ability worth keeping
+ * as a trait. Everything else in the combat block is treated as tactics.
+ */
+const COMBAT_ABILITY_PATTERNS: Array<{ pattern: RegExp; name: (match: RegExpMatchArray) => string }> = [
+  {
+    pattern: /\bimmune to (\w+)/i,
+    name: (match) => `${capitalize(match[1] ?? 'Damage')} Immunity`,
+  },
+  {
+    pattern: /\bwithin immediate range\b.*\btakes? \d+ points? of (?:(\w+) )?damage/i,
+    name: (match) => `${capitalize(match[1] ?? 'Damaging')} Aura`,
+  },
+  {
+    pattern: /\bregains? \d+ points? of health\b/i,
+    name: () => 'Regeneration',
+  },
+  {
+    pattern: /\b(?:fights|keeps fighting|continues to fight|does not flee)\b.*\b(?:death|reduced|0 health)\b/i,
+    name: () => 'Tenacious',
+  },
+];
+
+// ============================================================================
+// CONVERSION HELPERS
+// ============================================================================
+
+/**
+ * Capitalizes the first letter of a word.
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Maps Numenera level to 5e CR.
+ */
+function levelToCR(level: number): number {
+  const clamped = Math.max(1, Math.min(10, Math.round(level)));
+  return LEVEL_TO_CR[clamped] ?? 1;
+}
+
+/**
+ * Maps Numenera level to Daggerheart Tier directly.
+ */
+export function levelToTier(level: number): Tier {
+  if (level <= 2) return Tier.ONE;
+  if (level <= 4) return Tier.TWO;
+  if (level <= 6) return Tier.THREE;
+  return Tier.FOUR;
+}
+
+/**
+ * Calculates the threshold bonus for Armor.
+ *
+ * Each point of Armor adds +1 to thresholds at Tiers 1-2 and +2 at
+ * Tiers 3-4, where thresholds are large enough that +1 is negligible.
+ */
+function armorToThresholdBonus(armor: number, tier: Tier): number {
+  const perPoint = tier >= Tier.THREE ? 2 : 1;
+  return Math.max(0, armor) * perPoint;
+}
+
+/**
+ * Finds the level of a modification task, if the creature has one.
+ */
+function findModificationLevel(
+  modifications: NumeneraModification[],
+  pattern: RegExp
+): number | undefined {
+  return modifications.find((modification) => pattern.test(modification.task))?.level;
+}
+
+/**
+ * Converts level and speed defense to 5e AC.
+ *
+ * AC = 10 + 1.5 × defense level, so the pipeline's Evasion formula
+ * lands near the tier's standard Evasion.
+ */
+function convertArmorClass(numenera: NumeneraStatBlock): ArmorClass {
+  const defenseLevel =
+    findModificationLevel(numenera.modifications, /speed defen[cs]e|defen[cs]e/) ?? numenera.level;
+
+  const armorClass: ArmorClass = {
+    value: 10 + Math.ceil(defenseLevel * 1.5),
+  };
+  if (numenera.armor > 0) {
+    armorClass.armorType = `Armor ${numenera.armor}`;
+  }
+
+  return armorClass;
+}
+
+/**
+ * Converts Health to 5e HP.
+ *
+ * The 5e value only informs classification; the Daggerheart HP
+ * comes from Health directly via the adjustments.
+ */
+function convertHitPoints(health: number): HitPoints {
+  const count = Math.max(1, health);
+
+  return {
+    average: Math.floor(count * 4.5),
+    formula: { count, dieSize: 8, modifier: 0 },
+  };
+}
+
+/**
+ * Converts Cypher movement to 5e speed.
+ */
+function convertSpeed(numenera: NumeneraStatBlock): Speed {
+  const speed: Speed = {};
+
+  for (const movement of numenera.movement) {
+    const feet = RANGE_TO_FEET[movement.range];
+
+    switch (movement.mode) {
+      case NumeneraMovementMode.WALK:
+        speed.walk = feet;
+        break;
+      case NumeneraMovementMode.FLY:
+        speed.fly = feet;
+        break;
+      case NumeneraMovementMode.SWIM:
+        speed.swim = feet;
+        break;
+      case NumeneraMovementMode.CLIMB:
+        speed.climb = feet;
+        break;
+      case NumeneraMovementMode.BURROW:
+        speed.burrow = feet;
+        break;
+    }
+  }
+
+  // Creatures that only fly or swim still need a walk entry
+  if (speed.walk === undefined) {
+    speed.walk = numenera.movement.length > 0 ? 5 : 0;
+  }
+
+  return speed;
+}
+
+/**
+ * Estimates 5e ability scores from level and modifications.
+ *
+ * Cypher creatures use their level for every task, so scores scale
+ * with level and rise for tasks modified above it.
+ */
+function estimateAbilityScores(numenera: NumeneraStatBlock): AbilityScores {
+  const base = 10 + numenera.level;
+  const scoreFor = (pattern: RegExp): number => {
+    const level = findModificationLevel(numenera.modifications, pattern);
+    return level !== undefined ? 10 + level : base;
+  };
+
+  const cap = (val: number) => Math.max(1, Math.min(30, val));
+
+  return {
+    STR: cap(scoreFor(/might|strength|attack/)),
+    DEX: cap(scoreFor(/speed defen[cs]e|stealth|climb|jump|speed/)),
+    CON: cap(base),
+    INT: cap(scoreFor(/knowledge|lore|understand|numenera/)),
+    WIS: cap(scoreFor(/perception|intellect defen[cs]e|sense/)),
+    CHA: cap(scoreFor(/deception|persuasion|intimidat|interaction/)),
+  };
+}
+
+/**
+ * Converts Numenera damage to a 5e damage expression.
+ *
+ * N points of damage become Nd4 (average 2.5 × N), which the attack
+ * converter's damage table then scales to Daggerheart dice.
+ */
+function convertDamage(damage: NumeneraDamage): AttackDamage {
+  const attackDamage: AttackDamage = {
+    dice: { count: Math.max(1, damage.points), dieSize: 4, modifier: 0 },
+    damageType: DnD5eDamageType.BLUDGEONING,
+  };
+
+  if (damage.extraPoints && damage.extraType) {
+    attackDamage.additionalDamage = [
+      {
+        dice: { count: damage.extraPoints, dieSize: 4, modifier: 0 },
+        damageType: DAMAGE_KIND_MAP[damage.extraType] ?? DnD5eDamageType.FORCE,
+      },
+    ];
+  }
+
+  return attackDamage;
+}
+
+/**
+ * Builds the creature's standard attack from its damage and combat text.
+ */
+function convertAttack(numenera: NumeneraStatBlock): DnD5eAttack {
+  const combat = numenera.combat ?? '';
+  const isRanged = /\b(?:ranged|projectile|spits?|shoots?|fires?|hurls?|throws?)\b.*\b(?:short|long) range\b/i.test(combat);
+
+  const nameMatch = combat.match(/\b(bite|claws?|sting|tentacles?|slam|gore|kick|weapon|spear|blade|blast|beam)s?\b/i);
+  const name = nameMatch?.[1] ? capitalize(nameMatch[1]) : 'Attack';
+
+  const attackLevel =
+    findModificationLevel(numenera.modifications, /\battacks?\b/) ?? numenera.level;
+
+  return {
+    name,
+    attackType: isRanged ? AttackType.RANGED_WEAPON : AttackType.MELEE_WEAPON,
+    toHit: attackLevel + 2,
+    range: isRanged ? { normal: 80, long: 320 } : { reach: 5 },
+    target: 'one target',
+    damage: convertDamage(numenera.damage),
+  };
+}
+
+/**
+ * Converts combat abilities and modifications to 5e traits.
+ */
+function convertTraits(numenera: NumeneraStatBlock): Trait[] {
+  const traits: Trait[] = [];
+  const sentences = (numenera.combat ?? '').split(/(?<=\.)\s+/);
+
+  for (const sentence of sentences) {
+    for (const { pattern, name } of COMBAT_ABILITY_PATTERNS) {
+      const match = sentence.match(pattern);
+      if (match && !traits.some((trait) => trait.name === name(match))) {
+        traits.push({ name: name(match), description: sentence.trim() });
+        break;
+      }
+    }
+  }
+
+  // Modified tasks other than defense and attacks become skill traits
+  const name = numenera.name.toLowerCase();
+  for (const modification of numenera.modifications) {
+    if (/defen[cs]e|\battacks?\b/.test(modification.task)) continue;
+
+    const direction = modification.level > numenera.level ? 'excels at' : 'struggles with';
+    traits.push({
+      name: modification.task.replace(/\b([a-z])/g, (letter) => letter.toUpperCase()),
+      description: `The ${name} ${direction} ${modification.task} tasks (level ${modification.level}).`,
+    });
+  }
+
+  return traits;
+}
+
+/**
+ * Derives a feature name for a GM intrusion.
+ */
+function deriveIntrusionName(intrusion: string, index: number): string {
+  const keyword = INTRUSION_NAME_KEYWORDS.find(({ pattern }) => pattern.test(intrusion));
+  if (keyword) return keyword.name;
+
+  return index === 0 ? 'GM Intrusion' : `GM Intrusion ${index + 1}`;
+}
+
+/**
+ * Converts GM intrusions to Daggerheart Action features costing 2 Stress.
+ *
+ * In Numenera the GM offers an intrusion and pays the player XP to
+ * accept it; Daggerheart adversaries spend Stress on comparable effects.
+ */
+function convertIntrusions(intrusions: string[]): Feature[] {
+  const names = new Set<string>();
+
+  return intrusions.map((intrusion, index) => {
+    let name = deriveIntrusionName(intrusion, index);
+    if (names.has(name)) {
+      name = `${name} ${index + 1}`;
+    }
+    names.add(name);
+
+    const description = intrusion
+      .replace(/\bthe (?:character|PC|player character)\b/gi, 'the target')
+      .replace(/\b(?:a|the) character's\b/gi, "the target's")
+      .trim();
+
+    return {
+      name,
+      type: FeatureType.ACTION,
+      description: `Mark 2 Stress to intrude on a PC's action. ${description}`,
+      cost: {
+        type: FeatureCostType.STRESS,
+        amount: 2,
+      },
+    };
+  });
+}
+
+/**
+ * Attempts to detect creature type from name and description.
+ */
+function detectCreatureType(numenera: NumeneraStatBlock): CreatureType {
+  const text = `${numenera.name} ${numenera.description ?? ''}`.toLowerCase();
+
+  if (/automaton|machine|construct|robot|synth/.test(text)) return CreatureType.CONSTRUCT;
+  if (/ultraterrestrial|extradimensional|alien|transdimensional/.test(text)) return CreatureType.ABERRATION;
+  if (/abhuman|human|margr|chirog|varjellen|lattimor/.test(text)) return CreatureType.HUMANOID;
+  if (/ghost|revenant|undead/.test(text)) return CreatureType.UNDEAD;
+  if (/plant|fungus|fungal|vine/.test(text)) return CreatureType.PLANT;
+  if (/ooze|slime|gelatinous/.test(text)) return CreatureType.OOZE;
+  if (/beast|predator|animal|herd|hunt/.test(text)) return CreatureType.BEAST;
+
+  return CreatureType.MONSTROSITY;
+}
+
+/**
+ * Attempts to detect creature size from the description.
+ */
+function detectSize(numenera: NumeneraStatBlock): CreatureSize {
+  const text = (numenera.description ?? '').toLowerCase();
+
+  if (/\bgargantuan\b|\bcolossal\b|\btitanic\b/.test(text)) return CreatureSize.GARGANTUAN;
+  if (/\bhuge\b|\benormous\b|\bimmense\b/.test(text)) return CreatureSize.HUGE;
+  if (/\blarge\b|\bbig\b|\bmassive\b/.test(text)) return CreatureSize.LARGE;
+  if (/\btiny\b|\bminuscule\b/.test(text)) return CreatureSize.TINY;
+  if (/\bsmall\b/.test(text)) return CreatureSize.SMALL;
+
+  return CreatureSize.MEDIUM;
+}
+
+// ============================================================================
+// MAIN CONVERSION FUNCTION
+// ============================================================================
+
+/**
+ * Converts a Numenera stat block to D&D 5e format.
+ *
+ * This is the primary function for the Numenera -> 5e -> Daggerheart
+ * pipeline. The 5e monster carries level-derived stats through the
+ * standard converters; the returned adjustments hold the Daggerheart
+ * HP (from Health), threshold bonus (from Armor) and GM intrusion
+ * features, which have no 5e equivalent.
+ *
+ * @param numenera - The Numenera stat block to convert
+ * @param options - Optional conversion settings
+ * @returns Conversion result with 5e monster, adjustments and notes
+ *
+ * @example
+ * ```typescript
+ * const hotskive = parseNumeneraStatBlock(hotskiveText);
+ * const { result: monster5e, adjustments } = convertNumeneraToDnD5e(hotskive);
+ * // adjustments.hp: 9, adjustments.thresholdBonus: 1
+ * ```
+ */
+export function convertNumeneraToDnD5e(
+  numenera: NumeneraStatBlock,
+  options: NumeneraConversionOptions = {}
+): NumeneraTo5eResult {
+  const notes: string[] = [];
+  const warnings: string[] = [];
+
+  // Estimate CR from level
+  const cr = levelToCR(numenera.level);
+  const tier = levelToTier(numenera.level);
+  const xp = CR_TO_XP[String(cr)] || 0;
+
+  notes.push(
+    `Level ${numenera.level} (difficulty ${numenera.targetNumber}) -> CR ${cr}, Tier ${tier}`
+  );
+  if (numenera.level < 1 || numenera.level > 10) {
+    warnings.push(`Level ${numenera.level} is outside 1-10; clamped for CR estimate`);
+  }
+
+  const size = options.defaultSize || detectSize(numenera);
+  const creatureType = options.defaultType || detectCreatureType(numenera);
+  notes.push(`Detected creature type: ${creatureType}`);
+
+  // Convert components
+  const armorClass = convertArmorClass(numenera);
+  const hitPoints = convertHitPoints(numenera.health);
+  const speed = convertSpeed(numenera);
+  const abilityScores = estimateAbilityScores(numenera);
+  const attack = convertAttack(numenera);
+  const traits = convertTraits(numenera);
+
+  // Build 5e monster
+  const monster: DnD5eMonster = {
+    name: numenera.name,
+    size,
+    creatureType,
+    alignment: { lawChaos: LawChaosAxis.NEUTRAL, goodEvil: GoodEvilAxis.NEUTRAL },
+    armorClass,
+    hitPoints,
+    speed,
+    abilityScores,
+    senses: {
+      specialSenses: [],
+      passivePerception: 10 + Math.floor((abilityScores.WIS - 10) / 2),
+    },
+    languages: [],
+    challengeRating: { cr, xp },
+    proficiencyBonus: calculateProficiencyBonus(cr),
+    attacks: [attack],
+  };
+
+  if (traits.length > 0) {
+    monster.traits = traits;
+  }
+
+  // Keep narrative blocks as notes for the GM
+  const narrative = [
+    numenera.description,
+    numenera.motive ? `Motive: ${numenera.motive}` : undefined,
+    numenera.combat ? `Combat: ${numenera.combat}` : undefined,
+    numenera.interaction ? `Interaction: ${numenera.interaction}` : undefined,
+    numenera.use ? `Use: ${numenera.use}` : undefined,
+    numenera.loot ? `Loot: ${numenera.loot}` : undefined,
+  ].filter((part): part is string => Boolean(part));
+  if (narrative.length > 0) {
+    monster.notes = narrative.join('\n\n');
+  }
+
+  if (numenera.environment) {
+    monster.environments = [numenera.environment];
+  }
+  if (numenera.source) {
+    monster.source = numenera.source;
+  }
+  if (numenera.sourcePage !== undefined) {
+    monster.sourcePage = numenera.sourcePage;
+  }
+
+  // Daggerheart stats taken straight from the Cypher stat block
+  const adjustments: NumeneraAdjustments = {
+    hp: Math.max(1, numenera.health),
+    thresholdBonus: armorToThresholdBonus(numenera.armor, tier),
+    intrusionFeatures: convertIntrusions(numenera.gmIntrusions),
+  };
+
+  notes.push(`Health ${numenera.health} -> HP ${adjustments.hp}`);
+  if (adjustments.thresholdBonus > 0) {
+    notes.push(`Armor ${numenera.armor} -> +${adjustments.thresholdBonus} to damage thresholds`);
+  }
+  if (adjustments.intrusionFeatures.length > 0) {
+    notes.push(
+      `Converted ${adjustments.intrusionFeatures.length} GM intrusions to 2-Stress actions`
+    );
+  } else {
+    warnings.push('No GM intrusions listed; consider adding a 2-Stress action');
+  }
+
+  return { result: monster, adjustments, notes, warnings };
+}
+
+/**
+ * Gets a summary of the Numenera to 5e conversion.
+ *
+ * @param result - The conversion result
+ * @returns Summary string
+ */
+export function summarizeNumeneraConversion(result: NumeneraTo5eResult): string {
+  const { result: monster, adjustments, notes, warnings } = result;
+
+  const parts = [
+    `${monster.name} (${monster.size} ${monster.creatureType})`,
+    `CR ${monster.challengeRating.cr} (${monster.challengeRating.xp} XP)`,
+    `HP ${adjustments.hp}, thresholds +${adjustments.thresholdBonus}`,
+  ];
+
+  if (notes.length > 0) {
+    parts.push('Notes: ' + notes.join('; '));
+  }
+
+  if (warnings.length > 0) {
+    parts.push('Warnings: ' + warnings.join('; '));
+  }
+
+  return parts.join('\n');
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export {
+  levelToCR,
+  armorToThresholdBonus,
+  convertArmorClass,
+  convertHitPoints,
+  convertSpeed,
+  estimateAbilityScores,
+  convertDamage,
+  convertAttack,
+  convertTraits,
+  convertIntrusions,
+  detectCreatureType,
+  detectSize,
+};
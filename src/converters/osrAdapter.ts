@@ -14,7 +14,9 @@ import {
   OSRAlignment,
   OSRHitDice,
   MovementType,
+  OSRNumberAppearing,
   calculateAverageHP,
+  parseNumberAppearing,
 } from '../models/osr';
 
 import {
@@ -41,18 +43,35 @@ import {
   calculateProficiencyBonus,
 } from '../models/dnd5e';
 
-import { Tier } from '../models/daggerheart';
+import { Tier, AdversaryType, Feature, FeatureType } from '../models/daggerheart';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/**
+ * OSR mechanics carried into the Daggerheart result after the 5e
+ * conversion, since 5e has no equivalent for them.
+ */
+export interface OSRAdjustments {
+  /** Morale as a break/flee reaction, or a passive for morale 12. */
+  moraleFeature: Feature;
+  /** Parsed number appearing. */
+  numberAppearing?: OSRNumberAppearing;
+  /** Horde or Minion type for creatures that appear in numbers. */
+  typeOverride?: { type: AdversaryType; reason: string };
+  /** Loot note describing the treasure type. */
+  treasureNote?: string;
+}
+
 /**
  * Result of OSR to 5e conversion.
  */
 export interface OSRTo5eResult {
   /** The converted 5e monster. */
   result: DnD5eMonster;
+  /** OSR mechanics to apply after the 5e conversion. */
+  adjustments: OSRAdjustments;
   /** Conversion notes/decisions made. */
   notes: string[];
   /** Warnings about potential issues. */
@@ -71,6 +90,26 @@ export interface OSRConversionOptions {
   defaultType?: CreatureType;
 }
 
+// ============================================================================
+// CONSTANTS - GROUPS AND TREASURE
+// ============================================================================
+
+/**
+ * Average number appearing at which a creature converts to one Horde.
+ */
+const HORDE_NUMBER_APPEARING = 10;
+
+/**
+ * Average number appearing at which a creature of at most 1 HD converts
+ * to Minions.
+ */
+const MINION_NUMBER_APPEARING = 3;
+
+/**
+ * B/X treasure types carried by individuals rather than kept in a lair.
+ */
+const INDIVIDUAL_TREASURE_TYPES = ['P', 'Q', 'R', 'S', 'T', 'U', 'V'];
+
 // ============================================================================
 // CONSTANTS - HD TO CR MAPPING
 // ============================================================================
@@ -369,20 +408,143 @@ function convertSpecialAbilities(osr: OSRStatBlock): Trait[] {
     }
   }
 
-  // Add morale as a trait if notably high or low
-  if (osr.morale >= 11) {
-    traits.push({
+  return traits;
+}
+
+// ============================================================================
+// OSR MECHANICS
+// ============================================================================
+
+/**
+ * Chance in percent of rolling above a morale score on 2d6.
+ */
+function moraleBreakChance(morale: number): number {
+  let above = 0;
+  for (let first = 1; first <= 6; first++) {
+    for (let second = 1; second <= 6; second++) {
+      if (first + second > morale) above++;
+    }
+  }
+  return Math.round((above / 36) * 100);
+}
+
+/**
+ * Converts morale to a reaction that breaks the creature when the fight
+ * turns against it. Morale 12 never breaks, so it becomes a passive.
+ *
+ * @param osr - OSR stat block
+ * @returns Morale feature
+ */
+function createMoraleFeature(osr: OSRStatBlock): Feature {
+  if (osr.morale >= 12) {
+    return {
       name: 'Fearless',
-      description: `This creature is exceptionally brave (Morale ${osr.morale}). It rarely flees from combat and will fight to the death if cornered.`,
-    });
-  } else if (osr.morale <= 5) {
-    traits.push({
-      name: 'Cowardly',
-      description: `This creature is easily frightened (Morale ${osr.morale}). It will flee at the first sign of serious danger.`,
-    });
+      type: FeatureType.PASSIVE,
+      description: 'This adversary never checks morale (Morale 12). It fights until it is destroyed.',
+    };
   }
 
-  return traits;
+  return {
+    name: `Morale (${osr.morale})`,
+    type: FeatureType.REACTION,
+    trigger: {
+      description: 'Its side suffers its first casualty, or half its side is defeated',
+    },
+    description:
+      `Roll 2d6. On a result above ${osr.morale} (${moraleBreakChance(osr.morale)}% chance), ` +
+      'it breaks: it flees, surrenders, or withdraws from the fight.',
+  };
+}
+
+/**
+ * Determines a Horde or Minion type from number appearing. Large groups
+ * fight as one Horde; groups of weak creatures are Minions.
+ *
+ * @param osr - OSR stat block
+ * @param numberAppearing - Parsed number appearing
+ * @returns Type override, or undefined to keep the creature's own type
+ */
+function determineGroupType(
+  osr: OSRStatBlock,
+  numberAppearing: OSRNumberAppearing | undefined
+): { type: AdversaryType; reason: string } | undefined {
+  if (!numberAppearing || numberAppearing.max <= 1) {
+    return undefined;
+  }
+
+  if (numberAppearing.average >= HORDE_NUMBER_APPEARING) {
+    return { type: AdversaryType.HORDE, reason: `Appears in numbers (${numberAppearing.raw})` };
+  }
+  if (osr.hd.count <= 1 && numberAppearing.average >= MINION_NUMBER_APPEARING) {
+    return {
+      type: AdversaryType.MINION,
+      reason: `Appears in groups (${numberAppearing.raw}) at HD ${osr.hd.raw}`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Describes a treasure type for the loot note.
+ *
+ * @param treasureType - Treasure type code (e.g., "C", "None", "V x2")
+ * @returns Loot note
+ */
+function describeTreasureType(treasureType: string): string {
+  if (/^none$/i.test(treasureType)) {
+    return 'Treasure Type None: it carries nothing of value.';
+  }
+
+  const letter = treasureType.charAt(0).toUpperCase();
+  if (INDIVIDUAL_TREASURE_TYPES.includes(letter)) {
+    return `Treasure Type ${treasureType}: carried by each creature, so roll this drop for every one defeated.`;
+  }
+  return `Treasure Type ${treasureType}: a lair hoard. This drop is what it carries; its lair holds more.`;
+}
+
+/**
+ * Creates a feature sizing a converted group from number appearing. A
+ * Horde records how many creatures each HP stands for; Minions record
+ * how many to put on the field.
+ *
+ * @param numberAppearing - Parsed number appearing
+ * @param type - Final adversary type
+ * @param hp - Final HP
+ * @returns Group feature, or undefined for other types
+ *
+ * @example
+ * ```typescript
+ * createGroupFeature({ raw: '3d6', min: 3, max: 18, average: 11 }, AdversaryType.HORDE, 5);
+ * // { name: 'Horde (2/HP)', type: 'Passive', description: '...' }
+ * ```
+ */
+export function createGroupFeature(
+  numberAppearing: OSRNumberAppearing,
+  type: AdversaryType,
+  hp: number
+): Feature | undefined {
+  if (type === AdversaryType.HORDE) {
+    const perHP = Math.max(1, Math.round(numberAppearing.average / Math.max(1, hp)));
+    return {
+      name: `Horde (${perHP}/HP)`,
+      type: FeatureType.PASSIVE,
+      description:
+        `A group of ${numberAppearing.raw} (about ${numberAppearing.average}) fighting as one. ` +
+        `Each HP it marks is ${perHP} of them falling.`,
+    };
+  }
+
+  if (type === AdversaryType.MINION) {
+    return {
+      name: `Group (${numberAppearing.raw})`,
+      type: FeatureType.PASSIVE,
+      description:
+        `Appears in groups of ${numberAppearing.min}-${numberAppearing.max}. ` +
+        `Put about ${numberAppearing.average} of them on the field together.`,
+    };
+  }
+
+  return undefined;
 }
 
 /**
@@ -488,6 +650,23 @@ export function convertOSRToDnD5e(
   const attacks = convertAttacks(osr);
   const traits = convertSpecialAbilities(osr);
 
+  // OSR mechanics without a 5e equivalent
+  const adjustments: OSRAdjustments = { moraleFeature: createMoraleFeature(osr) };
+  notes.push(`Morale ${osr.morale} converted to ${adjustments.moraleFeature.name}`);
+
+  const numberAppearing = osr.numberAppearing ? parseNumberAppearing(osr.numberAppearing) : undefined;
+  if (numberAppearing) {
+    adjustments.numberAppearing = numberAppearing;
+    notes.push(`Number appearing ${numberAppearing.raw} (about ${numberAppearing.average})`);
+  }
+  const typeOverride = determineGroupType(osr, numberAppearing);
+  if (typeOverride) {
+    adjustments.typeOverride = typeOverride;
+  }
+  if (osr.treasureType) {
+    adjustments.treasureNote = describeTreasureType(osr.treasureType);
+  }
+
   // Build 5e monster
   const monster: DnD5eMonster = {
     name: osr.name,
@@ -549,7 +728,7 @@ export function convertOSRToDnD5e(
     monster.environments = osr.habitat;
   }
 
-  return { result: monster, notes, warnings };
+  return { result: monster, adjustments, notes, warnings };
 }
 
 /**
@@ -607,4 +786,7 @@ export {
   convertSpecialAbilities,
   estimateSize,
   detectCreatureType,
+  createMoraleFeature,
+  determineGroupType,
+  describeTreasureType,
 };
@@ -194,7 +194,7 @@ const CREATURE_TYPE_TRAITS: Record<string, CreatureType> = {
 /**
  * Detects creature type from PF2e traits.
  */
-function detectCreatureType(traits: string[]): CreatureType {
+export function detectCreatureType(traits: string[]): CreatureType {
   for (const trait of traits) {
     const lower = trait.toLowerCase();
     if (CREATURE_TYPE_TRAITS[lower]) {
@@ -0,0 +1,703 @@
+/**
+ * Pathfinder 2e to Daggerheart Conversion
+ *
+ * Converts PF2e stat blocks straight into Daggerheart adversaries, without
+ * adapting them to D&D 5e first. This keeps the detail the 5e detour loses:
+ *
+ * | PF2e Mechanism | Daggerheart Equivalent |
+ * |----------------|------------------------|
+ * | Level | Tier, with placement inside the tier scaling stats |
+ * | Weakness | Passive vulnerability feature |
+ * | Passive ability | Passive |
+ * | 1-action / free activity | Action |
+ * | 2-action activity | Action (1 Stress) |
+ * | 3-action activity | Action (1 Fear) |
+ * | Reaction with trigger | Reaction with trigger |
+ * | Creature traits | Tags |
+ *
+ * @module converters/pf2eConversion
+ * @version 1.0.0
+ */
+
+import {
+  PF2eStatBlock,
+  PF2eStrike,
+  PF2eCreatureAbility,
+  PF2eActionCost,
+  PF2eDamageType,
+  PF2eRarity,
+  PF2eSkill,
+  PF2eSpellcasting,
+  PF2eWeakness,
+  pf2eLevelToTier,
+} from '../models/pf2e';
+import { CreatureType } from '../models/dnd5e';
+import {
+  DaggerheartAdversary,
+  Tier,
+  AdversaryType,
+  Difficulty,
+  DamageType,
+  Feature,
+  FeatureType,
+  FeatureCost,
+  FeatureCostType,
+  Attack,
+  RangeBand,
+  Attribute,
+  Experience,
+  Movement,
+  TIER_DEFAULTS,
+} from '../models/daggerheart';
+import { getTierDicePool } from './crToTier';
+import { calculateThresholds } from './statConversion';
+import { detectCreatureType } from './pf2eAdapter';
+import { buildHordeFeature } from './swarmConversion';
+import { dcToDifficulty } from './featureConversion';
+import {
+  getMotivesForCreatureType,
+  getTacticsForAdversaryType,
+} from '../generators/motiveTacticsGenerator';
+
+// ============================================================================
+// EXPORTED INTERFACES
+// ============================================================================
+
+/**
+ * Where a PF2e level falls within its Daggerheart tier.
+ */
+export interface PF2eTierPlacement {
+  /** Daggerheart tier for the level */
+  tier: Tier;
+  /** Position within the tier, from 0 (lowest level) to 1 (highest level) */
+  placement: number;
+}
+
+/**
+ * Result of converting a PF2e creature to Daggerheart.
+ */
+export interface PF2eNativeConversionResult {
+  /** The converted adversary */
+  adversary: DaggerheartAdversary;
+  /** Tier and placement within it */
+  placement: PF2eTierPlacement;
+  /** Creature type detected from the PF2e traits */
+  creatureType: CreatureType;
+  /** Notes about conversion decisions */
+  conversionNotes: string[];
+}
+
+// ============================================================================
+// CONVERSION MAPPINGS
+// ============================================================================
+
+/**
+ * Level span of each tier, matching PF2E_LEVEL_TO_TIER. Tier 4 is capped
+ * at level 25 for placement.
+ */
+const TIER_LEVEL_SPANS: Record<Tier, readonly [number, number]> = {
+  [Tier.ONE]: [-1, 2],
+  [Tier.TWO]: [3, 7],
+  [Tier.THREE]: [8, 14],
+  [Tier.FOUR]: [15, 25],
+};
+
+/**
+ * PF2e damage types that deal physical damage in Daggerheart.
+ */
+const PHYSICAL_DAMAGE_TYPES: ReadonlySet<string> = new Set([
+  PF2eDamageType.BLUDGEONING,
+  PF2eDamageType.PIERCING,
+  PF2eDamageType.SLASHING,
+  PF2eDamageType.BLEED,
+]);
+
+/**
+ * PF2e saves mapped to the attribute used for the Reaction Roll.
+ */
+const SAVE_TO_ATTRIBUTE: Record<string, Attribute> = {
+  fortitude: Attribute.STRENGTH,
+  reflex: Attribute.AGILITY,
+  will: Attribute.INSTINCT,
+};
+
+/**
+ * Traits that mark a creature as a group acting as one.
+ */
+const HORDE_TRAITS = ['swarm', 'troop'];
+
+/**
+ * PF2e skills mapped to Experience topics.
+ */
+const SKILL_TOPICS: Partial<Record<PF2eSkill, string>> = {
+  [PF2eSkill.ACROBATICS]: 'Acrobatics',
+  [PF2eSkill.ARCANA]: 'Arcane Lore',
+  [PF2eSkill.ATHLETICS]: 'Feats of Strength',
+  [PF2eSkill.CRAFTING]: 'Crafting',
+  [PF2eSkill.DECEPTION]: 'Deception',
+  [PF2eSkill.DIPLOMACY]: 'Negotiation',
+  [PF2eSkill.INTIMIDATION]: 'Intimidation',
+  [PF2eSkill.MEDICINE]: 'Medicine',
+  [PF2eSkill.NATURE]: 'Nature Lore',
+  [PF2eSkill.OCCULTISM]: 'Occult Secrets',
+  [PF2eSkill.PERFORMANCE]: 'Performance',
+  [PF2eSkill.RELIGION]: 'Religion',
+  [PF2eSkill.SOCIETY]: 'Society',
+  [PF2eSkill.STEALTH]: 'Stealth',
+  [PF2eSkill.SURVIVAL]: 'Tracking',
+  [PF2eSkill.THIEVERY]: 'Thievery',
+};
+
+// ============================================================================
+// TIER PLACEMENT
+// ============================================================================
+
+/**
+ * Converts a PF2e level to a Daggerheart tier and its placement within
+ * the tier. Placement scales Evasion, HP, Stress, and attack modifier
+ * between the tier's low and high values, so a level 7 creature is
+ * tougher than a level 3 one although both are Tier 2.
+ *
+ * @param level - PF2e creature level
+ * @returns Tier and placement (0-1)
+ *
+ * @example
+ * ```typescript
+ * pf2eLevelToTierPlacement(3);  // { tier: 2, placement: 0 }
+ * pf2eLevelToTierPlacement(5);  // { tier: 2, placement: 0.5 }
+ * pf2eLevelToTierPlacement(14); // { tier: 3, placement: 1 }
+ * ```
+ */
+export function pf2eLevelToTierPlacement(level: number): PF2eTierPlacement {
+  const tier = pf2eLevelToTier(level) as Tier;
+  const [low, high] = TIER_LEVEL_SPANS[tier];
+  const placement = Math.max(0, Math.min(1, (level - low) / (high - low)));
+  return { tier, placement };
+}
+
+/**
+ * Picks a value between the ends of a range by placement.
+ */
+function interpolate(range: readonly [number, number], placement: number): number {
+  return Math.round(range[0] + (range[1] - range[0]) * placement);
+}
+
+/**
+ * Clamps a value to a range.
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Estimates moderate PF2e hit points for a level, from the creature
+ * building guidelines.
+ */
+function expectedHP(level: number): number {
+  return Math.max(8, level * 16 + 5);
+}
+
+/**
+ * Determines the adversary type from PF2e traits, rarity, strikes,
+ * abilities, and hit points.
+ *
+ * @param pf2e - PF2e stat block
+ * @returns Adversary type
+ */
+function classifyPF2eCreature(pf2e: PF2eStatBlock): AdversaryType {
+  const traits = pf2e.traits.map((trait) => trait.toLowerCase());
+
+  if (traits.some((trait) => HORDE_TRAITS.includes(trait))) {
+    return AdversaryType.HORDE;
+  }
+  if (traits.includes('minion')) {
+    return AdversaryType.MINION;
+  }
+  if (pf2e.rarity === PF2eRarity.UNIQUE) {
+    return AdversaryType.SOLO;
+  }
+
+  const bestMelee = Math.max(-Infinity, ...pf2e.melee.map((strike) => strike.modifier));
+  const bestRanged = Math.max(-Infinity, ...pf2e.ranged.map((strike) => strike.modifier));
+  if (pf2e.ranged.length > 0 && bestRanged > bestMelee) {
+    return AdversaryType.RANGED;
+  }
+
+  const { str, dex, int, wis, cha } = pf2e.abilities;
+  const stealth = pf2e.skills.find((entry) => entry.skill === PF2eSkill.STEALTH);
+  const bestSkill = Math.max(-Infinity, ...pf2e.skills.map((entry) => entry.modifier));
+  if (stealth && stealth.modifier === bestSkill && dex > str) {
+    return AdversaryType.SKULK;
+  }
+
+  if (pf2e.hp >= expectedHP(pf2e.level) * 1.2 && str >= dex) {
+    return AdversaryType.BRUISER;
+  }
+
+  if (pf2e.spellcasting && pf2e.spellcasting.length > 0 && Math.max(int, wis, cha) > Math.max(str, dex)) {
+    return AdversaryType.SUPPORT;
+  }
+
+  return AdversaryType.STANDARD;
+}
+
+/**
+ * Determines difficulty from the adversary type and tier placement.
+ * Creatures in the upper half of their tier are Major.
+ */
+function determineDifficulty(type: AdversaryType, placement: number): Difficulty {
+  if (type === AdversaryType.MINION) return Difficulty.MINOR;
+  if (type === AdversaryType.SOLO || type === AdversaryType.LEADER) return Difficulty.SEVERE;
+  return placement >= 0.5 ? Difficulty.MAJOR : Difficulty.MINOR;
+}
+
+// ============================================================================
+// STAT CONVERSION
+// ============================================================================
+
+/**
+ * Converts PF2e AC to Evasion: the tier's Evasion range by placement,
+ * moved up or down when AC is above or below moderate for the level.
+ */
+function convertEvasion(pf2e: PF2eStatBlock, { tier, placement }: PF2eTierPlacement): number {
+  const acDelta = pf2e.ac - (pf2e.level + 15);
+  return interpolate(TIER_DEFAULTS[tier].evasion.range, placement) + clamp(Math.round(acDelta / 2), -2, 2);
+}
+
+/**
+ * Converts PF2e HP to Daggerheart HP: the type's HP range for the tier by
+ * placement, plus or minus one for unusually high or low PF2e HP.
+ */
+function convertHP(
+  pf2e: PF2eStatBlock,
+  type: AdversaryType,
+  { tier, placement }: PF2eTierPlacement
+): number {
+  if (type === AdversaryType.MINION) return 1;
+
+  const ranges = TIER_DEFAULTS[tier].hp;
+  const range =
+    type === AdversaryType.SOLO ? ranges.solo : type === AdversaryType.BRUISER ? ranges.bruiser : ranges.standard;
+
+  const ratio = pf2e.hp / expectedHP(pf2e.level);
+  const adjustment = ratio >= 1.25 ? 1 : ratio <= 0.75 ? -1 : 0;
+  return Math.max(1, interpolate(range, placement) + adjustment);
+}
+
+/**
+ * Converts to a Stress pool: the tier's Stress range by placement, more
+ * for Solos, plus any focus points.
+ */
+function convertStress(
+  pf2e: PF2eStatBlock,
+  type: AdversaryType,
+  { tier, placement }: PF2eTierPlacement
+): number {
+  if (type === AdversaryType.MINION) return 0;
+
+  const focusPoints = (pf2e.spellcasting ?? []).reduce((sum, entry) => sum + (entry.focusPoints ?? 0), 0);
+  const soloBonus = type === AdversaryType.SOLO ? tier : 0;
+  return interpolate(TIER_DEFAULTS[tier].stress.range, placement) + soloBonus + focusPoints;
+}
+
+/**
+ * Converts movement speeds to a Movement entry.
+ */
+function convertMovement(pf2e: PF2eStatBlock): Movement {
+  const movement: Movement = { standard: RangeBand.CLOSE };
+  if (pf2e.speed.fly) movement.canFly = true;
+  if (pf2e.speed.swim) movement.canSwim = true;
+  if (pf2e.speed.climb) movement.canClimb = true;
+  if (pf2e.speed.burrow) movement.canBurrow = true;
+  if (pf2e.speed.special) movement.special = pf2e.speed.special;
+  return movement;
+}
+
+// ============================================================================
+// STRIKE CONVERSION
+// ============================================================================
+
+/**
+ * Determines a strike's range band from its reach or range traits.
+ */
+function getStrikeRange(strike: PF2eStrike, isRanged: boolean): RangeBand {
+  const distanceTrait = strike.traits.find((trait) => /\b(?:reach|range)\b/i.test(trait));
+  const distance = distanceTrait ? parseInt(distanceTrait.match(/(\d+)/)?.[1] ?? '', 10) : NaN;
+
+  if (!isRanged) {
+    return distance >= 10 ? RangeBand.VERY_CLOSE : RangeBand.MELEE;
+  }
+  if (isNaN(distance)) return RangeBand.FAR;
+  return distance < 80 ? RangeBand.CLOSE : RangeBand.FAR;
+}
+
+/**
+ * Converts a PF2e strike to a Daggerheart attack. The modifier and dice
+ * count come from the tier and placement; the die size and damage type
+ * come from the strike.
+ */
+function convertStrike(
+  strike: PF2eStrike,
+  isRanged: boolean,
+  pf2e: PF2eStatBlock,
+  type: AdversaryType,
+  { tier, placement }: PF2eTierPlacement
+): Attack {
+  const modifierDelta = clamp(Math.round((strike.modifier - (pf2e.level + 9)) / 2), -1, 1);
+  const { dice, damageType } = strike.damage;
+
+  const attack: Attack = {
+    name: strike.name.charAt(0).toUpperCase() + strike.name.slice(1),
+    modifier: interpolate(TIER_DEFAULTS[tier].attackModifier.range, placement) + modifierDelta,
+    range: getStrikeRange(strike, isRanged),
+    damage: {
+      diceCount: getTierDicePool(tier),
+      diceSize: Math.min(12, dice.dieSize) as 4 | 6 | 8 | 10 | 12,
+      modifier: Math.floor(dice.modifier / 2) + (type === AdversaryType.SOLO ? tier : 0),
+      damageType: PHYSICAL_DAMAGE_TYPES.has(damageType) ? DamageType.PHYSICAL : DamageType.MAGIC,
+    },
+  };
+
+  const effects: string[] = [];
+  for (const extra of strike.damage.additional ?? []) {
+    effects.push(`plus ${extra.dice.count}d${extra.dice.dieSize} ${extra.damageType}`);
+  }
+  if (strike.effects) {
+    effects.push(strike.effects);
+  }
+  if (effects.length > 0) {
+    attack.additionalEffects = effects.join('; ');
+  }
+
+  return attack;
+}
+
+/**
+ * Creates the fallback attack for creatures without strikes.
+ */
+function createDefaultAttack(tier: Tier): Attack {
+  return {
+    name: 'Strike',
+    modifier: TIER_DEFAULTS[tier].attackModifier.default,
+    range: RangeBand.MELEE,
+    damage: {
+      diceCount: getTierDicePool(tier),
+      diceSize: 6,
+      modifier: 0,
+      damageType: DamageType.PHYSICAL,
+    },
+  };
+}
+
+// ============================================================================
+// ABILITY CONVERSION
+// ============================================================================
+
+/**
+ * Maps a PF2e action cost to a feature cost. Two-action activities cost
+ * Stress and three-action activities cost Fear.
+ */
+function convertActionCost(actionCost: PF2eActionCost | undefined): FeatureCost | undefined {
+  if (actionCost === PF2eActionCost.TWO) {
+    return { type: FeatureCostType.STRESS, amount: 1 };
+  }
+  if (actionCost === PF2eActionCost.THREE) {
+    return { type: FeatureCostType.FEAR, amount: 1 };
+  }
+  return undefined;
+}
+
+/**
+ * Converts a PF2e DC to a Reaction Roll difficulty by removing the level
+ * component, then scaling like a 5e DC.
+ */
+function convertDC(dc: number, level: number): number {
+  return dcToDifficulty(Math.max(10, dc - level));
+}
+
+/**
+ * Finds the save an ability calls for, from its structured save DC or
+ * from "DC 22 basic Reflex" in its text.
+ */
+function findAbilitySave(ability: PF2eCreatureAbility): { save: string; dc: number } | undefined {
+  if (ability.saveDC && ability.saveDC.type !== 'basic') {
+    return { save: ability.saveDC.type, dc: ability.saveDC.dc };
+  }
+
+  const match = ability.description.match(/\bDC\s*(\d+)\s+(?:basic\s+)?(fortitude|reflex|will)\b/i);
+  if (match?.[1] && match[2]) {
+    return { save: match[2].toLowerCase(), dc: parseInt(match[1], 10) };
+  }
+  return undefined;
+}
+
+/**
+ * Builds a feature description, adding degrees of success when the
+ * ability lists them separately.
+ */
+function describeAbility(ability: PF2eCreatureAbility): string {
+  const parts = [ability.description];
+  if (ability.effect) parts.push(ability.effect);
+  if (ability.criticalSuccess) parts.push(`Critical Success: ${ability.criticalSuccess}`);
+  if (ability.success) parts.push(`Success: ${ability.success}`);
+  if (ability.failure) parts.push(`Failure: ${ability.failure}`);
+  if (ability.criticalFailure) parts.push(`Critical Failure: ${ability.criticalFailure}`);
+  return parts.filter((part) => part.trim().length > 0).join(' ');
+}
+
+/**
+ * Converts a PF2e ability to a Daggerheart feature.
+ *
+ * @param ability - PF2e ability
+ * @param level - Creature level, for converting DCs
+ * @returns Feature with type, cost, trigger, and Reaction Roll
+ */
+function convertAbility(ability: PF2eCreatureAbility, level: number): Feature {
+  let type = FeatureType.ACTION;
+  if (!ability.actionCost) {
+    type = FeatureType.PASSIVE;
+  } else if (ability.actionCost === PF2eActionCost.REACTION) {
+    type = FeatureType.REACTION;
+  }
+
+  const feature: Feature = {
+    name: ability.name,
+    type,
+    description: describeAbility(ability),
+  };
+
+  const cost = convertActionCost(ability.actionCost);
+  if (cost) {
+    feature.cost = cost;
+  }
+  const trigger = ability.trigger ?? ability.description.match(/\bTrigger\s+(.+?)(?:;|\s+Effect\b|$)/i)?.[1];
+  if (type === FeatureType.REACTION && trigger) {
+    feature.trigger = { description: trigger.trim() };
+    const effect = feature.description.match(/\bEffect\s+(.+)$/is)?.[1];
+    if (effect) {
+      feature.description = effect.trim();
+    }
+  }
+
+  const save = findAbilitySave(ability);
+  const attribute = save ? SAVE_TO_ATTRIBUTE[save.save] : undefined;
+  if (save && attribute) {
+    feature.reactionRollAttribute = attribute;
+    feature.reactionRollDifficulty = convertDC(save.dc, level);
+  }
+
+  return feature;
+}
+
+/**
+ * Creates a vulnerability feature for a PF2e weakness.
+ */
+function createWeaknessFeature(weakness: PF2eWeakness): Feature {
+  const type = String(weakness.type).toLowerCase();
+  const label = type.replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+  return {
+    name: `${label} Weakness`,
+    type: FeatureType.PASSIVE,
+    description: `When this adversary takes ${type} damage, it marks an additional HP.`,
+  };
+}
+
+/**
+ * Creates passive features for resistances and immunities.
+ */
+function createDefenseFeatures(pf2e: PF2eStatBlock): Feature[] {
+  const features: Feature[] = [];
+
+  if (pf2e.immunities.length > 0) {
+    const types = pf2e.immunities.map((immunity) => String(immunity.type).toLowerCase()).join(', ');
+    features.push({
+      name: 'Immunity',
+      type: FeatureType.PASSIVE,
+      description: `Immune to ${types}.`,
+    });
+  }
+
+  if (pf2e.resistances.length > 0) {
+    const types = pf2e.resistances
+      .map((resistance) =>
+        resistance.exceptions && resistance.exceptions.length > 0
+          ? `${String(resistance.type).toLowerCase()} (except ${resistance.exceptions.join(', ')})`
+          : String(resistance.type).toLowerCase()
+      )
+      .join(', ');
+    features.push({
+      name: 'Damage Resistance',
+      type: FeatureType.PASSIVE,
+      description: `Resistant to ${types} damage.`,
+    });
+  }
+
+  return features;
+}
+
+/**
+ * Converts a PF2e spellcasting entry to an action listing its strongest
+ * spells, costing Stress when it includes spells above 3rd rank.
+ */
+function createSpellcastingFeature(entry: PF2eSpellcasting): Feature {
+  const tradition = entry.tradition.charAt(0).toUpperCase() + entry.tradition.slice(1);
+  const ranked = [...entry.spells].sort((a, b) => b.level - a.level);
+  const spellNames = ranked.flatMap((rank) => rank.spellNames).slice(0, 4);
+  const highestRank = ranked[0]?.level ?? 0;
+
+  const feature: Feature = {
+    name: `${tradition} ${entry.type === 'focus' ? 'Focus' : 'Spells'}`,
+    type: FeatureType.ACTION,
+    description: `Casts ${entry.tradition} ${entry.type} spells: ${spellNames.join(', ')}.`,
+  };
+  if (highestRank > 0) {
+    feature.cost = { type: FeatureCostType.STRESS, amount: highestRank > 3 ? 2 : 1 };
+  }
+  return feature;
+}
+
+// ============================================================================
+// NARRATIVE
+// ============================================================================
+
+/**
+ * Converts the creature's best skills to Experiences.
+ */
+function convertExperience(pf2e: PF2eStatBlock, tier: Tier): Experience[] {
+  const bonus = tier <= 2 ? 2 : 3;
+  return [...pf2e.skills]
+    .sort((a, b) => b.modifier - a.modifier)
+    .map((entry) => SKILL_TOPICS[entry.skill])
+    .filter((topic): topic is string => topic !== undefined)
+    .slice(0, 2)
+    .map((topic) => ({ topic, bonus }));
+}
+
+/**
+ * Builds tags from the creature's traits, rarity, and size.
+ */
+function buildTags(pf2e: PF2eStatBlock): string[] {
+  const tags = pf2e.traits.map((trait) => trait.toLowerCase());
+  if (pf2e.rarity !== PF2eRarity.COMMON) {
+    tags.push(pf2e.rarity.toLowerCase());
+  }
+  tags.push(pf2e.size.toLowerCase());
+  return [...new Set(tags)];
+}
+
+/**
+ * Describes the tier placement for conversion notes.
+ */
+function describePlacement(level: number, { tier, placement }: PF2eTierPlacement): string {
+  const [low, high] = TIER_LEVEL_SPANS[tier];
+  const position = placement < 1 / 3 ? 'low' : placement < 2 / 3 ? 'middle' : 'high';
+  const span = tier === Tier.FOUR ? `levels ${low}+` : `levels ${low}-${high}`;
+  return `Level ${level} sits ${position} in Tier ${tier} (${span})`;
+}
+
+// ============================================================================
+// MAIN CONVERSION FUNCTION
+// ============================================================================
+
+/**
+ * Converts a PF2e stat block directly to a Daggerheart adversary.
+ *
+ * Unlike `convertPF2eToDnD5e`, this keeps the PF2e level scale,
+ * action costs, reaction triggers, weaknesses, and traits.
+ *
+ * @param pf2e - The PF2e stat block to convert
+ * @returns The adversary with its tier placement and conversion notes
+ *
+ * @example
+ * ```typescript
+ * import { parsePF2eStatBlock } from '../parsers/pf2eParser';
+ * import { convertPF2eToDaggerheart } from '../converters/pf2eConversion';
+ *
+ * const { adversary, conversionNotes } = convertPF2eToDaggerheart(parsePF2eStatBlock(text));
+ * console.log(adversary.tier, adversary.tags);
+ * ```
+ */
+export function convertPF2eToDaggerheart(pf2e: PF2eStatBlock): PF2eNativeConversionResult {
+  const placement = pf2eLevelToTierPlacement(pf2e.level);
+  const { tier } = placement;
+  const type = classifyPF2eCreature(pf2e);
+  const difficulty = determineDifficulty(type, placement.placement);
+  const creatureType = detectCreatureType(pf2e.traits);
+  const conversionNotes: string[] = [describePlacement(pf2e.level, placement), `Classified as ${type}`];
+
+  // Strikes: melee first unless the creature fights at range
+  const strikes = [
+    ...pf2e.melee.map((strike) => convertStrike(strike, false, pf2e, type, placement)),
+    ...pf2e.ranged.map((strike) => convertStrike(strike, true, pf2e, type, placement)),
+  ];
+  if (type === AdversaryType.RANGED && pf2e.melee.length > 0) {
+    strikes.push(...strikes.splice(0, pf2e.melee.length));
+  }
+  const attack = strikes[0] ?? createDefaultAttack(tier);
+  if (strikes.length === 0) {
+    conversionNotes.push('No strikes; added a default Strike');
+  }
+
+  // Features
+  const features: Feature[] = [];
+  for (const ability of [...(pf2e.passiveAbilities ?? []), ...(pf2e.activeAbilities ?? [])]) {
+    features.push(convertAbility(ability, pf2e.level));
+  }
+  const multiAction = features.filter((feature) => feature.cost).length;
+  if (multiAction > 0) {
+    conversionNotes.push(`${multiAction} two- or three-action activities given Stress or Fear costs`);
+  }
+
+  for (const entry of pf2e.spellcasting ?? []) {
+    features.push(createSpellcastingFeature(entry));
+  }
+
+  features.push(...createDefenseFeatures(pf2e));
+  for (const weakness of pf2e.weaknesses) {
+    features.push(createWeaknessFeature(weakness));
+  }
+  if (pf2e.weaknesses.length > 0) {
+    conversionNotes.push(`${pf2e.weaknesses.length} weaknesses converted to vulnerability features`);
+  }
+
+  const creatureTactics = getTacticsForAdversaryType(type);
+  const hp = convertHP(pf2e, type, placement);
+  const adversary: DaggerheartAdversary = {
+    name: pf2e.name,
+    tier,
+    type,
+    difficulty,
+    evasion: convertEvasion(pf2e, placement),
+    thresholds: calculateThresholds(tier, difficulty),
+    hp,
+    stress: convertStress(pf2e, type, placement),
+    attack,
+    movement: convertMovement(pf2e),
+    features,
+    relentless: { hasRelentless: false },
+    horde: type === AdversaryType.HORDE ? buildHordeFeature(attack.damage, hp) : { isHorde: false },
+    description: {
+      shortDescription: pf2e.description ?? `A ${pf2e.size.toLowerCase()} ${pf2e.traits.join(' ').toLowerCase()} creature`.replace(/\s+/g, ' '),
+    },
+    motivesAndTactics: {
+      phrases: getMotivesForCreatureType(creatureType).slice(0, 3),
+      expandedDescription:
+        creatureTactics?.tactics ?? 'Fights with the actions it has, pressing whichever foe threatens it most.',
+    },
+    experience: convertExperience(pf2e, tier),
+    tags: buildTags(pf2e),
+    sourceSystem: 'Pathfinder 2e',
+    sourceCR: pf2e.level,
+  };
+
+  if (strikes.length > 1) {
+    adversary.additionalAttacks = strikes.slice(1);
+  }
+
+  return { adversary, placement, creatureType, conversionNotes };
+}
@@ -16,6 +16,10 @@
  * | 3/day innate | Action (1 Stress) |
  * | 1/day innate | Action (2 Stress) |
  *
+ * Spells found in the bundled SRD spell data (see srdSpells) get their
+ * real damage dice, range bands, Reaction Roll attributes, and conditions.
+ * Other spells fall back to name-based guesses and are reported as unknown.
+ *
  * @module spellcasterConversion
  * @version 1.0.0
  */
@@ -40,8 +44,11 @@ import {
   DamageExpression,
   DamageType,
   Attribute,
+  Condition,
 } from '../models/daggerheart';
 import { crToTier, getTierDicePool, parseCRString } from './crToTier';
+import { ABILITY_TO_ATTRIBUTE, CONDITION_MAP, dcToDifficulty } from './featureConversion';
+import { lookupSrdSpell, SrdSpell } from './srdSpells';
 
 // ============================================================================
 // EXPORTED INTERFACES
@@ -59,6 +66,8 @@ export interface SpellcasterConversionResult {
   spellAttack?: Attack;
   /** Notes about conversion decisions */
   conversionNotes: string[];
+  /** Spells not found in the SRD spell data */
+  unknownSpells: string[];
 }
 
 /**
@@ -240,12 +249,20 @@ export function isSpellcaster(statBlock: DnD5eMonster): boolean {
 }
 
 /**
- * Categorizes a spell based on its name.
+ * Categorizes a spell from its SRD data, falling back to its name.
  *
  * @param spell - Spell to categorize
  * @returns Spell category
  */
 function categorizeSpell(spell: Spell): SpellCategory {
+  const srdSpell = lookupSrdSpell(spell.name);
+  if (srdSpell?.damage) {
+    return SpellCategory.DAMAGE;
+  }
+  if (srdSpell?.conditions || srdSpell?.save) {
+    return SpellCategory.CONTROL;
+  }
+
   const name = spell.name.toLowerCase();
 
   // Check damage patterns
@@ -281,6 +298,7 @@ function categorizeSpell(spell: Spell): SpellCategory {
  */
 function isDamageCantrip(spell: Spell): boolean {
   if (spell.level !== 0) return false;
+  if (lookupSrdSpell(spell.name)?.damage) return true;
   const nameLower = spell.name.toLowerCase();
   return DAMAGE_CANTRIPS.some((dc) => nameLower.includes(dc));
 }
@@ -447,21 +465,25 @@ function generateSpellAttack(
   const attackBonus = spellcasting.spellAttackBonus || 0;
   const dicePool = getTierDicePool(tier as 1 | 2 | 3 | 4);
 
-  // Determine range based on cantrip name
+  const srdSpell = lookupSrdSpell(cantrip.name);
+
+  // Determine range from SRD data, or guess from the cantrip name
   const name = cantrip.name.toLowerCase();
   let range = RangeBand.FAR; // Default for most spell attacks
-  if (name.includes('touch') || name.includes('shocking grasp')) {
+  if (srdSpell) {
+    range = getSpellRangeBand(srdSpell);
+  } else if (name.includes('touch') || name.includes('shocking grasp')) {
     range = RangeBand.MELEE;
   } else if (name.includes('close') || name.includes('whip')) {
     range = RangeBand.CLOSE;
   }
 
-  // Scale damage dice by tier
-  const diceSize = tier <= 2 ? 6 : tier === 3 ? 8 : 10;
+  // Use the cantrip's own die, or scale the die by tier
+  const diceSize = srdSpell?.damage?.dieSize ?? (tier <= 2 ? 6 : tier === 3 ? 8 : 10);
 
   const damage: DamageExpression = {
     diceCount: dicePool,
-    diceSize: diceSize as 4 | 6 | 8 | 10 | 12,
+    diceSize,
     modifier: Math.floor(attackBonus / 2), // Partial mod for balance
     damageType: DamageType.MAGIC,
   };
@@ -509,6 +531,144 @@ function getSpellAdditionalEffect(spellName: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Converts an SRD spell's range to a range band. Self-centered spells
+ * use the size of their area instead.
+ *
+ * @param srdSpell - SRD spell data
+ * @returns Range band
+ */
+function getSpellRangeBand(srdSpell: SrdSpell): RangeBand {
+  const reach = srdSpell.range > 0 ? srdSpell.range : srdSpell.area?.size ?? 5;
+
+  if (reach <= 5) return RangeBand.MELEE;
+  if (reach <= 10) return RangeBand.VERY_CLOSE;
+  if (reach < 80) return RangeBand.CLOSE;
+  if (reach <= 150) return RangeBand.FAR;
+  return RangeBand.VERY_FAR;
+}
+
+/**
+ * Maps an SRD spell's conditions to Daggerheart conditions.
+ *
+ * @param srdSpell - SRD spell data
+ * @returns Daggerheart conditions without duplicates
+ */
+function getSpellConditions(srdSpell: SrdSpell): Condition[] {
+  const conditions = (srdSpell.conditions ?? [])
+    .map((condition) => CONDITION_MAP[condition])
+    .filter((condition): condition is Condition => condition !== undefined);
+  return [...new Set(conditions)];
+}
+
+/**
+ * Describes a spell for a feature description, adding its range, area,
+ * roll, damage, and conditions when the spell is in the SRD data.
+ *
+ * @param spell - Spell to describe
+ * @returns Spell name with a summary of its effect
+ */
+function describeSpell(spell: Spell): string {
+  const srdSpell = lookupSrdSpell(spell.name);
+  if (!srdSpell) return spell.name;
+
+  const details: string[] = [`${getSpellRangeBand(srdSpell)} range`];
+  if (srdSpell.area) {
+    details.push(`${srdSpell.area.size}-foot ${srdSpell.area.type}`);
+  }
+  if (srdSpell.attack) {
+    details.push('attack roll');
+  } else if (srdSpell.save && ABILITY_TO_ATTRIBUTE[srdSpell.save]) {
+    details.push(`${ABILITY_TO_ATTRIBUTE[srdSpell.save]} Reaction Roll`);
+  }
+  if (srdSpell.damage) {
+    details.push(`${srdSpell.damage.count}d${srdSpell.damage.dieSize} magic damage`);
+  }
+  const conditions = getSpellConditions(srdSpell);
+  if (conditions.length > 0) {
+    details.push(conditions.join(' or '));
+  }
+
+  return `${spell.name} (${details.join('; ')})`;
+}
+
+/**
+ * Fills in a spell feature's damage, Reaction Roll, target, and conditions
+ * from the SRD data of the spells it groups. The first known spell sets
+ * the damage, roll, and target; conditions are gathered from all of them.
+ *
+ * @param feature - Spell feature to update
+ * @param spells - Spells the feature covers, most important first
+ * @param spellSaveDC - Spell save DC, converted to the Reaction Roll difficulty
+ */
+function applySrdSpellData(feature: Feature, spells: Spell[], spellSaveDC: number): void {
+  const srdSpells = spells
+    .map((spell) => lookupSrdSpell(spell.name))
+    .filter((srdSpell): srdSpell is SrdSpell => srdSpell !== undefined);
+  const primary = srdSpells[0];
+  if (!primary) return;
+
+  const damaging = srdSpells.find((srdSpell) => srdSpell.damage);
+  if (damaging?.damage) {
+    feature.damage = {
+      diceCount: damaging.damage.count,
+      diceSize: damaging.damage.dieSize,
+      modifier: 0,
+      damageType: DamageType.MAGIC,
+    };
+  }
+
+  const attribute = primary.save ? ABILITY_TO_ATTRIBUTE[primary.save] : undefined;
+  if (attribute && !primary.attack) {
+    feature.reactionRollAttribute = attribute;
+    feature.reactionRollDifficulty = dcToDifficulty(spellSaveDC);
+  } else if (primary.attack) {
+    // Spell attacks roll against Evasion instead of forcing a Reaction Roll
+    delete feature.reactionRollAttribute;
+  }
+
+  const range = getSpellRangeBand(primary);
+  feature.target = primary.area
+    ? `All targets in a ${primary.area.size}-foot ${primary.area.type} within ${range} range`
+    : `One target within ${range} range`;
+
+  const conditions = [...new Set(srdSpells.flatMap(getSpellConditions))];
+  if (conditions.length > 0) {
+    feature.appliedConditions = conditions;
+  }
+}
+
+/**
+ * Finds the spells of a spellcasting block that are not in the SRD data.
+ *
+ * @param spellcasting - Spellcasting data
+ * @returns Names of unknown spells, without duplicates
+ *
+ * @example
+ * ```typescript
+ * const unknown = findUnknownSpells(monster.spellcasting);
+ * // ['Toll the Dead']
+ * ```
+ */
+export function findUnknownSpells(spellcasting: Spellcasting): string[] {
+  const spells: Spell[] = [];
+  if (isTraditionalSpellcasting(spellcasting)) {
+    spells.push(...(spellcasting.spells.cantrips ?? []));
+    for (const level of [1, 2, 3, 4, 5, 6, 7, 8, 9] as const) {
+      spells.push(...(spellcasting.spells[level] ?? []));
+    }
+  }
+  if (isInnateSpellcasting(spellcasting)) {
+    const { atWill, perDay3, perDay2, perDay1 } = spellcasting.spells;
+    spells.push(...(atWill ?? []), ...(perDay3 ?? []), ...(perDay2 ?? []), ...(perDay1 ?? []));
+  }
+
+  const unknown = spells
+    .filter((spell) => !lookupSrdSpell(spell.name))
+    .map((spell) => spell.name);
+  return [...new Set(unknown)];
+}
+
 /**
  * Generates a feature name based on spell category and level.
  *
@@ -542,7 +702,17 @@ function generateFeatureDescription(
   spells: AnalyzedSpell[],
   category: SpellCategory
 ): string {
-  const spellNames = spells.map((s) => s.spell.name).join(', ');
+  const spellNames = spells.map((s) => describeSpell(s.spell)).join(', ');
+
+  // Known spells already describe their rolls and effects
+  if (spells.every((s) => lookupSrdSpell(s.spell.name))) {
+    switch (category) {
+      case SpellCategory.DAMAGE:
+        return `Casts offensive magic: ${spellNames}.`;
+      case SpellCategory.CONTROL:
+        return `Casts control magic: ${spellNames}.`;
+    }
+  }
 
   switch (category) {
     case SpellCategory.DAMAGE:
@@ -594,6 +764,7 @@ function convertTraditionalSpellcasting(
     bonusStress: 0,
     spellFeatures: [],
     conversionNotes: [],
+    unknownSpells: [],
   };
 
   const { spells, slots } = spellcasting;
@@ -668,6 +839,7 @@ function convertTraditionalSpellcasting(
     if (attribute) {
       feature.reactionRollAttribute = attribute;
     }
+    applySrdSpellData(feature, spellGroup.map((s) => s.spell), spellcasting.spellSaveDC);
 
     result.spellFeatures.push(feature);
     result.conversionNotes.push(
@@ -693,6 +865,7 @@ function convertInnateSpellcasting(
     bonusStress: 0,
     spellFeatures: [],
     conversionNotes: [],
+    unknownSpells: [],
   };
 
   const { spells } = spellcasting;
@@ -739,13 +912,14 @@ function convertInnateSpellcasting(
       const feature: Feature = {
         name: 'Frequent Innate Magic',
         type: FeatureType.ACTION,
-        description: `Uses innate power: ${spellNames}.`,
+        description: `Uses innate power: ${priority.map((s) => describeSpell(s.spell)).join(', ')}.`,
         cost: createStressCost(1),
       };
 
       if (attribute) {
         feature.reactionRollAttribute = attribute;
       }
+      applySrdSpellData(feature, priority.map((s) => s.spell), spellcasting.spellSaveDC);
 
       result.spellFeatures.push(feature);
       result.conversionNotes.push(`3/day spells (${spellNames}) = 1 Stress action`);
@@ -763,12 +937,15 @@ function convertInnateSpellcasting(
       const stressCost = avgLevel >= 5 ? 2 : 1;
       const spellNames = priority.map((s) => s.spell.name).join(', ');
 
-      result.spellFeatures.push({
+      const feature: Feature = {
         name: 'Occasional Innate Magic',
         type: FeatureType.ACTION,
-        description: `Uses innate power: ${spellNames}.`,
+        description: `Uses innate power: ${priority.map((s) => describeSpell(s.spell)).join(', ')}.`,
         cost: createStressCost(stressCost),
-      });
+      };
+      applySrdSpellData(feature, priority.map((s) => s.spell), spellcasting.spellSaveDC);
+
+      result.spellFeatures.push(feature);
 
       result.conversionNotes.push(`2/day spells (${spellNames}) = ${stressCost} Stress`);
     }
@@ -788,13 +965,14 @@ function convertInnateSpellcasting(
       const feature: Feature = {
         name: 'Rare Innate Magic',
         type: FeatureType.ACTION,
-        description: `Uses powerful innate magic: ${spellNames}.`,
+        description: `Uses powerful innate magic: ${priority.map((s) => describeSpell(s.spell)).join(', ')}.`,
         cost: createStressCost(2),
       };
 
       if (attribute) {
         feature.reactionRollAttribute = attribute;
       }
+      applySrdSpellData(feature, priority.map((s) => s.spell), spellcasting.spellSaveDC);
 
       result.spellFeatures.push(feature);
       result.conversionNotes.push(`1/day spells (${spellNames}) = 2 Stress action`);
@@ -821,6 +999,7 @@ function convertInnateSpellcasting(
  * - Bonus Stress from spell slots
  * - Spell-based features with appropriate costs
  * - Magic attack from damage cantrips
+ * - A list of spells missing from the SRD spell data
  *
  * @param statBlock - D&D 5e monster stat block
  * @returns Complete spellcaster conversion result
@@ -840,6 +1019,7 @@ export function convertSpellcasting(statBlock: DnD5eMonster): SpellcasterConvers
     bonusStress: 0,
     spellFeatures: [],
     conversionNotes: [],
+    unknownSpells: [],
   };
 
   if (!statBlock.spellcasting) {
@@ -875,6 +1055,14 @@ export function convertSpellcasting(statBlock: DnD5eMonster): SpellcasterConvers
     result.conversionNotes.push('Innate spellcaster', ...innate.conversionNotes);
   }
 
+  // Report spells that were converted from their names alone
+  result.unknownSpells = findUnknownSpells(statBlock.spellcasting);
+  if (result.unknownSpells.length > 0) {
+    result.conversionNotes.push(
+      `Not in SRD spell data (converted by name): ${result.unknownSpells.join(', ')}`
+    );
+  }
+
   // Add spellcaster-specific passive
   if (result.spellFeatures.length > 0 || result.spellAttack) {
     result.spellFeatures.unshift({
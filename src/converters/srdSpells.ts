@@ -0,0 +1,462 @@
+/**
+ * SRD Spell Data
+ *
+ * Offline reference data for the spells in the D&D 5e System Reference
+ * Document (SRD 5.1). Spellcaster conversion uses it to give spell features
+ * real damage dice, range bands, reaction rolls, and conditions instead of
+ * guessing from spell names.
+ *
+ * Damage is recorded at the spell's base level. Ranges are in feet, with
+ * 0 for self-centered spells and 5 for touch spells.
+ *
+ * @module srdSpells
+ * @version 1.0.0
+ */
+
+import { AbilityScore, DnD5eCondition, DnD5eDamageType } from '../models/dnd5e';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Schools of magic
+ */
+export type SpellSchool =
+  | 'abjuration'
+  | 'conjuration'
+  | 'divination'
+  | 'enchantment'
+  | 'evocation'
+  | 'illusion'
+  | 'necromancy'
+  | 'transmutation';
+
+/**
+ * Reference data for a single SRD spell
+ */
+export interface SrdSpell {
+  name: string;
+  /** Spell level (0 for cantrips) */
+  level: number;
+  school: SpellSchool;
+  /** Range in feet (0 for self, 5 for touch) */
+  range: number;
+  concentration?: boolean;
+  /** Spell attack roll, if the spell uses one */
+  attack?: 'melee' | 'ranged';
+  /** Saving throw the targets make, if any */
+  save?: AbilityScore;
+  /** Damage at the spell's base level */
+  damage?: { count: number; dieSize: 4 | 6 | 8 | 10 | 12; type: DnD5eDamageType };
+  area?: { type: 'cone' | 'cube' | 'cylinder' | 'line' | 'sphere'; size: number };
+  /** Conditions the spell can impose */
+  conditions?: DnD5eCondition[];
+}
+
+// ============================================================================
+// SPELL DATA
+// ============================================================================
+
+/**
+ * Every spell in the SRD 5.1, ordered by level then name
+ */
+export const SRD_SPELLS: readonly SrdSpell[] = [
+  // Cantrips
+  { name: 'Acid Splash', level: 0, school: 'conjuration', range: 60, save: AbilityScore.DEXTERITY, damage: { count: 1, dieSize: 6, type: DnD5eDamageType.ACID } },
+  { name: 'Chill Touch', level: 0, school: 'necromancy', range: 120, attack: 'ranged', damage: { count: 1, dieSize: 8, type: DnD5eDamageType.NECROTIC } },
+  { name: 'Dancing Lights', level: 0, school: 'evocation', range: 120, concentration: true },
+  { name: 'Druidcraft', level: 0, school: 'transmutation', range: 30 },
+  { name: 'Eldritch Blast', level: 0, school: 'evocation', range: 120, attack: 'ranged', damage: { count: 1, dieSize: 10, type: DnD5eDamageType.FORCE } },
+  { name: 'Fire Bolt', level: 0, school: 'evocation', range: 120, attack: 'ranged', damage: { count: 1, dieSize: 10, type: DnD5eDamageType.FIRE } },
+  { name: 'Guidance', level: 0, school: 'divination', range: 5, concentration: true },
+  { name: 'Light', level: 0, school: 'evocation', range: 5 },
+  { name: 'Mage Hand', level: 0, school: 'conjuration', range: 30 },
+  { name: 'Mending', level: 0, school: 'transmutation', range: 5 },
+  { name: 'Message', level: 0, school: 'transmutation', range: 120 },
+  { name: 'Minor Illusion', level: 0, school: 'illusion', range: 30 },
+  { name: 'Poison Spray', level: 0, school: 'conjuration', range: 10, save: AbilityScore.CONSTITUTION, damage: { count: 1, dieSize: 12, type: DnD5eDamageType.POISON } },
+  { name: 'Prestidigitation', level: 0, school: 'transmutation', range: 10 },
+  { name: 'Produce Flame', level: 0, school: 'conjuration', range: 30, attack: 'ranged', damage: { count: 1, dieSize: 8, type: DnD5eDamageType.FIRE } },
+  { name: 'Ray of Frost', level: 0, school: 'evocation', range: 60, attack: 'ranged', damage: { count: 1, dieSize: 8, type: DnD5eDamageType.COLD } },
+  { name: 'Resistance', level: 0, school: 'abjuration', range: 5, concentration: true },
+  { name: 'Sacred Flame', level: 0, school: 'evocation', range: 60, save: AbilityScore.DEXTERITY, damage: { count: 1, dieSize: 8, type: DnD5eDamageType.RADIANT } },
+  { name: 'Shillelagh', level: 0, school: 'transmutation', range: 5 },
+  { name: 'Shocking Grasp', level: 0, school: 'evocation', range: 5, attack: 'melee', damage: { count: 1, dieSize: 8, type: DnD5eDamageType.LIGHTNING } },
+  { name: 'Spare the Dying', level: 0, school: 'necromancy', range: 5 },
+  { name: 'Thaumaturgy', level: 0, school: 'transmutation', range: 30 },
+  { name: 'True Strike', level: 0, school: 'divination', range: 30, concentration: true },
+  { name: 'Vicious Mockery', level: 0, school: 'enchantment', range: 60, save: AbilityScore.WISDOM, damage: { count: 1, dieSize: 4, type: DnD5eDamageType.PSYCHIC } },
+
+  // Level 1
+  { name: 'Alarm', level: 1, school: 'abjuration', range: 30 },
+  { name: 'Animal Friendship', level: 1, school: 'enchantment', range: 30, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.CHARMED] },
+  { name: 'Bane', level: 1, school: 'enchantment', range: 30, concentration: true, save: AbilityScore.CHARISMA },
+  { name: 'Bless', level: 1, school: 'enchantment', range: 30, concentration: true },
+  { name: 'Burning Hands', level: 1, school: 'evocation', range: 0, save: AbilityScore.DEXTERITY, damage: { count: 3, dieSize: 6, type: DnD5eDamageType.FIRE }, area: { type: 'cone', size: 15 } },
+  { name: 'Charm Person', level: 1, school: 'enchantment', range: 30, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.CHARMED] },
+  { name: 'Color Spray', level: 1, school: 'illusion', range: 0, area: { type: 'cone', size: 15 }, conditions: [DnD5eCondition.BLINDED] },
+  { name: 'Command', level: 1, school: 'enchantment', range: 60, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.PRONE] },
+  { name: 'Comprehend Languages', level: 1, school: 'divination', range: 0 },
+  { name: 'Create or Destroy Water', level: 1, school: 'transmutation', range: 30 },
+  { name: 'Cure Wounds', level: 1, school: 'evocation', range: 5 },
+  { name: 'Detect Evil and Good', level: 1, school: 'divination', range: 0, concentration: true },
+  { name: 'Detect Magic', level: 1, school: 'divination', range: 0, concentration: true },
+  { name: 'Detect Poison and Disease', level: 1, school: 'divination', range: 0, concentration: true },
+  { name: 'Disguise Self', level: 1, school: 'illusion', range: 0 },
+  { name: 'Divine Favor', level: 1, school: 'evocation', range: 0, concentration: true },
+  { name: 'Entangle', level: 1, school: 'conjuration', range: 90, concentration: true, save: AbilityScore.STRENGTH, area: { type: 'cube', size: 20 }, conditions: [DnD5eCondition.RESTRAINED] },
+  { name: 'Expeditious Retreat', level: 1, school: 'transmutation', range: 0, concentration: true },
+  { name: 'Faerie Fire', level: 1, school: 'evocation', range: 60, concentration: true, save: AbilityScore.DEXTERITY, area: { type: 'cube', size: 20 } },
+  { name: 'False Life', level: 1, school: 'necromancy', range: 0 },
+  { name: 'Feather Fall', level: 1, school: 'transmutation', range: 60 },
+  { name: 'Floating Disk', level: 1, school: 'conjuration', range: 30 },
+  { name: 'Fog Cloud', level: 1, school: 'conjuration', range: 120, concentration: true, area: { type: 'sphere', size: 20 } },
+  { name: 'Goodberry', level: 1, school: 'transmutation', range: 5 },
+  { name: 'Grease', level: 1, school: 'conjuration', range: 60, save: AbilityScore.DEXTERITY, area: { type: 'cube', size: 10 }, conditions: [DnD5eCondition.PRONE] },
+  { name: 'Guiding Bolt', level: 1, school: 'evocation', range: 120, attack: 'ranged', damage: { count: 4, dieSize: 6, type: DnD5eDamageType.RADIANT } },
+  { name: 'Healing Word', level: 1, school: 'evocation', range: 60 },
+  { name: 'Hellish Rebuke', level: 1, school: 'evocation', range: 60, save: AbilityScore.DEXTERITY, damage: { count: 2, dieSize: 10, type: DnD5eDamageType.FIRE } },
+  { name: 'Heroism', level: 1, school: 'enchantment', range: 5, concentration: true },
+  { name: 'Hideous Laughter', level: 1, school: 'enchantment', range: 30, concentration: true, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.PRONE, DnD5eCondition.INCAPACITATED] },
+  { name: 'Hunter\'s Mark', level: 1, school: 'divination', range: 90, concentration: true },
+  { name: 'Identify', level: 1, school: 'divination', range: 5 },
+  { name: 'Illusory Script', level: 1, school: 'illusion', range: 5 },
+  { name: 'Inflict Wounds', level: 1, school: 'necromancy', range: 5, attack: 'melee', damage: { count: 3, dieSize: 10, type: DnD5eDamageType.NECROTIC } },
+  { name: 'Jump', level: 1, school: 'transmutation', range: 5 },
+  { name: 'Longstrider', level: 1, school: 'transmutation', range: 5 },
+  { name: 'Mage Armor', level: 1, school: 'abjuration', range: 5 },
+  { name: 'Magic Missile', level: 1, school: 'evocation', range: 120, damage: { count: 3, dieSize: 4, type: DnD5eDamageType.FORCE } },
+  { name: 'Protection from Evil and Good', level: 1, school: 'abjuration', range: 5, concentration: true },
+  { name: 'Purify Food and Drink', level: 1, school: 'transmutation', range: 10 },
+  { name: 'Sanctuary', level: 1, school: 'abjuration', range: 30 },
+  { name: 'Shield', level: 1, school: 'abjuration', range: 0 },
+  { name: 'Shield of Faith', level: 1, school: 'abjuration', range: 60, concentration: true },
+  { name: 'Silent Image', level: 1, school: 'illusion', range: 60, concentration: true },
+  { name: 'Sleep', level: 1, school: 'enchantment', range: 90, area: { type: 'sphere', size: 20 }, conditions: [DnD5eCondition.UNCONSCIOUS] },
+  { name: 'Speak with Animals', level: 1, school: 'divination', range: 0 },
+  { name: 'Thunderwave', level: 1, school: 'evocation', range: 0, save: AbilityScore.CONSTITUTION, damage: { count: 2, dieSize: 8, type: DnD5eDamageType.THUNDER }, area: { type: 'cube', size: 15 } },
+  { name: 'Unseen Servant', level: 1, school: 'conjuration', range: 60 },
+
+  // Level 2
+  { name: 'Acid Arrow', level: 2, school: 'evocation', range: 90, attack: 'ranged', damage: { count: 4, dieSize: 4, type: DnD5eDamageType.ACID } },
+  { name: 'Aid', level: 2, school: 'abjuration', range: 30 },
+  { name: 'Alter Self', level: 2, school: 'transmutation', range: 0, concentration: true },
+  { name: 'Animal Messenger', level: 2, school: 'enchantment', range: 30 },
+  { name: 'Arcane Lock', level: 2, school: 'abjuration', range: 5 },
+  { name: 'Arcanist\'s Magic Aura', level: 2, school: 'illusion', range: 5 },
+  { name: 'Augury', level: 2, school: 'divination', range: 0 },
+  { name: 'Barkskin', level: 2, school: 'transmutation', range: 5, concentration: true },
+  { name: 'Blindness/Deafness', level: 2, school: 'necromancy', range: 30, save: AbilityScore.CONSTITUTION, conditions: [DnD5eCondition.BLINDED, DnD5eCondition.DEAFENED] },
+  { name: 'Blur', level: 2, school: 'illusion', range: 0, concentration: true },
+  { name: 'Branding Smite', level: 2, school: 'evocation', range: 0, concentration: true, damage: { count: 2, dieSize: 6, type: DnD5eDamageType.RADIANT } },
+  { name: 'Calm Emotions', level: 2, school: 'enchantment', range: 60, concentration: true, save: AbilityScore.CHARISMA, area: { type: 'sphere', size: 20 } },
+  { name: 'Continual Flame', level: 2, school: 'evocation', range: 5 },
+  { name: 'Darkness', level: 2, school: 'evocation', range: 60, concentration: true, area: { type: 'sphere', size: 15 } },
+  { name: 'Darkvision', level: 2, school: 'transmutation', range: 5 },
+  { name: 'Detect Thoughts', level: 2, school: 'divination', range: 0, concentration: true, save: AbilityScore.WISDOM },
+  { name: 'Enhance Ability', level: 2, school: 'transmutation', range: 5, concentration: true },
+  { name: 'Enlarge/Reduce', level: 2, school: 'transmutation', range: 30, concentration: true, save: AbilityScore.CONSTITUTION },
+  { name: 'Enthrall', level: 2, school: 'enchantment', range: 60, save: AbilityScore.WISDOM },
+  { name: 'Find Steed', level: 2, school: 'conjuration', range: 30 },
+  { name: 'Find Traps', level: 2, school: 'divination', range: 120 },
+  { name: 'Flame Blade', level: 2, school: 'evocation', range: 0, concentration: true, attack: 'melee', damage: { count: 3, dieSize: 6, type: DnD5eDamageType.FIRE } },
+  { name: 'Flaming Sphere', level: 2, school: 'conjuration', range: 60, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 2, dieSize: 6, type: DnD5eDamageType.FIRE }, area: { type: 'sphere', size: 5 } },
+  { name: 'Gentle Repose', level: 2, school: 'necromancy', range: 5 },
+  { name: 'Gust of Wind', level: 2, school: 'evocation', range: 0, concentration: true, save: AbilityScore.STRENGTH, area: { type: 'line', size: 60 } },
+  { name: 'Heat Metal', level: 2, school: 'transmutation', range: 60, concentration: true, save: AbilityScore.CONSTITUTION, damage: { count: 2, dieSize: 8, type: DnD5eDamageType.FIRE } },
+  { name: 'Hold Person', level: 2, school: 'enchantment', range: 60, concentration: true, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.PARALYZED] },
+  { name: 'Invisibility', level: 2, school: 'illusion', range: 5, concentration: true },
+  { name: 'Knock', level: 2, school: 'transmutation', range: 60 },
+  { name: 'Lesser Restoration', level: 2, school: 'abjuration', range: 5 },
+  { name: 'Levitate', level: 2, school: 'transmutation', range: 60, concentration: true, save: AbilityScore.CONSTITUTION },
+  { name: 'Locate Animals or Plants', level: 2, school: 'divination', range: 0 },
+  { name: 'Locate Object', level: 2, school: 'divination', range: 0, concentration: true },
+  { name: 'Magic Mouth', level: 2, school: 'illusion', range: 30 },
+  { name: 'Magic Weapon', level: 2, school: 'transmutation', range: 5, concentration: true },
+  { name: 'Mirror Image', level: 2, school: 'illusion', range: 0 },
+  { name: 'Misty Step', level: 2, school: 'conjuration', range: 0 },
+  { name: 'Moonbeam', level: 2, school: 'evocation', range: 120, concentration: true, save: AbilityScore.CONSTITUTION, damage: { count: 2, dieSize: 10, type: DnD5eDamageType.RADIANT }, area: { type: 'cylinder', size: 5 } },
+  { name: 'Pass without Trace', level: 2, school: 'abjuration', range: 0, concentration: true },
+  { name: 'Prayer of Healing', level: 2, school: 'evocation', range: 30 },
+  { name: 'Protection from Poison', level: 2, school: 'abjuration', range: 5 },
+  { name: 'Ray of Enfeeblement', level: 2, school: 'necromancy', range: 60, concentration: true, attack: 'ranged' },
+  { name: 'Rope Trick', level: 2, school: 'transmutation', range: 5 },
+  { name: 'Scorching Ray', level: 2, school: 'evocation', range: 120, attack: 'ranged', damage: { count: 2, dieSize: 6, type: DnD5eDamageType.FIRE } },
+  { name: 'See Invisibility', level: 2, school: 'divination', range: 0 },
+  { name: 'Shatter', level: 2, school: 'evocation', range: 60, save: AbilityScore.CONSTITUTION, damage: { count: 3, dieSize: 8, type: DnD5eDamageType.THUNDER }, area: { type: 'sphere', size: 10 } },
+  { name: 'Silence', level: 2, school: 'illusion', range: 120, concentration: true, area: { type: 'sphere', size: 20 }, conditions: [DnD5eCondition.DEAFENED] },
+  { name: 'Spider Climb', level: 2, school: 'transmutation', range: 5, concentration: true },
+  { name: 'Spike Growth', level: 2, school: 'transmutation', range: 150, concentration: true, damage: { count: 2, dieSize: 4, type: DnD5eDamageType.PIERCING }, area: { type: 'sphere', size: 20 } },
+  { name: 'Spiritual Weapon', level: 2, school: 'evocation', range: 60, attack: 'melee', damage: { count: 1, dieSize: 8, type: DnD5eDamageType.FORCE } },
+  { name: 'Suggestion', level: 2, school: 'enchantment', range: 30, concentration: true, save: AbilityScore.WISDOM },
+  { name: 'Warding Bond', level: 2, school: 'abjuration', range: 5 },
+  { name: 'Web', level: 2, school: 'conjuration', range: 60, concentration: true, save: AbilityScore.DEXTERITY, area: { type: 'cube', size: 20 }, conditions: [DnD5eCondition.RESTRAINED] },
+  { name: 'Zone of Truth', level: 2, school: 'enchantment', range: 60, save: AbilityScore.CHARISMA, area: { type: 'sphere', size: 15 } },
+
+  // Level 3
+  { name: 'Animate Dead', level: 3, school: 'necromancy', range: 10 },
+  { name: 'Beacon of Hope', level: 3, school: 'abjuration', range: 30, concentration: true },
+  { name: 'Bestow Curse', level: 3, school: 'necromancy', range: 5, concentration: true, save: AbilityScore.WISDOM },
+  { name: 'Blink', level: 3, school: 'transmutation', range: 0 },
+  { name: 'Call Lightning', level: 3, school: 'conjuration', range: 120, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 3, dieSize: 10, type: DnD5eDamageType.LIGHTNING }, area: { type: 'cylinder', size: 5 } },
+  { name: 'Clairvoyance', level: 3, school: 'divination', range: 5280, concentration: true },
+  { name: 'Conjure Animals', level: 3, school: 'conjuration', range: 60, concentration: true },
+  { name: 'Counterspell', level: 3, school: 'abjuration', range: 60 },
+  { name: 'Create Food and Water', level: 3, school: 'conjuration', range: 30 },
+  { name: 'Daylight', level: 3, school: 'evocation', range: 60, area: { type: 'sphere', size: 60 } },
+  { name: 'Dispel Magic', level: 3, school: 'abjuration', range: 120 },
+  { name: 'Fear', level: 3, school: 'illusion', range: 0, concentration: true, save: AbilityScore.WISDOM, area: { type: 'cone', size: 30 }, conditions: [DnD5eCondition.FRIGHTENED] },
+  { name: 'Fireball', level: 3, school: 'evocation', range: 150, save: AbilityScore.DEXTERITY, damage: { count: 8, dieSize: 6, type: DnD5eDamageType.FIRE }, area: { type: 'sphere', size: 20 } },
+  { name: 'Fly', level: 3, school: 'transmutation', range: 5, concentration: true },
+  { name: 'Gaseous Form', level: 3, school: 'transmutation', range: 5, concentration: true },
+  { name: 'Glyph of Warding', level: 3, school: 'abjuration', range: 5, save: AbilityScore.DEXTERITY, damage: { count: 5, dieSize: 8, type: DnD5eDamageType.FIRE }, area: { type: 'sphere', size: 20 } },
+  { name: 'Haste', level: 3, school: 'transmutation', range: 30, concentration: true },
+  { name: 'Hypnotic Pattern', level: 3, school: 'illusion', range: 120, concentration: true, save: AbilityScore.WISDOM, area: { type: 'cube', size: 30 }, conditions: [DnD5eCondition.CHARMED, DnD5eCondition.INCAPACITATED] },
+  { name: 'Lightning Bolt', level: 3, school: 'evocation', range: 0, save: AbilityScore.DEXTERITY, damage: { count: 8, dieSize: 6, type: DnD5eDamageType.LIGHTNING }, area: { type: 'line', size: 100 } },
+  { name: 'Magic Circle', level: 3, school: 'abjuration', range: 10, area: { type: 'cylinder', size: 10 } },
+  { name: 'Major Image', level: 3, school: 'illusion', range: 120, concentration: true },
+  { name: 'Mass Healing Word', level: 3, school: 'evocation', range: 60 },
+  { name: 'Meld into Stone', level: 3, school: 'transmutation', range: 5 },
+  { name: 'Nondetection', level: 3, school: 'abjuration', range: 5 },
+  { name: 'Phantom Steed', level: 3, school: 'illusion', range: 30 },
+  { name: 'Plant Growth', level: 3, school: 'transmutation', range: 150 },
+  { name: 'Protection from Energy', level: 3, school: 'abjuration', range: 5, concentration: true },
+  { name: 'Remove Curse', level: 3, school: 'abjuration', range: 5 },
+  { name: 'Revivify', level: 3, school: 'necromancy', range: 5 },
+  { name: 'Sending', level: 3, school: 'evocation', range: 0 },
+  { name: 'Sleet Storm', level: 3, school: 'conjuration', range: 150, concentration: true, save: AbilityScore.DEXTERITY, area: { type: 'cylinder', size: 40 }, conditions: [DnD5eCondition.PRONE] },
+  { name: 'Slow', level: 3, school: 'transmutation', range: 120, concentration: true, save: AbilityScore.WISDOM, area: { type: 'cube', size: 40 } },
+  { name: 'Speak with Dead', level: 3, school: 'necromancy', range: 10 },
+  { name: 'Speak with Plants', level: 3, school: 'transmutation', range: 0 },
+  { name: 'Spirit Guardians', level: 3, school: 'conjuration', range: 0, concentration: true, save: AbilityScore.WISDOM, damage: { count: 3, dieSize: 8, type: DnD5eDamageType.RADIANT }, area: { type: 'sphere', size: 15 } },
+  { name: 'Stinking Cloud', level: 3, school: 'conjuration', range: 90, concentration: true, save: AbilityScore.CONSTITUTION, area: { type: 'sphere', size: 20 } },
+  { name: 'Tiny Hut', level: 3, school: 'evocation', range: 0, area: { type: 'sphere', size: 10 } },
+  { name: 'Tongues', level: 3, school: 'divination', range: 5 },
+  { name: 'Vampiric Touch', level: 3, school: 'necromancy', range: 0, concentration: true, attack: 'melee', damage: { count: 3, dieSize: 6, type: DnD5eDamageType.NECROTIC } },
+  { name: 'Water Breathing', level: 3, school: 'transmutation', range: 30 },
+  { name: 'Water Walk', level: 3, school: 'transmutation', range: 30 },
+  { name: 'Wind Wall', level: 3, school: 'evocation', range: 120, concentration: true, save: AbilityScore.STRENGTH, damage: { count: 3, dieSize: 8, type: DnD5eDamageType.BLUDGEONING } },
+
+  // Level 4
+  { name: 'Arcane Eye', level: 4, school: 'divination', range: 30, concentration: true },
+  { name: 'Banishment', level: 4, school: 'abjuration', range: 60, concentration: true, save: AbilityScore.CHARISMA },
+  { name: 'Black Tentacles', level: 4, school: 'conjuration', range: 90, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 3, dieSize: 6, type: DnD5eDamageType.BLUDGEONING }, area: { type: 'cube', size: 20 }, conditions: [DnD5eCondition.RESTRAINED] },
+  { name: 'Blight', level: 4, school: 'necromancy', range: 30, save: AbilityScore.CONSTITUTION, damage: { count: 8, dieSize: 8, type: DnD5eDamageType.NECROTIC } },
+  { name: 'Compulsion', level: 4, school: 'enchantment', range: 30, concentration: true, save: AbilityScore.WISDOM },
+  { name: 'Confusion', level: 4, school: 'enchantment', range: 90, concentration: true, save: AbilityScore.WISDOM, area: { type: 'sphere', size: 10 } },
+  { name: 'Conjure Minor Elementals', level: 4, school: 'conjuration', range: 90, concentration: true },
+  { name: 'Conjure Woodland Beings', level: 4, school: 'conjuration', range: 60, concentration: true },
+  { name: 'Control Water', level: 4, school: 'transmutation', range: 300, concentration: true },
+  { name: 'Death Ward', level: 4, school: 'abjuration', range: 5 },
+  { name: 'Dimension Door', level: 4, school: 'conjuration', range: 500 },
+  { name: 'Divination', level: 4, school: 'divination', range: 0 },
+  { name: 'Dominate Beast', level: 4, school: 'enchantment', range: 60, concentration: true, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.CHARMED] },
+  { name: 'Fabricate', level: 4, school: 'transmutation', range: 120 },
+  { name: 'Faithful Hound', level: 4, school: 'conjuration', range: 30, attack: 'melee', damage: { count: 4, dieSize: 8, type: DnD5eDamageType.PIERCING } },
+  { name: 'Fire Shield', level: 4, school: 'evocation', range: 0 },
+  { name: 'Freedom of Movement', level: 4, school: 'abjuration', range: 5 },
+  { name: 'Giant Insect', level: 4, school: 'transmutation', range: 30, concentration: true },
+  { name: 'Greater Invisibility', level: 4, school: 'illusion', range: 5, concentration: true },
+  { name: 'Guardian of Faith', level: 4, school: 'conjuration', range: 30, save: AbilityScore.DEXTERITY },
+  { name: 'Hallucinatory Terrain', level: 4, school: 'illusion', range: 300 },
+  { name: 'Ice Storm', level: 4, school: 'evocation', range: 300, save: AbilityScore.DEXTERITY, damage: { count: 4, dieSize: 6, type: DnD5eDamageType.COLD }, area: { type: 'cylinder', size: 20 } },
+  { name: 'Locate Creature', level: 4, school: 'divination', range: 0, concentration: true },
+  { name: 'Phantasmal Killer', level: 4, school: 'illusion', range: 120, concentration: true, save: AbilityScore.WISDOM, damage: { count: 4, dieSize: 10, type: DnD5eDamageType.PSYCHIC }, conditions: [DnD5eCondition.FRIGHTENED] },
+  { name: 'Polymorph', level: 4, school: 'transmutation', range: 60, concentration: true, save: AbilityScore.WISDOM },
+  { name: 'Private Sanctum', level: 4, school: 'abjuration', range: 120 },
+  { name: 'Resilient Sphere', level: 4, school: 'evocation', range: 30, concentration: true, save: AbilityScore.DEXTERITY },
+  { name: 'Secret Chest', level: 4, school: 'conjuration', range: 5 },
+  { name: 'Stone Shape', level: 4, school: 'transmutation', range: 5 },
+  { name: 'Stoneskin', level: 4, school: 'abjuration', range: 5, concentration: true },
+  { name: 'Wall of Fire', level: 4, school: 'evocation', range: 120, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 5, dieSize: 8, type: DnD5eDamageType.FIRE }, area: { type: 'line', size: 60 } },
+
+  // Level 5
+  { name: 'Animate Objects', level: 5, school: 'transmutation', range: 120, concentration: true },
+  { name: 'Antilife Shell', level: 5, school: 'abjuration', range: 0, concentration: true, area: { type: 'sphere', size: 10 } },
+  { name: 'Arcane Hand', level: 5, school: 'evocation', range: 120, concentration: true, attack: 'melee', damage: { count: 4, dieSize: 8, type: DnD5eDamageType.FORCE } },
+  { name: 'Awaken', level: 5, school: 'transmutation', range: 5 },
+  { name: 'Cloudkill', level: 5, school: 'conjuration', range: 120, concentration: true, save: AbilityScore.CONSTITUTION, damage: { count: 5, dieSize: 8, type: DnD5eDamageType.POISON }, area: { type: 'sphere', size: 20 } },
+  { name: 'Commune', level: 5, school: 'divination', range: 0 },
+  { name: 'Commune with Nature', level: 5, school: 'divination', range: 0 },
+  { name: 'Cone of Cold', level: 5, school: 'evocation', range: 0, save: AbilityScore.CONSTITUTION, damage: { count: 8, dieSize: 8, type: DnD5eDamageType.COLD }, area: { type: 'cone', size: 60 } },
+  { name: 'Conjure Elemental', level: 5, school: 'conjuration', range: 90, concentration: true },
+  { name: 'Contact Other Plane', level: 5, school: 'divination', range: 0 },
+  { name: 'Contagion', level: 5, school: 'necromancy', range: 5, attack: 'melee', conditions: [DnD5eCondition.POISONED] },
+  { name: 'Creation', level: 5, school: 'illusion', range: 30 },
+  { name: 'Dispel Evil and Good', level: 5, school: 'abjuration', range: 0, concentration: true },
+  { name: 'Dominate Person', level: 5, school: 'enchantment', range: 60, concentration: true, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.CHARMED] },
+  { name: 'Dream', level: 5, school: 'illusion', range: 0 },
+  { name: 'Flame Strike', level: 5, school: 'evocation', range: 60, save: AbilityScore.DEXTERITY, damage: { count: 4, dieSize: 6, type: DnD5eDamageType.FIRE }, area: { type: 'cylinder', size: 10 } },
+  { name: 'Geas', level: 5, school: 'enchantment', range: 60, save: AbilityScore.WISDOM },
+  { name: 'Greater Restoration', level: 5, school: 'abjuration', range: 5 },
+  { name: 'Hallow', level: 5, school: 'evocation', range: 5 },
+  { name: 'Hold Monster', level: 5, school: 'enchantment', range: 90, concentration: true, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.PARALYZED] },
+  { name: 'Insect Plague', level: 5, school: 'conjuration', range: 300, concentration: true, save: AbilityScore.CONSTITUTION, damage: { count: 4, dieSize: 10, type: DnD5eDamageType.PIERCING }, area: { type: 'sphere', size: 20 } },
+  { name: 'Legend Lore', level: 5, school: 'divination', range: 0 },
+  { name: 'Mass Cure Wounds', level: 5, school: 'evocation', range: 60, area: { type: 'sphere', size: 30 } },
+  { name: 'Mislead', level: 5, school: 'illusion', range: 0, concentration: true },
+  { name: 'Modify Memory', level: 5, school: 'enchantment', range: 30, concentration: true, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.CHARMED] },
+  { name: 'Passwall', level: 5, school: 'transmutation', range: 30 },
+  { name: 'Planar Binding', level: 5, school: 'abjuration', range: 60, save: AbilityScore.CHARISMA },
+  { name: 'Raise Dead', level: 5, school: 'necromancy', range: 5 },
+  { name: 'Reincarnate', level: 5, school: 'transmutation', range: 5 },
+  { name: 'Scrying', level: 5, school: 'divination', range: 0, concentration: true, save: AbilityScore.WISDOM },
+  { name: 'Seeming', level: 5, school: 'illusion', range: 30, save: AbilityScore.CHARISMA },
+  { name: 'Telekinesis', level: 5, school: 'transmutation', range: 60, concentration: true, conditions: [DnD5eCondition.RESTRAINED] },
+  { name: 'Telepathic Bond', level: 5, school: 'divination', range: 30 },
+  { name: 'Teleportation Circle', level: 5, school: 'conjuration', range: 10 },
+  { name: 'Tree Stride', level: 5, school: 'conjuration', range: 0, concentration: true },
+  { name: 'Wall of Force', level: 5, school: 'evocation', range: 120, concentration: true },
+  { name: 'Wall of Stone', level: 5, school: 'evocation', range: 120, concentration: true, save: AbilityScore.DEXTERITY },
+
+  // Level 6
+  { name: 'Blade Barrier', level: 6, school: 'evocation', range: 90, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 6, dieSize: 10, type: DnD5eDamageType.SLASHING }, area: { type: 'line', size: 100 } },
+  { name: 'Chain Lightning', level: 6, school: 'evocation', range: 150, save: AbilityScore.DEXTERITY, damage: { count: 10, dieSize: 8, type: DnD5eDamageType.LIGHTNING } },
+  { name: 'Circle of Death', level: 6, school: 'necromancy', range: 150, save: AbilityScore.CONSTITUTION, damage: { count: 8, dieSize: 6, type: DnD5eDamageType.NECROTIC }, area: { type: 'sphere', size: 60 } },
+  { name: 'Conjure Fey', level: 6, school: 'conjuration', range: 90, concentration: true },
+  { name: 'Contingency', level: 6, school: 'evocation', range: 0 },
+  { name: 'Create Undead', level: 6, school: 'necromancy', range: 10 },
+  { name: 'Disintegrate', level: 6, school: 'transmutation', range: 60, save: AbilityScore.DEXTERITY, damage: { count: 10, dieSize: 6, type: DnD5eDamageType.FORCE } },
+  { name: 'Eyebite', level: 6, school: 'necromancy', range: 0, concentration: true, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.UNCONSCIOUS, DnD5eCondition.FRIGHTENED] },
+  { name: 'Find the Path', level: 6, school: 'divination', range: 0, concentration: true },
+  { name: 'Flesh to Stone', level: 6, school: 'transmutation', range: 60, concentration: true, save: AbilityScore.CONSTITUTION, conditions: [DnD5eCondition.RESTRAINED, DnD5eCondition.PETRIFIED] },
+  { name: 'Forbiddance', level: 6, school: 'abjuration', range: 5 },
+  { name: 'Freezing Sphere', level: 6, school: 'evocation', range: 300, save: AbilityScore.CONSTITUTION, damage: { count: 10, dieSize: 6, type: DnD5eDamageType.COLD }, area: { type: 'sphere', size: 60 } },
+  { name: 'Globe of Invulnerability', level: 6, school: 'abjuration', range: 0, concentration: true, area: { type: 'sphere', size: 10 } },
+  { name: 'Guards and Wards', level: 6, school: 'abjuration', range: 5 },
+  { name: 'Harm', level: 6, school: 'necromancy', range: 60, save: AbilityScore.CONSTITUTION, damage: { count: 14, dieSize: 6, type: DnD5eDamageType.NECROTIC } },
+  { name: 'Heal', level: 6, school: 'evocation', range: 60 },
+  { name: 'Heroes\' Feast', level: 6, school: 'conjuration', range: 30 },
+  { name: 'Instant Summons', level: 6, school: 'conjuration', range: 5 },
+  { name: 'Irresistible Dance', level: 6, school: 'enchantment', range: 30, concentration: true, save: AbilityScore.WISDOM },
+  { name: 'Magic Jar', level: 6, school: 'necromancy', range: 0, save: AbilityScore.CHARISMA },
+  { name: 'Mass Suggestion', level: 6, school: 'enchantment', range: 60, save: AbilityScore.WISDOM },
+  { name: 'Move Earth', level: 6, school: 'transmutation', range: 120, concentration: true },
+  { name: 'Planar Ally', level: 6, school: 'conjuration', range: 60 },
+  { name: 'Programmed Illusion', level: 6, school: 'illusion', range: 120 },
+  { name: 'Sunbeam', level: 6, school: 'evocation', range: 0, concentration: true, save: AbilityScore.CONSTITUTION, damage: { count: 6, dieSize: 8, type: DnD5eDamageType.RADIANT }, area: { type: 'line', size: 60 }, conditions: [DnD5eCondition.BLINDED] },
+  { name: 'Transport via Plants', level: 6, school: 'conjuration', range: 10 },
+  { name: 'True Seeing', level: 6, school: 'divination', range: 5 },
+  { name: 'Wall of Ice', level: 6, school: 'evocation', range: 120, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 10, dieSize: 6, type: DnD5eDamageType.COLD } },
+  { name: 'Wall of Thorns', level: 6, school: 'conjuration', range: 120, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 7, dieSize: 8, type: DnD5eDamageType.PIERCING } },
+  { name: 'Wind Walk', level: 6, school: 'transmutation', range: 30 },
+  { name: 'Word of Recall', level: 6, school: 'conjuration', range: 5 },
+
+  // Level 7
+  { name: 'Arcane Sword', level: 7, school: 'evocation', range: 60, concentration: true, attack: 'melee', damage: { count: 3, dieSize: 10, type: DnD5eDamageType.FORCE } },
+  { name: 'Conjure Celestial', level: 7, school: 'conjuration', range: 90, concentration: true },
+  { name: 'Delayed Blast Fireball', level: 7, school: 'evocation', range: 150, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 12, dieSize: 6, type: DnD5eDamageType.FIRE }, area: { type: 'sphere', size: 20 } },
+  { name: 'Divine Word', level: 7, school: 'evocation', range: 30, save: AbilityScore.CHARISMA, conditions: [DnD5eCondition.DEAFENED, DnD5eCondition.BLINDED, DnD5eCondition.STUNNED] },
+  { name: 'Etherealness', level: 7, school: 'transmutation', range: 0 },
+  { name: 'Finger of Death', level: 7, school: 'necromancy', range: 60, save: AbilityScore.CONSTITUTION, damage: { count: 7, dieSize: 8, type: DnD5eDamageType.NECROTIC } },
+  { name: 'Fire Storm', level: 7, school: 'evocation', range: 150, save: AbilityScore.DEXTERITY, damage: { count: 7, dieSize: 10, type: DnD5eDamageType.FIRE }, area: { type: 'cube', size: 10 } },
+  { name: 'Forcecage', level: 7, school: 'evocation', range: 100, area: { type: 'cube', size: 20 } },
+  { name: 'Magnificent Mansion', level: 7, school: 'conjuration', range: 300 },
+  { name: 'Mirage Arcane', level: 7, school: 'illusion', range: 0 },
+  { name: 'Plane Shift', level: 7, school: 'conjuration', range: 5, attack: 'melee', save: AbilityScore.CHARISMA },
+  { name: 'Prismatic Spray', level: 7, school: 'evocation', range: 0, save: AbilityScore.DEXTERITY, damage: { count: 10, dieSize: 6, type: DnD5eDamageType.FIRE }, area: { type: 'cone', size: 60 }, conditions: [DnD5eCondition.RESTRAINED, DnD5eCondition.PETRIFIED, DnD5eCondition.BLINDED] },
+  { name: 'Project Image', level: 7, school: 'illusion', range: 0, concentration: true },
+  { name: 'Regenerate', level: 7, school: 'transmutation', range: 5 },
+  { name: 'Resurrection', level: 7, school: 'necromancy', range: 5 },
+  { name: 'Reverse Gravity', level: 7, school: 'transmutation', range: 100, concentration: true, save: AbilityScore.DEXTERITY, area: { type: 'cylinder', size: 50 } },
+  { name: 'Sequester', level: 7, school: 'transmutation', range: 5 },
+  { name: 'Simulacrum', level: 7, school: 'illusion', range: 0 },
+  { name: 'Symbol', level: 7, school: 'abjuration', range: 5 },
+  { name: 'Teleport', level: 7, school: 'conjuration', range: 10 },
+
+  // Level 8
+  { name: 'Animal Shapes', level: 8, school: 'transmutation', range: 30, concentration: true },
+  { name: 'Antimagic Field', level: 8, school: 'abjuration', range: 0, concentration: true, area: { type: 'sphere', size: 10 } },
+  { name: 'Antipathy/Sympathy', level: 8, school: 'enchantment', range: 60, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.FRIGHTENED, DnD5eCondition.CHARMED] },
+  { name: 'Clone', level: 8, school: 'necromancy', range: 5 },
+  { name: 'Control Weather', level: 8, school: 'transmutation', range: 0, concentration: true },
+  { name: 'Demiplane', level: 8, school: 'conjuration', range: 60 },
+  { name: 'Dominate Monster', level: 8, school: 'enchantment', range: 60, concentration: true, save: AbilityScore.WISDOM, conditions: [DnD5eCondition.CHARMED] },
+  { name: 'Earthquake', level: 8, school: 'evocation', range: 500, concentration: true, save: AbilityScore.DEXTERITY, area: { type: 'cylinder', size: 100 }, conditions: [DnD5eCondition.PRONE] },
+  { name: 'Feeblemind', level: 8, school: 'enchantment', range: 150, save: AbilityScore.INTELLIGENCE, damage: { count: 4, dieSize: 6, type: DnD5eDamageType.PSYCHIC } },
+  { name: 'Glibness', level: 8, school: 'transmutation', range: 0 },
+  { name: 'Holy Aura', level: 8, school: 'abjuration', range: 0, concentration: true, area: { type: 'sphere', size: 30 }, conditions: [DnD5eCondition.BLINDED] },
+  { name: 'Incendiary Cloud', level: 8, school: 'conjuration', range: 150, concentration: true, save: AbilityScore.DEXTERITY, damage: { count: 10, dieSize: 8, type: DnD5eDamageType.FIRE }, area: { type: 'sphere', size: 20 } },
+  { name: 'Maze', level: 8, school: 'conjuration', range: 60, concentration: true },
+  { name: 'Mind Blank', level: 8, school: 'abjuration', range: 5 },
+  { name: 'Power Word Stun', level: 8, school: 'enchantment', range: 60, conditions: [DnD5eCondition.STUNNED] },
+  { name: 'Sunburst', level: 8, school: 'evocation', range: 150, save: AbilityScore.CONSTITUTION, damage: { count: 12, dieSize: 6, type: DnD5eDamageType.RADIANT }, area: { type: 'sphere', size: 60 }, conditions: [DnD5eCondition.BLINDED] },
+
+  // Level 9
+  { name: 'Astral Projection', level: 9, school: 'necromancy', range: 10 },
+  { name: 'Foresight', level: 9, school: 'divination', range: 5 },
+  { name: 'Gate', level: 9, school: 'conjuration', range: 60, concentration: true },
+  { name: 'Imprisonment', level: 9, school: 'abjuration', range: 30, save: AbilityScore.WISDOM },
+  { name: 'Mass Heal', level: 9, school: 'evocation', range: 60 },
+  { name: 'Meteor Swarm', level: 9, school: 'evocation', range: 5280, save: AbilityScore.DEXTERITY, damage: { count: 20, dieSize: 6, type: DnD5eDamageType.FIRE }, area: { type: 'sphere', size: 40 } },
+  { name: 'Power Word Kill', level: 9, school: 'enchantment', range: 60 },
+  { name: 'Prismatic Wall', level: 9, school: 'abjuration', range: 60 },
+  { name: 'Shapechange', level: 9, school: 'transmutation', range: 0, concentration: true },
+  { name: 'Storm of Vengeance', level: 9, school: 'conjuration', range: 0, concentration: true, save: AbilityScore.CONSTITUTION, damage: { count: 2, dieSize: 6, type: DnD5eDamageType.THUNDER }, conditions: [DnD5eCondition.DEAFENED] },
+  { name: 'Time Stop', level: 9, school: 'transmutation', range: 0 },
+  { name: 'True Polymorph', level: 9, school: 'transmutation', range: 30, concentration: true, save: AbilityScore.WISDOM },
+  { name: 'True Resurrection', level: 9, school: 'necromancy', range: 5 },
+  { name: 'Weird', level: 9, school: 'illusion', range: 120, concentration: true, save: AbilityScore.WISDOM, damage: { count: 4, dieSize: 10, type: DnD5eDamageType.PSYCHIC }, area: { type: 'sphere', size: 30 }, conditions: [DnD5eCondition.FRIGHTENED] },
+  { name: 'Wish', level: 9, school: 'conjuration', range: 0 },
+];
+
+/**
+ * Names that stat blocks commonly use for SRD spells published under a
+ * different name in the SRD
+ */
+const SPELL_ALIASES: Record<string, string> = {
+  'bigby\'s hand': 'arcane hand',
+  'mordenkainen\'s sword': 'arcane sword',
+  'nystul\'s magic aura': 'arcanist\'s magic aura',
+  'tenser\'s floating disk': 'floating disk',
+  'tasha\'s hideous laughter': 'hideous laughter',
+  'otto\'s irresistible dance': 'irresistible dance',
+  'mordenkainen\'s faithful hound': 'faithful hound',
+  'mordenkainen\'s magnificent mansion': 'magnificent mansion',
+  'mordenkainen\'s private sanctum': 'private sanctum',
+  'leomund\'s secret chest': 'secret chest',
+  'leomund\'s tiny hut': 'tiny hut',
+  'evard\'s black tentacles': 'black tentacles',
+  'otiluke\'s resilient sphere': 'resilient sphere',
+  'otiluke\'s freezing sphere': 'freezing sphere',
+  'rary\'s telepathic bond': 'telepathic bond',
+  'drawmij\'s instant summons': 'instant summons',
+  'melf\'s acid arrow': 'acid arrow',
+  'blindness-deafness': 'blindness/deafness',
+  'enlarge-reduce': 'enlarge/reduce',
+};
+
+const SPELLS_BY_NAME: ReadonlyMap<string, SrdSpell> = new Map(
+  SRD_SPELLS.map((spell) => [spell.name.toLowerCase(), spell])
+);
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Normalizes a spell name as written in a stat block for lookup.
+ * Strips markup, parenthetical notes such as "(self only)", and
+ * curly apostrophes.
+ */
+function normalizeSpellName(name: string): string {
+  return name
+    .replace(/[*_]/g, '')
+    .replace(/\([^)]*\)/g, '')
+    .replace(/[‘’]/g, '\'')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Looks up SRD data for a spell by name
+ *
+ * @param name - Spell name as written in the stat block
+ * @returns The SRD spell, or undefined if the spell is not in the SRD
+ */
+export function lookupSrdSpell(name: string): SrdSpell | undefined {
+  const normalized = normalizeSpellName(name);
+  return SPELLS_BY_NAME.get(SPELL_ALIASES[normalized] ?? normalized);
+}
@@ -0,0 +1,420 @@
+/**
+ * Swarm and Pack Conversion Logic
+ *
+ * Specialized handling for creatures that fight as a group: 5e swarms
+ * ("Swarm of Rats") and Pack Tactics creatures. Decides between a Horde
+ * and grouped Minions, fills in the Horde's damage drop, and folds the
+ * swarm's resistances into a single passive.
+ *
+ * Group Forms:
+ * | Source                 | Daggerheart Result                       |
+ * |------------------------|------------------------------------------|
+ * | Swarm                  | Horde mechanics, Swarm passive           |
+ * | Pack Tactics, 8+ HP    | Horde, several pack members per HP       |
+ * | Pack Tactics, 7- HP    | Grouped Minions with Group Attack        |
+ *
+ * @module swarmConversion
+ * @version 1.0.0
+ */
+
+import {
+  DnD5eMonster,
+  CreatureSize,
+  DnD5eDamageType,
+  DnD5eCondition,
+  Trait,
+} from '../models/dnd5e';
+import {
+  AdversaryType,
+  Attack,
+  DamageExpression,
+  DamageType,
+  Feature,
+  FeatureType,
+  FeatureCostType,
+  HordeFeature,
+  Tier,
+  TIER_DEFAULTS,
+} from '../models/daggerheart';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+/**
+ * A Horde or grouped Minions decision with its reasoning.
+ */
+export interface GroupDecision {
+  /** Horde for sturdy packs, Minion for packs that fall to one hit */
+  type: AdversaryType.HORDE | AdversaryType.MINION;
+  /** Human-readable explanation for the classification reasoning */
+  reason: string;
+}
+
+/**
+ * Result of swarm/pack-specific conversion.
+ */
+export interface SwarmPackConversionResult {
+  /** Whether the creature is a swarm or a pack creature */
+  groupForm: 'swarm' | 'pack';
+  /** Horde stats, for swarms and Horde packs */
+  horde?: HordeFeature;
+  /** Horde HP, raised to the tier's Standard maximum so the damage drop has room */
+  hp?: number;
+  /** Group features (Horde, Swarm, Minion, Group Attack) */
+  features: Feature[];
+  /** Names of generically converted features these replace */
+  replacedFeatures: string[];
+  /** Notes about the conversion decisions */
+  conversionNotes: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Pack creatures with this much HP or less fall to a single hit and run
+ * as grouped Minions; sturdier packs become a Horde.
+ */
+const PACK_MINION_MAX_HP = 7;
+
+/**
+ * Pack Tactics only makes a group adversary at or below this CR.
+ */
+const PACK_MAX_CR = 2;
+
+/**
+ * Group members represented by each Horde HP, by member size.
+ */
+const UNITS_PER_HP: Record<CreatureSize, number> = {
+  [CreatureSize.TINY]: 4,
+  [CreatureSize.SMALL]: 3,
+  [CreatureSize.MEDIUM]: 2,
+  [CreatureSize.LARGE]: 1,
+  [CreatureSize.HUGE]: 1,
+  [CreatureSize.GARGANTUAN]: 1,
+};
+
+/**
+ * Damage that defeats each additional Minion, roughly following the SRD
+ * Minion values by tier.
+ */
+const MINION_THRESHOLD_BY_TIER: Record<Tier, number> = {
+  [Tier.ONE]: 3,
+  [Tier.TWO]: 6,
+  [Tier.THREE]: 10,
+  [Tier.FOUR]: 12,
+};
+
+/**
+ * Damage types a 5e swarm typically resists, which become Daggerheart
+ * physical resistance.
+ */
+const PHYSICAL_DAMAGE_TYPES: DnD5eDamageType[] = [
+  DnD5eDamageType.BLUDGEONING,
+  DnD5eDamageType.PIERCING,
+  DnD5eDamageType.SLASHING,
+];
+
+/**
+ * Die sizes in order, for stepping damage down.
+ */
+const DIE_SIZES = [4, 6, 8, 10, 12] as const;
+
+// ============================================================================
+// DETECTION FUNCTIONS
+// ============================================================================
+
+/**
+ * Detects a 5e swarm from its subtype, name, or swarm trait.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns Whether it is a swarm, and why
+ */
+export function detectSwarm(statBlock: DnD5eMonster): { isSwarm: boolean; reason: string } {
+  if (statBlock.subtypes?.some((subtype) => subtype.toLowerCase() === 'swarm')) {
+    return { isSwarm: true, reason: 'Creature type includes "swarm" subtype' };
+  }
+
+  if (statBlock.name.toLowerCase().includes('swarm of')) {
+    return { isSwarm: true, reason: 'Name indicates swarm creature' };
+  }
+
+  if (findSwarmTrait(statBlock)) {
+    return { isSwarm: true, reason: 'Has swarm-specific traits' };
+  }
+
+  return { isSwarm: false, reason: '' };
+}
+
+/**
+ * Checks if a stat block represents a swarm.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns True if the creature is a swarm
+ */
+export function isSwarm(statBlock: DnD5eMonster): boolean {
+  return detectSwarm(statBlock).isSwarm;
+}
+
+/**
+ * Finds a Pack Tactics (or mob) trait.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns The pack trait, if any
+ */
+export function findPackTrait(statBlock: DnD5eMonster): Trait | undefined {
+  return statBlock.traits?.find((trait) => /pack tactics|\bmob\b/i.test(trait.name));
+}
+
+/**
+ * Checks if a stat block is a swarm or a pack creature.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @returns True if the creature fights as a group
+ */
+export function isSwarmOrPack(statBlock: DnD5eMonster): boolean {
+  return isSwarm(statBlock) || findPackTrait(statBlock) !== undefined;
+}
+
+/**
+ * Decides whether a low-CR pack creature becomes a Horde or grouped
+ * Minions. Fragile pack members die to a single hit anyway, so they run
+ * as Minions; sturdier ones fight as a Horde that weakens as they fall.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @param cr - Numeric CR value
+ * @returns The decision, or undefined for creatures that aren't pack creatures
+ */
+export function decidePackGroup(statBlock: DnD5eMonster, cr: number): GroupDecision | undefined {
+  const trait = findPackTrait(statBlock);
+  if (!trait || cr > PACK_MAX_CR) return undefined;
+
+  const hp = statBlock.hitPoints.average;
+  if (hp <= PACK_MINION_MAX_HP) {
+    return {
+      type: AdversaryType.MINION,
+      reason: `Has "${trait.name}" with only ${hp} HP each, so the pack runs as grouped Minions that fall to a single hit`,
+    };
+  }
+
+  return {
+    type: AdversaryType.HORDE,
+    reason: `Has "${trait.name}" with ${hp} HP each, so the pack fights as one Horde that weakens as members fall`,
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds the swarm trait ("can occupy another creature's space").
+ */
+function findSwarmTrait(statBlock: DnD5eMonster): Trait | undefined {
+  return statBlock.traits?.find((trait) => {
+    const text = `${trait.name} ${trait.description}`.toLowerCase();
+    return (
+      text.includes('swarm') &&
+      (text.includes("can occupy another creature's space") || text.includes('swarm has hit point'))
+    );
+  });
+}
+
+/**
+ * Reads the size of a swarm's members from its swarm trait, falling back
+ * to Tiny.
+ */
+function getMemberSize(statBlock: DnD5eMonster): CreatureSize {
+  if (!isSwarm(statBlock)) return statBlock.size;
+
+  const match = findSwarmTrait(statBlock)?.description.match(
+    /large enough for an? (tiny|small|medium)\b/i
+  );
+  switch (match?.[1]?.toLowerCase()) {
+    case 'small':
+      return CreatureSize.SMALL;
+    case 'medium':
+      return CreatureSize.MEDIUM;
+    default:
+      return CreatureSize.TINY;
+  }
+}
+
+/**
+ * Halves damage for a Horde below half HP: halves the dice when there
+ * are several, otherwise steps the die down two sizes.
+ */
+function reduceDamage(damage: DamageExpression): DamageExpression {
+  const sizeIndex = DIE_SIZES.indexOf(damage.diceSize);
+  return {
+    ...damage,
+    diceCount: damage.diceCount > 1 ? Math.floor(damage.diceCount / 2) : 1,
+    diceSize: damage.diceCount > 1 ? damage.diceSize : DIE_SIZES[Math.max(0, sizeIndex - 2)]!,
+    modifier: Math.floor(damage.modifier / 2),
+  };
+}
+
+/**
+ * Formats a damage expression for a feature description ("1d6+1 physical").
+ */
+function formatDamage(damage: DamageExpression): string {
+  const modifier =
+    damage.modifier > 0 ? `+${damage.modifier}` : damage.modifier < 0 ? `${damage.modifier}` : '';
+  const type = damage.damageType === DamageType.MAGIC ? 'magic' : 'physical';
+  return `${damage.diceCount}d${damage.diceSize}${modifier} ${type}`;
+}
+
+// ============================================================================
+// MAIN CONVERSION FUNCTIONS
+// ============================================================================
+
+/**
+ * Builds Horde stats from a standard attack: damage drops once half the
+ * HP is marked.
+ *
+ * @param damage - Standard attack damage
+ * @param hp - Horde HP
+ * @returns Horde feature with starting and reduced damage and the threshold
+ *
+ * @example
+ * ```typescript
+ * buildHordeFeature({ diceCount: 2, diceSize: 6, modifier: 0, damageType: DamageType.PHYSICAL }, 4);
+ * // { isHorde: true, startingDamage: 2d6, reducedDamage: 1d6, threshold: 2 }
+ * ```
+ */
+export function buildHordeFeature(damage: DamageExpression, hp: number): HordeFeature {
+  return {
+    isHorde: true,
+    startingDamage: damage,
+    reducedDamage: reduceDamage(damage),
+    threshold: Math.ceil(hp / 2),
+  };
+}
+
+/**
+ * Converts a swarm or pack creature into Horde or grouped Minion features.
+ *
+ * @param statBlock - D&D 5e monster stat block
+ * @param type - Final adversary type
+ * @param tier - Daggerheart tier
+ * @param attack - Converted standard attack
+ * @param hp - Converted HP
+ * @returns Group features, Horde stats, and the features they replace
+ */
+export function convertSwarmOrPack(
+  statBlock: DnD5eMonster,
+  type: AdversaryType,
+  tier: Tier,
+  attack: Attack,
+  hp: number
+): SwarmPackConversionResult {
+  const swarm = isSwarm(statBlock);
+  const result: SwarmPackConversionResult = {
+    groupForm: swarm ? 'swarm' : 'pack',
+    features: [],
+    replacedFeatures: [],
+    conversionNotes: [],
+  };
+  const name = statBlock.name.toLowerCase();
+
+  if (type === AdversaryType.MINION) {
+    const threshold = MINION_THRESHOLD_BY_TIER[tier];
+    result.features.push(
+      {
+        name: `Minion (${threshold})`,
+        type: FeatureType.PASSIVE,
+        description:
+          `The ${name} is defeated when it takes any damage. For every ${threshold} damage a PC deals ` +
+          'to it, defeat an additional Minion within range the attack would succeed against.',
+      },
+      {
+        name: 'Group Attack',
+        type: FeatureType.ACTION,
+        description:
+          `Spend a Fear to choose a target and spotlight every ${name} within Close range of them. ` +
+          `Those Minions move into Melee range of the target and make one shared attack roll. ` +
+          `On a success, each deals ${formatDamage(attack.damage)} damage; combine the damage.`,
+        cost: { type: FeatureCostType.FEAR, amount: 1 },
+      }
+    );
+    result.conversionNotes.push(`Grouped Minions defeated in batches of ${threshold} damage`);
+    return result;
+  }
+
+  if (type !== AdversaryType.HORDE && type !== AdversaryType.SWARM) {
+    return result;
+  }
+
+  // Hordes soak damage for the whole group, so keep at least a Standard's HP
+  const hordeHp = Math.max(hp, TIER_DEFAULTS[tier].hp.standard[1]);
+  const horde = buildHordeFeature(attack.damage, hordeHp);
+  const memberSize = getMemberSize(statBlock);
+  const perHP = UNITS_PER_HP[memberSize];
+
+  result.hp = hordeHp;
+  result.horde = horde;
+  result.features.push({
+    name: `Horde (${perHP}/HP)`,
+    type: FeatureType.PASSIVE,
+    description:
+      `Each HP it marks is ${perHP} ${memberSize.toLowerCase()} creature${perHP === 1 ? '' : 's'} falling. ` +
+      `When it has marked ${horde.threshold} or more HP, its standard attack deals ` +
+      `${formatDamage(horde.reducedDamage!)} damage instead.`,
+  });
+  result.conversionNotes.push(
+    `Horde of about ${hordeHp * perHP} ${memberSize.toLowerCase()} creatures, damage drops at ${horde.threshold} HP marked`
+  );
+
+  if (swarm) {
+    result.features.push(createSwarmFeature(statBlock, memberSize, result));
+  }
+
+  return result;
+}
+
+/**
+ * Folds the swarm trait, its physical resistances, and its movement
+ * immunities into one Swarm passive.
+ */
+function createSwarmFeature(
+  statBlock: DnD5eMonster,
+  memberSize: CreatureSize,
+  result: SwarmPackConversionResult
+): Feature {
+  const sentences: string[] = [];
+
+  const trait = findSwarmTrait(statBlock);
+  if (trait) {
+    result.replacedFeatures.push(trait.name);
+    sentences.push(
+      `Can occupy the same space as other creatures and move through any gap a ${memberSize.toLowerCase()} creature fits through.`
+    );
+  }
+
+  const resistances = statBlock.damageModifiers?.resistances.map((entry) => entry.damageType) ?? [];
+  if (PHYSICAL_DAMAGE_TYPES.every((type) => resistances.includes(type))) {
+    sentences.push('Resistant to physical damage.');
+    // The generic Damage Resistance feature only repeats the swarm resistances
+    if (resistances.every((type) => PHYSICAL_DAMAGE_TYPES.includes(type))) {
+      result.replacedFeatures.push('Damage Resistance');
+    }
+    result.conversionNotes.push('Swarm resistances folded into the Swarm passive');
+  }
+
+  const immunities = statBlock.conditionImmunities ?? [];
+  if (immunities.includes(DnD5eCondition.GRAPPLED) || immunities.includes(DnD5eCondition.RESTRAINED)) {
+    sentences.push("Can't be Restrained.");
+  }
+
+  if (trait && /can't regain hit points/i.test(trait.description)) {
+    sentences.push("Can't clear HP.");
+  }
+
+  return {
+    name: 'Swarm',
+    type: FeatureType.PASSIVE,
+    description: sentences.join(' ') || 'Many small creatures acting as one.',
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * Encounter Builder
+ *
+ * Budgets Daggerheart combat encounters with Battle Points. Prices each
+ * adversary by type, applies the documented budget adjustments for
+ * difficulty and adversary mix, and flags encounters that are over
+ * budget or built from a lopsided mix of adversaries.
+ *
+ * @module encounters/encounterBuilder
+ * @version 1.0.0
+ */
+
+import { AdversaryType, DaggerheartAdversary, Tier } from '../models/daggerheart';
+import {
+  Encounter,
+  EncounterDifficulty,
+  EncounterGroup,
+  EncounterOptions,
+  BattlePointAdjustment,
+  BattlePointBudget,
+  BATTLE_POINT_COSTS,
+  DIFFICULTY_BATTLE_POINT_MODIFIERS,
+  calculateBaseBattlePoints,
+} from '../models/encounter';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Adversary types that anchor a fight. Without any of these, the
+ * budget grows by 1 BP to compensate.
+ */
+const HEAVY_HITTER_TYPES: AdversaryType[] = [
+  AdversaryType.BRUISER,
+  AdversaryType.HORDE,
+  AdversaryType.SWARM,
+  AdversaryType.LEADER,
+  AdversaryType.SOLO,
+];
+
+/**
+ * Adversary types that don't threaten the party directly.
+ */
+const NON_COMBAT_TYPES: AdversaryType[] = [AdversaryType.SOCIAL, AdversaryType.SUPPORT];
+
+/**
+ * Share of the budget that may go unspent before the encounter is flagged.
+ */
+const UNDERSPENT_RATIO = 0.5;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Groups identical adversaries (by name) and prices each group.
+ *
+ * Minions cost 1 BP per group of as many Minions as there are PCs;
+ * every other type is priced per adversary.
+ */
+function groupAdversaries(
+  adversaries: DaggerheartAdversary[],
+  partySize: number
+): EncounterGroup[] {
+  const groups = new Map<string, EncounterGroup>();
+
+  for (const adversary of adversaries) {
+    const existing = groups.get(adversary.name);
+    if (existing) {
+      existing.quantity += 1;
+    } else {
+      groups.set(adversary.name, { adversary, quantity: 1, cost: 0 });
+    }
+  }
+
+  for (const group of groups.values()) {
+    group.cost = calculateAdversaryCost(group.adversary.type, group.quantity, partySize);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Collects budget adjustments for difficulty and the adversary mix.
+ */
+function collectAdjustments(
+  adversaries: DaggerheartAdversary[],
+  tier: Tier,
+  difficulty: EncounterDifficulty,
+  options: EncounterOptions
+): BattlePointAdjustment[] {
+  const adjustments: BattlePointAdjustment[] = [];
+
+  const difficultyModifier = DIFFICULTY_BATTLE_POINT_MODIFIERS[difficulty];
+  if (difficultyModifier !== 0) {
+    adjustments.push({ reason: `${difficulty} encounter`, amount: difficultyModifier });
+  }
+
+  const soloCount = adversaries.filter((a) => a.type === AdversaryType.SOLO).length;
+  if (soloCount >= 2) {
+    adjustments.push({ reason: `${soloCount} Solo adversaries`, amount: -2 });
+  }
+
+  if (options.increasedDamage) {
+    adjustments.push({ reason: '+1d4 damage on all adversary attacks', amount: -2 });
+  }
+
+  if (adversaries.some((a) => a.tier < tier)) {
+    adjustments.push({ reason: 'Adversaries from a lower tier', amount: 1 });
+  }
+
+  if (adversaries.length > 0 && !adversaries.some((a) => HEAVY_HITTER_TYPES.includes(a.type))) {
+    adjustments.push({ reason: 'No Bruisers, Hordes, Leaders, or Solos', amount: 1 });
+  }
+
+  return adjustments;
+}
+
+/**
+ * Flags budget problems and degenerate adversary mixes.
+ */
+function checkEncounter(
+  groups: EncounterGroup[],
+  tier: Tier,
+  budget: BattlePointBudget,
+  spent: number
+): string[] {
+  const warnings: string[] = [];
+  const remaining = budget.total - spent;
+
+  if (groups.length === 0) {
+    warnings.push('Encounter has no adversaries');
+    return warnings;
+  }
+
+  // Budget
+  if (remaining < 0) {
+    warnings.push(`Encounter is over budget by ${-remaining} BP (${spent}/${budget.total})`);
+  } else if (remaining >= budget.total * UNDERSPENT_RATIO) {
+    warnings.push(
+      `Encounter spends only ${spent} of ${budget.total} BP; it may be too easy for the party`
+    );
+  }
+
+  // Adversary mix
+  const types = groups.map((g) => g.adversary.type);
+  if (types.every((type) => type === AdversaryType.MINION)) {
+    warnings.push('Encounter contains only Minions; add a Standard or Leader to anchor the fight');
+  }
+  if (types.every((type) => NON_COMBAT_TYPES.includes(type))) {
+    warnings.push('Encounter has no combat-focused adversaries');
+  }
+
+  const leaderCount = groups
+    .filter((g) => g.adversary.type === AdversaryType.LEADER)
+    .reduce((sum, g) => sum + g.quantity, 0);
+  const followerCount = groups
+    .filter((g) => g.adversary.type !== AdversaryType.LEADER)
+    .reduce((sum, g) => sum + g.quantity, 0);
+  if (leaderCount > 0 && followerCount === 0) {
+    warnings.push('Leaders have no allies to command');
+  }
+
+  // Tier mismatches
+  for (const group of groups) {
+    const tierGap = group.adversary.tier - tier;
+    if (tierGap > 0) {
+      warnings.push(
+        `${group.adversary.name} is Tier ${group.adversary.tier}, above the party's Tier ${tier}`
+      );
+    } else if (tierGap <= -2) {
+      warnings.push(
+        `${group.adversary.name} is Tier ${group.adversary.tier} and will pose little threat at Tier ${tier}`
+      );
+    }
+  }
+
+  return warnings;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Calculates the Battle Point cost of adversaries of one type.
+ *
+ * @param type - Adversary type
+ * @param quantity - Number of adversaries of this type
+ * @param partySize - Number of player characters (sets Minion group size)
+ * @returns Battle Point cost
+ *
+ * @example
+ * ```typescript
+ * calculateAdversaryCost(AdversaryType.BRUISER, 1, 4); // 4
+ * calculateAdversaryCost(AdversaryType.MINION, 6, 4);  // 2 (two groups)
+ * ```
+ */
+export function calculateAdversaryCost(
+  type: AdversaryType,
+  quantity: number,
+  partySize: number
+): number {
+  if (type === AdversaryType.MINION) {
+    return Math.ceil(quantity / Math.max(1, partySize)) * BATTLE_POINT_COSTS[type];
+  }
+
+  return quantity * BATTLE_POINT_COSTS[type];
+}
+
+/**
+ * Builds a Battle Point budgeted encounter.
+ *
+ * The budget starts at (3 × party size) + 2 and is adjusted for
+ * difficulty (-1 Easy, +2 Hard), two or more Solos (-2),
+ * increased adversary damage (-2), lower-tier adversaries (+1), and
+ * a mix with no Bruisers, Hordes, Leaders, or Solos (+1).
+ *
+ * @param partySize - Number of player characters (at least 1)
+ * @param tier - Tier of the party
+ * @param difficulty - Desired encounter difficulty
+ * @param adversaries - Adversaries in the encounter, one entry per adversary
+ * @param options - Optional budget adjustments
+ * @returns Budgeted encounter with spend, remaining budget, and warnings
+ * @throws Error if party size is less than 1
+ *
+ * @example
+ * ```typescript
+ * const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, [
+ *   ogre, goblin, goblin, goblin, goblin,
+ * ]);
+ * console.log(encounter.budget.total); // 14
+ * console.log(encounter.spent);        // 5 (Bruiser 4 + one Minion group 1)
+ * console.log(encounter.remaining);    // 9
+ * ```
+ */
+export function buildEncounter(
+  partySize: number,
+  tier: Tier,
+  difficulty: EncounterDifficulty,
+  adversaries: DaggerheartAdversary[],
+  options: EncounterOptions = {}
+): Encounter {
+  if (!Number.isInteger(partySize) || partySize < 1) {
+    throw new Error(`Invalid party size: ${partySize}. Party size must be at least 1.`);
+  }
+
+  const base = calculateBaseBattlePoints(partySize);
+  const adjustments = collectAdjustments(adversaries, tier, difficulty, options);
+  const budget: BattlePointBudget = {
+    base,
+    adjustments,
+    total: base + adjustments.reduce((sum, adj) => sum + adj.amount, 0),
+  };
+
+  const groups = groupAdversaries(adversaries, partySize);
+  const spent = groups.reduce((sum, group) => sum + group.cost, 0);
+  const remaining = budget.total - spent;
+
+  return {
+    partySize,
+    tier,
+    difficulty,
+    groups,
+    budget,
+    spent,
+    remaining,
+    isOverBudget: remaining < 0,
+    warnings: checkEncounter(groups, tier, budget, spent),
+  };
+}
+
+/**
+ * Gets a summary of an encounter's budget and adversaries.
+ *
+ * @param encounter - The encounter to summarize
+ * @returns Summary string
+ */
+export function summarizeEncounter(encounter: Encounter): string {
+  const parts = [
+    `Tier ${encounter.tier} ${encounter.difficulty} encounter for ${encounter.partySize} PCs`,
+    `Battle Points: ${encounter.spent}/${encounter.budget.total} (${encounter.remaining} remaining)`,
+  ];
+
+  for (const group of encounter.groups) {
+    const quantity = group.quantity > 1 ? `${group.quantity}× ` : '';
+    parts.push(`- ${quantity}${group.adversary.name} (${group.adversary.type}): ${group.cost} BP`);
+  }
+
+  if (encounter.warnings.length > 0) {
+    parts.push('Warnings: ' + encounter.warnings.join('; '));
+  }
+
+  return parts.join('\n');
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export { groupAdversaries, collectAdjustments, checkEncounter };
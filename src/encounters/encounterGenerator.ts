@@ -0,0 +1,302 @@
+/**
+ * Encounter Generator
+ *
+ * Proposes Battle Point budgeted encounters from a pool of converted
+ * adversaries. Each proposal follows a composition template (a Leader
+ * with Minions, a Solo with Support, and so on) so the adversaries in it
+ * work together tactically. Generation is deterministic for a given seed.
+ *
+ * @module encounters/encounterGenerator
+ * @version 1.0.0
+ */
+
+import { AdversaryType, DaggerheartAdversary, Tier } from '../models/daggerheart';
+import { Encounter, EncounterDifficulty, EncounterOptions } from '../models/encounter';
+import { CombatRole } from '../converters/classifyAdversary';
+import { createSeededRandom, SeededRandom } from '../utils/random';
+import { buildEncounter } from './encounterBuilder';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for encounter generation.
+ */
+export interface EncounterGeneratorOptions extends EncounterOptions {
+  /** Seed for deterministic generation. Default: 1 */
+  seed?: number | string;
+  /** Maximum number of proposals to return. Default: 3 */
+  maxProposals?: number;
+}
+
+/**
+ * A proposed encounter composition.
+ */
+export interface EncounterProposal {
+  /** Name of the composition template (e.g. "Leader and Minions"). */
+  name: string;
+  /** How the composition plays at the table. */
+  description: string;
+  /** The budgeted encounter. */
+  encounter: Encounter;
+}
+
+/**
+ * Predicate selecting adversaries for a template slot.
+ */
+type SlotMatcher = (adversary: DaggerheartAdversary) => boolean;
+
+/**
+ * A composition template: one anchor adversary plus fill slots
+ * that are added round-robin until the budget is spent.
+ */
+interface CompositionTemplate {
+  name: string;
+  description: string;
+  anchor: SlotMatcher;
+  fill: SlotMatcher[];
+}
+
+// ============================================================================
+// SLOT MATCHERS
+// ============================================================================
+
+/**
+ * Combat roles the converter records in an adversary's tags.
+ */
+const COMBAT_ROLES: CombatRole[] = [
+  'Artillery',
+  'Bruiser',
+  'Skirmisher',
+  'Controller',
+  'Support',
+  'Leader',
+];
+
+/**
+ * Reads the classifyAdversary combat role from an adversary's tags.
+ *
+ * @param adversary - A converted adversary
+ * @returns The combat role, if one was recorded
+ */
+export function getCombatRole(adversary: DaggerheartAdversary): CombatRole | undefined {
+  const tags = adversary.tags ?? [];
+  return COMBAT_ROLES.find((role) => tags.includes(role.toLowerCase()));
+}
+
+const isType =
+  (...types: AdversaryType[]): SlotMatcher =>
+  (adversary) =>
+    types.includes(adversary.type);
+
+const hasRole =
+  (...roles: CombatRole[]): SlotMatcher =>
+  (adversary) => {
+    const role = getCombatRole(adversary);
+    return role !== undefined && roles.includes(role);
+  };
+
+const either =
+  (...matchers: SlotMatcher[]): SlotMatcher =>
+  (adversary) =>
+    matchers.some((matcher) => matcher(adversary));
+
+const isMinion = isType(AdversaryType.MINION);
+const isSolo = isType(AdversaryType.SOLO);
+const isStandard = isType(AdversaryType.STANDARD);
+const isHorde = isType(AdversaryType.HORDE, AdversaryType.SWARM);
+const isLeader = either(isType(AdversaryType.LEADER), hasRole('Leader'));
+const isBruiser = either(isType(AdversaryType.BRUISER), hasRole('Bruiser'));
+const isRanged = either(isType(AdversaryType.RANGED), hasRole('Artillery'));
+const isSkulk = either(isType(AdversaryType.SKULK), hasRole('Skirmisher'));
+const isSupport = either(
+  isType(AdversaryType.SUPPORT, AdversaryType.SOCIAL),
+  hasRole('Support', 'Controller')
+);
+
+// ============================================================================
+// COMPOSITION TEMPLATES
+// ============================================================================
+
+/**
+ * Tactically coherent encounter compositions, in order of preference.
+ */
+const COMPOSITION_TEMPLATES: CompositionTemplate[] = [
+  {
+    name: 'Leader and Minions',
+    description: 'A Leader directs waves of Minions while Standards hold the line.',
+    anchor: isLeader,
+    fill: [isMinion, either(isStandard, isRanged)],
+  },
+  {
+    name: 'Solo and Support',
+    description: 'A Solo dominates the fight while Support adversaries keep it in action.',
+    anchor: isSolo,
+    fill: [isSupport, isMinion],
+  },
+  {
+    name: 'Bruiser Vanguard',
+    description: 'Bruisers close to melee while Ranged adversaries punish PCs who hang back.',
+    anchor: isBruiser,
+    fill: [isRanged, either(isStandard, isSupport)],
+  },
+  {
+    name: 'Skirmish Ambush',
+    description: 'Skulks strike from hiding while Ranged adversaries pin the party down.',
+    anchor: isSkulk,
+    fill: [either(isSkulk, isRanged), isMinion],
+  },
+  {
+    name: 'Horde Assault',
+    description: 'A Horde swarms the party, backed by Standards and Ranged attackers.',
+    anchor: isHorde,
+    fill: [either(isStandard, isRanged), isLeader],
+  },
+  {
+    name: 'Mixed Patrol',
+    description: 'A balanced group of Standards with Ranged and Skulk support.',
+    anchor: isStandard,
+    fill: [either(isStandard, isRanged), either(isSkulk, isSupport)],
+  },
+];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Returns the adversaries added for one pick: a party-sized group for
+ * Minions, otherwise a single adversary.
+ */
+function unitFor(adversary: DaggerheartAdversary, partySize: number): DaggerheartAdversary[] {
+  return adversary.type === AdversaryType.MINION
+    ? Array.from({ length: partySize }, () => adversary)
+    : [adversary];
+}
+
+/**
+ * Composes one encounter from a template, or undefined if the pool has
+ * no anchor that fits the budget.
+ */
+function composeFromTemplate(
+  template: CompositionTemplate,
+  pool: DaggerheartAdversary[],
+  partySize: number,
+  tier: Tier,
+  difficulty: EncounterDifficulty,
+  options: EncounterOptions,
+  random: SeededRandom
+): Encounter | undefined {
+  const build = (adversaries: DaggerheartAdversary[]) =>
+    buildEncounter(partySize, tier, difficulty, adversaries, options);
+
+  // Pick an anchor that fits the budget on its own
+  const anchors = random.shuffle(pool.filter(template.anchor));
+  const anchor = anchors.find((candidate) => !build(unitFor(candidate, partySize)).isOverBudget);
+  if (!anchor) return undefined;
+
+  let chosen = unitFor(anchor, partySize);
+  let encounter = build(chosen);
+
+  // Fill slots round-robin so no single slot takes the whole budget
+  const candidates = template.fill.map((matcher) =>
+    pool.filter((adversary) => adversary !== anchor && matcher(adversary))
+  );
+  let added = true;
+  while (added && encounter.remaining > 0) {
+    added = false;
+    for (const slot of candidates) {
+      for (const candidate of random.shuffle(slot)) {
+        const attempt = build([...chosen, ...unitFor(candidate, partySize)]);
+        if (!attempt.isOverBudget) {
+          chosen = [...chosen, ...unitFor(candidate, partySize)];
+          encounter = attempt;
+          added = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return encounter;
+}
+
+/**
+ * Builds a key identifying an encounter's composition, for deduplication.
+ */
+function compositionKey(encounter: Encounter): string {
+  return encounter.groups
+    .map((group) => `${group.adversary.name}x${group.quantity}`)
+    .sort()
+    .join('|');
+}
+
+// ============================================================================
+// MAIN GENERATOR FUNCTION
+// ============================================================================
+
+/**
+ * Proposes encounter compositions from a pool of adversaries.
+ *
+ * Each composition template picks an anchor (Leader, Solo, Bruiser,
+ * Skulk, Horde or Standard) and fills the remaining Battle Points with
+ * adversaries that complement it, matched by `AdversaryType` and the
+ * combat role from `classifyAdversary`. Adversaries above the party's
+ * tier are left out. Proposals that exceed the budget are discarded;
+ * the rest are ordered by how fully they use the budget.
+ *
+ * @param pool - Candidate adversaries, e.g. from a batch conversion
+ * @param partySize - Number of player characters
+ * @param tier - Tier of the party
+ * @param difficulty - Desired encounter difficulty
+ * @param options - Seed, proposal count, and budget options
+ * @returns Up to `maxProposals` distinct encounter proposals
+ *
+ * @example
+ * ```typescript
+ * const pool = batch.map((result) => result.adversary);
+ * const proposals = generateEncounters(pool, 4, Tier.ONE, EncounterDifficulty.MODERATE, {
+ *   seed: 'session-12',
+ * });
+ * proposals.forEach((p) => console.log(p.name, p.encounter.spent));
+ * ```
+ */
+export function generateEncounters(
+  pool: DaggerheartAdversary[],
+  partySize: number,
+  tier: Tier,
+  difficulty: EncounterDifficulty,
+  options: EncounterGeneratorOptions = {}
+): EncounterProposal[] {
+  const { seed = 1, maxProposals = 3, ...encounterOptions } = options;
+  const random = createSeededRandom(seed);
+
+  const eligible = pool.filter((adversary) => adversary.tier <= tier);
+  const proposals: EncounterProposal[] = [];
+  const seen = new Set<string>();
+
+  for (const template of COMPOSITION_TEMPLATES) {
+    const encounter = composeFromTemplate(
+      template,
+      eligible,
+      partySize,
+      tier,
+      difficulty,
+      encounterOptions,
+      random
+    );
+    if (!encounter || encounter.isOverBudget) continue;
+
+    const key = compositionKey(encounter);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    proposals.push({ name: template.name, description: template.description, encounter });
+  }
+
+  // Prefer proposals that use the budget fully; stable sort keeps template order on ties
+  return proposals
+    .sort((a, b) => a.encounter.remaining - b.encounter.remaining)
+    .slice(0, maxProposals);
+}
@@ -0,0 +1,29 @@
+/**
+ * Encounters Module
+ *
+ * Export all encounter building utilities for budgeting Daggerheart
+ * combat encounters with Battle Points.
+ *
+ * @module encounters
+ */
+
+// Encounter building
+export {
+  // Core building function
+  buildEncounter,
+  // Pricing utilities
+  calculateAdversaryCost,
+  // Summary utilities
+  summarizeEncounter,
+} from './encounterBuilder';
+
+// Encounter generation
+export {
+  // Core generation function
+  generateEncounters,
+  // Role utilities
+  getCombatRole,
+  // Type exports
+  type EncounterGeneratorOptions,
+  type EncounterProposal,
+} from './encounterGenerator';
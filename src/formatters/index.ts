@@ -14,6 +14,10 @@ export {
   formatAsMarkdown,
   formatMultipleAsMarkdown,
   formatCompact,
+  formatFeatureSection,
+  formatEnvironmentAsMarkdown,
+  formatNPCAsMarkdown,
+  formatLootAsMarkdown,
   MarkdownFormatOptions,
 } from './markdownFormatter';
 
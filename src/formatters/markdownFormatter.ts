@@ -24,7 +24,11 @@ import {
   Difficulty,
   RelentlessFeature,
   HordeFeature,
+  PhaseTwoFeature,
 } from '../models/daggerheart';
+import { DaggerheartEnvironment, EnvironmentFeature } from '../models/environment';
+import { DaggerheartNPC } from '../models/npc';
+import { Loot, LootCategory, LootItem } from '../models/loot';
 
 // ============================================================================
 // TYPES
@@ -246,13 +250,47 @@ function formatHorde(horde: HordeFeature): string {
   if (horde.startingDamage && horde.reducedDamage) {
     lines.push(
       `Deals ${formatDamageExpression(horde.startingDamage)} normally, ` +
-        `${formatDamageExpression(horde.reducedDamage)} when below ${horde.threshold || 'half'} HP.`
+        `${formatDamageExpression(horde.reducedDamage)} once ${horde.threshold ? `${horde.threshold} HP are` : 'half its HP is'} marked.`
     );
   }
 
   return lines.join('  \n');
 }
 
+/**
+ * Formats phase two feature if present.
+ * @param phaseTwo - The phase two feature
+ * @returns Formatted phase two string or empty
+ */
+function formatPhaseTwo(phaseTwo: PhaseTwoFeature): string {
+  if (!phaseTwo.hasPhaseTwo) return '';
+
+  const lines: string[] = [];
+  lines.push(`**${phaseTwo.name ?? 'Phase Change'}** (HP ${phaseTwo.hp ?? '?'})`);
+  if (phaseTwo.trigger) {
+    lines.push(phaseTwo.trigger);
+  }
+
+  const sections = [lines.join('  \n')];
+  for (const feature of phaseTwo.features ?? []) {
+    sections.push(formatFeature(feature));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Formats an environment feature, followed by its GM prompting questions.
+ * @param feature - The environment feature to format
+ * @returns Formatted feature string
+ */
+function formatEnvironmentFeature(feature: EnvironmentFeature): string {
+  const formatted = formatFeature(feature);
+  if (!feature.questions || feature.questions.length === 0) return formatted;
+
+  return `${formatted}  \n*${feature.questions.join(' ')}*`;
+}
+
 /**
  * Creates the header string based on level.
  * @param level - Header level (1, 2, or 3)
@@ -262,6 +300,18 @@ function getHeaderPrefix(level: 1 | 2 | 3): string {
   return '#'.repeat(level);
 }
 
+/**
+ * Formats a loot item as a bullet line.
+ * @param item - The loot item to format
+ * @returns Formatted string like "- **Healing Draught (2)**: Clear 1d6 HP. *(10 gold)*"
+ */
+function formatLootItem(item: LootItem): string {
+  const quantity = item.quantity && item.quantity > 1 ? ` (${item.quantity})` : '';
+  const quality = item.quality ? ` (${item.quality})` : '';
+  const value = item.value !== undefined ? ` *(${item.value} gold)*` : '';
+  return `- **${item.name}${quantity}**${quality}: ${item.description}${value}`;
+}
+
 // ============================================================================
 // MAIN FORMATTER
 // ============================================================================
@@ -389,6 +439,16 @@ export function formatAsMarkdown(
     sections.push('');
   }
 
+  // === Phase Two Section ===
+  if (adversary.phaseTwo && adversary.phaseTwo.hasPhaseTwo) {
+    sections.push(`${h2} Phase Two`);
+    sections.push('');
+    sections.push(formatPhaseTwo(adversary.phaseTwo));
+    sections.push('');
+    sections.push('---');
+    sections.push('');
+  }
+
   // === Motives & Tactics Section ===
   sections.push(`${h2} Motives & Tactics`);
   sections.push('');
@@ -476,6 +536,324 @@ export function formatMultipleAsMarkdown(
     .join('\n\n---\n\n');
 }
 
+/**
+ * Formats a titled list of features, such as a creature's lair features.
+ *
+ * @param title - Section title (e.g. "Adult Red Dragon's Lair")
+ * @param features - Features to list
+ * @param headerLevel - Header level of the section title
+ * @returns Formatted Markdown string, or an empty string when there are no features
+ *
+ * @example
+ * ```typescript
+ * const markdown = formatFeatureSection("Adult Red Dragon's Lair", result.environmentFeatures ?? []);
+ * ```
+ */
+export function formatFeatureSection(
+  title: string,
+  features: Feature[],
+  headerLevel: 1 | 2 | 3 = 2
+): string {
+  if (features.length === 0) return '';
+
+  const sections: string[] = [];
+  sections.push(`${getHeaderPrefix(headerLevel)} ${title}`);
+
+  for (const feature of features) {
+    sections.push('');
+    sections.push(formatFeature(feature));
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Formats a Daggerheart environment as a Markdown stat block.
+ *
+ * Follows the same layout as adversary stat blocks: name and subtitle,
+ * description, core statistics, then features grouped Passive, Action,
+ * Reaction, with GM prompting questions in italics.
+ *
+ * @param environment - The DaggerheartEnvironment to format
+ * @param options - Optional formatting configuration (header level, source attribution)
+ * @returns Formatted Markdown string
+ *
+ * @example
+ * ```typescript
+ * const markdown = formatEnvironmentAsMarkdown(ritualChamber, { headerLevel: 2 });
+ * ```
+ */
+export function formatEnvironmentAsMarkdown(
+  environment: DaggerheartEnvironment,
+  options: MarkdownFormatOptions = {}
+): string {
+  const headerLevel = options.headerLevel ?? 1;
+  const includeSourceAttribution = options.includeSourceAttribution ?? true;
+
+  const sections: string[] = [];
+  const h1 = getHeaderPrefix(headerLevel);
+  const h2 = getHeaderPrefix(Math.min(headerLevel + 1, 6) as 1 | 2 | 3);
+
+  // === Header Section ===
+  sections.push(`${h1} ${environment.name}`);
+  sections.push('');
+  sections.push(`*${formatTier(environment.tier)} ${environment.type} Environment*`);
+  sections.push('');
+
+  if (environment.description) {
+    sections.push(`> ${environment.description}`);
+    sections.push('');
+  }
+
+  sections.push('---');
+  sections.push('');
+
+  // === Core Statistics ===
+  if (environment.impulses.length > 0) {
+    sections.push(`**Impulses**: ${environment.impulses.join(', ')}`);
+    sections.push('');
+  }
+
+  sections.push(`**Difficulty** ${environment.difficulty}`);
+
+  if (environment.potentialAdversaries.length > 0) {
+    sections.push('');
+    sections.push(`**Potential Adversaries**: ${environment.potentialAdversaries.join(', ')}`);
+  }
+
+  sections.push('');
+  sections.push('---');
+  sections.push('');
+
+  // === Features Section ===
+  if (environment.features.length > 0) {
+    sections.push(`${h2} Features`);
+    sections.push('');
+
+    const orderedFeatures = [
+      ...environment.features.filter((f) => f.type === FeatureType.PASSIVE),
+      ...environment.features.filter((f) => f.type === FeatureType.ACTION),
+      ...environment.features.filter((f) => f.type === FeatureType.REACTION),
+    ];
+
+    for (const feature of orderedFeatures) {
+      sections.push(formatEnvironmentFeature(feature));
+      sections.push('');
+    }
+
+    sections.push('---');
+    sections.push('');
+  }
+
+  // === Atmosphere Section (if present) ===
+  const atmosphere = environment.atmosphere;
+  if (atmosphere && (atmosphere.lighting || atmosphere.weather || atmosphere.senses?.length)) {
+    sections.push(`${h2} Atmosphere`);
+    sections.push('');
+    if (atmosphere.lighting) sections.push(`- **Lighting**: ${atmosphere.lighting}`);
+    if (atmosphere.weather) sections.push(`- **Weather**: ${atmosphere.weather}`);
+    for (const sense of atmosphere.senses ?? []) {
+      sections.push(`- ${sense}`);
+    }
+    sections.push('');
+    sections.push('---');
+    sections.push('');
+  }
+
+  // === Source Attribution (if enabled and present) ===
+  if (includeSourceAttribution && environment.sourceSystem) {
+    sections.push(`*Converted from ${environment.sourceSystem}*`);
+  }
+
+  // === Tags (if present) ===
+  if (environment.tags && environment.tags.length > 0) {
+    sections.push('');
+    sections.push(`*Tags: ${environment.tags.join(', ')}*`);
+  }
+
+  return sections.join('\n').trimEnd();
+}
+
+/**
+ * Formats an NPC as a Markdown stat block.
+ *
+ * A roleplay-focused variant of the adversary stat block: a short
+ * At a Glance table (Difficulty, HP, Stress, Major/Severe thresholds)
+ * followed by motivations, the secret, the quirk, and roleplaying notes.
+ *
+ * @param npc - The DaggerheartNPC to format
+ * @param options - Optional formatting configuration (header level)
+ * @returns Formatted Markdown string
+ *
+ * @example
+ * ```typescript
+ * const markdown = formatNPCAsMarkdown(createNPC('blacksmith', Tier.TWO));
+ * ```
+ */
+export function formatNPCAsMarkdown(npc: DaggerheartNPC, options: MarkdownFormatOptions = {}): string {
+  const headerLevel = options.headerLevel ?? 1;
+  const h1 = getHeaderPrefix(headerLevel);
+  const h2 = getHeaderPrefix(Math.min(headerLevel + 1, 6) as 1 | 2 | 3);
+  const details = npc.npc;
+
+  const sections: string[] = [];
+
+  // === Header Section ===
+  sections.push(`${h1} ${npc.name}`);
+  sections.push('');
+  sections.push(`*${details.ancestry} ${details.age}, ${details.occupation}*`);
+  sections.push('');
+  sections.push(`> ${details.appearance}`);
+  sections.push('');
+  sections.push('---');
+  sections.push('');
+
+  // === At a Glance ===
+  sections.push(`${h2} At a Glance`);
+  sections.push('');
+  sections.push('| Stat | Value |');
+  sections.push('|------|-------|');
+  sections.push(`| **Difficulty** | ${npc.evasion} |`);
+  sections.push(`| **HP** | ${npc.hp} |`);
+  sections.push(`| **Stress** | ${npc.stress} |`);
+  sections.push(`| **Thresholds** | ${npc.thresholds.major}/${npc.thresholds.severe} |`);
+  if (npc.experience.length > 0) {
+    sections.push(`| **Experience** | ${formatExperience(npc.experience)} |`);
+  }
+  sections.push('');
+  sections.push('---');
+  sections.push('');
+
+  // === Motivations ===
+  sections.push(`${h2} Motivations`);
+  sections.push('');
+  for (const motive of npc.motivesAndTactics.phrases) {
+    sections.push(`- ${motive}`);
+  }
+  sections.push('');
+  sections.push('---');
+  sections.push('');
+
+  // === The Secret ===
+  sections.push(`${h2} The Secret`);
+  sections.push('');
+  sections.push(`*${details.secret.stakes}*`);
+  sections.push('');
+  sections.push(details.secret.description);
+  sections.push('');
+  sections.push(`**If discovered:** ${details.secret.ifDiscovered}`);
+  sections.push('');
+  sections.push('---');
+  sections.push('');
+
+  // === The Quirk ===
+  sections.push(`${h2} The Quirk`);
+  sections.push('');
+  sections.push(`**${details.quirk.name}**: ${details.quirk.description}`);
+  sections.push('');
+  sections.push('---');
+  sections.push('');
+
+  // === Roleplaying Notes ===
+  sections.push(`${h2} Roleplaying Notes`);
+  sections.push('');
+  sections.push(`**Attitude toward strangers:** ${details.attitude}`);
+
+  // === Tags (if present) ===
+  if (npc.tags && npc.tags.length > 0) {
+    sections.push('');
+    sections.push('---');
+    sections.push('');
+    sections.push(`*Tags: ${npc.tags.join(', ')}*`);
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Formats a loot haul as Markdown.
+ *
+ * Sections follow the loot haul layout: currency, then consumables,
+ * equipment, materials, and valuables as bullet lists, then each unique
+ * treasure with its plot hook, and the approximate total value.
+ *
+ * @param loot - The Loot to format
+ * @param options - Optional formatting configuration (header level)
+ * @returns Formatted Markdown string
+ *
+ * @example
+ * ```typescript
+ * const markdown = formatLootAsMarkdown(generateLoot(adversary));
+ * ```
+ */
+export function formatLootAsMarkdown(loot: Loot, options: MarkdownFormatOptions = {}): string {
+  const headerLevel = options.headerLevel ?? 1;
+  const h1 = getHeaderPrefix(headerLevel);
+  const h2 = getHeaderPrefix(Math.min(headerLevel + 1, 6) as 1 | 2 | 3);
+  const h3 = getHeaderPrefix(Math.min(headerLevel + 2, 6) as 1 | 2 | 3);
+
+  const sections: string[] = [];
+
+  // === Header Section ===
+  sections.push(`${h1} ${loot.source} Loot`);
+  sections.push('');
+  sections.push(`*${formatTier(loot.tier)} ${loot.dropTable} Drop*`);
+  sections.push('');
+  if (loot.note) {
+    sections.push(`> ${loot.note}`);
+    sections.push('');
+  }
+  sections.push('---');
+  sections.push('');
+
+  // === Currency ===
+  sections.push(`${h2} Currency`);
+  sections.push('');
+  sections.push(`${loot.currency.description} *(${loot.currency.dice})*`);
+  sections.push('');
+
+  // === Item Lists ===
+  const lists: Array<[string, LootCategory]> = [
+    ['Consumables', LootCategory.CONSUMABLE],
+    ['Equipment', LootCategory.EQUIPMENT],
+    ['Materials', LootCategory.MATERIAL],
+    ['Valuables', LootCategory.VALUABLE],
+  ];
+  for (const [title, category] of lists) {
+    const items = loot.items.filter((item) => item.category === category);
+    if (items.length === 0) {
+      continue;
+    }
+    sections.push(`${h2} ${title}`);
+    sections.push('');
+    sections.push(...items.map(formatLootItem));
+    sections.push('');
+  }
+
+  // === Unique Treasure ===
+  const uniques = loot.items.filter((item) => item.category === LootCategory.UNIQUE);
+  if (uniques.length > 0) {
+    sections.push(`${h2} Unique Treasure`);
+    sections.push('');
+    for (const unique of uniques) {
+      sections.push(`${h3} ${unique.name}`);
+      sections.push('');
+      sections.push(`> ${unique.description}`);
+      sections.push('');
+      if (unique.plotHook) {
+        sections.push(`**Plot Hook:** ${unique.plotHook}`);
+        sections.push('');
+      }
+    }
+  }
+
+  sections.push('---');
+  sections.push('');
+  sections.push(`**Total Approximate Value:** ${loot.totalValue} gold`);
+
+  return sections.join('\n');
+}
+
 /**
  * Formats an adversary as a compact single-line summary.
  *
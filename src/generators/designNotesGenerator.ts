@@ -19,6 +19,8 @@ import {
   FeatureType,
 } from '../models/daggerheart';
 import { ClassificationResult, CombatRole } from '../converters/classifyAdversary';
+import { findUnknownSpells } from '../converters/spellcasterConversion';
+import { getFiendCelestialDesignNotes } from '../converters/fiendCelestialConversion';
 
 // ============================================================================
 // TYPES
@@ -244,6 +246,14 @@ function analyzeAbilityTranslations(
         `Spellcasting converted to discrete features. Individual spells may be available as Stress-costed actions.`
       );
     }
+
+    const unknownSpells = findUnknownSpells(original.spellcasting);
+    if (unknownSpells.length > 0) {
+      notes.push(
+        `Not in the SRD spell data: ${unknownSpells.join(', ')}. ` +
+          `These were converted from their names alone; check their damage, range, and effects by hand.`
+      );
+    }
   }
 
   // Check for legendary/mythic
@@ -257,6 +267,27 @@ function analyzeAbilityTranslations(
     }
   }
 
+  // Check for mythic phase change
+  if (original.mythicActions && converted.phaseTwo?.hasPhaseTwo) {
+    notes.push(
+      `Mythic trait "${original.mythicActions.trait.name}" converted to a phase change. When the first HP track ` +
+        `is cleared, the adversary restores ${converted.phaseTwo.hp} HP and unlocks ` +
+        `${converted.phaseTwo.features?.length || 0} mythic actions as Fear-costed actions usable only in phase two.`
+    );
+  }
+
+  // Check for lair actions
+  if (original.lairActions) {
+    const lairCount =
+      original.lairActions.actions.length + (original.lairActions.regionalEffects?.length || 0);
+    if (lairCount > 0) {
+      notes.push(
+        `Lair actions and regional effects converted to ${lairCount} Fear-costed environment features. ` +
+          `Daggerheart has no initiative count, so the GM spends Fear to trigger the lair instead.`
+      );
+    }
+  }
+
   // Check for multiattack simplification
   if (original.multiattack) {
     notes.push(
@@ -309,6 +340,15 @@ function generateBalanceNotes(
       }
   }
 
+  // Phase change note
+  if (converted.phaseTwo?.hasPhaseTwo && converted.phaseTwo.hp) {
+    notes.push(
+      `Two HP tracks (${converted.hp} + ${converted.phaseTwo.hp}) make this fight roughly ` +
+        `${Math.round(((converted.hp + converted.phaseTwo.hp) / converted.hp) * 10) / 10}x as long. ` +
+        `Keep Fear in reserve for phase two, where the mythic actions spend it.`
+    );
+  }
+
   // Difficulty note
   const difficultyNote = getDifficultyNote(converted.difficulty);
   if (difficultyNote) {
@@ -413,6 +453,9 @@ function generateGMTips(
     tips.push(typeTip);
   }
 
+  // Fiend and celestial subtype tips
+  tips.push(...getFiendCelestialDesignNotes(original));
+
   // Combat role tactics
   if (classification.role) {
     const roleTip = ROLE_TACTICAL_NOTES[classification.role];
@@ -0,0 +1,261 @@
+/**
+ * Environment Builder
+ *
+ * Builds Daggerheart environment stat blocks with tier-appropriate
+ * defaults, and creates the terrain, hazard, and interactive features
+ * that make up an environment.
+ *
+ * @module generators/environmentBuilder
+ * @version 1.0.0
+ */
+
+import {
+  Attribute,
+  DamageType,
+  FeatureCostType,
+  FeatureType,
+  Tier,
+} from '../models/daggerheart';
+import {
+  CoverType,
+  DaggerheartEnvironment,
+  ElevationLevel,
+  EnvironmentAtmosphere,
+  EnvironmentFeature,
+  EnvironmentFeatureCategory,
+  EnvironmentType,
+  HazardSeverity,
+  COVER_EFFECTS,
+  ELEVATION_EFFECTS,
+  ENVIRONMENT_DIFFICULTY_BY_TIER,
+  HAZARD_SEVERITY_STATS,
+} from '../models/environment';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for building an environment. Only name, tier, and type are required.
+ */
+export interface EnvironmentOptions {
+  name: string;
+  tier: Tier;
+  type: EnvironmentType;
+  /** One-line description. Default: generic text for the type */
+  description?: string;
+  /** Difficulty. Default: the tier's default Difficulty */
+  difficulty?: number;
+  /** Impulses. Default: stock impulses for the type */
+  impulses?: string[];
+  potentialAdversaries?: string[];
+  features?: EnvironmentFeature[];
+  atmosphere?: EnvironmentAtmosphere;
+  tags?: string[];
+}
+
+/**
+ * Options for a hazard feature.
+ */
+export interface HazardOptions {
+  /** What the hazard does, before the damage and roll text. */
+  description?: string;
+  /** Attribute for the Reaction Roll. Default: Agility */
+  attribute?: Attribute;
+  /** Damage type. Default: Physical */
+  damageType?: DamageType;
+  /** Fear the GM spends to activate the hazard. Default: none (passive hazard) */
+  fearCost?: number;
+}
+
+// ============================================================================
+// DEFAULTS BY TYPE
+// ============================================================================
+
+/**
+ * Stock impulses for each environment type.
+ */
+const IMPULSES_BY_TYPE: Record<EnvironmentType, string[]> = {
+  [EnvironmentType.EXPLORATION]: ['Hide secrets', 'Reward the curious', 'Punish the careless'],
+  [EnvironmentType.SOCIAL]: ['Reveal hidden agendas', 'Shift loyalties', 'Escalate tensions'],
+  [EnvironmentType.TRAVERSAL]: ['Block the path', 'Separate the party', 'Wear down travelers'],
+  [EnvironmentType.EVENT]: ['Raise the stakes', 'Force hard choices', 'Run out the clock'],
+};
+
+/**
+ * Stock descriptions for each environment type.
+ */
+const DESCRIPTION_BY_TYPE: Record<EnvironmentType, string> = {
+  [EnvironmentType.EXPLORATION]: 'A place full of secrets waiting to be uncovered.',
+  [EnvironmentType.SOCIAL]: 'A gathering where every conversation carries an agenda.',
+  [EnvironmentType.TRAVERSAL]: 'Treacherous ground that fights every step forward.',
+  [EnvironmentType.EVENT]: 'A situation racing toward a point of no return.',
+};
+
+// ============================================================================
+// MAIN BUILDER
+// ============================================================================
+
+/**
+ * Builds an environment stat block, filling in tier and type defaults.
+ *
+ * @param options - Environment fields; name, tier, and type are required
+ * @returns Complete environment stat block
+ *
+ * @example
+ * ```typescript
+ * const chamber = createEnvironment({
+ *   name: 'Ancient Ritual Chamber',
+ *   tier: Tier.ONE,
+ *   type: EnvironmentType.EXPLORATION,
+ *   features: [
+ *     createCoverFeature('Stone Pillars', CoverType.HEAVY),
+ *     createHazardFeature('Unstable Floor', HazardSeverity.MODERATE),
+ *   ],
+ * });
+ * console.log(chamber.difficulty); // 11
+ * ```
+ */
+export function createEnvironment(options: EnvironmentOptions): DaggerheartEnvironment {
+  const environment: DaggerheartEnvironment = {
+    name: options.name,
+    tier: options.tier,
+    type: options.type,
+    description: options.description ?? DESCRIPTION_BY_TYPE[options.type],
+    difficulty: options.difficulty ?? ENVIRONMENT_DIFFICULTY_BY_TIER[options.tier].default,
+    impulses: options.impulses ?? [...IMPULSES_BY_TYPE[options.type]],
+    potentialAdversaries: options.potentialAdversaries ?? [],
+    features: options.features ?? [],
+    createdAt: new Date(),
+    version: '1.0.0',
+  };
+
+  if (options.atmosphere) environment.atmosphere = options.atmosphere;
+  if (options.tags) environment.tags = options.tags;
+
+  return environment;
+}
+
+// ============================================================================
+// FEATURE BUILDERS
+// ============================================================================
+
+/**
+ * Creates a terrain feature that provides cover.
+ *
+ * @param name - Feature name (e.g. "Stone Pillars")
+ * @param cover - Cover provided
+ * @param description - Optional flavor text placed before the rules text
+ * @returns Passive terrain feature
+ */
+export function createCoverFeature(
+  name: string,
+  cover: CoverType,
+  description?: string
+): EnvironmentFeature {
+  const rules = `${cover} cover: ${COVER_EFFECTS[cover]}.`;
+  return {
+    name,
+    type: FeatureType.PASSIVE,
+    category: EnvironmentFeatureCategory.TERRAIN,
+    description: description ? `${description} ${rules}` : rules,
+    cover,
+  };
+}
+
+/**
+ * Creates a terrain feature that provides elevation.
+ *
+ * @param name - Feature name (e.g. "Raised Dais")
+ * @param elevation - Height above the surrounding ground
+ * @param description - Optional flavor text placed before the rules text
+ * @returns Passive terrain feature
+ */
+export function createElevationFeature(
+  name: string,
+  elevation: ElevationLevel,
+  description?: string
+): EnvironmentFeature {
+  const rules = `${elevation} elevation: ${ELEVATION_EFFECTS[elevation]}.`;
+  return {
+    name,
+    type: FeatureType.PASSIVE,
+    category: EnvironmentFeatureCategory.TERRAIN,
+    description: description ? `${description} ${rules}` : rules,
+    elevation,
+  };
+}
+
+/**
+ * Creates a hazard feature with damage and a Reaction Roll set by severity.
+ *
+ * Hazards with a Fear cost are Actions the GM activates; hazards without
+ * one are Passive and affect anyone who enters them.
+ *
+ * @param name - Feature name (e.g. "Unstable Floor")
+ * @param severity - Hazard severity (Minor 1d6 to Severe 4d6)
+ * @param options - Description, Reaction Roll attribute, damage type, Fear cost
+ * @returns Hazard feature
+ *
+ * @example
+ * ```typescript
+ * const lava = createHazardFeature('Lava Edge', HazardSeverity.MAJOR, {
+ *   damageType: DamageType.MAGIC,
+ *   fearCost: 1,
+ * });
+ * // Action, 1 Fear: Agility Reaction Roll (16), 3d6 magic damage on a failure
+ * ```
+ */
+export function createHazardFeature(
+  name: string,
+  severity: HazardSeverity,
+  options: HazardOptions = {}
+): EnvironmentFeature {
+  const stats = HAZARD_SEVERITY_STATS[severity];
+  const attribute = options.attribute ?? Attribute.AGILITY;
+  const damageType = options.damageType ?? DamageType.PHYSICAL;
+  const difficulty = stats.difficulty[0];
+  const damageName = damageType === DamageType.PHYSICAL ? 'physical' : 'magic';
+
+  const rules =
+    `Targets must make a ${attribute} Reaction Roll (${difficulty}). ` +
+    `On a failure, they take ${stats.diceCount}d6 ${damageName} damage; on a success, half damage.`;
+
+  const feature: EnvironmentFeature = {
+    name,
+    type: options.fearCost ? FeatureType.ACTION : FeatureType.PASSIVE,
+    category: EnvironmentFeatureCategory.HAZARD,
+    description: options.description ? `${options.description} ${rules}` : rules,
+    reactionRollAttribute: attribute,
+    reactionRollDifficulty: difficulty,
+    damage: { diceCount: stats.diceCount, diceSize: 6, modifier: 0, damageType },
+    hazardSeverity: severity,
+  };
+
+  if (options.fearCost) {
+    feature.cost = { type: FeatureCostType.FEAR, amount: options.fearCost };
+  }
+
+  return feature;
+}
+
+/**
+ * Creates an interactive element the PCs or adversaries can use.
+ *
+ * @param name - Feature name (e.g. "Ancient Lever")
+ * @param activation - How the element is used
+ * @param effect - What happens when it is used
+ * @returns Action feature in the interactive category
+ */
+export function createInteractiveFeature(
+  name: string,
+  activation: string,
+  effect: string
+): EnvironmentFeature {
+  return {
+    name,
+    type: FeatureType.ACTION,
+    category: EnvironmentFeatureCategory.INTERACTIVE,
+    description: `${activation.replace(/[.\s]+$/, '')}. ${effect}`,
+  };
+}
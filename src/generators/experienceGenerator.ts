@@ -266,6 +266,20 @@ const SKILL_TOPICS: Partial<Record<Skill, string>> = {
   [Skill.PERCEPTION]: 'Keen Awareness',
 };
 
+/**
+ * Topics for social and trade skills that monster stat blocks rarely
+ * list, used when generating Experiences for NPCs.
+ */
+const SOCIAL_SKILL_TOPICS: Partial<Record<Skill, string>> = {
+  [Skill.INSIGHT]: 'Reading People',
+  [Skill.PERFORMANCE]: 'Performance',
+  [Skill.INVESTIGATION]: 'Investigation',
+  [Skill.MEDICINE]: 'Healing Lore',
+  [Skill.SLEIGHT_OF_HAND]: 'Sleight of Hand',
+  [Skill.ANIMAL_HANDLING]: 'Animal Handling',
+  [Skill.ATHLETICS]: 'Hard Labor',
+};
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -588,3 +602,28 @@ export function getAllAbilityTopics(): string[] {
   }
   return [...topics];
 }
+
+/**
+ * Gets experience topics for a list of skills, including social and
+ * trade skills. Useful for NPCs, whose Experiences come from what they
+ * do rather than what they are.
+ *
+ * @param skills - Skills in order of importance
+ * @returns Array of unique topics, in skill order
+ *
+ * @example
+ * ```typescript
+ * getTopicsForSkills([Skill.PERSUASION, Skill.INSIGHT]);
+ * // ["Negotiation", "Reading People"]
+ * ```
+ */
+export function getTopicsForSkills(skills: Skill[]): string[] {
+  const topics: string[] = [];
+  for (const skill of skills) {
+    const topic = SKILL_TOPICS[skill] ?? SOCIAL_SKILL_TOPICS[skill];
+    if (topic && !topics.includes(topic)) {
+      topics.push(topic);
+    }
+  }
+  return topics;
+}
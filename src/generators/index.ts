@@ -15,6 +15,7 @@ export {
   generateExperienceWithBonuses,
   // Utility functions
   getTopicsForCreatureType,
+  getTopicsForSkills,
   getAllAbilityTopics,
 } from './experienceGenerator';
 
@@ -27,6 +28,7 @@ export {
   // Utility functions
   getMotivesForCreatureType,
   getTacticsForRole,
+  getTacticsForAdversaryType,
   getAlignmentMotives,
 } from './motiveTacticsGenerator';
 
@@ -40,3 +42,31 @@ export {
   formatDesignNotesAsMarkdown,
   summarizeDesignNotes,
 } from './designNotesGenerator';
+
+// Environment building
+export {
+  // Types
+  type EnvironmentOptions,
+  type HazardOptions,
+  // Core builder function
+  createEnvironment,
+  // Feature builders
+  createCoverFeature,
+  createElevationFeature,
+  createHazardFeature,
+  createInteractiveFeature,
+} from './environmentBuilder';
+
+// NPC generation
+export {
+  // Core generation function
+  createNPC,
+} from './npcGenerator';
+
+// Loot generation
+export {
+  // Types
+  type LootContext,
+  // Core generation function
+  generateLoot,
+} from './lootGenerator';
@@ -0,0 +1,674 @@
+/**
+ * Loot Generator
+ *
+ * Generates thematic, tier-appropriate drops for a defeated adversary.
+ * The adversary type sets the size of the haul (handful, bag, or chest
+ * of coins, and how many consumables, materials, and items), the tier
+ * scales value and quality, and the creature type and source data
+ * (dragon color, undead subtype) decide which crafting materials and
+ * equipment properties appear. Generation is deterministic for a given
+ * seed.
+ *
+ * @module generators/lootGenerator
+ * @version 1.0.0
+ */
+
+import { AdversaryType, DaggerheartAdversary, Tier } from '../models/daggerheart';
+import { CreatureType } from '../models/dnd5e';
+import {
+  CurrencyAmount,
+  Loot,
+  LootCategory,
+  LootCurrency,
+  LootItem,
+  LootQuality,
+  CURRENCY_DICE_BY_TIER,
+  EQUIPMENT_QUALITY_BY_TIER,
+  MATERIAL_QUALITY_BY_TIER,
+  MATERIAL_VALUE_BY_QUALITY,
+} from '../models/loot';
+import {
+  DragonColor,
+  getAllDragonColors,
+  getDragonColorName,
+  getDragonElement,
+} from '../converters/dragonConversion';
+import { UndeadSubtype, getAllUndeadSubtypes } from '../converters/undeadConversion';
+import { createSeededRandom, SeededRandom } from '../utils/random';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Source context for thematic loot.
+ *
+ * Anything not given is inferred from the adversary's name and tags.
+ */
+export interface LootContext {
+  /** Seed for deterministic generation. Default: adversary name and tier */
+  seed?: number | string;
+  /** Creature type of the source stat block. */
+  creatureType?: CreatureType;
+  /** Dragon color (from dragon conversion). */
+  dragonColor?: DragonColor;
+  /** Undead subtype (from undead conversion). */
+  undeadSubtype?: UndeadSubtype;
+  /** Note carried onto the loot, such as an OSR treasure type. */
+  note?: string;
+}
+
+/**
+ * Size of a drop for one family of adversary types.
+ */
+interface DropProfile {
+  label: string;
+  currency: CurrencyAmount;
+  /** Chance of any consumables, then dice rolled for how many. */
+  consumables: { chance: number; count: number; size: number };
+  /** Chance of any materials, then how many. */
+  materials: { chance: number; count: number; minQuality: LootQuality };
+  equipment: { chance: number; minTier: Tier };
+  uniqueChance: number;
+}
+
+/**
+ * A crafting material template. `{dragon}` and `{element}` are filled
+ * from the dragon color.
+ */
+interface MaterialTemplate {
+  name: string;
+  use: string;
+}
+
+/**
+ * A consumable with its effect.
+ */
+interface ConsumableTemplate {
+  name: string;
+  effect: string;
+}
+
+// ============================================================================
+// DROP TABLES
+// ============================================================================
+
+const MINION_DROP: DropProfile = {
+  label: 'Minion',
+  currency: CurrencyAmount.HANDFUL,
+  consumables: { chance: 0.5, count: 1, size: 1 },
+  materials: { chance: 0.25, count: 1, minQuality: LootQuality.COMMON },
+  equipment: { chance: 0, minTier: Tier.ONE },
+  uniqueChance: 0,
+};
+
+const STANDARD_DROP: DropProfile = {
+  label: 'Standard',
+  currency: CurrencyAmount.BAG,
+  consumables: { chance: 1, count: 1, size: 1 },
+  materials: { chance: 1, count: 1, minQuality: LootQuality.COMMON },
+  equipment: { chance: 0.25, minTier: Tier.ONE },
+  uniqueChance: 0,
+};
+
+const ELITE_DROP: DropProfile = {
+  label: 'Elite',
+  currency: CurrencyAmount.BAG,
+  consumables: { chance: 1, count: 1, size: 3 },
+  materials: { chance: 1, count: 2, minQuality: LootQuality.QUALITY },
+  equipment: { chance: 0.5, minTier: Tier.TWO },
+  uniqueChance: 0.25,
+};
+
+const SOLO_DROP: DropProfile = {
+  label: 'Solo',
+  currency: CurrencyAmount.CHEST,
+  consumables: { chance: 1, count: 2, size: 4 },
+  materials: { chance: 1, count: 3, minQuality: LootQuality.RARE },
+  equipment: { chance: 1, minTier: Tier.THREE },
+  uniqueChance: 1,
+};
+
+/**
+ * Drop profile for each adversary type.
+ */
+const DROP_PROFILES: Record<AdversaryType, DropProfile> = {
+  [AdversaryType.MINION]: MINION_DROP,
+  [AdversaryType.HORDE]: MINION_DROP,
+  [AdversaryType.SWARM]: MINION_DROP,
+  [AdversaryType.STANDARD]: STANDARD_DROP,
+  [AdversaryType.SKULK]: STANDARD_DROP,
+  [AdversaryType.RANGED]: STANDARD_DROP,
+  [AdversaryType.SUPPORT]: STANDARD_DROP,
+  [AdversaryType.SOCIAL]: STANDARD_DROP,
+  [AdversaryType.BRUISER]: ELITE_DROP,
+  [AdversaryType.LEADER]: ELITE_DROP,
+  [AdversaryType.SOLO]: SOLO_DROP,
+};
+
+// ============================================================================
+// ITEM POOLS
+// ============================================================================
+
+const CURRENCY_FLAVOR = [
+  'old empire coins stamped with forgotten faces',
+  'trade bars stamped with guild marks',
+  'tarnished silver mixed with gold',
+  'foreign coins that will need exchanging',
+  'small uncut gemstones used as currency in the borderlands',
+  'coins strung on a cord through square holes',
+];
+
+/**
+ * Consumables by tier: common, uncommon, and rare.
+ */
+const CONSUMABLES: Record<Tier, Record<'common' | 'uncommon' | 'rare', ConsumableTemplate[]>> = {
+  [Tier.ONE]: {
+    common: [{ name: 'Healing Draught', effect: 'Clear 1d6 HP.' }],
+    uncommon: [
+      { name: 'Antitoxin', effect: 'Ends a poison effect and grants advantage against poison for an hour.' },
+      { name: 'Smokebomb', effect: 'Fills a Close area with thick smoke until the end of the scene.' },
+    ],
+    rare: [{ name: 'Potion of Invisibility', effect: 'Become invisible for one minute.' }],
+  },
+  [Tier.TWO]: {
+    common: [{ name: 'Greater Healing Draught', effect: 'Clear 2d6 HP.' }],
+    uncommon: [
+      { name: 'Potion of Speed', effect: 'Move to Far range as part of an action for the scene.' },
+      { name: 'Potion of Fire Resistance', effect: 'Resistance to fire damage for the scene.' },
+    ],
+    rare: [{ name: 'Potion of Flying', effect: 'Fly for ten minutes.' }],
+  },
+  [Tier.THREE]: {
+    common: [{ name: 'Superior Healing Draught', effect: 'Clear 3d6 HP.' }],
+    uncommon: [{ name: 'Potion of Giant Strength', effect: 'Add +1d6 to damage rolls for the scene.' }],
+    rare: [{ name: 'Potion of Regeneration', effect: 'Clear 1 HP at the start of each of your turns for the scene.' }],
+  },
+  [Tier.FOUR]: {
+    common: [{ name: 'Supreme Healing Draught', effect: 'Clear 4d6 HP.' }],
+    uncommon: [{ name: 'Potion of Invulnerability', effect: 'Resistance to all damage for the scene.' }],
+    rare: [{ name: 'Potion of True Seeing', effect: 'See through illusions and invisibility for an hour.' }],
+  },
+};
+
+const CONSUMABLE_VALUE = { common: 10, uncommon: 25, rare: 75 };
+
+/**
+ * Crafting materials by creature type. Humanoids carry valuables instead.
+ */
+const MATERIALS: Partial<Record<CreatureType, MaterialTemplate[]>> = {
+  [CreatureType.ABERRATION]: [
+    { name: 'Aberrant Chitin', use: 'strange armor and wards' },
+    { name: 'Vial of Eye Fluid', use: 'scrying inks and wards against the mind' },
+    { name: 'Void Residue', use: 'items that bend space' },
+  ],
+  [CreatureType.BEAST]: [
+    { name: 'Thick Hide', use: 'leather armor' },
+    { name: 'Fangs', use: 'weapons and charms' },
+    { name: 'Claws', use: 'weapons and tools' },
+    { name: 'Heavy Bones', use: 'tools and weapon hafts' },
+  ],
+  [CreatureType.CELESTIAL]: [
+    { name: 'Radiant Feather', use: 'holy symbols and healing draughts' },
+    { name: 'Shard of Halo-Light', use: 'items that ward against fiends and undead' },
+  ],
+  [CreatureType.CONSTRUCT]: [
+    { name: 'Gears', use: 'mechanical items' },
+    { name: 'Animating Core', use: 'constructs and self-moving tools' },
+    { name: 'Animated Metal', use: 'armor that shifts to turn blows' },
+  ],
+  [CreatureType.DRAGON]: [
+    { name: '{dragon} Scales', use: 'legendary armor resistant to {element}' },
+    { name: '{dragon} Teeth', use: 'weapons that deal {element} damage' },
+    { name: 'Vial of {dragon} Blood', use: 'potions of {element} resistance' },
+    { name: '{dragon} Heart', use: 'legendary items of {element}' },
+  ],
+  [CreatureType.ELEMENTAL]: [
+    { name: 'Elemental Essence', use: 'enchanting and alchemy' },
+    { name: 'Crystallized Element', use: 'elemental weapons and wands' },
+  ],
+  [CreatureType.FEY]: [
+    { name: 'Glamour Dust', use: 'illusion items and disguises' },
+    { name: 'Moonpetals', use: 'charms and sleeping draughts' },
+  ],
+  [CreatureType.FIEND]: [
+    { name: 'Brimstone', use: 'dark items and explosives' },
+    { name: 'Fiendish Ichor', use: 'bindings and pacts' },
+    { name: 'Curled Horn', use: 'dark items and summoning circles' },
+  ],
+  [CreatureType.GIANT]: [
+    { name: 'Giant Knucklebone', use: 'tools and charms of strength' },
+    { name: 'Braided Giant Hair', use: 'rope that will not fray' },
+  ],
+  [CreatureType.MONSTROSITY]: [
+    { name: 'Monstrous Hide', use: 'heavy armor' },
+    { name: 'Venom Sac', use: 'poisons and antitoxins' },
+    { name: 'Serrated Spine', use: 'weapons' },
+  ],
+  [CreatureType.OOZE]: [
+    { name: 'Acidic Residue', use: 'etching and corrosive bombs' },
+    { name: 'Jar of Ooze Jelly', use: 'alchemical glue and salves' },
+  ],
+  [CreatureType.PLANT]: [
+    { name: 'Heartwood', use: 'staves and bows' },
+    { name: 'Spore Pod', use: 'sleeping powders and poisons' },
+  ],
+  [CreatureType.UNDEAD]: [
+    { name: 'Bone Dust', use: 'necromantic components' },
+    { name: 'Ectoplasm', use: 'items that touch the spirit world' },
+    { name: 'Grave Dirt', use: 'necromantic components and wards' },
+  ],
+};
+
+/**
+ * Subtype-specific materials, used in place of the generic undead pool.
+ */
+const UNDEAD_MATERIALS: Partial<Record<UndeadSubtype, MaterialTemplate[]>> = {
+  skeleton: [{ name: 'Bone Dust', use: 'necromantic components' }],
+  zombie: [{ name: 'Grave Dirt', use: 'necromantic components and wards' }],
+  ghost: [{ name: 'Ectoplasm', use: 'items that touch the spirit world' }],
+  specter: [{ name: 'Ectoplasm', use: 'items that touch the spirit world' }],
+  banshee: [{ name: 'Echoing Ectoplasm', use: 'items that carry sound and sorrow' }],
+  wraith: [{ name: 'Shadow Residue', use: 'cloaks of concealment' }],
+  shadow: [{ name: 'Shadow Residue', use: 'cloaks of concealment' }],
+  vampire: [
+    { name: 'Vampire Fang', use: 'weapons that drink blood' },
+    { name: 'Grave Soil', use: 'wards against the undead' },
+  ],
+  vampire_spawn: [{ name: 'Vampire Fang', use: 'weapons that drink blood' }],
+  lich: [
+    { name: 'Phylactery Shard', use: 'soul-binding and necromancy' },
+    { name: 'Necrotic Ash', use: 'necromantic components' },
+  ],
+  mummy: [{ name: 'Embalming Resin', use: 'preservation and curses' }],
+  ghoul: [{ name: 'Paralytic Claw', use: 'poisons' }],
+  ghast: [{ name: 'Paralytic Claw', use: 'poisons' }],
+  wight: [{ name: 'Barrow Iron', use: 'weapons that drain life' }],
+  revenant: [{ name: 'Oathbound Ash', use: 'items that track a sworn foe' }],
+  death_knight: [{ name: 'Grave Iron Fragments', use: 'weapons that deal necrotic damage' }],
+};
+
+/**
+ * Art objects carried by adversaries without harvestable materials.
+ */
+const VALUABLES: Record<Tier, string[]> = {
+  [Tier.ONE]: ['Silver Ring', 'Carved Figurine', 'Small Painting'],
+  [Tier.TWO]: ['Gold Necklace', 'Embroidered Tapestry', 'Marble Bust'],
+  [Tier.THREE]: ['Jeweled Dagger', 'Masterwork Painting', 'Ancient Artifact'],
+  [Tier.FOUR]: ['Crown Jewel', 'Legendary Artwork', 'Divine Relic'],
+};
+
+const VALUABLE_VALUE: Record<Tier, readonly [number, number]> = {
+  [Tier.ONE]: [10, 25],
+  [Tier.TWO]: [50, 100],
+  [Tier.THREE]: [200, 500],
+  [Tier.FOUR]: [1000, 1500],
+};
+
+const EQUIPMENT_BASES = ['Longsword', 'Battleaxe', 'Shortbow', 'Dagger', 'Spear', 'Chainmail', 'Leather Armor'];
+
+const EQUIPMENT_VALUE: Record<Tier, number> = {
+  [Tier.ONE]: 15,
+  [Tier.TWO]: 60,
+  [Tier.THREE]: 250,
+  [Tier.FOUR]: 1000,
+};
+
+const EQUIPMENT_PROPERTIES = [
+  'Returning (comes back when thrown)',
+  'Silent (makes no sound)',
+  'Glowing (sheds light on command)',
+  'Featherlight (weighs almost nothing)',
+  'Unbreakable (cannot be damaged)',
+  'Keen (critical success on a 19 or 20)',
+  'Guardian (+1 to ally Evasion within Close range)',
+];
+
+/**
+ * Elemental properties for gear made from or carried by dragons.
+ */
+const ELEMENTAL_PROPERTIES: Record<string, string> = {
+  Fire: 'Flaming (sheds light, +1d4 fire damage)',
+  Cold: 'Frosted (cold to the touch, +1d4 cold damage)',
+  Lightning: 'Shocking (hums with energy, +1d4 lightning damage)',
+  Poison: 'Venomous (drips poison, +1d4 poison damage)',
+  Acid: 'Corroding (hisses on contact, +1d4 acid damage)',
+};
+
+const UNIQUE_ITEMS = [
+  { name: "The Creditor's Smile", type: 'dagger' },
+  { name: "Widow's Teeth", type: 'quiver of arrows' },
+  { name: 'The Argument Settler', type: 'warhammer' },
+  { name: 'Conspiracy of Crows', type: 'cloak' },
+  { name: 'The Last Reasonable Option', type: 'crossbow' },
+  { name: "Grandmother's Grudge", type: 'vial of poison' },
+  { name: 'The Comfortable Silence', type: 'pair of boots' },
+  { name: 'Bankruptcy', type: 'very large sword' },
+];
+
+const UNIQUE_VALUE: Record<Tier, number> = {
+  [Tier.ONE]: 150,
+  [Tier.TWO]: 400,
+  [Tier.THREE]: 1500,
+  [Tier.FOUR]: 5000,
+};
+
+const PLOT_HOOKS = [
+  'It bears the crest of a noble house believed extinct, and someone would pay to keep it that way.',
+  'It grows warm when pointed toward the heir of its first owner.',
+  '{source} took it from someone who is still looking for it.',
+  'A scholar in the nearest city has been searching for it for years.',
+  'It hums faintly near the place where it was forged.',
+];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const QUALITY_ORDER = [LootQuality.COMMON, LootQuality.QUALITY, LootQuality.RARE, LootQuality.PRISTINE];
+
+/**
+ * Rolls `count` dice of the given size.
+ */
+function rollDice(count: number, size: number, random: SeededRandom): number {
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += random.nextInt(1, size);
+  }
+  return total;
+}
+
+/**
+ * Returns the higher of two qualities.
+ */
+function maxQuality(a: LootQuality, b: LootQuality): LootQuality {
+  return QUALITY_ORDER.indexOf(a) >= QUALITY_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Resolves creature type from context, then tags, then source data.
+ */
+function resolveCreatureType(adversary: DaggerheartAdversary, context: LootContext): CreatureType {
+  if (context.creatureType) {
+    return context.creatureType;
+  }
+
+  const tags = (adversary.tags ?? []).map((tag) => tag.toLowerCase());
+  const tagged = Object.values(CreatureType).find((type) => tags.includes(type.toLowerCase()));
+  if (tagged) {
+    return tagged;
+  }
+
+  if (context.dragonColor) {
+    return CreatureType.DRAGON;
+  }
+  if (context.undeadSubtype) {
+    return CreatureType.UNDEAD;
+  }
+
+  return CreatureType.HUMANOID;
+}
+
+/**
+ * Resolves dragon color from context, then the adversary name.
+ */
+function resolveDragonColor(adversary: DaggerheartAdversary, context: LootContext): DragonColor {
+  if (context.dragonColor) {
+    return context.dragonColor;
+  }
+
+  const name = adversary.name.toLowerCase();
+  return getAllDragonColors().find((color) => new RegExp(`\\b${color}\\b`).test(name)) ?? 'unknown';
+}
+
+/**
+ * Resolves undead subtype from context, then tags.
+ */
+function resolveUndeadSubtype(adversary: DaggerheartAdversary, context: LootContext): UndeadSubtype {
+  if (context.undeadSubtype) {
+    return context.undeadSubtype;
+  }
+
+  const tags = adversary.tags ?? [];
+  return getAllUndeadSubtypes().find((subtype) => tags.includes(subtype)) ?? 'generic_undead';
+}
+
+/**
+ * Gets the material pool for the resolved creature.
+ */
+function getMaterialPool(
+  creatureType: CreatureType,
+  dragonColor: DragonColor,
+  undeadSubtype: UndeadSubtype
+): MaterialTemplate[] | undefined {
+  if (creatureType === CreatureType.UNDEAD) {
+    return UNDEAD_MATERIALS[undeadSubtype] ?? MATERIALS[CreatureType.UNDEAD];
+  }
+
+  const pool = MATERIALS[creatureType];
+  if (creatureType !== CreatureType.DRAGON || !pool) {
+    return pool;
+  }
+
+  const dragon = getDragonColorName(dragonColor);
+  const element = getDragonElement(dragonColor).toLowerCase();
+  return pool.map((template) => ({
+    name: template.name.replace('{dragon}', dragon),
+    use: template.use.replace('{element}', element),
+  }));
+}
+
+function generateCurrency(tier: Tier, profile: DropProfile, random: SeededRandom): LootCurrency {
+  const count = CURRENCY_DICE_BY_TIER[tier][profile.currency];
+  const gold = rollDice(count, 6, random);
+
+  return {
+    amount: profile.currency,
+    dice: `${count}d6`,
+    gold,
+    description: `${profile.currency} of ${gold} gold in ${random.pick(CURRENCY_FLAVOR)}.`,
+  };
+}
+
+function generateConsumables(tier: Tier, profile: DropProfile, random: SeededRandom): LootItem[] {
+  const { chance, count, size } = profile.consumables;
+  if (random.next() >= chance) {
+    return [];
+  }
+
+  const items: LootItem[] = [];
+  const total = rollDice(count, size, random);
+  for (let i = 0; i < total; i++) {
+    // Minions only carry common consumables; otherwise 1 in 6 is rare.
+    const roll = profile === MINION_DROP ? 1 : random.nextInt(1, 6);
+    const rarity = roll === 6 ? 'rare' : roll >= 4 ? 'uncommon' : 'common';
+    const consumable = random.pick(CONSUMABLES[tier][rarity]);
+
+    const existing = items.find((item) => item.name === consumable.name);
+    if (existing) {
+      existing.quantity = (existing.quantity ?? 1) + 1;
+      continue;
+    }
+
+    items.push({
+      name: consumable.name,
+      category: LootCategory.CONSUMABLE,
+      description: consumable.effect,
+      quantity: 1,
+      value: CONSUMABLE_VALUE[rarity] * tier,
+    });
+  }
+
+  return items;
+}
+
+function generateMaterials(
+  tier: Tier,
+  profile: DropProfile,
+  pool: MaterialTemplate[],
+  source: string,
+  random: SeededRandom
+): LootItem[] {
+  const { chance, count, minQuality } = profile.materials;
+  if (random.next() >= chance) {
+    return [];
+  }
+
+  const quality = maxQuality(MATERIAL_QUALITY_BY_TIER[tier], minQuality);
+  const [minValue, maxValue] = MATERIAL_VALUE_BY_QUALITY[quality];
+  const picks = random.shuffle(pool);
+
+  const items: LootItem[] = [];
+  for (let i = 0; i < count; i++) {
+    const material = picks[i % picks.length]!;
+    const existing = items.find((item) => item.name === material.name);
+    if (existing) {
+      existing.quantity = (existing.quantity ?? 1) + 1;
+      continue;
+    }
+
+    items.push({
+      name: material.name,
+      category: LootCategory.MATERIAL,
+      description: `Harvested from ${source}. Used for ${material.use}.`,
+      quantity: 1,
+      quality,
+      value: random.nextInt(minValue, maxValue),
+    });
+  }
+
+  return items;
+}
+
+function generateValuables(tier: Tier, profile: DropProfile, random: SeededRandom): LootItem[] {
+  const { chance, count } = profile.materials;
+  if (random.next() >= chance) {
+    return [];
+  }
+
+  const [minValue, maxValue] = VALUABLE_VALUE[tier];
+  return random
+    .shuffle(VALUABLES[tier])
+    .slice(0, count)
+    .map((name) => ({
+      name,
+      category: LootCategory.VALUABLE,
+      description: `An art object worth ${minValue}-${maxValue} gold to the right buyer.`,
+      value: random.nextInt(minValue, maxValue),
+    }));
+}
+
+function generateEquipment(
+  tier: Tier,
+  profile: DropProfile,
+  element: string | undefined,
+  random: SeededRandom
+): LootItem[] {
+  const { chance, minTier } = profile.equipment;
+  if (random.next() >= chance) {
+    return [];
+  }
+
+  const equipmentTier = Math.max(tier, minTier) as Tier;
+  const quality = EQUIPMENT_QUALITY_BY_TIER[equipmentTier];
+  const base = random.pick(EQUIPMENT_BASES);
+  const bonus = equipmentTier - 1;
+  const property =
+    equipmentTier === Tier.ONE
+      ? 'Well-made but mundane.'
+      : `+${bonus}; ${(element && ELEMENTAL_PROPERTIES[element]) || random.pick(EQUIPMENT_PROPERTIES)}.`;
+
+  return [
+    {
+      name: `${quality} ${base}`,
+      category: LootCategory.EQUIPMENT,
+      description: property,
+      value: EQUIPMENT_VALUE[equipmentTier],
+    },
+  ];
+}
+
+function generateUnique(tier: Tier, profile: DropProfile, source: string, random: SeededRandom): LootItem[] {
+  if (random.next() >= profile.uniqueChance) {
+    return [];
+  }
+
+  const unique = random.pick(UNIQUE_ITEMS);
+  return [
+    {
+      name: unique.name,
+      category: LootCategory.UNIQUE,
+      description: `A ${unique.type} carried by ${source}, unmistakable to anyone who has seen it before.`,
+      value: UNIQUE_VALUE[tier],
+      plotHook: random.pick(PLOT_HOOKS).replace('{source}', source),
+    },
+  ];
+}
+
+// ============================================================================
+// MAIN GENERATOR FUNCTION
+// ============================================================================
+
+/**
+ * Generates loot dropped by a defeated adversary.
+ *
+ * The adversary type picks the drop table (Minion, Standard,
+ * Bruiser/Leader, or Solo), the tier scales currency and quality, and
+ * the creature type decides the crafting materials. Dragons yield
+ * color-specific scales and elemental gear; undead yield materials for
+ * their subtype; humanoids carry valuables instead of materials.
+ *
+ * @param adversary - The converted adversary that dropped the loot
+ * @param context - Optional seed and source data (creature type, dragon color, undead subtype)
+ * @returns Loot haul with currency, items, and total value
+ *
+ * @example
+ * ```typescript
+ * const loot = generateLoot(redDragon, { dragonColor: 'red', seed: 42 });
+ * // loot.currency.amount === CurrencyAmount.CHEST
+ * // loot.items includes "Red Dragon Scales"
+ * ```
+ */
+export function generateLoot(adversary: DaggerheartAdversary, context: LootContext = {}): Loot {
+  const random = createSeededRandom(context.seed ?? `${adversary.name}:${adversary.tier}`);
+  const tier = adversary.tier;
+  const profile = DROP_PROFILES[adversary.type];
+  const source = `the ${adversary.name}`;
+
+  const creatureType = resolveCreatureType(adversary, context);
+  const dragonColor = resolveDragonColor(adversary, context);
+  const undeadSubtype = resolveUndeadSubtype(adversary, context);
+  const materialPool = getMaterialPool(creatureType, dragonColor, undeadSubtype);
+  const element =
+    creatureType === CreatureType.DRAGON && dragonColor !== 'unknown'
+      ? getDragonElement(dragonColor)
+      : undefined;
+
+  const currency = generateCurrency(tier, profile, random);
+  const items = [
+    ...generateConsumables(tier, profile, random),
+    ...(materialPool
+      ? generateMaterials(tier, profile, materialPool, source, random)
+      : generateValuables(tier, profile, random)),
+    ...generateEquipment(tier, profile, element, random),
+    ...generateUnique(tier, profile, source, random),
+  ];
+
+  const totalValue = items.reduce(
+    (sum, item) => sum + (item.value ?? 0) * (item.quantity ?? 1),
+    currency.gold
+  );
+
+  const loot: Loot = {
+    source: adversary.name,
+    tier,
+    dropTable: profile.label,
+    currency,
+    items,
+    totalValue,
+  };
+  if (context.note) {
+    loot.note = context.note;
+  }
+  return loot;
+}
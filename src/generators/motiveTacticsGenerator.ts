@@ -720,6 +720,26 @@ export function getTacticsForRole(
   return undefined;
 }
 
+/**
+ * Gets tactical information for an adversary type.
+ * Useful when converting from systems that have no combat role.
+ *
+ * @param type - The adversary type
+ * @returns Object with tactics description and behaviors, or undefined
+ */
+export function getTacticsForAdversaryType(
+  type: AdversaryType
+): { tactics: string; behaviors: string[] } | undefined {
+  const typeTactics = TYPE_TACTICS[type];
+  if (typeTactics) {
+    return {
+      tactics: typeTactics.tactics,
+      behaviors: [...typeTactics.behaviors],
+    };
+  }
+  return undefined;
+}
+
 /**
  * Gets all alignment-based motives.
  * Useful for understanding how alignment affects motivation.
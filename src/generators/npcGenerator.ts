@@ -0,0 +1,503 @@
+/**
+ * NPC Generator
+ *
+ * Generates roleplay-focused NPCs as Social adversaries. Stats are kept
+ * minimal and scaled by tier; the role sets resilience, Experiences, and
+ * motivations, and the tone sets the NPC's attitude toward the PCs. Every
+ * NPC gets a secret, a quirk, and a distinctive appearance. Generation is
+ * deterministic for a given seed.
+ *
+ * @module generators/npcGenerator
+ * @version 1.0.0
+ */
+
+import {
+  AdversaryType,
+  DamageType,
+  Experience,
+  RangeBand,
+  Tier,
+  TIER_DEFAULTS,
+} from '../models/daggerheart';
+import { CreatureType, GoodEvilAxis, LawChaosAxis, Skill } from '../models/dnd5e';
+import {
+  DaggerheartNPC,
+  NPCQuirk,
+  NPCResilience,
+  NPCSecret,
+  NPCTone,
+  SecretStakes,
+  NPC_DIFFICULTY_BY_TIER,
+  NPC_HP_BY_RESILIENCE,
+  NPC_THRESHOLDS_BY_TIER,
+} from '../models/npc';
+import { createSeededRandom, SeededRandom } from '../utils/random';
+import { getTopicsForSkills } from './experienceGenerator';
+import { getAlignmentMotives, getMotivesForCreatureType } from './motiveTacticsGenerator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What drives an NPC day to day.
+ */
+type MotivationCategory = 'survival' | 'ambition' | 'connection' | 'principle';
+
+/**
+ * How well an NPC keeps their nerve, setting Stress.
+ */
+type Composure = 'Nervous' | 'Steady' | 'Composed';
+
+/**
+ * Stat and flavor defaults for a family of occupations.
+ */
+interface RoleProfile {
+  keywords: string[];
+  resilience: NPCResilience;
+  composure: Composure;
+  skills: Skill[];
+  motivation: MotivationCategory;
+  weapon: string;
+}
+
+// ============================================================================
+// ROLE PROFILES
+// ============================================================================
+
+/**
+ * Occupation families, matched by keyword against the requested role.
+ * Earlier profiles win when several match.
+ */
+const ROLE_PROFILES: RoleProfile[] = [
+  {
+    keywords: ['veteran', 'champion', 'warlord', 'knight'],
+    resilience: NPCResilience.TOUGH,
+    composure: 'Composed',
+    skills: [Skill.INTIMIDATION, Skill.PERCEPTION],
+    motivation: 'principle',
+    weapon: 'Longsword',
+  },
+  {
+    keywords: ['guard', 'soldier', 'watch', 'sentry', 'mercenary', 'bodyguard', 'captain'],
+    resilience: NPCResilience.HARDY,
+    composure: 'Steady',
+    skills: [Skill.PERCEPTION, Skill.INTIMIDATION],
+    motivation: 'principle',
+    weapon: 'Spear',
+  },
+  {
+    keywords: ['noble', 'lord', 'lady', 'politician', 'diplomat', 'courtier', 'mayor', 'guild'],
+    resilience: NPCResilience.AVERAGE,
+    composure: 'Composed',
+    skills: [Skill.PERSUASION, Skill.DECEPTION, Skill.HISTORY],
+    motivation: 'ambition',
+    weapon: 'Rapier',
+  },
+  {
+    keywords: ['merchant', 'shopkeeper', 'trader', 'peddler', 'vendor', 'shop'],
+    resilience: NPCResilience.AVERAGE,
+    composure: 'Steady',
+    skills: [Skill.PERSUASION, Skill.INSIGHT],
+    motivation: 'ambition',
+    weapon: 'Cudgel',
+  },
+  {
+    keywords: ['innkeeper', 'tavern', 'barkeep', 'bartender', 'cook'],
+    resilience: NPCResilience.AVERAGE,
+    composure: 'Steady',
+    skills: [Skill.INSIGHT, Skill.PERSUASION],
+    motivation: 'connection',
+    weapon: 'Rolling Pin',
+  },
+  {
+    keywords: ['scholar', 'sage', 'librarian', 'wizard', 'alchemist', 'scribe', 'teacher'],
+    resilience: NPCResilience.FRAIL,
+    composure: 'Nervous',
+    skills: [Skill.HISTORY, Skill.ARCANA, Skill.INVESTIGATION],
+    motivation: 'ambition',
+    weapon: 'Walking Stick',
+  },
+  {
+    keywords: ['priest', 'cleric', 'acolyte', 'monk', 'healer', 'oracle'],
+    resilience: NPCResilience.AVERAGE,
+    composure: 'Composed',
+    skills: [Skill.RELIGION, Skill.MEDICINE, Skill.INSIGHT],
+    motivation: 'principle',
+    weapon: 'Mace',
+  },
+  {
+    keywords: ['thief', 'smuggler', 'informant', 'spy', 'fence', 'thug', 'criminal', 'assassin'],
+    resilience: NPCResilience.AVERAGE,
+    composure: 'Steady',
+    skills: [Skill.DECEPTION, Skill.STEALTH, Skill.SLEIGHT_OF_HAND],
+    motivation: 'survival',
+    weapon: 'Dagger',
+  },
+  {
+    keywords: ['smith', 'carpenter', 'mason', 'tailor', 'craft', 'artisan', 'miner', 'laborer'],
+    resilience: NPCResilience.HARDY,
+    composure: 'Steady',
+    skills: [Skill.ATHLETICS, Skill.PERSUASION],
+    motivation: 'ambition',
+    weapon: 'Hammer',
+  },
+  {
+    keywords: ['bard', 'minstrel', 'performer', 'actor', 'musician', 'entertainer'],
+    resilience: NPCResilience.AVERAGE,
+    composure: 'Steady',
+    skills: [Skill.PERFORMANCE, Skill.PERSUASION, Skill.DECEPTION],
+    motivation: 'connection',
+    weapon: 'Dagger',
+  },
+  {
+    keywords: ['hunter', 'ranger', 'guide', 'trapper', 'farmer', 'herder', 'fisher'],
+    resilience: NPCResilience.HARDY,
+    composure: 'Steady',
+    skills: [Skill.SURVIVAL, Skill.NATURE, Skill.ANIMAL_HANDLING],
+    motivation: 'survival',
+    weapon: 'Hunting Knife',
+  },
+];
+
+/**
+ * Profile for roles that match no occupation family.
+ */
+const DEFAULT_PROFILE: RoleProfile = {
+  keywords: [],
+  resilience: NPCResilience.AVERAGE,
+  composure: 'Steady',
+  skills: [Skill.INSIGHT],
+  motivation: 'survival',
+  weapon: 'Fists',
+};
+
+/**
+ * Stress range by composure.
+ */
+const STRESS_BY_COMPOSURE: Record<Composure, readonly [number, number]> = {
+  Nervous: [1, 1],
+  Steady: [2, 3],
+  Composed: [4, 5],
+};
+
+// ============================================================================
+// ROLEPLAY POOLS
+// ============================================================================
+
+/**
+ * Personal motivations by category.
+ */
+const MOTIVATIONS: Record<MotivationCategory, string[]> = {
+  survival: ['Protect family', 'Earn enough to get by', 'Stay out of danger', 'Find stability'],
+  ambition: ['Rise in standing', 'Build something lasting', 'Learn a coveted secret', 'Gain wealth'],
+  connection: ['Belong to a community', 'Reconnect with someone lost', 'Prove their worth', 'Find companionship'],
+  principle: ['Uphold honor', 'Preserve tradition', 'Right a past wrong', 'Spread their faith'],
+};
+
+/**
+ * Secrets by stakes.
+ */
+const SECRETS: Record<SecretStakes, string[]> = {
+  [SecretStakes.MUNDANE]: [
+    'Cheats at cards every chance they get.',
+    'Is secretly terrible at their job and relies on an assistant.',
+    'Pretends to be far more successful than they are.',
+    'Owes money to half the people in town.',
+    'Has an embarrassing hobby they would never admit to.',
+  ],
+  [SecretStakes.PERSONAL]: [
+    'Has a child no one knows about.',
+    'Witnessed a crime and said nothing.',
+    'Is planning to leave their employer for a rival.',
+    'Knows where something valuable is hidden.',
+    'Is in a secret relationship with someone forbidden to them.',
+  ],
+  [SecretStakes.DANGEROUS]: [
+    'Is an informant for a rival faction.',
+    'Committed a murder years ago that someone else was hanged for.',
+    'Is hiding their true identity from everyone around them.',
+    'Is being blackmailed by someone powerful.',
+    'Owes a dangerous debt to something that is not human.',
+  ],
+};
+
+/**
+ * How an NPC reacts when their secret is discovered, by tone.
+ */
+const DISCOVERY_REACTIONS: Record<NPCTone, string> = {
+  [NPCTone.FRIENDLY]: 'They confess and beg the PCs to keep quiet, offering a favor in return.',
+  [NPCTone.NEUTRAL]: 'They deny it, then offer a bribe or a favor for silence.',
+  [NPCTone.SUSPICIOUS]: 'They turn cold and start looking for leverage over the PCs.',
+  [NPCTone.HOSTILE]: 'They try to silence the PCs with threats, allies, or violence.',
+};
+
+/**
+ * How an NPC first treats strangers, by tone.
+ */
+const ATTITUDES: Record<NPCTone, string> = {
+  [NPCTone.FRIENDLY]: 'Warm and eager to help, sometimes more than is wise.',
+  [NPCTone.NEUTRAL]: 'Polite but businesslike until the PCs prove useful.',
+  [NPCTone.SUSPICIOUS]: 'Guarded and curt, assuming the PCs want something.',
+  [NPCTone.HOSTILE]: 'Openly unwelcoming and looking for a reason to be rid of the PCs.',
+};
+
+/**
+ * Quirks by category.
+ */
+const QUIRKS: Record<string, string[]> = {
+  'Speech Pattern': [
+    'Always answers a question with another question.',
+    'Uses overly formal language for everything.',
+    'Refers to themself in the third person.',
+    'Speaks in strange, overwrought metaphors.',
+  ],
+  'Physical Mannerism': [
+    'Constantly fidgets with a worn coin.',
+    'Never makes eye contact.',
+    'Punctuates every sentence with a nervous laugh.',
+    'Is always eating something.',
+  ],
+  Behavior: [
+    'Is pathologically honest, even when it hurts.',
+    'Collects buttons and asks strangers for theirs.',
+    'Haggles over everything, even gifts.',
+    'Gives unsolicited advice to anyone nearby.',
+  ],
+  Outlook: [
+    'Is convinced the world will end before winter.',
+    'Believes they are destined for greatness.',
+    'Is relentlessly optimistic despite everything.',
+    'Is nostalgic for "the old days" no one else remembers.',
+  ],
+};
+
+const ANCESTRIES = [
+  'Human', 'Elf', 'Dwarf', 'Halfling', 'Faun', 'Firbolg', 'Fungril',
+  'Galapa', 'Goblin', 'Katari', 'Ribbet', 'Simiah', 'Drakona',
+];
+
+const AGES = ['Young', 'Adult', 'Adult', 'Middle-aged', 'Elderly'];
+
+const BUILDS = ['wiry', 'stocky', 'towering', 'slight', 'broad-shouldered', 'stooped'];
+
+const FEATURES = [
+  'a burn scar across one cheek',
+  'ink-stained fingers',
+  'a patched and oversized coat',
+  'a gap-toothed grin',
+  'a voice far deeper than expected',
+  'eyes that never stop moving',
+  'a carefully braided beard',
+  'a limp they refuse to acknowledge',
+  'jewelry worth more than everything else they own',
+  'a faded military tattoo',
+];
+
+const FIRST_NAMES = [
+  'Brick', 'Solder', 'Needle', 'Thimble', 'Ratchet', 'Tumble', 'Clinch', 'Rummage',
+  'Crinkle', 'Velvet', 'Hum', 'Barley', 'Juniper', 'Brine', 'Marrow', 'Tallow',
+  'Dusk', 'Squall', 'Vennick', 'Thrask', 'Quillem', 'Brindel', 'Yoruvo', 'Zubric',
+];
+
+const SURNAMES = [
+  'Saltpan', 'Ironweed', 'Dusthollow', 'Kettleblack', 'Waxworth', 'Tumbledown',
+  'Gravel', 'Cupboard', 'Gloam', 'Scarn', 'Drizzle', 'Thorne',
+];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds the occupation family for a role.
+ */
+function getRoleProfile(role: string): RoleProfile {
+  const normalized = role.toLowerCase();
+  return (
+    ROLE_PROFILES.find((profile) => profile.keywords.some((k) => normalized.includes(k))) ??
+    DEFAULT_PROFILE
+  );
+}
+
+/**
+ * Title-cases a role for display (e.g. "guild master" -> "Guild Master").
+ */
+function toTitleCase(text: string): string {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+/**
+ * Gets motives that match an NPC's tone, from the alignment motive pools.
+ */
+function getToneMotives(tone: NPCTone): string[] {
+  const { goodEvil, lawChaos } = getAlignmentMotives();
+  switch (tone) {
+    case NPCTone.FRIENDLY:
+      return goodEvil[GoodEvilAxis.GOOD];
+    case NPCTone.SUSPICIOUS:
+      return lawChaos[LawChaosAxis.NEUTRAL];
+    case NPCTone.HOSTILE:
+      return goodEvil[GoodEvilAxis.EVIL];
+    default:
+      return goodEvil[GoodEvilAxis.NEUTRAL];
+  }
+}
+
+/**
+ * Picks how much is at stake in the secret. Higher tiers and hostile
+ * NPCs tend toward more dangerous secrets.
+ */
+function pickSecretStakes(tier: Tier, tone: NPCTone, random: SeededRandom): SecretStakes {
+  const roll = random.nextInt(1, 6) + (tier - 1) + (tone === NPCTone.HOSTILE ? 2 : 0);
+  if (roll <= 3) return SecretStakes.MUNDANE;
+  if (roll <= 5) return SecretStakes.PERSONAL;
+  return SecretStakes.DANGEROUS;
+}
+
+/**
+ * Builds the NPC's secret.
+ */
+function generateSecret(tier: Tier, tone: NPCTone, random: SeededRandom): NPCSecret {
+  const stakes = pickSecretStakes(tier, tone, random);
+  return {
+    stakes,
+    description: random.pick(SECRETS[stakes]),
+    ifDiscovered: DISCOVERY_REACTIONS[tone],
+  };
+}
+
+/**
+ * Builds the NPC's quirk.
+ */
+function generateQuirk(random: SeededRandom): NPCQuirk {
+  const name = random.pick(Object.keys(QUIRKS));
+  return { name, description: random.pick(QUIRKS[name] ?? []) };
+}
+
+/**
+ * Builds Experiences: the occupation itself plus social and trade skills.
+ */
+function generateNPCExperience(occupation: string, profile: RoleProfile, tier: Tier): Experience[] {
+  const experience: Experience[] = [{ topic: occupation, bonus: tier >= Tier.THREE ? 3 : 2 }];
+
+  for (const topic of getTopicsForSkills(profile.skills).slice(0, 2)) {
+    if (topic !== occupation) {
+      experience.push({ topic, bonus: tier >= Tier.TWO ? 2 : 1 });
+    }
+  }
+
+  return experience;
+}
+
+// ============================================================================
+// MAIN GENERATOR FUNCTION
+// ============================================================================
+
+/**
+ * Creates a roleplay-focused NPC as a Social adversary.
+ *
+ * The role is matched against occupation families (merchant, guard,
+ * noble, scholar, etc.) to set resilience, Stress, Experiences, and
+ * motivations. Difficulty and thresholds scale with tier. The tone sets
+ * the NPC's attitude, an alignment-flavored motive, and how they react
+ * if their secret is discovered.
+ *
+ * @param role - Occupation (e.g. "blacksmith", "guild master")
+ * @param tier - Tier for scaling Difficulty and thresholds. Default: Tier 1
+ * @param tone - Starting attitude toward the PCs. Default: Neutral
+ * @param seed - Seed for deterministic generation. Default: derived from the other arguments
+ * @returns Social adversary with NPC details
+ * @throws Error if role is empty
+ *
+ * @example
+ * ```typescript
+ * const smith = createNPC('blacksmith', Tier.TWO, NPCTone.SUSPICIOUS, 'market-day');
+ * console.log(smith.name);              // e.g. "Solder Kettleblack"
+ * console.log(smith.evasion);           // 13-15
+ * console.log(smith.npc.secret.stakes); // e.g. "Personal"
+ * ```
+ */
+export function createNPC(
+  role: string,
+  tier: Tier = Tier.ONE,
+  tone: NPCTone = NPCTone.NEUTRAL,
+  seed: number | string = `${role}:${tier}:${tone}`
+): DaggerheartNPC {
+  if (!role || role.trim() === '') {
+    throw new Error('NPC role is required');
+  }
+
+  const random = createSeededRandom(seed);
+  const profile = getRoleProfile(role);
+  const occupation = toTitleCase(role);
+
+  // === Identity ===
+  const firstName = random.pick(FIRST_NAMES);
+  const surname = random.pick(SURNAMES.filter((name) => name !== firstName));
+  const name = `${firstName} ${surname}`;
+  const ancestry = random.pick(ANCESTRIES);
+  const age = random.pick(AGES);
+
+  // === Stats ===
+  const [minDifficulty, maxDifficulty] = NPC_DIFFICULTY_BY_TIER[tier];
+  const [minHp, maxHp] = NPC_HP_BY_RESILIENCE[profile.resilience];
+  const [minStress, maxStress] = STRESS_BY_COMPOSURE[profile.composure];
+  const { major, severe } = NPC_THRESHOLDS_BY_TIER[tier];
+
+  // === Roleplay ===
+  const [featureA, featureB] = random.shuffle(FEATURES);
+  const appearance =
+    `A ${random.pick(BUILDS)} ${ancestry.toLowerCase()} ${occupation.toLowerCase()} ` +
+    `with ${featureA} and ${featureB}.`;
+
+  const motives = [
+    random.pick(MOTIVATIONS[profile.motivation]),
+    random.pick(getToneMotives(tone)),
+    random.pick(getMotivesForCreatureType(CreatureType.HUMANOID)),
+  ].filter((motive, index, all) => all.indexOf(motive) === index);
+
+  const attitude = ATTITUDES[tone];
+
+  return {
+    name,
+    tier,
+    type: AdversaryType.SOCIAL,
+    evasion: random.nextInt(minDifficulty, maxDifficulty),
+    thresholds: { minor: Math.ceil(major / 2), major, severe },
+    hp: random.nextInt(minHp, maxHp),
+    stress: random.nextInt(minStress, maxStress),
+    attack: {
+      name: profile.weapon,
+      modifier: TIER_DEFAULTS[tier].attackModifier.range[0],
+      range: RangeBand.MELEE,
+      damage: { diceCount: 1, diceSize: 4, modifier: tier, damageType: DamageType.PHYSICAL },
+    },
+    features: [],
+    description: {
+      shortDescription: appearance,
+      appearance,
+    },
+    motivesAndTactics: {
+      phrases: motives,
+      expandedDescription: attitude,
+    },
+    experience: generateNPCExperience(occupation, profile, tier),
+    tags: ['npc', occupation.toLowerCase(), `tier-${tier}`, tone.toLowerCase()],
+    npc: {
+      occupation,
+      ancestry,
+      age,
+      tone,
+      resilience: profile.resilience,
+      appearance,
+      secret: generateSecret(tier, tone, random),
+      quirk: generateQuirk(random),
+      attitude,
+    },
+  };
+}
@@ -40,14 +40,25 @@ export {
   convertFromStatBlock,
   convertFromText,
   convertFromNaturalLanguage,
+  convertFromAnyText,
+  convertFromPF2e,
+  convertDocument,
+  convertNaturalLanguageGroup,
 
   // Utility functions
+  detectSourceSystem,
   validateStatBlock,
   analyzeSpecializations,
 
   // Types
   type ConversionOptions,
   type ConversionResult,
+  type SourceSystem,
+  type SourceSystemDetection,
+  type DocumentConversionEntry,
+  type DocumentConversionResult,
+  type GroupConversionEntry,
+  type GroupConversionResult,
 } from './orchestrator';
 
 // ============================================================================
@@ -90,8 +101,34 @@ export type {
   MotivesAndTactics,
   RelentlessFeature,
   HordeFeature,
+  PhaseTwoFeature,
 } from './models/daggerheart';
 
+// Daggerheart Environment Types
+export {
+  EnvironmentType,
+  EnvironmentFeatureCategory,
+  CoverType,
+  ElevationLevel,
+  HazardSeverity,
+} from './models/environment';
+
+export type {
+  DaggerheartEnvironment,
+  EnvironmentFeature,
+  EnvironmentAtmosphere,
+} from './models/environment';
+
+// Daggerheart NPC Types
+export { NPCTone, SecretStakes, NPCResilience } from './models/npc';
+
+export type { DaggerheartNPC, NPCDetails, NPCSecret, NPCQuirk } from './models/npc';
+
+// Daggerheart Loot Types
+export { LootCategory, CurrencyAmount, LootQuality } from './models/loot';
+
+export type { Loot, LootItem, LootCurrency } from './models/loot';
+
 // ============================================================================
 // INDIVIDUAL CONVERTERS (for advanced usage)
 // ============================================================================
@@ -115,21 +152,35 @@ export { convertAllFeatures, type ConvertedFeature } from './converters/featureC
 // SPECIALIZED CONVERTERS
 // ============================================================================
 
-// Multiattack and Legendary
+// Multiattack, Legendary and Mythic
 export {
   hasMultiattack,
   hasLegendaryActions,
+  hasMythicActions,
   convertMultiattackAndLegendary,
+  convertMythicActions,
   type CombinedConversionResult,
+  type MythicConversionResult,
 } from './converters/multiattackConversion';
 
 // Spellcasting
 export {
   isSpellcaster,
   convertSpellcasting,
+  findUnknownSpells,
   type SpellcasterConversionResult,
 } from './converters/spellcasterConversion';
 
+export { lookupSrdSpell, SRD_SPELLS, type SrdSpell } from './converters/srdSpells';
+
+// Pathfinder 2e
+export {
+  convertPF2eToDaggerheart,
+  pf2eLevelToTierPlacement,
+  type PF2eTierPlacement,
+  type PF2eNativeConversionResult,
+} from './converters/pf2eConversion';
+
 // Undead
 export {
   isUndead,
@@ -137,6 +188,28 @@ export {
   type UndeadConversionResult,
 } from './converters/undeadConversion';
 
+// Fiends and Celestials
+export {
+  isFiendOrCelestial,
+  convertFiendOrCelestial,
+  type FiendCelestialConversionResult,
+} from './converters/fiendCelestialConversion';
+
+// Aberrations and Psionics
+export {
+  isAberrationOrPsionic,
+  convertAberration,
+  type AberrationConversionResult,
+} from './converters/aberrationConversion';
+
+// Swarms and Packs
+export {
+  isSwarmOrPack,
+  convertSwarmOrPack,
+  buildHordeFeature,
+  type SwarmPackConversionResult,
+} from './converters/swarmConversion';
+
 // Construct/Ooze
 export {
   isConstructOrOoze,
@@ -144,6 +217,13 @@ export {
   type ConstructOozeResult,
 } from './converters/constructOozeConversion';
 
+// Lair Actions
+export {
+  hasLairActions,
+  convertLairActions,
+  type LairConversionResult,
+} from './converters/lairConversion';
+
 // ============================================================================
 // GENERATORS
 // ============================================================================
@@ -167,6 +247,51 @@ export {
   type DesignNotes,
 } from './generators/designNotesGenerator';
 
+// Environments
+export {
+  createEnvironment,
+  createCoverFeature,
+  createElevationFeature,
+  createHazardFeature,
+  createInteractiveFeature,
+  type EnvironmentOptions,
+  type HazardOptions,
+} from './generators/environmentBuilder';
+
+// NPCs
+export { createNPC } from './generators/npcGenerator';
+
+// Loot
+export { generateLoot, type LootContext } from './generators/lootGenerator';
+
+// ============================================================================
+// ENCOUNTERS
+// ============================================================================
+
+export {
+  buildEncounter,
+  calculateAdversaryCost,
+  summarizeEncounter,
+  generateEncounters,
+  getCombatRole,
+  type EncounterGeneratorOptions,
+  type EncounterProposal,
+} from './encounters';
+
+export {
+  EncounterDifficulty,
+  BATTLE_POINT_COSTS,
+  calculateBaseBattlePoints,
+} from './models/encounter';
+
+export type {
+  Encounter,
+  EncounterGroup,
+  EncounterOptions,
+  BattlePointBudget,
+  BattlePointAdjustment,
+} from './models/encounter';
+
 // ============================================================================
 // FORMATTERS
 // ============================================================================
@@ -175,6 +300,10 @@ export {
   formatAsMarkdown,
   formatMultipleAsMarkdown,
   formatCompact,
+  formatFeatureSection,
+  formatEnvironmentAsMarkdown,
+  formatNPCAsMarkdown,
+  formatLootAsMarkdown,
   type MarkdownFormatOptions,
 } from './formatters/markdownFormatter';
 
@@ -185,12 +314,75 @@ export {
 export {
   parseStatBlock,
   parseStatBlockSafe,
+  detectStatBlockLayout,
   type ParseResult,
+  type StatBlockLayout,
+  type StatBlockParseOptions,
 } from './parsers/statBlockParser';
 
+export {
+  repairOcrText,
+  type OcrRepair,
+  type OcrRepairKind,
+  type OcrRepairResult,
+} from './parsers/ocrRepair';
+
+export {
+  mapResultSpans,
+  type DiagnosticCode,
+  type DiagnosticSeverity,
+  type FieldSpans,
+  type ParseDiagnostic,
+  type SourceSpan,
+} from './parsers/diagnostics';
+
+export {
+  parseDocument,
+  type DocumentBlock,
+  type DocumentLeftover,
+  type DocumentParseResult,
+} from './parsers/documentParser';
+
+export {
+  isHomebreweryMarkdown,
+  homebreweryToText,
+  parseHomebrewery,
+  parseHomebrewerySafe,
+  type HomebreweryText,
+} from './parsers/homebreweryParser';
+
+export {
+  detectMonsterJsonFormat,
+  type ImportResult,
+  type MonsterJsonFormat,
+} from './parsers/jsonImporter';
+
+export {
+  importFiveTools,
+  importFiveToolsMonster,
+  stripFiveToolsTags,
+  type FiveToolsMonster,
+} from './parsers/fiveToolsImporter';
+
+export {
+  importOpen5e,
+  importOpen5eMonster,
+  type Open5eMonster,
+} from './parsers/open5eImporter';
+
+export {
+  importFoundry,
+  importFoundryActor,
+  type FoundryActor,
+} from './parsers/foundryImporter';
+
 export {
   parseNaturalLanguage,
+  parseNaturalLanguageGroup,
   type NLParseResult,
+  type NLGroupMember,
+  type NLGroupParseResult,
+  type NLGroupRole,
 } from './parsers/naturalLanguageParser';
 
 // ============================================================================
@@ -210,4 +402,8 @@ export {
   type ScalingOptions,
   type QuickAdjustment,
   type ScalingResult,
+
+  // Seeded randomness
+  createSeededRandom,
+  type SeededRandom,
 } from './utils';
@@ -324,10 +324,27 @@ export interface HordeFeature {
   startingDamage?: DamageExpression;
   /** Reduced damage dice expression when at half HP or less. */
   reducedDamage?: DamageExpression;
-  /** HP threshold at which damage reduces. */
+  /** HP marked at which damage reduces (half the HP, rounded up). */
   threshold?: number;
 }
 
+/**
+ * Phase change for Solo adversaries with a second HP track.
+ * When the first HP track is cleared, the adversary enters phase two.
+ */
+export interface PhaseTwoFeature {
+  /** Whether this adversary has a second phase. */
+  hasPhaseTwo: boolean;
+  /** Name of the phase change (e.g., the mythic trait name). */
+  name?: string;
+  /** What happens when the phase change triggers. */
+  trigger?: string;
+  /** HP of the second track, restored when phase two begins. */
+  hp?: number;
+  /** Features unlocked in phase two. */
+  features?: Feature[];
+}
+
 /**
  * Movement capabilities and restrictions.
  */
@@ -396,6 +413,8 @@ export interface DaggerheartAdversary {
   relentless?: RelentlessFeature;
   /** Horde mechanics for group adversaries. */
   horde?: HordeFeature;
+  /** Phase two mechanics for phased Solo adversaries. */
+  phaseTwo?: PhaseTwoFeature;
 
   // === Narrative Elements ===
   /** Evocative description of the adversary. */
@@ -810,6 +810,11 @@ export interface DnD5eMonster {
   hitPoints: HitPoints;
   /** Movement speeds. */
   speed: Speed;
+  /** Initiative modifier and score (2024 layout only). */
+  initiative?: {
+    modifier: number;
+    score: number;
+  };
 
   // === Ability Scores ===
   /** All six ability scores. */
@@ -885,6 +890,8 @@ export interface DnD5eMonster {
   sourcePage?: number;
   /** Environment/habitat tags. */
   environments?: string[];
+  /** Gear carried, e.g. "Leather Armor" (2024 layout only). */
+  gear?: string[];
   /** Notes or additional information. */
   notes?: string;
 }
@@ -0,0 +1,168 @@
+/**
+ * Daggerheart Encounter Data Model
+ *
+ * TypeScript interfaces and reference constants for budgeting Daggerheart
+ * combat encounters with Battle Points. The GM starts from a budget of
+ * (3 × party size) + 2, adjusts it for the desired difficulty and the
+ * chosen mix, then spends it on adversaries priced by type.
+ *
+ * @module encounter
+ * @version 1.0.0
+ */
+
+import { AdversaryType, DaggerheartAdversary, Tier } from './daggerheart';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+/**
+ * Desired encounter difficulty, which adjusts the Battle Point budget.
+ */
+export enum EncounterDifficulty {
+  /** Shorter or less dangerous fight (-1 BP). */
+  EASY = 'Easy',
+  /** Standard fight for the party (no adjustment). */
+  MODERATE = 'Moderate',
+  /** More dangerous or longer fight (+2 BP). */
+  HARD = 'Hard',
+}
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Options for building an encounter.
+ */
+export interface EncounterOptions {
+  /** Adversary attacks deal +1d4 damage (-2 BP). Default: false */
+  increasedDamage?: boolean;
+}
+
+/**
+ * A single adjustment applied to the base Battle Point budget.
+ */
+export interface BattlePointAdjustment {
+  /** Why the budget was adjusted. */
+  reason: string;
+  /** Battle Points added (positive) or removed (negative). */
+  amount: number;
+}
+
+/**
+ * Battle Point budget for an encounter.
+ */
+export interface BattlePointBudget {
+  /** Base budget: (3 × party size) + 2. */
+  base: number;
+  /** Adjustments for difficulty and adversary mix. */
+  adjustments: BattlePointAdjustment[];
+  /** Final budget after adjustments. */
+  total: number;
+}
+
+/**
+ * A group of identical adversaries in an encounter.
+ */
+export interface EncounterGroup {
+  /** The adversary stat block. */
+  adversary: DaggerheartAdversary;
+  /** Number of copies in the encounter. */
+  quantity: number;
+  /** Total Battle Point cost for the group. */
+  cost: number;
+}
+
+/**
+ * A budgeted Daggerheart combat encounter.
+ */
+export interface Encounter {
+  /** Number of player characters. */
+  partySize: number;
+  /** Tier of the party. */
+  tier: Tier;
+  /** Desired encounter difficulty. */
+  difficulty: EncounterDifficulty;
+  /** Adversaries grouped by stat block. */
+  groups: EncounterGroup[];
+  /** Battle Point budget. */
+  budget: BattlePointBudget;
+  /** Battle Points spent on adversaries. */
+  spent: number;
+  /** Battle Points left to spend (negative when over budget). */
+  remaining: number;
+  /** Whether the adversaries cost more than the budget. */
+  isOverBudget: boolean;
+  /** Problems with the budget or the adversary mix. */
+  warnings: string[];
+}
+
+// ============================================================================
+// BATTLE POINT REFERENCE (Reference Constants)
+// ============================================================================
+
+/**
+ * Battle Point cost per adversary by type.
+ *
+ * Minions cost 1 BP per group, where a group is as many Minions
+ * as there are PCs. Swarms are priced as Hordes.
+ */
+export const BATTLE_POINT_COSTS: Record<AdversaryType, number> = {
+  [AdversaryType.MINION]: 1,
+  [AdversaryType.SOCIAL]: 1,
+  [AdversaryType.SUPPORT]: 1,
+  [AdversaryType.HORDE]: 2,
+  [AdversaryType.SWARM]: 2,
+  [AdversaryType.RANGED]: 2,
+  [AdversaryType.SKULK]: 2,
+  [AdversaryType.STANDARD]: 2,
+  [AdversaryType.LEADER]: 3,
+  [AdversaryType.BRUISER]: 4,
+  [AdversaryType.SOLO]: 5,
+};
+
+/**
+ * Battle Point budget adjustment by encounter difficulty.
+ */
+export const DIFFICULTY_BATTLE_POINT_MODIFIERS: Record<EncounterDifficulty, number> = {
+  [EncounterDifficulty.EASY]: -1,
+  [EncounterDifficulty.MODERATE]: 0,
+  [EncounterDifficulty.HARD]: 2,
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Calculates the base Battle Point budget for a party.
+ *
+ * @param partySize - Number of player characters
+ * @returns Base budget: (3 × party size) + 2
+ *
+ * @example
+ * ```typescript
+ * calculateBaseBattlePoints(4); // 14
+ * ```
+ */
+export function calculateBaseBattlePoints(partySize: number): number {
+  return 3 * partySize + 2;
+}
+
+// ============================================================================
+// TYPE GUARDS
+// ============================================================================
+
+/**
+ * Type guard to check if a value is a valid EncounterDifficulty.
+ */
+export function isEncounterDifficulty(value: unknown): value is EncounterDifficulty {
+  return Object.values(EncounterDifficulty).includes(value as EncounterDifficulty);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default Encounter;
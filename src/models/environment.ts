@@ -0,0 +1,237 @@
+/**
+ * Daggerheart Environment Data Model
+ *
+ * TypeScript interfaces, enums, and reference constants for Daggerheart
+ * environment stat blocks. Environments have no HP, Stress, thresholds,
+ * or attacks; they are defined by a tier, type, Difficulty, impulses,
+ * potential adversaries, and features the GM activates with Fear.
+ *
+ * @module environment
+ * @version 1.0.0
+ */
+
+import { Feature, Tier, isTier } from './daggerheart';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+/**
+ * Environment type, describing what kind of scene the environment drives.
+ */
+export enum EnvironmentType {
+  /** Places to explore and investigate. */
+  EXPLORATION = 'Exploration',
+  /** Interaction and roleplay, e.g. a grand feast. */
+  SOCIAL = 'Social',
+  /** Navigation through dangerous terrain, e.g. a crystal wasteland. */
+  TRAVERSAL = 'Traversal',
+  /** Timed scenarios, e.g. a heist or a chase. */
+  EVENT = 'Event',
+}
+
+/**
+ * Category of an environment feature, matching the components of an environment.
+ */
+export enum EnvironmentFeatureCategory {
+  /** Cover, elevation, difficult or special terrain. */
+  TERRAIN = 'Terrain',
+  /** Damage zones, traps, and ongoing environmental effects. */
+  HAZARD = 'Hazard',
+  /** Objects and mechanisms the PCs or adversaries can use. */
+  INTERACTIVE = 'Interactive',
+  /** Lighting, weather, and other conditions. */
+  ATMOSPHERE = 'Atmosphere',
+}
+
+/**
+ * Cover provided by a terrain feature.
+ */
+export enum CoverType {
+  /** +2 Evasion against ranged attacks. */
+  LIGHT = 'Light',
+  /** +4 Evasion against ranged attacks. */
+  HEAVY = 'Heavy',
+  /** Cannot be targeted by ranged attacks. */
+  TOTAL = 'Total',
+}
+
+/**
+ * Elevation of a terrain feature above the surrounding ground.
+ */
+export enum ElevationLevel {
+  /** About 5 feet up. */
+  SLIGHT = 'Slight',
+  /** About 10-15 feet up. */
+  MODERATE = 'Moderate',
+  /** 20 feet or more up. */
+  HIGH = 'High',
+}
+
+/**
+ * Severity of a hazard, setting its damage and Reaction Roll difficulty.
+ */
+export enum HazardSeverity {
+  MINOR = 'Minor',
+  MODERATE = 'Moderate',
+  MAJOR = 'Major',
+  SEVERE = 'Severe',
+}
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * A feature of an environment.
+ *
+ * Extends the adversary feature with the environment component it
+ * belongs to and the GM prompting questions printed in italics.
+ */
+export interface EnvironmentFeature extends Feature {
+  /** Environment component the feature belongs to. */
+  category?: EnvironmentFeatureCategory;
+  /** GM prompting questions (e.g. "What does it feel like?"). */
+  questions?: string[];
+  /** Cover provided, for terrain features. */
+  cover?: CoverType;
+  /** Elevation provided, for terrain features. */
+  elevation?: ElevationLevel;
+  /** Severity, for hazard features. */
+  hazardSeverity?: HazardSeverity;
+}
+
+/**
+ * Sensory and weather conditions of an environment.
+ */
+export interface EnvironmentAtmosphere {
+  /** Lighting condition (e.g. "Dim: disadvantage on far perception"). */
+  lighting?: string;
+  /** Weather or ongoing conditions. */
+  weather?: string;
+  /** Ambient sounds, smells, and other sensory details. */
+  senses?: string[];
+}
+
+/**
+ * Complete Daggerheart environment stat block.
+ */
+export interface DaggerheartEnvironment {
+  // === Identity ===
+  /** Unique identifier for this environment. */
+  id?: string;
+  /** Name of the environment. */
+  name: string;
+  /** Power level (1-4). */
+  tier: Tier;
+  /** Kind of scene the environment drives. */
+  type: EnvironmentType;
+  /** Evocative one-line description. */
+  description: string;
+
+  // === Statistics ===
+  /** Target number for rolls against the environment. */
+  difficulty: number;
+  /** What the environment "wants" to do (short verb phrases). */
+  impulses: string[];
+  /** Adversaries that fit the environment, by name. */
+  potentialAdversaries: string[];
+
+  // === Features ===
+  /** Terrain, hazard, interactive, and atmosphere features. */
+  features: EnvironmentFeature[];
+  /** Lighting, weather, and sensory details. */
+  atmosphere?: EnvironmentAtmosphere;
+
+  // === Metadata ===
+  /** Tags for categorization. */
+  tags?: string[];
+  /** Source system if converted (e.g., "D&D 5e"). */
+  sourceSystem?: string;
+  /** Date created/modified. */
+  createdAt?: Date;
+  /** Version of this stat block. */
+  version?: string;
+}
+
+// ============================================================================
+// ENVIRONMENT REFERENCE (Reference Constants)
+// ============================================================================
+
+/**
+ * Environment Difficulty by tier.
+ */
+export const ENVIRONMENT_DIFFICULTY_BY_TIER: Record<
+  Tier,
+  { default: number; range: readonly [number, number] }
+> = {
+  [Tier.ONE]: { default: 11, range: [10, 12] },
+  [Tier.TWO]: { default: 14, range: [13, 15] },
+  [Tier.THREE]: { default: 17, range: [16, 18] },
+  [Tier.FOUR]: { default: 20, range: [19, 22] },
+};
+
+/**
+ * Damage dice (d6) and Reaction Roll difficulty by hazard severity.
+ */
+export const HAZARD_SEVERITY_STATS: Record<
+  HazardSeverity,
+  { diceCount: number; difficulty: readonly [number, number] }
+> = {
+  [HazardSeverity.MINOR]: { diceCount: 1, difficulty: [10, 12] },
+  [HazardSeverity.MODERATE]: { diceCount: 2, difficulty: [13, 15] },
+  [HazardSeverity.MAJOR]: { diceCount: 3, difficulty: [16, 18] },
+  [HazardSeverity.SEVERE]: { diceCount: 4, difficulty: [19, 22] },
+};
+
+/**
+ * Rules text for each kind of cover.
+ */
+export const COVER_EFFECTS: Record<CoverType, string> = {
+  [CoverType.LIGHT]: '+2 Evasion against ranged attacks',
+  [CoverType.HEAVY]: '+4 Evasion against ranged attacks',
+  [CoverType.TOTAL]: 'Cannot be targeted by ranged attacks',
+};
+
+/**
+ * Rules text for each elevation level.
+ */
+export const ELEVATION_EFFECTS: Record<ElevationLevel, string> = {
+  [ElevationLevel.SLIGHT]: '+1 to ranged attacks from above',
+  [ElevationLevel.MODERATE]: '+2 to ranged attacks from above; falling deals 1d6 damage',
+  [ElevationLevel.HIGH]: '+3 to ranged attacks from above; falling deals 2d6 damage',
+};
+
+// ============================================================================
+// TYPE GUARDS
+// ============================================================================
+
+/**
+ * Type guard to check if a value is a valid EnvironmentType.
+ */
+export function isEnvironmentType(value: unknown): value is EnvironmentType {
+  return Object.values(EnvironmentType).includes(value as EnvironmentType);
+}
+
+/**
+ * Type guard to check if an object is a DaggerheartEnvironment.
+ */
+export function isDaggerheartEnvironment(obj: unknown): obj is DaggerheartEnvironment {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const e = obj as Record<string, unknown>;
+  return (
+    typeof e.name === 'string' &&
+    isTier(e.tier) &&
+    isEnvironmentType(e.type) &&
+    typeof e.difficulty === 'number' &&
+    Array.isArray(e.impulses) &&
+    Array.isArray(e.potentialAdversaries) &&
+    Array.isArray(e.features)
+  );
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default DaggerheartEnvironment;
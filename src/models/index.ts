@@ -14,3 +14,18 @@ export { default as OSRStatBlock } from './osr';
 
 export * from './pf2e';
 export { default as PF2eStatBlock } from './pf2e';
+
+export * from './numenera';
+export { default as NumeneraStatBlock } from './numenera';
+
+export * from './encounter';
+export { default as Encounter } from './encounter';
+
+export * from './environment';
+export { default as DaggerheartEnvironment } from './environment';
+
+export * from './npc';
+export { default as DaggerheartNPC } from './npc';
+
+export * from './loot';
+export { default as Loot } from './loot';
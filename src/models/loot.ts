@@ -0,0 +1,176 @@
+/**
+ * Daggerheart Loot Data Model
+ *
+ * TypeScript interfaces and reference constants for treasure dropped by
+ * defeated adversaries: tiered currency (handfuls, bags, and chests),
+ * consumables, equipment, crafting materials, valuables, and unique
+ * items with plot hooks.
+ *
+ * @module loot
+ * @version 1.0.0
+ */
+
+import { Tier } from './daggerheart';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+/**
+ * Kinds of items that can appear in a loot haul.
+ */
+export enum LootCategory {
+  CONSUMABLE = 'Consumable',
+  EQUIPMENT = 'Equipment',
+  MATERIAL = 'Material',
+  VALUABLE = 'Valuable',
+  UNIQUE = 'Unique',
+}
+
+/**
+ * Size of a currency drop.
+ */
+export enum CurrencyAmount {
+  /** Pocket change from minions. */
+  HANDFUL = 'Handful',
+  /** Standard and elite adversary drops. */
+  BAG = 'Bag',
+  /** Solo adversaries and hoards. */
+  CHEST = 'Chest',
+}
+
+/**
+ * Quality grade of crafting materials and equipment.
+ */
+export enum LootQuality {
+  COMMON = 'Common',
+  QUALITY = 'Quality',
+  RARE = 'Rare',
+  PRISTINE = 'Pristine',
+}
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Coins and other currency in a loot haul.
+ */
+export interface LootCurrency {
+  /** Size of the drop. */
+  amount: CurrencyAmount;
+  /** Dice rolled for the gold value (e.g. "4d6"). */
+  dice: string;
+  /** Rolled gold value. */
+  gold: number;
+  /** Flavor text describing the coins. */
+  description: string;
+}
+
+/**
+ * A single item in a loot haul.
+ */
+export interface LootItem {
+  /** Item name. */
+  name: string;
+  /** Kind of item. */
+  category: LootCategory;
+  /** What the item looks like or does. */
+  description: string;
+  /** Number of identical items. Default: 1 */
+  quantity?: number;
+  /** Quality grade for materials and equipment. */
+  quality?: LootQuality;
+  /** Approximate value in gold. */
+  value?: number;
+  /** Why the item might matter beyond its function (unique items). */
+  plotHook?: string;
+}
+
+/**
+ * Complete loot haul dropped by an adversary.
+ */
+export interface Loot {
+  /** Name of the adversary that dropped the loot. */
+  source: string;
+  /** Tier the loot is scaled to. */
+  tier: Tier;
+  /** Drop table used ("Minion", "Standard", "Elite", or "Solo"). */
+  dropTable: string;
+  /** Coins and currency. */
+  currency: LootCurrency;
+  /** Consumables, equipment, materials, valuables, and unique items. */
+  items: LootItem[];
+  /** Approximate total value in gold. */
+  totalValue: number;
+  /** Note from the source stat block, such as an OSR treasure type. */
+  note?: string;
+}
+
+// ============================================================================
+// LOOT REFERENCE (Reference Constants)
+// ============================================================================
+
+/**
+ * Number of d6 rolled for gold, by tier and drop size.
+ */
+export const CURRENCY_DICE_BY_TIER: Record<Tier, Record<CurrencyAmount, number>> = {
+  [Tier.ONE]: { [CurrencyAmount.HANDFUL]: 2, [CurrencyAmount.BAG]: 4, [CurrencyAmount.CHEST]: 10 },
+  [Tier.TWO]: { [CurrencyAmount.HANDFUL]: 4, [CurrencyAmount.BAG]: 8, [CurrencyAmount.CHEST]: 20 },
+  [Tier.THREE]: { [CurrencyAmount.HANDFUL]: 6, [CurrencyAmount.BAG]: 12, [CurrencyAmount.CHEST]: 40 },
+  [Tier.FOUR]: { [CurrencyAmount.HANDFUL]: 10, [CurrencyAmount.BAG]: 20, [CurrencyAmount.CHEST]: 100 },
+};
+
+/**
+ * Crafting material quality by tier.
+ */
+export const MATERIAL_QUALITY_BY_TIER: Record<Tier, LootQuality> = {
+  [Tier.ONE]: LootQuality.COMMON,
+  [Tier.TWO]: LootQuality.QUALITY,
+  [Tier.THREE]: LootQuality.RARE,
+  [Tier.FOUR]: LootQuality.PRISTINE,
+};
+
+/**
+ * Gold value range of a crafting material by quality.
+ */
+export const MATERIAL_VALUE_BY_QUALITY: Record<LootQuality, readonly [number, number]> = {
+  [LootQuality.COMMON]: [5, 15],
+  [LootQuality.QUALITY]: [20, 50],
+  [LootQuality.RARE]: [75, 200],
+  [LootQuality.PRISTINE]: [300, 500],
+};
+
+/**
+ * Equipment quality name by tier.
+ */
+export const EQUIPMENT_QUALITY_BY_TIER: Record<Tier, string> = {
+  [Tier.ONE]: 'Serviceable',
+  [Tier.TWO]: 'Fine',
+  [Tier.THREE]: 'Exceptional',
+  [Tier.FOUR]: 'Legendary',
+};
+
+// ============================================================================
+// TYPE GUARDS
+// ============================================================================
+
+/**
+ * Type guard to check if a value is a valid LootCategory.
+ */
+export function isLootCategory(value: unknown): value is LootCategory {
+  return Object.values(LootCategory).includes(value as LootCategory);
+}
+
+/**
+ * Type guard to check if a value is a valid CurrencyAmount.
+ */
+export function isCurrencyAmount(value: unknown): value is CurrencyAmount {
+  return Object.values(CurrencyAmount).includes(value as CurrencyAmount);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default Loot;
@@ -0,0 +1,170 @@
+/**
+ * Daggerheart NPC Data Model
+ *
+ * TypeScript interfaces and reference constants for roleplay-focused
+ * NPCs. An NPC is a Social adversary with a simplified stat block plus
+ * the roleplay hooks that make it memorable: motivations, a secret,
+ * a quirk, and a distinctive appearance.
+ *
+ * @module npc
+ * @version 1.0.0
+ */
+
+import { DaggerheartAdversary, Tier } from './daggerheart';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+/**
+ * Attitude an NPC starts with toward the PCs.
+ */
+export enum NPCTone {
+  FRIENDLY = 'Friendly',
+  NEUTRAL = 'Neutral',
+  SUSPICIOUS = 'Suspicious',
+  HOSTILE = 'Hostile',
+}
+
+/**
+ * How much is at stake if an NPC's secret comes out.
+ */
+export enum SecretStakes {
+  /** Embarrassing but harmless. */
+  MUNDANE = 'Mundane',
+  /** Could ruin a relationship or livelihood. */
+  PERSONAL = 'Personal',
+  /** Could get someone killed or topple someone powerful. */
+  DANGEROUS = 'Dangerous',
+}
+
+/**
+ * How much punishment an NPC can take, setting its HP.
+ */
+export enum NPCResilience {
+  /** Children, elderly, scholars. */
+  FRAIL = 'Frail',
+  /** Most commoners and merchants. */
+  AVERAGE = 'Average',
+  /** Guards, laborers, soldiers. */
+  HARDY = 'Hardy',
+  /** Veterans and bodyguards. */
+  TOUGH = 'Tough',
+}
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Something an NPC is hiding.
+ */
+export interface NPCSecret {
+  /** What is at stake if the secret comes out. */
+  stakes: SecretStakes;
+  /** What the NPC is hiding. */
+  description: string;
+  /** How the NPC reacts if the PCs discover it. */
+  ifDiscovered: string;
+}
+
+/**
+ * A memorable habit or trait for portraying an NPC.
+ */
+export interface NPCQuirk {
+  /** Short name of the quirk. */
+  name: string;
+  /** How the quirk manifests. */
+  description: string;
+}
+
+/**
+ * Roleplay details specific to NPCs.
+ */
+export interface NPCDetails {
+  /** What the NPC does (e.g. "Blacksmith"). */
+  occupation: string;
+  /** Ancestry (e.g. "Dwarf", "Ribbet"). */
+  ancestry: string;
+  /** Age category (e.g. "Young", "Middle-aged"). */
+  age: string;
+  /** Starting attitude toward the PCs. */
+  tone: NPCTone;
+  /** How much punishment the NPC can take. */
+  resilience: NPCResilience;
+  /** One to two sentences on immediately noticeable features. */
+  appearance: string;
+  /** What the NPC is hiding. */
+  secret: NPCSecret;
+  /** A memorable habit or trait. */
+  quirk: NPCQuirk;
+  /** How the NPC first treats strangers. */
+  attitude: string;
+}
+
+/**
+ * A Social adversary with NPC roleplay details.
+ */
+export interface DaggerheartNPC extends DaggerheartAdversary {
+  /** Roleplay details: occupation, secret, quirk, appearance. */
+  npc: NPCDetails;
+}
+
+// ============================================================================
+// NPC REFERENCE (Reference Constants)
+// ============================================================================
+
+/**
+ * NPC Difficulty by tier.
+ */
+export const NPC_DIFFICULTY_BY_TIER: Record<Tier, readonly [number, number]> = {
+  [Tier.ONE]: [10, 12],
+  [Tier.TWO]: [13, 15],
+  [Tier.THREE]: [16, 18],
+  [Tier.FOUR]: [19, 21],
+};
+
+/**
+ * NPC Major and Severe damage thresholds by tier.
+ */
+export const NPC_THRESHOLDS_BY_TIER: Record<Tier, { major: number; severe: number }> = {
+  [Tier.ONE]: { major: 4, severe: 8 },
+  [Tier.TWO]: { major: 6, severe: 12 },
+  [Tier.THREE]: { major: 8, severe: 16 },
+  [Tier.FOUR]: { major: 10, severe: 20 },
+};
+
+/**
+ * NPC HP range by resilience.
+ */
+export const NPC_HP_BY_RESILIENCE: Record<NPCResilience, readonly [number, number]> = {
+  [NPCResilience.FRAIL]: [2, 3],
+  [NPCResilience.AVERAGE]: [4, 6],
+  [NPCResilience.HARDY]: [7, 10],
+  [NPCResilience.TOUGH]: [11, 15],
+};
+
+// ============================================================================
+// TYPE GUARDS
+// ============================================================================
+
+/**
+ * Type guard to check if an adversary carries NPC details.
+ */
+export function isDaggerheartNPC(adversary: DaggerheartAdversary): adversary is DaggerheartNPC {
+  const npc = (adversary as Partial<DaggerheartNPC>).npc;
+  return typeof npc === 'object' && npc !== null && typeof npc.occupation === 'string';
+}
+
+/**
+ * Type guard to check if a value is a valid NPCTone.
+ */
+export function isNPCTone(value: unknown): value is NPCTone {
+  return Object.values(NPCTone).includes(value as NPCTone);
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default DaggerheartNPC;
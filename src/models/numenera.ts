@@ -0,0 +1,272 @@
+/**
+ * Numenera / Cypher System Stat Block Data Model
+ *
+ * TypeScript interfaces for representing Numenera and Cypher System
+ * creature stat blocks. Cypher creatures are defined by a single level
+ * (1-10) that sets their target number, plus Health, Armor and a fixed
+ * damage value, with modifications for tasks they perform at other levels.
+ *
+ * @module numenera
+ * @version 1.0.0
+ */
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+/**
+ * Cypher System range categories used for movement.
+ */
+export enum NumeneraRange {
+  IMMEDIATE = 'Immediate',
+  SHORT = 'Short',
+  LONG = 'Long',
+  VERY_LONG = 'Very Long',
+}
+
+/**
+ * Movement modes a Cypher creature can list alongside its base movement.
+ */
+export enum NumeneraMovementMode {
+  WALK = 'walk',
+  FLY = 'fly',
+  SWIM = 'swim',
+  CLIMB = 'climb',
+  BURROW = 'burrow',
+}
+
+// ============================================================================
+// INTERFACES - Core Components
+// ============================================================================
+
+/**
+ * A single movement entry, e.g. "Short" or "long when flying".
+ */
+export interface NumeneraMovement {
+  /** Movement mode. */
+  mode: NumeneraMovementMode;
+  /** Distance category moved as part of an action. */
+  range: NumeneraRange;
+}
+
+/**
+ * Damage inflicted by a creature's standard attack.
+ *
+ * Cypher damage is a fixed number of points, optionally with extra
+ * points of a special kind (e.g. "4 points + 1 point of heat").
+ */
+export interface NumeneraDamage {
+  /** Points of damage inflicted. */
+  points: number;
+  /** Extra points of special damage, if any. */
+  extraPoints?: number;
+  /** Kind of the extra damage (e.g. "heat", "cold", "electrical"). */
+  extraType?: string;
+  /** Original damage text. */
+  raw: string;
+}
+
+/**
+ * A task the creature performs at a different level than its own.
+ *
+ * Format: "Speed defense as level 4" or "Perception as level 5".
+ */
+export interface NumeneraModification {
+  /** Task description, lowercased (e.g. "speed defense", "perception"). */
+  task: string;
+  /** Effective level for the task (1-10). */
+  level: number;
+}
+
+// ============================================================================
+// MAIN INTERFACE - Numenera Creature
+// ============================================================================
+
+/**
+ * Complete Numenera / Cypher System creature stat block.
+ */
+export interface NumeneraStatBlock {
+  // === Identity ===
+  /** Name of the creature. */
+  name: string;
+  /** Flavor description. */
+  description?: string;
+  /** Motive (e.g. "Hungers for flesh"). */
+  motive?: string;
+  /** Environment where the creature is found. */
+  environment?: string;
+
+  // === Core Statistics ===
+  /** Creature level (1-10). */
+  level: number;
+  /** Target number to hit or resist the creature (level × 3). */
+  targetNumber: number;
+  /** Health (damage the creature can take before dying). */
+  health: number;
+  /** Armor (subtracted from each source of damage). */
+  armor: number;
+  /** Damage inflicted by the creature's standard attack. */
+  damage: NumeneraDamage;
+  /** Movement entries. */
+  movement: NumeneraMovement[];
+  /** Tasks performed at a different level. */
+  modifications: NumeneraModification[];
+
+  // === Narrative Blocks ===
+  /** Combat behavior and special abilities. */
+  combat?: string;
+  /** How the creature can be interacted with. */
+  interaction?: string;
+  /** Adventure hooks. */
+  use?: string;
+  /** What the creature leaves behind. */
+  loot?: string;
+  /** GM intrusions suggested for the creature. */
+  gmIntrusions: string[];
+
+  // === Metadata ===
+  /** Source book or adventure. */
+  source?: string;
+  /** Page number in source. */
+  sourcePage?: number;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Calculates the target number for a creature or task level.
+ *
+ * @param level - Creature or task level (1-10)
+ * @returns Target number (level × 3)
+ *
+ * @example
+ * ```typescript
+ * levelToTargetNumber(3); // 9
+ * ```
+ */
+export function levelToTargetNumber(level: number): number {
+  return Math.max(0, level) * 3;
+}
+
+/**
+ * Parses a Cypher range category.
+ *
+ * @param rangeString - Range text like "short", "Long", "very long"
+ * @returns Parsed range, or undefined if unrecognized
+ */
+export function parseNumeneraRange(rangeString: string): NumeneraRange | undefined {
+  const normalized = rangeString.trim().toLowerCase();
+
+  if (normalized.startsWith('very long')) return NumeneraRange.VERY_LONG;
+  if (normalized.startsWith('immediate')) return NumeneraRange.IMMEDIATE;
+  if (normalized.startsWith('short')) return NumeneraRange.SHORT;
+  if (normalized.startsWith('long')) return NumeneraRange.LONG;
+
+  return undefined;
+}
+
+/**
+ * Parses a damage string to structured format.
+ *
+ * @param damageString - Damage text like "4 points", "4 + 1 heat",
+ *   "5 points + 2 points of cold damage"
+ * @returns Parsed NumeneraDamage object
+ *
+ * @example
+ * ```typescript
+ * parseNumeneraDamage("4 points");    // { points: 4, raw: "4 points" }
+ * parseNumeneraDamage("4 + 1 heat");  // { points: 4, extraPoints: 1, extraType: "heat", raw: "4 + 1 heat" }
+ * ```
+ */
+export function parseNumeneraDamage(damageString: string): NumeneraDamage {
+  const raw = damageString.trim();
+  const baseMatch = raw.match(/(\d+)/);
+  const damage: NumeneraDamage = {
+    points: baseMatch?.[1] ? parseInt(baseMatch[1], 10) : 0,
+    raw,
+  };
+
+  const extraMatch = raw.match(
+    /(?:\+|\bplus\b)\s*(\d+)\s*(?:additional\s+)?(?:points?\s+)?(?:of\s+)?([a-z]+)/i
+  );
+  if (extraMatch?.[1] && extraMatch[2]) {
+    damage.extraPoints = parseInt(extraMatch[1], 10);
+    damage.extraType = extraMatch[2].toLowerCase();
+  }
+
+  return damage;
+}
+
+/**
+ * Parses a modifications string to structured format.
+ *
+ * @param modificationString - Text like "Speed defense as level 4; perception as level 5"
+ * @returns Parsed modifications (unrecognized entries are skipped)
+ *
+ * @example
+ * ```typescript
+ * parseModifications("Speed defense as level 4; perception as level 5");
+ * // [{ task: "speed defense", level: 4 }, { task: "perception", level: 5 }]
+ * ```
+ */
+export function parseModifications(modificationString: string): NumeneraModification[] {
+  const modifications: NumeneraModification[] = [];
+  const pattern = /([^;.]+?)\s+as\s+level\s+(\d+)/gi;
+
+  let match;
+  while ((match = pattern.exec(modificationString)) !== null) {
+    if (!match[1] || !match[2]) continue;
+
+    // A single entry can list several tasks: "Attacks and Speed defense as level 4"
+    const tasks = match[1]
+      .replace(/^\s*(?:and|,)\s*/i, '')
+      .split(/,\s*|\s+and\s+/i)
+      .map((task) => task.trim().toLowerCase())
+      .filter((task) => task.length > 0);
+
+    for (const task of tasks) {
+      modifications.push({ task, level: parseInt(match[2], 10) });
+    }
+  }
+
+  return modifications;
+}
+
+// ============================================================================
+// TYPE GUARDS
+// ============================================================================
+
+/**
+ * Type guard to check if a value is a valid NumeneraRange.
+ */
+export function isNumeneraRange(value: unknown): value is NumeneraRange {
+  return Object.values(NumeneraRange).includes(value as NumeneraRange);
+}
+
+/**
+ * Type guard for minimal Numenera stat block.
+ */
+export function isMinimalNumeneraStatBlock(obj: unknown): obj is Pick<
+  NumeneraStatBlock,
+  'name' | 'level' | 'targetNumber' | 'health' | 'armor' | 'damage' | 'movement'
+> {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const m = obj as Record<string, unknown>;
+  return (
+    typeof m.name === 'string' &&
+    typeof m.level === 'number' &&
+    typeof m.targetNumber === 'number' &&
+    typeof m.health === 'number' &&
+    typeof m.armor === 'number' &&
+    typeof m.damage === 'object' &&
+    Array.isArray(m.movement)
+  );
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default NumeneraStatBlock;
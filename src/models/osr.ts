@@ -208,6 +208,20 @@ export interface OSRStatBlock {
   sourcePage?: number;
 }
 
+/**
+ * Number appearing, parsed from a dice expression.
+ */
+export interface OSRNumberAppearing {
+  /** Original expression (e.g., "2d4"). */
+  raw: string;
+  /** Fewest creatures appearing. */
+  min: number;
+  /** Most creatures appearing. */
+  max: number;
+  /** Average creatures appearing, rounded. */
+  average: number;
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -413,6 +427,45 @@ export function parseMorale(moraleString: string): number {
   return 7; // Default morale
 }
 
+/**
+ * Parse number appearing from a dice expression or plain count.
+ *
+ * @param numberString - Number appearing (e.g., "2d4", "1d6+1", "3")
+ * @returns Parsed range, or undefined if none appear or it can't be read
+ *
+ * @example
+ * ```typescript
+ * parseNumberAppearing("2d4"); // { raw: "2d4", min: 2, max: 8, average: 5 }
+ * parseNumberAppearing("1");   // { raw: "1", min: 1, max: 1, average: 1 }
+ * ```
+ */
+export function parseNumberAppearing(numberString: string): OSRNumberAppearing | undefined {
+  const raw = numberString.trim();
+  const diceMatch = raw.match(/^(\d*)d(\d+)\s*([+-]\s*\d+)?/i);
+
+  let min: number;
+  let max: number;
+  if (diceMatch?.[2]) {
+    const count = parseInt(diceMatch[1] || '1', 10);
+    const size = parseInt(diceMatch[2], 10);
+    const modifier = diceMatch[3] ? parseInt(diceMatch[3].replace(/\s/g, ''), 10) : 0;
+    min = count + modifier;
+    max = count * size + modifier;
+  } else {
+    const countMatch = raw.match(/^(\d+)(?:\s*-\s*(\d+))?/);
+    if (!countMatch?.[1]) {
+      return undefined;
+    }
+    min = parseInt(countMatch[1], 10);
+    max = countMatch[2] ? parseInt(countMatch[2], 10) : min;
+  }
+
+  if (max < 1) {
+    return undefined;
+  }
+  return { raw, min: Math.max(1, min), max, average: Math.round((Math.max(1, min) + max) / 2) };
+}
+
 // ============================================================================
 // TYPE GUARDS
 // ============================================================================
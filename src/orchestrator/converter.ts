@@ -10,6 +10,7 @@
  */
 
 import { DnD5eMonster } from '../models/dnd5e';
+import { PF2eStatBlock } from '../models/pf2e';
 import {
   DaggerheartAdversary,
   Feature,
@@ -21,10 +22,27 @@ import {
   Attack,
   Tier,
 } from '../models/daggerheart';
+import { Loot } from '../models/loot';
 
 // Parsers
 import { parseStatBlockSafe, ParseResult } from '../parsers/statBlockParser';
-import { parseNaturalLanguage, NLParseResult, estimateMissingStats } from '../parsers/naturalLanguageParser';
+import { parseDocument, DocumentLeftover } from '../parsers/documentParser';
+import { isHomebreweryMarkdown, homebreweryToText, parseHomebrewerySafe } from '../parsers/homebreweryParser';
+import {
+  parseNaturalLanguage,
+  parseNaturalLanguageGroup,
+  NLParseResult,
+  NLGroupMember,
+  NLGroupRole,
+  estimateMissingStats,
+} from '../parsers/naturalLanguageParser';
+import { parsePF2eStatBlockSafe, PF2eParseResult } from '../parsers/pf2eParser';
+import { parseOSRStatBlockSafe, OSRParseResult } from '../parsers/osrParser';
+import { parseNumeneraStatBlockSafe, NumeneraParseResult } from '../parsers/numeneraParser';
+
+// Source System Adapters
+import { convertOSRToDnD5e, createGroupFeature, OSRAdjustments } from '../converters/osrAdapter';
+import { convertNumeneraToDnD5e, NumeneraAdjustments } from '../converters/numeneraAdapter';
 
 // Core Converters
 import { crToTier } from '../converters/crToTier';
@@ -32,11 +50,13 @@ import { classifyAdversary, ClassificationResult } from '../converters/classifyA
 import { convertCoreStats, CoreStats } from '../converters/statConversion';
 import { convertAllAttacks } from '../converters/attackConversion';
 import { convertAllFeatures, ConvertedFeature } from '../converters/featureConversion';
+import { convertPF2eToDaggerheart } from '../converters/pf2eConversion';
 
 // Specialized Converters
 import {
   hasMultiattack,
   hasLegendaryActions,
+  hasMythicActions,
   convertMultiattackAndLegendary,
   CombinedConversionResult,
 } from '../converters/multiattackConversion';
@@ -50,6 +70,22 @@ import {
   convertUndead,
   UndeadConversionResult,
 } from '../converters/undeadConversion';
+import {
+  isFiendOrCelestial,
+  convertFiendOrCelestial,
+  FiendCelestialConversionResult,
+} from '../converters/fiendCelestialConversion';
+import {
+  isAberrationOrPsionic,
+  convertAberration,
+  AberrationConversionResult,
+} from '../converters/aberrationConversion';
+import {
+  isSwarmOrPack,
+  convertSwarmOrPack,
+  buildHordeFeature,
+  SwarmPackConversionResult,
+} from '../converters/swarmConversion';
 import {
   isConstructOrOoze,
   convertConstructOrOoze,
@@ -60,6 +96,11 @@ import {
   convertDragon,
   DragonConversionResult,
 } from '../converters/dragonConversion';
+import {
+  hasLairActions,
+  convertLairActions,
+  LairConversionResult,
+} from '../converters/lairConversion';
 
 // Generators
 import { generateExperienceWithBonuses } from '../generators/experienceGenerator';
@@ -69,14 +110,37 @@ import {
   formatDesignNotesAsMarkdown,
   DesignNotes,
 } from '../generators/designNotesGenerator';
+import { generateLoot, LootContext } from '../generators/lootGenerator';
 
 // Formatter
-import { formatAsMarkdown, MarkdownFormatOptions } from '../formatters/markdownFormatter';
+import {
+  formatAsMarkdown,
+  formatFeatureSection,
+  formatLootAsMarkdown,
+  MarkdownFormatOptions,
+} from '../formatters/markdownFormatter';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/**
+ * Source game systems the orchestrator can detect and convert from.
+ */
+export type SourceSystem = 'D&D 5e' | 'Pathfinder 2e' | 'OSR' | 'Numenera';
+
+/**
+ * Result of detecting which game system a text stat block was written for.
+ */
+export interface SourceSystemDetection {
+  /** The most likely source system. */
+  system: SourceSystem;
+  /** Confidence in the detection (0-1). */
+  confidence: number;
+  /** Format indicators that matched for the detected system. */
+  indicators: string[];
+}
+
 /**
  * Options for controlling the conversion process.
  */
@@ -89,6 +153,10 @@ export interface ConversionOptions {
   verboseNotes?: boolean;
   /** Custom markdown formatting options. */
   markdownOptions?: MarkdownFormatOptions;
+  /** Generate thematic loot for the adversary. Default: false */
+  includeLoot?: boolean;
+  /** Repair PDF copy artifacts in D&D 5e text stat blocks before parsing. Default: false */
+  repairOcr?: boolean;
 }
 
 /**
@@ -101,10 +169,79 @@ export interface ConversionResult {
   markdown?: string;
   /** Design notes explaining conversion decisions. */
   designNotes?: DesignNotes;
+  /** Fear-costed environment features from the creature's lair and region. */
+  environmentFeatures?: Feature[];
+  /** Loot dropped by the adversary (if includeLoot is enabled). */
+  loot?: Loot;
+  /** Source system the input was converted from. */
+  sourceSystem?: SourceSystem;
+  /** Source system detection details (only set by convertFromAnyText). */
+  detection?: SourceSystemDetection;
   /** Log of conversion steps and decisions for debugging. */
   conversionLog: string[];
 }
 
+/**
+ * Conversion outcome for one stat block found in a document.
+ */
+export interface DocumentConversionEntry {
+  /** Creature name. */
+  name: string;
+  /** First line of the stat block in the document (1-based). */
+  startLine: number;
+  /** Last line of the stat block in the document (1-based). */
+  endLine: number;
+  /** The conversion result, when the block parsed and converted. */
+  result?: ConversionResult;
+  /** Parse or conversion errors for this block. */
+  errors: string[];
+  /** Parse warnings for this block. */
+  warnings: string[];
+}
+
+/**
+ * Result of converting every stat block in a document.
+ */
+export interface DocumentConversionResult {
+  /** One entry per stat block, in document order. */
+  entries: DocumentConversionEntry[];
+  /** Successfully converted adversaries, in document order. */
+  adversaries: DaggerheartAdversary[];
+  /** Bestiary of every converted adversary (if outputFormat includes markdown). */
+  markdown?: string;
+  /** Text outside every stat block. */
+  leftovers: DocumentLeftover[];
+}
+
+/**
+ * One kind of creature in a converted group.
+ */
+export interface GroupConversionEntry {
+  /** Creature name. */
+  name: string;
+  /** Number of these creatures in the group. */
+  count: number;
+  /** Relationship to the rest of the group. */
+  role: NLGroupRole;
+  /** The conversion result for one creature of this kind. */
+  result: ConversionResult;
+}
+
+/**
+ * Result of converting a natural language group description.
+ */
+export interface GroupConversionResult {
+  /** One entry per kind of creature, leader first. */
+  entries: GroupConversionEntry[];
+  /**
+   * Adversaries on the field: one per creature, or one for a Horde.
+   * Pass to `buildEncounter` to price the group.
+   */
+  adversaries: DaggerheartAdversary[];
+  /** Stat blocks of every kind of creature (if outputFormat includes markdown). */
+  markdown?: string;
+}
+
 /**
  * Attack conversion result structure.
  */
@@ -120,10 +257,15 @@ interface ConversionPipelineState {
   // Input
   statBlock: DnD5eMonster;
   options: Required<ConversionOptions>;
+  sourceSystem: SourceSystem;
+  detection?: SourceSystemDetection;
+  numeneraAdjustments?: NumeneraAdjustments;
+  osrAdjustments?: OSRAdjustments;
 
   // Classification
   tier?: Tier;
   classification?: ClassificationResult;
+  typeOverride?: { type: AdversaryType; reason: string };
 
   // Core conversions
   statResult?: CoreStats;
@@ -134,8 +276,12 @@ interface ConversionPipelineState {
   multiattackResult?: CombinedConversionResult;
   spellcastingResult?: SpellcasterConversionResult;
   undeadResult?: UndeadConversionResult;
+  fiendCelestialResult?: FiendCelestialConversionResult;
+  aberrationResult?: AberrationConversionResult;
+  swarmPackResult?: SwarmPackConversionResult;
   constructOozeResult?: ConstructOozeResult;
   dragonResult?: DragonConversionResult;
+  lairResult?: LairConversionResult;
 
   // Narrative generation
   experienceResult?: Array<{ topic: string; bonus: number }>;
@@ -157,8 +303,118 @@ const DEFAULT_OPTIONS: Required<ConversionOptions> = {
   outputFormat: 'markdown',
   verboseNotes: false,
   markdownOptions: {},
+  includeLoot: false,
+  repairOcr: false,
 };
 
+/**
+ * Group members at least this many, or described with a collective noun,
+ * convert to one Horde instead of individual adversaries.
+ */
+const HORDE_GROUP_SIZE = 10;
+
+// ============================================================================
+// SOURCE SYSTEM DETECTION
+// ============================================================================
+
+/**
+ * Format indicators for each supported source system.
+ *
+ * A system's score is the share of its indicators found in the text.
+ * Detection confidence is the winning score, reduced by half the
+ * runner-up's score so ambiguous text reports lower confidence.
+ */
+const SYSTEM_INDICATORS: Record<SourceSystem, Array<{ name: string; pattern: RegExp }>> = {
+  'D&D 5e': [
+    { name: 'Armor Class', pattern: /\barmor\s+class\s+\d+|\bAC\s+\d+\s+initiative\b/i },
+    { name: 'Hit Points', pattern: /\bhit\s+points\s+\d+|\bHP\s+\d+\s*\(\d+d\d+/i },
+    { name: 'Challenge', pattern: /\bchallenge\s+[\d/]+|\bCR\s+[\d/]+\s*\(XP\b/i },
+    { name: 'Ability score table', pattern: /\bstr\s+dex\s+con\s+int\s+wis\s+cha\b|\bmod\s+save\s+mod\s+save\b/i },
+    { name: 'Ability score with modifier', pattern: /\b\d{1,2}\s*\([+-]\d+\)|\bStr\s+\d{1,2}\s+[+\-\u2212]\d+\s+[+\-\u2212]\d+/ },
+    { name: 'Attack to hit', pattern: /\b(?:weapon|spell)\s+attack:\s*[+-]\d+\s+to\s+hit|\battack\s+roll:\s*[+-]\d+/i },
+    { name: 'Speed in feet', pattern: /\bspeed\s+\d+\s*ft\./i },
+  ],
+  'Pathfinder 2e': [
+    { name: 'Creature level', pattern: /\bcreature\s+-?\d+/i },
+    { name: 'Perception modifier', pattern: /\bperception\s+[+-]\d+/i },
+    { name: 'Fortitude save', pattern: /\bfort\s+[+-]\d+/i },
+    { name: 'Reflex save', pattern: /\bref\s+[+-]\d+/i },
+    { name: 'Will save', pattern: /\bwill\s+[+-]\d+/i },
+    { name: 'Action icons', pattern: /\[(?:one|two|three)-actions?\]|\[reaction\]|\[free-action\]/i },
+    { name: 'Ability modifiers', pattern: /\bstr\s+[+-]\d+,\s*dex\s+[+-]\d+/i },
+  ],
+  OSR: [
+    { name: 'Hit Dice', pattern: /\bHD\s*\d+(?:[+-]\d+)?\**/ },
+    { name: 'THAC0', pattern: /\bTHAC0\s*\d+/i },
+    { name: 'Descending AC', pattern: /\bAC\s*-?\d+\s*\[\d+\]/i },
+    { name: 'Movement in feet', pattern: /\bMV\s*\d+'/i },
+    { name: 'Saving throws', pattern: /\bSV\s*D\s*\d+\s*W\s*\d+/i },
+    { name: 'Morale', pattern: /\b(?:ML|Morale)\s*\d+/ },
+    { name: 'Attacks per round', pattern: /\bAtt\s*\d+\s*[x×]/i },
+  ],
+  Numenera: [
+    { name: 'Level and target number', pattern: /^\s*\S.*\s\d{1,2}\s*\(\d{1,2}\)\s*$/m },
+    { name: 'Health', pattern: /^\s*health:\s*\d+/im },
+    { name: 'Damage inflicted', pattern: /\bdamage inflicted:\s*\d+/i },
+    { name: 'Armor', pattern: /^\s*armou?r:\s*\d+/im },
+    { name: 'Range movement', pattern: /\bmovement:\s*(?:immediate|short|long|very long|none)\b/i },
+    { name: 'Modifications', pattern: /\bas level \d+/i },
+    { name: 'GM intrusion', pattern: /\bGM intrusions?:/i },
+  ],
+};
+
+/**
+ * Detects which game system a text stat block was written for.
+ *
+ * Scores the text against format indicators for D&D 5e, Pathfinder 2e,
+ * OSR/B/X and Numenera/Cypher System stat blocks. Ties and texts with no recognizable format
+ * fall back to D&D 5e, which is the pipeline's native input. Homebrewery
+ * markdown is stripped to plain text before scoring.
+ *
+ * @param text - The stat block as plain text
+ * @returns Detected system, confidence, and matched indicators
+ *
+ * @example
+ * ```typescript
+ * const detection = detectSourceSystem(`
+ *   Goblin
+ *   AC 6 [13], HD 1-1, Att 1 × weapon (1d6), THAC0 19 [+0], MV 60' (20')
+ * `);
+ * console.log(detection.system); // "OSR"
+ * ```
+ */
+export function detectSourceSystem(text: string): SourceSystemDetection {
+  const plain = isHomebreweryMarkdown(text) ? homebreweryToText(text).text : text;
+  const scores = (Object.keys(SYSTEM_INDICATORS) as SourceSystem[]).map((system) => {
+    const indicators = SYSTEM_INDICATORS[system]
+      .filter(({ pattern }) => pattern.test(plain))
+      .map(({ name }) => name);
+    return {
+      system,
+      indicators,
+      ratio: indicators.length / SYSTEM_INDICATORS[system].length,
+    };
+  });
+
+  // Stable sort keeps D&D 5e first on ties
+  const ranked = [...scores].sort((a, b) => b.ratio - a.ratio);
+  const best = ranked[0]!;
+  const runnerUp = ranked[1]!;
+
+  if (best.ratio === 0) {
+    return { system: 'D&D 5e', confidence: 0, indicators: [] };
+  }
+
+  // Penalize ambiguity when a second system also matches
+  const confidence = Math.max(0, best.ratio - runnerUp.ratio / 2);
+
+  return {
+    system: best.system,
+    confidence: Math.round(confidence * 100) / 100,
+    indicators: best.indicators,
+  };
+}
+
 // ============================================================================
 // PIPELINE STEP FUNCTIONS
 // ============================================================================
@@ -168,7 +424,8 @@ const DEFAULT_OPTIONS: Required<ConversionOptions> = {
  */
 function parseInput(
   input: DnD5eMonster | string,
-  isNaturalLanguage: boolean
+  isNaturalLanguage: boolean,
+  repairOcr = false
 ): { statBlock: DnD5eMonster; log: string[] } {
   const log: string[] = [];
 
@@ -193,8 +450,20 @@ function parseInput(
       return { statBlock: completeMonster, log };
     } else {
       log.push('Step 1: Parsing text stat block');
-      const result: ParseResult = parseStatBlockSafe(input);
-
+      const homebrewery = isHomebreweryMarkdown(input);
+      if (homebrewery) {
+        log.push('  - Detected Homebrewery markdown');
+      }
+      const result: ParseResult = homebrewery
+        ? parseHomebrewerySafe(input, { repairOcr })
+        : parseStatBlockSafe(input, { repairOcr });
+
+      if (result.repairs && result.repairs.length > 0) {
+        log.push(`  - Repaired ${result.repairs.length} PDF copy artifacts`);
+        for (const repair of result.repairs) {
+          log.push(`    - Line ${repair.line}: ${repair.description}`);
+        }
+      }
       if (!result.result) {
         throw new Error(
           `Failed to parse stat block: ${result.errors?.join(', ') || 'Unknown error'}`
@@ -213,6 +482,95 @@ function parseInput(
   }
 }
 
+/**
+ * Helper: Log the detected source system as the start of Step 1.
+ */
+function logDetection(detection: SourceSystemDetection): string[] {
+  const log: string[] = [];
+
+  log.push('Step 1: Detecting source system');
+  log.push(`  - Detected: ${detection.system}`);
+  log.push(`  - Confidence: ${Math.round(detection.confidence * 100)}%`);
+  if (detection.indicators.length > 0) {
+    log.push(`  - Indicators: ${detection.indicators.join(', ')}`);
+  }
+  return log;
+}
+
+/**
+ * Step 1 (any system): Parse with the detected system's parser and adapt to 5e.
+ * Pathfinder 2e does not come through here; it converts natively.
+ */
+function parseAnySystemInput(
+  text: string,
+  detection: SourceSystemDetection,
+  repairOcr: boolean
+): {
+  statBlock: DnD5eMonster;
+  numeneraAdjustments?: NumeneraAdjustments;
+  osrAdjustments?: OSRAdjustments;
+  log: string[];
+} {
+  const log = logDetection(detection);
+
+  if (detection.system === 'OSR') {
+    log.push('  - Parsing OSR stat block');
+    const result: OSRParseResult = parseOSRStatBlockSafe(text);
+
+    if (!result.result) {
+      throw new Error(
+        `Failed to parse OSR stat block: ${result.errors.join(', ') || 'Unknown error'}`
+      );
+    }
+    if (result.warnings.length > 0) {
+      log.push(`  - Warnings: ${result.warnings.join(', ')}`);
+    }
+
+    const adapted = convertOSRToDnD5e(result.result);
+    log.push(`  - Parsed creature: ${adapted.result.name} (HD ${result.result.hd.raw})`);
+    for (const note of adapted.notes) {
+      log.push(`  - ${note}`);
+    }
+    if (adapted.warnings.length > 0) {
+      log.push(`  - Adapter warnings: ${adapted.warnings.join(', ')}`);
+    }
+    return { statBlock: adapted.result, osrAdjustments: adapted.adjustments, log };
+  }
+
+  if (detection.system === 'Numenera') {
+    log.push('  - Parsing Numenera stat block');
+    const result: NumeneraParseResult = parseNumeneraStatBlockSafe(text);
+
+    if (!result.result) {
+      throw new Error(
+        `Failed to parse Numenera stat block: ${result.errors.join(', ') || 'Unknown error'}`
+      );
+    }
+    if (result.warnings.length > 0) {
+      log.push(`  - Warnings: ${result.warnings.join(', ')}`);
+    }
+
+    const adapted = convertNumeneraToDnD5e(result.result);
+    log.push(`  - Parsed creature: ${adapted.result.name} (Level ${result.result.level})`);
+    for (const note of adapted.notes) {
+      log.push(`  - ${note}`);
+    }
+    if (adapted.warnings.length > 0) {
+      log.push(`  - Adapter warnings: ${adapted.warnings.join(', ')}`);
+    }
+    return {
+      statBlock: adapted.result,
+      numeneraAdjustments: adapted.adjustments,
+      log,
+    };
+  }
+
+  const { statBlock, log: parseLog } = parseInput(text, false, repairOcr);
+  // Drop the generic step header; detection already opened Step 1
+  log.push(...parseLog.slice(1));
+  return { statBlock, log };
+}
+
 /**
  * Step 2: Classify adversary type and role.
  */
@@ -220,6 +578,15 @@ function classifyCreature(state: ConversionPipelineState): void {
   state.conversionLog.push('Step 2: Classifying adversary');
 
   state.classification = classifyAdversary(state.statBlock);
+  const override = state.typeOverride;
+  if (override && override.type !== state.classification.type) {
+    state.classification = {
+      ...state.classification,
+      type: override.type,
+      role: override.type === AdversaryType.MINION ? undefined : state.classification.role,
+      reasoning: `${override.reason} (classified alone as ${state.classification.type})`,
+    };
+  }
   state.tier = crToTier(
     typeof state.statBlock.challengeRating.cr === 'string'
       ? parseFloat(state.statBlock.challengeRating.cr) || 0
@@ -246,6 +613,22 @@ function convertCoreStatsStep(state: ConversionPipelineState): void {
 
   state.statResult = convertCoreStats(state.statBlock, state.classification);
 
+  // Numenera Health and Armor map directly onto HP and thresholds
+  const adjustments = state.numeneraAdjustments;
+  if (adjustments) {
+    const { thresholds } = state.statResult;
+    state.statResult = {
+      ...state.statResult,
+      hp: adjustments.hp,
+      thresholds: {
+        minor: thresholds.minor + adjustments.thresholdBonus,
+        major: thresholds.major + adjustments.thresholdBonus,
+        severe: thresholds.severe + adjustments.thresholdBonus,
+      },
+    };
+    state.conversionLog.push('  - Applied Numenera Health and Armor adjustments');
+  }
+
   state.conversionLog.push(`  - Evasion: ${state.statResult.evasion}`);
   state.conversionLog.push(
     `  - Thresholds: ${state.statResult.thresholds.minor}/${state.statResult.thresholds.major}/${state.statResult.thresholds.severe}`
@@ -333,23 +716,35 @@ function convertCreatureFeatures(state: ConversionPipelineState): void {
 function applySpecializations(state: ConversionPipelineState): void {
   state.conversionLog.push('Step 6: Applying specializations');
 
-  if (!state.tier || !state.classification || !state.attackResult) {
+  if (!state.tier || !state.classification || !state.attackResult || !state.statResult) {
     throw new Error('Classification must be completed before specialization');
   }
 
-  // Check for multiattack and legendary actions
+  // Check for multiattack, legendary and mythic actions
   const hasMulti = hasMultiattack(state.statBlock);
   const hasLegendary = hasLegendaryActions(state.statBlock);
+  const hasMythic = hasMythicActions(state.statBlock);
 
-  if (hasMulti || hasLegendary) {
+  if (hasMulti || hasLegendary || hasMythic) {
     state.conversionLog.push(`  - Multiattack: ${hasMulti ? 'Yes' : 'No'}`);
     state.conversionLog.push(`  - Legendary Actions: ${hasLegendary ? 'Yes' : 'No'}`);
+    state.conversionLog.push(`  - Mythic Actions: ${hasMythic ? 'Yes' : 'No'}`);
 
     // Get all attacks as base attacks for multiattack conversion
     const allAttacks = [state.attackResult.primaryAttack, ...state.attackResult.additionalAttacks];
-    state.multiattackResult = convertMultiattackAndLegendary(state.statBlock, allAttacks);
+    state.multiattackResult = convertMultiattackAndLegendary(
+      state.statBlock,
+      allAttacks,
+      state.statResult.hp
+    );
 
     state.conversionLog.push(`  - Bonus stress from legendary: ${state.multiattackResult.bonusStress}`);
+    if (state.multiattackResult.phaseTwo) {
+      state.conversionLog.push(`  - Phase two HP: ${state.multiattackResult.phaseTwo.hp}`);
+      state.conversionLog.push(
+        `  - Phase two features: ${state.multiattackResult.phaseTwo.features?.length ?? 0}`
+      );
+    }
   }
 
   // Check for spellcasting
@@ -376,6 +771,30 @@ function applySpecializations(state: ConversionPipelineState): void {
     );
   }
 
+  // Check for fiend/celestial
+  if (isFiendOrCelestial(state.statBlock)) {
+    state.conversionLog.push('  - Fiend/Celestial creature detected');
+
+    state.fiendCelestialResult = convertFiendOrCelestial(state.statBlock);
+
+    state.conversionLog.push(`  - Subtype: ${state.fiendCelestialResult.subtype}`);
+    state.conversionLog.push(
+      `  - Thematic features: ${state.fiendCelestialResult.thematicFeatures.length}`
+    );
+  }
+
+  // Check for aberration/psionic
+  if (isAberrationOrPsionic(state.statBlock)) {
+    state.conversionLog.push('  - Aberration/Psionic creature detected');
+
+    state.aberrationResult = convertAberration(state.statBlock);
+
+    state.conversionLog.push(`  - Subtype: ${state.aberrationResult.subtype}`);
+    state.conversionLog.push(
+      `  - Thematic features: ${state.aberrationResult.thematicFeatures.length}`
+    );
+  }
+
   // Check for construct/ooze
   if (isConstructOrOoze(state.statBlock)) {
     state.conversionLog.push('  - Construct/Ooze creature detected');
@@ -401,13 +820,51 @@ function applySpecializations(state: ConversionPipelineState): void {
     );
   }
 
+  // Check for swarms and packs fighting as a Horde or grouped Minions
+  const groupTypes = [AdversaryType.HORDE, AdversaryType.SWARM, AdversaryType.MINION];
+  const isGroup =
+    isSwarmOrPack(state.statBlock) &&
+    groupTypes.includes(state.classification.type) &&
+    !state.osrAdjustments;
+  if (isGroup) {
+    state.conversionLog.push('  - Swarm/Pack creature detected');
+
+    state.swarmPackResult = convertSwarmOrPack(
+      state.statBlock,
+      state.classification.type,
+      state.tier,
+      state.attackResult.primaryAttack,
+      state.statResult.hp
+    );
+
+    state.conversionLog.push(`  - Group form: ${state.swarmPackResult.groupForm}`);
+    state.conversionLog.push(`  - Group features: ${state.swarmPackResult.features.length}`);
+  }
+
+  // Check for lair actions
+  if (hasLairActions(state.statBlock)) {
+    state.conversionLog.push('  - Lair detected');
+
+    state.lairResult = convertLairActions(state.statBlock);
+
+    state.conversionLog.push(`  - Lair features: ${state.lairResult.lairFeatures.length}`);
+    state.conversionLog.push(
+      `  - Regional features: ${state.lairResult.regionalFeatures.length}`
+    );
+  }
+
   if (
     !hasMulti &&
     !hasLegendary &&
+    !hasMythic &&
     !isSpellcaster(state.statBlock) &&
     !isUndead(state.statBlock) &&
+    !isFiendOrCelestial(state.statBlock) &&
+    !isAberrationOrPsionic(state.statBlock) &&
     !isConstructOrOoze(state.statBlock) &&
-    !isDragon(state.statBlock)
+    !isDragon(state.statBlock) &&
+    !isGroup &&
+    !hasLairActions(state.statBlock)
   ) {
     state.conversionLog.push('  - No specializations applicable');
   }
@@ -431,6 +888,15 @@ function generateNarrative(state: ConversionPipelineState): void {
 
   // Generate motives and tactics
   state.motivesAndTactics = generateMotivesAndTactics(state.statBlock, state.classification);
+
+  // Fiend, celestial, and aberration subtypes lead with their own motives
+  const subtypeMotives =
+    state.fiendCelestialResult?.suggestedMotives ?? state.aberrationResult?.suggestedMotives ?? [];
+  if (subtypeMotives.length > 0) {
+    state.motivesAndTactics.motives = [
+      ...new Set([...subtypeMotives.slice(0, 2), ...state.motivesAndTactics.motives]),
+    ].slice(0, 3);
+  }
   state.conversionLog.push(`  - Motives: ${state.motivesAndTactics.motives.join(', ')}`);
 }
 
@@ -501,6 +967,23 @@ function assemblePartialAdversary(state: ConversionPipelineState): DaggerheartAd
     allFeatures.push(...state.dragonResult.legendaryFeatures);
   }
 
+  // Add Numenera GM intrusions
+  if (state.numeneraAdjustments?.intrusionFeatures) {
+    allFeatures.push(...state.numeneraAdjustments.intrusionFeatures);
+  }
+
+  // Add OSR morale and group size
+  const osrAdjustments = state.osrAdjustments;
+  if (osrAdjustments) {
+    allFeatures.push(osrAdjustments.moraleFeature);
+    const groupFeature = osrAdjustments.numberAppearing
+      ? createGroupFeature(osrAdjustments.numberAppearing, state.classification.type, state.statResult.hp)
+      : undefined;
+    if (groupFeature) {
+      allFeatures.push(groupFeature);
+    }
+  }
+
   // Deduplicate features by name, keeping the most detailed version
   const featureMap = new Map<string, Feature>();
   for (const feature of allFeatures) {
@@ -517,6 +1000,41 @@ function assemblePartialAdversary(state: ConversionPipelineState): DaggerheartAd
     }
   }
 
+  // Fiend, celestial, aberration, swarm, pack, and dragon features replace their generic conversions
+  const replacements: Array<{ replacedFeatures: string[]; features: Feature[] }> = [];
+  if (state.fiendCelestialResult) {
+    replacements.push({
+      replacedFeatures: state.fiendCelestialResult.replacedFeatures,
+      features: state.fiendCelestialResult.thematicFeatures,
+    });
+  }
+  if (state.aberrationResult) {
+    replacements.push({
+      replacedFeatures: state.aberrationResult.replacedFeatures,
+      features: state.aberrationResult.thematicFeatures,
+    });
+  }
+  if (state.swarmPackResult) {
+    replacements.push(state.swarmPackResult);
+  }
+  if (state.dragonResult) {
+    replacements.push({ replacedFeatures: state.dragonResult.replacedFeatures, features: [] });
+  }
+  for (const { replacedFeatures, features } of replacements) {
+    for (const name of replacedFeatures) {
+      featureMap.delete(name);
+    }
+    for (const feature of features) {
+      featureMap.set(feature.name, feature);
+    }
+  }
+
+  // The mythic trait is represented by the phase change, not a feature
+  const phaseTwo = state.multiattackResult?.phaseTwo;
+  if (phaseTwo?.name) {
+    featureMap.delete(phaseTwo.name);
+  }
+
   // Replace allFeatures with deduplicated version
   allFeatures.length = 0;
   allFeatures.push(...featureMap.values());
@@ -551,6 +1069,12 @@ function assemblePartialAdversary(state: ConversionPipelineState): DaggerheartAd
   const additionalAttacks =
     state.multiattackResult?.enhancedAttacks?.slice(1) || state.attackResult.additionalAttacks;
 
+  // Swarms and Hordes weaken once half their HP is marked
+  const hp = state.swarmPackResult?.hp ?? state.statResult.hp;
+  const isHorde =
+    state.classification.type === AdversaryType.HORDE ||
+    state.classification.type === AdversaryType.SWARM;
+
   const adversary: DaggerheartAdversary = {
     name: state.statBlock.name,
     tier: state.tier,
@@ -558,23 +1082,15 @@ function assemblePartialAdversary(state: ConversionPipelineState): DaggerheartAd
     difficulty: state.statResult.difficulty,
     evasion: state.statResult.evasion,
     thresholds: state.statResult.thresholds,
-    hp: state.statResult.hp,
+    hp,
     stress: totalStress,
     attack: primaryAttack,
     movement,
     features: allFeatures,
     relentless: { hasRelentless: false },
-    horde:
-      state.classification.type === AdversaryType.HORDE
-        ? {
-            isHorde: true,
-            startingDamage: primaryAttack.damage,
-            reducedDamage: {
-              ...primaryAttack.damage,
-              diceCount: Math.max(1, primaryAttack.damage.diceCount - 1),
-            },
-          }
-        : { isHorde: false },
+    horde: isHorde
+      ? state.swarmPackResult?.horde ?? buildHordeFeature(primaryAttack.damage, hp)
+      : { isHorde: false },
     description: {
       shortDescription: `A ${state.statBlock.size} ${state.statBlock.creatureType}`,
     },
@@ -584,10 +1100,15 @@ function assemblePartialAdversary(state: ConversionPipelineState): DaggerheartAd
     },
     experience,
     tags: generateTags(state),
-    sourceSystem: 'D&D 5e',
+    sourceSystem: state.sourceSystem,
     sourceCR: state.statBlock.challengeRating.cr,
   };
 
+  // Add phase two if present
+  if (phaseTwo) {
+    adversary.phaseTwo = phaseTwo;
+  }
+
   // Add additional attacks if present
   if (additionalAttacks.length > 0) {
     adversary.additionalAttacks = additionalAttacks;
@@ -616,12 +1137,27 @@ function generateTags(state: ConversionPipelineState): string[] {
     tags.push('undead');
     tags.push(state.undeadResult.undeadType.toLowerCase());
   }
+  if (state.fiendCelestialResult && !state.fiendCelestialResult.subtype.startsWith('generic')) {
+    tags.push(state.fiendCelestialResult.subtype);
+  }
+  if (state.aberrationResult && !state.aberrationResult.subtype.startsWith('generic')) {
+    tags.push(state.aberrationResult.subtype);
+  }
+  if (state.aberrationResult?.isPsionic) {
+    tags.push('psionic');
+  }
   if (state.constructOozeResult) {
     tags.push(state.constructOozeResult.creatureCategory.toLowerCase());
   }
   if (state.multiattackResult && state.multiattackResult.bonusStress > 0) {
     tags.push('legendary');
   }
+  if (state.multiattackResult?.phaseTwo?.hasPhaseTwo) {
+    tags.push('mythic');
+  }
+  if (state.lairResult) {
+    tags.push('lair');
+  }
 
   // Add role if present
   if (state.classification?.role) {
@@ -662,17 +1198,71 @@ function formatOutput(
 
   const result: ConversionResult = {
     adversary,
+    sourceSystem: state.sourceSystem,
     conversionLog: state.conversionLog,
   };
 
+  if (state.detection) {
+    result.detection = state.detection;
+  }
+
   // Add design notes to result
   if (state.designNotes) {
     result.designNotes = state.designNotes;
   }
 
+  // Attach lair environment features
+  if (state.lairResult) {
+    result.environmentFeatures = [
+      ...state.lairResult.lairFeatures,
+      ...state.lairResult.regionalFeatures,
+    ];
+  }
+
+  // Generate loot from the adversary and its source data
+  if (state.options.includeLoot) {
+    const lootContext: LootContext = {
+      seed: `${adversary.name}:${adversary.tier}`,
+      creatureType: state.statBlock.creatureType,
+    };
+    if (state.dragonResult) {
+      lootContext.dragonColor = state.dragonResult.dragonType;
+    }
+    if (state.undeadResult) {
+      lootContext.undeadSubtype = state.undeadResult.undeadType;
+    }
+    if (state.osrAdjustments?.treasureNote) {
+      lootContext.note = state.osrAdjustments.treasureNote;
+    }
+    result.loot = generateLoot(adversary, lootContext);
+    state.conversionLog.push(
+      `  - Generated ${result.loot.dropTable} loot: ${result.loot.items.length} items, ` +
+        `${result.loot.totalValue} gold total`
+    );
+  }
+
   // Generate markdown if requested
   if (state.options.outputFormat === 'markdown' || state.options.outputFormat === 'both') {
     result.markdown = formatAsMarkdown(adversary, state.options.markdownOptions);
+
+    if (state.lairResult && result.environmentFeatures) {
+      const headerLevel = state.options.markdownOptions.headerLevel ?? 1;
+      const lairMarkdown = formatFeatureSection(
+        state.lairResult.environmentName,
+        result.environmentFeatures,
+        Math.min(3, headerLevel + 1) as 2 | 3
+      );
+      result.markdown += `\n\n${lairMarkdown}`;
+    }
+
+    if (result.loot) {
+      const headerLevel = state.options.markdownOptions.headerLevel ?? 1;
+      const lootMarkdown = formatLootAsMarkdown(result.loot, {
+        headerLevel: Math.min(3, headerLevel + 1) as 2 | 3,
+      });
+      result.markdown += `\n\n${lootMarkdown}`;
+    }
+
     state.conversionLog.push('  - Generated Markdown output');
   }
 
@@ -681,6 +1271,93 @@ function formatOutput(
   return result;
 }
 
+// ============================================================================
+// PATHFINDER 2E PIPELINE
+// ============================================================================
+
+/**
+ * Step 1 (Pathfinder 2e): Parse a PF2e text stat block.
+ */
+function parsePF2eText(text: string, log: string[]): PF2eStatBlock {
+  log.push('  - Parsing Pathfinder 2e stat block');
+  const result: PF2eParseResult = parsePF2eStatBlockSafe(text);
+
+  if (!result.result) {
+    throw new Error(
+      `Failed to parse PF2e stat block: ${result.errors.join(', ') || 'Unknown error'}`
+    );
+  }
+  if (result.warnings.length > 0) {
+    log.push(`  - Warnings: ${result.warnings.join(', ')}`);
+  }
+
+  log.push(`  - Parsed creature: ${result.result.name} (Level ${result.result.level})`);
+  return result.result;
+}
+
+/**
+ * Converts a parsed PF2e stat block natively and formats the result.
+ */
+function convertPF2eStatBlock(
+  pf2e: PF2eStatBlock,
+  options: Required<ConversionOptions>,
+  log: string[],
+  detection?: SourceSystemDetection
+): ConversionResult {
+  log.push('Step 2: Converting Pathfinder 2e stat block');
+  const { adversary, creatureType, conversionNotes } = convertPF2eToDaggerheart(pf2e);
+  for (const note of conversionNotes) {
+    log.push(`  - ${note}`);
+  }
+
+  const result: ConversionResult = {
+    adversary,
+    sourceSystem: 'Pathfinder 2e',
+    conversionLog: log,
+  };
+  if (detection) {
+    result.detection = detection;
+  }
+
+  if (options.includeDesignNotes) {
+    result.designNotes = {
+      conversionRationale: conversionNotes,
+      balanceNotes: [],
+      gmTips: [],
+      adjustmentSuggestions: [],
+    };
+    adversary.conversionNotes = formatDesignNotesAsMarkdown(result.designNotes);
+  }
+
+  log.push('Step 3: Formatting output');
+
+  if (options.includeLoot) {
+    result.loot = generateLoot(adversary, {
+      seed: `${adversary.name}:${adversary.tier}`,
+      creatureType,
+    });
+    log.push(
+      `  - Generated ${result.loot.dropTable} loot: ${result.loot.items.length} items, ` +
+        `${result.loot.totalValue} gold total`
+    );
+  }
+
+  if (options.outputFormat === 'markdown' || options.outputFormat === 'both') {
+    result.markdown = formatAsMarkdown(adversary, options.markdownOptions);
+
+    if (result.loot) {
+      const headerLevel = options.markdownOptions.headerLevel ?? 1;
+      result.markdown += `\n\n${formatLootAsMarkdown(result.loot, {
+        headerLevel: Math.min(3, headerLevel + 1) as 2 | 3,
+      })}`;
+    }
+    log.push('  - Generated Markdown output');
+  }
+
+  log.push('Conversion complete');
+  return result;
+}
+
 // ============================================================================
 // MAIN CONVERSION FUNCTIONS
 // ============================================================================
@@ -720,6 +1397,7 @@ export function convertFromStatBlock(
   const state: ConversionPipelineState = {
     statBlock,
     options: mergedOptions,
+    sourceSystem: 'D&D 5e',
     conversionLog: [],
   };
 
@@ -744,6 +1422,8 @@ export function convertFromStatBlock(
  *
  * Use this when you have a stat block copied from a PDF, website, or
  * other text source that needs parsing first.
+ * Homebrewery and GM Binder markdown is recognized and stripped
+ * automatically.
  *
  * @param text - The stat block as plain text
  * @param options - Optional configuration for the conversion process
@@ -770,11 +1450,12 @@ export function convertFromText(text: string, options?: ConversionOptions): Conv
   };
 
   // Parse the text first
-  const { statBlock, log: parseLog } = parseInput(text, false);
+  const { statBlock, log: parseLog } = parseInput(text, false, mergedOptions.repairOcr);
 
   const state: ConversionPipelineState = {
     statBlock,
     options: mergedOptions,
+    sourceSystem: 'D&D 5e',
     conversionLog: parseLog,
   };
 
@@ -826,6 +1507,7 @@ export function convertFromNaturalLanguage(
   const state: ConversionPipelineState = {
     statBlock,
     options: mergedOptions,
+    sourceSystem: 'D&D 5e',
     conversionLog: parseLog,
   };
 
@@ -842,6 +1524,324 @@ export function convertFromNaturalLanguage(
   return formatOutput(adversary, state);
 }
 
+/**
+ * Converts a text stat block from any supported system to a Daggerheart adversary.
+ *
+ * Detects whether the text is a D&D 5e, Pathfinder 2e, OSR or Numenera
+ * stat block, runs the matching parser and adapter, then executes the
+ * standard pipeline. Pathfinder 2e stat blocks convert natively, as in
+ * `convertFromPF2e`. The detected system and detection confidence are recorded
+ * on the result and in the adversary's `sourceSystem`.
+ *
+ * @param text - The stat block as plain text, in any supported format
+ * @param options - Optional configuration for the conversion process
+ * @returns Complete conversion result with adversary and detection details
+ *
+ * @example
+ * ```typescript
+ * import { convertFromAnyText } from './orchestrator';
+ *
+ * const result = convertFromAnyText(`
+ *   Goblin
+ *   AC 6 [13], HD 1-1, Att 1 × weapon (1d6), THAC0 19 [+0],
+ *   MV 60' (20'), SV D14 W15 P16 B17 S18, ML 7, AL Chaotic, XP 5
+ * `);
+ * console.log(result.sourceSystem);          // "OSR"
+ * console.log(result.detection?.confidence); // e.g. 0.86
+ * ```
+ */
+export function convertFromAnyText(text: string, options?: ConversionOptions): ConversionResult {
+  const mergedOptions: Required<ConversionOptions> = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+
+  // Detect the source system; Pathfinder 2e converts without the 5e pipeline
+  const detection = detectSourceSystem(text);
+  if (detection.system === 'Pathfinder 2e') {
+    const log = logDetection(detection);
+    const pf2e = parsePF2eText(text, log);
+    return convertPF2eStatBlock(pf2e, mergedOptions, log, detection);
+  }
+
+  // Parse with the matching parser
+  const { statBlock, numeneraAdjustments, osrAdjustments, log: parseLog } = parseAnySystemInput(
+    text,
+    detection,
+    mergedOptions.repairOcr
+  );
+
+  const state: ConversionPipelineState = {
+    statBlock,
+    options: mergedOptions,
+    sourceSystem: detection.system,
+    detection,
+    conversionLog: parseLog,
+  };
+  if (numeneraAdjustments) {
+    state.numeneraAdjustments = numeneraAdjustments;
+  }
+  if (osrAdjustments) {
+    state.osrAdjustments = osrAdjustments;
+    if (osrAdjustments.typeOverride) {
+      state.typeOverride = osrAdjustments.typeOverride;
+    }
+  }
+
+  // Execute remaining pipeline
+  classifyCreature(state);
+  convertCoreStatsStep(state);
+  convertCombatAttacks(state);
+  convertCreatureFeatures(state);
+  applySpecializations(state);
+  generateNarrative(state);
+  generateNotes(state);
+
+  const adversary = assembleAdversary(state);
+  return formatOutput(adversary, state);
+}
+
+/**
+ * Converts a Pathfinder 2e stat block to a Daggerheart adversary.
+ *
+ * Maps the PF2e stat block straight onto Daggerheart instead of adapting
+ * it to 5e first, so the level's placement within its tier, action costs,
+ * reaction triggers, weaknesses, and traits carry over.
+ *
+ * @param input - Parsed PF2e stat block, or PF2e stat block text
+ * @param options - Optional configuration for the conversion process
+ * @returns Complete conversion result with adversary and optional outputs
+ *
+ * @example
+ * ```typescript
+ * import { convertFromPF2e } from './orchestrator';
+ *
+ * const result = convertFromPF2e(pf2eStatBlockText);
+ * console.log(result.adversary.tags); // e.g. ["goblin", "humanoid", "small"]
+ * ```
+ */
+export function convertFromPF2e(
+  input: PF2eStatBlock | string,
+  options?: ConversionOptions
+): ConversionResult {
+  const mergedOptions: Required<ConversionOptions> = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+
+  const log: string[] = [];
+  if (typeof input === 'string') {
+    log.push('Step 1: Parsing Pathfinder 2e text input');
+    return convertPF2eStatBlock(parsePF2eText(input, log), mergedOptions, log);
+  }
+
+  log.push('Step 1: Using provided Pathfinder 2e stat block');
+  log.push(`  - Creature: ${input.name} (Level ${input.level})`);
+  return convertPF2eStatBlock(input, mergedOptions, log);
+}
+
+/**
+ * Converts every D&D 5e stat block in a document into a bestiary.
+ *
+ * Stat blocks are located with `parseDocument`. A block that fails to
+ * parse or convert is reported in its entry's `errors` and skipped; the
+ * rest are still converted. Markdown headers default to level 2 so the
+ * bestiary reads as one document.
+ *
+ * @param text - Document text, such as an adventure chapter or appendix
+ * @param options - Optional configuration applied to every conversion
+ * @returns Per-block entries, converted adversaries and leftover text
+ *
+ * @example
+ * ```typescript
+ * import { convertDocument } from './orchestrator';
+ *
+ * const bestiary = convertDocument(chapterText);
+ * fs.writeFileSync('bestiary.md', bestiary.markdown ?? '');
+ * for (const entry of bestiary.entries.filter((e) => e.errors.length > 0)) {
+ *   console.warn(`Lines ${entry.startLine}-${entry.endLine}: ${entry.errors.join('; ')}`);
+ * }
+ * ```
+ */
+export function convertDocument(text: string, options?: ConversionOptions): DocumentConversionResult {
+  const blockOptions: ConversionOptions = {
+    ...options,
+    markdownOptions: {
+      ...options?.markdownOptions,
+      headerLevel: options?.markdownOptions?.headerLevel ?? 2,
+    },
+  };
+
+  const { blocks, leftovers } = parseDocument(text, { repairOcr: options?.repairOcr ?? false });
+  const entries: DocumentConversionEntry[] = blocks.map((block) => {
+    const entry: DocumentConversionEntry = {
+      name: block.name,
+      startLine: block.startLine,
+      endLine: block.endLine,
+      errors: [...block.errors],
+      warnings: [...block.warnings],
+    };
+
+    if (block.result) {
+      try {
+        entry.result = convertFromStatBlock(block.result, blockOptions);
+        entry.result.conversionLog.unshift(
+          `Parsed from document lines ${block.startLine}-${block.endLine}`
+        );
+      } catch (error) {
+        entry.errors.push(
+          `Conversion failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return entry;
+  });
+
+  const results = entries.flatMap((entry) => (entry.result ? [entry.result] : []));
+  const bestiary: DocumentConversionResult = {
+    entries,
+    adversaries: results.map((result) => result.adversary),
+    leftovers,
+  };
+
+  const outputFormat = options?.outputFormat ?? DEFAULT_OPTIONS.outputFormat;
+  if (outputFormat === 'markdown' || outputFormat === 'both') {
+    bestiary.markdown = results.map((result) => result.markdown ?? '').join('\n\n---\n\n');
+  }
+
+  return bestiary;
+}
+
+/**
+ * Chooses the adversary type a group member converts to, or none to let
+ * the classifier decide.
+ */
+function groupTypeOverride(member: NLGroupMember): { type: AdversaryType; reason: string } | undefined {
+  if (member.role === 'leader') {
+    return { type: AdversaryType.LEADER, reason: 'Leads its group' };
+  }
+
+  const isSwarm = member.statBlock.traits?.some((trait) => trait.name === 'Swarm') ?? false;
+  if (isSwarm) {
+    return undefined;
+  }
+  if (member.collective || member.count >= HORDE_GROUP_SIZE) {
+    const size = member.collective ? `a ${member.collective}` : `${member.count} creatures`;
+    return { type: AdversaryType.HORDE, reason: `Fights as ${size}` };
+  }
+  if (member.role === 'follower') {
+    return { type: AdversaryType.MINION, reason: `Rank-and-file under the group's leader (${member.count})` };
+  }
+  return undefined;
+}
+
+/**
+ * Converts a natural language description of a group into a set of
+ * Daggerheart adversaries.
+ *
+ * The group is parsed with `parseNaturalLanguageGroup`. The leader
+ * converts to a Leader and its followers to Minions. Creatures described
+ * as a pack, band, or similar, or numbering ten or more, convert to one
+ * Horde instead. Other creatures in a group without a leader keep their
+ * own classification.
+ *
+ * @param description - Natural language group description
+ * @param options - Optional configuration applied to every conversion
+ * @returns One entry per kind of creature, and the adversaries on the field
+ * @throws Error if no creatures are found, or a creature can't be parsed
+ *
+ * @example
+ * ```typescript
+ * import { convertNaturalLanguageGroup } from './orchestrator';
+ *
+ * const group = convertNaturalLanguageGroup('a hobgoblin captain leading six hobgoblins and two wolves');
+ * group.entries.map((e) => `${e.count}x ${e.name}: ${e.result.adversary.type}`);
+ * // ["1x Hobgoblin Captain: Leader", "6x Hobgoblin: Minion", "2x Wolf: Minion"]
+ * const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, group.adversaries);
+ * ```
+ */
+export function convertNaturalLanguageGroup(
+  description: string,
+  options?: ConversionOptions
+): GroupConversionResult {
+  const mergedOptions: Required<ConversionOptions> = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+    markdownOptions: {
+      ...options?.markdownOptions,
+      headerLevel: options?.markdownOptions?.headerLevel ?? 2,
+    },
+  };
+
+  const group = parseNaturalLanguageGroup(description);
+  if (group.members.length === 0) {
+    throw new Error('Failed to parse natural language group: no creatures found');
+  }
+
+  const entries: GroupConversionEntry[] = group.members.map((member) => {
+    if (member.parse.confidence < 0.3) {
+      throw new Error(
+        `Failed to parse "${member.description}": confidence too low (${Math.round(member.parse.confidence * 100)}%)`
+      );
+    }
+
+    // A Horde is named for the group ("Wolf Pack", "Zombie Horde")
+    const override = groupTypeOverride(member);
+    const collective = member.collective ?? 'horde';
+    const statBlock =
+      override?.type === AdversaryType.HORDE
+        ? { ...member.statBlock, name: `${member.statBlock.name} ${collective[0]!.toUpperCase()}${collective.slice(1)}` }
+        : member.statBlock;
+
+    const state: ConversionPipelineState = {
+      statBlock,
+      options: mergedOptions,
+      sourceSystem: 'D&D 5e',
+      conversionLog: [
+        'Step 1: Parsing natural language group',
+        `  - Member: ${member.description}`,
+        `  - Parsed creature: ${statBlock.name}`,
+        `  - Count: ${member.count}`,
+        `  - Group role: ${member.role}`,
+      ],
+    };
+    if (override) {
+      state.typeOverride = override;
+    }
+
+    // Execute remaining pipeline
+    classifyCreature(state);
+    convertCoreStatsStep(state);
+    convertCombatAttacks(state);
+    convertCreatureFeatures(state);
+    applySpecializations(state);
+    generateNarrative(state);
+    generateNotes(state);
+
+    const adversary = assembleAdversary(state);
+    return {
+      name: statBlock.name,
+      count: member.count,
+      role: member.role,
+      result: formatOutput(adversary, state),
+    };
+  });
+
+  const result: GroupConversionResult = {
+    entries,
+    adversaries: entries.flatMap(({ result: { adversary }, count }) =>
+      adversary.type === AdversaryType.HORDE ? [adversary] : Array.from({ length: count }, () => adversary)
+    ),
+  };
+
+  if (mergedOptions.outputFormat === 'markdown' || mergedOptions.outputFormat === 'both') {
+    result.markdown = entries.map((entry) => entry.result.markdown ?? '').join('\n\n---\n\n');
+  }
+
+  return result;
+}
+
 // ============================================================================
 // UTILITY EXPORTS
 // ============================================================================
@@ -893,6 +1893,8 @@ export function analyzeSpecializations(statBlock: DnD5eMonster): {
   hasLegendaryActions: boolean;
   isSpellcaster: boolean;
   isUndead: boolean;
+  isFiendOrCelestial: boolean;
+  isAberrationOrPsionic: boolean;
   isConstructOrOoze: boolean;
 } {
   return {
@@ -900,6 +1902,8 @@ export function analyzeSpecializations(statBlock: DnD5eMonster): {
     hasLegendaryActions: hasLegendaryActions(statBlock),
     isSpellcaster: isSpellcaster(statBlock),
     isUndead: isUndead(statBlock),
+    isFiendOrCelestial: isFiendOrCelestial(statBlock),
+    isAberrationOrPsionic: isAberrationOrPsionic(statBlock),
     isConstructOrOoze: isConstructOrOoze(statBlock),
   };
 }
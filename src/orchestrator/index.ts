@@ -12,6 +12,11 @@ export {
   convertFromStatBlock,
   convertFromText,
   convertFromNaturalLanguage,
+  convertFromAnyText,
+  convertFromPF2e,
+  convertDocument,
+  convertNaturalLanguageGroup,
+  detectSourceSystem,
   validateStatBlock,
   analyzeSpecializations,
 } from './converter';
@@ -20,4 +25,10 @@ export {
 export type {
   ConversionOptions,
   ConversionResult,
+  SourceSystem,
+  SourceSystemDetection,
+  DocumentConversionEntry,
+  DocumentConversionResult,
+  GroupConversionEntry,
+  GroupConversionResult,
 } from './converter';
@@ -0,0 +1,220 @@
+/**
+ * Parse Diagnostics
+ *
+ * Source spans and structured diagnostics shared by the text stat block
+ * parsers (D&D 5e, Pathfinder 2e, OSR). Each parser records the span of
+ * every field it read and reports errors and warnings with a stable
+ * diagnostic code, so editors and review tools can highlight the exact
+ * line of a pasted stat block that was misread.
+ *
+ * Lines and columns are 1-based and refer to the text passed to the
+ * parser; `endColumn` is exclusive.
+ *
+ * @module parsers/diagnostics
+ * @version 1.0.0
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A range of the parser's input text.
+ */
+export interface SourceSpan {
+  /** First line (1-based). */
+  startLine: number;
+  /** First column on the first line (1-based). */
+  startColumn: number;
+  /** Last line (1-based). */
+  endLine: number;
+  /** Column after the last character on the last line (1-based, exclusive). */
+  endColumn: number;
+}
+
+/**
+ * Whether a diagnostic stopped the parse.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * Stable codes for parse errors and warnings.
+ */
+export type DiagnosticCode =
+  // Shared
+  | 'empty-stat-block'
+  | 'stat-block-too-short'
+  | 'missing-name'
+  | 'missing-header'
+  | 'invalid-header'
+  | 'missing-armor-class'
+  // D&D 5e
+  | 'unknown-size'
+  | 'unknown-creature-type'
+  | 'missing-hit-points'
+  | 'missing-ability-scores'
+  | 'missing-challenge-rating'
+  | 'unidentified-mythic-trait'
+  | 'unparsed-lair-actions'
+  | 'unparsed-regional-effects'
+  // OSR
+  | 'missing-hit-dice'
+  | 'missing-to-hit';
+
+/**
+ * A parse error or warning with its code and location.
+ */
+export interface ParseDiagnostic {
+  /** Stable diagnostic code. */
+  code: DiagnosticCode;
+  /** Error or warning. */
+  severity: DiagnosticSeverity;
+  /** Human-readable message (the same text as in `errors` or `warnings`). */
+  message: string;
+  /** Where in the input the problem is, when it can be located. */
+  span?: SourceSpan;
+}
+
+/**
+ * Source span of each parsed field, keyed by field path: top-level
+ * field names ("armorClass", "hitPoints") and `<field>.<index>` for list
+ * entries ("traits.0", "attacks.1").
+ */
+export type FieldSpans = Record<string, SourceSpan>;
+
+/**
+ * Position of a parser's normalized text within its input.
+ *
+ * Parsers trim their input before splitting it into lines, which shifts
+ * line numbers by any leading blank lines and the first line's columns
+ * by its indentation. All other normalization keeps positions intact.
+ */
+export interface SourceOrigin {
+  /** Input lines removed before the first normalized line. */
+  lineOffset: number;
+  /** Input columns removed from the start of the first normalized line. */
+  columnOffset: number;
+}
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/**
+ * Finds where a parser's trimmed text starts in its input.
+ *
+ * @param text - The parser's raw input
+ * @returns Line and column offsets of the trimmed text
+ */
+export function findSourceOrigin(text: string): SourceOrigin {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const leading = normalized.slice(0, normalized.length - normalized.trimStart().length);
+  const lines = leading.split('\n');
+
+  return { lineOffset: lines.length - 1, columnOffset: lines[lines.length - 1]?.length ?? 0 };
+}
+
+/**
+ * Returns the span of the text between two offsets of the normalized
+ * text, where lines are separated by a single character.
+ *
+ * @param origin - Position of the normalized text in the input
+ * @param lines - Lines of the normalized text
+ * @param start - Offset of the first character
+ * @param end - Offset after the last character
+ */
+export function offsetSpan(origin: SourceOrigin, lines: string[], start: number, end: number): SourceSpan {
+  const locate = (offset: number): { line: number; column: number } => {
+    let remaining = offset;
+    for (let index = 0; index < lines.length; index++) {
+      const length = lines[index]?.length ?? 0;
+      if (remaining <= length || index === lines.length - 1) {
+        return { line: index, column: Math.min(remaining, length) };
+      }
+      remaining -= length + 1;
+    }
+    return { line: 0, column: 0 };
+  };
+
+  const from = locate(start);
+  const to = locate(Math.max(start, end));
+  const column = (position: { line: number; column: number }): number =>
+    position.column + 1 + (position.line === 0 ? origin.columnOffset : 0);
+
+  return {
+    startLine: from.line + 1 + origin.lineOffset,
+    startColumn: column(from),
+    endLine: to.line + 1 + origin.lineOffset,
+    endColumn: column(to),
+  };
+}
+
+/**
+ * Returns the span of the non-blank content of normalized lines
+ * `first` through `last` (0-based, inclusive).
+ *
+ * @param origin - Position of the normalized text in the input
+ * @param lines - Lines of the normalized text
+ * @param first - Index of the first line
+ * @param last - Index of the last line (defaults to `first`)
+ */
+export function lineSpan(origin: SourceOrigin, lines: string[], first: number, last = first): SourceSpan {
+  const offsetOf = (index: number): number =>
+    lines.slice(0, index).reduce((sum, line) => sum + line.length + 1, 0);
+
+  const firstLine = lines[first] ?? '';
+  const lastLine = lines[last] ?? '';
+  const start = offsetOf(first) + (firstLine.length - firstLine.trimStart().length);
+  const end = offsetOf(last) + lastLine.trimEnd().length;
+
+  return offsetSpan(origin, lines, start, end);
+}
+
+/**
+ * Moves the spans of a parse result to other lines, e.g. from a stat
+ * block to the document it was found in, or from repaired text back to
+ * the text as pasted.
+ *
+ * @param result - Parse result whose diagnostics and field spans to move
+ * @param mapLine - Maps a line number of the parsed text to the new line number
+ * @returns A copy of the result with moved spans
+ */
+export function mapResultSpans<T extends { diagnostics: ParseDiagnostic[]; spans: FieldSpans }>(
+  result: T,
+  mapLine: (line: number) => number
+): T {
+  const move = (span: SourceSpan): SourceSpan => ({
+    ...span,
+    startLine: mapLine(span.startLine),
+    endLine: mapLine(span.endLine),
+  });
+
+  return {
+    ...result,
+    diagnostics: result.diagnostics.map((diagnostic) =>
+      diagnostic.span ? { ...diagnostic, span: move(diagnostic.span) } : diagnostic
+    ),
+    spans: Object.fromEntries(Object.entries(result.spans).map(([field, span]) => [field, move(span)])),
+  };
+}
+
+/**
+ * Builds a diagnostic, leaving out the span when there is none.
+ *
+ * @param code - Diagnostic code
+ * @param severity - Error or warning
+ * @param message - Human-readable message
+ * @param span - Location in the input, if known
+ */
+export function createDiagnostic(
+  code: DiagnosticCode,
+  severity: DiagnosticSeverity,
+  message: string,
+  span?: SourceSpan
+): ParseDiagnostic {
+  const diagnostic: ParseDiagnostic = { code, severity, message };
+  if (span) {
+    diagnostic.span = span;
+  }
+  return diagnostic;
+}
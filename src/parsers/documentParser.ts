@@ -0,0 +1,286 @@
+/**
+ * Document Parser
+ *
+ * Finds and parses every D&D 5e stat block in a long text, such as an
+ * adventure chapter or a bestiary appendix. A stat block starts at the
+ * name line above a "Small humanoid (goblinoid), neutral evil" type line
+ * that is followed by an Armor Class line. It ends at the next stat block,
+ * or at the first paragraph of prose after its Challenge line: a line
+ * after a blank line that is not a section heading, a "Name. Description"
+ * entry, or a bullet.
+ *
+ * Text outside every stat block is returned as leftovers so nothing is
+ * silently dropped.
+ *
+ * @module parsers/documentParser
+ * @version 1.0.0
+ */
+
+import {
+  ParseResult,
+  SECTION_HEADERS,
+  SIZE_MAP,
+  StatBlockParseOptions,
+  TYPE_MAP,
+  parseStatBlockSafe,
+} from './statBlockParser';
+import { mapResultSpans } from './diagnostics';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A stat block found in a document.
+ */
+export interface DocumentBlock extends ParseResult {
+  /** Creature name (from the parsed result, or the block's first line). */
+  name: string;
+  /** First line of the block (1-based, inclusive). */
+  startLine: number;
+  /** Last line of the block (1-based, inclusive). */
+  endLine: number;
+  /** Raw text of the block. */
+  text: string;
+}
+
+/**
+ * Text outside every stat block.
+ */
+export interface DocumentLeftover {
+  /** First line (1-based, inclusive). */
+  startLine: number;
+  /** Last line (1-based, inclusive). */
+  endLine: number;
+  /** The unparsed text. */
+  text: string;
+}
+
+/**
+ * Result of parsing a document.
+ */
+export interface DocumentParseResult {
+  /** Stat blocks in document order, parsed or not. */
+  blocks: DocumentBlock[];
+  /** Text that is not part of any stat block. */
+  leftovers: DocumentLeftover[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Lines to look ahead of a type line for the Armor Class line. */
+const ARMOR_CLASS_LOOKAHEAD = 6;
+
+/** Longest line accepted as a name or type line. */
+const MAX_HEADER_LENGTH = 80;
+
+/** Words allowed in lowercase inside an entry name ("Keen Hearing and Smell"). */
+const ENTRY_MINOR_WORDS = new Set(['a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// ============================================================================
+// LINE CLASSIFIERS
+// ============================================================================
+
+/**
+ * Returns true for a size/type line ("Huge dragon, chaotic evil",
+ * "Medium Swarm of Tiny Beasts, Unaligned").
+ */
+function isTypeLine(line: string): boolean {
+  const lower = line.toLowerCase();
+  if (lower.length > MAX_HEADER_LENGTH) return false;
+
+  const startsWithSize = Object.keys(SIZE_MAP).some((size) => new RegExp(`^${size}\\b`).test(lower));
+  return startsWithSize && Object.keys(TYPE_MAP).some((type) => new RegExp(`\\b${type}s?\\b`).test(lower));
+}
+
+/**
+ * Returns true for an Armor Class line in either layout.
+ */
+function isArmorClassLine(line: string): boolean {
+  return /^(?:armor\s+class|ac)\s+\d+/i.test(line);
+}
+
+/**
+ * Returns true for a Challenge line in either layout.
+ */
+function isChallengeLine(line: string): boolean {
+  return /^(?:challenge|cr)\s+[\d/]+/i.test(line);
+}
+
+/**
+ * Returns true for a section heading ("Actions", "Legendary Actions").
+ */
+function isSectionHeader(line: string): boolean {
+  return SECTION_HEADERS.includes(line.toLowerCase());
+}
+
+/**
+ * Returns true for a "Name. Description" entry whose name is in title
+ * case, e.g. "Legendary Resistance (3/Day). If the dragon...". Prose such
+ * as "The goblins attack at dusk. They..." is rejected by its lowercase
+ * words, and adventure keys such as "Area 2. The dragon..." by their
+ * trailing number.
+ */
+function isEntryStart(line: string): boolean {
+  const match = line.match(/^([^.()]{1,60}?)\s*(?:\([^)]*\))?\.\s+\S/);
+  if (!match?.[1]) return false;
+
+  const words = match[1].trim().split(/\s+/);
+  return (
+    words.length <= 6 &&
+    !/^\d+$/.test(words[words.length - 1] ?? '') &&
+    words.every((word, i) => /^[A-Z0-9]/.test(word) || (i > 0 && ENTRY_MINOR_WORDS.has(word)))
+  );
+}
+
+/**
+ * Returns true for a bulleted line (lair actions, regional effects).
+ */
+function isBullet(line: string): boolean {
+  return /^[•\-*]\s/.test(line);
+}
+
+// ============================================================================
+// BLOCK DETECTION
+// ============================================================================
+
+/**
+ * Finds the name line index of every stat block.
+ */
+function findBlockStarts(lines: string[]): number[] {
+  const starts: number[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i]?.trim() ?? '';
+    if (!isTypeLine(line)) continue;
+
+    const lookahead = lines.slice(i + 1, i + 1 + ARMOR_CLASS_LOOKAHEAD).map((l) => l.trim());
+    if (!lookahead.some(isArmorClassLine)) continue;
+
+    // The name is the nearest non-blank line above the type line
+    let nameIndex = i - 1;
+    while (nameIndex > 0 && !lines[nameIndex]?.trim()) {
+      nameIndex--;
+    }
+    const name = lines[nameIndex]?.trim() ?? '';
+    const previousStart = starts[starts.length - 1];
+    if (name && name.length <= MAX_HEADER_LENGTH && (previousStart === undefined || nameIndex > previousStart + 1)) {
+      starts.push(nameIndex);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Finds the last line index of a stat block, stopping before trailing
+ * prose or at `limit`.
+ */
+function findBlockEnd(lines: string[], start: number, limit: number): number {
+  let end = limit;
+  let statsDone = false;
+  let afterBlank = false;
+  let previous = '';
+
+  for (let i = start + 2; i <= limit; i++) {
+    const line = lines[i]?.trim() ?? '';
+    if (!line) {
+      afterBlank = true;
+      continue;
+    }
+
+    const continuesBlock =
+      !afterBlank || isSectionHeader(line) || isEntryStart(line) || isBullet(line) || isSectionHeader(previous);
+    if (statsDone && !continuesBlock) {
+      end = i - 1;
+      break;
+    }
+
+    statsDone = statsDone || isChallengeLine(line) || isSectionHeader(line);
+    afterBlank = false;
+    previous = line;
+  }
+
+  while (end > start && !lines[end]?.trim()) {
+    end--;
+  }
+  return end;
+}
+
+/**
+ * Returns the non-blank text between two line indexes as a leftover.
+ */
+function toLeftover(lines: string[], from: number, to: number): DocumentLeftover | null {
+  let first = from;
+  let last = to;
+  while (first <= last && !lines[first]?.trim()) first++;
+  while (last >= first && !lines[last]?.trim()) last--;
+  if (first > last) return null;
+
+  return { startLine: first + 1, endLine: last + 1, text: lines.slice(first, last + 1).join('\n') };
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Parses every D&D 5e stat block in a document.
+ *
+ * Each block is parsed with `parseStatBlockSafe`, so a block that fails
+ * keeps its errors without affecting the others. Line numbers are 1-based
+ * and refer to the input text, including those of field spans,
+ * diagnostics, and OCR repairs.
+ *
+ * @param text - Document text containing any number of stat blocks
+ * @param options - Optional parsing configuration, applied to every block
+ * @returns Stat blocks with their line ranges, and leftover text
+ *
+ * @example
+ * ```typescript
+ * const { blocks, leftovers } = parseDocument(fs.readFileSync('chapter-3.txt', 'utf8'));
+ * for (const block of blocks) {
+ *   console.log(`${block.name} (lines ${block.startLine}-${block.endLine})`, block.errors);
+ * }
+ * ```
+ */
+export function parseDocument(text: string, options: StatBlockParseOptions = {}): DocumentParseResult {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const starts = findBlockStarts(lines);
+  const blocks: DocumentBlock[] = [];
+  const leftovers: DocumentLeftover[] = [];
+
+  let cursor = 0;
+  starts.forEach((start, index) => {
+    const next = starts[index + 1];
+    const end = findBlockEnd(lines, start, next === undefined ? lines.length - 1 : next - 1);
+
+    const leftover = toLeftover(lines, cursor, start - 1);
+    if (leftover) {
+      leftovers.push(leftover);
+    }
+
+    const blockText = lines.slice(start, end + 1).join('\n');
+    const parsed = mapResultSpans(parseStatBlockSafe(blockText, options), (line) => line + start);
+    if (parsed.repairs) {
+      parsed.repairs = parsed.repairs.map((repair) => ({ ...repair, line: repair.line + start }));
+    }
+    blocks.push({
+      ...parsed,
+      name: parsed.result?.name ?? lines[start]?.trim() ?? '',
+      startLine: start + 1,
+      endLine: end + 1,
+      text: blockText,
+    });
+    cursor = end + 1;
+  });
+
+  const trailing = toLeftover(lines, cursor, lines.length - 1);
+  if (trailing) {
+    leftovers.push(trailing);
+  }
+
+  return { blocks, leftovers };
+}
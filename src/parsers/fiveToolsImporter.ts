@@ -0,0 +1,725 @@
+/**
+ * 5etools Monster Importer
+ *
+ * Maps 5etools bestiary JSON (official data and homebrew files) into
+ * DnD5eMonster. Inline tags such as `{@atk mw}`, `{@hit 4}`,
+ * `{@damage 1d6 + 2}`, and `{@dc 13}` are rendered back to stat block
+ * wording, so actions, legendary actions, and lair actions go through
+ * the same entry parsers as pasted text.
+ *
+ * @module parsers/fiveToolsImporter
+ * @version 1.0.0
+ */
+
+import {
+  DnD5eMonster,
+  CreatureSize,
+  Alignment,
+  SpecialAlignment,
+  Speed,
+  AbilityScores,
+  SavingThrow,
+  SkillProficiency,
+  ChallengeRating,
+  Trait,
+  CR_TO_XP,
+  calculateModifier,
+  calculateProficiencyBonus,
+} from '../models/dnd5e';
+import {
+  ABILITY_MAP,
+  SKILL_MAP,
+  TYPE_MAP,
+  parseActionEntries,
+  parseAlignment,
+  parseArmorClass,
+  parseBonusActions,
+  parseConditionImmunities,
+  parseDamageModifiers,
+  parseHitPoints,
+  parseLairActions,
+  parseLegendaryActions,
+  parseMythicActions,
+  parseReaction,
+  parseSenses,
+  parseSpellcasting,
+  parseTrait,
+  toTitleCase,
+} from './statBlockParser';
+import { ImportResult, importEach, isJsonObject, readJsonInput } from './jsonImporter';
+
+// ============================================================================
+// TYPES - 5etools JSON
+// ============================================================================
+
+/**
+ * A 5etools entry: a string, or a block (`list`, `entries`, `item`, ...).
+ */
+export type FiveToolsEntry =
+  | string
+  | {
+      type?: string;
+      name?: string;
+      entry?: FiveToolsEntry;
+      entries?: FiveToolsEntry[];
+      items?: FiveToolsEntry[];
+    };
+
+/**
+ * A named trait or action.
+ */
+export interface FiveToolsNamedEntry {
+  name: string;
+  entries: FiveToolsEntry[];
+}
+
+/**
+ * A damage resistance/immunity/vulnerability entry. Grouped entries
+ * carry their list under the field's own key (`resist`, `immune`, ...).
+ */
+export type FiveToolsDamageEntry =
+  | string
+  | { note?: string; preNote?: string; special?: string; [key: string]: unknown };
+
+/**
+ * A spellcasting block.
+ */
+export interface FiveToolsSpellcasting {
+  name: string;
+  headerEntries?: FiveToolsEntry[];
+  /** Spells by level ("0" for cantrips). */
+  spells?: Record<string, { slots?: number; spells: string[] }>;
+  /** At-will spells. */
+  will?: string[];
+  /** Daily spells keyed by uses ("3e" = 3/day each). */
+  daily?: Record<string, string[]>;
+  ability?: string;
+}
+
+/**
+ * A 5etools monster.
+ */
+export interface FiveToolsMonster {
+  name: string;
+  source?: string;
+  page?: number;
+  size?: string[] | string;
+  type?: string | { type: string | { choose: string[] }; tags?: (string | { tag: string })[] };
+  alignment?: (string | { alignment?: string[]; special?: string })[];
+  ac?: (number | { ac: number; from?: string[]; condition?: string } | { special: string })[];
+  hp?: { average?: number; formula?: string; special?: string };
+  speed?: Record<string, number | boolean | { number: number; condition?: string }>;
+  str?: number;
+  dex?: number;
+  con?: number;
+  int?: number;
+  wis?: number;
+  cha?: number;
+  save?: Record<string, string>;
+  skill?: Record<string, unknown>;
+  senses?: string[] | null;
+  passive?: number | string;
+  resist?: FiveToolsDamageEntry[];
+  immune?: FiveToolsDamageEntry[];
+  vulnerable?: FiveToolsDamageEntry[];
+  conditionImmune?: FiveToolsDamageEntry[];
+  languages?: string[] | null;
+  cr?: string | { cr: string; xp?: number };
+  initiative?: number | { initiative?: number; proficiency?: number };
+  trait?: FiveToolsNamedEntry[];
+  action?: FiveToolsNamedEntry[];
+  bonus?: FiveToolsNamedEntry[];
+  reaction?: FiveToolsNamedEntry[];
+  legendary?: FiveToolsNamedEntry[];
+  legendaryActions?: number;
+  legendaryHeader?: FiveToolsEntry[];
+  mythic?: FiveToolsNamedEntry[];
+  mythicHeader?: FiveToolsEntry[];
+  spellcasting?: FiveToolsSpellcasting[];
+  legendaryGroup?: { name: string; source?: string };
+  environment?: string[];
+  gear?: (string | { item: string; quantity?: number })[];
+  /** Homebrew copy reference (not resolved by the importer). */
+  _copy?: unknown;
+}
+
+/**
+ * A legendary group holding lair actions and regional effects.
+ */
+export interface FiveToolsLegendaryGroup {
+  name: string;
+  source?: string;
+  lairActions?: FiveToolsEntry[];
+  regionalEffects?: FiveToolsEntry[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SIZE_CODES: Record<string, CreatureSize> = {
+  T: CreatureSize.TINY,
+  S: CreatureSize.SMALL,
+  M: CreatureSize.MEDIUM,
+  L: CreatureSize.LARGE,
+  H: CreatureSize.HUGE,
+  G: CreatureSize.GARGANTUAN,
+};
+
+const ALIGNMENT_WORDS: Record<string, string> = {
+  L: 'lawful',
+  N: 'neutral',
+  NX: 'neutral',
+  NY: 'neutral',
+  C: 'chaotic',
+  G: 'good',
+  E: 'evil',
+  U: 'unaligned',
+  A: 'any alignment',
+};
+
+const ATTACK_CODES: Record<string, string> = {
+  mw: 'Melee Weapon Attack:',
+  rw: 'Ranged Weapon Attack:',
+  'mw,rw': 'Melee or Ranged Weapon Attack:',
+  ms: 'Melee Spell Attack:',
+  rs: 'Ranged Spell Attack:',
+  'ms,rs': 'Melee or Ranged Spell Attack:',
+  m: 'Melee Attack Roll:',
+  r: 'Ranged Attack Roll:',
+  'm,r': 'Melee or Ranged Attack Roll:',
+};
+
+const ABILITY_NAMES: Record<string, string> = {
+  str: 'Strength',
+  dex: 'Dexterity',
+  con: 'Constitution',
+  int: 'Intelligence',
+  wis: 'Wisdom',
+  cha: 'Charisma',
+};
+
+/** Tags rendered as fixed stat block wording. */
+const FIXED_TAGS: Record<string, string> = {
+  h: 'Hit:',
+  m: 'Miss:',
+  hom: 'Hit or Miss:',
+  actSaveFail: 'Failure:',
+  actSaveSuccess: 'Success:',
+  actSaveSuccessOrFail: 'Failure or Success:',
+  actTrigger: 'Trigger:',
+  actResponse: 'Response:',
+  dcYourSpellSave: 'your spell save DC',
+};
+
+// ============================================================================
+// TAG AND ENTRY RENDERING
+// ============================================================================
+
+/**
+ * Renders one inline tag to plain stat block text.
+ */
+function renderTag(tag: string, content: string): string {
+  const fixed = FIXED_TAGS[tag];
+  if (fixed !== undefined) {
+    return fixed;
+  }
+
+  const text = content.trim();
+  switch (tag) {
+    case 'atk':
+    case 'atkr':
+      return ATTACK_CODES[text.replace(/\s/g, '')] ?? 'Melee Weapon Attack:';
+    case 'hit':
+    case 'd20':
+      return /^[+-]/.test(text) ? text : `+${text}`;
+    case 'dc':
+      return `DC ${text.split('|')[0] ?? text}`;
+    case 'recharge':
+      return text && text !== '6' ? `(Recharge ${text}-6)` : '(Recharge 6)';
+    case 'actSave':
+      return `${ABILITY_NAMES[text.toLowerCase()] ?? toTitleCase(text)} Saving Throw:`;
+    case 'chance':
+      return `${text.split('|')[0] ?? text} percent`;
+    default: {
+      // {@tag text|source|display text}
+      const parts = text.split('|');
+      return parts[2] || parts[0] || '';
+    }
+  }
+}
+
+/**
+ * Strips 5etools inline tags, rendering them as stat block wording:
+ * `{@atk mw} {@hit 4} to hit` becomes "Melee Weapon Attack: +4 to hit",
+ * `{@h}5 ({@damage 1d6 + 2})` becomes "Hit: 5 (1d6 + 2)", and
+ * `{@spell fire bolt}` becomes "fire bolt".
+ *
+ * @param text - Text containing `{@tag ...}` markup
+ * @returns Plain text
+ *
+ * @example
+ * ```typescript
+ * stripFiveToolsTags('{@atk mw} {@hit 4} to hit, reach 5 ft.');
+ * // "Melee Weapon Attack: +4 to hit, reach 5 ft."
+ * ```
+ */
+export function stripFiveToolsTags(text: string): string {
+  let result = text;
+  let previous: string;
+
+  // Innermost tags first, so nested tags render inside out
+  do {
+    previous = result;
+    result = result.replace(/\{@(\w+)\s*([^{}]*)\}/g, (_match, tag: string, content: string) =>
+      renderTag(tag, content)
+    );
+  } while (result !== previous);
+
+  return result
+    .replace(/(Hit:|Miss:|Failure:|Success:|Trigger:|Response:)(?=\S)/g, '$1 ')
+    .replace(/[−–]/g, '-')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Renders entries as one paragraph of plain text.
+ */
+function renderEntries(entries: FiveToolsEntry[] | undefined): string {
+  return (entries ?? [])
+    .map((entry) => {
+      if (typeof entry === 'string') {
+        return stripFiveToolsTags(entry);
+      }
+      const body = renderEntries([
+        ...(entry.entry !== undefined ? [entry.entry] : []),
+        ...(entry.entries ?? []),
+        ...(entry.items ?? []),
+      ]);
+      return entry.name ? `${stripFiveToolsTags(entry.name)}. ${body}` : body;
+    })
+    .filter((text) => text)
+    .join(' ');
+}
+
+/**
+ * Renders lair or regional effect entries as lines, with list items
+ * as bullets.
+ */
+function renderLairEntries(entries: FiveToolsEntry[] | undefined): string {
+  const lines: string[] = [];
+
+  for (const entry of entries ?? []) {
+    if (typeof entry === 'string') {
+      lines.push(stripFiveToolsTags(entry));
+    } else if (entry.items) {
+      lines.push(...entry.items.map((item) => `• ${renderEntries([item])}`));
+    } else {
+      lines.push(renderEntries([entry]));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a named entry as "Name. Description".
+ */
+function renderNamedEntry(entry: FiveToolsNamedEntry): string {
+  return `${stripFiveToolsTags(entry.name)}. ${renderEntries(entry.entries)}`;
+}
+
+// ============================================================================
+// FIELD MAPPERS
+// ============================================================================
+
+/**
+ * Maps alignment codes (["C", "E"], ["L", "NX", "C", "E"]) to an alignment.
+ */
+function mapAlignment(codes: FiveToolsMonster['alignment']): Alignment {
+  const first = codes?.[0];
+  if (first === undefined) return SpecialAlignment.UNALIGNED;
+  if (typeof first !== 'string') {
+    if (first.special) return parseAlignment(first.special);
+    return mapAlignment(first.alignment);
+  }
+
+  const list = (codes ?? []).filter((code): code is string => typeof code === 'string');
+  if (list.length <= 2) {
+    return parseAlignment(list.map((code) => ALIGNMENT_WORDS[code] ?? '').join(' '));
+  }
+
+  // Choices spanning several alignments ("any evil", "any non-lawful")
+  const has = (code: string): boolean => list.includes(code);
+  const goodEvil = ['G', 'NY', 'E'].filter(has);
+  const lawChaos = ['L', 'NX', 'C'].filter(has);
+  if (goodEvil.length === 1 && goodEvil[0] !== 'NY') return parseAlignment(`any ${ALIGNMENT_WORDS[goodEvil[0]!]}`);
+  if (lawChaos.length === 1 && lawChaos[0] !== 'NX') return parseAlignment(`any ${ALIGNMENT_WORDS[lawChaos[0]!]}`);
+
+  const missing = ['G', 'E', 'L', 'C'].find((code) => !has(code));
+  return missing ? parseAlignment(`any non-${ALIGNMENT_WORDS[missing]}`) : SpecialAlignment.ANY;
+}
+
+/**
+ * Maps the speed object, including `canHover` and `{ number, condition }`.
+ */
+function mapSpeed(speed: FiveToolsMonster['speed']): Speed {
+  const result: Speed = {};
+  const modes = ['walk', 'fly', 'swim', 'climb', 'burrow'] as const;
+  let hover = speed?.['canHover'] === true;
+
+  for (const mode of modes) {
+    const value = speed?.[mode];
+    if (typeof value === 'number') {
+      result[mode] = value;
+    } else if (isJsonObject(value)) {
+      result[mode] = value.number;
+      hover = hover || (mode === 'fly' && /hover/i.test(value.condition ?? ''));
+    }
+  }
+
+  if (result.fly !== undefined) {
+    result.hover = hover;
+  }
+  return result;
+}
+
+/**
+ * Renders resistance/immunity/vulnerability entries as stat block text
+ * ("fire; bludgeoning, piercing, slashing from nonmagical attacks").
+ */
+function renderDamageEntries(entries: FiveToolsDamageEntry[] | undefined, key: string): string {
+  return (entries ?? [])
+    .map((entry) => {
+      if (typeof entry === 'string') return entry;
+      if (entry.special) return entry.special;
+      const nested = entry[key];
+      const list = Array.isArray(nested) ? renderDamageEntries(nested as FiveToolsDamageEntry[], key) : '';
+      return [entry.preNote, list, entry.note].filter((part) => part).join(' ');
+    })
+    .map(stripFiveToolsTags)
+    .join('; ');
+}
+
+/**
+ * Maps the challenge rating, which may be a string or `{ cr, lair }`.
+ */
+function mapChallengeRating(cr: FiveToolsMonster['cr']): ChallengeRating {
+  const crStr = typeof cr === 'string' ? cr : cr?.cr;
+  if (!crStr || !/^\d+(?:\/\d+)?$/.test(crStr)) {
+    throw new Error(`Unsupported challenge rating: ${crStr ?? 'missing'}`);
+  }
+
+  const xp = (typeof cr === 'object' ? cr.xp : undefined) ?? CR_TO_XP[crStr] ?? 0;
+  return { cr: crStr.includes('/') ? crStr : parseInt(crStr, 10), xp };
+}
+
+/**
+ * Builds spellcasting from the first spellcasting block. Structured
+ * spell lists are rendered as "1st level (4 slots): ..." lines and parsed
+ * with the header text.
+ */
+function mapSpellcasting(blocks: FiveToolsSpellcasting[], warnings: string[]): DnD5eMonster['spellcasting'] {
+  const [block, ...rest] = blocks;
+  if (!block) return undefined;
+  if (rest.length > 0) {
+    warnings.push(`Only the first of ${blocks.length} spellcasting blocks was imported`);
+  }
+
+  const ordinal = (n: number): string => `${n}${n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th'}`;
+  const spellList = (spells: string[]): string => spells.map(stripFiveToolsTags).join(', ');
+  const lines = [renderEntries(block.headerEntries)];
+
+  for (const [level, { slots, spells }] of Object.entries(block.spells ?? {})) {
+    const label = level === '0' ? 'Cantrips' : `${ordinal(parseInt(level, 10))} level`;
+    const usage = level === '0' ? 'at will' : slots !== undefined ? `${slots} slots` : '';
+    lines.push(`${label}${usage ? ` (${usage})` : ''}: ${spellList(spells)}`);
+  }
+  if (block.will) {
+    lines.push(`At will: ${spellList(block.will)}`);
+  }
+  for (const [uses, spells] of Object.entries(block.daily ?? {})) {
+    lines.push(`${parseInt(uses, 10)}/day${uses.endsWith('e') ? ' each' : ''}: ${spellList(spells)}`);
+  }
+
+  // Fall back to the block's ability field when the header doesn't name it
+  const abilityName = ABILITY_NAMES[block.ability ?? ''];
+  const header = abilityName ? `${lines[0]} Its spellcasting ability is ${abilityName}.` : lines[0];
+  const spellcasting = parseSpellcasting(block.name, [header, ...lines.slice(1)].join('\n'));
+  if (!spellcasting) {
+    warnings.push(`Could not read the spell save DC of "${block.name}"`);
+    return undefined;
+  }
+  return spellcasting;
+}
+
+// ============================================================================
+// MONSTER IMPORT
+// ============================================================================
+
+/**
+ * Maps one 5etools monster, pushing warnings for data that was dropped.
+ */
+function mapMonster(
+  source: FiveToolsMonster,
+  legendaryGroups: FiveToolsLegendaryGroup[],
+  warnings: string[]
+): DnD5eMonster {
+  if (source._copy !== undefined) {
+    throw new Error('Monster uses _copy; resolve copies before importing');
+  }
+
+  const sizeCode = Array.isArray(source.size) ? source.size[0] : source.size;
+  const size = SIZE_CODES[sizeCode ?? ''];
+  if (!size) {
+    throw new Error(`Unknown size: ${String(sizeCode)}`);
+  }
+
+  const rawType = typeof source.type === 'object' ? source.type.type : source.type;
+  const typeName = typeof rawType === 'object' ? rawType.choose[0] : rawType;
+  const creatureType = TYPE_MAP[(typeName ?? '').toLowerCase()];
+  if (!creatureType) {
+    throw new Error(`Unknown creature type: ${String(typeName)}`);
+  }
+
+  const acEntry = source.ac?.[0];
+  const ac =
+    typeof acEntry === 'number'
+      ? parseArmorClass(`AC ${acEntry}`)
+      : acEntry && 'ac' in acEntry
+        ? parseArmorClass(`AC ${acEntry.ac}${acEntry.from ? ` (${acEntry.from.map(stripFiveToolsTags).join(', ')})` : ''}`)
+        : null;
+  if (!ac) {
+    throw new Error('Missing armor class');
+  }
+
+  const hp =
+    source.hp?.average !== undefined
+      ? parseHitPoints(`HP ${source.hp.average}${source.hp.formula ? ` (${source.hp.formula})` : ''}`)
+      : null;
+  if (!hp) {
+    throw new Error(`Missing hit points${source.hp?.special ? ` (special: ${source.hp.special})` : ''}`);
+  }
+
+  const abilityScores: AbilityScores = {
+    STR: source.str ?? 10,
+    DEX: source.dex ?? 10,
+    CON: source.con ?? 10,
+    INT: source.int ?? 10,
+    WIS: source.wis ?? 10,
+    CHA: source.cha ?? 10,
+  };
+
+  const challengeRating = mapChallengeRating(source.cr);
+  const proficiencyBonus = calculateProficiencyBonus(challengeRating.cr);
+  const senses = [...(source.senses ?? []), `passive Perception ${source.passive ?? 10}`];
+
+  const monster: DnD5eMonster = {
+    name: source.name,
+    size,
+    creatureType,
+    alignment: mapAlignment(source.alignment),
+    armorClass: ac,
+    hitPoints: hp,
+    speed: mapSpeed(source.speed),
+    abilityScores,
+    senses: parseSenses(stripFiveToolsTags(senses.join(', '))),
+    languages: (source.languages ?? []).map(stripFiveToolsTags),
+    challengeRating,
+    proficiencyBonus,
+  };
+
+  if (typeof source.type === 'object' && source.type.tags?.length) {
+    monster.subtypes = source.type.tags.map((tag) => (typeof tag === 'string' ? tag : tag.tag));
+  }
+
+  if (source.initiative !== undefined) {
+    const modifier =
+      typeof source.initiative === 'number'
+        ? source.initiative
+        : source.initiative.initiative ??
+          calculateModifier(abilityScores.DEX) + (source.initiative.proficiency ?? 0) * proficiencyBonus;
+    monster.initiative = { modifier, score: 10 + modifier };
+  }
+
+  const savingThrows: SavingThrow[] = Object.entries(source.save ?? {}).flatMap(([key, value]) => {
+    const ability = ABILITY_MAP[key.toLowerCase()];
+    return ability ? [{ ability, modifier: parseInt(value, 10) }] : [];
+  });
+  if (savingThrows.length > 0) {
+    monster.savingThrows = savingThrows;
+  }
+
+  const skills: SkillProficiency[] = Object.entries(source.skill ?? {}).flatMap(([key, value]) => {
+    const skill = SKILL_MAP[key.toLowerCase()];
+    return skill && typeof value === 'string' ? [{ skill, modifier: parseInt(value, 10) }] : [];
+  });
+  if (skills.length > 0) {
+    monster.skills = skills;
+  }
+
+  const damageModifiers = parseDamageModifiers(
+    renderDamageEntries(source.resist, 'resist'),
+    renderDamageEntries(source.immune, 'immune'),
+    renderDamageEntries(source.vulnerable, 'vulnerable')
+  );
+  if (
+    damageModifiers.resistances.length > 0 ||
+    damageModifiers.immunities.length > 0 ||
+    damageModifiers.vulnerabilities.length > 0
+  ) {
+    monster.damageModifiers = damageModifiers;
+  }
+
+  const conditionImmunities = parseConditionImmunities(
+    renderDamageEntries(source.conditionImmune, 'conditionImmune')
+  );
+  if (conditionImmunities.length > 0) {
+    monster.conditionImmunities = conditionImmunities;
+  }
+
+  const traits: Trait[] = (source.trait ?? []).map((entry) => parseTrait(renderNamedEntry(entry)));
+  if (traits.length > 0) {
+    monster.traits = traits;
+  }
+
+  const spellcasting = mapSpellcasting(source.spellcasting ?? [], warnings);
+  if (spellcasting) {
+    monster.spellcasting = spellcasting;
+  }
+
+  const { multiattack, attacks, actions } = parseActionEntries((source.action ?? []).map(renderNamedEntry));
+  if (multiattack) {
+    monster.multiattack = multiattack;
+  }
+  if (attacks.length > 0) {
+    monster.attacks = attacks;
+  }
+  if (actions.length > 0) {
+    monster.actions = actions;
+  }
+
+  const bonusActions = parseBonusActions((source.bonus ?? []).map(renderNamedEntry).join('\n'));
+  if (bonusActions.length > 0) {
+    monster.bonusActions = bonusActions;
+  }
+
+  const reactions = (source.reaction ?? []).map((entry) => parseReaction(renderNamedEntry(entry)));
+  if (reactions.length > 0) {
+    monster.reactions = reactions;
+  }
+
+  if (source.legendary?.length) {
+    const count = source.legendaryActions ?? 3;
+    const header =
+      renderEntries(source.legendaryHeader) ||
+      `The ${source.name.toLowerCase()} can take ${count} legendary actions, choosing from the options below.`;
+    const legendary = parseLegendaryActions([header, ...source.legendary.map(renderNamedEntry)].join('\n'));
+    if (legendary) {
+      monster.legendaryActions = { ...legendary, count };
+    }
+  }
+
+  if (source.mythic?.length) {
+    const mythic = parseMythicActions(
+      [renderEntries(source.mythicHeader), ...source.mythic.map(renderNamedEntry)].join('\n'),
+      traits,
+      (source.trait ?? []).map(renderNamedEntry).join(' '),
+      monster.legendaryActions?.count
+    );
+    if (mythic) {
+      monster.mythicActions = mythic;
+    }
+  }
+
+  if (source.legendaryGroup) {
+    const { name, source: groupSource } = source.legendaryGroup;
+    const group = legendaryGroups.find(
+      (g) => g.name === name && (!groupSource || !g.source || g.source === groupSource)
+    );
+    const lair = group
+      ? parseLairActions(
+          group.lairActions ? renderLairEntries(group.lairActions) : undefined,
+          group.regionalEffects ? renderLairEntries(group.regionalEffects) : undefined
+        )
+      : null;
+    if (lair) {
+      monster.lairActions = lair;
+    } else if (!group) {
+      warnings.push(`Legendary group "${name}" not found; lair actions were not imported`);
+    }
+  }
+
+  if (source.environment?.length) {
+    monster.environments = source.environment;
+  }
+
+  if (source.gear?.length) {
+    monster.gear = source.gear.map((item) => {
+      const name = toTitleCase(stripFiveToolsTags(`{@item ${typeof item === 'string' ? item : item.item}}`));
+      return typeof item === 'object' && item.quantity ? `${name} (${item.quantity})` : name;
+    });
+  }
+
+  if (source.source) {
+    monster.source = source.source;
+  }
+  if (source.page !== undefined) {
+    monster.sourcePage = source.page;
+  }
+
+  return monster;
+}
+
+/**
+ * Imports a single 5etools monster.
+ *
+ * @param monster - 5etools monster object
+ * @param legendaryGroups - Legendary groups to look up lair actions in
+ * @returns The monster as a DnD5eMonster
+ * @throws Error if required fields (size, type, AC, HP, CR) are missing
+ *
+ * @example
+ * ```typescript
+ * const goblin = importFiveToolsMonster(bestiary.monster[0]);
+ * const result = convertFromStatBlock(goblin);
+ * ```
+ */
+export function importFiveToolsMonster(
+  monster: FiveToolsMonster,
+  legendaryGroups: FiveToolsLegendaryGroup[] = []
+): DnD5eMonster {
+  return mapMonster(monster, legendaryGroups, []);
+}
+
+/**
+ * Imports every monster in 5etools JSON.
+ *
+ * Accepts a bestiary or homebrew file (`{ monster: [...], legendaryGroup:
+ * [...] }`), an array of monsters, or a single monster, as parsed JSON or
+ * JSON text. Monsters that fail are reported in `errors` and skipped.
+ *
+ * @param json - 5etools JSON
+ * @returns Imported monsters with errors and warnings
+ *
+ * @example
+ * ```typescript
+ * const { monsters, errors } = importFiveTools(fs.readFileSync('homebrew.json', 'utf8'));
+ * const results = monsters.map((monster) => convertFromStatBlock(monster));
+ * ```
+ */
+export function importFiveTools(json: unknown): ImportResult {
+  let data: unknown;
+  try {
+    data = readJsonInput(json);
+  } catch (error) {
+    return { monsters: [], errors: [error instanceof Error ? error.message : String(error)], warnings: [] };
+  }
+
+  const file = isJsonObject(data) && Array.isArray(data['monster']) ? data : undefined;
+  const monsters = (file ? file['monster'] : Array.isArray(data) ? data : [data]) as FiveToolsMonster[];
+  const legendaryGroups = (file?.['legendaryGroup'] ?? []) as FiveToolsLegendaryGroup[];
+
+  return importEach(monsters, (monster, warnings) => mapMonster(monster, legendaryGroups, warnings));
+}
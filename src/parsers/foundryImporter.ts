@@ -0,0 +1,1037 @@
+/**
+ * Foundry VTT Actor Importer
+ *
+ * Maps Foundry VTT dnd5e NPC actor exports (dnd5e system 2.x-4.x data:
+ * `system.attributes`, `system.abilities`, and embedded `items`) into
+ * DnD5eMonster. Each weapon or feat item is sorted by its activation type
+ * into actions, bonus actions, reactions, legendary, mythic, or lair
+ * actions, or traits when it has no activation. Item uses and recharge
+ * become `uses`/`recharge`, and spell items become structured
+ * spellcasting. dnd5e 4.x items keep activation, attack, save, and damage
+ * data on their `system.activities`, which are read when the legacy item
+ * fields are absent.
+ *
+ * Attacks whose description does not already read as a stat block attack
+ * are rendered from the item's attack data ("Melee Weapon Attack: +4 to
+ * hit, ...") and go through the same entry parsers as pasted text.
+ *
+ * @module parsers/foundryImporter
+ * @version 1.0.0
+ */
+
+import {
+  DnD5eMonster,
+  AbilityScore,
+  AbilityScores,
+  ArmorClass,
+  CreatureSize,
+  ChallengeRating,
+  Speed,
+  SavingThrow,
+  SkillProficiency,
+  Spell,
+  SpellSlots,
+  Spellcasting,
+  InnateSpellcasting,
+  TraditionalSpellcasting,
+  Trait,
+  LairActions,
+  CR_TO_XP,
+  calculateModifier,
+  calculateProficiencyBonus,
+} from '../models/dnd5e';
+import {
+  ABILITY_MAP,
+  SKILL_MAP,
+  TYPE_MAP,
+  parseActionEntries,
+  parseAlignment,
+  parseArmorClass,
+  parseBonusActions,
+  parseConditionImmunities,
+  parseDamageModifiers,
+  parseDiceExpression,
+  parseLegendaryActions,
+  parseMythicActions,
+  parseReaction,
+  parseSenses,
+  parseTrait,
+  toTitleCase,
+} from './statBlockParser';
+import { ImportResult, importEach, isJsonObject, readJsonInput } from './jsonImporter';
+
+// ============================================================================
+// TYPES - Foundry dnd5e JSON
+// ============================================================================
+
+/**
+ * Item uses (`system.uses`).
+ */
+export interface FoundryItemUses {
+  value?: number | null;
+  max?: number | string | null;
+  /** Recovery period: `sr`, `lr`, `day`, `dawn`, `dusk`, or `charges`. */
+  per?: string | null;
+  /** dnd5e 4.x recovery rules; a `recharge` period holds the recharge roll in `formula`. */
+  recovery?: Array<{ period?: string | null; type?: string | null; formula?: string | null }>;
+}
+
+/**
+ * A dnd5e 4.x damage part (`{ number: 2, denomination: 6, types: ['fire'] }`).
+ */
+export interface FoundryDamagePart {
+  number?: number | null;
+  denomination?: number | null;
+  bonus?: string | null;
+  types?: string[];
+  custom?: { enabled?: boolean; formula?: string | null };
+}
+
+/**
+ * A dnd5e 4.x item activity (`system.activities`), which replaced the
+ * item-level activation, action type, save, and damage fields.
+ */
+export interface FoundryActivity {
+  /** `attack`, `save`, `damage`, `utility`, `heal`, `cast`, ... */
+  type?: string;
+  activation?: { type?: string | null; value?: number | null; condition?: string | null };
+  attack?: {
+    bonus?: string | null;
+    type?: { value?: string | null; classification?: string | null };
+  };
+  damage?: { includeBase?: boolean; parts?: FoundryDamagePart[] };
+  save?: { ability?: string[]; dc?: { calculation?: string | null; formula?: string | null; value?: number | null } };
+}
+
+/**
+ * An embedded item: a weapon, feat, spell, or piece of equipment.
+ */
+export interface FoundryItem {
+  name: string;
+  type: string;
+  system?: {
+    description?: { value?: string | null };
+    activation?: { type?: string | null; cost?: number | null; condition?: string | null };
+    uses?: FoundryItemUses;
+    recharge?: { value?: number | null; charged?: boolean };
+    /** `mwak`, `rwak`, `msak`, `rsak`, `save`, `heal`, `util`, ... */
+    actionType?: string | null;
+    ability?: string | null;
+    attackBonus?: string | number | null;
+    proficient?: boolean | number | null;
+    /** Legacy `parts`, or the dnd5e 4.x weapon `base` damage. */
+    damage?: { parts?: [string, string][]; versatile?: string | null; base?: FoundryDamagePart };
+    range?: { value?: number | null; long?: number | null; reach?: number | null; units?: string | null };
+    /** v3 uses an array of codes, v2 an object of flags. */
+    properties?: string[] | Record<string, boolean>;
+    save?: { ability?: string | null; dc?: number | null; scaling?: string | null };
+    armor?: { value?: number | null; type?: string | null; dex?: number | null };
+    equipped?: boolean;
+    /** Spell level (0 for cantrips). */
+    level?: number;
+    preparation?: { mode?: string | null; prepared?: boolean };
+    /** dnd5e 4.x activities keyed by ID. */
+    activities?: Record<string, FoundryActivity>;
+  };
+}
+
+/**
+ * A damage resistance/immunity/vulnerability or condition immunity trait.
+ */
+export interface FoundryTraitSet {
+  value?: string[];
+  /** Material bypasses for physical damage: `mgc`, `ada`, `sil`. */
+  bypasses?: string[];
+  custom?: string;
+}
+
+/**
+ * An exported Foundry VTT dnd5e NPC actor.
+ */
+export interface FoundryActor {
+  name: string;
+  type?: string;
+  system: {
+    abilities?: Record<string, { value?: number; proficient?: number }>;
+    attributes?: {
+      ac?: { flat?: number | null; calc?: string; value?: number };
+      hp?: { value?: number | null; max?: number | null; formula?: string | null };
+      movement?: Record<string, number | string | boolean | null>;
+      senses?: Record<string, number | string | null>;
+      spellcasting?: string | null;
+      spelldc?: number;
+    };
+    details?: {
+      alignment?: string;
+      type?: string | { value?: string; subtype?: string; swarm?: string; custom?: string };
+      cr?: number | string | null;
+      spellLevel?: number;
+      environment?: string;
+      source?: string | { book?: string; page?: string; custom?: string };
+    };
+    traits?: {
+      size?: string;
+      di?: FoundryTraitSet;
+      dr?: FoundryTraitSet;
+      dv?: FoundryTraitSet;
+      ci?: FoundryTraitSet;
+      languages?: FoundryTraitSet;
+    };
+    skills?: Record<string, { value?: number; ability?: string }>;
+    resources?: {
+      legact?: { value?: number; max?: number };
+      legres?: { value?: number; max?: number };
+      lair?: { value?: boolean; initiative?: number | null };
+    };
+    spells?: Record<string, { value?: number; max?: number; override?: number | null; level?: number }>;
+  };
+  items?: FoundryItem[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SIZE_CODES: Record<string, CreatureSize> = {
+  tiny: CreatureSize.TINY,
+  sm: CreatureSize.SMALL,
+  med: CreatureSize.MEDIUM,
+  lg: CreatureSize.LARGE,
+  huge: CreatureSize.HUGE,
+  grg: CreatureSize.GARGANTUAN,
+};
+
+/** Skill codes with their default ability. */
+const SKILL_CODES: Record<string, [string, string]> = {
+  acr: ['acrobatics', 'dex'],
+  ani: ['animal handling', 'wis'],
+  arc: ['arcana', 'int'],
+  ath: ['athletics', 'str'],
+  dec: ['deception', 'cha'],
+  his: ['history', 'int'],
+  ins: ['insight', 'wis'],
+  itm: ['intimidation', 'cha'],
+  inv: ['investigation', 'int'],
+  med: ['medicine', 'wis'],
+  nat: ['nature', 'int'],
+  prc: ['perception', 'wis'],
+  prf: ['performance', 'cha'],
+  per: ['persuasion', 'cha'],
+  rel: ['religion', 'int'],
+  slt: ['sleight of hand', 'dex'],
+  ste: ['stealth', 'dex'],
+  sur: ['survival', 'wis'],
+};
+
+const ABILITY_NAMES: Record<AbilityScore, string> = {
+  [AbilityScore.STRENGTH]: 'Strength',
+  [AbilityScore.DEXTERITY]: 'Dexterity',
+  [AbilityScore.CONSTITUTION]: 'Constitution',
+  [AbilityScore.INTELLIGENCE]: 'Intelligence',
+  [AbilityScore.WISDOM]: 'Wisdom',
+  [AbilityScore.CHARISMA]: 'Charisma',
+};
+
+const ATTACK_LABELS: Record<string, string> = {
+  mwak: 'Melee Weapon Attack:',
+  rwak: 'Ranged Weapon Attack:',
+  msak: 'Melee Spell Attack:',
+  rsak: 'Ranged Spell Attack:',
+};
+
+const USES_RECOVERY: Record<string, NonNullable<Trait['uses']>['rechargeOn']> = {
+  sr: 'short rest',
+  lr: 'long rest',
+  day: 'dawn',
+  dawn: 'dawn',
+  dusk: 'dawn',
+  charges: 'never',
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  deep: 'Deep Speech',
+  cant: "Thieves' Cant",
+};
+
+const PHYSICAL_DAMAGE = ['bludgeoning', 'piercing', 'slashing'];
+
+const BYPASS_WORDS: Record<string, string> = {
+  ada: "that aren't adamantine",
+  sil: "that aren't silvered",
+};
+
+/** Activation types that make an item part of the action economy. */
+type ItemCategory = 'trait' | 'action' | 'bonus' | 'reaction' | 'legendary' | 'mythic' | 'lair';
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Converts item description HTML to plain text, keeping the labels of
+ * Foundry enrichers (`@UUID[...]{Label}`, `&Reference[prone]`, `[[/r 1d6]]`).
+ */
+function stripHtml(html: string | null | undefined): string {
+  return (html ?? '')
+    .replace(/@\w+\[[^\]]*\]\{([^}]*)\}/g, '$1')
+    .replace(/@\w+\[[^\]]*\]/g, '')
+    .replace(/&Reference\[([^\]]*)\]/g, '$1')
+    .replace(/\[\[\/?(?:r|roll)?\s*([^\]]*)\]\](?:\{([^}]*)\})?/g, (_match, roll: string, label?: string) => label ?? roll)
+    .replace(/<br\s*\/?>|<\/(?:p|div|li|h\d)>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&rsquo;/g, "'")
+    .replace(/[−–]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Returns a numeric value from a number or numeric string.
+ */
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Returns an item's dnd5e 4.x activities in export order.
+ */
+function activitiesOf(item: FoundryItem): FoundryActivity[] {
+  return Object.values(item.system?.activities ?? {});
+}
+
+/**
+ * Reads an item's activation from the legacy field, or else from its first
+ * activity that has one.
+ */
+function activationOf(item: FoundryItem): {
+  type: string;
+  cost: number | null | undefined;
+  condition: string | null | undefined;
+} {
+  const legacy = item.system?.activation;
+  if (legacy?.type) {
+    return { type: legacy.type, cost: legacy.cost, condition: legacy.condition };
+  }
+  const activation = activitiesOf(item).find((activity) => activity.activation?.type)?.activation;
+  return { type: activation?.type ?? '', cost: activation?.value, condition: activation?.condition };
+}
+
+/**
+ * Reads an item's action type (`mwak`, `save`, ...) from the legacy field,
+ * or else from its attack or save activity.
+ */
+function actionTypeOf(item: FoundryItem): string {
+  if (item.system?.actionType) return item.system.actionType;
+
+  const activities = activitiesOf(item);
+  const attack = activities.find((activity) => activity.type === 'attack')?.attack;
+  if (attack) {
+    const reach = attack.type?.value === 'ranged' ? 'r' : 'm';
+    return `${reach}${attack.type?.classification === 'spell' ? 's' : 'w'}ak`;
+  }
+  return activities.some((activity) => activity.type === 'save') ? 'save' : '';
+}
+
+/**
+ * Reads an item's saving throw from the legacy field, or else from its
+ * save activity.
+ */
+function saveOf(item: FoundryItem): { ability?: string | null | undefined; dc?: number | null | undefined } | undefined {
+  if (item.system?.save?.ability) return item.system.save;
+
+  const save = activitiesOf(item).find((activity) => activity.type === 'save')?.save;
+  if (!save) return undefined;
+  return { ability: save.ability?.[0], dc: save.dc?.value ?? toNumber(save.dc?.formula) };
+}
+
+/**
+ * Reads an item's damage as `[formula, type]` pairs from the legacy
+ * `damage.parts`, or else from its weapon base damage and activity parts.
+ */
+function damagePartsOf(item: FoundryItem): [string, string][] {
+  const legacy = item.system?.damage?.parts ?? [];
+  if (legacy.length > 0) return legacy;
+
+  // dnd5e 4.x adds the ability modifier to weapon base damage itself
+  const toPart = (part: FoundryDamagePart, withMod: boolean): [string, string] => {
+    const formula = part.custom?.enabled
+      ? (part.custom.formula ?? '')
+      : part.number && part.denomination
+        ? `${part.number}d${part.denomination}${part.bonus ? ` + ${part.bonus}` : ''}${withMod ? ' + @mod' : ''}`
+        : '';
+    return [formula, part.types?.[0] ?? ''];
+  };
+
+  const activity = activitiesOf(item).find((entry) => entry.type === 'attack' || (entry.damage?.parts?.length ?? 0) > 0);
+  const parts: [string, string][] = [];
+  const base = item.system?.damage?.base;
+  if (base && activity?.type === 'attack' && activity.damage?.includeBase !== false) {
+    parts.push(toPart(base, true));
+  }
+  for (const part of activity?.damage?.parts ?? []) {
+    parts.push(toPart(part, false));
+  }
+  return parts.filter(([formula]) => formula !== '');
+}
+
+/**
+ * Sorts an item by its activation type.
+ */
+function categorize(item: FoundryItem): ItemCategory {
+  const activation = activationOf(item).type;
+  if (activation === 'bonus') return 'bonus';
+  if (activation.startsWith('reaction')) return 'reaction';
+  if (activation === 'legendary' || activation === 'mythic' || activation === 'lair') return activation;
+  if (activation === 'action') return 'action';
+  return item.type === 'weapon' ? 'action' : 'trait';
+}
+
+/**
+ * Returns true for items carrying the given weapon property.
+ */
+function hasProperty(item: FoundryItem, property: string): boolean {
+  const properties = item.system?.properties;
+  return Array.isArray(properties) ? properties.includes(property) : properties?.[property] === true;
+}
+
+/**
+ * Computes the spell save DC and attack bonus for the actor.
+ */
+function spellStats(actor: FoundryActor, abilityScores: AbilityScores, proficiencyBonus: number): {
+  ability: AbilityScore;
+  dc: number;
+  attackBonus: number;
+} {
+  const ability = ABILITY_MAP[actor.system.attributes?.spellcasting ?? ''] ?? AbilityScore.INTELLIGENCE;
+  const attackBonus = calculateModifier(abilityScores[ability]) + proficiencyBonus;
+  const dc = actor.system.attributes?.spelldc ?? 8 + attackBonus;
+  return { ability, dc, attackBonus };
+}
+
+// ============================================================================
+// FIELD MAPPERS
+// ============================================================================
+
+/**
+ * Maps the challenge rating, stored as a number (0.25) or string.
+ */
+function mapChallengeRating(cr: number | string | null | undefined): ChallengeRating {
+  const fractions: Record<string, string> = { '0.125': '1/8', '0.25': '1/4', '0.5': '1/2' };
+  const crStr = cr === null || cr === undefined ? '' : (fractions[String(cr)] ?? String(cr));
+  if (!/^\d+(?:\/\d+)?$/.test(crStr)) {
+    throw new Error(`Unsupported challenge rating: ${crStr || 'missing'}`);
+  }
+  return { cr: crStr.includes('/') ? crStr : parseInt(crStr, 10), xp: CR_TO_XP[crStr] ?? 0 };
+}
+
+/**
+ * Maps armor class. Flat and natural armor use the stored value; other
+ * calculations are rebuilt from equipped armor and shields.
+ */
+function mapArmorClass(actor: FoundryActor, abilityScores: AbilityScores, warnings: string[]): ArmorClass {
+  const ac = actor.system.attributes?.ac ?? {};
+  const dexMod = calculateModifier(abilityScores.DEX);
+
+  // dnd5e 1.x exports store the total in `value` without a calculation
+  const stored = ac.flat ?? ac.value;
+  if ((ac.calc === 'flat' || ac.calc === 'natural' || ac.calc === undefined) && typeof stored === 'number') {
+    return ac.calc === 'natural' ? { value: stored, armorType: 'natural armor' } : { value: stored };
+  }
+  if (ac.calc === 'mage') {
+    return { value: 13 + dexMod, armorType: 'mage armor' };
+  }
+  if (ac.calc === 'draconic') {
+    return { value: 13 + dexMod, armorType: 'natural armor' };
+  }
+  if (ac.calc !== undefined && ac.calc !== 'default') {
+    warnings.push(`Armor class calculation "${ac.calc}" is not supported; used equipped armor`);
+  }
+
+  // Default calculation: equipped armor, or 10 + Dexterity, plus a shield
+  const equipped = (actor.items ?? []).filter((item) => item.type === 'equipment' && item.system?.equipped);
+  const armor = equipped.find((item) => ['light', 'medium', 'heavy', 'natural'].includes(item.system?.armor?.type ?? ''));
+  const shield = equipped.find((item) => item.system?.armor?.type === 'shield');
+
+  let value = 10 + dexMod;
+  if (armor?.system?.armor) {
+    const { value: base, type, dex } = armor.system.armor;
+    const dexCap = typeof dex === 'number' ? dex : type === 'heavy' ? 0 : type === 'medium' ? 2 : Infinity;
+    value = (base ?? 10) + Math.min(dexMod, dexCap);
+  }
+  value += shield?.system?.armor?.value ?? 0;
+
+  const sources = [armor, shield].filter((item): item is FoundryItem => !!item).map((item) => item.name.toLowerCase());
+  return parseArmorClass(`AC ${value}${sources.length > 0 ? ` (${sources.join(', ')})` : ''}`) ?? { value };
+}
+
+/**
+ * Maps the movement object.
+ */
+function mapSpeed(movement: Record<string, number | string | boolean | null> | undefined): Speed {
+  const result: Speed = {};
+  for (const mode of ['walk', 'fly', 'swim', 'climb', 'burrow'] as const) {
+    const value = toNumber(movement?.[mode]);
+    if (value) {
+      result[mode] = value;
+    }
+  }
+  if (result.fly !== undefined) {
+    result.hover = movement?.['hover'] === true;
+  }
+  return result;
+}
+
+/**
+ * Renders a damage trait set as stat block text ("poison; bludgeoning,
+ * piercing, and slashing from nonmagical attacks").
+ */
+function renderDamageTraits(set: FoundryTraitSet | undefined): string {
+  const values = set?.value ?? [];
+  const bypasses = set?.bypasses ?? [];
+  // dnd5e 1.x stored nonmagical B/P/S as a "physical" entry
+  const physicalFlag = values.includes('physical');
+  const physical = physicalFlag ? PHYSICAL_DAMAGE : values.filter((value) => PHYSICAL_DAMAGE.includes(value));
+  const other = values.filter((value) => value !== 'physical' && !PHYSICAL_DAMAGE.includes(value));
+
+  const parts = [other.join(', ')];
+  if (physical.length > 0) {
+    const list = physical.length > 1 ? `${physical.slice(0, -1).join(', ')}, and ${physical[physical.length - 1]}` : physical[0];
+    const nonmagical = physicalFlag || bypasses.includes('mgc');
+    const materials = bypasses.map((code) => BYPASS_WORDS[code]).filter((words) => words);
+    parts.push(
+      nonmagical || materials.length > 0
+        ? `${list} from ${nonmagical ? 'nonmagical ' : ''}attacks${materials.length > 0 ? ` ${materials.join(' or ')}` : ''}`
+        : (list ?? '')
+    );
+  }
+  parts.push(set?.custom ?? '');
+  return parts.filter((part) => part).join('; ');
+}
+
+/**
+ * Maps language codes and custom entries to language names.
+ */
+function mapLanguages(set: FoundryTraitSet | undefined): string[] {
+  const known = (set?.value ?? []).map((code) => LANGUAGE_NAMES[code] ?? toTitleCase(code));
+  const custom = (set?.custom ?? '').split(/[;,]/).map((entry) => entry.trim()).filter((entry) => entry);
+  return [...known, ...custom];
+}
+
+/**
+ * Maps source text ("MM pg. 166") or a v3 source object.
+ */
+function mapSource(source: NonNullable<FoundryActor['system']['details']>['source']): { source?: string; page?: number } {
+  if (isJsonObject(source)) {
+    const page = toNumber(source.page);
+    return {
+      ...(source.book || source.custom ? { source: source.book || source.custom } : {}),
+      ...(page !== undefined ? { page } : {}),
+    };
+  }
+
+  const match = source?.match(/^(.*?)(?:,?\s*(?:pg?\.?|page)\s*(\d+))?$/i);
+  const book = match?.[1]?.trim();
+  return {
+    ...(book ? { source: book } : {}),
+    ...(match?.[2] ? { page: parseInt(match[2], 10) } : {}),
+  };
+}
+
+/**
+ * Applies structured item uses and recharge, which take precedence over
+ * anything parsed from the item name.
+ */
+function applyUsage(target: Pick<Trait, 'uses' | 'recharge'>, item: FoundryItem): void {
+  const uses = item.system?.uses;
+  const recovery = uses?.recovery ?? [];
+
+  // dnd5e 4.x keeps the recharge roll as a recovery rule
+  const recharge =
+    item.system?.recharge?.value ?? toNumber(recovery.find((rule) => rule.period === 'recharge')?.formula);
+  if (typeof recharge === 'number' && recharge >= 1 && recharge <= 6) {
+    target.recharge = { minRoll: recharge, maxRoll: 6 };
+  }
+
+  const count = toNumber(uses?.max);
+  const period = uses?.per ?? recovery.find((rule) => rule.period !== 'recharge')?.period;
+  const rechargeOn = USES_RECOVERY[period ?? ''];
+  if (count && rechargeOn) {
+    target.uses = { count, rechargeOn };
+  }
+}
+
+// ============================================================================
+// ITEM RENDERING
+// ============================================================================
+
+/**
+ * Renders an item's attack from its attack data, e.g. "Melee Weapon
+ * Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing
+ * damage."
+ */
+function renderAttack(item: FoundryItem, actor: FoundryActor, abilityScores: AbilityScores, proficiencyBonus: number): string {
+  const system = item.system ?? {};
+  const actionType = actionTypeOf(item);
+  const isSpell = actionType === 'msak' || actionType === 'rsak';
+
+  const abilityKey =
+    ABILITY_MAP[system.ability ?? ''] ??
+    (isSpell
+      ? spellStats(actor, abilityScores, proficiencyBonus).ability
+      : actionType === 'rwak' || (hasProperty(item, 'fin') && abilityScores.DEX > abilityScores.STR)
+        ? AbilityScore.DEXTERITY
+        : AbilityScore.STRENGTH);
+  const mod = calculateModifier(abilityScores[abilityKey]);
+  const proficient = system.proficient !== false && system.proficient !== 0;
+  const attackBonus =
+    toNumber(system.attackBonus) ?? toNumber(activitiesOf(item).find((activity) => activity.attack)?.attack?.bonus);
+  const toHit = mod + (proficient ? proficiencyBonus : 0) + (attackBonus ?? 0);
+
+  // Melee weapons store their reach in `range`, thrown weapons their thrown range
+  const normal = system.range?.value ?? 5;
+  const long = system.range?.long;
+  const isMelee = actionType === 'mwak' || actionType === 'msak';
+  const thrown = actionType === 'mwak' && hasProperty(item, 'thr') && !!long;
+  const defaultReach = hasProperty(item, 'rch') ? 10 : 5;
+  const range = `range ${normal}${long ? `/${long}` : ''} ft.`;
+  const distance = !isMelee
+    ? range
+    : thrown
+      ? `reach ${defaultReach} ft. or ${range}`
+      : `reach ${system.range?.reach ?? system.range?.value ?? defaultReach} ft.`;
+  const label = thrown ? 'Melee or Ranged Weapon Attack:' : ATTACK_LABELS[actionType];
+
+  const damage = damagePartsOf(item)
+    .map(([formula, type]) => {
+      const resolved = formula.replace(/@mod\b/g, String(mod)).replace(/@[\w.]+/g, '0').replace(/\+\s*-/g, '- ');
+      const dice = parseDiceExpression(resolved);
+      if (!dice) {
+        return '';
+      }
+      const average = Math.floor((dice.count * (dice.dieSize + 1)) / 2) + dice.modifier;
+      const modifier = dice.modifier === 0 ? '' : ` ${dice.modifier > 0 ? '+' : '-'} ${Math.abs(dice.modifier)}`;
+      return `${average} (${dice.count}d${dice.dieSize}${modifier}) ${type} damage`;
+    })
+    .filter((part) => part);
+
+  const hit = damage.length > 0 ? ` Hit: ${damage.join(' plus ')}.` : '';
+  return `${label} ${toHit >= 0 ? '+' : ''}${toHit} to hit, ${distance}, one target.${hit}`;
+}
+
+/**
+ * Renders an item as a "Name. Description" entry. Attack items whose
+ * description lacks stat block attack wording get it from their data.
+ */
+function renderItem(item: FoundryItem, actor: FoundryActor, abilityScores: AbilityScores, proficiencyBonus: number): string {
+  let description = stripHtml(item.system?.description?.value);
+  const actionType = actionTypeOf(item);
+  const hasAttackText = /to hit|attack roll:/i.test(description) && /hit:/i.test(description);
+
+  if (ATTACK_LABELS[actionType] && !hasAttackText) {
+    description = `${renderAttack(item, actor, abilityScores, proficiencyBonus)} ${description}`.trim();
+  }
+
+  // Item saves without wording in the description ("DC 13 Dexterity saving throw")
+  const save = saveOf(item);
+  const saveAbility = ABILITY_MAP[save?.ability ?? ''];
+  if (saveAbility && typeof save?.dc === 'number' && !/\bDC\s*\d+/i.test(description)) {
+    description = `${description} DC ${save.dc} ${ABILITY_NAMES[saveAbility]} saving throw.`.trim();
+  }
+
+  return `${item.name}. ${description || item.name}`;
+}
+
+/**
+ * Adds "(Costs N Actions)" to a rendered legendary or mythic action.
+ */
+function withCost(entry: string, item: FoundryItem): string {
+  const cost = activationOf(item).cost ?? 1;
+  return cost > 1 && !/\(costs?\s*\d/i.test(entry) ? entry.replace(/^([^.]+)\./, `$1 (Costs ${cost} Actions).`) : entry;
+}
+
+// ============================================================================
+// SPELLCASTING
+// ============================================================================
+
+/**
+ * Builds spellcasting from spell items. Prepared, always-prepared, and
+ * pact spells make traditional spellcasting with slots from
+ * `system.spells`; actors with only innate or at-will spells get innate
+ * spellcasting keyed by uses per day.
+ */
+function mapSpellcasting(
+  actor: FoundryActor,
+  abilityScores: AbilityScores,
+  proficiencyBonus: number,
+  warnings: string[]
+): Spellcasting | undefined {
+  const spellItems = (actor.items ?? []).filter((item) => item.type === 'spell');
+  if (spellItems.length === 0) return undefined;
+
+  const { ability, dc, attackBonus } = spellStats(actor, abilityScores, proficiencyBonus);
+  const isInnate = (item: FoundryItem): boolean => ['innate', 'atwill'].includes(item.system?.preparation?.mode ?? '');
+  const leveled = spellItems.filter((item) => !isInnate(item));
+  const innateItems = spellItems.filter(isInnate);
+
+  if (leveled.length === 0) {
+    const spells: InnateSpellcasting['spells'] = {};
+    for (const item of innateItems) {
+      const perDay = item.system?.preparation?.mode === 'atwill' ? undefined : toNumber(item.system?.uses?.max);
+      const key = perDay === 1 ? 'perDay1' : perDay === 2 ? 'perDay2' : perDay && perDay >= 3 ? 'perDay3' : 'atWill';
+      (spells[key] ??= []).push({ name: item.name, level: item.system?.level ?? 1 });
+    }
+    return { type: 'innate', ability, spellSaveDC: dc, spellAttackBonus: attackBonus, spells };
+  }
+
+  if (innateItems.length > 0) {
+    warnings.push(`${innateItems.length} innate spell(s) were not imported alongside prepared spells`);
+  }
+
+  const spellcasting: TraditionalSpellcasting = {
+    type: 'traditional',
+    ability,
+    spellSaveDC: dc,
+    spellAttackBonus: attackBonus,
+    spells: {},
+  };
+  for (const item of leveled) {
+    const level = item.system?.level ?? 0;
+    const spell: Spell = { name: item.name, level };
+    if (level === 0) {
+      (spellcasting.spells.cantrips ??= []).push(spell);
+    } else if (level >= 1 && level <= 9) {
+      (spellcasting.spells[level as keyof SpellSlots] ??= []).push(spell);
+    }
+  }
+
+  const slots: SpellSlots = {};
+  for (let level = 1; level <= 9; level++) {
+    const entry = actor.system.spells?.[`spell${level}`];
+    const count = entry?.override ?? entry?.max ?? entry?.value;
+    if (count) {
+      slots[level as keyof SpellSlots] = count;
+    }
+  }
+  const pact = actor.system.spells?.['pact'];
+  const pactCount = pact?.override ?? pact?.max ?? pact?.value;
+  if (pactCount && pact?.level) {
+    slots[pact.level as keyof SpellSlots] = pactCount;
+  }
+  if (Object.keys(slots).length > 0) {
+    spellcasting.slots = slots;
+  }
+
+  const casterLevel = actor.system.details?.spellLevel;
+  if (casterLevel) {
+    spellcasting.casterLevel = casterLevel;
+  }
+
+  return spellcasting;
+}
+
+// ============================================================================
+// ACTOR IMPORT
+// ============================================================================
+
+/**
+ * Maps one Foundry actor, pushing warnings for data that was dropped.
+ */
+function mapActor(actor: FoundryActor, warnings: string[]): DnD5eMonster {
+  if (!isJsonObject(actor.system)) {
+    throw new Error('Missing system data; export the actor from Foundry VTT v10 or later');
+  }
+  if (actor.type !== undefined && actor.type !== 'npc') {
+    throw new Error(`Unsupported actor type: ${actor.type}`);
+  }
+
+  const { details = {}, traits: traitSets = {}, attributes = {}, resources = {} } = actor.system;
+
+  const size = SIZE_CODES[traitSets.size ?? ''];
+  if (!size) {
+    throw new Error(`Unknown size: ${String(traitSets.size)}`);
+  }
+
+  const typeData = typeof details.type === 'string' ? { value: details.type } : (details.type ?? {});
+  const typeName = (typeData.value || typeData.custom || '').toLowerCase();
+  const typeKey = Object.keys(TYPE_MAP).find((key) => typeName.includes(key));
+  if (!typeKey) {
+    throw new Error(`Unknown creature type: ${typeName || 'missing'}`);
+  }
+
+  const hpValue = attributes.hp?.max ?? attributes.hp?.value;
+  if (typeof hpValue !== 'number') {
+    throw new Error('Missing hit points');
+  }
+
+  const score = (key: string): number => actor.system.abilities?.[key]?.value ?? 10;
+  const abilityScores: AbilityScores = {
+    STR: score('str'),
+    DEX: score('dex'),
+    CON: score('con'),
+    INT: score('int'),
+    WIS: score('wis'),
+    CHA: score('cha'),
+  };
+
+  const challengeRating = mapChallengeRating(details.cr);
+  const proficiencyBonus = calculateProficiencyBonus(challengeRating.cr);
+  const formula = attributes.hp?.formula ? parseDiceExpression(attributes.hp.formula) : null;
+
+  const skills: SkillProficiency[] = Object.entries(actor.system.skills ?? {}).flatMap(([code, data]) => {
+    const [skillName, defaultAbility] = SKILL_CODES[code] ?? [];
+    const skill = SKILL_MAP[skillName ?? ''];
+    const ability = ABILITY_MAP[data.ability || defaultAbility || ''];
+    if (!skill || !ability || !data.value) return [];
+    return [{ skill, modifier: calculateModifier(abilityScores[ability]) + Math.floor(data.value * proficiencyBonus) }];
+  });
+
+  const perception = skills.find((entry) => entry.skill === SKILL_MAP['perception']);
+  const passivePerception = 10 + (perception?.modifier ?? calculateModifier(abilityScores.WIS));
+  const senseText = ['darkvision', 'blindsight', 'tremorsense', 'truesight']
+    .flatMap((sense) => {
+      const range = toNumber(attributes.senses?.[sense]);
+      return range ? [`${sense} ${range} ft.`] : [];
+    })
+    .concat(typeof attributes.senses?.['special'] === 'string' && attributes.senses['special'] ? [attributes.senses['special']] : [])
+    .concat(`passive Perception ${passivePerception}`)
+    .join(', ');
+
+  const monster: DnD5eMonster = {
+    name: actor.name,
+    size,
+    creatureType: TYPE_MAP[typeKey]!,
+    alignment: parseAlignment(details.alignment || 'unaligned'),
+    armorClass: mapArmorClass(actor, abilityScores, warnings),
+    hitPoints: {
+      average: hpValue,
+      formula: formula ?? { count: 1, dieSize: 8, modifier: hpValue - 4 },
+    },
+    speed: mapSpeed(attributes.movement),
+    abilityScores,
+    senses: parseSenses(senseText),
+    languages: mapLanguages(traitSets.languages),
+    challengeRating,
+    proficiencyBonus,
+  };
+
+  const subtypes = [typeData.subtype, typeData.swarm ? 'swarm' : undefined].flatMap((value) =>
+    value ? value.split(',').map((subtype) => subtype.trim()).filter((subtype) => subtype) : []
+  );
+  if (subtypes.length > 0) {
+    monster.subtypes = subtypes;
+  }
+
+  const savingThrows: SavingThrow[] = Object.entries(actor.system.abilities ?? {}).flatMap(([key, data]) => {
+    const ability = ABILITY_MAP[key];
+    return ability && data.proficient
+      ? [{ ability, modifier: calculateModifier(abilityScores[ability]) + proficiencyBonus }]
+      : [];
+  });
+  if (savingThrows.length > 0) {
+    monster.savingThrows = savingThrows;
+  }
+  if (skills.length > 0) {
+    monster.skills = skills;
+  }
+
+  const damageModifiers = parseDamageModifiers(
+    renderDamageTraits(traitSets.dr),
+    renderDamageTraits(traitSets.di),
+    renderDamageTraits(traitSets.dv)
+  );
+  if (
+    damageModifiers.resistances.length > 0 ||
+    damageModifiers.immunities.length > 0 ||
+    damageModifiers.vulnerabilities.length > 0
+  ) {
+    monster.damageModifiers = damageModifiers;
+  }
+
+  const conditionImmunities = parseConditionImmunities(
+    [...(traitSets.ci?.value ?? []), traitSets.ci?.custom ?? ''].join(', ')
+  );
+  if (conditionImmunities.length > 0) {
+    monster.conditionImmunities = conditionImmunities;
+  }
+
+  const spellcasting = mapSpellcasting(actor, abilityScores, proficiencyBonus, warnings);
+  if (spellcasting) {
+    monster.spellcasting = spellcasting;
+  }
+
+  // Sort weapon and feat items by activation type
+  const byCategory = new Map<ItemCategory, FoundryItem[]>();
+  for (const item of actor.items ?? []) {
+    if (item.type !== 'weapon' && item.type !== 'feat') continue;
+    const category = categorize(item);
+    byCategory.set(category, [...(byCategory.get(category) ?? []), item]);
+  }
+  const render = (item: FoundryItem): string => renderItem(item, actor, abilityScores, proficiencyBonus);
+
+  // "Legendary Actions" and "Lair Actions" feats hold the section intros
+  const traitItems = byCategory.get('trait') ?? [];
+  const legendaryIntro = traitItems.find((item) => /^legendary actions$/i.test(item.name));
+  const lairIntro = traitItems.find((item) => /^lair actions$/i.test(item.name));
+
+  const traits: Trait[] = [];
+  for (const item of traitItems) {
+    if (item === legendaryIntro || item === lairIntro) continue;
+    const trait = parseTrait(render(item));
+    applyUsage(trait, item);
+    traits.push(trait);
+  }
+  if (traits.length > 0) {
+    monster.traits = traits;
+  }
+
+  const legendaryResistance = resources.legres?.max;
+  if (legendaryResistance) {
+    monster.legendaryResistance = { count: legendaryResistance };
+  }
+
+  for (const item of byCategory.get('action') ?? []) {
+    const { multiattack, attacks, actions } = parseActionEntries([render(item)]);
+    if (multiattack) {
+      monster.multiattack = multiattack;
+    }
+    if (attacks.length > 0) {
+      monster.attacks = [...(monster.attacks ?? []), ...attacks];
+    }
+    for (const action of actions) {
+      applyUsage(action, item);
+      const save = saveOf(item);
+      const ability = ABILITY_MAP[save?.ability ?? ''];
+      if (!action.savingThrow && ability && typeof save?.dc === 'number') {
+        action.savingThrow = { ability, dc: save.dc };
+      }
+      monster.actions = [...(monster.actions ?? []), action];
+    }
+  }
+
+  const bonusActions = (byCategory.get('bonus') ?? []).flatMap((item) =>
+    parseBonusActions(render(item)).map((bonusAction) => {
+      applyUsage(bonusAction, item);
+      return bonusAction;
+    })
+  );
+  if (bonusActions.length > 0) {
+    monster.bonusActions = bonusActions;
+  }
+
+  const reactions = (byCategory.get('reaction') ?? []).map((item) => {
+    const reaction = parseReaction(render(item));
+    const condition = activationOf(item).condition;
+    if (condition) {
+      reaction.trigger = condition.replace(/^when\s+/i, '');
+    }
+    return reaction;
+  });
+  if (reactions.length > 0) {
+    monster.reactions = reactions;
+  }
+
+  const legendaryItems = byCategory.get('legendary') ?? [];
+  if (legendaryItems.length > 0) {
+    const count = resources.legact?.max ?? 3;
+    const header =
+      stripHtml(legendaryIntro?.system?.description?.value) ||
+      `The ${actor.name.toLowerCase()} can take ${count} legendary actions, choosing from the options below.`;
+    const legendary = parseLegendaryActions(
+      [header, ...legendaryItems.map((item) => withCost(render(item), item))].join('\n')
+    );
+    if (legendary) {
+      monster.legendaryActions = { ...legendary, count };
+    }
+  }
+
+  const mythicItems = byCategory.get('mythic') ?? [];
+  if (mythicItems.length > 0) {
+    const intro = `If the ${actor.name.toLowerCase()}'s mythic trait is active, it can use the options below as legendary actions.`;
+    const mythic = parseMythicActions(
+      [intro, ...mythicItems.map((item) => withCost(render(item), item))].join('\n'),
+      traits,
+      traits.map((trait) => `${trait.name}. ${trait.description}`).join(' '),
+      monster.legendaryActions?.count
+    );
+    if (mythic) {
+      monster.mythicActions = mythic;
+    }
+  }
+
+  const lairItems = byCategory.get('lair') ?? [];
+  if (lairItems.length > 0) {
+    const lair: LairActions = {
+      initiativeCount: resources.lair?.initiative ?? 20,
+      actions: lairItems.map((item) => ({ name: item.name, description: stripHtml(item.system?.description?.value) })),
+    };
+    const lairDescription = stripHtml(lairIntro?.system?.description?.value);
+    if (lairDescription) {
+      lair.description = lairDescription;
+    }
+    monster.lairActions = lair;
+  }
+
+  const environments = (details.environment ?? '').split(',').map((env) => env.trim()).filter((env) => env);
+  if (environments.length > 0) {
+    monster.environments = environments;
+  }
+
+  const { source, page } = mapSource(details.source);
+  if (source) {
+    monster.source = source;
+  }
+  if (page !== undefined) {
+    monster.sourcePage = page;
+  }
+
+  return monster;
+}
+
+/**
+ * Imports a single Foundry VTT actor.
+ *
+ * @param actor - Exported dnd5e NPC actor
+ * @returns The actor as a DnD5eMonster
+ * @throws Error if required fields (size, type, HP, CR) are missing
+ *
+ * @example
+ * ```typescript
+ * const goblin = importFoundryActor(JSON.parse(fs.readFileSync('fvtt-Actor-goblin.json', 'utf8')));
+ * const result = convertFromStatBlock(goblin);
+ * ```
+ */
+export function importFoundryActor(actor: FoundryActor): DnD5eMonster {
+  return mapActor(actor, []);
+}
+
+/**
+ * Imports Foundry VTT actor JSON.
+ *
+ * Accepts an exported actor or an array of actors, as parsed JSON or JSON
+ * text. Actors that fail are reported in `errors` and skipped.
+ *
+ * @param json - Foundry actor JSON
+ * @returns Imported monsters with errors and warnings
+ *
+ * @example
+ * ```typescript
+ * const { monsters, warnings } = importFoundry(fs.readFileSync('fvtt-Actor-goblin.json', 'utf8'));
+ * ```
+ */
+export function importFoundry(json: unknown): ImportResult {
+  let data: unknown;
+  try {
+    data = readJsonInput(json);
+  } catch (error) {
+    return { monsters: [], errors: [error instanceof Error ? error.message : String(error)], warnings: [] };
+  }
+
+  const actors = (Array.isArray(data) ? data : [data]) as FoundryActor[];
+  return importEach(actors, mapActor);
+}
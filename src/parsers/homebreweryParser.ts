@@ -0,0 +1,211 @@
+/**
+ * Homebrewery Markdown Parser
+ *
+ * Parses D&D 5e stat blocks written in the markdown dialect of
+ * Homebrewery and GM Binder: blockquoted frames (`> ## Goblin`), `___`
+ * rules, bold field labels (`> - **Armor Class** 15`), pipe-table ability
+ * scores, bold-italic entry names (`> ***Nimble Escape.*** ...`), and the
+ * V3 `{{monster,frame ... }}` block with its `::` field separators.
+ *
+ * The markup is stripped line by line into a plain text stat block, which
+ * the D&D 5e text parser then reads in either layout. Field spans and
+ * diagnostics point at the lines of the markdown as given.
+ *
+ * @module parsers/homebreweryParser
+ * @version 1.0.0
+ */
+
+import { DnD5eMonster } from '../models/dnd5e';
+import { ParseResult, StatBlockParseOptions, parseStatBlockSafe } from './statBlockParser';
+import { mapResultSpans } from './diagnostics';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Plain stat block text stripped from Homebrewery markdown.
+ */
+export interface HomebreweryText {
+  /** The stat block as plain text. */
+  text: string;
+  /** Input line (1-based) each line of the plain text came from. */
+  lines: number[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Markup that marks text as Homebrewery markdown. Two or more must match.
+ */
+const HOMEBREWERY_INDICATORS: RegExp[] = [
+  /^\s*>\s*#{1,4}\s*\S/m,
+  /^\s*>?\s*_{3,}\s*$/m,
+  /\*{3}[^*\n]+?\.\*{3}/,
+  /\*\*\s*(?:Armor Class|Hit Points|AC|HP)\s*\*\*/i,
+  /^\s*>?\s*\|\s*STR\s*\|\s*DEX\s*\|/im,
+  /^\s*\{\{\s*monster\b/im,
+];
+
+/** Lines that are layout only: rules, spacers, page and column breaks. */
+const LAYOUT_LINE = /^(?:_{3,}|-{3,}|:+|\\page|\\column|\{\{[^}]*|\}\})$/;
+
+/** Table alignment rows ("|:---:|:--|"). */
+const TABLE_ALIGNMENT_ROW = /^\|?(?:\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Returns the input lines of the stat block frame: the first V3
+ * `{{monster}}` block, or else the first blockquote, or else every line.
+ */
+function findFrame(lines: string[]): number[] {
+  const all = lines.map((_, index) => index);
+
+  const open = lines.findIndex((line) => /^\s*\{\{\s*monster\b/i.test(line));
+  if (open !== -1) {
+    const close = lines.findIndex((line, index) => index > open && /^\s*\}\}\s*$/.test(line));
+    return all.slice(open + 1, close === -1 ? lines.length : close);
+  }
+
+  const isQuoted = (index: number): boolean => /^\s*>/.test(lines[index] ?? '');
+  const first = all.find(isQuoted);
+  if (first === undefined) {
+    return all;
+  }
+  let last = first;
+  while (isQuoted(last + 1)) {
+    last++;
+  }
+  return all.slice(first, last + 1);
+}
+
+/**
+ * Strips the markup from one line of a stat block.
+ */
+function stripLine(line: string): string {
+  let text = line
+    .replace(/^\s*>\s?/, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+
+  if (LAYOUT_LINE.test(text) || TABLE_ALIGNMENT_ROW.test(text)) {
+    return '';
+  }
+
+  // Table rows become space-separated cells
+  if (text.startsWith('|')) {
+    text = text
+      .split('|')
+      .map((cell) => cell.trim())
+      .filter((cell) => cell !== '')
+      .join(' ');
+  }
+
+  return text
+    .replace(/^#{1,6}\s*/, '')
+    .replace(/^[-*]\s+(?=\*\*)/, '')
+    .replace(/\s*::\s*/g, ' ')
+    .replace(/\*+/g, '')
+    .replace(/(^|\s)_{1,2}(?=\S)|(?<=\S)_{1,2}(?=\s|$|[.,;:])/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Returns true if the text is a stat block in Homebrewery or GM Binder
+ * markdown rather than plain text.
+ *
+ * @param text - Text to check
+ */
+export function isHomebreweryMarkdown(text: string): boolean {
+  return HOMEBREWERY_INDICATORS.filter((pattern) => pattern.test(text)).length >= 2;
+}
+
+/**
+ * Strips Homebrewery markdown down to a plain text stat block.
+ *
+ * Only the first stat block frame is kept: the first `{{monster}}`
+ * block, or the first blockquote. Blank and layout-only lines are
+ * dropped.
+ *
+ * @param text - Homebrewery or GM Binder markdown
+ * @returns Plain stat block text and the input line of each of its lines
+ *
+ * @example
+ * ```typescript
+ * homebreweryToText('> ## Goblin\n> *Small humanoid (goblinoid), neutral evil*\n> ___\n> - **Armor Class** 15').text;
+ * // "Goblin\nSmall humanoid (goblinoid), neutral evil\nArmor Class 15"
+ * ```
+ */
+export function homebreweryToText(text: string): HomebreweryText {
+  const input = text.replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+  const lines: number[] = [];
+
+  for (const index of findFrame(input)) {
+    const stripped = stripLine(input[index] ?? '');
+    if (stripped) {
+      output.push(stripped);
+      lines.push(index + 1);
+    }
+  }
+
+  return { text: output.join('\n'), lines };
+}
+
+/**
+ * Parses a Homebrewery markdown stat block into a DnD5eMonster.
+ *
+ * @param text - Homebrewery or GM Binder markdown
+ * @param options - Optional parsing configuration
+ * @returns Parsed monster object
+ * @throws Error if parsing fails critically
+ */
+export function parseHomebrewery(text: string, options?: StatBlockParseOptions): DnD5eMonster {
+  const result = parseHomebrewerySafe(text, options);
+
+  if (!result.result) {
+    throw new Error(`Failed to parse Homebrewery stat block: ${result.errors.join('; ')}`);
+  }
+
+  return result.result;
+}
+
+/**
+ * Safely parses a Homebrewery markdown stat block, returning errors
+ * instead of throwing.
+ *
+ * Field spans, diagnostics, and OCR repairs point at the lines of the
+ * markdown; columns are those of the stripped lines.
+ *
+ * @param text - Homebrewery or GM Binder markdown
+ * @param options - Optional parsing configuration
+ * @returns Object containing result (if successful) and any errors/warnings
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseHomebrewerySafe(fs.readFileSync('goblin.md', 'utf8'));
+ * console.log(parsed.result?.armorClass.value); // 15
+ * ```
+ */
+export function parseHomebrewerySafe(text: string, options: StatBlockParseOptions = {}): ParseResult {
+  const { text: plain, lines } = homebreweryToText(text);
+  const toInputLine = (line: number): number => lines[line - 1] ?? line;
+
+  const parsed = mapResultSpans(parseStatBlockSafe(plain, options), toInputLine);
+  if (parsed.repairs) {
+    parsed.repairs = parsed.repairs.map((repair) => ({ ...repair, line: toInputLine(repair.line) }));
+  }
+  return parsed;
+}
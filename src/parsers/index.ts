@@ -12,14 +12,82 @@ export {
   parseStatBlock,
   parseStatBlockSafe,
   validateStatBlock,
+  detectStatBlockLayout,
   type ParseResult,
+  type StatBlockLayout,
+  type StatBlockParseOptions,
 } from './statBlockParser';
 
+export {
+  repairOcrText,
+  type OcrRepair,
+  type OcrRepairKind,
+  type OcrRepairResult,
+} from './ocrRepair';
+
+export {
+  mapResultSpans,
+  type DiagnosticCode,
+  type DiagnosticSeverity,
+  type FieldSpans,
+  type ParseDiagnostic,
+  type SourceSpan,
+} from './diagnostics';
+
+// Multi-creature documents
+export {
+  parseDocument,
+  type DocumentBlock,
+  type DocumentLeftover,
+  type DocumentParseResult,
+} from './documentParser';
+
+// Homebrewery / GM Binder markdown
+export {
+  isHomebreweryMarkdown,
+  homebreweryToText,
+  parseHomebrewery,
+  parseHomebrewerySafe,
+  type HomebreweryText,
+} from './homebreweryParser';
+
+// JSON importers (5etools, Open5e, Foundry VTT)
+export {
+  detectMonsterJsonFormat,
+  type ImportResult,
+  type MonsterJsonFormat,
+} from './jsonImporter';
+
+export {
+  importFiveTools,
+  importFiveToolsMonster,
+  stripFiveToolsTags,
+  type FiveToolsMonster,
+  type FiveToolsLegendaryGroup,
+} from './fiveToolsImporter';
+
+export {
+  importOpen5e,
+  importOpen5eMonster,
+  type Open5eMonster,
+} from './open5eImporter';
+
+export {
+  importFoundry,
+  importFoundryActor,
+  type FoundryActor,
+  type FoundryItem,
+} from './foundryImporter';
+
 export {
   parseNaturalLanguage,
+  parseNaturalLanguageGroup,
   estimateMissingStats,
   mergeWithStructured,
   type NLParseResult,
+  type NLGroupMember,
+  type NLGroupParseResult,
+  type NLGroupRole,
 } from './naturalLanguageParser';
 
 // OSR/Basic D&D parser
@@ -37,3 +105,11 @@ export {
   validatePF2eStatBlock,
   type PF2eParseResult,
 } from './pf2eParser';
+
+// Numenera/Cypher System parser
+export {
+  parseNumeneraStatBlock,
+  parseNumeneraStatBlockSafe,
+  validateNumeneraStatBlock,
+  type NumeneraParseResult,
+} from './numeneraParser';
@@ -0,0 +1,133 @@
+/**
+ * JSON Monster Importer
+ *
+ * Shared result type and helpers for importers that map third-party
+ * monster JSON (5etools, Open5e, Foundry VTT) into DnD5eMonster, plus
+ * detection of which JSON shape a file holds.
+ *
+ * @module parsers/jsonImporter
+ * @version 1.0.0
+ */
+
+import { DnD5eMonster } from '../models/dnd5e';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Monster JSON shapes the converter can read.
+ *
+ * - `dnd5e`: this project's DnD5eMonster
+ * - `5etools`: 5etools bestiary and homebrew files
+ * - `open5e`: Open5e API (v1) monster responses
+ * - `foundry`: Foundry VTT dnd5e actor exports
+ */
+export type MonsterJsonFormat = 'dnd5e' | '5etools' | 'open5e' | 'foundry';
+
+/**
+ * Result of importing a JSON monster file.
+ */
+export interface ImportResult {
+  /** Successfully imported monsters, in file order. */
+  monsters: DnD5eMonster[];
+  /** Monsters that could not be imported, prefixed with their name. */
+  errors: string[];
+  /** Non-fatal warnings, prefixed with the monster name. */
+  warnings: string[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Returns true for plain JSON objects.
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses JSON text, or passes already-parsed JSON through.
+ *
+ * @throws Error if the text is not valid JSON
+ */
+export function readJsonInput(json: unknown): unknown {
+  if (typeof json !== 'string') {
+    return json;
+  }
+  try {
+    return JSON.parse(json) as unknown;
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Imports each monster, collecting failures instead of stopping.
+ *
+ * @param items - Source monster objects
+ * @param importOne - Maps one object, pushing warnings; throws on failure
+ */
+export function importEach<T>(
+  items: T[],
+  importOne: (item: T, warnings: string[]) => DnD5eMonster
+): ImportResult {
+  const result: ImportResult = { monsters: [], errors: [], warnings: [] };
+
+  items.forEach((item, index) => {
+    const name = isJsonObject(item) && typeof item['name'] === 'string' ? item['name'] : `#${index + 1}`;
+    const warnings: string[] = [];
+    try {
+      result.monsters.push(importOne(item, warnings));
+    } catch (error) {
+      result.errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    result.warnings.push(...warnings.map((warning) => `${name}: ${warning}`));
+  });
+
+  return result;
+}
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Detects which monster JSON shape a parsed file holds.
+ *
+ * Looks at the first monster: 5etools files wrap monsters in a `monster`
+ * array and use short keys (`str`, `ac`, `hp`); Open5e responses wrap them
+ * in `results` and use long keys (`strength`, `armor_class`); Foundry
+ * actors keep their stats under `system` with embedded `items`.
+ *
+ * @param json - Parsed JSON (a monster, an array, or a wrapper object)
+ * @returns The detected format; `dnd5e` when nothing else matches
+ *
+ * @example
+ * ```typescript
+ * detectMonsterJsonFormat({ monster: [{ name: 'Goblin', str: 8, ac: [15] }] }); // '5etools'
+ * ```
+ */
+export function detectMonsterJsonFormat(json: unknown): MonsterJsonFormat {
+  if (isJsonObject(json)) {
+    if (Array.isArray(json['monster'])) return '5etools';
+    if (Array.isArray(json['results'])) return 'open5e';
+  }
+
+  const first = Array.isArray(json) ? json[0] : json;
+  if (!isJsonObject(first)) {
+    return 'dnd5e';
+  }
+  if (isJsonObject(first['system']) && Array.isArray(first['items'])) {
+    return 'foundry';
+  }
+  if ('armor_class' in first || 'strength' in first || 'challenge_rating' in first) {
+    return 'open5e';
+  }
+  if ('str' in first || ('ac' in first && 'hp' in first) || 'cr' in first) {
+    return '5etools';
+  }
+  return 'dnd5e';
+}
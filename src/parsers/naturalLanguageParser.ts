@@ -27,7 +27,10 @@ import {
   DnD5eAttack,
   AttackType,
   AttackDamage,
+  DnD5eAction,
   DnD5eDamageType,
+  DnD5eCondition,
+  AbilityScore,
   LegendaryActions,
   LegendaryAction,
   CR_TO_XP,
@@ -54,6 +57,45 @@ export interface NLParseResult {
   suggestions: string[];
 }
 
+/**
+ * How a creature in a described group relates to the others.
+ *
+ * - `leader`: leads the rest of the group
+ * - `follower`: rank-and-file under the leader
+ * - `member`: part of a group with no leader
+ */
+export type NLGroupRole = 'leader' | 'follower' | 'member';
+
+/**
+ * One kind of creature in a described group.
+ */
+export interface NLGroupMember {
+  /** The creature as described, e.g. "six hobgoblins". */
+  description: string;
+  /** Number of these creatures. */
+  count: number;
+  /** Relationship to the rest of the group. */
+  role: NLGroupRole;
+  /** Collective noun the creatures were described with ("pack", "horde"), if any. */
+  collective?: string;
+  /** Parse result for a single creature of this kind. */
+  parse: NLParseResult;
+  /** Complete stat block estimate for a single creature of this kind. */
+  statBlock: DnD5eMonster;
+}
+
+/**
+ * Result of parsing a natural language group description.
+ */
+export interface NLGroupParseResult {
+  /** Creatures in the group, leader first when there is one. */
+  members: NLGroupMember[];
+  /** Index of the member that leads the others, if any. */
+  leaderIndex?: number;
+  /** Lowest confidence among the members. */
+  confidence: number;
+}
+
 /**
  * Modifier flags extracted from input.
  */
@@ -89,6 +131,63 @@ interface ExtractedMovement {
   hovers: boolean;
 }
 
+/**
+ * Kinds of special ability recognized in prose.
+ */
+type AbilityKind =
+  | 'breath'
+  | 'spit'
+  | 'condition'
+  | 'regeneration'
+  | 'invisibility'
+  | 'teleport'
+  | 'changeShape'
+  | 'frightfulPresence'
+  | 'lifeDrain'
+  | 'web'
+  | 'deathBurst'
+  | 'charge'
+  | 'magicResistance'
+  | 'packTactics'
+  | 'spiderClimb'
+  | 'amphibious'
+  | 'incorporeal'
+  | 'sunlightSensitivity';
+
+/**
+ * Condition inflicted by an ability such as a paralyzing touch.
+ */
+interface ConditionEffect {
+  /** Matches the start of the adjective or verb ("paralyzing", "paralyzes"). */
+  pattern: RegExp;
+  /** Adjective used in the ability name. */
+  adjective: string;
+  condition: DnD5eCondition;
+  /** Saving throw made against the condition. */
+  save: AbilityScore;
+  /** Damage type dealt alongside the condition, if fixed. */
+  damageType?: DnD5eDamageType;
+}
+
+/**
+ * Special ability extracted from prose ("breathes a cone of fire").
+ */
+interface ExtractedAbility {
+  kind: AbilityKind;
+  /** Name for abilities named after the phrase ("Paralyzing Touch"). */
+  name?: string;
+  /** Damage type of a damaging ability. */
+  damageType?: DnD5eDamageType;
+  /** Area shape, and size in feet if given. */
+  area?: { type: 'cone' | 'line'; size?: number };
+  /** Condition inflicted by a `condition` ability. */
+  effect?: ConditionEffect;
+  /** How a `condition` ability is delivered ("touch", "gaze", "howl"). */
+  delivery?: string;
+  /** Damage types that stop regeneration. */
+  weaknesses?: DnD5eDamageType[];
+}
+
 // ============================================================================
 // CONSTANTS - Pattern Mappings
 // ============================================================================
@@ -155,6 +254,7 @@ const TYPE_PATTERNS: Record<string, CreatureType> = {
   lich: CreatureType.UNDEAD,
   wraith: CreatureType.UNDEAD,
   wight: CreatureType.UNDEAD,
+  ghoul: CreatureType.UNDEAD,
   mummy: CreatureType.UNDEAD,
   golem: CreatureType.CONSTRUCT,
   robot: CreatureType.CONSTRUCT,
@@ -178,6 +278,14 @@ const TYPE_PATTERNS: Record<string, CreatureType> = {
   human: CreatureType.HUMANOID,
   gnome: CreatureType.HUMANOID,
   halfling: CreatureType.HUMANOID,
+  hobgoblin: CreatureType.HUMANOID,
+  bugbear: CreatureType.HUMANOID,
+  gnoll: CreatureType.HUMANOID,
+  bandit: CreatureType.HUMANOID,
+  cultist: CreatureType.HUMANOID,
+  guard: CreatureType.HUMANOID,
+  soldier: CreatureType.HUMANOID,
+  knight: CreatureType.HUMANOID,
   troll: CreatureType.GIANT,
   ogre: CreatureType.GIANT,
   ettin: CreatureType.GIANT,
@@ -229,6 +337,7 @@ const DAMAGE_TYPE_PATTERNS: Record<string, DnD5eDamageType> = {
   acid: DnD5eDamageType.ACID,
   poison: DnD5eDamageType.POISON,
   venomous: DnD5eDamageType.POISON,
+  venom: DnD5eDamageType.POISON,
   toxic: DnD5eDamageType.POISON,
   necrotic: DnD5eDamageType.NECROTIC,
   death: DnD5eDamageType.NECROTIC,
@@ -278,6 +387,247 @@ const WEAPON_PATTERNS: Record<string, { name: string; isRanged: boolean }> = {
   slam: { name: 'Slam', isRanged: false },
 };
 
+/**
+ * Count words and phrases that open a group member ("six hobgoblins").
+ */
+const COUNT_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  the: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  'a pair of': 2,
+  'a couple of': 2,
+  'a few': 3,
+  several: 4,
+  'a dozen': 12,
+  dozen: 12,
+};
+
+/**
+ * Collective nouns for a group of one kind of creature ("a pack of wolves").
+ * Swarms are left to the single-creature parser.
+ */
+const COLLECTIVE_NOUNS = [
+  'pack',
+  'band',
+  'horde',
+  'mob',
+  'gang',
+  'troop',
+  'squad',
+  'host',
+  'flock',
+  'throng',
+  'crowd',
+  'warband',
+  'patrol',
+  'legion',
+];
+
+/** Creatures assumed in a collective with no count ("a pack of wolves"). */
+const DEFAULT_COLLECTIVE_SIZE = 6;
+
+/** Matches a count at the start of a group member. */
+const COUNT_PREFIX = new RegExp(
+  `^(\\d+|${Object.keys(COUNT_WORDS)
+    .sort((a, b) => b.length - a.length)
+    .join('|')})\\s+`,
+  'i'
+);
+
+/** Matches a collective noun at the start of a group member. */
+const COLLECTIVE_PREFIX = new RegExp(`^(${COLLECTIVE_NOUNS.join('|')})s?\\s+of\\s+`, 'i');
+
+/** Words that lead the rest of a sentence ("a captain leading six soldiers"). */
+const LEADS_PATTERN = /\s+(?:leading|leads|commanding|commands|in command of|at the head of)\s+/i;
+
+/** Words that follow the rest of a sentence ("six soldiers led by a captain"). */
+const LED_BY_PATTERN = /\s+(?:led by|commanded by|under the command of|following)\s+/i;
+
+/**
+ * Words that bring the rest of a sentence along with the first creature
+ * ("a captain with four bandits", "a chief and his pack of wolves").
+ */
+const COMPANIONS_PATTERN = /\s+(?:with|and)\s+(?:(his|her|their|its)\s+)?/gi;
+
+/** Separators between group members. */
+const MEMBER_SEPARATOR = /(\s*,\s*(?:and\s+|plus\s+)?|\s+(?:and|plus|along with|together with|alongside)\s+)/i;
+
+/** Words that end a member's creature name ("wolves with ..."). */
+const NAME_END = /\s+(?:with|that|who|which|armed|wielding|riding|carrying|from)\b|[,;(]/i;
+
+/** Equipment that is not a group member ("a sword and a shield"). */
+const EQUIPMENT_WORDS = new Set([...Object.keys(WEAPON_PATTERNS), 'shield', 'armor', 'armour', 'net', 'whip', 'torch']);
+
+/** Body parts that are not group members ("a troll with two heads"). */
+const BODY_PART_WORDS = new Set(['head', 'arm', 'leg', 'eye', 'claw', 'tentacle', 'wing', 'tail', 'horn', 'fang', 'mouth', 'hand']);
+
+/** Plurals that don't follow the usual rules. */
+const IRREGULAR_PLURALS: Record<string, string> = {
+  mice: 'mouse',
+  geese: 'goose',
+  children: 'child',
+  oxen: 'ox',
+  people: 'person',
+  fungi: 'fungus',
+  zombies: 'zombie',
+  pixies: 'pixie',
+};
+
+/**
+ * Abilities recognized by a phrase alone.
+ */
+const ABILITY_PATTERNS: Array<{ kind: AbilityKind; pattern: RegExp }> = [
+  {
+    kind: 'frightfulPresence',
+    pattern: /\b(?:frightful|terrifying|fearsome|dreadful|horrifying)\s+(?:presence|aura|visage)\b|\baura of (?:fear|dread|terror)\b/i,
+  },
+  { kind: 'invisibility', pattern: /\b(?:turns?|turning|becomes?|becoming|goes|going)\s+invisible\b|\binvisibility\b/i },
+  { kind: 'teleport', pattern: /\bteleport(?:s|ing|ation)?\b|\bblinks?\b/i },
+  { kind: 'changeShape', pattern: /\bshape-?(?:shift|chang)\w*|\bchang(?:es?|ing)\s+(?:its\s+|their\s+)?shape\b|\bpolymorph\w*/i },
+  {
+    kind: 'lifeDrain',
+    pattern: /\blife[- ]?drain\w*|\b(?:drains?|draining|sucks?|feeds?\s+on)\s+(?:the\s+)?(?:life|blood|souls?|vitality)\b/i,
+  },
+  { kind: 'web', pattern: /\b(?:shoots?|spins?|spits?|hurls?|weaves?)\s+(?:sticky\s+)?webs?\b|\bweb[- ]?(?:shooting|spinning)\b/i },
+  { kind: 'deathBurst', pattern: /\bdeath burst\b|\bexplodes?\s+(?:when|as|on|upon)\s+(?:it\s+)?(?:dies|death|destroyed|killed)\b/i },
+  { kind: 'charge', pattern: /\bcharg(?:es|ing)\b|\btrampl(?:es|ing)\b|\bgor(?:es|ing)\b/i },
+  { kind: 'magicResistance', pattern: /\bmagic resistance\b|\bresist(?:s|ant to)\s+magic\b/i },
+  { kind: 'packTactics', pattern: /\bpack tactics\b|\b(?:hunts?|fights?|attacks?)\s+in packs\b/i },
+  {
+    kind: 'spiderClimb',
+    pattern: /\bspider[- ]climb\b|\b(?:walks?|crawls?|clings?|scuttles?)\s+(?:up|on|along|across)\s+(?:walls|ceilings)\b/i,
+  },
+  { kind: 'amphibious', pattern: /\bamphibious\b|\bbreathes?\s+(?:both\s+)?air and water\b/i },
+  { kind: 'incorporeal', pattern: /\bincorporeal\b|\b(?:passes?|moves?|walks?|drifts?)\s+through\s+(?:walls|solid objects|objects)\b/i },
+  {
+    kind: 'sunlightSensitivity',
+    pattern: /\bsunlight sensitivity\b|\b(?:hates?|shuns?|fears?|weakened by|sensitive to)\s+(?:the\s+)?(?:sun|sunlight|daylight)\b/i,
+  },
+];
+
+/**
+ * Breath described with a verb: "breathes a cone of fire", "exhales frost",
+ * "breathes a 30-foot cone of fire". The size itself is read by
+ * AREA_SIZE_PATTERN.
+ */
+const BREATH_PATTERN =
+  /\b(?:breathes?|breathing|exhales?|exhaling|spews?|spewing|belch(?:es)?|belching)\s+(?:out\s+)?(?:an?\s+|the\s+)?(?:\d+[- ](?:foot|feet|ft\.?)[- ])?(?:(cone|line|blast|gout|stream|jet|cloud|torrent|bolt|wave)\s+of\s+)?([a-z]+)/i;
+
+/** Breath described by its type: "fire-breathing", "frost breath", "breath of fire". */
+const BREATH_TYPE_PATTERN = /\b([a-z]+)[- ]breath(?:ing)?\b|\bbreath\s+of\s+([a-z]+)/i;
+
+/** A breath weapon of no stated type. */
+const BREATH_WEAPON_PATTERN = /\bbreath weapons?\b/i;
+
+/** Spat attacks: "spits acid", "sprays a stream of venom". */
+const SPIT_PATTERN =
+  /\b(?:spits?|spitting|sprays?|spraying)\s+(?:an?\s+)?(?:(?:stream|jet|gob|glob|spray|line)\s+of\s+)?([a-z]+)/i;
+
+/** Explicit area sizes: "a 60-foot cone". */
+const AREA_SIZE_PATTERN = /\b(\d+)[- ](?:foot|feet|ft\.?)[- ](cone|line)\b/i;
+
+/** Breath shapes that form a line rather than a cone. */
+const LINE_WORDS = new Set(['line', 'stream', 'jet', 'bolt']);
+
+/** Regeneration and the clause that may follow it. */
+const REGENERATION_PATTERN = /\bregenerat(?:es|ing|ion)\b([^.;]*)/i;
+
+/** Words that name what stops regeneration ("unless burned"). */
+const REGENERATION_WEAKNESS_WORDS: Record<string, DnD5eDamageType> = {
+  burn: DnD5eDamageType.FIRE,
+  burned: DnD5eDamageType.FIRE,
+  burnt: DnD5eDamageType.FIRE,
+  sunlight: DnD5eDamageType.RADIANT,
+};
+
+/**
+ * Conditions inflicted by touches, gazes, and cries.
+ */
+const CONDITION_EFFECTS: ConditionEffect[] = [
+  { pattern: /^paraly[sz]/i, adjective: 'Paralyzing', condition: DnD5eCondition.PARALYZED, save: AbilityScore.CONSTITUTION },
+  { pattern: /^petrif/i, adjective: 'Petrifying', condition: DnD5eCondition.PETRIFIED, save: AbilityScore.CONSTITUTION },
+  {
+    pattern: /^(?:poison|venom)/i,
+    adjective: 'Venomous',
+    condition: DnD5eCondition.POISONED,
+    save: AbilityScore.CONSTITUTION,
+    damageType: DnD5eDamageType.POISON,
+  },
+  { pattern: /^(?:terrif|frighten)/i, adjective: 'Terrifying', condition: DnD5eCondition.FRIGHTENED, save: AbilityScore.WISDOM },
+  { pattern: /^charm/i, adjective: 'Charming', condition: DnD5eCondition.CHARMED, save: AbilityScore.WISDOM },
+  { pattern: /^stun/i, adjective: 'Stunning', condition: DnD5eCondition.STUNNED, save: AbilityScore.CONSTITUTION },
+  { pattern: /^blind/i, adjective: 'Blinding', condition: DnD5eCondition.BLINDED, save: AbilityScore.CONSTITUTION },
+  { pattern: /^entangl/i, adjective: 'Entangling', condition: DnD5eCondition.RESTRAINED, save: AbilityScore.STRENGTH },
+];
+
+/** Deliveries that touch the target, with the damage each deals. */
+const CONTACT_DELIVERIES: Record<string, DnD5eDamageType> = {
+  touch: DnD5eDamageType.NECROTIC,
+  kiss: DnD5eDamageType.NECROTIC,
+  bite: DnD5eDamageType.PIERCING,
+  sting: DnD5eDamageType.PIERCING,
+  stinger: DnD5eDamageType.PIERCING,
+  claw: DnD5eDamageType.SLASHING,
+  claws: DnD5eDamageType.SLASHING,
+  strike: DnD5eDamageType.BLUDGEONING,
+  slam: DnD5eDamageType.BLUDGEONING,
+  tentacle: DnD5eDamageType.BLUDGEONING,
+  tentacles: DnD5eDamageType.BLUDGEONING,
+};
+
+/** Deliveries that work on sight. */
+const SIGHT_DELIVERIES = ['gaze', 'glare', 'stare'];
+
+/** Deliveries that work on hearing. */
+const SOUND_DELIVERIES = ['scream', 'shriek', 'howl', 'wail', 'song', 'roar'];
+
+const DELIVERIES = [...Object.keys(CONTACT_DELIVERIES), ...SIGHT_DELIVERIES, ...SOUND_DELIVERIES].join('|');
+
+/** "paralyzing touch", "petrifying gaze". */
+const CONDITION_ABILITY_PATTERN = new RegExp(
+  `\\b(paraly[sz]ing|petrifying|poisonous|venomous|terrifying|frightening|charming|stunning|blinding|entangling)\\s+(${DELIVERIES})\\b`,
+  'gi'
+);
+
+/** "a gaze that petrifies". */
+const CONDITION_CLAUSE_PATTERN = new RegExp(
+  `\\b(${DELIVERIES})\\s+that\\s+(paraly[sz]es|petrifies|poisons|terrifies|frightens|charms|stuns|blinds|entangles)\\b`,
+  'gi'
+);
+
+/** Full names of ability scores, as written in saving throws. */
+const ABILITY_NAMES: Record<AbilityScore, string> = {
+  [AbilityScore.STRENGTH]: 'Strength',
+  [AbilityScore.DEXTERITY]: 'Dexterity',
+  [AbilityScore.CONSTITUTION]: 'Constitution',
+  [AbilityScore.INTELLIGENCE]: 'Intelligence',
+  [AbilityScore.WISDOM]: 'Wisdom',
+  [AbilityScore.CHARISMA]: 'Charisma',
+};
+
+/** How each breath type is exhaled. */
+const BREATH_WORDS: Partial<Record<DnD5eDamageType, string>> = {
+  [DnD5eDamageType.FIRE]: 'fire',
+  [DnD5eDamageType.COLD]: 'an icy blast',
+  [DnD5eDamageType.LIGHTNING]: 'lightning',
+  [DnD5eDamageType.ACID]: 'acid',
+  [DnD5eDamageType.POISON]: 'poisonous gas',
+};
+
 // ============================================================================
 // EXTRACTION FUNCTIONS
 // ============================================================================
@@ -493,6 +843,97 @@ function extractAlignment(input: string): Alignment | null {
   return null;
 }
 
+/**
+ * Returns the damage type a word names ("fire", "frost", "flames"), if any.
+ */
+function damageTypeFor(word: string): DnD5eDamageType | undefined {
+  const lower = word.toLowerCase();
+  return DAMAGE_TYPE_PATTERNS[lower] ?? DAMAGE_TYPE_PATTERNS[lower.replace(/s$/, '')];
+}
+
+/**
+ * Capitalizes a word ("touch" -> "Touch").
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Extracts special abilities described in prose: breath weapons,
+ * regeneration, touches and gazes that inflict conditions, and the like.
+ */
+function extractAbilities(input: string): ExtractedAbility[] {
+  const abilities: ExtractedAbility[] = [];
+
+  // Breath weapons: "breathes a cone of fire", "frost breath", "breath weapon"
+  const breath = input.match(BREATH_PATTERN);
+  const breathType = breath?.[2] ? damageTypeFor(breath[2]) : undefined;
+  const typed = input.match(BREATH_TYPE_PATTERN);
+  const typedType = typed ? damageTypeFor(typed[1] ?? typed[2] ?? '') : undefined;
+  if (breathType || typedType || BREATH_WEAPON_PATTERN.test(input)) {
+    const damageType = breathType ?? typedType ?? DnD5eDamageType.FIRE;
+    const shape = breathType ? breath?.[1]?.toLowerCase() : undefined;
+    const size = input.match(AREA_SIZE_PATTERN);
+
+    let isLine = damageType === DnD5eDamageType.LIGHTNING || damageType === DnD5eDamageType.ACID;
+    if (size?.[2]) isLine = size[2].toLowerCase() === 'line';
+    else if (shape) isLine = LINE_WORDS.has(shape);
+
+    const area: { type: 'cone' | 'line'; size?: number } = { type: isLine ? 'line' : 'cone' };
+    if (size?.[1]) area.size = parseInt(size[1], 10);
+    abilities.push({ kind: 'breath', damageType, area });
+  }
+
+  // Spat attacks: "spits acid"
+  const spit = input.match(SPIT_PATTERN);
+  const spitType = spit?.[1] ? damageTypeFor(spit[1]) : undefined;
+  if (spitType) {
+    abilities.push({ kind: 'spit', damageType: spitType, area: { type: 'line' } });
+  }
+
+  // Conditions: "paralyzing touch", "a gaze that petrifies"
+  const addCondition = (word: string, delivery: string, name?: string): void => {
+    const effect = CONDITION_EFFECTS.find((entry) => entry.pattern.test(word));
+    if (!effect) return;
+    const abilityName = name ?? `${effect.adjective} ${capitalize(delivery)}`;
+    if (abilities.some((ability) => ability.name === abilityName)) return;
+    abilities.push({ kind: 'condition', name: abilityName, effect, delivery: delivery.toLowerCase() });
+  };
+  for (const match of input.matchAll(CONDITION_ABILITY_PATTERN)) {
+    const [, word = '', delivery = ''] = match;
+    addCondition(word, delivery, `${capitalize(word)} ${capitalize(delivery)}`);
+  }
+  for (const match of input.matchAll(CONDITION_CLAUSE_PATTERN)) {
+    const [, delivery = '', word = ''] = match;
+    addCondition(word, delivery);
+  }
+
+  // Regeneration, and what stops it: "regenerates unless burned"
+  const regeneration = input.match(REGENERATION_PATTERN);
+  if (regeneration) {
+    const clause = regeneration[1]?.match(/\b(?:unless|except|but not)\b(.*)/i)?.[1] ?? '';
+    const weaknesses: DnD5eDamageType[] = [];
+    for (const word of clause.match(/[a-z]+/gi) ?? []) {
+      const type = REGENERATION_WEAKNESS_WORDS[word.toLowerCase()] ?? damageTypeFor(word);
+      if (type && !weaknesses.includes(type)) weaknesses.push(type);
+    }
+    abilities.push({ kind: 'regeneration', weaknesses });
+  }
+
+  // Abilities named by a phrase alone
+  for (const { kind, pattern } of ABILITY_PATTERNS) {
+    if (!pattern.test(input)) continue;
+    if (kind === 'deathBurst') {
+      const damageType = (input.match(/[a-z]+/gi) ?? []).map((word) => damageTypeFor(word)).find(Boolean);
+      abilities.push({ kind, damageType: damageType ?? DnD5eDamageType.FIRE });
+    } else {
+      abilities.push({ kind });
+    }
+  }
+
+  return abilities;
+}
+
 // ============================================================================
 // STAT ESTIMATION
 // ============================================================================
@@ -754,6 +1195,16 @@ function estimateSpeed(
   return speed;
 }
 
+/**
+ * Estimates the damage die of a creature's weapons and abilities by CR.
+ */
+function estimateDamageDie(cr: number): 6 | 8 | 10 | 12 {
+  if (cr >= 11) return 12;
+  if (cr >= 5) return 10;
+  if (cr >= 1) return 8;
+  return 6;
+}
+
 /**
  * Creates attacks from extracted weapon info.
  */
@@ -771,16 +1222,10 @@ function createAttacks(
     const mod = isRanged ? dexMod : strMod;
     const toHit = mod + profBonus;
 
-    // Damage die by CR
-    let damageDie: 4 | 6 | 8 | 10 | 12 | 20 | 100 = 6;
-    if (cr >= 11) damageDie = 12;
-    else if (cr >= 5) damageDie = 10;
-    else if (cr >= 1) damageDie = 8;
-
     const damage: AttackDamage = {
       dice: {
         count: Math.max(1, Math.floor(cr / 5) + 1),
-        dieSize: damageDie,
+        dieSize: estimateDamageDie(cr),
         modifier: mod,
       },
       damageType: weapon.damageType ?? (isRanged ? DnD5eDamageType.PIERCING : DnD5eDamageType.SLASHING),
@@ -821,6 +1266,421 @@ function createLegendaryActions(name: string): LegendaryActions {
   };
 }
 
+/**
+ * Estimates an ability's save DC from CR and the ability score behind it.
+ */
+function estimateSaveDC(cr: number, score: number): number {
+  return 8 + calculateProficiencyBonus(cr) + Math.floor((score - 10) / 2);
+}
+
+/**
+ * Estimates the length in feet of a breath weapon by CR, from a
+ * wyrmling's 15-foot cone to an ancient dragon's 90-foot cone. Lines
+ * reach twice as far.
+ */
+function estimateAreaSize(cr: number, type: 'cone' | 'line'): number {
+  let size = 15;
+  if (cr >= 20) size = 90;
+  else if (cr >= 11) size = 60;
+  else if (cr >= 5) size = 30;
+
+  return type === 'line' ? size * 2 : size;
+}
+
+/**
+ * Estimates an ability's damage by CR. Area abilities roll d6s like a
+ * dragon's breath (7d6 at CR 4, 13d6 at CR 10); abilities against one
+ * target roll the creature's weapon die.
+ */
+function estimateAbilityDamage(cr: number, damageType: DnD5eDamageType, isArea: boolean): AttackDamage {
+  const dice: DiceExpression = isArea
+    ? { count: Math.max(2, Math.round(cr + 3)), dieSize: 6, modifier: 0 }
+    : { count: Math.max(1, Math.floor(cr / 4) + 1), dieSize: estimateDamageDie(cr), modifier: 0 };
+
+  return { dice, damageType };
+}
+
+/**
+ * Writes damage as stat blocks do: "24 (7d6) fire damage".
+ */
+function describeDamage(damage: AttackDamage): string {
+  const { count, dieSize } = damage.dice;
+  const average = Math.floor((count * (dieSize + 1)) / 2);
+  return `${average} (${count}d${dieSize}) ${damage.damageType.toLowerCase()} damage`;
+}
+
+/**
+ * Writes a saving throw for half damage.
+ */
+function describeSaveForHalf(dc: number, save: AbilityScore, damage: AttackDamage): string {
+  return `must make a DC ${dc} ${ABILITY_NAMES[save]} saving throw, taking ${describeDamage(damage)} on a failed save, or half as much damage on a successful one.`;
+}
+
+/**
+ * Creates the action for a touch, gaze, or cry that inflicts a condition.
+ */
+function createConditionAction(
+  ability: ExtractedAbility,
+  effect: ConditionEffect,
+  subject: string,
+  cr: number,
+  abilityScores: AbilityScores
+): DnD5eAction {
+  const delivery = ability.delivery ?? 'touch';
+  const contactType = CONTACT_DELIVERIES[delivery];
+  const dc = estimateSaveDC(cr, contactType ? abilityScores.CON : Math.max(abilityScores.CON, abilityScores.CHA));
+  const failure = `must succeed on a DC ${dc} ${ABILITY_NAMES[effect.save]} saving throw or be ${effect.condition.toLowerCase()} for 1 minute.`;
+  const repeat = 'can repeat the saving throw at the end of each of its turns, ending the effect on itself on a success.';
+
+  const action: DnD5eAction = {
+    name: ability.name ?? `${effect.adjective} ${capitalize(delivery)}`,
+    description: '',
+    savingThrow: { ability: effect.save, dc },
+  };
+
+  if (contactType) {
+    const damage = estimateAbilityDamage(cr, effect.damageType ?? contactType, false);
+    action.description = `One creature within 5 feet of the ${subject} takes ${describeDamage(damage)} and ${failure} The target ${repeat}`;
+    action.damage = damage;
+  } else if (SIGHT_DELIVERIES.includes(delivery)) {
+    action.description = `The ${subject} fixes its ${delivery} on one creature it can see within 30 feet of it. The target ${failure} The target ${repeat}`;
+  } else {
+    action.description = `The ${subject} lets out a ${delivery}. Each creature within 30 feet of it that can hear it ${failure} A creature ${repeat}`;
+    action.areaOfEffect = { type: 'sphere', size: 30 };
+  }
+
+  return action;
+}
+
+/**
+ * Creates traits and actions for the special abilities described in
+ * prose, with save DCs, damage, and areas estimated from CR.
+ *
+ * @param subject - How descriptions refer to the creature ("troll")
+ */
+function createAbilities(
+  abilities: ExtractedAbility[],
+  subject: string,
+  cr: number,
+  abilityScores: AbilityScores
+): { traits: Trait[]; actions: DnD5eAction[] } {
+  const traits: Trait[] = [];
+  const actions: DnD5eAction[] = [];
+  const conDC = estimateSaveDC(cr, abilityScores.CON);
+  const chaDC = estimateSaveDC(cr, abilityScores.CHA);
+
+  for (const ability of abilities) {
+    switch (ability.kind) {
+      case 'breath': {
+        const damageType = ability.damageType ?? DnD5eDamageType.FIRE;
+        const type = ability.area?.type ?? 'cone';
+        const size = ability.area?.size ?? estimateAreaSize(cr, type);
+        const save =
+          damageType === DnD5eDamageType.COLD || damageType === DnD5eDamageType.POISON
+            ? AbilityScore.CONSTITUTION
+            : AbilityScore.DEXTERITY;
+        const damage = estimateAbilityDamage(cr, damageType, true);
+        const shape = type === 'line' ? `${size}-foot line that is 5 feet wide` : `${size}-foot cone`;
+        const breath = BREATH_WORDS[damageType] ?? `${damageType.toLowerCase()} energy`;
+        actions.push({
+          name: `${damageType} Breath`,
+          description: `The ${subject} exhales ${breath} in a ${shape}. Each creature in that ${type === 'line' ? 'line' : 'area'} ${describeSaveForHalf(conDC, save, damage)}`,
+          recharge: { minRoll: 5, maxRoll: 6 },
+          savingThrow: { ability: save, dc: conDC },
+          damage,
+          areaOfEffect: { type, size },
+        });
+        break;
+      }
+
+      case 'spit': {
+        const damageType = ability.damageType ?? DnD5eDamageType.ACID;
+        const damage = estimateAbilityDamage(cr / 2, damageType, true);
+        actions.push({
+          name: `${damageType} Spit`,
+          description: `The ${subject} spits ${damageType.toLowerCase()} in a 30-foot line that is 5 feet wide. Each creature in that line ${describeSaveForHalf(conDC, AbilityScore.DEXTERITY, damage)}`,
+          recharge: { minRoll: 5, maxRoll: 6 },
+          savingThrow: { ability: AbilityScore.DEXTERITY, dc: conDC },
+          damage,
+          areaOfEffect: { type: 'line', size: 30 },
+        });
+        break;
+      }
+
+      case 'condition':
+        if (ability.effect) {
+          actions.push(createConditionAction(ability, ability.effect, subject, cr, abilityScores));
+        }
+        break;
+
+      case 'regeneration': {
+        let amount = 5;
+        if (cr >= 13) amount = 20;
+        else if (cr >= 5) amount = 10;
+
+        let description = `The ${subject} regains ${amount} hit points at the start of its turn if it has at least 1 hit point.`;
+        const weaknesses = (ability.weaknesses ?? []).map((type) => type.toLowerCase());
+        if (weaknesses.length > 0) {
+          const types =
+            weaknesses.length > 1 ? `${weaknesses.slice(0, -1).join(', ')} or ${weaknesses[weaknesses.length - 1]}` : weaknesses[0];
+          description += ` If the ${subject} takes ${types} damage, this trait doesn't function at the start of the ${subject}'s next turn. The ${subject} dies only if it starts its turn with 0 hit points and doesn't regenerate.`;
+        }
+        traits.push({ name: 'Regeneration', description });
+        break;
+      }
+
+      case 'invisibility':
+        actions.push({
+          name: 'Invisibility',
+          description: `The ${subject} magically turns invisible until it attacks or until its concentration ends (as if concentrating on a spell). Any equipment the ${subject} wears or carries is invisible with it.`,
+        });
+        break;
+
+      case 'teleport':
+        actions.push({
+          name: 'Teleport',
+          description: `The ${subject} magically teleports, along with any equipment it is wearing or carrying, up to 40 feet to an unoccupied space it can see.`,
+        });
+        break;
+
+      case 'changeShape':
+        actions.push({
+          name: 'Change Shape',
+          description: `The ${subject} magically polymorphs into a beast or humanoid of its size, or back into its true form. Its statistics are the same in each form. Any equipment it is wearing or carrying isn't transformed. It reverts to its true form if it dies.`,
+        });
+        break;
+
+      case 'frightfulPresence':
+        actions.push({
+          name: 'Frightful Presence',
+          description: `Each creature of the ${subject}'s choice that is within 120 feet of it and aware of it must succeed on a DC ${chaDC} Wisdom saving throw or become frightened for 1 minute. A creature can repeat the saving throw at the end of each of its turns, ending the effect on itself on a success.`,
+          savingThrow: { ability: AbilityScore.WISDOM, dc: chaDC },
+        });
+        break;
+
+      case 'lifeDrain': {
+        const damage = estimateAbilityDamage(cr, DnD5eDamageType.NECROTIC, false);
+        actions.push({
+          name: 'Life Drain',
+          description: `One creature within 5 feet of the ${subject} takes ${describeDamage(damage)} and must succeed on a DC ${conDC} Constitution saving throw or its hit point maximum is reduced by an amount equal to the damage taken. The ${subject} regains hit points equal to that amount.`,
+          savingThrow: { ability: AbilityScore.CONSTITUTION, dc: conDC },
+          damage,
+        });
+        break;
+      }
+
+      case 'web':
+        actions.push({
+          name: 'Web',
+          description: `The ${subject} hurls webbing at one creature within 30 feet of it. The target must succeed on a DC ${conDC} Dexterity saving throw or be restrained by webbing. As an action, the restrained target can make a DC ${conDC} Strength check, bursting the webbing on a success.`,
+          recharge: { minRoll: 5, maxRoll: 6 },
+          savingThrow: { ability: AbilityScore.DEXTERITY, dc: conDC },
+        });
+        break;
+
+      case 'deathBurst': {
+        const damage = estimateAbilityDamage(cr / 2, ability.damageType ?? DnD5eDamageType.FIRE, true);
+        traits.push({
+          name: 'Death Burst',
+          description: `When the ${subject} dies, it explodes. Each creature within 10 feet of it ${describeSaveForHalf(conDC, AbilityScore.DEXTERITY, damage)}`,
+        });
+        break;
+      }
+
+      case 'charge': {
+        const damage = estimateAbilityDamage(cr, DnD5eDamageType.BLUDGEONING, false);
+        traits.push({
+          name: 'Charge',
+          description: `If the ${subject} moves at least 20 feet straight toward a target and then hits it with a melee attack on the same turn, the target takes an extra ${describeDamage(damage)}.`,
+        });
+        break;
+      }
+
+      case 'magicResistance':
+        traits.push({
+          name: 'Magic Resistance',
+          description: `The ${subject} has advantage on saving throws against spells and other magical effects.`,
+        });
+        break;
+
+      case 'packTactics':
+        traits.push({
+          name: 'Pack Tactics',
+          description: `The ${subject} has advantage on an attack roll against a creature if at least one of the ${subject}'s allies is within 5 feet of the creature and the ally isn't incapacitated.`,
+        });
+        break;
+
+      case 'spiderClimb':
+        traits.push({
+          name: 'Spider Climb',
+          description: `The ${subject} can climb difficult surfaces, including upside down on ceilings, without needing to make an ability check.`,
+        });
+        break;
+
+      case 'amphibious':
+        traits.push({ name: 'Amphibious', description: `The ${subject} can breathe air and water.` });
+        break;
+
+      case 'incorporeal':
+        traits.push({
+          name: 'Incorporeal Movement',
+          description: `The ${subject} can move through other creatures and objects as if they were difficult terrain. It takes 5 (1d10) force damage if it ends its turn inside an object.`,
+        });
+        break;
+
+      case 'sunlightSensitivity':
+        traits.push({
+          name: 'Sunlight Sensitivity',
+          description: `While in sunlight, the ${subject} has disadvantage on attack rolls, as well as on Wisdom (Perception) checks that rely on sight.`,
+        });
+        break;
+    }
+  }
+
+  return { traits, actions };
+}
+
+// ============================================================================
+// GROUP EXTRACTION
+// ============================================================================
+
+/**
+ * Returns the singular of an English plural noun ("wolves" -> "wolf").
+ */
+function singularize(word: string): string {
+  const lower = word.toLowerCase();
+  const irregular = IRREGULAR_PLURALS[lower];
+  if (irregular) return irregular;
+
+  if (/[^aeiou]ies$/.test(lower)) return word.slice(0, -3) + 'y';
+  if (/ieves$/.test(lower)) return word.slice(0, -3) + 'f';
+  if (/[lr]ves$/.test(lower)) return word.slice(0, -3) + 'f';
+  if (/(?:ss|x|ch|sh)es$/.test(lower)) return word.slice(0, -2);
+  if (/men$/.test(lower)) return word.slice(0, -3) + 'man';
+  if (/[^su]s$/.test(lower)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Splits a group member's text into its count, collective noun, and the
+ * creature description that follows them.
+ */
+function extractCount(text: string): { count?: number; collective?: string; rest: string } {
+  let rest = text.trim();
+  let count: number | undefined;
+  let collective: string | undefined;
+
+  const readCount = (): void => {
+    const match = rest.match(COUNT_PREFIX);
+    if (match?.[1]) {
+      const word = match[1].toLowerCase();
+      count = /^\d+$/.test(word) ? parseInt(word, 10) : COUNT_WORDS[word];
+      rest = rest.slice(match[0].length);
+    }
+  };
+
+  readCount();
+  const group = rest.match(COLLECTIVE_PREFIX);
+  if (group?.[1]) {
+    collective = group[1].toLowerCase();
+    count = undefined;
+    rest = rest.slice(group[0].length);
+    readCount();
+  }
+
+  const result: { count?: number; collective?: string; rest: string } = { rest };
+  if (count !== undefined) result.count = count;
+  if (collective) result.collective = collective;
+  return result;
+}
+
+/**
+ * Returns true if a piece of a group description names another creature
+ * rather than continuing the previous one ("... and a shield").
+ */
+function startsMember(text: string): boolean {
+  const { count, collective, rest } = extractCount(text);
+  if (count === undefined && !collective) return false;
+
+  const head = rest.match(/^[a-z-]+/i)?.[0] ?? '';
+  const word = singularize(head).toLowerCase();
+  return head !== '' && !EQUIPMENT_WORDS.has(word) && !BODY_PART_WORDS.has(word);
+}
+
+/**
+ * Splits a list of creatures ("six hobgoblins and two wolves") into one
+ * description per kind of creature.
+ */
+function splitMembers(text: string): string[] {
+  const parts = text.split(MEMBER_SEPARATOR);
+  const members: string[] = [parts[0] ?? ''];
+
+  for (let i = 1; i < parts.length; i += 2) {
+    const separator = parts[i] ?? '';
+    const part = parts[i + 1] ?? '';
+    if (startsMember(part)) {
+      members.push(part);
+    } else {
+      members[members.length - 1] += separator + part;
+    }
+  }
+
+  return members.map((member) => member.trim()).filter((member) => member !== '');
+}
+
+/**
+ * Finds where a leader's companions start ("a bandit captain with four
+ * bandits"). A possessive ("and his wolves") always marks companions; a bare
+ * "with" does only when several creatures or a leader's title are involved,
+ * so "a dragon with a fiery breath" stays one creature.
+ */
+function findCompanions(text: string): RegExpMatchArray | undefined {
+  for (const match of text.matchAll(COMPANIONS_PATTERN)) {
+    if (match.index === undefined) continue;
+    const isPossessive = match[1] !== undefined;
+    if (!isPossessive && !/^with\b/i.test(match[0].trim())) continue;
+
+    const before = text.slice(0, match.index);
+    const after = text.slice(match.index + match[0].length);
+    if (!startsMember(isPossessive ? `a ${after}` : after)) continue;
+
+    const { count, collective } = extractCount(after);
+    if (isPossessive || collective || (count ?? 0) > 1 || extractModifiers(before).isLeader) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses one kind of creature in a group.
+ */
+function parseGroupMember(description: string, role: NLGroupRole): NLGroupMember {
+  const { count, collective, rest } = extractCount(description);
+
+  // Parse a single creature: "six hobgoblins" -> "hobgoblin"
+  let creature = rest;
+  if ((count ?? 0) > 1 || collective) {
+    const end = rest.search(NAME_END);
+    const head = end === -1 ? rest : rest.slice(0, end);
+    const tail = end === -1 ? '' : rest.slice(end);
+    creature = head.replace(/([a-z-]+)$/i, (word) => singularize(word)) + tail;
+  }
+
+  const parse = parseNaturalLanguage(creature);
+  const member: NLGroupMember = {
+    description,
+    count: count ?? (collective ? DEFAULT_COLLECTIVE_SIZE : 1),
+    role,
+    parse,
+    statBlock: estimateMissingStats(parse.statBlock),
+  };
+  if (collective) {
+    member.collective = collective;
+  }
+  return member;
+}
+
 // ============================================================================
 // MAIN PARSER FUNCTIONS
 // ============================================================================
@@ -909,6 +1769,9 @@ export function parseNaturalLanguage(input: string): NLParseResult {
     extracted.push('movement');
   }
 
+  // Extract special abilities
+  const abilities = extractAbilities(input);
+
   // Extract alignment
   const alignment = extractAlignment(input);
   if (alignment) {
@@ -925,7 +1788,7 @@ export function parseNaturalLanguage(input: string): NLParseResult {
     // Include type in name if not already present
     name = `${name} ${typeInfo.baseName}`.trim();
   }
-  if (modifiers.isLeader && !name.toLowerCase().includes('leader')) {
+  if (modifiers.isLeader && !/\b(leader|chieftain|captain|boss|commander|warlord)\b/i.test(name)) {
     name = `${name} Leader`;
   }
   if (modifiers.isSwarm && !name.toLowerCase().includes('swarm')) {
@@ -1019,6 +1882,17 @@ export function parseNaturalLanguage(input: string): NLParseResult {
     });
   }
 
+  // Turn described abilities into traits and actions
+  if (abilities.length > 0) {
+    const subject = typeInfo?.baseName.toLowerCase() ?? 'creature';
+    const created = createAbilities(abilities, subject, numericCR, statBlock.abilityScores);
+    traits.push(...created.traits.filter((trait) => !traits.some((existing) => existing.name === trait.name)));
+    if (created.actions.length > 0) {
+      statBlock.actions = created.actions;
+    }
+    extracted.push('abilities');
+  }
+
   if (traits.length > 0) {
     statBlock.traits = traits;
     extracted.push('traits');
@@ -1143,3 +2017,67 @@ export function mergeWithStructured(
   // Fill any remaining gaps
   return estimateMissingStats(merged);
 }
+
+/**
+ * Parses a natural language description of a group of creatures, such as
+ * "a hobgoblin captain leading six hobgoblins and two wolves".
+ *
+ * Each kind of creature is parsed with `parseNaturalLanguage` and given a
+ * count. A creature "leading" or "commanding" the others, the others "led
+ * by" it, or a creature followed by its companions ("a bandit captain with
+ * four bandits", "a chief and his pack of wolves") becomes the group's
+ * leader; without those words, a lone captain, chieftain, boss, or similar
+ * leads the rest. Collective nouns ("a pack of wolves") count as six
+ * creatures unless a count is given.
+ *
+ * @param input - Natural language group description
+ * @returns The group's members with counts, and the leader's index
+ *
+ * @example
+ * ```typescript
+ * const group = parseNaturalLanguageGroup('a hobgoblin captain leading six hobgoblins and two wolves');
+ * group.members.map((m) => `${m.count} ${m.statBlock.name} (${m.role})`);
+ * // ["1 Hobgoblin Captain (leader)", "6 Hobgoblin (follower)", "2 Wolf (follower)"]
+ * ```
+ */
+export function parseNaturalLanguageGroup(input: string): NLGroupParseResult {
+  const text = input.trim().replace(/[.!]+$/, '');
+  let members: NLGroupMember[];
+
+  const leadsMatch = text.match(LEADS_PATTERN);
+  const ledBy = leadsMatch ? null : text.match(LED_BY_PATTERN);
+  const leads = leadsMatch ?? (ledBy ? null : findCompanions(text));
+  const split = leads ?? ledBy;
+  if (split?.index !== undefined) {
+    const before = text.slice(0, split.index);
+    let after = text.slice(split.index + split[0].length);
+    // "his pack of wolves" -> "a pack of wolves"
+    if (split[1] !== undefined && !COUNT_PREFIX.test(after)) after = `a ${after}`;
+    const [leader = '', ...others] = splitMembers(leads ? before : after);
+    const followers = [...splitMembers(leads ? after : before), ...others];
+    members = [
+      parseGroupMember(leader, 'leader'),
+      ...followers.map((follower) => parseGroupMember(follower, 'follower')),
+    ];
+  } else {
+    members = splitMembers(text).map((member) => parseGroupMember(member, 'member'));
+
+    // A lone captain or chieftain among others leads them
+    const leaderIndex = members.findIndex(
+      (member) => member.count === 1 && extractModifiers(member.description).isLeader
+    );
+    if (members.length > 1 && leaderIndex !== -1) {
+      const [leader] = members.splice(leaderIndex, 1);
+      members = [{ ...leader!, role: 'leader' }, ...members.map((member) => ({ ...member, role: 'follower' as const }))];
+    }
+  }
+
+  const result: NLGroupParseResult = {
+    members,
+    confidence: members.length > 0 ? Math.min(...members.map((member) => member.parse.confidence)) : 0,
+  };
+  if (members[0]?.role === 'leader') {
+    result.leaderIndex = 0;
+  }
+  return result;
+}
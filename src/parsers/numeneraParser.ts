@@ -0,0 +1,391 @@
+/**
+ * Numenera / Cypher System Stat Block Parser
+ *
+ * Parses plain text Numenera and Cypher System creature entries
+ * (copy-pasted from books/PDFs) into structured NumeneraStatBlock objects.
+ *
+ * @module parsers/numeneraParser
+ * @version 1.0.0
+ */
+
+import {
+  NumeneraStatBlock,
+  NumeneraDamage,
+  NumeneraMovement,
+  NumeneraMovementMode,
+  NumeneraRange,
+  levelToTargetNumber,
+  parseNumeneraRange,
+  parseNumeneraDamage,
+  parseModifications,
+} from '../models/numenera';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Result of a safe parse operation.
+ */
+export interface NumeneraParseResult {
+  /** Successfully parsed stat block, if any. */
+  result?: NumeneraStatBlock;
+  /** List of parsing errors. */
+  errors: string[];
+  /** List of non-fatal warnings. */
+  warnings: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Field labels used in Numenera/Cypher creature entries, keyed by the
+ * normalized field name. Labels are matched at the start of a line.
+ */
+const FIELD_LABELS: Array<{ field: string; pattern: RegExp }> = [
+  { field: 'level', pattern: /^level\s*:?\s*/i },
+  { field: 'motive', pattern: /^motive\s*:\s*/i },
+  { field: 'environment', pattern: /^environment\s*:\s*/i },
+  { field: 'health', pattern: /^health\s*:\s*/i },
+  { field: 'damage', pattern: /^damage(?:\s+inflicted)?\s*:\s*/i },
+  { field: 'armor', pattern: /^armou?r\s*:\s*/i },
+  { field: 'movement', pattern: /^movement\s*:\s*/i },
+  { field: 'modifications', pattern: /^modifications?\s*:\s*/i },
+  { field: 'combat', pattern: /^combat\s*:\s*/i },
+  { field: 'interaction', pattern: /^interaction\s*:\s*/i },
+  { field: 'use', pattern: /^use\s*:\s*/i },
+  { field: 'loot', pattern: /^loot\s*:\s*/i },
+  { field: 'intrusion', pattern: /^gm\s+intrusions?\s*:\s*/i },
+];
+
+// ============================================================================
+// PARSER HELPERS
+// ============================================================================
+
+/**
+ * Normalizes line endings and removes extra whitespace.
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\t/g, ' ')
+    .trim();
+}
+
+/**
+ * Parses the header line into a name and optional level/target number.
+ *
+ * Common formats:
+ * - "Hotskive 3 (9)" - Name, level, target number
+ * - "HOTSKIVE    3 (9)" - Book layout with wide spacing
+ * - "Hotskive" - Name only, level given on a "Level" line
+ */
+function parseHeader(line: string): { name: string; level?: number; targetNumber?: number } {
+  const match = line.match(/^(.+?)\s+(\d{1,2})\s*\((\d{1,2})\)\s*$/);
+  if (match?.[1] && match[2] && match[3]) {
+    return {
+      name: titleCase(match[1].trim()),
+      level: parseInt(match[2], 10),
+      targetNumber: parseInt(match[3], 10),
+    };
+  }
+
+  return { name: titleCase(line.trim()) };
+}
+
+/**
+ * Converts an all-caps book heading to title case; mixed case is kept.
+ */
+function titleCase(name: string): string {
+  if (name !== name.toUpperCase()) return name;
+
+  return name
+    .toLowerCase()
+    .replace(/\b([a-z])/g, (letter) => letter.toUpperCase());
+}
+
+/**
+ * Splits the body lines into labeled fields.
+ *
+ * Lines without a label continue the previous field; lines before the
+ * first label form the description. Repeated labels (e.g. several
+ * "GM Intrusion" lines) are kept as separate entries.
+ */
+function splitFields(lines: string[]): { description: string; fields: Map<string, string[]> } {
+  const fields = new Map<string, string[]>();
+  const descriptionLines: string[] = [];
+  let current: string[] | undefined;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const label = FIELD_LABELS.find(({ pattern }) => pattern.test(line));
+    if (label) {
+      const entries = fields.get(label.field) ?? [];
+      entries.push(line.replace(label.pattern, '').trim());
+      fields.set(label.field, entries);
+      current = entries;
+      continue;
+    }
+
+    if (current && current.length > 0) {
+      current[current.length - 1] = `${current[current.length - 1]} ${line}`.trim();
+    } else {
+      descriptionLines.push(line);
+    }
+  }
+
+  return { description: descriptionLines.join(' '), fields };
+}
+
+/**
+ * Parses a single numeric field value (e.g. "Health: 9").
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  const match = value?.match(/-?\d+/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+/**
+ * Parses movement in Cypher range categories.
+ *
+ * Common formats:
+ * - "Short"
+ * - "Immediate; long when flying"
+ * - "Short; immediate when burrowing"
+ * - "None"
+ */
+function parseMovement(text: string): NumeneraMovement[] {
+  const movement: NumeneraMovement[] = [];
+
+  for (const part of text.split(/[;,]/)) {
+    const range = parseNumeneraRange(part);
+    if (!range) continue;
+
+    let mode = NumeneraMovementMode.WALK;
+    if (/fly|flying|air/i.test(part)) mode = NumeneraMovementMode.FLY;
+    else if (/swim|swimming|water/i.test(part)) mode = NumeneraMovementMode.SWIM;
+    else if (/climb|climbing/i.test(part)) mode = NumeneraMovementMode.CLIMB;
+    else if (/burrow|burrowing|dig/i.test(part)) mode = NumeneraMovementMode.BURROW;
+
+    movement.push({ mode, range });
+  }
+
+  return movement;
+}
+
+/**
+ * Parses the damage field, falling back to the creature's level.
+ *
+ * Cypher creatures that list no damage inflict damage equal to their level.
+ */
+function parseDamage(text: string | undefined, level: number): NumeneraDamage | null {
+  if (!text) return null;
+
+  const damage = parseNumeneraDamage(text);
+  if (damage.points === 0 && !/\b0\b/.test(text)) {
+    return { ...damage, points: level };
+  }
+
+  return damage;
+}
+
+// ============================================================================
+// MAIN PARSER FUNCTIONS
+// ============================================================================
+
+/**
+ * Parses a plain text Numenera creature entry into a structured
+ * NumeneraStatBlock object.
+ *
+ * @param text - The raw stat block text
+ * @returns Parsed stat block object
+ * @throws Error if parsing fails critically
+ *
+ * @example
+ * ```typescript
+ * const hotskive = parseNumeneraStatBlock(`
+ *   Hotskive 3 (9)
+ *   Motive: Hungers for flesh
+ *   Health: 9
+ *   Damage Inflicted: 4 points + 1 point of heat
+ *   Armor: 1
+ *   Movement: Short
+ *   GM Intrusion: The hotskive's heat ignites the character's clothing.
+ * `);
+ * ```
+ */
+export function parseNumeneraStatBlock(text: string): NumeneraStatBlock {
+  const result = parseNumeneraStatBlockSafe(text);
+
+  if (!result.result) {
+    throw new Error(`Failed to parse Numenera stat block: ${result.errors.join('; ')}`);
+  }
+
+  return result.result;
+}
+
+/**
+ * Safely parses a Numenera stat block, returning errors instead of throwing.
+ *
+ * @param text - The raw stat block text
+ * @returns Object containing result (if successful) and any errors/warnings
+ */
+export function parseNumeneraStatBlockSafe(text: string): NumeneraParseResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const normalized = normalizeText(text);
+  const lines = normalized.split('\n');
+
+  if (lines.length === 0 || !lines[0]) {
+    errors.push('Empty stat block');
+    return { errors, warnings };
+  }
+
+  // First line is the name, usually followed by "level (target number)"
+  const header = parseHeader(lines[0]);
+  if (!header.name) {
+    errors.push('Missing creature name');
+    return { errors, warnings };
+  }
+
+  const { description, fields } = splitFields(lines.slice(1));
+  const field = (name: string): string | undefined => fields.get(name)?.[0];
+
+  // Parse level
+  const level = header.level ?? parseNumber(field('level'));
+  if (level === undefined) {
+    errors.push('Could not parse creature level');
+    return { errors, warnings };
+  }
+  if (level < 1 || level > 10) {
+    warnings.push(`Level ${level} is outside the standard 1-10 range`);
+  }
+
+  const targetNumber = levelToTargetNumber(level);
+  if (header.targetNumber !== undefined && header.targetNumber !== targetNumber) {
+    warnings.push(
+      `Listed target number ${header.targetNumber} does not match level ${level} (expected ${targetNumber})`
+    );
+  }
+
+  // Parse Health
+  const health = parseNumber(field('health'));
+  if (health === undefined) {
+    errors.push('Could not parse Health');
+    return { errors, warnings };
+  }
+
+  // Parse Damage
+  let damage = parseDamage(field('damage'), level);
+  if (!damage) {
+    warnings.push(`Could not parse damage, using creature level (${level})`);
+    damage = { points: level, raw: `${level} points` };
+  }
+
+  // Parse Armor
+  const armor = parseNumber(field('armor'));
+  if (armor === undefined) {
+    warnings.push('No Armor listed, assuming 0');
+  }
+
+  // Parse Movement
+  let movement = parseMovement(field('movement') ?? '');
+  if (movement.length === 0 && !/^none/i.test(field('movement') ?? '')) {
+    warnings.push('Could not parse movement, assuming Short');
+    movement = [{ mode: NumeneraMovementMode.WALK, range: NumeneraRange.SHORT }];
+  }
+
+  // Parse Modifications
+  const modifications = parseModifications(field('modifications') ?? '');
+
+  // Parse GM Intrusions
+  const gmIntrusions = fields.get('intrusion') ?? [];
+
+  // Build result
+  const statBlock: NumeneraStatBlock = {
+    name: header.name,
+    level,
+    targetNumber,
+    health,
+    armor: armor ?? 0,
+    damage,
+    movement,
+    modifications,
+    gmIntrusions,
+  };
+
+  // Add optional fields
+  if (description) {
+    statBlock.description = description;
+  }
+  const optionalFields = ['motive', 'environment', 'combat', 'interaction', 'use', 'loot'] as const;
+  for (const name of optionalFields) {
+    const value = field(name);
+    if (value) {
+      statBlock[name] = value;
+    }
+  }
+
+  return { result: statBlock, errors, warnings };
+}
+
+/**
+ * Validates a parsed Numenera stat block for completeness.
+ *
+ * @param statBlock - The parsed stat block to validate
+ * @returns List of validation issues
+ */
+export function validateNumeneraStatBlock(statBlock: NumeneraStatBlock): string[] {
+  const issues: string[] = [];
+
+  // Check required fields
+  if (!statBlock.name) issues.push('Missing name');
+  if (!statBlock.damage) issues.push('Missing damage');
+  if (!statBlock.movement) issues.push('Missing movement');
+
+  // Validate level range
+  if (statBlock.level < 1 || statBlock.level > 10) {
+    issues.push(`Level ${statBlock.level} is out of range (1-10)`);
+  }
+
+  // Validate target number
+  if (statBlock.targetNumber !== levelToTargetNumber(statBlock.level)) {
+    issues.push(
+      `Target number ${statBlock.targetNumber} does not match level ${statBlock.level}`
+    );
+  }
+
+  // Validate health and armor
+  if (statBlock.health < 1) {
+    issues.push(`Health ${statBlock.health} must be at least 1`);
+  }
+  if (statBlock.armor < 0 || statBlock.armor > 6) {
+    issues.push(`Armor ${statBlock.armor} is out of typical range (0 to 6)`);
+  }
+
+  // Validate modification levels
+  for (const modification of statBlock.modifications) {
+    if (modification.level < 1 || modification.level > 10) {
+      issues.push(`Modification "${modification.task}" level ${modification.level} is out of range (1-10)`);
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export {
+  parseHeader,
+  splitFields,
+  parseMovement,
+  parseDamage,
+};
@@ -0,0 +1,490 @@
+/**
+ * OCR Repair
+ *
+ * Repairs the artifacts that text copied from a PDF picks up before it
+ * reaches the stat block parser: ligature glyphs, soft hyphens and
+ * non-breaking spaces, words hyphenated across line breaks, two-column
+ * text pasted side by side, fields wrapped onto a second line ("Hit
+ * Points 7" / "(2d6)"), and ability score tables flattened into one
+ * entry per line or out of order.
+ *
+ * Every change is recorded with the input line it came from so the
+ * caller can show the user exactly what was altered.
+ *
+ * @module parsers/ocrRepair
+ * @version 1.0.0
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Kind of artifact an OCR repair fixed.
+ */
+export type OcrRepairKind =
+  | 'ligature'
+  | 'character'
+  | 'column'
+  | 'hyphenation'
+  | 'wrapped-line'
+  | 'ability-table';
+
+/**
+ * A single change made by the repair pass.
+ */
+export interface OcrRepair {
+  /** Kind of artifact repaired. */
+  kind: OcrRepairKind;
+  /** Input line the repair starts at (1-based). */
+  line: number;
+  /** Text before the repair. */
+  before: string;
+  /** Text after the repair. */
+  after: string;
+  /** Human-readable summary of the repair. */
+  description: string;
+}
+
+/**
+ * Result of repairing a text.
+ */
+export interface OcrRepairResult {
+  /** The repaired text. */
+  text: string;
+  /** Every repair made, in the order they were applied. */
+  repairs: OcrRepair[];
+  /** Input line (1-based) each line of the repaired text starts at. */
+  lines: number[];
+}
+
+/**
+ * A working line and the input line it started at.
+ */
+interface SourceLine {
+  text: string;
+  line: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Ligature glyphs and their letters. */
+const LIGATURES: Record<string, string> = {
+  '\ufb00': 'ff',
+  '\ufb01': 'fi',
+  '\ufb02': 'fl',
+  '\ufb03': 'ffi',
+  '\ufb04': 'ffl',
+  '\ufb05': 'st',
+  '\ufb06': 'st',
+};
+
+/** Invisible and typographic characters and their plain replacements. */
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  '\u00ad': '', // soft hyphen
+  '\u200b': '', // zero-width space
+  '\u200c': '', // zero-width non-joiner
+  '\u200d': '', // zero-width joiner
+  '\ufeff': '', // byte order mark
+  '\u00a0': ' ', // non-breaking space
+  '\u2009': ' ', // thin space
+  '\u202f': ' ', // narrow non-breaking space
+  '\u2018': "'",
+  '\u2019': "'",
+  '\u201c': '"',
+  '\u201d': '"',
+};
+
+/** Stat block field labels, longest first so "damage immunities" wins over "immunities". */
+const FIELD_LABELS = [
+  'damage vulnerabilities',
+  'condition immunities',
+  'damage resistances',
+  'damage immunities',
+  'proficiency bonus',
+  'vulnerabilities',
+  'saving throws',
+  'armor class',
+  'resistances',
+  'immunities',
+  'hit points',
+  'initiative',
+  'challenge',
+  'languages',
+  'senses',
+  'skills',
+  'speed',
+  'gear',
+  'ac',
+  'hp',
+  'cr',
+];
+
+/** Ability labels in stat block order. */
+const ABILITY_LABELS = ['STR', 'DEX', 'CON', 'INT', 'WIS', 'CHA'];
+
+/** A column gap: a run of three or more spaces, or tabs. */
+const COLUMN_GAP = / {3,}|\t+/;
+
+/** An ability label or a "14 (+2)" score, as used in ability tables. */
+const ABILITY_TOKEN =
+  /\b(str(?:ength)?|dex(?:terity)?|con(?:stitution)?|int(?:elligence)?|wis(?:dom)?|cha(?:risma)?)\b|(\d+)\s*\(\s*([+\-−–]?\s*\d+)\s*\)/gi;
+
+/** Lines that open the body of an attack and belong to the line above. */
+const ATTACK_CONTINUATION =
+  /^(?:Hit:|(?:Melee|Ranged)(?: or Ranged)?(?: Weapon| Spell)? Attack(?: Roll)?:|(?:Strength|Dexterity|Constitution|Intelligence|Wisdom|Charisma) Saving Throw:)/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Returns the field label a line starts with, if any.
+ */
+function fieldLabel(line: string): string | undefined {
+  const lower = line.trim().toLowerCase();
+  return FIELD_LABELS.find((label) => lower === label || new RegExp(`^${label}\\b`).test(lower));
+}
+
+/**
+ * Returns true for a line made up only of ability labels and scores.
+ */
+function isAbilityLine(line: string): boolean {
+  return line.trim() !== '' && line.replace(ABILITY_TOKEN, '').trim() === '';
+}
+
+/**
+ * Replaces characters from a lookup table, returning null when nothing changed.
+ */
+function replaceCharacters(text: string, table: Record<string, string>): string | null {
+  const pattern = new RegExp(`[${Object.keys(table).join('')}]`, 'gu');
+  const replaced = text.replace(pattern, (char) => table[char] ?? char);
+  return replaced === text ? null : replaced;
+}
+
+// ============================================================================
+// REPAIR PASSES
+// ============================================================================
+
+/**
+ * Replaces ligature glyphs and invisible or typographic characters.
+ */
+function repairCharacters(lines: SourceLine[], repairs: OcrRepair[]): SourceLine[] {
+  return lines.map((source) => {
+    let text = source.text;
+
+    const ligatures = replaceCharacters(text, LIGATURES);
+    if (ligatures !== null) {
+      repairs.push({
+        kind: 'ligature',
+        line: source.line,
+        before: text,
+        after: ligatures,
+        description: `Replaced ligatures: "${text.trim()}" → "${ligatures.trim()}"`,
+      });
+      text = ligatures;
+    }
+
+    const characters = replaceCharacters(text, SPECIAL_CHARACTERS);
+    if (characters !== null) {
+      repairs.push({
+        kind: 'character',
+        line: source.line,
+        before: text,
+        after: characters,
+        description: `Replaced invisible or typographic characters in "${characters.trim()}"`,
+      });
+      text = characters;
+    }
+
+    return { ...source, text };
+  });
+}
+
+/**
+ * Separates two columns pasted side by side.
+ *
+ * When at least two lines hold two pieces of text split by a wide gap,
+ * the left pieces stay in place and the right pieces (along with lines
+ * indented into the right column) move after the last line, in order.
+ * Lines of ability scores are spaced-out tables, not columns.
+ */
+function repairColumns(lines: SourceLine[], repairs: OcrRepair[]): SourceLine[] {
+  const isColumnLine = (text: string): boolean =>
+    !isAbilityLine(text) && text.trim().split(COLUMN_GAP).length === 2;
+
+  if (lines.filter((source) => isColumnLine(source.text)).length < 2) {
+    return lines;
+  }
+
+  const left: SourceLine[] = [];
+  const right: SourceLine[] = [];
+
+  for (const source of lines) {
+    if (isColumnLine(source.text)) {
+      const [leftText = '', rightText = ''] = source.text.trim().split(COLUMN_GAP);
+      left.push({ text: leftText, line: source.line });
+      right.push({ text: rightText, line: source.line });
+      repairs.push({
+        kind: 'column',
+        line: source.line,
+        before: source.text,
+        after: leftText,
+        description: `Split two-column line: "${leftText}" | "${rightText}" (right column moved after the left)`,
+      });
+    } else if (/^(?: {3,}|\t+)\S/.test(source.text) && right.length > 0) {
+      right.push({ text: source.text.trim(), line: source.line });
+      repairs.push({
+        kind: 'column',
+        line: source.line,
+        before: source.text,
+        after: source.text.trim(),
+        description: `Moved indented right-column line after the left column: "${source.text.trim()}"`,
+      });
+    } else {
+      left.push(source);
+    }
+  }
+
+  return [...left, ...right];
+}
+
+/**
+ * Rejoins words hyphenated across a line break ("at-" / "tacks").
+ */
+function repairHyphenation(lines: SourceLine[], repairs: OcrRepair[]): SourceLine[] {
+  const result: SourceLine[] = [];
+
+  for (const source of lines) {
+    const previous = result[result.length - 1];
+    const next = source.text.trimStart();
+
+    if (previous && /[A-Za-z]{2}-$/.test(previous.text.trimEnd()) && /^[a-z]/.test(next)) {
+      const head = previous.text.trimEnd();
+      const joined = head.slice(0, -1) + next;
+      const word = `${head.slice(0, -1).split(/\s+/).pop() ?? ''}${next.split(/\s+/)[0] ?? ''}`;
+      repairs.push({
+        kind: 'hyphenation',
+        line: previous.line,
+        before: `${head}\n${source.text}`,
+        after: joined,
+        description: `Rejoined hyphenated word "${word}"`,
+      });
+      previous.text = joined;
+      continue;
+    }
+
+    result.push({ ...source });
+  }
+
+  return result;
+}
+
+/**
+ * Rejoins fields and attack text wrapped onto a second line.
+ *
+ * Joins a bare field label to its value ("Hit Points" / "7 (2d6)"), a
+ * parenthetical or lowercase continuation to the field above it ("Hit
+ * Points 7" / "(2d6)", "Senses darkvision 60 ft.," / "passive
+ * Perception 9"), and attack text to the action name above it
+ * ("Scimitar." / "Melee Weapon Attack: ...").
+ */
+function repairWrappedLines(lines: SourceLine[], repairs: OcrRepair[]): SourceLine[] {
+  const result: SourceLine[] = [];
+
+  for (const source of lines) {
+    const previous = result[result.length - 1];
+    const current = source.text.trim();
+    const above = previous?.text.trim() ?? '';
+
+    let join = false;
+    if (previous && above && current) {
+      const lowerAbove = above.toLowerCase();
+      const joinedLabel = fieldLabel(`${above} ${current}`);
+      const bareLabel =
+        !/\d/.test(above) &&
+        FIELD_LABELS.some((label) => label.startsWith(lowerAbove)) &&
+        joinedLabel !== undefined &&
+        joinedLabel.length >= lowerAbove.length;
+      const fieldContinuation =
+        fieldLabel(above) !== undefined &&
+        fieldLabel(current) === undefined &&
+        !isAbilityLine(current) &&
+        (/^[a-z(+\-]/.test(current) || /[,;]$/.test(above));
+
+      join = bareLabel || fieldContinuation || ATTACK_CONTINUATION.test(current);
+    }
+
+    if (previous && join) {
+      const joined = `${above} ${current}`;
+      repairs.push({
+        kind: 'wrapped-line',
+        line: previous.line,
+        before: `${above}\n${current}`,
+        after: joined,
+        description: `Joined wrapped line: "${above}" + "${current}"`,
+      });
+      previous.text = joined;
+      continue;
+    }
+
+    result.push({ ...source });
+  }
+
+  return result;
+}
+
+/**
+ * Rebuilds ability score tables flattened across lines or out of order.
+ *
+ * Labels are matched to scores in the order they appear, so "STR" /
+ * "8 (-1)" / "DEX" / "14 (+2)", "STR DEX CON" / "8 (-1) 14 (+2) 10 (+0)"
+ * / "INT WIS CHA" / ..., and "CHA WIS INT STR DEX CON" / ... all become
+ * the standard two-line table. Scores without labels are taken in
+ * STR-to-CHA order.
+ */
+function repairAbilityTable(lines: SourceLine[], repairs: OcrRepair[]): SourceLine[] {
+  const result: SourceLine[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!isAbilityLine(lines[i]?.text ?? '')) {
+      result.push(lines[i]!);
+      i++;
+      continue;
+    }
+
+    const run: SourceLine[] = [];
+    while (i < lines.length && isAbilityLine(lines[i]?.text ?? '')) {
+      run.push(lines[i]!);
+      i++;
+    }
+
+    const rebuilt = rebuildAbilityTable(run.map((source) => source.text).join(' '));
+    const original = run.map((source) => source.text.trim().replace(/\s+/g, ' ')).join('\n');
+    if (!rebuilt || readsAsAbilityTable(run.map((source) => source.text), rebuilt)) {
+      result.push(...run);
+      continue;
+    }
+
+    const first = run[0]!;
+    repairs.push({
+      kind: 'ability-table',
+      line: first.line,
+      before: original,
+      after: rebuilt,
+      description: `Rebuilt ability score table from ${run.length} line${run.length === 1 ? '' : 's'}: ${rebuilt.replace('\n', ' / ')}`,
+    });
+    const [labels = '', scores = ''] = rebuilt.split('\n');
+    result.push({ text: labels, line: first.line }, { text: scores, line: first.line });
+  }
+
+  return result;
+}
+
+/**
+ * Formats a score and its modifier as "14 (+2)".
+ */
+function formatAbilityScore(score: string, modifier: string): string {
+  const signed = modifier.replace(/[−–]/, '-').replace(/\s+/g, '');
+  return `${score} (${/^[+-]/.test(signed) ? signed : `+${signed}`})`;
+}
+
+/**
+ * Reads a line's ability labels and scores in order as "STR" and "14 (+2)",
+ * so spacing, case, and minus signs don't count as differences.
+ */
+function readAbilityTokens(text: string): string[] {
+  return [...text.matchAll(ABILITY_TOKEN)].map((match) =>
+    match[1] ? match[1].slice(0, 3).toUpperCase() : formatAbilityScore(match[2] ?? '', match[3] ?? '')
+  );
+}
+
+/**
+ * Returns true when ability lines already read the same as the rebuilt
+ * table: the standard label and score lines, or the single
+ * "STR 26 (+8) DEX 15 (+2) ..." line, with the same scores and modifiers.
+ */
+function readsAsAbilityTable(lines: string[], rebuilt: string): boolean {
+  const [labels = [], scores = []] = rebuilt.split('\n').map(readAbilityTokens);
+  const read = lines.map(readAbilityTokens);
+  const same = (expected: string[], actual: string[] | undefined): boolean =>
+    expected.length === actual?.length && expected.every((token, index) => token === actual[index]);
+
+  if (read.length === 1) {
+    return same(labels.flatMap((label, index) => [label, scores[index] ?? '']), read[0]);
+  }
+  return read.length === 2 && same(labels, read[0]) && same(scores, read[1]);
+}
+
+/**
+ * Pairs ability labels with scores, returning the standard two-line table
+ * or null when the tokens don't make exactly six scores.
+ */
+function rebuildAbilityTable(text: string): string | null {
+  const pending: string[] = [];
+  const scores = new Map<string, string>();
+  let labelCount = 0;
+
+  for (const match of text.matchAll(ABILITY_TOKEN)) {
+    if (match[1]) {
+      pending.push(match[1].slice(0, 3).toUpperCase());
+      labelCount++;
+      continue;
+    }
+
+    const score = formatAbilityScore(match[2] ?? '', match[3] ?? '');
+    const label = pending.shift() ?? ABILITY_LABELS.find((ability) => !scores.has(ability));
+    if (!label || scores.has(label)) return null;
+    scores.set(label, score);
+  }
+
+  if (scores.size !== 6 || (labelCount !== 0 && labelCount !== 6)) {
+    return null;
+  }
+
+  return `${ABILITY_LABELS.join(' ')}\n${ABILITY_LABELS.map((ability) => scores.get(ability)).join(' ')}`;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Repairs PDF copy artifacts in a stat block or document.
+ *
+ * Passes run in order: characters and ligatures, columns, hyphenation,
+ * wrapped lines, then ability tables. Text without artifacts comes back
+ * unchanged with no repairs.
+ *
+ * @param text - Text copied from a PDF
+ * @returns The repaired text and a report of every repair
+ *
+ * @example
+ * ```typescript
+ * const { text, repairs } = repairOcrText('Hit Points\n7 (2d6)\nSpeed 30 ft.');
+ * // text === 'Hit Points 7 (2d6)\nSpeed 30 ft.'
+ * // repairs[0].description === 'Joined wrapped line: "Hit Points" + "7 (2d6)"'
+ * ```
+ */
+export function repairOcrText(text: string): OcrRepairResult {
+  const repairs: OcrRepair[] = [];
+  let lines: SourceLine[] = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line, index) => ({ text: line, line: index + 1 }));
+
+  lines = repairCharacters(lines, repairs);
+  lines = repairColumns(lines, repairs);
+  lines = repairHyphenation(lines, repairs);
+  lines = repairWrappedLines(lines, repairs);
+  lines = repairAbilityTable(lines, repairs);
+
+  return {
+    text: lines.map((source) => source.text).join('\n'),
+    repairs,
+    lines: lines.map((source) => source.line),
+  };
+}
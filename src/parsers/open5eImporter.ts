@@ -0,0 +1,348 @@
+/**
+ * Open5e Monster Importer
+ *
+ * Maps Open5e API (v1 `/monsters/`) JSON into DnD5eMonster. Open5e keeps
+ * most fields as stat block strings ("darkvision 60 ft., passive
+ * Perception 9", "Melee Weapon Attack: +4 to hit..."), so they are read
+ * with the same field and entry parsers as pasted text. A Spellcasting
+ * special ability becomes structured spellcasting.
+ *
+ * @module parsers/open5eImporter
+ * @version 1.0.0
+ */
+
+import {
+  DnD5eMonster,
+  Speed,
+  SavingThrow,
+  SkillProficiency,
+  AbilityScore,
+  Trait,
+  CR_TO_XP,
+  calculateProficiencyBonus,
+} from '../models/dnd5e';
+import {
+  SIZE_MAP,
+  SKILL_MAP,
+  TYPE_MAP,
+  parseActionEntries,
+  parseAlignment,
+  parseArmorClass,
+  parseBonusActions,
+  parseConditionImmunities,
+  parseDamageModifiers,
+  parseHitPoints,
+  parseLanguages,
+  parseLegendaryActions,
+  parseReaction,
+  parseSenses,
+  parseSpellcasting,
+  parseTrait,
+} from './statBlockParser';
+import { ImportResult, importEach, isJsonObject, readJsonInput } from './jsonImporter';
+
+// ============================================================================
+// TYPES - Open5e JSON
+// ============================================================================
+
+/**
+ * A named Open5e entry (special ability, action, reaction).
+ */
+export interface Open5eEntry {
+  name: string;
+  desc: string;
+}
+
+/**
+ * An Open5e v1 monster.
+ */
+export interface Open5eMonster {
+  slug?: string;
+  name: string;
+  size: string;
+  type: string;
+  subtype?: string;
+  alignment?: string;
+  armor_class: number;
+  armor_desc?: string | null;
+  hit_points: number;
+  hit_dice?: string;
+  speed?: Record<string, number | boolean>;
+  strength: number;
+  dexterity: number;
+  constitution: number;
+  intelligence: number;
+  wisdom: number;
+  charisma: number;
+  strength_save?: number | null;
+  dexterity_save?: number | null;
+  constitution_save?: number | null;
+  intelligence_save?: number | null;
+  wisdom_save?: number | null;
+  charisma_save?: number | null;
+  skills?: Record<string, number>;
+  damage_vulnerabilities?: string;
+  damage_resistances?: string;
+  damage_immunities?: string;
+  condition_immunities?: string;
+  senses?: string;
+  languages?: string;
+  challenge_rating: string;
+  special_abilities?: Open5eEntry[] | string | null;
+  actions?: Open5eEntry[] | string | null;
+  bonus_actions?: Open5eEntry[] | string | null;
+  reactions?: Open5eEntry[] | string | null;
+  legendary_desc?: string | null;
+  legendary_actions?: Open5eEntry[] | string | null;
+  environments?: string[];
+  page_no?: number | null;
+  document__title?: string;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const SAVE_FIELDS: [keyof Open5eMonster, AbilityScore][] = [
+  ['strength_save', AbilityScore.STRENGTH],
+  ['dexterity_save', AbilityScore.DEXTERITY],
+  ['constitution_save', AbilityScore.CONSTITUTION],
+  ['intelligence_save', AbilityScore.INTELLIGENCE],
+  ['wisdom_save', AbilityScore.WISDOM],
+  ['charisma_save', AbilityScore.CHARISMA],
+];
+
+/**
+ * Returns the entries of a list field; Open5e uses "" or null for none.
+ */
+function entriesOf(value: Open5eEntry[] | string | null | undefined): Open5eEntry[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Renders an entry as one "Name. Description" line, dropping markdown
+ * emphasis.
+ */
+function renderEntry(entry: Open5eEntry): string {
+  const desc = entry.desc.replace(/[*_]{1,3}([^*_]+)[*_]{1,3}/g, '$1').replace(/\s*\n+\s*/g, ' ');
+  return `${entry.name}. ${desc.trim()}`;
+}
+
+/**
+ * Maps the speed object.
+ */
+function mapSpeed(speed: Open5eMonster['speed']): Speed {
+  const result: Speed = {};
+  for (const mode of ['walk', 'fly', 'swim', 'climb', 'burrow'] as const) {
+    const value = speed?.[mode];
+    if (typeof value === 'number') {
+      result[mode] = value;
+    }
+  }
+  if (result.fly !== undefined) {
+    result.hover = speed?.['hover'] === true;
+  }
+  return result;
+}
+
+// ============================================================================
+// MONSTER IMPORT
+// ============================================================================
+
+/**
+ * Maps one Open5e monster, pushing warnings for data that was dropped.
+ */
+function mapMonster(source: Open5eMonster, warnings: string[]): DnD5eMonster {
+  const size = SIZE_MAP[(source.size ?? '').toLowerCase()];
+  if (!size) {
+    throw new Error(`Unknown size: ${String(source.size)}`);
+  }
+
+  const typeText = (source.type ?? '').toLowerCase();
+  const typeKey = Object.keys(TYPE_MAP).find((key) => typeText.includes(key));
+  if (!typeKey) {
+    throw new Error(`Unknown creature type: ${String(source.type)}`);
+  }
+
+  const crStr = String(source.challenge_rating ?? '');
+  if (!/^\d+(?:\/\d+)?$/.test(crStr)) {
+    throw new Error(`Unsupported challenge rating: ${crStr || 'missing'}`);
+  }
+
+  const armorClass = parseArmorClass(`AC ${source.armor_class}${source.armor_desc ? ` (${source.armor_desc})` : ''}`);
+  if (!armorClass) {
+    throw new Error('Missing armor class');
+  }
+  const hitPoints = parseHitPoints(`HP ${source.hit_points}${source.hit_dice ? ` (${source.hit_dice})` : ''}`);
+  if (!hitPoints) {
+    throw new Error('Missing hit points');
+  }
+
+  const monster: DnD5eMonster = {
+    name: source.name,
+    size,
+    creatureType: TYPE_MAP[typeKey]!,
+    alignment: parseAlignment(source.alignment ?? 'unaligned'),
+    armorClass,
+    hitPoints,
+    speed: mapSpeed(source.speed),
+    abilityScores: {
+      STR: source.strength,
+      DEX: source.dexterity,
+      CON: source.constitution,
+      INT: source.intelligence,
+      WIS: source.wisdom,
+      CHA: source.charisma,
+    },
+    senses: parseSenses(source.senses ?? ''),
+    languages: parseLanguages(source.languages ?? ''),
+    challengeRating: { cr: crStr.includes('/') ? crStr : parseInt(crStr, 10), xp: CR_TO_XP[crStr] ?? 0 },
+    proficiencyBonus: calculateProficiencyBonus(crStr),
+  };
+
+  if (source.subtype) {
+    monster.subtypes = source.subtype.split(',').map((subtype) => subtype.trim()).filter((subtype) => subtype);
+  }
+
+  const savingThrows: SavingThrow[] = SAVE_FIELDS.flatMap(([field, ability]) => {
+    const value = source[field];
+    return typeof value === 'number' ? [{ ability, modifier: value }] : [];
+  });
+  if (savingThrows.length > 0) {
+    monster.savingThrows = savingThrows;
+  }
+
+  const skills: SkillProficiency[] = Object.entries(source.skills ?? {}).flatMap(([key, modifier]) => {
+    const skill = SKILL_MAP[key.toLowerCase().replace(/_/g, ' ')];
+    return skill ? [{ skill, modifier }] : [];
+  });
+  if (skills.length > 0) {
+    monster.skills = skills;
+  }
+
+  const damageModifiers = parseDamageModifiers(
+    source.damage_resistances ?? '',
+    source.damage_immunities ?? '',
+    source.damage_vulnerabilities ?? ''
+  );
+  if (
+    damageModifiers.resistances.length > 0 ||
+    damageModifiers.immunities.length > 0 ||
+    damageModifiers.vulnerabilities.length > 0
+  ) {
+    monster.damageModifiers = damageModifiers;
+  }
+
+  const conditionImmunities = parseConditionImmunities(source.condition_immunities ?? '');
+  if (conditionImmunities.length > 0) {
+    monster.conditionImmunities = conditionImmunities;
+  }
+
+  // Spellcasting abilities become structured spellcasting instead of traits
+  const traits: Trait[] = [];
+  for (const entry of entriesOf(source.special_abilities)) {
+    if (/spellcasting/i.test(entry.name) && !monster.spellcasting) {
+      const spellcasting = parseSpellcasting(entry.name, entry.desc);
+      if (spellcasting) {
+        monster.spellcasting = spellcasting;
+        continue;
+      }
+      warnings.push(`Could not read the spell save DC of "${entry.name}"; kept as a trait`);
+    }
+    traits.push(parseTrait(renderEntry(entry)));
+  }
+  if (traits.length > 0) {
+    monster.traits = traits;
+  }
+
+  const { multiattack, attacks, actions } = parseActionEntries(entriesOf(source.actions).map(renderEntry));
+  if (multiattack) {
+    monster.multiattack = multiattack;
+  }
+  if (attacks.length > 0) {
+    monster.attacks = attacks;
+  }
+  if (actions.length > 0) {
+    monster.actions = actions;
+  }
+
+  const bonusActions = parseBonusActions(entriesOf(source.bonus_actions).map(renderEntry).join('\n'));
+  if (bonusActions.length > 0) {
+    monster.bonusActions = bonusActions;
+  }
+
+  const reactions = entriesOf(source.reactions).map((entry) => parseReaction(renderEntry(entry)));
+  if (reactions.length > 0) {
+    monster.reactions = reactions;
+  }
+
+  const legendaryEntries = entriesOf(source.legendary_actions);
+  if (legendaryEntries.length > 0) {
+    const header =
+      source.legendary_desc?.replace(/\s*\n+\s*/g, ' ').trim() ||
+      `The ${source.name.toLowerCase()} can take 3 legendary actions, choosing from the options below.`;
+    const legendary = parseLegendaryActions([header, ...legendaryEntries.map(renderEntry)].join('\n'));
+    if (legendary) {
+      monster.legendaryActions = legendary;
+    }
+  }
+
+  if (source.environments?.length) {
+    monster.environments = source.environments;
+  }
+  if (source.document__title) {
+    monster.source = source.document__title;
+  }
+  if (typeof source.page_no === 'number') {
+    monster.sourcePage = source.page_no;
+  }
+
+  return monster;
+}
+
+/**
+ * Imports a single Open5e monster.
+ *
+ * @param monster - Open5e v1 monster object
+ * @returns The monster as a DnD5eMonster
+ * @throws Error if required fields (size, type, CR) are missing
+ *
+ * @example
+ * ```typescript
+ * const goblin = importOpen5eMonster(response.results[0]);
+ * const result = convertFromStatBlock(goblin);
+ * ```
+ */
+export function importOpen5eMonster(monster: Open5eMonster): DnD5eMonster {
+  return mapMonster(monster, []);
+}
+
+/**
+ * Imports every monster in Open5e JSON.
+ *
+ * Accepts a saved API page (`{ count, results: [...] }`), an array of
+ * monsters, or a single monster, as parsed JSON or JSON text. Monsters
+ * that fail are reported in `errors` and skipped.
+ *
+ * @param json - Open5e JSON
+ * @returns Imported monsters with errors and warnings
+ *
+ * @example
+ * ```typescript
+ * const { monsters } = importOpen5e(fs.readFileSync('open5e-monsters.json', 'utf8'));
+ * ```
+ */
+export function importOpen5e(json: unknown): ImportResult {
+  let data: unknown;
+  try {
+    data = readJsonInput(json);
+  } catch (error) {
+    return { monsters: [], errors: [error instanceof Error ? error.message : String(error)], warnings: [] };
+  }
+
+  const monsters = (
+    isJsonObject(data) && Array.isArray(data['results']) ? data['results'] : Array.isArray(data) ? data : [data]
+  ) as Open5eMonster[];
+
+  return importEach(monsters, mapMonster);
+}
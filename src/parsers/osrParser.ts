@@ -26,6 +26,15 @@ import {
   parseAlignment,
   parseMorale,
 } from '../models/osr';
+import {
+  DiagnosticCode,
+  FieldSpans,
+  ParseDiagnostic,
+  createDiagnostic,
+  findSourceOrigin,
+  lineSpan,
+  offsetSpan,
+} from './diagnostics';
 
 // ============================================================================
 // TYPES
@@ -41,6 +50,10 @@ export interface OSRParseResult {
   errors: string[];
   /** List of non-fatal warnings. */
   warnings: string[];
+  /** Errors and warnings with diagnostic codes and source spans. */
+  diagnostics: ParseDiagnostic[];
+  /** Source span of each parsed field, e.g. `spans.hd` or `spans['specialAbilities.0']`. */
+  spans: FieldSpans;
 }
 
 // ============================================================================
@@ -396,6 +409,42 @@ function parseSpecialAbilities(text: string): OSRSpecialAbility[] {
   return abilities;
 }
 
+/**
+ * Patterns that find where each field starts, for source spans.
+ */
+const FIELD_PATTERNS: Array<[string, RegExp]> = [
+  ['ac', /\bAC\s*-?\d/i],
+  ['hd', /\bHD\s*\d/i],
+  ['toHit', /\bTHAC0\b|\b(?:AB|Attack\s*Bonus)\s*[+-]?\d/i],
+  ['movement', /\b(?:MV|Move(?:ment)?)\b/i],
+  ['saves', /\b(?:SV|Saves?)\b/i],
+  ['attacks', /\bAtt(?:acks?)?\b/i],
+  ['morale', /\b(?:ML|Morale)\s*\d/i],
+  ['alignment', /\b(?:AL|Alignment)\b/i],
+  ['xp', /\bXP\s*[\d,]/i],
+  ['treasureType', /\b(?:TT|Treasure(?:\s*Type)?)\b/i],
+  ['numberAppearing', /\b(?:NA|No\.?\s*App(?:earing)?)\b/i],
+];
+
+/**
+ * Returns the offset after a field that starts at `start`: the next
+ * comma or semicolon outside brackets, or the end of the line.
+ */
+function findFieldEnd(text: string, start: number): number {
+  let depth = 0;
+  let end = start;
+
+  for (; end < text.length; end++) {
+    const char = text[end];
+    if (char === '\n' || (depth === 0 && (char === ',' || char === ';'))) break;
+    if (char === '(' || char === '[') depth++;
+    if ((char === ')' || char === ']') && depth > 0) depth--;
+  }
+
+  while (end > start && /\s/.test(text[end - 1] ?? '')) end--;
+  return end;
+}
+
 // ============================================================================
 // MAIN PARSER FUNCTIONS
 // ============================================================================
@@ -436,43 +485,61 @@ export function parseOSRStatBlock(text: string): OSRStatBlock {
 export function parseOSRStatBlockSafe(text: string): OSRParseResult {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const spans: FieldSpans = {};
 
   const normalized = normalizeText(text);
   const lines = normalized.split('\n');
+  const origin = findSourceOrigin(text);
+  const fail = (code: DiagnosticCode, message: string): OSRParseResult => {
+    errors.push(message);
+    diagnostics.push(createDiagnostic(code, 'error', message));
+    return { errors, warnings, diagnostics, spans };
+  };
 
   if (lines.length === 0 || !lines[0]) {
-    errors.push('Empty stat block');
-    return { errors, warnings };
+    return fail('empty-stat-block', 'Empty stat block');
   }
 
   // First line is usually the name
   const name = lines[0].trim();
   if (!name) {
-    errors.push('Missing monster name');
-    return { errors, warnings };
+    return fail('missing-name', 'Missing monster name');
   }
+  spans.name = lineSpan(origin, lines, 0);
 
-  // Join remaining lines for parsing
+  // Join remaining lines for parsing. Joining with a space keeps
+  // offsets into statsText aligned with the normalized text.
   const statsText = lines.slice(1).join(' ');
+  const statsOffset = lines[0].length + 1;
+
+  for (const [field, pattern] of FIELD_PATTERNS) {
+    const match = pattern.exec(statsText);
+    if (match) {
+      const start = statsOffset + match.index;
+      spans[field] = offsetSpan(origin, lines, start, findFieldEnd(normalized, start));
+    }
+  }
 
   // Parse AC
   const ac = parseArmorClass(statsText);
   if (!ac) {
-    errors.push('Could not parse Armor Class');
-    return { errors, warnings };
+    return fail('missing-armor-class', 'Could not parse Armor Class');
   }
 
   // Parse HD
   const hd = parseHD(statsText);
   if (!hd) {
-    errors.push('Could not parse Hit Dice');
-    return { errors, warnings };
+    return fail('missing-hit-dice', 'Could not parse Hit Dice');
   }
 
   // Parse To-Hit
   const toHit = parseToHit(statsText);
   if (!toHit) {
     warnings.push('Could not parse THAC0/To-Hit, using default based on HD');
+    diagnostics.push(
+      createDiagnostic('missing-to-hit', 'warning', 'Could not parse THAC0/To-Hit, using default based on HD')
+    );
     // Default: THAC0 = 20 - HD (capped at 20)
     const defaultThac0 = Math.max(10, 20 - hd.count);
     // Use a simple object literal that satisfies the type
@@ -505,10 +572,10 @@ export function parseOSRStatBlockSafe(text: string): OSRParseResult {
   const xp = parseXP(statsText);
 
   // Parse optional fields
-  const treasureMatch = statsText.match(/(?:TT|Treasure(?:\s*Type)?)\s*([A-Z]+(?:\s*x\s*\d+)?|None)/i);
+  const treasureMatch = statsText.match(/\b(?:TT|Treasure(?:\s*Type)?)\b[:\s]*([A-Z]+(?:\s*x\s*\d+)?|None)/i);
   const treasureType = treasureMatch?.[1]?.trim();
 
-  const numberMatch = statsText.match(/(?:NA|No\.?\s*App(?:earing)?)\s*([\dd+-]+)/i);
+  const numberMatch = statsText.match(/\b(?:NA|No\.?\s*App(?:earing)?)\b[:\s]*([\dd+-]+)/i);
   const numberAppearing = numberMatch?.[1]?.trim();
 
   // Parse special abilities
@@ -541,9 +608,31 @@ export function parseOSRStatBlockSafe(text: string): OSRParseResult {
   }
   if (specialAbilities.length > 0) {
     statBlock.specialAbilities = specialAbilities;
+    specialAbilities.forEach((ability, index) => {
+      const start = statsText.indexOf(ability.description);
+      if (start !== -1) {
+        spans[`specialAbilities.${index}`] = offsetSpan(
+          origin,
+          lines,
+          statsOffset + start,
+          statsOffset + start + ability.description.length
+        );
+      }
+    });
+  }
+
+  // Keep spans only for fields that were parsed
+  for (const field of Object.keys(spans)) {
+    const key = field.split('.')[0] as keyof OSRStatBlock;
+    if (statBlock[key] === undefined) {
+      delete spans[field];
+    }
+  }
+  if (spans.attacks) {
+    spans.attacksPerRound = spans.attacks;
   }
 
-  return { result: statBlock, errors, warnings };
+  return { result: statBlock, errors, warnings, diagnostics, spans };
 }
 
 /**
@@ -33,6 +33,15 @@ import {
   PF2eAttackDamage,
   PF2eSpellcasting,
 } from '../models/pf2e';
+import {
+  DiagnosticCode,
+  FieldSpans,
+  ParseDiagnostic,
+  SourceSpan,
+  createDiagnostic,
+  findSourceOrigin,
+  lineSpan,
+} from './diagnostics';
 
 // ============================================================================
 // TYPES
@@ -48,6 +57,10 @@ export interface PF2eParseResult {
   errors: string[];
   /** List of non-fatal warnings. */
   warnings: string[];
+  /** Errors and warnings with diagnostic codes and source spans. */
+  diagnostics: ParseDiagnostic[];
+  /** Source span of each parsed field, e.g. `spans.ac` or `spans['melee.0']`. */
+  spans: FieldSpans;
 }
 
 // ============================================================================
@@ -618,8 +631,13 @@ function parseStrike(text: string): PF2eStrike | null {
  * Format: "Ability Name [action-cost] (trait, trait) Description text."
  */
 function parseAbility(text: string): PF2eCreatureAbility | null {
-  // Match name and optional action cost
-  const headerMatch = text.match(/^([^[\]]+?)(?:\s*\[(\d|one-action|two-action|three-action|free-action|reaction)\])?(?:\s*\(([^)]+)\))?\s*(.*)$/is);
+  // Match name and action cost; without a cost, the name is the leading
+  // capitalized words, stopping where a sentence starts
+  const headerMatch =
+    text.match(/^([^[\]()]+?)\s*\[(\d|one-action|two-action|three-action|free-action|reaction)\](?:\s*\(([^)]+)\))?\s*(.*)$/is) ??
+    text.match(
+      /^([A-Z][\w'’-]*(?:\s+(?:(?!(?:A|An|The|When|If|This|While|Each|It)\b)[A-Z][\w'’-]*|of|the|and|to|in))*?)(?=\s*[(;,.]|\s+[a-z\d]|\s+(?:A|An|The|When|If|This|While|Each|It)\b|\s*$)()(?:\s*\(([^)]+)\))?\s*(.*)$/s
+    );
 
   if (!headerMatch || !headerMatch[1]) return null;
 
@@ -710,26 +728,36 @@ export function parsePF2eStatBlock(text: string): PF2eStatBlock {
 export function parsePF2eStatBlockSafe(text: string): PF2eParseResult {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const spans: FieldSpans = {};
 
   const normalized = normalizeText(text);
-  const lines = normalized.split('\n').map((l) => l.trim()).filter((l) => l);
+  const sourceLines = normalized.split('\n');
+  const rows = sourceLines.map((line, index) => ({ line: line.trim(), index })).filter((row) => row.line);
+  const lines = rows.map((row) => row.line);
+
+  // Spans are looked up by index into the non-blank lines
+  const origin = findSourceOrigin(text);
+  const spanOf = (row: number): SourceSpan => lineSpan(origin, sourceLines, rows[row]?.index ?? 0);
+  const fail = (code: DiagnosticCode, message: string, row?: number): PF2eParseResult => {
+    errors.push(message);
+    diagnostics.push(createDiagnostic(code, 'error', message, row === undefined ? undefined : spanOf(row)));
+    return { errors, warnings, diagnostics, spans };
+  };
 
   if (lines.length < 3) {
-    errors.push('Stat block too short - need at least 3 lines');
-    return { errors, warnings };
+    return fail('stat-block-too-short', 'Stat block too short - need at least 3 lines');
   }
 
   // Parse header (name and level)
   const firstLine = lines[0];
   if (!firstLine) {
-    errors.push('Missing header line');
-    return { errors, warnings };
+    return fail('missing-header', 'Missing header line');
   }
 
   const header = parseHeader(firstLine);
   if (!header) {
-    errors.push(`Could not parse header from: "${firstLine}"`);
-    return { errors, warnings };
+    return fail('invalid-header', `Could not parse header from: "${firstLine}"`, 0);
   }
 
   // Parse traits line (usually second line)
@@ -763,6 +791,14 @@ export function parsePF2eStatBlockSafe(text: string): PF2eParseResult {
     statBlock.alignment = traitInfo.alignment;
   }
 
+  spans.name = spanOf(0);
+  spans.level = spanOf(0);
+  for (const field of ['traits', 'rarity', 'size', 'alignment'] as const) {
+    if (statBlock[field] !== undefined) {
+      spans[field] = spanOf(1);
+    }
+  }
+
   // Parse remaining lines
   for (let i = 2; i < lines.length; i++) {
     const line = lines[i];
@@ -771,35 +807,49 @@ export function parsePF2eStatBlockSafe(text: string): PF2eParseResult {
 
     if (lower.startsWith('perception')) {
       statBlock.perception = parsePerception(line);
+      spans.perception = spanOf(i);
     } else if (lower.startsWith('language')) {
       statBlock.languages = parseLanguages(line);
+      spans.languages = spanOf(i);
     } else if (lower.startsWith('skill')) {
       statBlock.skills = parseSkills(line);
+      spans.skills = spanOf(i);
     } else if (/^str\s+[+-]?\d/i.test(line)) {
       statBlock.abilities = parseAbilities(line);
+      spans.abilities = spanOf(i);
     } else if (lower.startsWith('ac')) {
       const defenses = parseDefenses(line);
       statBlock.ac = defenses.ac;
       statBlock.saves = defenses.saves;
+      spans.ac = spanOf(i);
+      spans.saves = spanOf(i);
     } else if (lower.startsWith('hp')) {
       const hpInfo = parseHP(line);
       statBlock.hp = hpInfo.hp;
+      spans.hp = spanOf(i);
       if (hpInfo.hardness !== undefined) {
         statBlock.hardness = hpInfo.hardness;
+        spans.hardness = spanOf(i);
       }
       statBlock.immunities = hpInfo.immunities;
       statBlock.resistances = hpInfo.resistances;
       statBlock.weaknesses = hpInfo.weaknesses;
+      if (hpInfo.immunities.length > 0) spans.immunities = spanOf(i);
+      if (hpInfo.resistances.length > 0) spans.resistances = spanOf(i);
+      if (hpInfo.weaknesses.length > 0) spans.weaknesses = spanOf(i);
     } else if (lower.startsWith('speed')) {
       statBlock.speed = parseSpeed(line);
+      spans.speed = spanOf(i);
     } else if (lower.startsWith('melee')) {
       const strike = parseStrike(line);
       if (strike) {
+        spans[`melee.${statBlock.melee.length}`] = spanOf(i);
         statBlock.melee.push(strike);
       }
     } else if (lower.startsWith('ranged')) {
       const strike = parseStrike(line);
       if (strike) {
+        spans[`ranged.${statBlock.ranged.length}`] = spanOf(i);
         statBlock.ranged.push(strike);
       }
     } else if (!lower.startsWith('source') && line.length > 10) {
@@ -808,9 +858,11 @@ export function parsePF2eStatBlockSafe(text: string): PF2eParseResult {
       if (ability) {
         if (ability.actionCost) {
           statBlock.activeAbilities = statBlock.activeAbilities || [];
+          spans[`activeAbilities.${statBlock.activeAbilities.length}`] = spanOf(i);
           statBlock.activeAbilities.push(ability);
         } else {
           statBlock.passiveAbilities = statBlock.passiveAbilities || [];
+          spans[`passiveAbilities.${statBlock.passiveAbilities.length}`] = spanOf(i);
           statBlock.passiveAbilities.push(ability);
         }
       }
@@ -819,11 +871,10 @@ export function parsePF2eStatBlockSafe(text: string): PF2eParseResult {
 
   // Validate required fields
   if (!statBlock.name) {
-    errors.push('Missing creature name');
-    return { errors, warnings };
+    return fail('missing-name', 'Missing creature name', 0);
   }
 
-  return { result: statBlock, errors, warnings };
+  return { result: statBlock, errors, warnings, diagnostics, spans };
 }
 
 /**
@@ -2,7 +2,13 @@
  * D&D 5e Stat Block Parser
  *
  * Parses plain text D&D 5e stat blocks (copy-pasted from books/PDFs)
- * into structured DnD5eMonster objects.
+ * into structured DnD5eMonster objects. Both the 2014 layout ("Armor
+ * Class 15", "Melee Weapon Attack: +4 to hit") and the 2024 revised
+ * layout ("AC 15 Initiative +2 (12)", MOD/SAVE ability table, "Melee
+ * Attack Roll: +4") are supported; the layout is detected automatically.
+ *
+ * The field and entry parsers are exported for the JSON importers, which
+ * strip their markup down to stat block text and parse it the same way.
  *
  * @module parsers/statBlockParser
  * @version 1.0.0
@@ -44,24 +50,69 @@ import {
   LegendaryActions,
   LegendaryAction,
   BonusAction,
+  LairActions,
+  LairAction,
+  MythicActions,
+  MythicAction,
+  MythicTrait,
+  Spell,
+  SpellSlots,
+  Spellcasting,
+  TraditionalSpellcasting,
+  InnateSpellcasting,
   CR_TO_XP,
   calculateProficiencyBonus,
 } from '../models/dnd5e';
+import { repairOcrText, OcrRepair } from './ocrRepair';
+import {
+  DiagnosticCode,
+  FieldSpans,
+  ParseDiagnostic,
+  SourceSpan,
+  createDiagnostic,
+  findSourceOrigin,
+  lineSpan,
+  mapResultSpans,
+} from './diagnostics';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/**
+ * Stat block layout: the 2014 books or the 2024 revised books.
+ */
+export type StatBlockLayout = '2014' | '2024';
+
 /**
  * Result of a safe parse operation.
  */
 export interface ParseResult {
   /** Successfully parsed monster, if any. */
   result?: DnD5eMonster;
+  /** Detected stat block layout. */
+  layout?: StatBlockLayout;
   /** List of parsing errors or warnings. */
   errors: string[];
   /** List of non-fatal warnings. */
   warnings: string[];
+  /** Errors and warnings with diagnostic codes and source spans. */
+  diagnostics: ParseDiagnostic[];
+  /** Source span of each parsed field, e.g. `spans.hitPoints` or `spans['attacks.0']`. */
+  spans: FieldSpans;
+  /** PDF copy artifacts repaired before parsing (only set when `repairOcr` is enabled). */
+  repairs?: OcrRepair[];
+}
+
+/**
+ * Options for parsing a text stat block.
+ */
+export interface StatBlockParseOptions {
+  /**
+   * Repair PDF copy artifacts (ligatures, hyphenated and wrapped lines,
+   * two-column text, flattened ability tables) before parsing. Default: false
+   */
+  repairOcr?: boolean;
 }
 
 /**
@@ -69,6 +120,10 @@ export interface ParseResult {
  */
 interface ParsedHeader {
   name: string;
+  /** Index of the name line. */
+  nameLine: number;
+  /** Index of the size/type/alignment line. */
+  typeLine: number;
   size: CreatureSize;
   creatureType: CreatureType;
   subtypes: string[] | undefined;
@@ -79,7 +134,9 @@ interface ParsedHeader {
 // CONSTANTS - Mappings
 // ============================================================================
 
-const SIZE_MAP: Record<string, CreatureSize> = {
+// Lowercase name lookups, also used by the JSON importers
+
+export const SIZE_MAP: Record<string, CreatureSize> = {
   tiny: CreatureSize.TINY,
   small: CreatureSize.SMALL,
   medium: CreatureSize.MEDIUM,
@@ -88,7 +145,7 @@ const SIZE_MAP: Record<string, CreatureSize> = {
   gargantuan: CreatureSize.GARGANTUAN,
 };
 
-const TYPE_MAP: Record<string, CreatureType> = {
+export const TYPE_MAP: Record<string, CreatureType> = {
   aberration: CreatureType.ABERRATION,
   beast: CreatureType.BEAST,
   celestial: CreatureType.CELESTIAL,
@@ -105,7 +162,7 @@ const TYPE_MAP: Record<string, CreatureType> = {
   undead: CreatureType.UNDEAD,
 };
 
-const SKILL_MAP: Record<string, Skill> = {
+export const SKILL_MAP: Record<string, Skill> = {
   acrobatics: Skill.ACROBATICS,
   'animal handling': Skill.ANIMAL_HANDLING,
   arcana: Skill.ARCANA,
@@ -126,7 +183,7 @@ const SKILL_MAP: Record<string, Skill> = {
   survival: Skill.SURVIVAL,
 };
 
-const DAMAGE_TYPE_MAP: Record<string, DnD5eDamageType> = {
+export const DAMAGE_TYPE_MAP: Record<string, DnD5eDamageType> = {
   acid: DnD5eDamageType.ACID,
   bludgeoning: DnD5eDamageType.BLUDGEONING,
   cold: DnD5eDamageType.COLD,
@@ -142,7 +199,7 @@ const DAMAGE_TYPE_MAP: Record<string, DnD5eDamageType> = {
   thunder: DnD5eDamageType.THUNDER,
 };
 
-const CONDITION_MAP: Record<string, DnD5eCondition> = {
+export const CONDITION_MAP: Record<string, DnD5eCondition> = {
   blinded: DnD5eCondition.BLINDED,
   charmed: DnD5eCondition.CHARMED,
   deafened: DnD5eCondition.DEAFENED,
@@ -160,14 +217,14 @@ const CONDITION_MAP: Record<string, DnD5eCondition> = {
   unconscious: DnD5eCondition.UNCONSCIOUS,
 };
 
-const SENSE_TYPE_MAP: Record<string, SenseType> = {
+export const SENSE_TYPE_MAP: Record<string, SenseType> = {
   blindsight: SenseType.BLINDSIGHT,
   darkvision: SenseType.DARKVISION,
   tremorsense: SenseType.TREMORSENSE,
   truesight: SenseType.TRUESIGHT,
 };
 
-const ABILITY_MAP: Record<string, AbilityScore> = {
+export const ABILITY_MAP: Record<string, AbilityScore> = {
   str: AbilityScore.STRENGTH,
   strength: AbilityScore.STRENGTH,
   dex: AbilityScore.DEXTERITY,
@@ -194,9 +251,25 @@ function normalizeText(text: string): string {
     .replace(/\r\n/g, '\n')
     .replace(/\r/g, '\n')
     .replace(/\t/g, ' ')
+    // Typographic minus signs and en dashes ("−1", "Recharge 5–6")
+    .replace(/[\u2212\u2013]/g, '-')
     .trim();
 }
 
+/**
+ * Section headings that split a stat block, in lowercase.
+ */
+export const SECTION_HEADERS = [
+  'traits',
+  'actions',
+  'bonus actions',
+  'reactions',
+  'legendary actions',
+  'lair actions',
+  'regional effects',
+  'mythic actions',
+];
+
 /**
  * Splits text into logical sections based on common headers.
  */
@@ -207,19 +280,10 @@ function splitIntoSections(text: string): Map<string, string> {
   let currentSection = 'header';
   let currentContent: string[] = [];
 
-  const sectionHeaders = [
-    'actions',
-    'bonus actions',
-    'reactions',
-    'legendary actions',
-    'lair actions',
-    'mythic actions',
-  ];
-
   for (const line of lines) {
     const trimmed = line.trim().toLowerCase();
 
-    if (sectionHeaders.includes(trimmed)) {
+    if (SECTION_HEADERS.includes(trimmed)) {
       // Save previous section
       if (currentContent.length > 0) {
         sections.set(currentSection, currentContent.join('\n').trim());
@@ -239,10 +303,36 @@ function splitIntoSections(text: string): Map<string, string> {
   return sections;
 }
 
+/**
+ * Format indicators unique to the 2024 revised layout.
+ */
+const LAYOUT_2024_INDICATORS: RegExp[] = [
+  /\binitiative\s*[+-]\d+\s*\(\d+\)/i,
+  /^\s*(?:mod\s+save\s*)+$/im,
+  /\battack\s+roll:\s*[+-]\d+/i,
+  /\b(?:strength|dexterity|constitution|intelligence|wisdom|charisma)\s+saving\s+throw:\s*dc\s*\d+/i,
+  /^\s*cr\s+[\d/]+\s*\(xp\b/im,
+];
+
+/**
+ * Detects whether a stat block uses the 2014 or 2024 layout.
+ *
+ * Any 2024-only indicator (Initiative score, MOD/SAVE table, "Attack
+ * Roll:", "<Ability> Saving Throw: DC", "CR x (XP y)") marks the text as
+ * 2024; everything else is treated as 2014.
+ *
+ * @param text - The raw stat block text
+ * @returns Detected layout
+ */
+export function detectStatBlockLayout(text: string): StatBlockLayout {
+  const normalized = normalizeText(text);
+  return LAYOUT_2024_INDICATORS.some((pattern) => pattern.test(normalized)) ? '2024' : '2014';
+}
+
 /**
  * Parses dice expression like "2d8+4" or "1d6-1".
  */
-function parseDiceExpression(text: string): DiceExpression | null {
+export function parseDiceExpression(text: string): DiceExpression | null {
   // Match patterns like "2d8", "2d8+4", "2d8-2", "1d6 + 2"
   const match = text.match(/(\d+)d(\d+)\s*([+-]\s*\d+)?/i);
   if (!match || !match[1] || !match[2]) return null;
@@ -261,7 +351,7 @@ function parseDiceExpression(text: string): DiceExpression | null {
 /**
  * Parses alignment from text.
  */
-function parseAlignment(text: string): Alignment {
+export function parseAlignment(text: string): Alignment {
   const lower = text.toLowerCase().trim();
 
   // Check special alignments first
@@ -296,24 +386,33 @@ function parseAlignment(text: string): Alignment {
   return { lawChaos, goodEvil };
 }
 
+/**
+ * Reports a parse error or warning, optionally at a line index.
+ */
+type DiagnosticReporter = (code: DiagnosticCode, message: string, line?: number) => void;
+
 /**
  * Parses the header section (name, size, type, alignment).
  */
 function parseHeader(
   text: string,
-  errors: string[]
+  report: DiagnosticReporter
 ): ParsedHeader | null {
-  const lines = text.split('\n').filter((l) => l.trim());
+  const rows = text
+    .split('\n')
+    .map((line, index) => ({ line, index }))
+    .filter((row) => row.line.trim());
 
-  if (lines.length < 2) {
-    errors.push('Header section must have at least 2 lines (name and type line)');
+  if (rows.length < 2) {
+    report('missing-header', 'Header section must have at least 2 lines (name and type line)');
     return null;
   }
 
-  const nameLine = lines[0];
-  const typeLineFull = lines[1];
+  const nameLine = rows[0]?.line;
+  const typeLineFull = rows[1]?.line;
+  const typeIndex = rows[1]?.index ?? 1;
   if (!nameLine || !typeLineFull) {
-    errors.push('Missing name or type line');
+    report('missing-header', 'Missing name or type line');
     return null;
   }
 
@@ -330,7 +429,7 @@ function parseHeader(
   }
 
   if (!size) {
-    errors.push(`Could not parse size from: "${typeLineFull}"`);
+    report('unknown-size', `Could not parse size from: "${typeLineFull}"`, typeIndex);
     return null;
   }
 
@@ -354,7 +453,7 @@ function parseHeader(
   }
 
   if (!creatureType) {
-    errors.push(`Could not parse creature type from: "${typeLineFull}"`);
+    report('unknown-creature-type', `Could not parse creature type from: "${typeLineFull}"`, typeIndex);
     return null;
   }
 
@@ -365,14 +464,22 @@ function parseHeader(
     alignment = parseAlignment(typeLine.substring(commaIndex + 1));
   }
 
-  return { name, size, creatureType, subtypes, alignment };
+  return {
+    name,
+    nameLine: rows[0]?.index ?? 0,
+    typeLine: typeIndex,
+    size,
+    creatureType,
+    subtypes,
+    alignment,
+  };
 }
 
 /**
  * Parses Armor Class line.
  */
-function parseArmorClass(text: string): ArmorClass | null {
-  const match = text.match(/armor\s*class\s*(\d+)(?:\s*\(([^)]+)\))?/i);
+export function parseArmorClass(text: string): ArmorClass | null {
+  const match = text.match(/(?:armor\s*class|\bac)\s*(\d+)(?:\s*\(([^)]+)\))?/i);
   if (!match || !match[1]) return null;
 
   const value = parseInt(match[1], 10);
@@ -401,8 +508,8 @@ function parseArmorClass(text: string): ArmorClass | null {
 /**
  * Parses Hit Points line.
  */
-function parseHitPoints(text: string): HitPoints | null {
-  const match = text.match(/hit\s*points\s*(\d+)(?:\s*\(([^)]+)\))?/i);
+export function parseHitPoints(text: string): HitPoints | null {
+  const match = text.match(/(?:hit\s*points|\bhp)\s*(\d+)(?:\s*\(([^)]+)\))?/i);
   if (!match || !match[1]) return null;
 
   const average = parseInt(match[1], 10);
@@ -430,7 +537,7 @@ function parseHitPoints(text: string): HitPoints | null {
 /**
  * Parses Speed line.
  */
-function parseSpeed(text: string): Speed {
+export function parseSpeed(text: string): Speed {
   const speed: Speed = {};
 
   // Match base walk speed
@@ -505,6 +612,71 @@ function parseAbilityScores(text: string): AbilityScores | null {
   };
 }
 
+/**
+ * Parses the 2024 Initiative entry, e.g. "Initiative +2 (12)".
+ */
+function parseInitiative(text: string): { modifier: number; score: number } | null {
+  const match = text.match(/initiative\s*([+-]\d+)\s*\((\d+)\)/i);
+  if (!match || !match[1] || !match[2]) return null;
+
+  return { modifier: parseInt(match[1], 10), score: parseInt(match[2], 10) };
+}
+
+/**
+ * Parses the 2024 combined ability table.
+ *
+ * Each ability is written as "Str 8 -1 -1" (score, MOD, SAVE), in any
+ * row arrangement. A SAVE that differs from the MOD marks a proficient
+ * saving throw.
+ */
+function parseAbilityTable(text: string): { abilityScores: AbilityScores; savingThrows: SavingThrow[] } | null {
+  const pattern = /\b(str|dex|con|int|wis|cha)\s+(\d+)\s+([+-]\d+)\s+([+-]\d+)/gi;
+  const scores: Partial<AbilityScores> = {};
+  const savingThrows: SavingThrow[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (!match[1] || !match[2] || !match[3] || !match[4]) continue;
+
+    const ability = ABILITY_MAP[match[1].toLowerCase()];
+    if (!ability) continue;
+
+    scores[ability] = parseInt(match[2], 10);
+    const modifier = parseInt(match[3], 10);
+    const save = parseInt(match[4], 10);
+    if (save !== modifier) {
+      savingThrows.push({ ability, modifier: save });
+    }
+  }
+
+  const { STR, DEX, CON, INT, WIS, CHA } = scores;
+  if (STR === undefined || DEX === undefined || CON === undefined ||
+      INT === undefined || WIS === undefined || CHA === undefined) {
+    return null;
+  }
+
+  return { abilityScores: { STR, DEX, CON, INT, WIS, CHA }, savingThrows };
+}
+
+/**
+ * Splits a 2024 "Immunities" entry into damage types and conditions,
+ * e.g. "Fire, Poison; Charmed, Poisoned".
+ */
+function splitImmunities(text: string): { damage: string; conditions: string } {
+  const items = text
+    .replace(/^immunities\s*/i, '')
+    .split(/[;,]/)
+    .map((item) => item.trim())
+    .filter((item) => item);
+
+  const isCondition = (item: string): boolean => CONDITION_MAP[item.toLowerCase()] !== undefined;
+
+  return {
+    damage: items.filter((item) => !isCondition(item)).join(', '),
+    conditions: items.filter(isCondition).join(', '),
+  };
+}
+
 /**
  * Parses saving throws line.
  */
@@ -553,7 +725,7 @@ function parseSkills(text: string): SkillProficiency[] {
 /**
  * Parses damage modifiers (resistances, immunities, vulnerabilities).
  */
-function parseDamageModifiers(
+export function parseDamageModifiers(
   resistanceText: string,
   immunityText: string,
   vulnerabilityText: string
@@ -591,7 +763,7 @@ function parseDamageModifiers(
 /**
  * Parses condition immunities.
  */
-function parseConditionImmunities(text: string): DnD5eCondition[] {
+export function parseConditionImmunities(text: string): DnD5eCondition[] {
   const conditions: DnD5eCondition[] = [];
   const lower = text.toLowerCase();
 
@@ -607,7 +779,7 @@ function parseConditionImmunities(text: string): DnD5eCondition[] {
 /**
  * Parses senses line.
  */
-function parseSenses(text: string): Senses {
+export function parseSenses(text: string): Senses {
   const specialSenses: Sense[] = [];
   let passivePerception = 10;
 
@@ -643,7 +815,7 @@ function parseSenses(text: string): Senses {
 /**
  * Parses languages line.
  */
-function parseLanguages(text: string): string[] {
+export function parseLanguages(text: string): string[] {
   const langText = text.replace(/languages?\s*/i, '').trim();
 
   if (langText === '-' || langText === '' || langText.toLowerCase() === 'none') {
@@ -656,8 +828,9 @@ function parseLanguages(text: string): string[] {
 /**
  * Parses Challenge Rating line.
  */
-function parseChallengeRating(text: string): ChallengeRating | null {
-  const match = text.match(/challenge\s*([\d/]+)\s*(?:\(([^)]+)\s*xp\))?/i);
+export function parseChallengeRating(text: string): ChallengeRating | null {
+  // 2014: "Challenge 1/4 (50 XP)"; 2024: "CR 1/4 (XP 50; PB +2)"
+  const match = text.match(/(?:challenge|\bcr)\s*([\d/]+)\s*(?:\((?:xp\s*)?([\d,]+))?/i);
   if (!match || !match[1]) return null;
 
   const crStr = match[1].trim();
@@ -679,7 +852,7 @@ function parseChallengeRating(text: string): ChallengeRating | null {
 /**
  * Parses a trait or feature entry.
  */
-function parseTrait(text: string): Trait {
+export function parseTrait(text: string): Trait {
   // Format: "Trait Name. Description text..."
   // Or: "Trait Name (Recharge 5-6). Description text..."
   const match = text.match(/^([^.]+?)(?:\s*\(([^)]+)\))?\.\s*(.+)$/s);
@@ -730,11 +903,11 @@ function parseAttack(text: string): DnD5eAttack | null {
 
   // Parse attack type
   let attackType: AttackType = AttackType.MELEE_WEAPON;
-  if (restText.toLowerCase().includes('melee or ranged weapon')) {
+  if (/melee or ranged (?:weapon|attack roll)/i.test(restText)) {
     attackType = AttackType.MELEE_OR_RANGED_WEAPON;
   } else if (restText.toLowerCase().includes('melee or ranged spell')) {
     attackType = AttackType.MELEE_OR_RANGED_SPELL;
-  } else if (restText.toLowerCase().includes('ranged weapon')) {
+  } else if (/ranged (?:weapon|attack roll)/i.test(restText)) {
     attackType = AttackType.RANGED_WEAPON;
   } else if (restText.toLowerCase().includes('ranged spell')) {
     attackType = AttackType.RANGED_SPELL;
@@ -743,7 +916,8 @@ function parseAttack(text: string): DnD5eAttack | null {
   }
 
   // Parse to-hit
-  const toHitMatch = restText.match(/([+-]\d+)\s*to\s*hit/i);
+  const toHitMatch =
+    restText.match(/([+-]\d+)\s*to\s*hit/i) ?? restText.match(/attack\s*roll:\s*([+-]\d+)/i);
   const toHit = toHitMatch && toHitMatch[1] ? parseInt(toHitMatch[1], 10) : 0;
 
   // Parse range/reach
@@ -894,10 +1068,15 @@ function parseAction(text: string): DnD5eAction {
   }
 
   // Parse saving throw
+  // 2014: "DC 13 Dexterity saving throw"; 2024: "Dexterity Saving Throw: DC 13"
   const saveMatch = description.match(/dc\s*(\d+)\s*(strength|dexterity|constitution|intelligence|wisdom|charisma)/i);
-  if (saveMatch && saveMatch[1] && saveMatch[2]) {
-    const dc = parseInt(saveMatch[1], 10);
-    const abilityStr = saveMatch[2].toLowerCase();
+  const save2024Match = description.match(
+    /(strength|dexterity|constitution|intelligence|wisdom|charisma)\s+saving\s+throw:\s*dc\s*(\d+)/i
+  );
+  const [, dcStr, abilityName] = saveMatch ?? [undefined, save2024Match?.[2], save2024Match?.[1]];
+  if (dcStr && abilityName) {
+    const dc = parseInt(dcStr, 10);
+    const abilityStr = abilityName.toLowerCase();
     const ability = ABILITY_MAP[abilityStr];
 
     if (ability) {
@@ -943,7 +1122,7 @@ function parseAction(text: string): DnD5eAction {
 /**
  * Parses a reaction.
  */
-function parseReaction(text: string): Reaction {
+export function parseReaction(text: string): Reaction {
   const match = text.match(/^([^.]+)\.\s*(.+)$/s);
 
   if (!match || !match[1] || !match[2]) {
@@ -967,7 +1146,7 @@ function parseReaction(text: string): Reaction {
 /**
  * Parses legendary actions section.
  */
-function parseLegendaryActions(text: string): LegendaryActions | null {
+export function parseLegendaryActions(text: string): LegendaryActions | null {
   const lines = text.split('\n').filter((l) => l.trim());
   if (lines.length === 0) return null;
 
@@ -975,7 +1154,9 @@ function parseLegendaryActions(text: string): LegendaryActions | null {
   if (!firstLine) return null;
 
   // First line is usually the description
-  const descMatch = firstLine.match(/can\s*take\s*(\d+)\s*legendary\s*actions?/i);
+  const descMatch =
+    firstLine.match(/can\s*take\s*(\d+)\s*legendary\s*actions?/i) ??
+    firstLine.match(/legendary\s*action\s*uses:\s*(\d+)/i);
   const count = descMatch && descMatch[1] ? parseInt(descMatch[1], 10) : 3;
 
   const actions: LegendaryAction[] = [];
@@ -1006,10 +1187,177 @@ function parseLegendaryActions(text: string): LegendaryActions | null {
   };
 }
 
+/**
+ * Finds the mythic trait among the creature's trait text.
+ *
+ * The trait is the one named in the mythic section intro (e.g. "If the
+ * tarrasque's Colossal Rejuvenation trait has activated..."), or the one
+ * that prevents death at 0 hit points.
+ */
+function findMythicTrait(intro: string, traits: Trait[], traitText: string): MythicTrait | null {
+  const introName = intro.match(/(?:'s|\bits)\s+([A-Z][\w' -]*?)\s+(?:trait|has\s+activated|is\s+active)/);
+  const name = introName?.[1]?.trim();
+
+  // Prefer a cleanly parsed trait
+  const parsed = name
+    ? traits.find((t) => t.name.toLowerCase() === name.toLowerCase())
+    : traits.find((t) => /reduced\s*to\s*0\s*hit\s*points/i.test(t.description));
+  if (parsed && /hit\s*points/i.test(parsed.description)) {
+    return { name: parsed.name, description: parsed.description };
+  }
+
+  // Otherwise locate "Name (usage). Description" in the raw trait text
+  const pattern = name
+    ? new RegExp(`${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:\\s*\\([^)]*\\))?\\.\\s*`, 'i')
+    : /([A-Z][\w' -]{2,40}?)(?:\s*\([^)]*\))?\.\s*(?=If\s+(?:the|it)\b[^.]*reduced\s*to\s*0\s*hit\s*points)/;
+  const match = traitText.match(pattern);
+  if (!match || match.index === undefined) return null;
+
+  const traitName = name ?? match[1]?.trim();
+  if (!traitName) return null;
+
+  // Take sentences up to the one describing what it regains
+  const sentences = traitText.slice(match.index + match[0].length).match(/[^.]+\./g) ?? [];
+  const description: string[] = [];
+  for (const sentence of sentences.slice(0, 4)) {
+    description.push(sentence.trim());
+    if (/regains?|restor/i.test(sentence)) break;
+  }
+
+  return { name: traitName, description: description.join(' ') };
+}
+
+/**
+ * Parses mythic actions section.
+ */
+export function parseMythicActions(
+  text: string,
+  traits: Trait[],
+  traitText: string,
+  legendaryCount?: number
+): MythicActions | null {
+  const lines = text.split('\n').filter((l) => l.trim());
+  const firstLine = lines[0]?.trim();
+  if (!firstLine) return null;
+
+  const actions: MythicAction[] = [];
+
+  for (const line of lines.slice(1)) {
+    const trimmedLine = line.trim();
+
+    // Match "Action Name (Costs X Actions). Description"
+    const match = trimmedLine.match(/^([^.]+?)(?:\s*\(costs?\s*(\d+)\s*actions?\))?\.\s*(.+)$/is);
+
+    if (match && match[1] && match[3]) {
+      const cost = match[2] ? parseInt(match[2], 10) : 1;
+      actions.push({ name: match[1].trim(), description: match[3].trim(), cost });
+    }
+  }
+
+  return {
+    trait: findMythicTrait(firstLine, traits, traitText) ?? {
+      name: 'Mythic Trait',
+      description: firstLine,
+    },
+    count: legendaryCount ?? 3,
+    actions,
+  };
+}
+
+/** A "Name. Description" lair entry. */
+const NAMED_LAIR_ENTRY = /^([A-Z][\w' -]{1,40})\.\s+(\S.*)$/s;
+
+/** Short words left lowercase in a title ("Wall of Fire"). */
+const TITLE_SMALL_WORDS = new Set(['a', 'an', 'and', 'at', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+/**
+ * Returns the name of a "Name. Description" lair entry. A first sentence
+ * that is not in title case ("The ground shakes.") is description, not a name.
+ */
+function lairEntryName(entry: string): string | undefined {
+  const name = entry.match(NAMED_LAIR_ENTRY)?.[1]?.trim();
+  const isTitle = name?.split(/\s+/).every((word, index) => /^[A-Z0-9]/.test(word) || (index > 0 && TITLE_SMALL_WORDS.has(word)));
+  return isTitle ? name : undefined;
+}
+
+/**
+ * Splits a lair or regional effects section into its intro and entries.
+ * Entries are bullet points ("•", "-", "*") or "Name. Description" paragraphs;
+ * unmarked lines continue the previous entry. Without any bullets, a line
+ * that follows a finished sentence (or the intro's closing colon) starts a
+ * new entry, so unbulleted paragraphs stay separate.
+ */
+function splitLairEntries(text: string): { intro: string; entries: string[] } {
+  const lines = text.split('\n').map((l) => l.trim()).filter((l) => l);
+  const hasBullets = lines.some((line) => /^[•\-*]\s*\S/.test(line));
+  const introLines: string[] = [];
+  const entries: string[] = [];
+
+  for (const line of lines) {
+    const bullet = line.match(/^[•\-*]\s*(.+)$/);
+    const named = lairEntryName(line) !== undefined;
+    const previous = entries.length > 0 ? entries[entries.length - 1] : introLines[introLines.length - 1];
+    const startsParagraph = !hasBullets && /^[A-Z]/.test(line) && /[.!?:]["')]?$/.test(previous ?? '');
+
+    if (bullet && bullet[1]) {
+      entries.push(bullet[1].trim());
+    } else if ((named || startsParagraph) && (entries.length > 0 || introLines.length > 0)) {
+      entries.push(line);
+    } else if (entries.length > 0) {
+      entries[entries.length - 1] += ` ${line}`;
+    } else {
+      introLines.push(line);
+    }
+  }
+
+  return { intro: introLines.join(' '), entries };
+}
+
+/**
+ * Parses lair actions and regional effects sections.
+ */
+export function parseLairActions(lairText?: string, regionalText?: string): LairActions | null {
+  if (!lairText && !regionalText) return null;
+
+  const lair: LairActions = { initiativeCount: 20, actions: [] };
+
+  if (lairText) {
+    const { intro, entries } = splitLairEntries(lairText);
+
+    const initiativeMatch = intro.match(/initiative\s*count\s*(\d+)/i);
+    if (initiativeMatch && initiativeMatch[1]) {
+      lair.initiativeCount = parseInt(initiativeMatch[1], 10);
+    }
+    if (intro) {
+      lair.description = intro;
+    }
+
+    for (const entry of entries) {
+      // Match optional "Action Name. Description"
+      const name = lairEntryName(entry);
+      const description = entry.match(NAMED_LAIR_ENTRY)?.[2];
+      const action: LairAction =
+        name && description ? { name, description: description.trim() } : { description: entry };
+      lair.actions.push(action);
+    }
+  }
+
+  if (regionalText) {
+    const { entries } = splitLairEntries(regionalText);
+    // Trailing "If the creature dies, these effects..." lines are folded into the last bullet
+    const effects = entries.map((e) => e.replace(/\s*If the [^.,]+, these effects.*$/i, '').trim());
+    if (effects.length > 0) {
+      lair.regionalEffects = effects.filter((e) => e);
+    }
+  }
+
+  return lair;
+}
+
 /**
  * Parses bonus actions section.
  */
-function parseBonusActions(text: string): BonusAction[] {
+export function parseBonusActions(text: string): BonusAction[] {
   const bonusActions: BonusAction[] = [];
   const entries = text.split(/(?=^[A-Z][^.]+\.)/m).filter((e) => e.trim());
 
@@ -1041,6 +1389,171 @@ function parseBonusActions(text: string): BonusAction[] {
   return bonusActions;
 }
 
+/**
+ * Sorts "Name. Description" action entries into the multiattack,
+ * attacks, and other actions.
+ */
+export function parseActionEntries(entries: string[]): {
+  multiattack?: Multiattack;
+  attacks: DnD5eAttack[];
+  actions: DnD5eAction[];
+} {
+  const result: { multiattack?: Multiattack; attacks: DnD5eAttack[]; actions: DnD5eAction[] } = {
+    attacks: [],
+    actions: [],
+  };
+
+  for (const entry of entries) {
+    // Check if it's a multiattack
+    if (entry.toLowerCase().startsWith('multiattack')) {
+      const ma = parseMultiattack(entry);
+      if (ma) {
+        result.multiattack = ma;
+      }
+      continue;
+    }
+
+    // Check if it's an attack
+    const lowerEntry = entry.toLowerCase();
+    if ((lowerEntry.includes('attack:') && lowerEntry.includes('to hit')) || /attack roll:/.test(lowerEntry)) {
+      const attack = parseAttack(entry);
+      if (attack) {
+        result.attacks.push(attack);
+        continue;
+      }
+    }
+
+    // Otherwise treat as non-attack action
+    result.actions.push(parseAction(entry));
+  }
+
+  return result;
+}
+
+/**
+ * Innate spellcasting frequencies ("At will", "3/day each").
+ */
+const INNATE_FREQUENCY_MAP: Record<string, keyof InnateSpellcasting['spells']> = {
+  'at will': 'atWill',
+  '3/day': 'perDay3',
+  '2/day': 'perDay2',
+  '1/day': 'perDay1',
+};
+
+/**
+ * Words kept lowercase when title-casing names.
+ */
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+/**
+ * Title-cases a spell or item name ("protection from evil and good" ->
+ * "Protection from Evil and Good").
+ */
+export function toTitleCase(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word, i) => (i > 0 && MINOR_WORDS.has(word) ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ');
+}
+
+/**
+ * Splits a comma-separated spell list, dropping notes in parentheses
+ * and emphasis markers.
+ */
+function parseSpellList(text: string, level: number): Spell[] {
+  return text
+    .replace(/\([^)]*\)/g, '')
+    .split(',')
+    .map((name) => name.replace(/[*_]/g, '').trim())
+    .filter((name) => name)
+    .map((name) => ({ name: toTitleCase(name), level }));
+}
+
+/**
+ * Parses a Spellcasting or Innate Spellcasting trait, e.g. "Its
+ * spellcasting ability is Intelligence (spell save DC 14, +6 to hit with
+ * spell attacks)" followed by "1st level (4 slots): ..." or "3/day each:
+ * ..." lines. Innate spell levels are not listed in the stat block, so
+ * innate spells are recorded as level 1.
+ *
+ * @returns Parsed spellcasting, or null without an ability and save DC
+ */
+export function parseSpellcasting(name: string, description: string): Spellcasting | null {
+  // 2014: "spellcasting ability is Intelligence"; 2024: "using Intelligence as the spellcasting ability"
+  const abilityMatch =
+    description.match(/spellcasting\s+ability\s+is\s+(\w+)/i) ??
+    description.match(/using\s+(\w+)\s+as\s+the\s+spellcasting\s+ability/i);
+  const ability = abilityMatch?.[1] ? ABILITY_MAP[abilityMatch[1].toLowerCase()] : undefined;
+  const dcMatch = description.match(/spell\s+save\s+dc\s*(\d+)/i);
+  if (!ability || !dcMatch?.[1]) return null;
+
+  const spellSaveDC = parseInt(dcMatch[1], 10);
+  const attackMatch = description.match(/([+-]\d+)\s*to\s*hit\s*with\s*spell\s*attacks/i);
+  const spellAttackBonus = attackMatch?.[1] ? parseInt(attackMatch[1], 10) : undefined;
+  const lines = description
+    .split(/\n|•/)
+    .map((line) => line.replace(/^[*-]\s+/, '').trim())
+    .filter((line) => line);
+  const hasSpellLevels = lines.some((line) => /^(?:cantrips|\d(?:st|nd|rd|th)\s+level)\b/i.test(line));
+
+  // 2024 casters list "At Will" and "1/Day Each" spells without calling them innate
+  if (/innate/i.test(name) || /innately\s+cast/i.test(description) || !hasSpellLevels) {
+    const spells: InnateSpellcasting['spells'] = {};
+    for (const line of lines) {
+      const match = line.match(/^(at will|\d\/day)(?:\s+each)?:\s*(.+)$/i);
+      const key = match?.[1] ? INNATE_FREQUENCY_MAP[match[1].toLowerCase()] : undefined;
+      if (key && match?.[2]) {
+        spells[key] = parseSpellList(match[2], 1);
+      }
+    }
+
+    const innate: InnateSpellcasting = { type: 'innate', ability, spellSaveDC, spells };
+    if (spellAttackBonus !== undefined) {
+      innate.spellAttackBonus = spellAttackBonus;
+    }
+    return innate;
+  }
+
+  const spellcasting: TraditionalSpellcasting = {
+    type: 'traditional',
+    ability,
+    spellSaveDC,
+    spellAttackBonus: spellAttackBonus ?? spellSaveDC - 8,
+    spells: {},
+  };
+
+  const levelMatch = description.match(/(\d+)(?:st|nd|rd|th)-level\s+spellcaster/i);
+  if (levelMatch?.[1]) {
+    spellcasting.casterLevel = parseInt(levelMatch[1], 10);
+  }
+
+  const slots: SpellSlots = {};
+  for (const line of lines) {
+    const match = line.match(/^(?:cantrips|(\d)(?:st|nd|rd|th)\s+level)\s*(?:\(([^)]*)\))?:\s*(.+)$/i);
+    if (!match || !match[3]) continue;
+
+    if (match[1] === undefined) {
+      spellcasting.spells.cantrips = parseSpellList(match[3], 0);
+      continue;
+    }
+
+    const level = parseInt(match[1], 10) as 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+    spellcasting.spells[level] = parseSpellList(match[3], level);
+    const slotMatch = match[2]?.match(/(\d+)\s*slots?/i);
+    if (slotMatch?.[1]) {
+      slots[level] = parseInt(slotMatch[1], 10);
+    }
+  }
+
+  if (Object.keys(slots).length > 0) {
+    spellcasting.slots = slots;
+  }
+
+  return spellcasting;
+}
+
 // ============================================================================
 // MAIN PARSER FUNCTIONS
 // ============================================================================
@@ -1049,11 +1562,12 @@ function parseBonusActions(text: string): BonusAction[] {
  * Parses a plain text D&D 5e stat block into a structured DnD5eMonster object.
  *
  * @param text - The raw stat block text
+ * @param options - Optional parsing configuration
  * @returns Parsed monster object
  * @throws Error if parsing fails critically
  */
-export function parseStatBlock(text: string): DnD5eMonster {
-  const result = parseStatBlockSafe(text);
+export function parseStatBlock(text: string, options?: StatBlockParseOptions): DnD5eMonster {
+  const result = parseStatBlockSafe(text, options);
 
   if (!result.result) {
     throw new Error(`Failed to parse stat block: ${result.errors.join('; ')}`);
@@ -1065,22 +1579,73 @@ export function parseStatBlock(text: string): DnD5eMonster {
 /**
  * Safely parses a stat block, returning errors instead of throwing.
  *
+ * With `repairOcr`, the text goes through `repairOcrText` first and the
+ * repairs are returned on the result. Field spans and diagnostics point
+ * at the lines of the text as given.
+ *
  * @param text - The raw stat block text
+ * @param options - Optional parsing configuration
  * @returns Object containing result (if successful) and any errors/warnings
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseStatBlockSafe(pastedFromPdf, { repairOcr: true });
+ * for (const repair of parsed.repairs ?? []) {
+ *   console.log(`Line ${repair.line}: ${repair.description}`);
+ * }
+ * ```
  */
-export function parseStatBlockSafe(text: string): ParseResult {
+export function parseStatBlockSafe(text: string, options: StatBlockParseOptions = {}): ParseResult {
+  if (!options.repairOcr) {
+    return parseStatBlockText(text);
+  }
+
+  // Spans point at the pasted lines; columns are those of the repaired lines
+  const { text: repaired, repairs, lines } = repairOcrText(text);
+  const parsed = mapResultSpans(parseStatBlockText(repaired), (line) => lines[line - 1] ?? line);
+  return { ...parsed, repairs };
+}
+
+/**
+ * Parses stat block text as given.
+ */
+function parseStatBlockText(text: string): ParseResult {
   const errors: string[] = [];
   const warnings: string[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const spans: FieldSpans = {};
 
   const normalized = normalizeText(text);
+  const layout = detectStatBlockLayout(normalized);
   const sections = splitIntoSections(normalized);
 
+  // The header section starts at the first line, so its line indexes
+  // are also indexes into the normalized text
+  const origin = findSourceOrigin(text);
+  const sourceLines = normalized.split('\n');
+  const spanOf = (first: number, last = first): SourceSpan => lineSpan(origin, sourceLines, first, last);
+  const sectionLines = new Map<string, number>();
+  sourceLines.forEach((line, index) => {
+    const heading = line.trim().toLowerCase();
+    if (SECTION_HEADERS.includes(heading) && !sectionLines.has(heading)) {
+      sectionLines.set(heading, index);
+    }
+  });
+  const report = (severity: 'error' | 'warning'): DiagnosticReporter => (code, message, line) => {
+    (severity === 'error' ? errors : warnings).push(message);
+    diagnostics.push(createDiagnostic(code, severity, message, line === undefined ? undefined : spanOf(line)));
+  };
+  const fail = (code: DiagnosticCode, message: string, line?: number): ParseResult => {
+    report('error')(code, message, line);
+    return { layout, errors, warnings, diagnostics, spans };
+  };
+
   const headerText = sections.get('header') ?? '';
 
   // Parse header (name, size, type, alignment)
-  const header = parseHeader(headerText, errors);
+  const header = parseHeader(headerText, report('error'));
   if (!header) {
-    return { errors, warnings };
+    return { layout, errors, warnings, diagnostics, spans };
   }
 
   // Find stats in header section
@@ -1098,8 +1663,17 @@ export function parseStatBlockSafe(text: string): ParseResult {
   let sensesLine = '';
   let languagesLine = '';
   let crLine = '';
+  let initiativeLine = '';
+  let gearLine = '';
+  const abilityRows: string[] = [];
   const traitLines: string[] = [];
 
+  // Line indexes each field was read from
+  const fieldLines: Record<string, number[]> = {};
+  const mark = (field: string, index: number): void => {
+    (fieldLines[field] ??= []).push(index);
+  };
+
   let inTraits = false;
 
   for (let i = 2; i < lines.length; i++) {
@@ -1109,12 +1683,29 @@ export function parseStatBlockSafe(text: string): ParseResult {
     const trimmed = line.trim();
     const lower = trimmed.toLowerCase();
 
-    if (lower.startsWith('armor class')) {
+    if (lower.startsWith('armor class') || /^ac\s+\d+/.test(lower)) {
+      // 2024 puts Initiative on the AC line
       acLine = trimmed;
-    } else if (lower.startsWith('hit points')) {
+      mark('armorClass', i);
+      if (lower.includes('initiative')) {
+        initiativeLine = trimmed;
+        mark('initiative', i);
+      }
+    } else if (lower.startsWith('initiative')) {
+      initiativeLine = trimmed;
+      mark('initiative', i);
+    } else if (lower.startsWith('hit points') || /^hp\s+\d+/.test(lower)) {
       hpLine = trimmed;
+      mark('hitPoints', i);
+    } else if (layout === '2024' && /^(?:mod\s+save\s*)+$/.test(lower)) {
+      // 2024 ability table column headers
+      continue;
+    } else if (layout === '2024' && /^(str|dex|con|int|wis|cha)\s+\d+\s+[+-]\d+\s+[+-]\d+/.test(lower)) {
+      abilityRows.push(trimmed);
+      mark('abilityScores', i);
     } else if (lower.startsWith('speed')) {
       speedLine = trimmed;
+      mark('speed', i);
     } else if (/^(str|strength)\s+/i.test(lower) || /^\d+\s*\([+-]?\d+\)/.test(lower)) {
       // This is the stats line or header line
       if (/^str\s+dex\s+con/i.test(lower)) {
@@ -1122,24 +1713,51 @@ export function parseStatBlockSafe(text: string): ParseResult {
         continue;
       }
       statsLine = trimmed;
+      mark('abilityScores', i);
     } else if (lower.startsWith('saving throws')) {
       savesLine = trimmed;
+      mark('savingThrows', i);
     } else if (lower.startsWith('skills')) {
       skillsLine = trimmed;
+      mark('skills', i);
     } else if (lower.startsWith('damage resistances')) {
       resistanceLine = trimmed;
+      mark('damageModifiers', i);
     } else if (lower.startsWith('damage immunities')) {
       immunityLine = trimmed;
+      mark('damageModifiers', i);
     } else if (lower.startsWith('damage vulnerabilities')) {
       vulnerabilityLine = trimmed;
+      mark('damageModifiers', i);
     } else if (lower.startsWith('condition immunities')) {
       conditionImmunityLine = trimmed;
+      mark('conditionImmunities', i);
+    } else if (lower.startsWith('immunities')) {
+      // 2024 combines damage and condition immunities
+      const { damage, conditions } = splitImmunities(trimmed);
+      immunityLine = damage;
+      conditionImmunityLine = conditions;
+      mark('damageModifiers', i);
+      mark('conditionImmunities', i);
+    } else if (lower.startsWith('resistances')) {
+      resistanceLine = trimmed;
+      mark('damageModifiers', i);
+    } else if (lower.startsWith('vulnerabilities')) {
+      vulnerabilityLine = trimmed;
+      mark('damageModifiers', i);
+    } else if (lower.startsWith('gear')) {
+      gearLine = trimmed;
+      mark('gear', i);
     } else if (lower.startsWith('senses')) {
       sensesLine = trimmed;
+      mark('senses', i);
     } else if (lower.startsWith('languages')) {
       languagesLine = trimmed;
-    } else if (lower.startsWith('challenge')) {
+      mark('languages', i);
+    } else if (lower.startsWith('challenge') || /^cr\s+[\d/]+/.test(lower)) {
       crLine = trimmed;
+      mark('challengeRating', i);
+      mark('proficiencyBonus', i);
       inTraits = true; // Everything after CR is traits
     } else if (inTraits && trimmed) {
       traitLines.push(trimmed);
@@ -1149,22 +1767,21 @@ export function parseStatBlockSafe(text: string): ParseResult {
   // Parse core stats
   const armorClass = parseArmorClass(acLine);
   if (!armorClass) {
-    errors.push('Could not parse Armor Class');
-    return { errors, warnings };
+    return fail('missing-armor-class', 'Could not parse Armor Class', fieldLines.armorClass?.[0]);
   }
 
   const hitPoints = parseHitPoints(hpLine);
   if (!hitPoints) {
-    errors.push('Could not parse Hit Points');
-    return { errors, warnings };
+    return fail('missing-hit-points', 'Could not parse Hit Points', fieldLines.hitPoints?.[0]);
   }
 
   const speed = parseSpeed(speedLine);
 
-  const abilityScores = parseAbilityScores(statsLine);
+  // 2024 MOD/SAVE table, falling back to the 2014 score line
+  const abilityTable = abilityRows.length > 0 ? parseAbilityTable(abilityRows.join(' ')) : null;
+  const abilityScores = abilityTable?.abilityScores ?? parseAbilityScores(statsLine);
   if (!abilityScores) {
-    errors.push('Could not parse ability scores');
-    return { errors, warnings };
+    return fail('missing-ability-scores', 'Could not parse ability scores', fieldLines.abilityScores?.[0]);
   }
 
   const senses = parseSenses(sensesLine);
@@ -1172,11 +1789,14 @@ export function parseStatBlockSafe(text: string): ParseResult {
 
   const challengeRating = parseChallengeRating(crLine);
   if (!challengeRating) {
-    errors.push('Could not parse Challenge Rating');
-    return { errors, warnings };
+    return fail('missing-challenge-rating', 'Could not parse Challenge Rating', fieldLines.challengeRating?.[0]);
   }
 
-  const proficiencyBonus = calculateProficiencyBonus(challengeRating.cr);
+  // 2024 states the proficiency bonus on the CR line
+  const pbMatch = crLine.match(/\bpb\s*\+(\d+)/i);
+  const proficiencyBonus = pbMatch?.[1]
+    ? parseInt(pbMatch[1], 10)
+    : calculateProficiencyBonus(challengeRating.cr);
 
   // Build monster object
   const monster: DnD5eMonster = {
@@ -1199,8 +1819,22 @@ export function parseStatBlockSafe(text: string): ParseResult {
     monster.subtypes = header.subtypes;
   }
 
+  const initiative = parseInitiative(initiativeLine);
+  if (initiative) {
+    monster.initiative = initiative;
+  }
+
+  if (gearLine) {
+    const gear = parseLanguages(gearLine.replace(/^gear\s*/i, ''));
+    if (gear.length > 0) {
+      monster.gear = gear;
+    }
+  }
+
   // Parse optional sections
-  if (savesLine) {
+  if (abilityTable && abilityTable.savingThrows.length > 0) {
+    monster.savingThrows = abilityTable.savingThrows;
+  } else if (savesLine) {
     const saves = parseSavingThrows(savesLine);
     if (saves.length > 0) {
       monster.savingThrows = saves;
@@ -1236,52 +1870,46 @@ export function parseStatBlockSafe(text: string): ParseResult {
     }
   }
 
-  // Parse traits
+  const traits: Trait[] = [];
+
   if (traitLines.length > 0) {
     const traitText = traitLines.join(' ');
-    // Split on trait boundaries (Name. followed by description)
-    const traitEntries = traitText.split(/(?=(?:^|\s)[A-Z][^.]+\.\s)/g).filter((e) => e.trim());
+    // Split on trait boundaries: a short Title Case name (with an optional
+    // usage note) and a period, at the start or right after a sentence
+    const traitEntries = traitText
+      .split(
+        /(?<=^|\.\s+)(?=[A-Z][\w'’-]*(?:\s+(?:[A-Z][\w'’-]*|of|the|and|in|to|with|from)){0,5}(?:\s*\([^)]*\))?\.\s)/
+      )
+      .filter((e) => e.trim());
 
-    const traits: Trait[] = [];
     for (const entry of traitEntries) {
       if (entry.trim()) {
         traits.push(parseTrait(entry.trim()));
       }
     }
+  }
 
-    if (traits.length > 0) {
-      monster.traits = traits;
+  // 2024 lists traits under a Traits heading, one entry per line
+  const traitsSection = sections.get('traits');
+  if (traitsSection) {
+    const traitEntries = traitsSection.split(/(?=^[A-Z][^.]+\.)/m).filter((e) => e.trim());
+    for (const entry of traitEntries) {
+      traits.push(parseTrait(entry.trim()));
     }
   }
 
+  if (traits.length > 0) {
+    monster.traits = traits;
+  }
+
   // Parse actions section
   const actionsText = sections.get('actions');
   if (actionsText) {
     const actionEntries = actionsText.split(/(?=^[A-Z][^.]+\.)/m).filter((e) => e.trim());
-    const attacks: DnD5eAttack[] = [];
-    const actions: DnD5eAction[] = [];
-
-    for (const entry of actionEntries) {
-      // Check if it's a multiattack
-      if (entry.toLowerCase().startsWith('multiattack')) {
-        const ma = parseMultiattack(entry);
-        if (ma) {
-          monster.multiattack = ma;
-        }
-        continue;
-      }
-
-      // Check if it's an attack
-      if (entry.toLowerCase().includes('attack:') && entry.toLowerCase().includes('to hit')) {
-        const attack = parseAttack(entry);
-        if (attack) {
-          attacks.push(attack);
-          continue;
-        }
-      }
+    const { multiattack, attacks, actions } = parseActionEntries(actionEntries);
 
-      // Otherwise treat as non-attack action
-      actions.push(parseAction(entry));
+    if (multiattack) {
+      monster.multiattack = multiattack;
     }
 
     if (attacks.length > 0) {
@@ -1326,7 +1954,183 @@ export function parseStatBlockSafe(text: string): ParseResult {
     }
   }
 
-  return { result: monster, errors, warnings };
+  // Parse mythic actions (the mythic trait is one of the parsed traits)
+  const mythicText = sections.get('mythic actions');
+  if (mythicText) {
+    const mythicActions = parseMythicActions(
+      mythicText,
+      monster.traits ?? [],
+      traitLines.join(' '),
+      monster.legendaryActions?.count
+    );
+    if (mythicActions) {
+      if (mythicActions.trait.name === 'Mythic Trait') {
+        report('warning')(
+          'unidentified-mythic-trait',
+          'Mythic actions found but the enabling mythic trait could not be identified',
+          sectionLines.get('mythic actions')
+        );
+      }
+      monster.mythicActions = mythicActions;
+    }
+  }
+
+  // Parse lair actions and regional effects
+  const lairActions = parseLairActions(sections.get('lair actions'), sections.get('regional effects'));
+  if (lairActions) {
+    if (lairActions.actions.length === 0 && sections.has('lair actions')) {
+      report('warning')(
+        'unparsed-lair-actions',
+        'Lair actions section found but no lair actions could be parsed',
+        sectionLines.get('lair actions')
+      );
+    }
+    if (!lairActions.regionalEffects?.length && sections.has('regional effects')) {
+      report('warning')(
+        'unparsed-regional-effects',
+        'Regional effects section found but no regional effects could be parsed',
+        sectionLines.get('regional effects')
+      );
+    }
+    monster.lairActions = lairActions;
+  }
+
+  // Record where each parsed field came from
+  spans.name = spanOf(header.nameLine);
+  for (const field of ['size', 'creatureType', 'alignment', 'subtypes'] as const) {
+    if (monster[field] !== undefined) {
+      spans[field] = spanOf(header.typeLine);
+    }
+  }
+  for (const [field, indexes] of Object.entries(fieldLines)) {
+    if (monster[field as keyof DnD5eMonster] !== undefined) {
+      spans[field] = spanOf(Math.min(...indexes), Math.max(...indexes));
+    }
+  }
+  if (!pbMatch) {
+    delete spans.proficiencyBonus;
+  }
+  Object.assign(spans, locateEntrySpans(monster, sourceLines, sectionLines, fieldLines.challengeRating?.[0], spanOf));
+
+  return { result: monster, layout, errors, warnings, diagnostics, spans };
+}
+
+/**
+ * Finds the source span of each named entry (traits, actions, bonus
+ * actions, reactions, legendary and mythic actions) by looking for a
+ * line that starts with its name, and of each list and action section.
+ */
+function locateEntrySpans(
+  monster: DnD5eMonster,
+  lines: string[],
+  sectionLines: Map<string, number>,
+  challengeLine: number | undefined,
+  spanOf: (first: number, last?: number) => SourceSpan
+): FieldSpans {
+  const spans: FieldSpans = {};
+  const headings = [...sectionLines.values()].sort((a, b) => a - b);
+  const isBlank = (index: number): boolean => !lines[index]?.trim();
+
+  // Content lines of a section, between its heading and the next one
+  const sectionRange = (section: string): [number, number] | null => {
+    const heading = sectionLines.get(section);
+    if (heading === undefined) return null;
+    return [heading + 1, (headings.find((index) => index > heading) ?? lines.length) - 1];
+  };
+
+  // Traits follow the Challenge line (2014) or a Traits heading (2024)
+  const traitsRange =
+    sectionRange('traits') ??
+    (challengeLine === undefined ? null : [challengeLine + 1, (headings[0] ?? lines.length) - 1]);
+
+  const groups: Array<{ range: [number, number] | null; lists: Array<[string, string[]]> }> = [
+    { range: traitsRange, lists: [['traits', (monster.traits ?? []).map((entry) => entry.name)]] },
+    {
+      range: sectionRange('actions'),
+      lists: [
+        ['multiattack', monster.multiattack ? ['Multiattack'] : []],
+        ['attacks', (monster.attacks ?? []).map((entry) => entry.name)],
+        ['actions', (monster.actions ?? []).map((entry) => entry.name)],
+      ],
+    },
+    { range: sectionRange('bonus actions'), lists: [['bonusActions', (monster.bonusActions ?? []).map((entry) => entry.name)]] },
+    { range: sectionRange('reactions'), lists: [['reactions', (monster.reactions ?? []).map((entry) => entry.name)]] },
+    {
+      range: sectionRange('legendary actions'),
+      lists: [['legendaryActions.actions', (monster.legendaryActions?.actions ?? []).map((entry) => entry.name)]],
+    },
+    {
+      range: sectionRange('mythic actions'),
+      lists: [['mythicActions.actions', (monster.mythicActions?.actions ?? []).map((entry) => entry.name)]],
+    },
+  ];
+
+  for (const { range, lists } of groups) {
+    if (!range) continue;
+
+    // Entry start lines, in each list's order
+    const starts: Array<{ key: string; list: string; line: number }> = [];
+    for (const [list, names] of lists) {
+      let cursor = range[0];
+      names.forEach((name, index) => {
+        const pattern = new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:[.( ]|$)`, 'i');
+        for (let line = cursor; line <= range[1]; line++) {
+          if (pattern.test(lines[line]?.trim() ?? '')) {
+            starts.push({ key: list === 'multiattack' ? list : `${list}.${index}`, list, line });
+            cursor = line + 1;
+            return;
+          }
+        }
+      });
+    }
+
+    // Each entry runs until the next entry of any list, or the section end
+    const sorted = [...new Set(starts.map((start) => start.line))].sort((a, b) => a - b);
+    const ends = new Map<string, number>();
+    for (const start of starts) {
+      let end = (sorted.find((line) => line > start.line) ?? range[1] + 1) - 1;
+      while (end > start.line && isBlank(end)) end--;
+      spans[start.key] = spanOf(start.line, end);
+      ends.set(start.list, Math.max(ends.get(start.list) ?? end, end));
+    }
+
+    // Each list spans its first to last entry
+    for (const [list] of lists) {
+      const listStarts = starts.filter((start) => start.list === list).map((start) => start.line);
+      const end = ends.get(list);
+      if (listStarts.length > 0 && end !== undefined && list !== 'multiattack') {
+        spans[list] = spanOf(Math.min(...listStarts), end);
+      }
+    }
+  }
+
+  // Legendary, mythic, and lair actions span their whole sections
+  const sectionFields: Array<[string, string, boolean]> = [
+    ['legendaryActions', 'legendary actions', monster.legendaryActions !== undefined],
+    ['mythicActions', 'mythic actions', monster.mythicActions !== undefined],
+    ['lairActions', 'lair actions', monster.lairActions !== undefined],
+  ];
+  for (const [field, section, present] of sectionFields) {
+    const heading = sectionLines.get(section);
+    const range = sectionRange(section);
+    if (present && heading !== undefined && range) {
+      let end = range[1];
+      while (end > heading && isBlank(end)) end--;
+      spans[field] = spanOf(heading, end);
+    }
+  }
+  delete spans['legendaryActions.actions'];
+  delete spans['mythicActions.actions'];
+
+  // Spellcasting is read from a trait or action of that name
+  if (monster.spellcasting) {
+    const line = lines.findIndex((text) => /^(?:innate\s+)?spellcasting\b/i.test(text.trim()));
+    if (line !== -1) {
+      spans.spellcasting = spanOf(line);
+    }
+  }
+
+  return spans;
 }
 
 /**
@@ -29,3 +29,9 @@ export {
   type QuickAdjustment,
   type ScalingResult,
 } from './scaling';
+
+// ============================================================================
+// RANDOM UTILITIES
+// ============================================================================
+
+export { createSeededRandom, type SeededRandom } from './random';
@@ -0,0 +1,95 @@
+/**
+ * Seeded Random Utilities
+ *
+ * Provides a small deterministic pseudo-random number generator so that
+ * generated content (encounters, loot, etc.) can be reproduced from a seed.
+ *
+ * @module utils/random
+ * @version 1.0.0
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Deterministic random source created from a seed.
+ */
+export interface SeededRandom {
+  /** Returns a float in [0, 1). */
+  next(): number;
+  /** Returns an integer in [min, max] (inclusive). */
+  nextInt(min: number, max: number): number;
+  /** Returns a random element of a non-empty array. */
+  pick<T>(items: readonly T[]): T;
+  /** Returns a shuffled copy of an array. */
+  shuffle<T>(items: readonly T[]): T[];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Hashes a string seed to a 32-bit integer (FNV-1a).
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Creates a deterministic random source (mulberry32) from a seed.
+ *
+ * The same seed always produces the same sequence.
+ *
+ * @param seed - Numeric or string seed
+ * @returns Seeded random source
+ *
+ * @example
+ * ```typescript
+ * const random = createSeededRandom('goblin-ambush');
+ * random.nextInt(1, 6); // same value every run
+ * ```
+ */
+export function createSeededRandom(seed: number | string): SeededRandom {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const nextInt = (min: number, max: number): number =>
+    min + Math.floor(next() * (max - min + 1));
+
+  return {
+    next,
+    nextInt,
+    pick<T>(items: readonly T[]): T {
+      if (items.length === 0) {
+        throw new Error('Cannot pick from an empty array');
+      }
+      return items[nextInt(0, items.length - 1)]!;
+    },
+    shuffle<T>(items: readonly T[]): T[] {
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = nextInt(0, i);
+        [result[i], result[j]] = [result[j]!, result[i]!];
+      }
+      return result;
+    },
+  };
+}
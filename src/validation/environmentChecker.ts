@@ -0,0 +1,328 @@
+/**
+ * Environment Quality Checker
+ *
+ * Validation for Daggerheart environment stat blocks. Checks required
+ * fields, tier-appropriate Difficulty, impulses, and feature costs, and
+ * reports issues in the same pass/warn/fail format as the adversary
+ * quality checker.
+ *
+ * @module validation/environmentChecker
+ * @version 1.0.0
+ */
+
+import { FeatureCostType, FeatureType } from '../models/daggerheart';
+import {
+  DaggerheartEnvironment,
+  EnvironmentFeatureCategory,
+  ENVIRONMENT_DIFFICULTY_BY_TIER,
+  HAZARD_SEVERITY_STATS,
+  isEnvironmentType,
+} from '../models/environment';
+import { ValidationIssue, ValidationResult, scoreIssues } from './qualityChecker';
+
+// ============================================================================
+// VALIDATION CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum Fear cost for a single environment feature.
+ */
+const MAX_FEAR_COST = 3;
+
+// ============================================================================
+// STRUCTURAL VALIDATION
+// ============================================================================
+
+/**
+ * Validates that all required fields are present.
+ */
+function validateStructure(environment: DaggerheartEnvironment): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!environment.name || environment.name.trim() === '') {
+    issues.push({
+      field: 'name',
+      severity: 'error',
+      message: 'Environment name is required',
+      suggestion: 'Add a descriptive name for the environment',
+    });
+  }
+
+  if (environment.tier === undefined || environment.tier === null) {
+    issues.push({
+      field: 'tier',
+      severity: 'error',
+      message: 'Tier is required',
+      suggestion: 'Set tier to 1, 2, 3, or 4',
+    });
+  } else if (environment.tier < 1 || environment.tier > 4) {
+    issues.push({
+      field: 'tier',
+      severity: 'error',
+      message: `Tier must be 1-4, got ${environment.tier}`,
+      suggestion: 'Adjust tier to be within valid range',
+    });
+  }
+
+  if (!isEnvironmentType(environment.type)) {
+    issues.push({
+      field: 'type',
+      severity: 'error',
+      message: `Invalid environment type: ${environment.type}`,
+      suggestion: 'Use Exploration, Social, Traversal, or Event',
+    });
+  }
+
+  if (environment.difficulty === undefined || environment.difficulty === null) {
+    issues.push({
+      field: 'difficulty',
+      severity: 'error',
+      message: 'Difficulty is required',
+      suggestion: 'Set Difficulty based on tier',
+    });
+  }
+
+  if (!environment.features || environment.features.length === 0) {
+    issues.push({
+      field: 'features',
+      severity: 'warning',
+      message: 'Environment has no features',
+      suggestion: 'Add terrain, hazard, or interactive features',
+    });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// BALANCE VALIDATION
+// ============================================================================
+
+/**
+ * Validates Difficulty and hazard rolls against the tier.
+ */
+function validateBalance(environment: DaggerheartEnvironment): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const tierDefaults = ENVIRONMENT_DIFFICULTY_BY_TIER[environment.tier];
+  if (!tierDefaults) return issues;
+
+  const [min, max] = tierDefaults.range;
+  if (environment.difficulty < min || environment.difficulty > max) {
+    issues.push({
+      field: 'difficulty',
+      severity: 'warning',
+      message: `Difficulty ${environment.difficulty} is outside Tier ${environment.tier} range (${min}-${max})`,
+      suggestion: `Set Difficulty to ${tierDefaults.default}`,
+    });
+  }
+
+  for (const feature of environment.features ?? []) {
+    if (!feature.hazardSeverity || feature.reactionRollDifficulty === undefined) continue;
+
+    const [low, high] = HAZARD_SEVERITY_STATS[feature.hazardSeverity].difficulty;
+    if (feature.reactionRollDifficulty < low || feature.reactionRollDifficulty > high) {
+      issues.push({
+        field: `features.${feature.name}.reactionRollDifficulty`,
+        severity: 'info',
+        message: `${feature.hazardSeverity} hazard "${feature.name}" has Reaction Roll ${feature.reactionRollDifficulty} (expected ${low}-${high})`,
+        suggestion: 'Match the Reaction Roll difficulty to the hazard severity',
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// FEATURE VALIDATION
+// ============================================================================
+
+/**
+ * Validates environment feature costs, triggers, and prompts.
+ */
+function validateFeatures(environment: DaggerheartEnvironment): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const feature of environment.features ?? []) {
+    const field = `features.${feature.name}`;
+
+    if (!feature.description || feature.description.trim() === '') {
+      issues.push({
+        field,
+        severity: 'error',
+        message: `Feature "${feature.name}" has no description`,
+        suggestion: 'Describe what the feature does',
+      });
+    }
+
+    // Environments have no Stress; their features are paid for with Fear
+    if (feature.cost?.type === FeatureCostType.STRESS) {
+      issues.push({
+        field: `${field}.cost`,
+        severity: 'warning',
+        message: `Feature "${feature.name}" costs Stress, but environments have no Stress`,
+        suggestion: 'Change the cost to Fear',
+      });
+    }
+
+    if (feature.cost?.type === FeatureCostType.FEAR && (feature.cost.amount ?? 1) > MAX_FEAR_COST) {
+      issues.push({
+        field: `${field}.cost`,
+        severity: 'warning',
+        message: `Feature "${feature.name}" costs ${feature.cost.amount} Fear (max ${MAX_FEAR_COST})`,
+        suggestion: `Reduce the Fear cost to ${MAX_FEAR_COST} or less`,
+      });
+    }
+
+    if (feature.type === FeatureType.REACTION && !feature.trigger) {
+      issues.push({
+        field: `${field}.trigger`,
+        severity: 'warning',
+        message: `Reaction "${feature.name}" has no trigger`,
+        suggestion: 'Add the PC action that triggers the reaction',
+      });
+    }
+
+    if (feature.category === EnvironmentFeatureCategory.HAZARD && !feature.reactionRollAttribute) {
+      issues.push({
+        field: `${field}.reactionRollAttribute`,
+        severity: 'info',
+        message: `Hazard "${feature.name}" has no Reaction Roll`,
+        suggestion: 'Give PCs a Reaction Roll to avoid or reduce the hazard',
+      });
+    }
+  }
+
+  const hasActiveFeature = (environment.features ?? []).some(
+    (f) => f.type === FeatureType.ACTION || f.type === FeatureType.REACTION
+  );
+  if ((environment.features ?? []).length > 0 && !hasActiveFeature) {
+    issues.push({
+      field: 'features',
+      severity: 'info',
+      message: 'Environment has only Passive features',
+      suggestion: 'Add an Action the GM can spend Fear on',
+    });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// NARRATIVE VALIDATION
+// ============================================================================
+
+/**
+ * Validates description, impulses, potential adversaries, and GM prompts.
+ */
+function validateNarrative(environment: DaggerheartEnvironment): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!environment.description || environment.description.trim() === '') {
+    issues.push({
+      field: 'description',
+      severity: 'warning',
+      message: 'Description is missing',
+      suggestion: 'Add an evocative one-line description',
+    });
+  }
+
+  if (!environment.impulses || environment.impulses.length === 0) {
+    issues.push({
+      field: 'impulses',
+      severity: 'warning',
+      message: 'At least one impulse is required',
+      suggestion: 'Add verb phrases like "Block the path" or "Hide secrets"',
+    });
+  } else if (environment.impulses.length < 2) {
+    issues.push({
+      field: 'impulses',
+      severity: 'info',
+      message: 'Only 1 impulse (recommended: 2-4)',
+      suggestion: 'Consider adding more impulses',
+    });
+  }
+
+  if (!environment.potentialAdversaries || environment.potentialAdversaries.length === 0) {
+    issues.push({
+      field: 'potentialAdversaries',
+      severity: 'info',
+      message: 'No potential adversaries listed',
+      suggestion: 'List adversaries that fit the environment',
+    });
+  }
+
+  const unprompted = (environment.features ?? []).filter(
+    (f) => !f.questions || f.questions.length === 0
+  );
+  if (unprompted.length > 0 && unprompted.length === (environment.features ?? []).length) {
+    issues.push({
+      field: 'features.questions',
+      severity: 'info',
+      message: 'No features have GM prompting questions',
+      suggestion: 'Add questions like "What does it feel like?" to key features',
+    });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// MAIN VALIDATION FUNCTION
+// ============================================================================
+
+/**
+ * Validates a Daggerheart environment across all quality dimensions.
+ *
+ * Performs four categories of validation:
+ * - Structural: Required fields and a valid environment type
+ * - Balance: Difficulty and hazard rolls appropriate for the tier
+ * - Features: Fear costs, reaction triggers, hazard Reaction Rolls
+ * - Narrative: Description, impulses, potential adversaries, GM prompts
+ *
+ * Scores are calculated the same way as for adversaries.
+ *
+ * @param environment - The environment to validate
+ * @returns Validation result with score, issues, and summary
+ *
+ * @example
+ * ```typescript
+ * const result = validateEnvironment(ritualChamber);
+ * if (!result.isValid) {
+ *   console.log('Validation failed:', result.summary);
+ * }
+ * ```
+ */
+export function validateEnvironment(environment: DaggerheartEnvironment): ValidationResult {
+  const allIssues: ValidationIssue[] = [];
+
+  allIssues.push(...validateStructure(environment));
+  allIssues.push(...validateBalance(environment));
+  allIssues.push(...validateFeatures(environment));
+  allIssues.push(...validateNarrative(environment));
+
+  const errors = allIssues.filter((i) => i.severity === 'error').length;
+  const warnings = allIssues.filter((i) => i.severity === 'warning').length;
+  const infos = allIssues.filter((i) => i.severity === 'info').length;
+
+  const score = scoreIssues(allIssues);
+  const isValid = errors === 0;
+
+  let summary: string;
+  if (isValid && score >= 90) {
+    summary = `Excellent quality (${score}/100). ${warnings + infos} minor suggestions.`;
+  } else if (isValid && score >= 70) {
+    summary = `Good quality (${score}/100). ${warnings} warnings and ${infos} suggestions to address.`;
+  } else if (isValid) {
+    summary = `Acceptable quality (${score}/100). Consider addressing ${warnings} warnings.`;
+  } else {
+    summary = `Invalid environment (${score}/100). ${errors} errors must be fixed. ${warnings} additional warnings.`;
+  }
+
+  return {
+    isValid,
+    score,
+    issues: allIssues,
+    summary,
+  };
+}
@@ -20,3 +20,6 @@ export {
   validateBatch,
   getValidationStats,
 } from './qualityChecker';
+
+// Environment validation
+export { validateEnvironment } from './environmentChecker';
@@ -655,6 +655,28 @@ function validateNarrative(adversary: DaggerheartAdversary): ValidationIssue[] {
   return issues;
 }
 
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Calculates a 0-100 quality score from validation issues.
+ *
+ * Starts at 100 and subtracts 15 points per error, 5 per warning,
+ * and 1 per info.
+ *
+ * @param issues - Issues found during validation
+ * @returns Quality score from 0-100
+ */
+export function scoreIssues(issues: ValidationIssue[]): number {
+  const errors = issues.filter((i) => i.severity === 'error').length;
+  const warnings = issues.filter((i) => i.severity === 'warning').length;
+  const infos = issues.filter((i) => i.severity === 'info').length;
+
+  const score = 100 - errors * 15 - warnings * 5 - infos * 1;
+  return Math.max(0, Math.min(100, score));
+}
+
 // ============================================================================
 // MAIN VALIDATION FUNCTION
 // ============================================================================
@@ -698,13 +720,7 @@ export function validateAdversary(adversary: DaggerheartAdversary): ValidationRe
   const warnings = allIssues.filter((i) => i.severity === 'warning').length;
   const infos = allIssues.filter((i) => i.severity === 'info').length;
 
-  // Calculate score
-  // Start at 100, subtract points for issues
-  // Errors: -15 points each
-  // Warnings: -5 points each
-  // Info: -1 point each
-  let score = 100 - errors * 15 - warnings * 5 - infos * 1;
-  score = Math.max(0, Math.min(100, score));
+  const score = scoreIssues(allIssues);
 
   // Determine validity
   const isValid = errors === 0;
@@ -849,7 +865,7 @@ export function validateAndFix(adversary: DaggerheartAdversary): FixResult {
   if (fixed.type === AdversaryType.HORDE && !fixed.horde?.isHorde) {
     fixed.horde = {
       isHorde: true,
-      threshold: Math.floor(fixed.hp / 2),
+      threshold: Math.ceil(fixed.hp / 2),
     };
     changes.push('Added Horde feature for Horde adversary');
   }
@@ -0,0 +1,777 @@
+/**
+ * Monster JSON Test Fixtures
+ *
+ * Third-party monster JSON in the shapes the importers read: a 5etools
+ * homebrew-style file with inline tags and a legendary group, a saved
+ * Open5e API page, and Foundry VTT dnd5e actor exports. Entries are
+ * abridged from the SRD.
+ *
+ * @module tests/fixtures/monster-json
+ * @version 1.0.0
+ */
+
+import { FiveToolsLegendaryGroup, FiveToolsMonster } from '../../src/parsers/fiveToolsImporter';
+import { Open5eMonster } from '../../src/parsers/open5eImporter';
+import { FoundryActor } from '../../src/parsers/foundryImporter';
+
+// ============================================================================
+// 5ETOOLS
+// ============================================================================
+
+/**
+ * Goblin - CR 1/4, 5etools.
+ */
+export const FIVETOOLS_GOBLIN: FiveToolsMonster = {
+  name: 'Goblin',
+  source: 'MM',
+  page: 166,
+  size: ['S'],
+  type: { type: 'humanoid', tags: ['goblinoid'] },
+  alignment: ['N', 'E'],
+  ac: [{ ac: 15, from: ['{@item leather armor|phb}', '{@item shield|phb}'] }],
+  hp: { average: 7, formula: '2d6' },
+  speed: { walk: 30 },
+  str: 8,
+  dex: 14,
+  con: 10,
+  int: 10,
+  wis: 8,
+  cha: 8,
+  skill: { stealth: '+6' },
+  senses: ['darkvision 60 ft.'],
+  passive: 9,
+  languages: ['Common', 'Goblin'],
+  cr: '1/4',
+  trait: [
+    {
+      name: 'Nimble Escape',
+      entries: ['The goblin can take the {@action Disengage} or {@action Hide} action as a bonus action on each of its turns.'],
+    },
+  ],
+  action: [
+    {
+      name: 'Scimitar',
+      entries: ['{@atk mw} {@hit 4} to hit, reach 5 ft., one target. {@h}5 ({@damage 1d6 + 2}) slashing damage.'],
+    },
+    {
+      name: 'Shortbow',
+      entries: ['{@atk rw} {@hit 4} to hit, range 80/320 ft., one target. {@h}5 ({@damage 1d6 + 2}) piercing damage.'],
+    },
+  ],
+  environment: ['forest', 'grassland', 'hill', 'underdark'],
+};
+
+/**
+ * Adult Black Dragon - CR 14, 5etools (abridged), with lair actions in a
+ * legendary group.
+ */
+export const FIVETOOLS_BLACK_DRAGON: FiveToolsMonster = {
+  name: 'Adult Black Dragon',
+  source: 'MM',
+  page: 88,
+  size: ['H'],
+  type: 'dragon',
+  alignment: ['C', 'E'],
+  ac: [{ ac: 19, from: ['natural armor'] }],
+  hp: { average: 195, formula: '17d12 + 85' },
+  speed: { walk: 40, fly: 80, swim: 40 },
+  str: 23,
+  dex: 14,
+  con: 21,
+  int: 14,
+  wis: 13,
+  cha: 17,
+  save: { dex: '+7', con: '+10', wis: '+6', cha: '+8' },
+  skill: { perception: '+11', stealth: '+7' },
+  senses: ['blindsight 60 ft.', 'darkvision 120 ft.'],
+  passive: 21,
+  immune: ['acid'],
+  languages: ['Common', 'Draconic'],
+  cr: { cr: '14', xp: 11500 },
+  trait: [
+    { name: 'Amphibious', entries: ['The dragon can breathe air and water.'] },
+    {
+      name: 'Legendary Resistance (3/Day)',
+      entries: ['If the dragon fails a saving throw, it can choose to succeed instead.'],
+    },
+  ],
+  action: [
+    {
+      name: 'Multiattack',
+      entries: ['The dragon can use its Frightful Presence. It then makes three attacks: one with its bite and two with its claws.'],
+    },
+    {
+      name: 'Bite',
+      entries: [
+        '{@atk mw} {@hit 11} to hit, reach 10 ft., one target. {@h}17 ({@damage 2d10 + 6}) piercing damage plus 4 ({@damage 1d8}) acid damage.',
+      ],
+    },
+    {
+      name: 'Acid Breath {@recharge 5}',
+      entries: [
+        'The dragon exhales acid in a 60-foot line that is 5 feet wide. Each creature in that line must make a {@dc 18} Dexterity saving throw, taking 54 ({@damage 12d8}) acid damage on a failed save, or half as much damage on a successful one.',
+      ],
+    },
+  ],
+  legendary: [
+    { name: 'Detect', entries: ['The dragon makes a Wisdom ({@skill Perception}) check.'] },
+    { name: 'Wing Attack (Costs 2 Actions)', entries: ['The dragon beats its wings.'] },
+  ],
+  legendaryGroup: { name: 'Black Dragon', source: 'MM' },
+};
+
+/**
+ * Mage - CR 6, 5etools, with structured spellcasting.
+ */
+export const FIVETOOLS_MAGE: FiveToolsMonster = {
+  name: 'Mage',
+  source: 'MM',
+  size: ['M'],
+  type: { type: 'humanoid', tags: ['any race'] },
+  alignment: ['A'],
+  ac: [12, { ac: 15, condition: 'with {@spell mage armor}' }],
+  hp: { average: 40, formula: '9d8' },
+  speed: { walk: 30 },
+  str: 9,
+  dex: 14,
+  con: 11,
+  int: 17,
+  wis: 12,
+  cha: 11,
+  save: { int: '+6', wis: '+4' },
+  passive: 11,
+  languages: ['any four languages'],
+  cr: '6',
+  spellcasting: [
+    {
+      name: 'Spellcasting',
+      headerEntries: [
+        'The mage is a 9th-level spellcaster. Its spellcasting ability is Intelligence (spell save {@dc 14}, {@hit 6} to hit with spell attacks). The mage has the following wizard spells prepared:',
+      ],
+      spells: {
+        '0': { spells: ['{@spell fire bolt}', '{@spell light}', '{@spell mage hand}'] },
+        '1': { slots: 4, spells: ['{@spell detect magic}', '{@spell magic missile}', '{@spell shield}'] },
+        '3': { slots: 3, spells: ['{@spell counterspell}', '{@spell fireball}', '{@spell fly}'] },
+      },
+      ability: 'int',
+    },
+  ],
+  action: [
+    {
+      name: 'Dagger',
+      entries: [
+        '{@atk mw,rw} {@hit 5} to hit, reach 5 ft. or range 20/60 ft., one target. {@h}4 ({@damage 1d4 + 2}) piercing damage.',
+      ],
+    },
+  ],
+};
+
+/**
+ * Legendary group for the black dragon.
+ */
+export const FIVETOOLS_BLACK_DRAGON_GROUP: FiveToolsLegendaryGroup = {
+  name: 'Black Dragon',
+  source: 'MM',
+  lairActions: [
+    'On initiative count 20 (losing initiative ties), the dragon takes a lair action to cause one of the following effects:',
+    {
+      type: 'list',
+      items: [
+        'Pools of water that the dragon can see within 120 feet of it surge outward in a grasping tide.',
+        'A cloud of swarming insects fills a 20-foot-radius sphere centered on a point the dragon chooses.',
+      ],
+    },
+  ],
+  regionalEffects: [
+    'The region containing a legendary black dragon\'s lair is warped by the dragon\'s magic, which creates one or more of the following effects:',
+    {
+      type: 'list',
+      items: [
+        'The land within 6 miles of the lair takes twice as long as normal to traverse.',
+        'Water sources within 1 mile of the lair are supernaturally fouled.',
+      ],
+    },
+    'If the dragon dies, the vegetation remains as it has grown, but other effects fade over {@dice 1d10} days.',
+  ],
+};
+
+/**
+ * A 5etools homebrew file holding the monsters above.
+ */
+export const FIVETOOLS_FILE = {
+  _meta: { sources: [{ json: 'TestBrew', full: 'Test Homebrew' }] },
+  monster: [FIVETOOLS_GOBLIN, FIVETOOLS_BLACK_DRAGON, FIVETOOLS_MAGE],
+  legendaryGroup: [FIVETOOLS_BLACK_DRAGON_GROUP],
+};
+
+// ============================================================================
+// OPEN5E
+// ============================================================================
+
+/**
+ * Goblin - CR 1/4, Open5e v1.
+ */
+export const OPEN5E_GOBLIN: Open5eMonster = {
+  slug: 'goblin',
+  name: 'Goblin',
+  size: 'Small',
+  type: 'humanoid',
+  subtype: 'goblinoid',
+  alignment: 'neutral evil',
+  armor_class: 15,
+  armor_desc: 'leather armor, shield',
+  hit_points: 7,
+  hit_dice: '2d6',
+  speed: { walk: 30 },
+  strength: 8,
+  dexterity: 14,
+  constitution: 10,
+  intelligence: 10,
+  wisdom: 8,
+  charisma: 8,
+  strength_save: null,
+  dexterity_save: null,
+  constitution_save: null,
+  intelligence_save: null,
+  wisdom_save: null,
+  charisma_save: null,
+  skills: { stealth: 6 },
+  damage_vulnerabilities: '',
+  damage_resistances: '',
+  damage_immunities: '',
+  condition_immunities: '',
+  senses: 'darkvision 60 ft., passive Perception 9',
+  languages: 'Common, Goblin',
+  challenge_rating: '1/4',
+  special_abilities: [
+    {
+      name: 'Nimble Escape',
+      desc: 'The goblin can take the Disengage or Hide action as a bonus action on each of its turns.',
+    },
+  ],
+  actions: [
+    {
+      name: 'Scimitar',
+      desc: 'Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.',
+    },
+    {
+      name: 'Shortbow',
+      desc: 'Ranged Weapon Attack: +4 to hit, range 80/320 ft., one target. Hit: 5 (1d6 + 2) piercing damage.',
+    },
+  ],
+  bonus_actions: null,
+  reactions: '',
+  legendary_desc: '',
+  legendary_actions: '',
+  environments: ['Forest', 'Hill'],
+  page_no: 315,
+  document__title: 'Systems Reference Document',
+};
+
+/**
+ * Lich - CR 21, Open5e v1 (abridged), with spellcasting and legendary
+ * actions.
+ */
+export const OPEN5E_LICH: Open5eMonster = {
+  slug: 'lich',
+  name: 'Lich',
+  size: 'Medium',
+  type: 'undead',
+  subtype: '',
+  alignment: 'any evil alignment',
+  armor_class: 17,
+  armor_desc: 'natural armor',
+  hit_points: 135,
+  hit_dice: '18d8+54',
+  speed: { walk: 30 },
+  strength: 11,
+  dexterity: 16,
+  constitution: 16,
+  intelligence: 20,
+  wisdom: 14,
+  charisma: 16,
+  constitution_save: 10,
+  intelligence_save: 12,
+  wisdom_save: 9,
+  skills: { arcana: 19, history: 12, insight: 9, perception: 9 },
+  damage_resistances: 'cold, lightning, necrotic',
+  damage_immunities: 'poison; bludgeoning, piercing, and slashing from nonmagical attacks',
+  condition_immunities: 'charmed, exhaustion, frightened, paralyzed, poisoned',
+  senses: 'truesight 120 ft., passive Perception 19',
+  languages: 'Common plus up to five other languages',
+  challenge_rating: '21',
+  special_abilities: [
+    {
+      name: 'Legendary Resistance (3/Day)',
+      desc: 'If the lich fails a saving throw, it can choose to succeed instead.',
+    },
+    {
+      name: 'Spellcasting',
+      desc:
+        'The lich is an 18th-level spellcaster. Its spellcasting ability is Intelligence (spell save DC 20, +12 to hit with spell attacks). The lich has the following wizard spells prepared:\n\n' +
+        '* Cantrips (at will): mage hand, prestidigitation, ray of frost\n' +
+        '* 1st level (4 slots): detect magic, magic missile, shield, thunderwave\n' +
+        '* 9th level (1 slot): power word kill',
+    },
+  ],
+  actions: [
+    {
+      name: 'Paralyzing Touch',
+      desc: 'Melee Spell Attack: +12 to hit, reach 5 ft., one creature. Hit: 10 (3d6) cold damage. The target must succeed on a DC 18 Constitution saving throw or be paralyzed for 1 minute.',
+    },
+  ],
+  reactions: '',
+  legendary_desc:
+    'The lich can take 3 legendary actions, choosing from the options below. Only one legendary action option can be used at a time and only at the end of another creature\'s turn.',
+  legendary_actions: [
+    { name: 'Cantrip', desc: 'The lich casts a cantrip.' },
+    { name: 'Paralyzing Touch (Costs 2 Actions)', desc: 'The lich uses its Paralyzing Touch.' },
+    { name: 'Frightening Gaze (Costs 2 Actions)', desc: 'The lich fixes its gaze on one creature it can see within 10 feet of it.' },
+  ],
+  document__title: 'Systems Reference Document',
+};
+
+/**
+ * A saved Open5e API page.
+ */
+export const OPEN5E_PAGE = {
+  count: 2,
+  next: null,
+  previous: null,
+  results: [OPEN5E_GOBLIN, OPEN5E_LICH],
+};
+
+// ============================================================================
+// FOUNDRY VTT
+// ============================================================================
+
+/**
+ * Goblin - CR 1/4, Foundry actor. Armor class comes from equipped items
+ * and attacks from item data (descriptions are flavor only).
+ */
+export const FOUNDRY_GOBLIN: FoundryActor = {
+  name: 'Goblin',
+  type: 'npc',
+  system: {
+    abilities: {
+      str: { value: 8, proficient: 0 },
+      dex: { value: 14, proficient: 0 },
+      con: { value: 10, proficient: 0 },
+      int: { value: 10, proficient: 0 },
+      wis: { value: 8, proficient: 0 },
+      cha: { value: 8, proficient: 0 },
+    },
+    attributes: {
+      ac: { flat: null, calc: 'default' },
+      hp: { value: 7, max: 7, formula: '2d6' },
+      movement: { walk: 30, fly: 0, swim: 0, climb: 0, burrow: 0, units: 'ft', hover: false },
+      senses: { darkvision: 60, blindsight: 0, tremorsense: 0, truesight: 0, units: 'ft', special: '' },
+      spellcasting: '',
+    },
+    details: {
+      alignment: 'neutral evil',
+      type: { value: 'humanoid', subtype: 'goblinoid', swarm: '', custom: '' },
+      cr: 0.25,
+      environment: 'forest, hill',
+      source: 'MM pg. 166',
+    },
+    traits: {
+      size: 'sm',
+      di: { value: [], bypasses: [], custom: '' },
+      dr: { value: [], bypasses: [], custom: '' },
+      dv: { value: [], bypasses: [], custom: '' },
+      ci: { value: [], custom: '' },
+      languages: { value: ['common', 'goblin'], custom: '' },
+    },
+    skills: {
+      ste: { value: 2, ability: 'dex' },
+      prc: { value: 0, ability: 'wis' },
+    },
+  },
+  items: [
+    {
+      name: 'Leather Armor',
+      type: 'equipment',
+      system: { armor: { value: 11, type: 'light', dex: null }, equipped: true },
+    },
+    {
+      name: 'Shield',
+      type: 'equipment',
+      system: { armor: { value: 2, type: 'shield', dex: null }, equipped: true },
+    },
+    {
+      name: 'Nimble Escape',
+      type: 'feat',
+      system: {
+        description: { value: '<p>The goblin can take the Disengage or Hide action as a bonus action on each of its turns.</p>' },
+        activation: { type: 'bonus', cost: 1, condition: '' },
+      },
+    },
+    {
+      name: 'Scimitar',
+      type: 'weapon',
+      system: {
+        description: { value: '<p>A curved blade.</p>' },
+        activation: { type: 'action', cost: 1, condition: '' },
+        actionType: 'mwak',
+        attackBonus: '',
+        proficient: true,
+        damage: { parts: [['1d6 + @mod', 'slashing']], versatile: '' },
+        range: { value: 5, long: null, units: 'ft' },
+        properties: ['fin', 'lgt'],
+      },
+    },
+    {
+      name: 'Shortbow',
+      type: 'weapon',
+      system: {
+        description: { value: '' },
+        activation: { type: 'action', cost: 1, condition: '' },
+        actionType: 'rwak',
+        proficient: true,
+        damage: { parts: [['1d6 + @mod', 'piercing']], versatile: '' },
+        range: { value: 80, long: 320, units: 'ft' },
+        properties: { amm: true, two: true },
+      },
+    },
+  ],
+};
+
+/**
+ * Adult Red Dragon - CR 17, Foundry actor with legendary and lair actions.
+ * The bite keeps its SRD stat block text in the description.
+ */
+export const FOUNDRY_RED_DRAGON: FoundryActor = {
+  name: 'Adult Red Dragon',
+  type: 'npc',
+  system: {
+    abilities: {
+      str: { value: 27, proficient: 0 },
+      dex: { value: 10, proficient: 1 },
+      con: { value: 25, proficient: 1 },
+      int: { value: 16, proficient: 0 },
+      wis: { value: 13, proficient: 1 },
+      cha: { value: 21, proficient: 1 },
+    },
+    attributes: {
+      ac: { flat: 19, calc: 'natural' },
+      hp: { value: 256, max: 256, formula: '19d12 + 133' },
+      movement: { walk: 40, fly: 80, climb: 40, units: 'ft', hover: false },
+      senses: { darkvision: 0, blindsight: 60, tremorsense: 0, truesight: 0, units: 'ft', special: '' },
+    },
+    details: {
+      alignment: 'chaotic evil',
+      type: { value: 'dragon', subtype: '', swarm: '', custom: '' },
+      cr: 17,
+      source: { book: 'SRD 5.1', page: '' },
+    },
+    traits: {
+      size: 'huge',
+      di: { value: ['fire'], bypasses: [], custom: '' },
+      ci: { value: [], custom: '' },
+      languages: { value: ['common', 'draconic'], custom: '' },
+    },
+    skills: {
+      prc: { value: 2, ability: 'wis' },
+      ste: { value: 1, ability: 'dex' },
+    },
+    resources: {
+      legact: { value: 3, max: 3 },
+      legres: { value: 3, max: 3 },
+      lair: { value: true, initiative: 20 },
+    },
+  },
+  items: [
+    {
+      name: 'Legendary Resistance',
+      type: 'feat',
+      system: {
+        description: { value: '<p>If the dragon fails a saving throw, it can choose to succeed instead.</p>' },
+        activation: { type: 'special', cost: null, condition: '' },
+        uses: { value: 3, max: '3', per: 'day' },
+      },
+    },
+    {
+      name: 'Legendary Actions',
+      type: 'feat',
+      system: {
+        description: {
+          value:
+            '<p>The dragon can take 3 legendary actions, choosing from the options below. Only one legendary action option can be used at a time and only at the end of another creature&#39;s turn.</p>',
+        },
+        activation: { type: '', cost: null, condition: '' },
+      },
+    },
+    {
+      name: 'Multiattack',
+      type: 'feat',
+      system: {
+        description: {
+          value: '<p>The dragon can use its Frightful Presence. It then makes three attacks: one with its bite and two with its claws.</p>',
+        },
+        activation: { type: 'action', cost: 1, condition: '' },
+      },
+    },
+    {
+      name: 'Bite',
+      type: 'weapon',
+      system: {
+        description: {
+          value:
+            '<p><em>Melee Weapon Attack:</em> +14 to hit, reach 10 ft., one target. <em>Hit:</em> 19 (2d10 + 8) piercing damage plus 7 (2d6) fire damage.</p>',
+        },
+        activation: { type: 'action', cost: 1, condition: '' },
+        actionType: 'mwak',
+        damage: { parts: [['2d10 + @mod', 'piercing'], ['2d6', 'fire']], versatile: '' },
+        range: { value: 10, long: null, units: 'ft' },
+      },
+    },
+    {
+      name: 'Fire Breath',
+      type: 'feat',
+      system: {
+        description: {
+          value:
+            '<p>The dragon exhales fire in a 60-foot cone. Each creature in that area must make a saving throw, taking 63 (18d6) fire damage on a failed save, or half as much damage on a successful one.</p>',
+        },
+        activation: { type: 'action', cost: 1, condition: '' },
+        recharge: { value: 5, charged: true },
+        actionType: 'save',
+        damage: { parts: [['18d6', 'fire']], versatile: '' },
+        save: { ability: 'dex', dc: 21, scaling: 'flat' },
+      },
+    },
+    {
+      name: 'Detect',
+      type: 'feat',
+      system: {
+        description: { value: '<p>The dragon makes a Wisdom (Perception) check.</p>' },
+        activation: { type: 'legendary', cost: 1, condition: '' },
+      },
+    },
+    {
+      name: 'Wing Attack',
+      type: 'feat',
+      system: {
+        description: {
+          value:
+            '<p>The dragon beats its wings. Each creature within 10 feet of the dragon must succeed on a DC 22 Dexterity saving throw or take 15 (2d6 + 8) bludgeoning damage and be knocked &Reference[prone].</p>',
+        },
+        activation: { type: 'legendary', cost: 2, condition: '' },
+      },
+    },
+    {
+      name: 'Magma Eruption',
+      type: 'feat',
+      system: {
+        description: {
+          value:
+            '<p>Magma erupts from a point on the ground the dragon can see within 120 feet of it, creating a 20-foot-high, 5-foot-radius geyser.</p>',
+        },
+        activation: { type: 'lair', cost: 1, condition: '' },
+      },
+    },
+  ],
+};
+
+/**
+ * Cult Fanatic - CR 2, Foundry actor with prepared spells and slots.
+ */
+export const FOUNDRY_CULT_FANATIC: FoundryActor = {
+  name: 'Cult Fanatic',
+  type: 'npc',
+  system: {
+    abilities: {
+      str: { value: 11 },
+      dex: { value: 14 },
+      con: { value: 12 },
+      int: { value: 10 },
+      wis: { value: 13 },
+      cha: { value: 14 },
+    },
+    attributes: {
+      ac: { flat: 13, calc: 'flat' },
+      hp: { value: 33, max: 33, formula: '6d8 + 6' },
+      movement: { walk: 30 },
+      senses: {},
+      spellcasting: 'wis',
+    },
+    details: {
+      alignment: 'any non-good alignment',
+      type: 'humanoid (any race)',
+      cr: 2,
+      spellLevel: 4,
+    },
+    traits: {
+      size: 'med',
+      languages: { value: [], custom: 'any two languages' },
+    },
+    skills: {
+      dec: { value: 1 },
+      per: { value: 1 },
+      rel: { value: 1 },
+    },
+    spells: {
+      spell1: { value: 4, max: 4, override: null },
+      spell2: { value: 3, max: 3, override: null },
+    },
+  },
+  items: [
+    {
+      name: 'Dark Devotion',
+      type: 'feat',
+      system: {
+        description: { value: '<p>The fanatic has advantage on saving throws against being charmed or frightened.</p>' },
+        activation: { type: '', cost: null, condition: '' },
+      },
+    },
+    {
+      name: 'Dagger',
+      type: 'weapon',
+      system: {
+        description: { value: '' },
+        activation: { type: 'action', cost: 1, condition: '' },
+        actionType: 'mwak',
+        damage: { parts: [['1d4 + @mod', 'piercing']], versatile: '' },
+        range: { value: 20, long: 60, units: 'ft' },
+        properties: ['fin', 'lgt', 'thr'],
+      },
+    },
+    {
+      name: 'Parry',
+      type: 'feat',
+      system: {
+        description: { value: '<p>The fanatic adds 2 to its AC against one melee attack that would hit it.</p>' },
+        activation: { type: 'reaction', cost: 1, condition: 'when hit by a melee attack' },
+      },
+    },
+    { name: 'Light', type: 'spell', system: { level: 0, preparation: { mode: 'prepared', prepared: true } } },
+    { name: 'Sacred Flame', type: 'spell', system: { level: 0, preparation: { mode: 'prepared', prepared: true } } },
+    { name: 'Command', type: 'spell', system: { level: 1, preparation: { mode: 'prepared', prepared: true } } },
+    { name: 'Inflict Wounds', type: 'spell', system: { level: 1, preparation: { mode: 'prepared', prepared: true } } },
+    { name: 'Hold Person', type: 'spell', system: { level: 2, preparation: { mode: 'prepared', prepared: true } } },
+    { name: 'Spiritual Weapon', type: 'spell', system: { level: 2, preparation: { mode: 'always', prepared: true } } },
+  ],
+};
+
+/**
+ * Adult Black Dragon - CR 14, Foundry actor exported from dnd5e 4.x.
+ * Activation, attack, save, and damage data live on item activities, and
+ * the breath weapon's recharge is a uses recovery rule.
+ */
+export const FOUNDRY_BLACK_DRAGON_V4: FoundryActor = {
+  name: 'Adult Black Dragon',
+  type: 'npc',
+  system: {
+    abilities: {
+      str: { value: 23, proficient: 0 },
+      dex: { value: 14, proficient: 1 },
+      con: { value: 21, proficient: 1 },
+      int: { value: 14, proficient: 0 },
+      wis: { value: 13, proficient: 1 },
+      cha: { value: 17, proficient: 1 },
+    },
+    attributes: {
+      ac: { flat: 19, calc: 'natural' },
+      hp: { value: 195, max: 195, formula: '17d12 + 85' },
+      movement: { walk: 40, fly: 80, swim: 40, units: 'ft', hover: false },
+      senses: { darkvision: 120, blindsight: 60, units: 'ft', special: '' },
+    },
+    details: {
+      alignment: 'chaotic evil',
+      type: { value: 'dragon', subtype: '', swarm: '', custom: '' },
+      cr: 14,
+      source: { book: 'SRD 5.1', page: '' },
+    },
+    traits: {
+      size: 'huge',
+      di: { value: ['acid'], bypasses: [], custom: '' },
+      languages: { value: ['common', 'draconic'], custom: '' },
+    },
+    resources: {
+      legact: { value: 3, max: 3 },
+      legres: { value: 3, max: 3 },
+    },
+  },
+  items: [
+    {
+      name: 'Amphibious',
+      type: 'feat',
+      system: { description: { value: '<p>The dragon can breathe air and water.</p>' }, activities: {} },
+    },
+    {
+      name: 'Bite',
+      type: 'weapon',
+      system: {
+        description: { value: '' },
+        damage: { base: { number: 2, denomination: 10, bonus: '', types: ['piercing'] } },
+        range: { value: null, long: null, reach: 10, units: 'ft' },
+        properties: [],
+        proficient: 1,
+        activities: {
+          dnd5eactivity000: {
+            type: 'attack',
+            activation: { type: 'action', value: 1, condition: '' },
+            attack: { bonus: '', type: { value: 'melee', classification: 'weapon' } },
+            damage: { includeBase: true, parts: [{ number: 2, denomination: 8, bonus: '', types: ['acid'] }] },
+          },
+        },
+      },
+    },
+    {
+      name: 'Acid Breath',
+      type: 'feat',
+      system: {
+        description: {
+          value:
+            '<p>The dragon exhales acid in a 60-foot line that is 5 feet wide. Each creature in that line takes 54 (12d8) acid damage on a failed save, or half as much damage on a successful one.</p>',
+        },
+        uses: { spent: 0, max: '1', recovery: [{ period: 'recharge', type: 'recoverAll', formula: '5' }] },
+        activities: {
+          dnd5eactivity000: {
+            type: 'save',
+            activation: { type: 'action', value: 1, condition: '' },
+            damage: { parts: [{ number: 12, denomination: 8, bonus: '', types: ['acid'] }] },
+            save: { ability: ['dex'], dc: { calculation: '', formula: '18', value: 18 } },
+          },
+        },
+      },
+    },
+    {
+      name: 'Frightful Presence',
+      type: 'feat',
+      system: {
+        description: {
+          value: '<p>Each creature of the dragon&#39;s choice within 120 feet of it must succeed on a saving throw or become frightened for 1 minute.</p>',
+        },
+        uses: { spent: 0, max: '1', recovery: [{ period: 'lr', type: 'recoverAll' }] },
+        activities: {
+          dnd5eactivity000: {
+            type: 'save',
+            activation: { type: 'bonus', value: 1, condition: '' },
+            save: { ability: ['wis'], dc: { calculation: '', formula: '16', value: 16 } },
+          },
+        },
+      },
+    },
+    {
+      name: 'Tail Attack',
+      type: 'feat',
+      system: {
+        description: { value: '<p>The dragon makes a tail attack.</p>' },
+        activities: { dnd5eactivity000: { type: 'utility', activation: { type: 'legendary', value: 1, condition: '' } } },
+      },
+    },
+    {
+      name: 'Wing Attack',
+      type: 'feat',
+      system: {
+        description: {
+          value:
+            '<p>The dragon beats its wings. Each creature within 10 feet of the dragon must succeed on a DC 19 Dexterity saving throw or take 13 (2d6 + 6) bludgeoning damage and be knocked prone.</p>',
+        },
+        activities: { dnd5eactivity000: { type: 'save', activation: { type: 'legendary', value: 2, condition: '' } } },
+      },
+    },
+  ],
+};
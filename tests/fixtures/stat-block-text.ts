@@ -0,0 +1,295 @@
+/**
+ * Text Stat Block Test Fixtures
+ *
+ * Plain text D&D 5e stat blocks in the 2014 and 2024 (revised) layouts,
+ * as copied from books and PDFs. The 2024 fixtures keep the typographic
+ * minus signs and en dashes found in the source text.
+ *
+ * @module tests/fixtures/stat-block-text
+ * @version 1.0.0
+ */
+
+// ============================================================================
+// 2014 LAYOUT
+// ============================================================================
+
+/**
+ * Goblin - CR 1/4, 2014 layout.
+ */
+export const GOBLIN_2014_TEXT = `
+Goblin
+Small humanoid (goblinoid), neutral evil
+
+Armor Class 15 (leather armor, shield)
+Hit Points 7 (2d6)
+Speed 30 ft.
+
+STR     DEX     CON     INT     WIS     CHA
+8 (-1)  14 (+2) 10 (+0) 10 (+0) 8 (-1)  8 (-1)
+
+Skills Stealth +6
+Senses darkvision 60 ft., passive Perception 9
+Languages Common, Goblin
+Challenge 1/4 (50 XP)
+
+Nimble Escape. The goblin can take the Disengage or Hide action as a bonus action on each of its turns.
+
+Actions
+Scimitar. Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.
+Shortbow. Ranged Weapon Attack: +4 to hit, range 80/320 ft., one target. Hit: 5 (1d6 + 2) piercing damage.
+`;
+
+/**
+ * Adult Red Dragon - CR 17, 2014 layout (abridged).
+ */
+export const ADULT_RED_DRAGON_2014_TEXT = `
+Adult Red Dragon
+Huge dragon, chaotic evil
+
+Armor Class 19 (natural armor)
+Hit Points 256 (19d12 + 133)
+Speed 40 ft., climb 40 ft., fly 80 ft.
+
+STR     DEX     CON     INT     WIS     CHA
+27 (+8) 10 (+0) 25 (+7) 16 (+3) 13 (+1) 21 (+5)
+
+Saving Throws Dex +6, Con +13, Wis +7, Cha +11
+Skills Perception +13, Stealth +6
+Damage Immunities fire
+Senses blindsight 60 ft., darkvision 120 ft., passive Perception 23
+Languages Common, Draconic
+Challenge 17 (18,000 XP)
+
+Legendary Resistance (3/Day). If the dragon fails a saving throw, it can choose to succeed instead.
+
+Actions
+Multiattack. The dragon makes three attacks: one with its bite and two with its claws.
+Bite. Melee Weapon Attack: +14 to hit, reach 10 ft., one target. Hit: 19 (2d10 + 8) piercing damage plus 7 (2d6) fire damage.
+Claw. Melee Weapon Attack: +14 to hit, reach 5 ft., one target. Hit: 15 (2d6 + 8) slashing damage.
+Fire Breath (Recharge 5-6). The dragon exhales fire in a 60-foot cone. Each creature in that area must make a DC 21 Dexterity saving throw, taking 63 (18d6) fire damage on a failed save, or half as much damage on a successful one.
+
+Legendary Actions
+The dragon can take 3 legendary actions, choosing from the options below. Only one legendary action option can be used at a time and only at the end of another creature's turn. The dragon regains spent legendary actions at the start of its turn.
+Detect. The dragon makes a Wisdom (Perception) check.
+Tail Attack. The dragon makes a tail attack.
+Wing Attack (Costs 2 Actions). The dragon beats its wings.
+`;
+
+/**
+ * Balor - CR 19, 2014 layout, with multi-word and multi-sentence traits.
+ */
+export const BALOR_2014_TEXT = `
+Balor
+Huge fiend (demon), chaotic evil
+
+Armor Class 19 (natural armor)
+Hit Points 262 (21d12 + 126)
+Speed 40 ft., fly 80 ft.
+
+STR 26 (+8) DEX 15 (+2) CON 22 (+6) INT 20 (+5) WIS 16 (+3) CHA 22 (+6)
+
+Senses truesight 120 ft., passive Perception 13
+Languages Abyssal, telepathy 120 ft.
+Challenge 19 (22,000 XP)
+
+Death Throes. When the balor dies, it explodes, and each creature within 30 feet of it must make a DC 20 Dexterity saving throw, taking 70 (20d6) fire damage on a failed save, or half as much damage on a successful one.
+Fire Aura. At the start of each of the balor's turns, each creature within 5 feet of it takes 10 (3d6) fire damage, and flammable objects in the aura that aren't being worn or carried ignite. A creature that touches the balor or hits it with a melee attack while within 5 feet of it takes 10 (3d6) fire damage.
+Magic Resistance. The balor has advantage on saving throws against spells and other magical effects.
+
+Actions
+Longsword. Melee Weapon Attack: +14 to hit, reach 10 ft., one target. Hit: 21 (3d8 + 8) slashing damage plus 13 (3d8) lightning damage.
+Whip. Melee Weapon Attack: +14 to hit, reach 30 ft., one target. Hit: 15 (2d6 + 8) slashing damage plus 10 (3d6) fire damage.
+Teleport. The balor magically teleports, along with any equipment it is wearing or carrying, up to 120 feet to an unoccupied space it can see.
+`;
+
+// ============================================================================
+// 2024 LAYOUT
+// ============================================================================
+
+/**
+ * Goblin Warrior - CR 1/4, 2024 layout.
+ */
+export const GOBLIN_WARRIOR_2024_TEXT = `
+Goblin Warrior
+Small Fey (Goblinoid), Chaotic Neutral
+
+AC 15 Initiative +2 (12)
+HP 10 (3d6)
+Speed 30 ft.
+
+MOD SAVE MOD SAVE MOD SAVE
+Str 8 −1 −1 Dex 15 +2 +2 Con 10 +0 +0
+Int 10 +0 +0 Wis 8 −1 −1 Cha 8 −1 −1
+
+Skills Stealth +6
+Gear Leather Armor, Scimitar, Shield, Shortbow
+Senses Darkvision 60 ft.; Passive Perception 9
+Languages Common, Goblin
+CR 1/4 (XP 50; PB +2)
+
+Actions
+Scimitar. Melee Attack Roll: +4, reach 5 ft. Hit: 5 (1d6 + 2) Slashing damage, plus 2 (1d4) Slashing damage if the attack roll had Advantage.
+Shortbow. Ranged Attack Roll: +4, range 80/320 ft. Hit: 5 (1d6 + 2) Piercing damage, plus 2 (1d4) Piercing damage if the attack roll had Advantage.
+
+Bonus Actions
+Nimble Escape. The goblin takes the Disengage or Hide action.
+`;
+
+/**
+ * Adult Red Dragon - CR 17, 2024 layout (abridged).
+ */
+export const ADULT_RED_DRAGON_2024_TEXT = `
+Adult Red Dragon
+Huge Dragon (Chromatic), Chaotic Evil
+
+AC 19 Initiative +12 (22)
+HP 256 (19d12 + 133)
+Speed 40 ft., Climb 40 ft., Fly 80 ft.
+
+MOD SAVE MOD SAVE MOD SAVE
+Str 27 +8 +8 Dex 10 +0 +6 Con 25 +7 +7
+Int 16 +3 +3 Wis 13 +1 +7 Cha 23 +6 +6
+
+Skills Perception +13, Stealth +6
+Immunities Fire; Frightened
+Senses Blindsight 60 ft., Darkvision 120 ft.; Passive Perception 23
+Languages Common, Draconic
+CR 17 (XP 18,000, or 20,000 in lair; PB +6)
+
+Traits
+Legendary Resistance (3/Day, or 4/Day in Lair). If the dragon fails a saving throw, it can choose to succeed instead.
+
+Actions
+Multiattack. The dragon makes three Rend attacks.
+Rend. Melee Attack Roll: +14, reach 10 ft. Hit: 13 (1d8 + 8) Slashing damage plus 5 (2d4) Fire damage.
+Fire Breath (Recharge 5–6). Dexterity Saving Throw: DC 21, each creature in a 60-foot Cone. Failure: 59 (17d6) Fire damage. Success: Half damage.
+
+Legendary Actions
+Legendary Action Uses: 3 (4 in Lair). Immediately after another creature's turn, the dragon can expend a use to take one of the following actions. The dragon regains all expended uses at the start of each of its turns.
+Commanding Presence. The dragon uses Spellcasting to cast Command. The dragon can't take this action again until the start of its next turn.
+Fiery Rays. The dragon uses Spellcasting to cast Scorching Ray. The dragon can't take this action again until the start of its next turn.
+`;
+
+// ============================================================================
+// PDF COPY ARTIFACTS
+// ============================================================================
+
+/**
+ * Goblin as pasted from a PDF: a field value and the CR wrapped onto
+ * their own lines, the ability table flattened one entry per line, a
+ * hyphenated line break, an "fl" ligature, and attack text broken after
+ * the action name.
+ */
+export const GOBLIN_PDF_TEXT = `
+Goblin
+Small humanoid (goblinoid), neutral evil
+Armor Class 15 (leather armor, shield)
+Hit Points
+7 (2d6)
+Speed 30 ft.
+STR
+8 (−1)
+DEX
+14 (+2)
+CON
+10 (+0)
+INT
+10 (+0)
+WIS
+8 (−1)
+CHA
+8 (−1)
+Skills Stealth +6
+Senses darkvision 60 ft.,
+passive Perception 9
+Languages Common, Goblin
+Challenge 1/4
+(50 XP)
+Nimble Escape. The goblin can take the Disengage or Hide ac-
+tion as a bonus action on each of its turns to ﬂee.
+Actions
+Scimitar.
+Melee Weapon Attack: +4 to hit, reach 5 ft., one target.
+Hit: 5 (1d6 + 2) slashing damage.
+`;
+
+/**
+ * Goblin with its actions column pasted beside the stat column.
+ */
+export const GOBLIN_TWO_COLUMN_TEXT = `
+Goblin                                      Actions
+Small humanoid (goblinoid), neutral evil    Scimitar. Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.
+Armor Class 15 (leather armor, shield)      Shortbow. Ranged Weapon Attack: +4 to hit, range 80/320 ft., one target. Hit: 5 (1d6 + 2) piercing damage.
+Hit Points 7 (2d6)
+Speed 30 ft.
+STR     DEX     CON     INT     WIS     CHA
+8 (-1)  14 (+2) 10 (+0) 10 (+0) 8 (-1)  8 (-1)
+Senses darkvision 60 ft., passive Perception 9
+Languages Common, Goblin
+Challenge 1/4 (50 XP)
+`;
+
+// ============================================================================
+// HOMEBREWERY MARKDOWN
+// ============================================================================
+
+/**
+ * Goblin in the legacy Homebrewery / GM Binder blockquote frame, after a
+ * line of brew prose.
+ */
+export const GOBLIN_HOMEBREWERY_MD = `
+The goblins of the Cragmaw tribe are cowards at heart.
+
+___
+> ## Goblin
+>*Small humanoid (goblinoid), neutral evil*
+> ___
+> - **Armor Class** 15 (leather armor, shield)
+> - **Hit Points** 7 (2d6)
+> - **Speed** 30 ft.
+>___
+>|STR|DEX|CON|INT|WIS|CHA|
+>|:---:|:---:|:---:|:---:|:---:|:---:|
+>|8 (-1)|14 (+2)|10 (+0)|10 (+0)|8 (-1)|8 (-1)|
+>___
+> - **Skills** Stealth +6
+> - **Senses** darkvision 60 ft., passive Perception 9
+> - **Languages** Common, Goblin
+> - **Challenge** 1/4 (50 XP)
+> ___
+> ***Nimble Escape.*** The goblin can take the Disengage or Hide action as a bonus action on each of its turns.
+>
+> ### Actions
+> ***Scimitar.*** *Melee Weapon Attack:* +4 to hit, reach 5 ft., one target. *Hit:* 5 (1d6 + 2) slashing damage.
+> ***Shortbow.*** *Ranged Weapon Attack:* +4 to hit, range 80/320 ft., one target. *Hit:* 5 (1d6 + 2) piercing damage.
+`;
+
+/**
+ * Goblin Warrior in the Homebrewery V3 `{{monster}}` block, 2024 layout.
+ */
+export const GOBLIN_WARRIOR_HOMEBREWERY_V3_MD = `
+{{monster,frame
+## Goblin Warrior
+*Small Fey (Goblinoid), Chaotic Neutral*
+___
+**AC** :: 15 **Initiative** :: +2 (12)
+**HP** :: 10 (3d6)
+**Speed** :: 30 ft.
+___
+|   |   |MOD|SAVE|   |   |MOD|SAVE|   |   |MOD|SAVE|
+|:--|:-:|:-:|:--:|:--|:-:|:-:|:--:|:--|:-:|:-:|:--:|
+|Str| 8 | −1 | −1 |Dex| 15|+2|+2|Con|10|+0|+0|
+|Int| 10 | +0 | +0 |Wis| 8|−1|−1|Cha|8|−1|−1|
+___
+**Skills** :: Stealth +6
+**Senses** :: Darkvision 60 ft.; Passive Perception 9
+**Languages** :: Common, Goblin
+**CR** :: 1/4 (XP 50; PB +2)
+:
+### Actions
+***Scimitar.*** *Melee Attack Roll:* +4, reach 5 ft. *Hit:* 5 (1d6 + 2) Slashing damage.
+:
+### Bonus Actions
+***Nimble Escape.*** The goblin takes the Disengage or Hide action.
+}}
+`;
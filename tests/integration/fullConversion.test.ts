@@ -11,6 +11,8 @@ import {
   convertFromStatBlock,
   convertFromText,
   convertFromNaturalLanguage,
+  convertFromAnyText,
+  detectSourceSystem,
   validateStatBlock,
   analyzeSpecializations,
   ConversionResult,
@@ -726,6 +728,102 @@ describe('Natural Language Input Conversion', () => {
   });
 });
 
+// ============================================================================
+// MULTI-SYSTEM INPUT TESTS
+// ============================================================================
+
+describe('Any-System Text Conversion', () => {
+  const dnd5eText = `
+    Goblin
+    Small humanoid (goblinoid), neutral evil
+
+    Armor Class 15 (leather armor, shield)
+    Hit Points 7 (2d6)
+    Speed 30 ft.
+
+    STR 8 (-1) DEX 14 (+2) CON 10 (+0) INT 10 (+0) WIS 8 (-1) CHA 8 (-1)
+
+    Languages Common, Goblin
+    Challenge 1/4 (50 XP)
+
+    Actions
+    Scimitar. Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.
+  `;
+
+  const pf2eText = `
+    Goblin Warrior Creature -1
+    CE Small Goblin Humanoid
+    Perception +2; darkvision
+    Languages Common, Goblin
+    Skills Acrobatics +5, Athletics +2, Stealth +5
+    Str +0, Dex +3, Con +1, Int +0, Wis -1, Cha +1
+    AC 16; Fort +5, Ref +7, Will +3
+    HP 6
+    Speed 25 feet
+    Melee [one-action] dogslicer +7 (agile, finesse), Damage 1d6 slashing
+  `;
+
+  const osrText = `
+    Goblin
+    AC 6 [13], HD 1-1, Att 1 × weapon (1d6),
+    THAC0 19 [+0], MV 60' (20'), SV D14 W15 P16 B17 S18,
+    ML 7, AL Chaotic, XP 5
+  `;
+
+  it('should detect D&D 5e stat blocks', () => {
+    const detection = detectSourceSystem(dnd5eText);
+    expect(detection.system).toBe('D&D 5e');
+    expect(detection.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should detect Pathfinder 2e stat blocks', () => {
+    const detection = detectSourceSystem(pf2eText);
+    expect(detection.system).toBe('Pathfinder 2e');
+    expect(detection.indicators).toContain('Creature level');
+  });
+
+  it('should detect OSR stat blocks', () => {
+    const detection = detectSourceSystem(osrText);
+    expect(detection.system).toBe('OSR');
+    expect(detection.indicators).toContain('THAC0');
+  });
+
+  it('should fall back to D&D 5e with zero confidence for unknown text', () => {
+    const detection = detectSourceSystem('A menacing shadow lurks here.');
+    expect(detection.system).toBe('D&D 5e');
+    expect(detection.confidence).toBe(0);
+  });
+
+  it('should convert each system and record the source', () => {
+    const cases: Array<[string, string]> = [
+      [dnd5eText, 'D&D 5e'],
+      [pf2eText, 'Pathfinder 2e'],
+      [osrText, 'OSR'],
+    ];
+
+    for (const [text, system] of cases) {
+      const result = convertFromAnyText(text);
+      expect(assertValidAdversary(result.adversary).isValid).toBe(true);
+      expect(result.sourceSystem).toBe(system);
+      expect(result.adversary.sourceSystem).toBe(system);
+      expect(result.detection?.system).toBe(system);
+      expect(result.adversary.tier).toBe(Tier.ONE);
+    }
+  });
+
+  it('should log detection in the conversion log', () => {
+    const result = convertFromAnyText(osrText);
+    expect(result.conversionLog[0]).toBe('Step 1: Detecting source system');
+    expect(result.conversionLog.some((line) => line.includes('Detected: OSR'))).toBe(true);
+  });
+
+  it('should record D&D 5e as the source for other entry points', () => {
+    const result = convertFromStatBlock(GOBLIN);
+    expect(result.sourceSystem).toBe('D&D 5e');
+    expect(result.detection).toBeUndefined();
+  });
+});
+
 // ============================================================================
 // EDGE CASE TESTS
 // ============================================================================
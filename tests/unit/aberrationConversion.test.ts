@@ -0,0 +1,250 @@
+/**
+ * Aberration and Psionic Conversion Unit Tests
+ *
+ * Tests subtype detection, eye rays and die-roll tables as single Fear
+ * features, mind blasts and mind control with Disoriented and Charmed,
+ * psionic innate casting, and the features and tags in full conversions.
+ * The Aboleth and Gibbering Mouther are SRD creatures; the Eye Tyrant and
+ * Mind Reaver are original stand-ins for the non-SRD beholder and mind flayer.
+ *
+ * @module tests/unit/aberrationConversion.test
+ */
+
+import { parseStatBlock } from '../../src/parsers/statBlockParser';
+import {
+  convertAberration,
+  detectAberrationSubtype,
+  isAberrationOrPsionic,
+} from '../../src/converters/aberrationConversion';
+import { convertFromText } from '../../src/orchestrator/converter';
+import { CreatureType } from '../../src/models/dnd5e';
+import { Attribute, Condition, FeatureCostType } from '../../src/models/daggerheart';
+import { createMockStatBlock } from '../helpers/testUtils';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const ABOLETH_TEXT = `
+Aboleth
+Large aberration, lawful evil
+
+Armor Class 17 (natural armor)
+Hit Points 135 (18d10 + 36)
+Speed 10 ft., swim 40 ft.
+
+STR 21 (+5) DEX 9 (-1) CON 15 (+2) INT 18 (+4) WIS 15 (+2) CHA 18 (+4)
+
+Saving Throws Con +6, Int +8, Wis +6
+Skills History +12, Perception +10
+Senses darkvision 120 ft., passive Perception 20
+Languages Deep Speech, telepathy 120 ft.
+Challenge 10 (5,900 XP)
+
+Amphibious. The aboleth can breathe air and water.
+Probing Telepathy. If a creature communicates telepathically with the aboleth, the aboleth learns the creature's greatest desires if the aboleth can see the creature.
+
+Actions
+Multiattack. The aboleth makes three tentacle attacks.
+Tentacle. Melee Weapon Attack: +9 to hit, reach 10 ft., one target. Hit: 12 (2d6 + 5) bludgeoning damage. If the target is a creature, it must succeed on a DC 14 Constitution saving throw or become diseased.
+Tail. Melee Weapon Attack: +9 to hit, reach 10 ft. one target. Hit: 15 (3d6 + 5) bludgeoning damage.
+Enslave (3/Day). The aboleth targets one creature it can see within 30 feet of it. The target must succeed on a DC 14 Wisdom saving throw or be magically charmed by the aboleth until the aboleth dies or until it is on a different plane of existence from the target. The charmed target is under the aboleth's control and can't take reactions, and the aboleth and the target can communicate telepathically with each other over any distance. Whenever the charmed target takes damage, the target can repeat the saving throw. On a success, the effect ends. No more than once every 24 hours, the target can also repeat the saving throw when it is at least 1 mile away from the aboleth.
+`;
+
+const GIBBERING_MOUTHER_TEXT = `
+Gibbering Mouther
+Medium aberration, neutral
+
+Armor Class 9
+Hit Points 67 (9d8 + 27)
+Speed 10 ft., swim 10 ft.
+
+STR 10 (+0) DEX 8 (-1) CON 16 (+3) INT 3 (-4) WIS 10 (+0) CHA 6 (-2)
+
+Condition Immunities prone
+Senses darkvision 60 ft., passive Perception 10
+Languages —
+Challenge 2 (450 XP)
+
+Aberrant Ground. The ground in a 10-foot radius around the mouther is doughlike difficult terrain. Each creature that starts its turn in that area must succeed on a DC 10 Strength saving throw or have its speed reduced to 0 until the start of its next turn.
+Gibbering. The mouther babbles incoherently while it can see any creature and isn't incapacitated. Each creature that starts its turn within 20 feet of the mouther and can hear the gibbering must succeed on a DC 10 Wisdom saving throw. On a failure, the creature can't take reactions until the start of its next turn and rolls a d8 to determine what it does during its turn. On a 1 to 4, the creature does nothing. On a 5 or 6, the creature takes no action or bonus action and uses all its movement to move in a randomly determined direction. On a 7 or 8, the creature makes a melee attack against a randomly determined creature within its reach or does nothing if it can't make such an attack.
+
+Actions
+Multiattack. The gibbering mouther makes one bite attack and, if it can, uses its Blinding Spittle.
+Bites. Melee Weapon Attack: +2 to hit, reach 5 ft., one creature. Hit: 17 (5d6) piercing damage. If the target is Medium or smaller, it must succeed on a DC 10 Strength saving throw or be knocked prone. If the target is killed by this damage, it is absorbed into the mouther.
+`;
+
+const EYE_TYRANT_TEXT = `
+Eye Tyrant
+Large aberration, lawful evil
+
+Armor Class 18 (natural armor)
+Hit Points 180 (19d10 + 76)
+Speed 0 ft., fly 20 ft. (hover)
+
+STR 10 (+0) DEX 14 (+2) CON 18 (+4) INT 17 (+3) WIS 15 (+2) CHA 17 (+3)
+
+Condition Immunities prone
+Senses darkvision 120 ft., passive Perception 22
+Languages Deep Speech, Undercommon
+Challenge 13 (10,000 XP)
+
+Unblinking. The eye tyrant can't be surprised.
+
+Actions
+Bite. Melee Weapon Attack: +5 to hit, reach 5 ft., one target. Hit: 14 (4d6) piercing damage.
+Eye Rays. The eye tyrant fires three of the following rays at random, choosing one to three targets it can see within 120 feet of it:
+1. Charm Ray. The target must succeed on a DC 16 Wisdom saving throw or be charmed by the eye tyrant for 1 hour.
+2. Fear Ray. The target must succeed on a DC 16 Wisdom saving throw or be frightened for 1 minute.
+3. Scorching Ray. The target must make a DC 16 Dexterity saving throw, taking 36 (8d8) fire damage on a failed save, or half as much on a success.
+4. Binding Ray. The target must succeed on a DC 16 Strength saving throw or be restrained for 1 minute.
+5. Withering Ray. The target must make a DC 16 Constitution saving throw, taking 45 (10d8) necrotic damage on a failed save, or half as much on a success.
+6. Confusion Ray. The target must succeed on a DC 16 Charisma saving throw or be stunned until the end of its next turn.
+`;
+
+const MIND_REAVER_TEXT = `
+Mind Reaver
+Medium aberration, lawful evil
+
+Armor Class 15 (breastplate)
+Hit Points 71 (13d8 + 13)
+Speed 30 ft.
+
+STR 11 (+0) DEX 12 (+1) CON 12 (+1) INT 19 (+4) WIS 17 (+3) CHA 17 (+3)
+
+Senses darkvision 120 ft., passive Perception 16
+Languages Deep Speech, Undercommon, telepathy 120 ft.
+Challenge 7 (2,900 XP)
+
+Magic Resistance. The reaver has advantage on saving throws against spells and other magical effects.
+Innate Spellcasting (Psionics). The reaver's innate spellcasting ability is Intelligence (spell save DC 15). It can innately cast the following spells, requiring no components:
+At will: detect thoughts, levitate
+1/day each: dominate monster, plane shift (self only)
+
+Actions
+Tentacles. Melee Weapon Attack: +7 to hit, reach 5 ft., one creature. Hit: 15 (2d10 + 4) psychic damage.
+Mind Blast (Recharge 5-6). The reaver unleashes a wave of psychic force in a 60-foot cone. Each creature in that area must succeed on a DC 15 Intelligence saving throw or take 22 (4d8 + 4) psychic damage and be stunned for 1 minute. A creature can repeat the saving throw at the end of each of its turns, ending the effect on itself on a success.
+`;
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+describe('detectAberrationSubtype', () => {
+  it('reads the name and falls back to the signature ability', () => {
+    expect(detectAberrationSubtype(parseStatBlock(ABOLETH_TEXT))).toBe('aboleth');
+    expect(detectAberrationSubtype(parseStatBlock(EYE_TYRANT_TEXT))).toBe('beholder');
+    expect(detectAberrationSubtype(parseStatBlock(MIND_REAVER_TEXT))).toBe('illithid');
+    expect(detectAberrationSubtype(parseStatBlock(GIBBERING_MOUTHER_TEXT))).toBe('generic_aberration');
+  });
+
+  it('applies to aberrations and psionic casters only', () => {
+    const psionicHumanoid = createMockStatBlock({
+      traits: [
+        {
+          name: 'Innate Spellcasting (Psionics)',
+          description: 'Its innate spellcasting ability is Wisdom (spell save DC 13). At will: mage hand',
+        },
+      ],
+    });
+
+    expect(isAberrationOrPsionic(psionicHumanoid)).toBe(true);
+    expect(isAberrationOrPsionic(createMockStatBlock({ creatureType: CreatureType.BEAST }))).toBe(false);
+    expect(convertAberration(createMockStatBlock()).thematicFeatures).toEqual([]);
+  });
+});
+
+// ============================================================================
+// FEATURE CONVERSION
+// ============================================================================
+
+describe('convertAberration', () => {
+  it('folds eye rays into one Fear-costed random table', () => {
+    const result = convertAberration(parseStatBlock(EYE_TYRANT_TEXT));
+    const rays = result.thematicFeatures.find((f) => f.name === 'Eye Rays');
+
+    expect(result.replacedFeatures).toEqual(['Eye Rays']);
+    expect(rays?.cost).toEqual({ type: FeatureCostType.FEAR, amount: 1 });
+    expect(rays?.target).toBe('Up to 3 targets within Very Far range');
+    expect(rays?.description).toContain('Roll a d6 for each ray');
+    expect(rays?.description).toContain('1. Charm Ray: An Instinct Reaction Roll (16) or become Charmed');
+    expect(rays?.description).toContain('3. Scorching Ray: An Agility Reaction Roll (16) or take 4d8 magic damage (half on a success)');
+    expect(rays?.description).toContain('6. Confusion Ray: A Presence Reaction Roll (16) or become Incapacitated');
+    expect(rays?.appliedConditions).toEqual([
+      Condition.CHARMED,
+      Condition.FRIGHTENED,
+      Condition.RESTRAINED,
+      Condition.INCAPACITATED,
+    ]);
+  });
+
+  it('turns a die-roll effect table into a Disorienting Fear action', () => {
+    const result = convertAberration(parseStatBlock(GIBBERING_MOUTHER_TEXT));
+    const gibbering = result.thematicFeatures.find((f) => f.name === 'Gibbering');
+
+    expect(gibbering?.cost).toEqual({ type: FeatureCostType.FEAR, amount: 1 });
+    expect(gibbering?.reactionRollAttribute).toBe(Attribute.INSTINCT);
+    expect(gibbering?.reactionRollDifficulty).toBe(13);
+    expect(gibbering?.appliedConditions).toEqual([Condition.DISORIENTED]);
+    expect(gibbering?.description).toContain('within Close range');
+    expect(gibbering?.description).toContain('roll a d8');
+    expect(gibbering?.description).toContain('1–4: the creature does nothing; 5–6:');
+  });
+
+  it('makes Enslave a Fear-costed Charm with an Instinct roll', () => {
+    const result = convertAberration(parseStatBlock(ABOLETH_TEXT));
+    const enslave = result.thematicFeatures.find((f) => f.name === 'Enslave');
+
+    expect(enslave?.cost).toEqual({ type: FeatureCostType.FEAR, amount: 1 });
+    expect(enslave?.reactionRollAttribute).toBe(Attribute.INSTINCT);
+    expect(enslave?.reactionRollDifficulty).toBe(15);
+    expect(enslave?.appliedConditions).toEqual([Condition.CHARMED]);
+    expect(enslave?.target).toBe('One target within Close range');
+    expect(enslave?.description).toContain('Whenever they take damage, they can repeat the roll');
+  });
+
+  it('converts mind blasts and psionic casting', () => {
+    const result = convertAberration(parseStatBlock(MIND_REAVER_TEXT));
+    const blast = result.thematicFeatures.find((f) => f.name === 'Mind Blast');
+    const psionics = result.thematicFeatures.find((f) => f.name === 'Psionics');
+    const dominate = result.thematicFeatures.find((f) => f.name === 'Dominate');
+
+    expect(result.isPsionic).toBe(true);
+    expect(blast?.cost).toEqual({ type: FeatureCostType.STRESS, amount: 1 });
+    expect(blast?.reactionRollAttribute).toBe(Attribute.INSTINCT);
+    expect(blast?.appliedConditions).toEqual([Condition.DISORIENTED]);
+    expect(blast?.damage?.diceCount).toBe(4);
+    expect(blast?.description).toContain('Each target in front of it within Far range');
+    expect(psionics?.description).toContain('Spells: detect thoughts, levitate (at will); dominate monster, plane shift (1/day each).');
+    expect(dominate?.appliedConditions).toEqual([Condition.CHARMED]);
+    expect(dominate?.reactionRollDifficulty).toBe(15);
+  });
+});
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+describe('aberration conversions', () => {
+  it('replaces generic features with the specialized ones', () => {
+    const { adversary } = convertFromText(MIND_REAVER_TEXT);
+    const names = adversary.features.map((f) => f.name);
+
+    expect(names).toContain('Psionics');
+    expect(names).toContain('Dominate');
+    expect(names).not.toContain('Innate Spellcasting');
+    expect(names.filter((name) => name === 'Mind Blast')).toHaveLength(1);
+    expect(adversary.tags).toContain('illithid');
+    expect(adversary.tags).toContain('psionic');
+  });
+
+  it('leads with subtype motives', () => {
+    const { adversary } = convertFromText(ABOLETH_TEXT);
+
+    expect(adversary.motivesAndTactics.phrases.slice(0, 2)).toEqual([
+      'Reclaim a lost empire',
+      'Enslave surface dwellers',
+    ]);
+    expect(adversary.tags).toContain('aboleth');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * CLI Unit Tests
+ *
+ * Tests `dh-convert` argument parsing and batch conversion against an
+ * in-memory file system: input detection, output files, validation
+ * strictness, and exit codes.
+ *
+ * @module tests/unit/cli.test
+ */
+
+import { parseCliArgs } from '../../src/cli/args';
+import { runCli, CliIO, EXIT_FAILURE, EXIT_SUCCESS, EXIT_USAGE } from '../../src/cli/dhConvert';
+import { GOBLIN, WOLF } from '../fixtures/srd-monsters';
+import { FIVETOOLS_FILE, FOUNDRY_RED_DRAGON, OPEN5E_PAGE } from '../fixtures/monster-json';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const GOBLIN_TEXT = `
+Goblin
+Small humanoid (goblinoid), neutral evil
+
+Armor Class 15 (leather armor, shield)
+Hit Points 7 (2d6)
+Speed 30 ft.
+
+STR     DEX     CON     INT     WIS     CHA
+8 (-1)  14 (+2) 10 (+0) 10 (+0) 8 (-1)  8 (-1)
+
+Skills Stealth +6
+Challenge 1/4 (50 XP)
+
+Actions
+Scimitar. Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.
+`;
+
+interface MemoryIO extends CliIO {
+  files: Map<string, string>;
+  out: string[];
+  err: string[];
+}
+
+function createMemoryIO(files: Record<string, string>, stdin = ''): MemoryIO {
+  const io: MemoryIO = {
+    files: new Map(Object.entries(files)),
+    out: [],
+    err: [],
+    readFile: (filePath) => {
+      const content = io.files.get(filePath);
+      if (content === undefined) {
+        throw new Error(`ENOENT: no such file '${filePath}'`);
+      }
+      return content;
+    },
+    readStdin: () => stdin,
+    writeFile: (filePath, content) => {
+      io.files.set(filePath, content);
+    },
+    makeDir: () => undefined,
+    stdout: (text) => {
+      io.out.push(text);
+    },
+    stderr: (text) => {
+      io.err.push(text);
+    },
+  };
+  return io;
+}
+
+// ============================================================================
+// ARGUMENT PARSING TESTS
+// ============================================================================
+
+describe('parseCliArgs', () => {
+  it('should map flags to conversion and Markdown options', () => {
+    const options = parseCliArgs([
+      'a.txt',
+      '-o',
+      'out',
+      '--format=both',
+      '--no-design-notes',
+      '--loot',
+      '--repair-ocr',
+      '--header-level',
+      '2',
+      '--no-description',
+      'b.json',
+    ]);
+
+    expect(options.inputs).toEqual(['a.txt', 'b.json']);
+    expect(options.outDir).toBe('out');
+    expect(options.conversion).toEqual({
+      outputFormat: 'both',
+      includeDesignNotes: false,
+      includeLoot: true,
+      repairOcr: true,
+      markdownOptions: { headerLevel: 2, includeDescription: false },
+    });
+    expect(options.validation).toBe('lenient');
+  });
+
+  it('should reject unknown options and invalid values', () => {
+    expect(() => parseCliArgs(['--bogus'])).toThrow('Unknown option --bogus');
+    expect(() => parseCliArgs(['--format', 'pdf'])).toThrow('Invalid format');
+    expect(() => parseCliArgs(['--validation', 'loose'])).toThrow('Invalid validation mode');
+    expect(() => parseCliArgs(['--out-dir'])).toThrow('requires a value');
+  });
+});
+
+// ============================================================================
+// COMMAND TESTS
+// ============================================================================
+
+describe('runCli', () => {
+  it('should write Markdown and JSON per creature to the output directory', () => {
+    const io = createMemoryIO({
+      'goblin.txt': GOBLIN_TEXT,
+      'pack.json': JSON.stringify([WOLF, GOBLIN]),
+    });
+
+    const code = runCli(['goblin.txt', 'pack.json', '-o', 'out', '-f', 'both'], io);
+
+    expect(code).toBe(EXIT_SUCCESS);
+    expect(io.files.get('out/wolf.md')).toContain('# Wolf');
+    expect(io.files.has('out/goblin.md')).toBe(true);
+    expect(io.files.has('out/goblin-2.md')).toBe(true);
+    expect(JSON.parse(io.files.get('out/wolf.json')!).adversary.name).toBe('Wolf');
+    expect(io.err.join('')).toContain('Converted 3 of 3 creatures');
+  });
+
+  it('should import 5etools, Open5e, and Foundry VTT JSON files', () => {
+    const io = createMemoryIO({
+      'bestiary.json': JSON.stringify(FIVETOOLS_FILE),
+      'open5e.json': JSON.stringify(OPEN5E_PAGE),
+      'fvtt-Actor-dragon.json': JSON.stringify(FOUNDRY_RED_DRAGON),
+    });
+
+    const code = runCli(['bestiary.json', 'open5e.json', 'fvtt-Actor-dragon.json', '-o', 'out'], io);
+
+    expect(code).toBe(EXIT_SUCCESS);
+    expect(io.files.get('out/adult-black-dragon.md')).toContain('# Adult Black Dragon');
+    expect(io.files.has('out/lich.md')).toBe(true);
+    expect(io.files.get('out/adult-red-dragon.md')).toContain('# Adult Red Dragon');
+    expect(io.err.join('')).toContain('Converted 6 of 6 creatures');
+  });
+
+  it('should read stdin and print to stdout when no files are given', () => {
+    const io = createMemoryIO({}, GOBLIN_TEXT);
+
+    expect(runCli([], io)).toBe(EXIT_SUCCESS);
+    expect(io.out.join('')).toContain('# Goblin');
+  });
+
+  it('should keep converting and exit non-zero when an input fails', () => {
+    const io = createMemoryIO({ 'goblin.txt': GOBLIN_TEXT, 'broken.json': '{"name": "Nothing"}' });
+
+    const code = runCli(['missing.txt', 'broken.json', 'goblin.txt', '-o', 'out'], io);
+    const errors = io.err.join('');
+
+    expect(code).toBe(EXIT_FAILURE);
+    expect(io.files.has('out/goblin.md')).toBe(true);
+    expect(errors).toContain('missing.txt: error');
+    expect(errors).toContain('Missing required field: challengeRating');
+    expect(errors).toContain('Converted 1 of 3 creatures (2 failed)');
+  });
+
+  it('should report an output directory that cannot be created', () => {
+    const io: MemoryIO = {
+      ...createMemoryIO({ 'goblin.txt': GOBLIN_TEXT }),
+      makeDir: () => {
+        throw new Error('EACCES: permission denied');
+      },
+    };
+
+    expect(runCli(['goblin.txt', '-o', 'locked'], io)).toBe(EXIT_FAILURE);
+    expect(io.err.join('')).toContain('locked: error: EACCES: permission denied');
+    expect(io.files.size).toBe(1);
+  });
+
+  it('should count a creature as failed when its output file cannot be written', () => {
+    const io = createMemoryIO({ 'goblin.txt': GOBLIN_TEXT });
+    io.writeFile = () => {
+      throw new Error('ENOSPC: no space left on device');
+    };
+
+    expect(runCli(['goblin.txt', '-o', 'out'], io)).toBe(EXIT_FAILURE);
+    expect(io.err.join('')).toContain('out/goblin.md: error: ENOSPC: no space left on device');
+    expect(io.err.join('')).toContain('Converted 0 of 1 creature (1 failed)');
+  });
+
+  it('should reject JSON entries that are not stat block objects', () => {
+    const io = createMemoryIO({ 'mixed.json': JSON.stringify([GOBLIN, null, 'wolf']) });
+
+    expect(runCli(['mixed.json'], io)).toBe(EXIT_FAILURE);
+    expect(io.err.join('')).toContain('mixed.json[1]: error: expected a stat block object, got null');
+    expect(io.err.join('')).toContain('mixed.json[2]: error: expected a stat block object, got string');
+    expect(io.out.join('')).toContain('# Goblin');
+  });
+
+  it('should fail on validation errors unless validation is off', () => {
+    const files = { 'goblin.json': JSON.stringify({ ...GOBLIN, name: ' ' }) };
+    const io = createMemoryIO(files);
+
+    expect(runCli(['goblin.json'], io)).toBe(EXIT_FAILURE);
+    expect(io.err.join('')).toContain('failed lenient validation');
+    expect(runCli(['goblin.json', '--validation', 'off'], createMemoryIO(files))).toBe(EXIT_SUCCESS);
+  });
+
+  it('should return the usage exit code for bad arguments', () => {
+    const io = createMemoryIO({});
+
+    expect(runCli(['--format', 'pdf'], io)).toBe(EXIT_USAGE);
+    expect(io.err.join('')).toContain('dh-convert --help');
+  });
+
+  it('should print usage for --help', () => {
+    const io = createMemoryIO({});
+
+    expect(runCli(['--help'], io)).toBe(EXIT_SUCCESS);
+    expect(io.out.join('')).toContain('Usage: dh-convert');
+  });
+});
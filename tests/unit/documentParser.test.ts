@@ -0,0 +1,148 @@
+/**
+ * Document Parser Unit Tests
+ *
+ * Tests locating stat blocks in long texts: block boundaries and line
+ * ranges, trailing prose, leftovers, per-block errors, and converting a
+ * whole document into a bestiary.
+ *
+ * @module tests/unit/documentParser.test
+ */
+
+import { parseDocument } from '../../src/parsers/documentParser';
+import { convertDocument } from '../../src/orchestrator/converter';
+import {
+  GOBLIN_2014_TEXT,
+  ADULT_RED_DRAGON_2014_TEXT,
+  GOBLIN_WARRIOR_2024_TEXT,
+} from '../fixtures/stat-block-text';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const lineCount = (text: string): number => text.trim().split('\n').length;
+
+/** An adventure chapter with prose around three stat blocks. */
+const CHAPTER = [
+  'Chapter 3: Cragmaw Hideout',
+  '',
+  'The goblins lurk near the entrance. Two of them keep watch.',
+  '',
+  GOBLIN_2014_TEXT.trim(),
+  '',
+  'Area 2. The dragon sleeps on a pile of coins.',
+  '',
+  ADULT_RED_DRAGON_2014_TEXT.trim(),
+  '',
+  GOBLIN_WARRIOR_2024_TEXT.trim(),
+  '',
+  'Treasure',
+  '',
+  'The hoard holds 2,000 gp.',
+].join('\n');
+
+const GOBLIN_START = 5;
+const DRAGON_START = GOBLIN_START + lineCount(GOBLIN_2014_TEXT) + 3;
+const WARRIOR_START = DRAGON_START + lineCount(ADULT_RED_DRAGON_2014_TEXT) + 1;
+
+/** A stat block cut off before its Hit Points, followed by a goblin. */
+const TORN_PAGE = [
+  'Torn Page',
+  'Large beast, unaligned',
+  'Armor Class 12',
+  'Challenge 1 (200 XP)',
+  '',
+  'The rest of the page is missing.',
+  '',
+  GOBLIN_2014_TEXT.trim(),
+].join('\r\n');
+
+// ============================================================================
+// parseDocument
+// ============================================================================
+
+describe('parseDocument', () => {
+  it('finds every stat block with its line range', () => {
+    const { blocks } = parseDocument(CHAPTER);
+
+    expect(blocks.map((block) => block.name)).toEqual(['Goblin', 'Adult Red Dragon', 'Goblin Warrior']);
+    expect(blocks[0]?.startLine).toBe(GOBLIN_START);
+    expect(blocks[0]?.endLine).toBe(GOBLIN_START + lineCount(GOBLIN_2014_TEXT) - 1);
+    expect(blocks[1]?.startLine).toBe(DRAGON_START);
+    expect(blocks[1]?.endLine).toBe(DRAGON_START + lineCount(ADULT_RED_DRAGON_2014_TEXT) - 1);
+    expect(blocks[2]?.startLine).toBe(WARRIOR_START);
+  });
+
+  it('parses each block in its own layout', () => {
+    const { blocks } = parseDocument(CHAPTER);
+
+    expect(blocks.map((block) => block.layout)).toEqual(['2014', '2014', '2024']);
+    expect(blocks.every((block) => block.errors.length === 0)).toBe(true);
+    expect(blocks[1]?.result?.legendaryActions?.actions.length).toBeGreaterThan(0);
+    expect(blocks[0]?.text).toBe(GOBLIN_2014_TEXT.trim());
+  });
+
+  it('returns prose outside stat blocks as leftovers', () => {
+    const { leftovers } = parseDocument(CHAPTER);
+
+    expect(leftovers.map((leftover) => leftover.text)).toEqual([
+      'Chapter 3: Cragmaw Hideout\n\nThe goblins lurk near the entrance. Two of them keep watch.',
+      'Area 2. The dragon sleeps on a pile of coins.',
+      'Treasure\n\nThe hoard holds 2,000 gp.',
+    ]);
+    expect(leftovers[0]?.startLine).toBe(1);
+    expect(leftovers[0]?.endLine).toBe(3);
+    expect(leftovers[1]?.startLine).toBe(DRAGON_START - 2);
+  });
+
+  it('keeps errors on the block that failed without losing the others', () => {
+    const { blocks, leftovers } = parseDocument(TORN_PAGE);
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]?.name).toBe('Torn Page');
+    expect(blocks[0]?.result).toBeUndefined();
+    expect(blocks[0]?.errors).toContain('Could not parse Hit Points');
+    expect(blocks[0]?.endLine).toBe(4);
+    expect(blocks[1]?.result?.name).toBe('Goblin');
+    expect(blocks[1]?.startLine).toBe(8);
+    expect(leftovers).toEqual([{ startLine: 6, endLine: 6, text: 'The rest of the page is missing.' }]);
+  });
+
+  it('returns the whole text as a leftover when there are no stat blocks', () => {
+    const { blocks, leftovers } = parseDocument('Just a story.\n\nNo monsters here.\n');
+
+    expect(blocks).toHaveLength(0);
+    expect(leftovers).toHaveLength(1);
+    expect(leftovers[0]?.endLine).toBe(3);
+  });
+});
+
+// ============================================================================
+// convertDocument
+// ============================================================================
+
+describe('convertDocument', () => {
+  it('converts every block into a bestiary', () => {
+    const bestiary = convertDocument(CHAPTER);
+
+    expect(bestiary.adversaries.map((adversary) => adversary.name)).toEqual([
+      'Goblin',
+      'Adult Red Dragon',
+      'Goblin Warrior',
+    ]);
+    expect(bestiary.markdown).toContain('## Goblin\n');
+    expect(bestiary.markdown).toContain('## Adult Red Dragon\n');
+    expect(bestiary.markdown?.split('\n\n---\n\n').length).toBeGreaterThanOrEqual(3);
+    expect(bestiary.leftovers).toHaveLength(3);
+  });
+
+  it('records each entry line range and failures', () => {
+    const bestiary = convertDocument(TORN_PAGE, { outputFormat: 'json' });
+
+    expect(bestiary.markdown).toBeUndefined();
+    expect(bestiary.adversaries).toHaveLength(1);
+    expect(bestiary.entries[0]?.result).toBeUndefined();
+    expect(bestiary.entries[0]?.errors).toContain('Could not parse Hit Points');
+    expect(bestiary.entries[1]?.result?.conversionLog[0]).toBe('Parsed from document lines 8-27');
+  });
+});
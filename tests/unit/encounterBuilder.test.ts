@@ -0,0 +1,152 @@
+/**
+ * Encounter Builder Unit Tests
+ *
+ * Tests Battle Point budgeting, adversary pricing, budget adjustments,
+ * and warnings for over-budget or lopsided encounters.
+ *
+ * @module tests/unit/encounterBuilder.test
+ */
+
+import {
+  buildEncounter,
+  calculateAdversaryCost,
+  summarizeEncounter,
+} from '../../src/encounters/encounterBuilder';
+import { EncounterDifficulty, calculateBaseBattlePoints } from '../../src/models/encounter';
+import { AdversaryType, DaggerheartAdversary, Tier } from '../../src/models/daggerheart';
+import { convertFromStatBlock } from '../../src/orchestrator/converter';
+import { GOBLIN } from '../fixtures/srd-monsters';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const BASE_ADVERSARY = convertFromStatBlock(GOBLIN).adversary;
+
+function makeAdversary(name: string, type: AdversaryType, tier: Tier = Tier.ONE): DaggerheartAdversary {
+  return { ...BASE_ADVERSARY, name, type, tier };
+}
+
+const OGRE = makeAdversary('Ogre', AdversaryType.BRUISER);
+const GRUNT = makeAdversary('Goblin Grunt', AdversaryType.MINION);
+const ARCHER = makeAdversary('Goblin Archer', AdversaryType.RANGED);
+const CAPTAIN = makeAdversary('Goblin Captain', AdversaryType.LEADER);
+const DRAGON = makeAdversary('Young Dragon', AdversaryType.SOLO);
+const WYRM = makeAdversary('Cave Wyrm', AdversaryType.SOLO);
+
+// ============================================================================
+// PRICING TESTS
+// ============================================================================
+
+describe('Battle Point pricing', () => {
+  it('should calculate the base budget from party size', () => {
+    expect(calculateBaseBattlePoints(2)).toBe(8);
+    expect(calculateBaseBattlePoints(4)).toBe(14);
+    expect(calculateBaseBattlePoints(6)).toBe(20);
+  });
+
+  it('should price adversaries by type', () => {
+    expect(calculateAdversaryCost(AdversaryType.STANDARD, 1, 4)).toBe(2);
+    expect(calculateAdversaryCost(AdversaryType.LEADER, 1, 4)).toBe(3);
+    expect(calculateAdversaryCost(AdversaryType.BRUISER, 2, 4)).toBe(8);
+    expect(calculateAdversaryCost(AdversaryType.SOLO, 1, 4)).toBe(5);
+    expect(calculateAdversaryCost(AdversaryType.SOCIAL, 1, 4)).toBe(1);
+  });
+
+  it('should price Minions per party-sized group', () => {
+    expect(calculateAdversaryCost(AdversaryType.MINION, 4, 4)).toBe(1);
+    expect(calculateAdversaryCost(AdversaryType.MINION, 5, 4)).toBe(2);
+  });
+});
+
+// ============================================================================
+// BUDGET TESTS
+// ============================================================================
+
+describe('buildEncounter', () => {
+  it('should report spent and remaining budget', () => {
+    const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, [
+      OGRE, GRUNT, GRUNT, GRUNT, GRUNT, ARCHER, ARCHER, CAPTAIN,
+    ]);
+
+    expect(encounter.budget.total).toBe(14);
+    expect(encounter.spent).toBe(12);
+    expect(encounter.remaining).toBe(2);
+    expect(encounter.isOverBudget).toBe(false);
+    expect(encounter.warnings).toEqual([]);
+  });
+
+  it('should group identical adversaries', () => {
+    const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, [
+      OGRE, ARCHER, ARCHER,
+    ]);
+    const archers = encounter.groups.find((g) => g.adversary.name === 'Goblin Archer');
+
+    expect(encounter.groups).toHaveLength(2);
+    expect(archers?.quantity).toBe(2);
+    expect(archers?.cost).toBe(4);
+  });
+
+  it('should adjust the budget for difficulty', () => {
+    const adversaries = [OGRE, CAPTAIN];
+    expect(buildEncounter(4, Tier.ONE, EncounterDifficulty.EASY, adversaries).budget.total).toBe(13);
+    expect(buildEncounter(4, Tier.ONE, EncounterDifficulty.HARD, adversaries).budget.total).toBe(16);
+  });
+
+  it('should reduce the budget for two or more Solos', () => {
+    const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, [DRAGON, WYRM]);
+    expect(encounter.budget.total).toBe(12);
+    expect(encounter.budget.adjustments).toContainEqual({ reason: '2 Solo adversaries', amount: -2 });
+  });
+
+  it('should reduce the budget for increased damage', () => {
+    const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, [OGRE], {
+      increasedDamage: true,
+    });
+    expect(encounter.budget.total).toBe(12);
+  });
+
+  it('should add budget for lower-tier adversaries', () => {
+    const encounter = buildEncounter(4, Tier.TWO, EncounterDifficulty.MODERATE, [OGRE]);
+    expect(encounter.budget.total).toBe(15);
+  });
+
+  it('should add budget when there are no heavy hitters', () => {
+    const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, [ARCHER]);
+    expect(encounter.budget.total).toBe(15);
+  });
+
+  it('should flag over-budget encounters', () => {
+    const encounter = buildEncounter(2, Tier.ONE, EncounterDifficulty.MODERATE, [DRAGON, OGRE]);
+
+    expect(encounter.isOverBudget).toBe(true);
+    expect(encounter.remaining).toBe(-1);
+    expect(encounter.warnings[0]).toMatch(/over budget by 1 BP/);
+  });
+
+  it('should flag degenerate mixes', () => {
+    const minionsOnly = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, [GRUNT]);
+    expect(minionsOnly.warnings.join(' ')).toMatch(/only Minions/);
+
+    const leaderOnly = buildEncounter(2, Tier.ONE, EncounterDifficulty.MODERATE, [CAPTAIN, CAPTAIN]);
+    expect(leaderOnly.warnings.join(' ')).toMatch(/no allies to command/);
+  });
+
+  it('should flag adversaries above the party tier', () => {
+    const elite = makeAdversary('Elite Guard', AdversaryType.BRUISER, Tier.THREE);
+    const encounter = buildEncounter(4, Tier.TWO, EncounterDifficulty.MODERATE, [elite, CAPTAIN]);
+    expect(encounter.warnings.join(' ')).toMatch(/Elite Guard is Tier 3/);
+  });
+
+  it('should reject invalid party sizes', () => {
+    expect(() => buildEncounter(0, Tier.ONE, EncounterDifficulty.MODERATE, [])).toThrow();
+  });
+
+  it('should summarize the encounter', () => {
+    const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, [OGRE, ARCHER, ARCHER]);
+    const summary = summarizeEncounter(encounter);
+
+    expect(summary).toContain('Battle Points: 8/14');
+    expect(summary).toContain('2× Goblin Archer (Ranged): 4 BP');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Encounter Generator Unit Tests
+ *
+ * Tests seeded encounter composition from a pool of converted adversaries:
+ * determinism, budget limits, tier filtering, and composition templates.
+ *
+ * @module tests/unit/encounterGenerator.test
+ */
+
+import { generateEncounters, getCombatRole } from '../../src/encounters/encounterGenerator';
+import { EncounterDifficulty } from '../../src/models/encounter';
+import { AdversaryType, DaggerheartAdversary, Tier } from '../../src/models/daggerheart';
+import { createSeededRandom } from '../../src/utils/random';
+import { convertFromStatBlock } from '../../src/orchestrator/converter';
+import { GOBLIN } from '../fixtures/srd-monsters';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const BASE_ADVERSARY = convertFromStatBlock(GOBLIN).adversary;
+
+function makeAdversary(
+  name: string,
+  type: AdversaryType,
+  tier: Tier = Tier.ONE,
+  tags: string[] = []
+): DaggerheartAdversary {
+  return { ...BASE_ADVERSARY, name, type, tier, tags };
+}
+
+const POOL = [
+  makeAdversary('Goblin Captain', AdversaryType.LEADER),
+  makeAdversary('Goblin Grunt', AdversaryType.MINION),
+  makeAdversary('Goblin Archer', AdversaryType.RANGED),
+  makeAdversary('Goblin Sneak', AdversaryType.SKULK),
+  makeAdversary('Ogre', AdversaryType.BRUISER),
+  makeAdversary('Hobgoblin', AdversaryType.STANDARD),
+  makeAdversary('Goblin Shaman', AdversaryType.STANDARD, Tier.ONE, ['support']),
+  makeAdversary('Young Dragon', AdversaryType.SOLO),
+];
+
+// ============================================================================
+// GENERATOR TESTS
+// ============================================================================
+
+describe('generateEncounters', () => {
+  it('should return the same proposals for the same seed', () => {
+    const first = generateEncounters(POOL, 4, Tier.ONE, EncounterDifficulty.MODERATE, { seed: 'a' });
+    const second = generateEncounters(POOL, 4, Tier.ONE, EncounterDifficulty.MODERATE, { seed: 'a' });
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('should never propose an over-budget encounter', () => {
+    for (const seed of [1, 2, 3, 'ambush']) {
+      const proposals = generateEncounters(POOL, 3, Tier.ONE, EncounterDifficulty.EASY, {
+        seed,
+        maxProposals: 6,
+      });
+      for (const proposal of proposals) {
+        expect(proposal.encounter.isOverBudget).toBe(false);
+      }
+    }
+  });
+
+  it('should propose a Leader with Minions when the pool allows it', () => {
+    const pool = [POOL[0]!, POOL[1]!, POOL[2]!];
+    const proposals = generateEncounters(pool, 4, Tier.ONE, EncounterDifficulty.MODERATE);
+    const leaderAndMinions = proposals.find((p) => p.name === 'Leader and Minions');
+    const types = leaderAndMinions?.encounter.groups.map((g) => g.adversary.type) ?? [];
+
+    expect(types).toContain(AdversaryType.LEADER);
+    expect(types).toContain(AdversaryType.MINION);
+  });
+
+  it('should match support slots by combat role', () => {
+    const pool = [POOL[6]!, POOL[7]!];
+    const proposals = generateEncounters(pool, 4, Tier.ONE, EncounterDifficulty.MODERATE);
+    const soloAndSupport = proposals.find((p) => p.name === 'Solo and Support');
+    const names = soloAndSupport?.encounter.groups.map((g) => g.adversary.name) ?? [];
+
+    expect(names).toContain('Goblin Shaman');
+  });
+
+  it('should leave out adversaries above the party tier', () => {
+    const pool = [...POOL, makeAdversary('Elder Wyrm', AdversaryType.SOLO, Tier.FOUR)];
+    const proposals = generateEncounters(pool, 4, Tier.ONE, EncounterDifficulty.HARD, {
+      maxProposals: 6,
+    });
+    const names = proposals.flatMap((p) => p.encounter.groups.map((g) => g.adversary.name));
+
+    expect(names).not.toContain('Elder Wyrm');
+  });
+
+  it('should respect maxProposals', () => {
+    const proposals = generateEncounters(POOL, 4, Tier.ONE, EncounterDifficulty.MODERATE, {
+      maxProposals: 2,
+    });
+    expect(proposals).toHaveLength(2);
+  });
+
+  it('should return no proposals for an empty pool', () => {
+    expect(generateEncounters([], 4, Tier.ONE, EncounterDifficulty.MODERATE)).toEqual([]);
+  });
+});
+
+// ============================================================================
+// HELPER TESTS
+// ============================================================================
+
+describe('getCombatRole', () => {
+  it('should read the combat role from tags', () => {
+    expect(getCombatRole(makeAdversary('Mage', AdversaryType.STANDARD, Tier.ONE, ['artillery']))).toBe(
+      'Artillery'
+    );
+    expect(getCombatRole(makeAdversary('Thug', AdversaryType.STANDARD))).toBeUndefined();
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = createSeededRandom('seed');
+    const b = createSeededRandom('seed');
+    const sequence = () => [a.next(), a.nextInt(1, 6), a.shuffle([1, 2, 3, 4])];
+    const expected = [b.next(), b.nextInt(1, 6), b.shuffle([1, 2, 3, 4])];
+
+    expect(sequence()).toEqual(expected);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Environment Unit Tests
+ *
+ * Tests building, validating, and formatting Daggerheart environment
+ * stat blocks.
+ *
+ * @module tests/unit/environment.test
+ */
+
+import {
+  createEnvironment,
+  createCoverFeature,
+  createElevationFeature,
+  createHazardFeature,
+  createInteractiveFeature,
+} from '../../src/generators/environmentBuilder';
+import { validateEnvironment } from '../../src/validation/environmentChecker';
+import { formatEnvironmentAsMarkdown } from '../../src/formatters/markdownFormatter';
+import {
+  CoverType,
+  DaggerheartEnvironment,
+  ElevationLevel,
+  EnvironmentType,
+  HazardSeverity,
+  isDaggerheartEnvironment,
+} from '../../src/models/environment';
+import {
+  Attribute,
+  DamageType,
+  FeatureCostType,
+  FeatureType,
+  Tier,
+} from '../../src/models/daggerheart';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+function makeRitualChamber(): DaggerheartEnvironment {
+  return createEnvironment({
+    name: 'Ancient Ritual Chamber',
+    tier: Tier.ONE,
+    type: EnvironmentType.EXPLORATION,
+    description: 'A stone room with faded magical circles and crumbling pillars.',
+    potentialAdversaries: ['Skeleton Warrior', 'Cultist'],
+    features: [
+      createCoverFeature('Stone Pillars', CoverType.HEAVY, 'Four crumbling pillars ring the room.'),
+      createElevationFeature('Raised Dais', ElevationLevel.SLIGHT),
+      {
+        ...createHazardFeature('Residual Magic', HazardSeverity.MODERATE, {
+          attribute: Attribute.INSTINCT,
+          damageType: DamageType.MAGIC,
+          fearCost: 1,
+        }),
+        questions: ['What old power stirs in the circle?'],
+      },
+      createInteractiveFeature('Ancient Lever', 'Pull the lever on the south wall', 'The pit traps open.'),
+    ],
+    atmosphere: { lighting: 'Dark', senses: ['Faint smell of incense'] },
+  });
+}
+
+// ============================================================================
+// BUILDER TESTS
+// ============================================================================
+
+describe('createEnvironment', () => {
+  it('should fill tier and type defaults', () => {
+    const environment = createEnvironment({
+      name: 'Crystal Wasteland',
+      tier: Tier.THREE,
+      type: EnvironmentType.TRAVERSAL,
+    });
+
+    expect(environment.difficulty).toBe(17);
+    expect(environment.impulses.length).toBeGreaterThan(0);
+    expect(environment.description).toBeTruthy();
+    expect(isDaggerheartEnvironment(environment)).toBe(true);
+  });
+
+  it('should keep explicit values', () => {
+    const environment = createEnvironment({
+      name: 'Grand Feast',
+      tier: Tier.TWO,
+      type: EnvironmentType.SOCIAL,
+      difficulty: 15,
+      impulses: ['Whisper rumors'],
+    });
+
+    expect(environment.difficulty).toBe(15);
+    expect(environment.impulses).toEqual(['Whisper rumors']);
+  });
+});
+
+describe('environment feature builders', () => {
+  it('should set hazard damage and Reaction Roll by severity', () => {
+    const hazard = createHazardFeature('Lava Edge', HazardSeverity.MAJOR);
+
+    expect(hazard.type).toBe(FeatureType.PASSIVE);
+    expect(hazard.damage?.diceCount).toBe(3);
+    expect(hazard.damage?.diceSize).toBe(6);
+    expect(hazard.reactionRollAttribute).toBe(Attribute.AGILITY);
+    expect(hazard.reactionRollDifficulty).toBe(16);
+  });
+
+  it('should make hazards with a Fear cost into Actions', () => {
+    const hazard = createHazardFeature('Collapse', HazardSeverity.SEVERE, { fearCost: 2 });
+
+    expect(hazard.type).toBe(FeatureType.ACTION);
+    expect(hazard.cost).toEqual({ type: FeatureCostType.FEAR, amount: 2 });
+  });
+
+  it('should describe cover and elevation effects', () => {
+    expect(createCoverFeature('Fallen Log', CoverType.HEAVY).description).toMatch(/\+4 Evasion/);
+    expect(createElevationFeature('Balcony', ElevationLevel.MODERATE).description).toMatch(/1d6/);
+  });
+});
+
+// ============================================================================
+// VALIDATION TESTS
+// ============================================================================
+
+describe('validateEnvironment', () => {
+  it('should pass a complete environment', () => {
+    const result = validateEnvironment(makeRitualChamber());
+
+    expect(result.isValid).toBe(true);
+    expect(result.score).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should warn when Difficulty is outside the tier range', () => {
+    const environment = { ...makeRitualChamber(), difficulty: 18 };
+    const result = validateEnvironment(environment);
+
+    expect(result.issues.some((i) => i.field === 'difficulty' && i.severity === 'warning')).toBe(true);
+  });
+
+  it('should warn about Stress costs and excessive Fear costs', () => {
+    const environment = makeRitualChamber();
+    environment.features.push(
+      {
+        name: 'Tremor',
+        type: FeatureType.ACTION,
+        description: 'The room shakes.',
+        cost: { type: FeatureCostType.STRESS, amount: 1 },
+      },
+      {
+        name: 'Cave-In',
+        type: FeatureType.ACTION,
+        description: 'The ceiling falls.',
+        cost: { type: FeatureCostType.FEAR, amount: 4 },
+      }
+    );
+    const messages = validateEnvironment(environment).issues.map((i) => i.message).join(' ');
+
+    expect(messages).toMatch(/environments have no Stress/);
+    expect(messages).toMatch(/costs 4 Fear/);
+  });
+
+  it('should fail without a name', () => {
+    const result = validateEnvironment({ ...makeRitualChamber(), name: '' });
+
+    expect(result.isValid).toBe(false);
+    expect(result.summary).toMatch(/Invalid environment/);
+  });
+});
+
+// ============================================================================
+// FORMATTER TESTS
+// ============================================================================
+
+describe('formatEnvironmentAsMarkdown', () => {
+  it('should format the stat block header and statistics', () => {
+    const markdown = formatEnvironmentAsMarkdown(makeRitualChamber());
+
+    expect(markdown).toContain('# Ancient Ritual Chamber');
+    expect(markdown).toContain('*Tier 1 Exploration Environment*');
+    expect(markdown).toContain('**Difficulty** 11');
+    expect(markdown).toContain('**Potential Adversaries**: Skeleton Warrior, Cultist');
+  });
+
+  it('should format features with Fear costs and GM questions', () => {
+    const markdown = formatEnvironmentAsMarkdown(makeRitualChamber());
+
+    expect(markdown).toContain('**Residual Magic** (Action, 1 Fear)');
+    expect(markdown).toContain('*What old power stirs in the circle?*');
+    expect(markdown).toContain('- **Lighting**: Dark');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Fiend and Celestial Conversion Unit Tests
+ *
+ * Tests subtype detection for demons, devils, yugoloths, and angels, the
+ * conversion of their outsider abilities into costed features, and the
+ * subtype motives and design notes in full conversions.
+ *
+ * @module tests/unit/fiendCelestialConversion.test
+ */
+
+import { parseStatBlock } from '../../src/parsers/statBlockParser';
+import {
+  convertFiendOrCelestial,
+  detectFiendCelestialSubtype,
+  isFiendOrCelestial,
+} from '../../src/converters/fiendCelestialConversion';
+import { convertFromText } from '../../src/orchestrator/converter';
+import { CreatureType, GoodEvilAxis, LawChaosAxis } from '../../src/models/dnd5e';
+import { Attribute, FeatureCostType, FeatureType } from '../../src/models/daggerheart';
+import { createMockStatBlock } from '../helpers/testUtils';
+import { BALOR_2014_TEXT } from '../fixtures/stat-block-text';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const HORNED_DEVIL_TEXT = `
+Horned Devil
+Large fiend (devil), lawful evil
+
+Armor Class 18 (natural armor)
+Hit Points 178 (17d10 + 85)
+Speed 20 ft., fly 60 ft.
+
+STR 22 (+6) DEX 17 (+3) CON 21 (+5) INT 12 (+1) WIS 16 (+3) CHA 17 (+3)
+
+Damage Immunities fire, poison
+Senses darkvision 120 ft., passive Perception 13
+Languages Infernal, telepathy 120 ft.
+Challenge 11 (7,200 XP)
+
+Magic Resistance. The devil has advantage on saving throws against spells and other magical effects.
+
+Actions
+Fork. Melee Weapon Attack: +10 to hit, reach 10 ft., one target. Hit: 15 (2d8 + 6) piercing damage.
+Tail. Melee Weapon Attack: +10 to hit, reach 10 ft., one target. Hit: 10 (1d8 + 6) piercing damage. If the target is a creature other than an undead or a construct, it must succeed on a DC 17 Constitution saving throw or lose 10 (3d6) hit points at the start of each of its turns due to an infernal wound. Each time the devil hits the wounded target with this attack, the damage dealt by the wound increases by 10 (3d6). Any creature can take an action to stanch the wound with a successful DC 12 Wisdom (Medicine) check. The wound also closes if the target receives magical healing.
+`;
+
+const VROCK_TEXT = `
+Vrock
+Large fiend (demon), chaotic evil
+
+Armor Class 15 (natural armor)
+Hit Points 104 (11d10 + 44)
+Speed 40 ft., fly 60 ft.
+
+STR 17 (+3) DEX 15 (+2) CON 18 (+4) INT 8 (-1) WIS 13 (+1) CHA 8 (-1)
+
+Senses darkvision 120 ft., passive Perception 11
+Languages Abyssal, telepathy 120 ft.
+Challenge 6 (2,300 XP)
+
+Magic Resistance. The vrock has advantage on saving throws against spells and other magical effects.
+
+Actions
+Beak. Melee Weapon Attack: +6 to hit, reach 5 ft., one target. Hit: 10 (2d6 + 3) piercing damage.
+Talons. Melee Weapon Attack: +6 to hit, reach 5 ft., one target. Hit: 14 (2d10 + 3) slashing damage.
+Summon Demon (1/Day). The demon chooses what to summon and attempts a magical summoning. A vrock has a 30 percent chance of summoning 2d4 dretches or one vrock.
+`;
+
+const PLANETAR_TEXT = `
+Planetar
+Large celestial, lawful good
+
+Armor Class 19 (natural armor)
+Hit Points 200 (16d10 + 112)
+Speed 40 ft., fly 120 ft.
+
+STR 24 (+7) DEX 20 (+5) CON 24 (+7) INT 19 (+4) WIS 22 (+6) CHA 25 (+7)
+
+Senses truesight 120 ft., passive Perception 21
+Languages all, telepathy 120 ft.
+Challenge 16 (15,000 XP)
+
+Angelic Weapons. The planetar's weapon attacks are magical. When the planetar hits with any weapon, the weapon deals an extra 5d8 radiant damage (included in the attack).
+Divine Awareness. The planetar knows if it hears a lie.
+Magic Resistance. The planetar has advantage on saving throws against spells and other magical effects.
+
+Actions
+Greatsword. Melee Weapon Attack: +12 to hit, reach 5 ft., one target. Hit: 21 (4d6 + 7) slashing damage plus 22 (5d8) radiant damage.
+`;
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+describe('detectFiendCelestialSubtype', () => {
+  it('reads the subtype tag and name', () => {
+    expect(detectFiendCelestialSubtype(parseStatBlock(BALOR_2014_TEXT))).toBe('demon');
+    expect(detectFiendCelestialSubtype(parseStatBlock(HORNED_DEVIL_TEXT))).toBe('devil');
+    expect(detectFiendCelestialSubtype(parseStatBlock(PLANETAR_TEXT))).toBe('angel');
+    expect(
+      detectFiendCelestialSubtype(
+        createMockStatBlock({ name: 'Mezzoloth', creatureType: CreatureType.FIEND })
+      )
+    ).toBe('yugoloth');
+  });
+
+  it('falls back to alignment for untagged fiends', () => {
+    const fiend = (lawChaos: LawChaosAxis) =>
+      createMockStatBlock({
+        name: 'Nameless Horror',
+        creatureType: CreatureType.FIEND,
+        alignment: { lawChaos, goodEvil: GoodEvilAxis.EVIL },
+      });
+
+    expect(detectFiendCelestialSubtype(fiend(LawChaosAxis.CHAOTIC))).toBe('demon');
+    expect(detectFiendCelestialSubtype(fiend(LawChaosAxis.LAWFUL))).toBe('devil');
+    expect(detectFiendCelestialSubtype(fiend(LawChaosAxis.NEUTRAL))).toBe('yugoloth');
+  });
+
+  it('does not read names that merely end in "loth" as yugoloths', () => {
+    const sloth = createMockStatBlock({
+      name: 'Sloth of the Abyss',
+      creatureType: CreatureType.FIEND,
+      alignment: { lawChaos: LawChaosAxis.CHAOTIC, goodEvil: GoodEvilAxis.EVIL },
+    });
+
+    expect(detectFiendCelestialSubtype(sloth)).toBe('demon');
+  });
+
+  it('only applies to fiends and celestials', () => {
+    expect(isFiendOrCelestial(createMockStatBlock({ creatureType: CreatureType.BEAST }))).toBe(false);
+    expect(convertFiendOrCelestial(createMockStatBlock()).thematicFeatures).toEqual([]);
+  });
+});
+
+// ============================================================================
+// FEATURE CONVERSION
+// ============================================================================
+
+describe('convertFiendOrCelestial', () => {
+  it('converts magic resistance, teleport, and auras', () => {
+    const result = convertFiendOrCelestial(parseStatBlock(BALOR_2014_TEXT));
+    const teleport = result.thematicFeatures.find((f) => f.name === 'Teleport');
+    const aura = result.thematicFeatures.find((f) => f.name === 'Fire Aura');
+
+    expect(result.replacedFeatures).toEqual(['Magic Resistance', 'Teleport', 'Fire Aura']);
+    expect(teleport?.cost).toEqual({ type: FeatureCostType.STRESS, amount: 1 });
+    expect(teleport?.description).toContain('within Very Far range');
+    expect(aura?.type).toBe(FeatureType.PASSIVE);
+    expect(aura?.damage?.diceCount).toBe(3);
+    expect(aura?.description).toContain('A creature that touches it');
+  });
+
+  it('turns summoning into a Fear-costed Minion call', () => {
+    const result = convertFiendOrCelestial(parseStatBlock(VROCK_TEXT));
+    const summon = result.thematicFeatures.find((f) => f.name === 'Summon Demons');
+
+    expect(summon?.cost).toEqual({ type: FeatureCostType.FEAR, amount: 1 });
+    expect(summon?.description).toContain('from the Abyss');
+    expect(result.conversionNotes).toContain('Summon Demon: the 30% summoning chance is replaced by a Fear cost');
+  });
+
+  it('converts infernal wounds into Devilish Weapons', () => {
+    const result = convertFiendOrCelestial(parseStatBlock(HORNED_DEVIL_TEXT));
+    const weapons = result.thematicFeatures.find((f) => f.name === 'Devilish Weapons');
+
+    expect(weapons?.reactionRollAttribute).toBe(Attribute.STRENGTH);
+    expect(weapons?.reactionRollDifficulty).toBe(16);
+    expect(weapons?.description).toContain('When its Tail attack deals damage');
+  });
+
+  it('halves the extra radiant dice of Angelic Weapons', () => {
+    const result = convertFiendOrCelestial(parseStatBlock(PLANETAR_TEXT));
+    const weapons = result.thematicFeatures.find((f) => f.name === 'Angelic Weapons');
+
+    expect(weapons?.damage?.diceCount).toBe(3);
+    expect(weapons?.description).toContain('an extra 3d8 radiant damage');
+  });
+});
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+describe('fiend and celestial conversions', () => {
+  it('replaces generic features with the specialized ones', () => {
+    const { adversary } = convertFromText(VROCK_TEXT);
+    const names = adversary.features.map((f) => f.name);
+
+    expect(names).toContain('Summon Demons');
+    expect(names).not.toContain('Summon Demon');
+    expect(names.filter((name) => name === 'Magic Resistance')).toHaveLength(1);
+    expect(adversary.tags).toContain('demon');
+  });
+
+  it('leads with subtype motives and adds subtype design notes', () => {
+    const result = convertFromText(HORNED_DEVIL_TEXT);
+
+    expect(result.adversary.motivesAndTactics.phrases.slice(0, 2)).toEqual([
+      'Bargain for souls',
+      'Climb the infernal hierarchy',
+    ]);
+    expect(result.designNotes?.gmTips.some((tip) => tip.startsWith('Devils want a bargain'))).toBe(true);
+  });
+});
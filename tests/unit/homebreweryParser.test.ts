@@ -0,0 +1,124 @@
+/**
+ * Homebrewery Parser Unit Tests
+ *
+ * Tests recognizing and stripping Homebrewery / GM Binder markdown,
+ * parsing the legacy blockquote frame and the V3 monster block, spans at
+ * markdown lines, and automatic routing during conversion.
+ *
+ * @module tests/unit/homebreweryParser.test
+ */
+
+import {
+  isHomebreweryMarkdown,
+  homebreweryToText,
+  parseHomebrewery,
+  parseHomebrewerySafe,
+} from '../../src/parsers/homebreweryParser';
+import { convertFromAnyText, convertFromText, detectSourceSystem } from '../../src/orchestrator/converter';
+import {
+  GOBLIN_2014_TEXT,
+  GOBLIN_HOMEBREWERY_MD,
+  GOBLIN_WARRIOR_HOMEBREWERY_V3_MD,
+} from '../fixtures/stat-block-text';
+
+// ============================================================================
+// DETECTION AND STRIPPING
+// ============================================================================
+
+describe('isHomebreweryMarkdown', () => {
+  it('recognizes both frame styles', () => {
+    expect(isHomebreweryMarkdown(GOBLIN_HOMEBREWERY_MD)).toBe(true);
+    expect(isHomebreweryMarkdown(GOBLIN_WARRIOR_HOMEBREWERY_V3_MD)).toBe(true);
+  });
+
+  it('does not claim plain text stat blocks', () => {
+    expect(isHomebreweryMarkdown(GOBLIN_2014_TEXT)).toBe(false);
+    expect(isHomebreweryMarkdown('## Goblins\n\nThey are **small** and mean.')).toBe(false);
+  });
+});
+
+describe('homebreweryToText', () => {
+  it('strips the frame down to a plain stat block', () => {
+    const { text, lines } = homebreweryToText(GOBLIN_HOMEBREWERY_MD);
+    const plain = text.split('\n');
+
+    expect(plain[0]).toBe('Goblin');
+    expect(plain[1]).toBe('Small humanoid (goblinoid), neutral evil');
+    expect(plain[2]).toBe('Armor Class 15 (leather armor, shield)');
+    expect(plain[5]).toBe('STR DEX CON INT WIS CHA');
+    expect(plain[6]).toBe('8 (-1) 14 (+2) 10 (+0) 10 (+0) 8 (-1) 8 (-1)');
+    expect(text).toContain('\nScimitar. Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.');
+    expect(text).not.toContain('Cragmaw');
+    expect(lines[0]).toBe(5);
+  });
+
+  it('strips V3 field separators and table cells', () => {
+    const { text } = homebreweryToText(GOBLIN_WARRIOR_HOMEBREWERY_V3_MD);
+
+    expect(text).toContain('\nAC 15 Initiative +2 (12)\n');
+    expect(text).toContain('\nMOD SAVE MOD SAVE MOD SAVE\nStr 8 −1 −1 Dex 15 +2 +2 Con 10 +0 +0\n');
+    expect(text).not.toMatch(/[*|{}]|::/);
+  });
+});
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+describe('parseHomebrewerySafe', () => {
+  it('parses the legacy blockquote frame', () => {
+    const { result, errors } = parseHomebrewerySafe(GOBLIN_HOMEBREWERY_MD);
+
+    expect(errors).toHaveLength(0);
+    expect(result?.name).toBe('Goblin');
+    expect(result?.armorClass.value).toBe(15);
+    expect(result?.hitPoints.average).toBe(7);
+    expect(result?.abilityScores).toEqual({ STR: 8, DEX: 14, CON: 10, INT: 10, WIS: 8, CHA: 8 });
+    expect(result?.challengeRating.cr).toBe('1/4');
+    expect(result?.attacks?.map((attack) => attack.name)).toEqual(['Scimitar', 'Shortbow']);
+  });
+
+  it('parses the V3 monster block in the 2024 layout', () => {
+    const { result, layout } = parseHomebrewerySafe(GOBLIN_WARRIOR_HOMEBREWERY_V3_MD);
+
+    expect(layout).toBe('2024');
+    expect(result?.name).toBe('Goblin Warrior');
+    expect(result?.abilityScores.DEX).toBe(15);
+    expect(result?.attacks?.[0]?.toHit).toBe(4);
+    expect(result?.bonusActions?.[0]?.name).toBe('Nimble Escape');
+  });
+
+  it('reports spans at markdown lines', () => {
+    const { spans } = parseHomebrewerySafe(GOBLIN_HOMEBREWERY_MD);
+
+    expect(spans.name?.startLine).toBe(5);
+    expect(spans.hitPoints?.startLine).toBe(9);
+  });
+
+  it('throws with the parse errors from parseHomebrewery', () => {
+    expect(() => parseHomebrewery('> ## Nothing\n> ___\n> - **Armor Class** 12')).toThrow(
+      'Failed to parse Homebrewery stat block'
+    );
+  });
+});
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+describe('Homebrewery routing', () => {
+  it('converts markdown through convertFromText', () => {
+    const result = convertFromText(GOBLIN_HOMEBREWERY_MD);
+
+    expect(result.adversary.name).toBe('Goblin');
+    expect(result.conversionLog).toContain('  - Detected Homebrewery markdown');
+  });
+
+  it('detects markdown as D&D 5e and converts it from any text', () => {
+    expect(detectSourceSystem(GOBLIN_HOMEBREWERY_MD).system).toBe('D&D 5e');
+
+    const result = convertFromAnyText(GOBLIN_WARRIOR_HOMEBREWERY_V3_MD);
+    expect(result.sourceSystem).toBe('D&D 5e');
+    expect(result.adversary.name).toBe('Goblin Warrior');
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * JSON Importer Unit Tests
+ *
+ * Tests 5etools, Open5e, and Foundry VTT monster import: inline tag
+ * rendering, field mapping, actions, legendary and lair actions,
+ * spellcasting, item activation and uses, per-monster error collection,
+ * format detection, and conversion of imported monsters.
+ *
+ * @module tests/unit/jsonImporters.test
+ */
+
+import {
+  importFiveTools,
+  importFiveToolsMonster,
+  stripFiveToolsTags,
+} from '../../src/parsers/fiveToolsImporter';
+import { importOpen5e, importOpen5eMonster } from '../../src/parsers/open5eImporter';
+import { importFoundry, importFoundryActor } from '../../src/parsers/foundryImporter';
+import { detectMonsterJsonFormat } from '../../src/parsers/jsonImporter';
+import { convertFromStatBlock } from '../../src/orchestrator/converter';
+import {
+  AttackType,
+  CreatureSize,
+  CreatureType,
+  DnD5eCondition,
+  SpecialAlignment,
+} from '../../src/models/dnd5e';
+import { AdversaryType } from '../../src/models/daggerheart';
+import { GOBLIN } from '../fixtures/srd-monsters';
+import {
+  FIVETOOLS_BLACK_DRAGON,
+  FIVETOOLS_FILE,
+  FIVETOOLS_GOBLIN,
+  FIVETOOLS_MAGE,
+  FOUNDRY_BLACK_DRAGON_V4,
+  FOUNDRY_CULT_FANATIC,
+  FOUNDRY_GOBLIN,
+  FOUNDRY_RED_DRAGON,
+  OPEN5E_GOBLIN,
+  OPEN5E_LICH,
+  OPEN5E_PAGE,
+} from '../fixtures/monster-json';
+
+// ============================================================================
+// TAG RENDERING TESTS
+// ============================================================================
+
+describe('stripFiveToolsTags', () => {
+  it('should render attack tags as stat block wording', () => {
+    expect(
+      stripFiveToolsTags('{@atk mw,rw} {@hit 4} to hit, reach 5 ft. {@h}5 ({@damage 1d6 + 2}) piercing damage.')
+    ).toBe('Melee or Ranged Weapon Attack: +4 to hit, reach 5 ft. Hit: 5 (1d6 + 2) piercing damage.');
+    expect(stripFiveToolsTags('{@atkr m} {@hit 4}, reach 5 ft.')).toBe('Melee Attack Roll: +4, reach 5 ft.');
+  });
+
+  it('should render save, recharge, and reference tags', () => {
+    expect(stripFiveToolsTags('a {@dc 13} {@skill Dexterity|phb} check')).toBe('a DC 13 Dexterity check');
+    expect(stripFiveToolsTags('Fire Breath {@recharge 5}')).toBe('Fire Breath (Recharge 5-6)');
+    expect(stripFiveToolsTags('{@actSave dex} {@dc 13}. {@actSaveFail} 7 damage')).toBe(
+      'Dexterity Saving Throw: DC 13. Failure: 7 damage'
+    );
+    expect(stripFiveToolsTags('{@creature goblin|mm|goblins} and {@b {@condition prone}}')).toBe('goblins and prone');
+  });
+});
+
+// ============================================================================
+// 5ETOOLS IMPORT TESTS
+// ============================================================================
+
+describe('importFiveTools', () => {
+  it('should map core fields to match the SRD goblin', () => {
+    const goblin = importFiveToolsMonster(FIVETOOLS_GOBLIN);
+
+    expect(goblin.size).toBe(CreatureSize.SMALL);
+    expect(goblin.creatureType).toBe(CreatureType.HUMANOID);
+    expect(goblin.alignment).toEqual(GOBLIN.alignment);
+    expect(goblin.armorClass).toEqual({ value: 15, armorType: 'leather armor', additionalSources: ['shield'] });
+    expect(goblin.hitPoints).toEqual(GOBLIN.hitPoints);
+    expect(goblin.abilityScores).toEqual(GOBLIN.abilityScores);
+    expect(goblin.challengeRating).toEqual({ cr: '1/4', xp: 50 });
+    expect(goblin.senses.passivePerception).toBe(9);
+    expect(goblin.attacks?.map((attack) => attack.toHit)).toEqual([4, 4]);
+    expect(goblin.traits?.[0]?.description).not.toContain('{@');
+  });
+
+  it('should import actions, legendary actions, and lair actions', () => {
+    const { monsters } = importFiveTools(FIVETOOLS_FILE);
+    const dragon = monsters.find((monster) => monster.name === FIVETOOLS_BLACK_DRAGON.name);
+    const breath = dragon?.actions?.find((action) => action.name === 'Acid Breath');
+
+    expect(dragon?.multiattack).toBeDefined();
+    expect(dragon?.attacks?.[0]?.damage.additionalDamage?.[0]?.damageType).toBe('Acid');
+    expect(breath?.recharge).toEqual({ minRoll: 5, maxRoll: 6 });
+    expect(breath?.savingThrow).toEqual({ dc: 18, ability: 'DEX' });
+    expect(dragon?.legendaryActions?.actions.map((action) => action.cost)).toEqual([1, 2]);
+    expect(dragon?.lairActions?.initiativeCount).toBe(20);
+    expect(dragon?.lairActions?.actions).toHaveLength(2);
+    expect(dragon?.lairActions?.regionalEffects).toHaveLength(2);
+  });
+
+  it('should build spellcasting from structured spell lists', () => {
+    const mage = importFiveToolsMonster(FIVETOOLS_MAGE);
+
+    expect(mage.alignment).toBe(SpecialAlignment.ANY);
+    expect(mage.attacks?.[0]?.attackType).toBe(AttackType.MELEE_OR_RANGED_WEAPON);
+    const spellcasting = mage.spellcasting;
+    if (spellcasting?.type !== 'traditional') {
+      throw new Error('Expected traditional spellcasting');
+    }
+    expect(spellcasting.ability).toBe('INT');
+    expect(spellcasting.spellSaveDC).toBe(14);
+    expect(spellcasting.spellAttackBonus).toBe(6);
+    expect(spellcasting.casterLevel).toBe(9);
+    expect(spellcasting.slots?.[1]).toBe(4);
+    expect(spellcasting.slots?.[3]).toBe(3);
+    expect(spellcasting.spells.cantrips?.[0]).toEqual({ name: 'Fire Bolt', level: 0 });
+  });
+
+  it('should collect per-monster errors and warnings', () => {
+    const orphan = { ...FIVETOOLS_BLACK_DRAGON, legendaryGroup: { name: 'Missing' } };
+    const result = importFiveTools([FIVETOOLS_GOBLIN, { name: 'Copy', _copy: { name: 'Goblin' } }, orphan]);
+
+    expect(result.monsters).toHaveLength(2);
+    expect(result.errors).toEqual(['Copy: Monster uses _copy; resolve copies before importing']);
+    expect(result.warnings[0]).toContain('Legendary group "Missing" not found');
+    expect(importFiveTools('{ not json').errors[0]).toContain('Invalid JSON');
+  });
+});
+
+// ============================================================================
+// OPEN5E IMPORT TESTS
+// ============================================================================
+
+describe('importOpen5e', () => {
+  it('should map core fields to match the SRD goblin', () => {
+    const goblin = importOpen5eMonster(OPEN5E_GOBLIN);
+
+    expect(goblin.alignment).toEqual(GOBLIN.alignment);
+    expect(goblin.subtypes).toEqual(['goblinoid']);
+    expect(goblin.armorClass).toEqual({ value: 15, armorType: 'leather armor', additionalSources: ['shield'] });
+    expect(goblin.skills).toEqual(GOBLIN.skills);
+    expect(goblin.attacks).toHaveLength(2);
+    expect(goblin.source).toBe('Systems Reference Document');
+  });
+
+  it('should import saves, damage modifiers, spellcasting, and legendary actions', () => {
+    const lich = importOpen5eMonster(OPEN5E_LICH);
+
+    expect(lich.savingThrows?.map((save) => save.ability)).toEqual(['CON', 'INT', 'WIS']);
+    expect(lich.damageModifiers?.resistances).toHaveLength(3);
+    expect(lich.conditionImmunities).toContain(DnD5eCondition.PARALYZED);
+    expect(lich.traits?.map((trait) => trait.name)).toEqual(['Legendary Resistance']);
+    const spellcasting = lich.spellcasting;
+    if (spellcasting?.type !== 'traditional') {
+      throw new Error('Expected traditional spellcasting');
+    }
+    expect(spellcasting.spellSaveDC).toBe(20);
+    expect(spellcasting.casterLevel).toBe(18);
+    expect(spellcasting.slots?.[9]).toBe(1);
+    expect(spellcasting.spells[9]).toEqual([{ name: 'Power Word Kill', level: 9 }]);
+    expect(lich.legendaryActions?.actions.map((action) => action.cost)).toEqual([1, 2, 2]);
+  });
+
+  it('should read a saved API page', () => {
+    const result = importOpen5e(JSON.stringify(OPEN5E_PAGE));
+
+    expect(result.monsters.map((monster) => monster.name)).toEqual(['Goblin', 'Lich']);
+    expect(result.errors).toEqual([]);
+  });
+});
+
+// ============================================================================
+// FOUNDRY VTT IMPORT TESTS
+// ============================================================================
+
+describe('importFoundry', () => {
+  it('should map core fields and rebuild attacks from item data', () => {
+    const goblin = importFoundryActor(FOUNDRY_GOBLIN);
+
+    expect(goblin.alignment).toEqual(GOBLIN.alignment);
+    expect(goblin.armorClass).toEqual({ value: 15, armorType: 'leather armor', additionalSources: ['shield'] });
+    expect(goblin.hitPoints).toEqual(GOBLIN.hitPoints);
+    expect(goblin.challengeRating).toEqual({ cr: '1/4', xp: 50 });
+    expect(goblin.skills).toEqual(GOBLIN.skills);
+    expect(goblin.senses.passivePerception).toBe(9);
+    expect(goblin.attacks?.map((attack) => [attack.name, attack.toHit, attack.damage.dice.modifier])).toEqual([
+      ['Scimitar', 4, 2],
+      ['Shortbow', 4, 2],
+    ]);
+    expect(goblin.attacks?.[1]?.range).toEqual({ normal: 80, long: 320 });
+    expect(goblin.bonusActions?.map((action) => action.name)).toEqual(['Nimble Escape']);
+    expect(goblin.source).toBe('MM');
+    expect(goblin.sourcePage).toBe(166);
+  });
+
+  it('should sort items by activation type and map uses and recharge', () => {
+    const dragon = importFoundryActor(FOUNDRY_RED_DRAGON);
+    const breath = dragon.actions?.find((action) => action.name === 'Fire Breath');
+
+    expect(dragon.savingThrows?.map((save) => save.modifier)).toEqual([6, 13, 7, 11]);
+    expect(dragon.traits).toEqual([
+      {
+        name: 'Legendary Resistance',
+        description: 'If the dragon fails a saving throw, it can choose to succeed instead.',
+        uses: { count: 3, rechargeOn: 'dawn' },
+      },
+    ]);
+    expect(dragon.legendaryResistance).toEqual({ count: 3 });
+    expect(dragon.multiattack).toBeDefined();
+    expect(dragon.attacks?.[0]?.damage.additionalDamage?.[0]?.damageType).toBe('Fire');
+    expect(breath?.recharge).toEqual({ minRoll: 5, maxRoll: 6 });
+    expect(breath?.savingThrow).toEqual({ dc: 21, ability: 'DEX' });
+    expect(dragon.legendaryActions?.actions.map((action) => [action.name, action.cost])).toEqual([
+      ['Detect', 1],
+      ['Wing Attack', 2],
+    ]);
+    expect(dragon.legendaryActions?.actions[1]?.description).toContain('knocked prone');
+    expect(dragon.lairActions?.actions.map((action) => action.name)).toEqual(['Magma Eruption']);
+  });
+
+  it('should read dnd5e 4.x item activities', () => {
+    const dragon = importFoundryActor(FOUNDRY_BLACK_DRAGON_V4);
+    const breath = dragon.actions?.find((action) => action.name === 'Acid Breath');
+    const bite = dragon.attacks?.[0];
+
+    expect(dragon.traits?.map((trait) => trait.name)).toEqual(['Amphibious']);
+    expect(bite?.toHit).toBe(11);
+    expect(bite?.range).toEqual({ reach: 10 });
+    expect(bite?.damage.dice).toEqual({ count: 2, dieSize: 10, modifier: 6 });
+    expect(bite?.damage.additionalDamage?.[0]?.damageType).toBe('Acid');
+    expect(breath?.recharge).toEqual({ minRoll: 5, maxRoll: 6 });
+    expect(breath?.uses).toBeUndefined();
+    expect(breath?.savingThrow).toEqual({ dc: 18, ability: 'DEX' });
+    expect(dragon.bonusActions?.[0]?.name).toBe('Frightful Presence');
+    expect(dragon.bonusActions?.[0]?.uses).toEqual({ count: 1, rechargeOn: 'long rest' });
+    expect(dragon.bonusActions?.[0]?.description).toContain('DC 16 Wisdom saving throw');
+    expect(dragon.legendaryActions?.actions.map((action) => [action.name, action.cost])).toEqual([
+      ['Tail Attack', 1],
+      ['Wing Attack', 2],
+    ]);
+  });
+
+  it('should build spellcasting from spell items and slots', () => {
+    const fanatic = importFoundryActor(FOUNDRY_CULT_FANATIC);
+    const spellcasting = fanatic.spellcasting;
+    if (spellcasting?.type !== 'traditional') {
+      throw new Error('Expected traditional spellcasting');
+    }
+
+    expect(spellcasting.ability).toBe('WIS');
+    expect(spellcasting.spellSaveDC).toBe(11);
+    expect(spellcasting.spellAttackBonus).toBe(3);
+    expect(spellcasting.casterLevel).toBe(4);
+    expect(spellcasting.slots).toEqual({ 1: 4, 2: 3 });
+    expect(spellcasting.spells.cantrips?.map((spell) => spell.name)).toEqual(['Light', 'Sacred Flame']);
+    expect(fanatic.attacks?.[0]?.attackType).toBe(AttackType.MELEE_OR_RANGED_WEAPON);
+    expect(fanatic.reactions?.[0]?.trigger).toBe('hit by a melee attack');
+  });
+
+  it('should build innate spellcasting from uses per day', () => {
+    const fanatic = importFoundryActor({
+      ...FOUNDRY_CULT_FANATIC,
+      items: [
+        { name: 'Dancing Lights', type: 'spell', system: { level: 0, preparation: { mode: 'atwill' } } },
+        {
+          name: 'Darkness',
+          type: 'spell',
+          system: { level: 2, preparation: { mode: 'innate' }, uses: { value: 1, max: 1, per: 'day' } },
+        },
+      ],
+    });
+
+    expect(fanatic.spellcasting?.type).toBe('innate');
+    expect(fanatic.spellcasting?.spells).toEqual({
+      atWill: [{ name: 'Dancing Lights', level: 0 }],
+      perDay1: [{ name: 'Darkness', level: 2 }],
+    });
+  });
+
+  it('should report actors that cannot be imported', () => {
+    const result = importFoundry([FOUNDRY_GOBLIN, { ...FOUNDRY_GOBLIN, name: 'Hero', type: 'character' }]);
+
+    expect(result.monsters).toHaveLength(1);
+    expect(result.errors).toEqual(['Hero: Unsupported actor type: character']);
+  });
+});
+
+// ============================================================================
+// DETECTION AND CONVERSION TESTS
+// ============================================================================
+
+describe('JSON import pipeline', () => {
+  it('should detect the JSON format', () => {
+    expect(detectMonsterJsonFormat(FIVETOOLS_FILE)).toBe('5etools');
+    expect(detectMonsterJsonFormat([FIVETOOLS_GOBLIN])).toBe('5etools');
+    expect(detectMonsterJsonFormat(OPEN5E_PAGE)).toBe('open5e');
+    expect(detectMonsterJsonFormat(OPEN5E_GOBLIN)).toBe('open5e');
+    expect(detectMonsterJsonFormat(FOUNDRY_GOBLIN)).toBe('foundry');
+    expect(detectMonsterJsonFormat(GOBLIN)).toBe('dnd5e');
+  });
+
+  it('should convert imported monsters like the hand-written stat block', () => {
+    const reference = convertFromStatBlock(GOBLIN);
+
+    for (const monster of [importFiveToolsMonster(FIVETOOLS_GOBLIN), importFoundryActor(FOUNDRY_GOBLIN)]) {
+      const imported = convertFromStatBlock(monster);
+      expect(imported.adversary.tier).toBe(reference.adversary.tier);
+      expect(imported.adversary.type).toBe(reference.adversary.type);
+      expect(imported.adversary.attack.modifier).toBe(reference.adversary.attack.modifier);
+    }
+  });
+
+  it('should convert a legendary import to a Solo', () => {
+    const lich = convertFromStatBlock(importOpen5eMonster(OPEN5E_LICH));
+
+    expect(lich.adversary.type).toBe(AdversaryType.SOLO);
+  });
+});
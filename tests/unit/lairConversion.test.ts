@@ -0,0 +1,243 @@
+/**
+ * Lair Conversion Unit Tests
+ *
+ * Tests parsing of lair action and regional effect sections and their
+ * conversion to Fear-costed Daggerheart environment features.
+ *
+ * @module tests/unit/lairConversion.test
+ */
+
+import { hasLairActions, convertLairActions } from '../../src/converters/lairConversion';
+import { parseStatBlock, parseStatBlockSafe } from '../../src/parsers/statBlockParser';
+import { convertFromStatBlock } from '../../src/orchestrator/converter';
+import {
+  Attribute,
+  Condition,
+  DamageType,
+  FeatureCostType,
+  FeatureType,
+} from '../../src/models/daggerheart';
+import { ADULT_RED_DRAGON, GOBLIN } from '../fixtures/srd-monsters';
+import { createMockStatBlock } from '../helpers/testUtils';
+
+// ============================================================================
+// PARSER TESTS
+// ============================================================================
+
+describe('Lair section parsing', () => {
+  const lichText = `
+    Lich
+    Medium undead (wizard), any evil alignment
+
+    Armor Class 17 (natural armor)
+    Hit Points 135 (18d8 + 54)
+    Speed 30 ft.
+
+    STR 11 (+0) DEX 16 (+3) CON 16 (+3) INT 21 (+5) WIS 14 (+2) CHA 16 (+3)
+
+    Languages Common plus up to five other languages
+    Challenge 21 (33,000 XP)
+
+    Actions
+    Paralyzing Touch. Melee Spell Attack: +12 to hit, reach 5 ft., one creature. Hit: 10 (3d6) cold damage.
+
+    Lair Actions
+    On initiative count 20 (losing initiative ties), the lich can take a lair action to cause one of the following magical effects:
+    • The lich rolls a d8 and regains a spell slot of that level or lower.
+    • The lich targets one creature it can see within 30 feet of it. A crackling cord of negative energy tethers the lich to the target.
+    • The lich calls forth the spirits of creatures that died in its lair. Each creature of the lich's choice within 60 feet of it must succeed on a DC 18 Constitution saving throw, taking 52 (15d6) necrotic damage on a failed save.
+
+    Regional Effects
+    The region surrounding a lich's lair is warped by its magic:
+    • Vermin and darkness gather within 1 mile of the lair.
+    • Plant life within 1 mile of the lair wilts and dies.
+    If the lich is destroyed, these effects end after 1d10 days.
+  `;
+
+  it('should parse lair actions and initiative count', () => {
+    const lich = parseStatBlock(lichText);
+    expect(lich.lairActions).toBeDefined();
+    expect(lich.lairActions?.initiativeCount).toBe(20);
+    expect(lich.lairActions?.actions).toHaveLength(3);
+  });
+
+  it('should parse regional effects without the closing note', () => {
+    const lich = parseStatBlock(lichText);
+    expect(lich.lairActions?.regionalEffects).toHaveLength(2);
+    expect(lich.lairActions?.regionalEffects?.[1]).toBe(
+      'Plant life within 1 mile of the lair wilts and dies.'
+    );
+  });
+
+  it('should parse named lair actions', () => {
+    const text = lichText.replace(
+      '• The lich rolls a d8 and regains a spell slot of that level or lower.',
+      'Arcane Recall. The lich rolls a d8 and regains a spell slot of that level or lower.'
+    );
+    const lich = parseStatBlock(text);
+    expect(lich.lairActions?.actions[0]?.name).toBe('Arcane Recall');
+  });
+
+  it('should split unbulleted lair and regional effect paragraphs', () => {
+    const text = lichText
+      .replace(/• /g, '')
+      .replace(
+        'The lich targets one creature it can see within 30 feet of it.',
+        'The ground shakes. The lich targets one creature it can see within 30 feet of it.'
+      );
+    const { result: lich, diagnostics } = parseStatBlockSafe(text);
+
+    expect(lich?.lairActions?.actions).toHaveLength(3);
+    expect(lich?.lairActions?.actions.every((action) => action.name === undefined)).toBe(true);
+    expect(lich?.lairActions?.actions[1]?.description).toMatch(/^The ground shakes\. The lich targets/);
+    expect(lich?.lairActions?.regionalEffects).toEqual([
+      'Vermin and darkness gather within 1 mile of the lair.',
+      'Plant life within 1 mile of the lair wilts and dies.',
+    ]);
+    expect(diagnostics).toHaveLength(0);
+  });
+
+  it('should warn when a lair section has no entries', () => {
+    const text = lichText.replace(
+      /Regional Effects\n.*$/s,
+      'Regional Effects\n    The region surrounding a lich\'s lair is warped by its magic.\n'
+    );
+    const { diagnostics } = parseStatBlockSafe(text);
+
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['unparsed-regional-effects']);
+  });
+});
+
+// ============================================================================
+// CONVERSION TESTS
+// ============================================================================
+
+describe('hasLairActions', () => {
+  it('should detect creatures with lair actions', () => {
+    expect(hasLairActions(ADULT_RED_DRAGON)).toBe(true);
+  });
+
+  it('should return false for creatures without a lair', () => {
+    expect(hasLairActions(GOBLIN)).toBe(false);
+  });
+
+  it('should detect a lair with only regional effects', () => {
+    const creature = createMockStatBlock({
+      lairActions: { initiativeCount: 20, actions: [], regionalEffects: ['Fog rolls in.'] },
+    });
+    expect(hasLairActions(creature)).toBe(true);
+  });
+});
+
+describe('convertLairActions', () => {
+  it('should convert every lair action to a 1 Fear environment action', () => {
+    const result = convertLairActions(ADULT_RED_DRAGON);
+    const lairCount = ADULT_RED_DRAGON.lairActions?.actions.length ?? 0;
+
+    expect(result.lairFeatures).toHaveLength(lairCount);
+    for (const feature of result.lairFeatures) {
+      expect(feature.type).toBe(FeatureType.ACTION);
+      expect(feature.cost?.type).toBe(FeatureCostType.FEAR);
+      expect(feature.cost?.amount).toBe(1);
+    }
+  });
+
+  it('should name the environment after the creature', () => {
+    const result = convertLairActions(ADULT_RED_DRAGON);
+    expect(result.environmentName).toBe("Adult Red Dragon's Lair");
+  });
+
+  it('should convert saving throws and damage from lair actions', () => {
+    const result = convertLairActions(ADULT_RED_DRAGON);
+    const magma = result.lairFeatures.find((f) => f.name === 'Magma Eruption');
+
+    expect(magma).toBeDefined();
+    expect(magma?.reactionRollAttribute).toBe(Attribute.AGILITY);
+    expect(magma?.reactionRollDifficulty).toBe(15);
+    expect(magma?.damage?.diceCount).toBe(6);
+    expect(magma?.damage?.damageType).toBe(DamageType.MAGIC);
+    expect(magma?.description).not.toMatch(/saving throw/);
+  });
+
+  it('should map 5e conditions to Daggerheart conditions', () => {
+    const creature = createMockStatBlock({
+      lairActions: {
+        initiativeCount: 20,
+        actions: [
+          {
+            description:
+              'Grasping roots erupt. Each creature on the ground must succeed on a DC 14 Strength saving throw or be restrained.',
+          },
+        ],
+      },
+    });
+    const result = convertLairActions(creature);
+    expect(result.lairFeatures[0]?.name).toBe('Grasping Growth');
+    expect(result.lairFeatures[0]?.appliedConditions).toContain(Condition.RESTRAINED);
+  });
+
+  it('should convert distances with the shared range bands', () => {
+    const creature = createMockStatBlock({
+      lairActions: {
+        initiativeCount: 20,
+        actions: [
+          { description: 'Roots burst from the ground within 10 feet of the lair\'s heart.' },
+          {
+            description:
+              'A spectral howl reaches each creature within 120 feet, who must succeed on a DC 14 Wisdom saving throw or be frightened.',
+          },
+        ],
+      },
+    });
+    const [roots, howl] = convertLairActions(creature).lairFeatures;
+
+    expect(roots?.description).toContain('within Very Close range');
+    expect(howl?.description).toContain('within Very Far range');
+    expect(howl?.reactionRollAttribute).toBe(Attribute.INSTINCT);
+    expect(howl?.appliedConditions).toEqual([Condition.FRIGHTENED]);
+  });
+
+  it('should convert regional effects to Fear-costed features', () => {
+    const creature = createMockStatBlock({
+      lairActions: {
+        initiativeCount: 20,
+        actions: [],
+        regionalEffects: ['Thick fog lingers within 1 mile of the lair.'],
+      },
+    });
+    const result = convertLairActions(creature);
+
+    expect(result.regionalFeatures).toHaveLength(1);
+    expect(result.regionalFeatures[0]?.name).toBe('Regional Rolling Fog');
+    expect(result.regionalFeatures[0]?.cost?.type).toBe(FeatureCostType.FEAR);
+  });
+
+  it('should return no features for creatures without a lair', () => {
+    const result = convertLairActions(GOBLIN);
+    expect(result.lairFeatures).toHaveLength(0);
+    expect(result.regionalFeatures).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// PIPELINE TESTS
+// ============================================================================
+
+describe('Lair conversion in the pipeline', () => {
+  it('should attach environment features to the conversion result', () => {
+    const result = convertFromStatBlock(ADULT_RED_DRAGON);
+    expect(result.environmentFeatures).toBeDefined();
+    expect(result.environmentFeatures?.length).toBeGreaterThan(0);
+    expect(result.adversary.tags).toContain('lair');
+  });
+
+  it('should include the lair in markdown output', () => {
+    const result = convertFromStatBlock(ADULT_RED_DRAGON, { outputFormat: 'markdown' });
+    expect(result.markdown).toContain("## Adult Red Dragon's Lair");
+  });
+
+  it('should not attach environment features without a lair', () => {
+    const result = convertFromStatBlock(GOBLIN);
+    expect(result.environmentFeatures).toBeUndefined();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Loot Generator Unit Tests
+ *
+ * Tests seeded loot generation: drop tables by adversary type, tier-scaled
+ * currency, thematic materials from source data, the includeLoot
+ * conversion option, and formatting.
+ *
+ * @module tests/unit/lootGenerator.test
+ */
+
+import { generateLoot } from '../../src/generators/lootGenerator';
+import { formatLootAsMarkdown } from '../../src/formatters/markdownFormatter';
+import { convertFromStatBlock } from '../../src/orchestrator/converter';
+import {
+  CurrencyAmount,
+  LootCategory,
+  LootQuality,
+  CURRENCY_DICE_BY_TIER,
+} from '../../src/models/loot';
+import {
+  AdversaryType,
+  DaggerheartAdversary,
+  DamageType,
+  RangeBand,
+  Tier,
+} from '../../src/models/daggerheart';
+import { CreatureType } from '../../src/models/dnd5e';
+import { ADULT_RED_DRAGON, GOBLIN, SKELETON } from '../fixtures/srd-monsters';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+function makeAdversary(
+  name: string,
+  type: AdversaryType,
+  tier: Tier,
+  tags: string[] = []
+): DaggerheartAdversary {
+  return {
+    name,
+    tier,
+    type,
+    evasion: 12,
+    thresholds: { minor: 4, major: 8, severe: 15 },
+    hp: 6,
+    stress: 3,
+    attack: {
+      name: 'Claws',
+      modifier: 1,
+      range: RangeBand.MELEE,
+      damage: { diceCount: 1, diceSize: 8, modifier: 2, damageType: DamageType.PHYSICAL },
+    },
+    features: [],
+    description: { shortDescription: name },
+    motivesAndTactics: { phrases: ['Hunt'] },
+    experience: [],
+    tags,
+  };
+}
+
+// ============================================================================
+// GENERATION TESTS
+// ============================================================================
+
+describe('generateLoot', () => {
+  it('should be deterministic for a seed', () => {
+    const wolf = makeAdversary('Dire Wolf', AdversaryType.STANDARD, Tier.ONE, ['beast']);
+
+    expect(generateLoot(wolf, { seed: 7 })).toEqual(generateLoot(wolf, { seed: 7 }));
+  });
+
+  it('should size currency by adversary type and tier', () => {
+    const minion = generateLoot(makeAdversary('Rat', AdversaryType.MINION, Tier.ONE));
+    const solo = generateLoot(makeAdversary('Tyrant', AdversaryType.SOLO, Tier.FOUR));
+    const chestDice = CURRENCY_DICE_BY_TIER[Tier.FOUR][CurrencyAmount.CHEST];
+
+    expect(minion.currency.amount).toBe(CurrencyAmount.HANDFUL);
+    expect(minion.currency.dice).toBe('2d6');
+    expect(solo.currency.amount).toBe(CurrencyAmount.CHEST);
+    expect(solo.currency.gold).toBeGreaterThanOrEqual(chestDice);
+    expect(solo.currency.gold).toBeLessThanOrEqual(chestDice * 6);
+  });
+
+  it('should give Solo adversaries rare materials, equipment, and a unique item', () => {
+    const loot = generateLoot(makeAdversary('Owlbear Matriarch', AdversaryType.SOLO, Tier.TWO, ['beast']));
+    const categories = loot.items.map((item) => item.category);
+    const materials = loot.items.filter((item) => item.category === LootCategory.MATERIAL);
+
+    expect(loot.dropTable).toBe('Solo');
+    expect(categories).toContain(LootCategory.EQUIPMENT);
+    expect(materials.every((item) => item.quality === LootQuality.RARE)).toBe(true);
+    expect(loot.items.find((item) => item.category === LootCategory.UNIQUE)?.plotHook).toBeTruthy();
+  });
+
+  it('should drop color-specific dragon materials', () => {
+    const dragon = makeAdversary('Ancient Wyrm', AdversaryType.SOLO, Tier.FOUR);
+    const loot = generateLoot(dragon, { dragonColor: 'white' });
+    const materials = loot.items.filter((item) => item.category === LootCategory.MATERIAL);
+
+    expect(materials.every((item) => item.name.includes('White Dragon'))).toBe(true);
+    expect(materials[0]?.description).toMatch(/cold/);
+    expect(loot.items.find((item) => item.category === LootCategory.EQUIPMENT)?.description).toMatch(/Frosted/);
+  });
+
+  it('should drop undead subtype materials from tags', () => {
+    const vampire = makeAdversary('Vampire Lord', AdversaryType.LEADER, Tier.THREE, ['undead', 'vampire']);
+    const names = generateLoot(vampire).items.map((item) => item.name);
+
+    expect(names).toContain('Vampire Fang');
+  });
+
+  it('should give humanoids valuables instead of materials', () => {
+    const bandit = makeAdversary('Bandit Captain', AdversaryType.LEADER, Tier.ONE);
+    const loot = generateLoot(bandit, { creatureType: CreatureType.HUMANOID });
+    const categories = loot.items.map((item) => item.category);
+
+    expect(categories).toContain(LootCategory.VALUABLE);
+    expect(categories).not.toContain(LootCategory.MATERIAL);
+  });
+
+  it('should total currency and item values', () => {
+    const loot = generateLoot(makeAdversary('Ogre', AdversaryType.BRUISER, Tier.TWO, ['giant']));
+    const itemValue = loot.items.reduce((sum, item) => sum + (item.value ?? 0) * (item.quantity ?? 1), 0);
+
+    expect(loot.totalValue).toBe(loot.currency.gold + itemValue);
+  });
+});
+
+// ============================================================================
+// CONVERSION OPTION TESTS
+// ============================================================================
+
+describe('includeLoot conversion option', () => {
+  it('should not attach loot by default', () => {
+    expect(convertFromStatBlock(GOBLIN).loot).toBeUndefined();
+  });
+
+  it('should attach thematic loot from the source data', () => {
+    const result = convertFromStatBlock(ADULT_RED_DRAGON, { includeLoot: true });
+
+    expect(result.loot?.source).toBe(result.adversary.name);
+    expect(result.loot?.items.map((item) => item.name)).toContain('Red Dragon Scales');
+    expect(result.markdown).toContain(`## ${result.adversary.name} Loot`);
+    expect(result.conversionLog.some((line) => line.includes('loot'))).toBe(true);
+  });
+
+  it('should be deterministic across conversions', () => {
+    const first = convertFromStatBlock(SKELETON, { includeLoot: true });
+    const second = convertFromStatBlock(SKELETON, { includeLoot: true });
+
+    expect(second.loot).toEqual(first.loot);
+  });
+});
+
+// ============================================================================
+// FORMATTER TESTS
+// ============================================================================
+
+describe('formatLootAsMarkdown', () => {
+  it('should format the loot haul', () => {
+    const loot = generateLoot(makeAdversary('Troll', AdversaryType.SOLO, Tier.TWO, ['giant']), { seed: 'cave' });
+    const markdown = formatLootAsMarkdown(loot);
+
+    expect(markdown).toContain('# Troll Loot');
+    expect(markdown).toContain('*Tier 2 Solo Drop*');
+    expect(markdown).toContain('## Currency');
+    expect(markdown).toContain('## Unique Treasure');
+    expect(markdown).toContain(`**Total Approximate Value:** ${loot.totalValue} gold`);
+  });
+});
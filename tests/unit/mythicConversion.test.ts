@@ -0,0 +1,238 @@
+/**
+ * Mythic Action Conversion Unit Tests
+ *
+ * Tests parsing of mythic action sections and their conversion to a
+ * phased Solo adversary with a second HP track.
+ *
+ * @module tests/unit/mythicConversion.test
+ */
+
+import {
+  convertMythicActions,
+  convertMultiattackAndLegendary,
+  hasMythicActions,
+} from '../../src/converters/multiattackConversion';
+import { parseStatBlock } from '../../src/parsers/statBlockParser';
+import { convertFromStatBlock } from '../../src/orchestrator/converter';
+import { AdversaryType, Attribute, FeatureCostType, FeatureType } from '../../src/models/daggerheart';
+import { DnD5eMonster } from '../../src/models/dnd5e';
+import { ADULT_RED_DRAGON, GOBLIN } from '../fixtures/srd-monsters';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const MYTHIC_DRAGON: DnD5eMonster = {
+  ...ADULT_RED_DRAGON,
+  name: 'Mythic Red Dragon',
+  mythicActions: {
+    trait: {
+      name: 'Inferno Reborn',
+      description:
+        "If the dragon is reduced to 0 hit points, it doesn't die or fall unconscious. Instead, it regains all its hit points.",
+    },
+    count: 3,
+    actions: [
+      { name: 'Searing Wing', description: 'The dragon beats its burning wings.', cost: 1 },
+      { name: 'Cinder Storm', description: 'Ash and embers fill the lair.', cost: 2 },
+    ],
+  },
+};
+
+const TARRASQUE_TEXT = `
+  Tarrasque
+  Gargantuan monstrosity (titan), unaligned
+
+  Armor Class 25 (natural armor)
+  Hit Points 676 (33d20 + 330)
+  Speed 40 ft.
+
+  STR 30 (+10) DEX 11 (+0) CON 30 (+10) INT 3 (-4) WIS 11 (+0) CHA 11 (+0)
+
+  Languages —
+  Challenge 30 (155,000 XP)
+
+  Colossal Rejuvenation (Recharges after a Long Rest). If the tarrasque is reduced to 0 hit points, it doesn't die or fall unconscious. Instead, it regains 338 hit points.
+
+  Actions
+  Bite. Melee Weapon Attack: +19 to hit, reach 10 ft., one target. Hit: 36 (4d12 + 10) piercing damage.
+
+  Legendary Actions
+  The tarrasque can take 3 legendary actions, choosing from the options below.
+  Move. The tarrasque moves up to half its speed.
+
+  Mythic Actions
+  If the tarrasque's Colossal Rejuvenation trait has activated in the last hour, it can use the options below as legendary actions.
+  Tail Swipe. The tarrasque makes one tail attack.
+  Devour (Costs 2 Actions). The tarrasque makes one bite attack.
+`;
+
+// ============================================================================
+// PARSER TESTS
+// ============================================================================
+
+describe('Mythic section parsing', () => {
+  it('should parse mythic actions with costs', () => {
+    const tarrasque = parseStatBlock(TARRASQUE_TEXT);
+    expect(tarrasque.mythicActions).toBeDefined();
+    expect(tarrasque.mythicActions?.actions).toHaveLength(2);
+    expect(tarrasque.mythicActions?.actions[1]?.name).toBe('Devour');
+    expect(tarrasque.mythicActions?.actions[1]?.cost).toBe(2);
+  });
+
+  it('should identify the mythic trait named in the section intro', () => {
+    const tarrasque = parseStatBlock(TARRASQUE_TEXT);
+    expect(tarrasque.mythicActions?.trait.name).toBe('Colossal Rejuvenation');
+    expect(tarrasque.mythicActions?.trait.description).toMatch(/regains 338 hit points/);
+  });
+
+  it('should identify the mythic trait without a named intro', () => {
+    const text = TARRASQUE_TEXT.replace(
+      "If the tarrasque's Colossal Rejuvenation trait has activated in the last hour",
+      "If the tarrasque's mythic trait is active"
+    );
+    const tarrasque = parseStatBlock(text);
+    expect(tarrasque.mythicActions?.trait.name).toBe('Colossal Rejuvenation');
+  });
+
+  it('should use the legendary action pool size', () => {
+    const tarrasque = parseStatBlock(TARRASQUE_TEXT);
+    expect(tarrasque.mythicActions?.count).toBe(3);
+  });
+});
+
+// ============================================================================
+// CONVERSION TESTS
+// ============================================================================
+
+describe('convertMythicActions', () => {
+  it('should detect mythic creatures', () => {
+    expect(hasMythicActions(MYTHIC_DRAGON)).toBe(true);
+    expect(hasMythicActions(GOBLIN)).toBe(false);
+  });
+
+  it('should create a full second HP track when all HP is restored', () => {
+    const result = convertMythicActions(MYTHIC_DRAGON, 10);
+    expect(result.phaseTwo.hasPhaseTwo).toBe(true);
+    expect(result.phaseTwo.name).toBe('Inferno Reborn');
+    expect(result.phaseTwo.hp).toBe(10);
+  });
+
+  it('should scale the second HP track by the HP restored', () => {
+    const tarrasque = parseStatBlock(TARRASQUE_TEXT);
+    const result = convertMythicActions(tarrasque, 12);
+    // 338 of 676 hit points restored = half the first track
+    expect(result.phaseTwo.hp).toBe(6);
+  });
+
+  it('should convert mythic actions to Fear-costed phase two actions', () => {
+    const result = convertMythicActions(MYTHIC_DRAGON, 10);
+    const features = result.phaseTwo.features ?? [];
+
+    expect(features).toHaveLength(2);
+    for (const feature of features) {
+      expect(feature.type).toBe(FeatureType.ACTION);
+      expect(feature.cost?.type).toBe(FeatureCostType.FEAR);
+      expect(feature.trigger).toBeUndefined();
+    }
+    expect(features[0]?.description).toMatch(/^Phase two only\. Spend a Fear to spotlight this adversary:/);
+    expect(features[1]?.cost?.amount).toBe(2);
+    expect(features[1]?.description).toContain('Spend 2 Fear');
+  });
+
+  it('should convert D&D wording in mythic action descriptions', () => {
+    const result = convertMythicActions(
+      {
+        ...MYTHIC_DRAGON,
+        mythicActions: {
+          trait: { name: 'Inferno Reborn', description: 'It regains all its hit points.' },
+          count: 3,
+          actions: [
+            {
+              name: 'Flame Burst',
+              description:
+                'Each creature within 20 feet of the dragon must succeed on a DC 21 Dexterity saving throw or take 14 (4d6) fire damage. The dragon then regains one legendary action.',
+              cost: 2,
+            },
+          ],
+        },
+      },
+      10
+    );
+    const feature = result.phaseTwo.features?.[0];
+
+    expect(feature?.description).toContain('within Close range');
+    expect(feature?.description).toContain('an Agility Reaction Roll (18)');
+    expect(feature?.description).toContain('**4d6 magic damage**');
+    expect(feature?.description).not.toMatch(/DC|saving throw|feet|legendary|Dexterity/);
+    expect(feature?.damage?.diceCount).toBe(4);
+  });
+
+  it('should set the Reaction Roll attribute and difficulty from a mythic save', () => {
+    const result = convertMythicActions(
+      {
+        ...MYTHIC_DRAGON,
+        mythicActions: {
+          trait: { name: 'Inferno Reborn', description: 'It regains all its hit points.' },
+          count: 3,
+          actions: [
+            {
+              name: 'Searing Gaze',
+              description: 'One creature the dragon can see must succeed on a DC 20 Wisdom saving throw or be frightened.',
+              cost: 1,
+            },
+          ],
+        },
+      },
+      10
+    );
+    const feature = result.phaseTwo.features?.[0];
+
+    expect(feature?.reactionRollAttribute).toBe(Attribute.INSTINCT);
+    expect(feature?.reactionRollDifficulty).toBe(18);
+    expect(feature?.description).toContain('an Instinct Reaction Roll (18)');
+  });
+
+  it('should not create a phase two without mythic actions', () => {
+    const result = convertMythicActions(GOBLIN, 3);
+    expect(result.phaseTwo.hasPhaseTwo).toBe(false);
+  });
+
+  it('should only add phase two to combined results when HP is provided', () => {
+    expect(convertMultiattackAndLegendary(MYTHIC_DRAGON, []).phaseTwo).toBeUndefined();
+    expect(convertMultiattackAndLegendary(MYTHIC_DRAGON, [], 10).phaseTwo?.hp).toBe(10);
+  });
+});
+
+// ============================================================================
+// PIPELINE TESTS
+// ============================================================================
+
+describe('Mythic conversion in the pipeline', () => {
+  it('should produce a phased Solo adversary', () => {
+    const result = convertFromStatBlock(MYTHIC_DRAGON);
+    expect(result.adversary.type).toBe(AdversaryType.SOLO);
+    expect(result.adversary.phaseTwo?.hasPhaseTwo).toBe(true);
+    expect(result.adversary.phaseTwo?.hp).toBe(result.adversary.hp);
+    expect(result.adversary.tags).toContain('mythic');
+  });
+
+  it('should keep mythic actions out of the phase one features', () => {
+    const result = convertFromStatBlock(MYTHIC_DRAGON);
+    const names = result.adversary.features.map((f) => f.name);
+    expect(names).not.toContain('Searing Wing');
+    expect(names).not.toContain('Inferno Reborn');
+  });
+
+  it('should explain the phase change in the design notes', () => {
+    const result = convertFromStatBlock(MYTHIC_DRAGON);
+    const rationale = result.designNotes?.conversionRationale.join(' ') ?? '';
+    expect(rationale).toMatch(/Inferno Reborn.*phase change/);
+  });
+
+  it('should include phase two in markdown output', () => {
+    const result = convertFromStatBlock(MYTHIC_DRAGON);
+    expect(result.markdown).toContain('Phase Two');
+    expect(result.markdown).toContain('**Cinder Storm** (Action, 2 Fear)');
+  });
+});
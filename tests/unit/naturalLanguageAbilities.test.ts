@@ -0,0 +1,157 @@
+/**
+ * Natural Language Ability Unit Tests
+ *
+ * Tests extracting special abilities from prose descriptions into traits
+ * and actions with estimated save DCs, damage, recharge, and areas, and
+ * converting them into Daggerheart features.
+ *
+ * @module tests/unit/naturalLanguageAbilities.test
+ */
+
+import { parseNaturalLanguage } from '../../src/parsers/naturalLanguageParser';
+import { convertFromNaturalLanguage } from '../../src/orchestrator/converter';
+import { AbilityScore, DnD5eDamageType } from '../../src/models/dnd5e';
+import { FeatureCostType } from '../../src/models/daggerheart';
+
+// ============================================================================
+// BREATH WEAPONS
+// ============================================================================
+
+describe('parseNaturalLanguage abilities: breath weapons', () => {
+  it('turns a breathed cone into a recharging area action', () => {
+    const { statBlock, extracted } = parseNaturalLanguage('a CR 10 dragon that breathes a cone of fire');
+    const breath = statBlock.actions?.[0];
+
+    expect(extracted).toContain('abilities');
+    expect(breath?.name).toBe('Fire Breath');
+    expect(breath?.recharge).toEqual({ minRoll: 5, maxRoll: 6 });
+    expect(breath?.areaOfEffect).toEqual({ type: 'cone', size: 30 });
+    expect(breath?.savingThrow?.ability).toBe(AbilityScore.DEXTERITY);
+    expect(breath?.damage?.dice).toEqual({ count: 13, dieSize: 6, modifier: 0 });
+    expect(breath?.description).toContain('taking 45 (13d6) fire damage on a failed save');
+  });
+
+  it('reads a sized breath shape', () => {
+    const cone = parseNaturalLanguage('a CR 10 dragon that breathes a 30-foot cone of fire').statBlock.actions?.[0];
+    const line = parseNaturalLanguage('a CR 10 drake that exhales a 60 ft. line of lightning').statBlock.actions?.[0];
+
+    expect(cone?.name).toBe('Fire Breath');
+    expect(cone?.areaOfEffect).toEqual({ type: 'cone', size: 30 });
+    expect(line?.name).toBe('Lightning Breath');
+    expect(line?.areaOfEffect).toEqual({ type: 'line', size: 60 });
+  });
+
+  it('scales damage and area with CR', () => {
+    const small = parseNaturalLanguage('a CR 2 fire-breathing lizard').statBlock.actions?.[0];
+    const large = parseNaturalLanguage('a CR 21 dragon that breathes fire').statBlock.actions?.[0];
+
+    expect(small?.areaOfEffect?.size).toBe(15);
+    expect(large?.areaOfEffect?.size).toBe(90);
+    expect(large?.damage?.dice.count).toBeGreaterThan(small?.damage?.dice.count ?? 0);
+    expect(large?.savingThrow?.dc).toBeGreaterThan(small?.savingThrow?.dc ?? 0);
+  });
+
+  it('reads the breath type, shape, and an explicit size', () => {
+    const lightning = parseNaturalLanguage('a CR 8 blue dragon with lightning breath in a 90-foot line').statBlock.actions?.[0];
+    expect(lightning?.name).toBe('Lightning Breath');
+    expect(lightning?.areaOfEffect).toEqual({ type: 'line', size: 90 });
+
+    const cold = parseNaturalLanguage('a CR 6 dragon that exhales a cloud of frost').statBlock.actions?.[0];
+    expect(cold?.damage?.damageType).toBe(DnD5eDamageType.COLD);
+    expect(cold?.savingThrow?.ability).toBe(AbilityScore.CONSTITUTION);
+  });
+
+  it('does not mistake breathing air for a breath weapon', () => {
+    const { statBlock } = parseNaturalLanguage('a merfolk that breathes air and water');
+
+    expect(statBlock.actions).toBeUndefined();
+    expect(statBlock.traits?.map((trait) => trait.name)).toEqual(['Amphibious']);
+  });
+});
+
+// ============================================================================
+// CONDITIONS, REGENERATION, AND OTHER ABILITIES
+// ============================================================================
+
+describe('parseNaturalLanguage abilities: conditions and traits', () => {
+  it('turns a paralyzing touch into a damaging save action', () => {
+    const touch = parseNaturalLanguage('a CR 1 ghoul with a paralyzing touch').statBlock.actions?.[0];
+
+    expect(touch?.name).toBe('Paralyzing Touch');
+    expect(touch?.savingThrow?.ability).toBe(AbilityScore.CONSTITUTION);
+    expect(touch?.damage?.damageType).toBe(DnD5eDamageType.NECROTIC);
+    expect(touch?.description).toContain('or be paralyzed for 1 minute');
+  });
+
+  it('reads a condition named after its delivery', () => {
+    const gaze = parseNaturalLanguage('a CR 3 basilisk with a gaze that petrifies').statBlock.actions?.[0];
+
+    expect(gaze?.name).toBe('Petrifying Gaze');
+    expect(gaze?.damage).toBeUndefined();
+    expect(gaze?.description).toContain('or be petrified');
+  });
+
+  it('turns regeneration into a trait with what stops it', () => {
+    const { statBlock } = parseNaturalLanguage('a CR 5 troll that regenerates unless burned or hit with acid');
+    const regeneration = statBlock.traits?.find((trait) => trait.name === 'Regeneration');
+
+    expect(regeneration?.description).toContain('regains 10 hit points');
+    expect(regeneration?.description).toContain('If the troll takes fire or acid damage');
+  });
+
+  it('recognizes abilities named by a phrase', () => {
+    const { statBlock } = parseNaturalLanguage(
+      'a CR 6 vampire spawn that turns invisible, drains the life from its victims and hates sunlight'
+    );
+
+    expect(statBlock.actions?.map((action) => action.name)).toEqual(['Invisibility', 'Life Drain']);
+    expect(statBlock.traits?.map((trait) => trait.name)).toEqual(['Undead Fortitude', 'Sunlight Sensitivity']);
+  });
+
+  it('leaves plain descriptions without abilities', () => {
+    const { statBlock, extracted } = parseNaturalLanguage('A CR 1/4 goblin with a sword');
+
+    expect(statBlock.actions).toBeUndefined();
+    expect(extracted).not.toContain('abilities');
+  });
+});
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+describe('convertFromNaturalLanguage with abilities', () => {
+  it('converts described abilities into features', () => {
+    const result = convertFromNaturalLanguage('a CR 5 troll that regenerates unless burned, with a paralyzing touch');
+    const names = result.adversary.features.map((feature) => feature.name);
+    const touch = result.adversary.features.find((feature) => feature.name === 'Paralyzing Touch');
+
+    expect(names).toContain('Regeneration');
+    expect(touch?.damage?.diceCount).toBe(2);
+    expect(touch?.reactionRollAttribute).toBeDefined();
+  });
+
+  it('costs a recharging breath weapon in Stress', () => {
+    const result = convertFromNaturalLanguage('a CR 10 dragon that breathes a cone of fire');
+    const breath = result.adversary.features.find((feature) => feature.name === 'Fire Breath');
+
+    expect(breath?.cost?.type).toBe(FeatureCostType.STRESS);
+    expect(breath?.damage?.diceCount).toBe(13);
+  });
+
+  it('gives a described dragon exactly one breath weapon', () => {
+    const result = convertFromNaturalLanguage('A young dragon that breathes a cone of fire');
+    const breaths = result.adversary.features.filter((feature) => /breath/i.test(feature.name));
+
+    expect(breaths).toHaveLength(1);
+    expect(breaths[0]?.name).toBe('Fire Breath');
+  });
+
+  it('replaces a breath of another element with the dragon\'s own', () => {
+    const result = convertFromNaturalLanguage('a young blue dragon that exhales frost');
+    const names = result.adversary.features.map((feature) => feature.name);
+
+    expect(names).toContain('Lightning Breath');
+    expect(names).not.toContain('Cold Breath');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Natural Language Group Unit Tests
+ *
+ * Tests parsing group descriptions into members with counts and a
+ * leader, and converting them into Leader, Minion, and Horde adversaries.
+ *
+ * @module tests/unit/naturalLanguageGroup.test
+ */
+
+import { parseNaturalLanguageGroup } from '../../src/parsers/naturalLanguageParser';
+import { convertNaturalLanguageGroup } from '../../src/orchestrator/converter';
+import { buildEncounter } from '../../src/encounters/encounterBuilder';
+import { AdversaryType, Tier } from '../../src/models/daggerheart';
+import { EncounterDifficulty } from '../../src/models/encounter';
+
+// ============================================================================
+// parseNaturalLanguageGroup
+// ============================================================================
+
+describe('parseNaturalLanguageGroup', () => {
+  it('splits a leader from the creatures it leads', () => {
+    const group = parseNaturalLanguageGroup('a hobgoblin captain leading six hobgoblins and two wolves');
+
+    expect(group.leaderIndex).toBe(0);
+    expect(group.members.map((member) => [member.statBlock.name, member.count, member.role])).toEqual([
+      ['Hobgoblin Captain', 1, 'leader'],
+      ['Hobgoblin', 6, 'follower'],
+      ['Wolf', 2, 'follower'],
+    ]);
+  });
+
+  it('reads companions after "with" or "and his"', () => {
+    const roles = (input: string) =>
+      parseNaturalLanguageGroup(input).members.map((member) => [member.statBlock.name, member.count, member.role]);
+
+    expect(roles('a bandit captain with four bandits')).toEqual([
+      ['Bandit Captain', 1, 'leader'],
+      ['Bandit', 4, 'follower'],
+    ]);
+    expect(roles('an orc war chief with a pack of wolves')).toEqual([
+      ['Orc War Chief', 1, 'leader'],
+      ['Wolf', 6, 'follower'],
+    ]);
+    expect(roles('a bugbear chief and his pack of wolves')).toEqual([
+      ['Bugbear Chief', 1, 'leader'],
+      ['Wolf', 6, 'follower'],
+    ]);
+    expect(roles('a knight and her two squires')).toEqual([
+      ['Knight', 1, 'leader'],
+      ['Squire', 2, 'follower'],
+    ]);
+  });
+
+  it('keeps "with" inside one creature when it names no companions', () => {
+    expect(parseNaturalLanguageGroup('an ogre with a greataxe').members).toHaveLength(1);
+    expect(parseNaturalLanguageGroup('a troll with two heads').members).toHaveLength(1);
+  });
+
+  it('reads "led by" with the leader last', () => {
+    const group = parseNaturalLanguageGroup('Twelve zombies led by a CR 5 necromancer.');
+
+    expect(group.members[0]?.statBlock.name).toBe('Necromancer');
+    expect(group.members[0]?.statBlock.challengeRating.cr).toBe(5);
+    expect(group.members[1]?.statBlock.name).toBe('Zombie');
+    expect(group.members[1]?.count).toBe(12);
+  });
+
+  it('keeps each member its own CR and equipment', () => {
+    const group = parseNaturalLanguageGroup('a CR 3 bugbear chieftain leading 4 CR 1/2 gnolls with spears and a shield');
+
+    expect(group.members).toHaveLength(2);
+    expect(group.members[0]?.statBlock.challengeRating.cr).toBe(3);
+    expect(group.members[1]?.statBlock.challengeRating.cr).toBe('1/2');
+    expect(group.members[1]?.count).toBe(4);
+    expect(group.members[1]?.statBlock.attacks?.[0]?.name).toBe('Spear');
+  });
+
+  it('reads collective nouns', () => {
+    const group = parseNaturalLanguageGroup('a pack of wolves and a band of 8 gnolls');
+
+    expect(group.members.map((member) => [member.statBlock.name, member.count, member.collective])).toEqual([
+      ['Wolf', 6, 'pack'],
+      ['Gnoll', 8, 'band'],
+    ]);
+  });
+
+  it('finds a leader by title, or none', () => {
+    const led = parseNaturalLanguageGroup('four goblins, a goblin boss and a wolf');
+    expect(led.members[0]?.statBlock.name).toBe('Goblin Boss');
+    expect(led.members.map((member) => member.role)).toEqual(['leader', 'follower', 'follower']);
+
+    const unled = parseNaturalLanguageGroup('three bandits and two guards');
+    expect(unled.leaderIndex).toBeUndefined();
+    expect(unled.members.every((member) => member.role === 'member')).toBe(true);
+  });
+});
+
+// ============================================================================
+// convertNaturalLanguageGroup
+// ============================================================================
+
+describe('convertNaturalLanguageGroup', () => {
+  it('converts the leader to a Leader and the rank-and-file to Minions', () => {
+    const group = convertNaturalLanguageGroup('a hobgoblin captain leading six hobgoblins and two wolves');
+
+    expect(group.entries.map((entry) => [entry.name, entry.result.adversary.type])).toEqual([
+      ['Hobgoblin Captain', AdversaryType.LEADER],
+      ['Hobgoblin', AdversaryType.MINION],
+      ['Wolf', AdversaryType.MINION],
+    ]);
+    expect(group.entries[1]?.result.adversary.hp).toBe(1);
+    expect(group.adversaries).toHaveLength(9);
+    expect(group.markdown).toContain('## Hobgoblin Captain\n');
+  });
+
+  it('converts large and collective groups to a named Horde', () => {
+    const group = convertNaturalLanguageGroup('twelve zombies led by a necromancer, and a pack of wolves');
+    const zombies = group.entries[1]?.result.adversary;
+
+    expect(zombies?.name).toBe('Zombie Horde');
+    expect(zombies?.type).toBe(AdversaryType.HORDE);
+    expect(zombies?.horde?.isHorde).toBe(true);
+    expect(group.entries[2]?.name).toBe('Wolf Pack');
+    expect(group.adversaries).toHaveLength(3);
+  });
+
+  it('prices the group with buildEncounter', () => {
+    const group = convertNaturalLanguageGroup('a hobgoblin captain leading four hobgoblins');
+    const encounter = buildEncounter(4, Tier.ONE, EncounterDifficulty.MODERATE, group.adversaries);
+
+    expect(encounter.groups.map((entry) => [entry.adversary.name, entry.quantity])).toEqual([
+      ['Hobgoblin Captain', 1],
+      ['Hobgoblin', 4],
+    ]);
+  });
+
+  it('throws when no creatures are described', () => {
+    expect(() => convertNaturalLanguageGroup('   ')).toThrow('no creatures found');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * NPC Generator Unit Tests
+ *
+ * Tests seeded NPC generation: tier-scaled stats, role-based resilience
+ * and Experiences, tone-based attitude, roleplay hooks, and formatting.
+ *
+ * @module tests/unit/npcGenerator.test
+ */
+
+import { createNPC } from '../../src/generators/npcGenerator';
+import { getTopicsForSkills } from '../../src/generators/experienceGenerator';
+import { formatNPCAsMarkdown } from '../../src/formatters/markdownFormatter';
+import {
+  NPCResilience,
+  NPCTone,
+  NPC_DIFFICULTY_BY_TIER,
+  NPC_HP_BY_RESILIENCE,
+  isDaggerheartNPC,
+} from '../../src/models/npc';
+import { AdversaryType, Tier } from '../../src/models/daggerheart';
+import { Skill } from '../../src/models/dnd5e';
+
+// ============================================================================
+// GENERATION TESTS
+// ============================================================================
+
+describe('createNPC', () => {
+  it('should create a Social adversary with NPC details', () => {
+    const npc = createNPC('blacksmith');
+
+    expect(npc.type).toBe(AdversaryType.SOCIAL);
+    expect(isDaggerheartNPC(npc)).toBe(true);
+    expect(npc.npc.occupation).toBe('Blacksmith');
+    expect(npc.npc.secret.description).toBeTruthy();
+    expect(npc.npc.quirk.description).toBeTruthy();
+    expect(npc.npc.appearance).toMatch(/blacksmith/);
+  });
+
+  it('should be deterministic for a seed', () => {
+    const first = createNPC('innkeeper', Tier.ONE, NPCTone.FRIENDLY, 42);
+    const second = createNPC('innkeeper', Tier.ONE, NPCTone.FRIENDLY, 42);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should scale Difficulty and thresholds with tier', () => {
+    for (const tier of [Tier.ONE, Tier.TWO, Tier.THREE, Tier.FOUR]) {
+      const npc = createNPC('merchant', tier);
+      const [min, max] = NPC_DIFFICULTY_BY_TIER[tier];
+
+      expect(npc.evasion).toBeGreaterThanOrEqual(min);
+      expect(npc.evasion).toBeLessThanOrEqual(max);
+      expect(npc.thresholds.severe).toBe(npc.thresholds.major * 2);
+    }
+  });
+
+  it('should set resilience and HP from the role', () => {
+    const scholar = createNPC('scholar');
+    const guard = createNPC('town guard');
+    const [guardMin, guardMax] = NPC_HP_BY_RESILIENCE[NPCResilience.HARDY];
+
+    expect(scholar.npc.resilience).toBe(NPCResilience.FRAIL);
+    expect(scholar.stress).toBe(1);
+    expect(guard.npc.resilience).toBe(NPCResilience.HARDY);
+    expect(guard.hp).toBeGreaterThanOrEqual(guardMin);
+    expect(guard.hp).toBeLessThanOrEqual(guardMax);
+  });
+
+  it('should give social Experiences for the role', () => {
+    const noble = createNPC('noble', Tier.THREE);
+    const topics = noble.experience.map((e) => e.topic);
+
+    expect(topics[0]).toBe('Noble');
+    expect(noble.experience[0]?.bonus).toBe(3);
+    expect(topics).toContain('Negotiation');
+  });
+
+  it('should set attitude and tags from the tone', () => {
+    const npc = createNPC('smuggler', Tier.TWO, NPCTone.HOSTILE);
+
+    expect(npc.npc.tone).toBe(NPCTone.HOSTILE);
+    expect(npc.npc.attitude).toMatch(/unwelcoming/);
+    expect(npc.npc.secret.ifDiscovered).toMatch(/silence/);
+    expect(npc.tags).toEqual(['npc', 'smuggler', 'tier-2', 'hostile']);
+  });
+
+  it('should reject an empty role', () => {
+    expect(() => createNPC('  ')).toThrow('NPC role is required');
+  });
+});
+
+describe('getTopicsForSkills', () => {
+  it('should include social skills', () => {
+    expect(getTopicsForSkills([Skill.PERSUASION, Skill.INSIGHT])).toEqual([
+      'Negotiation',
+      'Reading People',
+    ]);
+  });
+});
+
+// ============================================================================
+// FORMATTER TESTS
+// ============================================================================
+
+describe('formatNPCAsMarkdown', () => {
+  it('should format the NPC stat block', () => {
+    const npc = createNPC('blacksmith', Tier.TWO, NPCTone.NEUTRAL, 'forge');
+    const markdown = formatNPCAsMarkdown(npc);
+
+    expect(markdown).toContain(`# ${npc.name}`);
+    expect(markdown).toContain(`, Blacksmith*`);
+    expect(markdown).toContain('| **Thresholds** | 6/12 |');
+    expect(markdown).toContain('## The Secret');
+    expect(markdown).toContain(`**${npc.npc.quirk.name}**: ${npc.npc.quirk.description}`);
+  });
+});
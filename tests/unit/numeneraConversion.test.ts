@@ -0,0 +1,213 @@
+/**
+ * Numenera Conversion Unit Tests
+ *
+ * Tests parsing of Numenera/Cypher System creature entries and their
+ * adaptation into the 5e -> Daggerheart pipeline.
+ *
+ * @module tests/unit/numeneraConversion.test
+ */
+
+import {
+  parseNumeneraStatBlock,
+  parseNumeneraStatBlockSafe,
+  validateNumeneraStatBlock,
+} from '../../src/parsers/numeneraParser';
+import {
+  convertNumeneraToDnD5e,
+  levelToCR,
+  levelToTier,
+  armorToThresholdBonus,
+} from '../../src/converters/numeneraAdapter';
+import { NumeneraMovementMode, NumeneraRange, parseModifications } from '../../src/models/numenera';
+import { convertFromAnyText, detectSourceSystem } from '../../src/orchestrator/converter';
+import { crToTier } from '../../src/converters/crToTier';
+import { FeatureCostType, FeatureType, Tier } from '../../src/models/daggerheart';
+import { DnD5eDamageType } from '../../src/models/dnd5e';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const HOTSKIVE_TEXT = `
+  HOTSKIVE 3 (9)
+  A hotskive is a scaly, six-legged predator that lives in volcanic regions.
+  Motive: Hungers for flesh
+  Environment: Anywhere hot, usually in packs of three to five
+  Health: 9
+  Damage Inflicted: 4 points + 1 point of heat
+  Armor: 1
+  Movement: Short
+  Modifications: Speed defense as level 4 due to quickness; perception as level 5.
+  Combat: A hotskive bites with its burning maw. Its body radiates heat, so anyone
+  within immediate range takes 1 point of fire damage each round. Hotskives are
+  immune to cold.
+  Loot: A hotskive's heat gland can be sold for 5 shins.
+  GM Intrusion: The hotskive's heat ignites the character's clothing.
+`;
+
+// ============================================================================
+// PARSER TESTS
+// ============================================================================
+
+describe('parseNumeneraStatBlock', () => {
+  it('should parse the header level and target number', () => {
+    const hotskive = parseNumeneraStatBlock(HOTSKIVE_TEXT);
+    expect(hotskive.name).toBe('Hotskive');
+    expect(hotskive.level).toBe(3);
+    expect(hotskive.targetNumber).toBe(9);
+  });
+
+  it('should parse core statistics', () => {
+    const hotskive = parseNumeneraStatBlock(HOTSKIVE_TEXT);
+    expect(hotskive.health).toBe(9);
+    expect(hotskive.armor).toBe(1);
+    expect(hotskive.damage.points).toBe(4);
+    expect(hotskive.damage.extraPoints).toBe(1);
+    expect(hotskive.damage.extraType).toBe('heat');
+    expect(hotskive.movement).toEqual([
+      { mode: NumeneraMovementMode.WALK, range: NumeneraRange.SHORT },
+    ]);
+  });
+
+  it('should join wrapped lines into a single field', () => {
+    const hotskive = parseNumeneraStatBlock(HOTSKIVE_TEXT);
+    expect(hotskive.combat).toMatch(/anyone within immediate range/);
+    expect(hotskive.gmIntrusions).toHaveLength(1);
+    expect(hotskive.description).toMatch(/six-legged predator/);
+  });
+
+  it('should read the level from a Level line', () => {
+    const text = HOTSKIVE_TEXT.replace('HOTSKIVE 3 (9)', 'Hotskive\n  Level: 3');
+    expect(parseNumeneraStatBlock(text).level).toBe(3);
+  });
+
+  it('should warn when the listed target number does not match the level', () => {
+    const result = parseNumeneraStatBlockSafe(HOTSKIVE_TEXT.replace('3 (9)', '3 (12)'));
+    expect(result.result?.targetNumber).toBe(9);
+    expect(result.warnings.join(' ')).toMatch(/target number 12/);
+  });
+
+  it('should fail without Health', () => {
+    const result = parseNumeneraStatBlockSafe(HOTSKIVE_TEXT.replace('Health: 9', ''));
+    expect(result.result).toBeUndefined();
+    expect(result.errors).toContain('Could not parse Health');
+  });
+
+  it('should parse extra movement modes', () => {
+    const text = HOTSKIVE_TEXT.replace('Movement: Short', 'Movement: Immediate; long when flying');
+    expect(parseNumeneraStatBlock(text).movement).toEqual([
+      { mode: NumeneraMovementMode.WALK, range: NumeneraRange.IMMEDIATE },
+      { mode: NumeneraMovementMode.FLY, range: NumeneraRange.LONG },
+    ]);
+  });
+
+  it('should report no issues for a valid stat block', () => {
+    expect(validateNumeneraStatBlock(parseNumeneraStatBlock(HOTSKIVE_TEXT))).toEqual([]);
+  });
+});
+
+describe('parseModifications', () => {
+  it('should split multiple tasks at one level', () => {
+    expect(parseModifications('Attacks and Speed defense as level 5; stealth as level 2')).toEqual([
+      { task: 'attacks', level: 5 },
+      { task: 'speed defense', level: 5 },
+      { task: 'stealth', level: 2 },
+    ]);
+  });
+});
+
+// ============================================================================
+// ADAPTER TESTS
+// ============================================================================
+
+describe('Numenera level mapping', () => {
+  it('should follow the documented level to tier table', () => {
+    const expected: Array<[number, Tier]> = [
+      [1, Tier.ONE], [2, Tier.ONE],
+      [3, Tier.TWO], [4, Tier.TWO],
+      [5, Tier.THREE], [6, Tier.THREE],
+      [7, Tier.FOUR], [10, Tier.FOUR],
+    ];
+
+    for (const [level, tier] of expected) {
+      expect(levelToTier(level)).toBe(tier);
+      expect(crToTier(levelToCR(level))).toBe(tier);
+    }
+  });
+
+  it('should add more threshold per Armor at higher tiers', () => {
+    expect(armorToThresholdBonus(2, Tier.TWO)).toBe(2);
+    expect(armorToThresholdBonus(2, Tier.THREE)).toBe(4);
+    expect(armorToThresholdBonus(0, Tier.FOUR)).toBe(0);
+  });
+});
+
+describe('convertNumeneraToDnD5e', () => {
+  it('should map Health, Armor and GM intrusions to adjustments', () => {
+    const { adjustments } = convertNumeneraToDnD5e(parseNumeneraStatBlock(HOTSKIVE_TEXT));
+
+    expect(adjustments.hp).toBe(9);
+    expect(adjustments.thresholdBonus).toBe(1);
+    expect(adjustments.intrusionFeatures).toHaveLength(1);
+    expect(adjustments.intrusionFeatures[0]?.name).toBe('Searing Heat');
+    expect(adjustments.intrusionFeatures[0]?.type).toBe(FeatureType.ACTION);
+    expect(adjustments.intrusionFeatures[0]?.cost?.type).toBe(FeatureCostType.STRESS);
+    expect(adjustments.intrusionFeatures[0]?.cost?.amount).toBe(2);
+    expect(adjustments.intrusionFeatures[0]?.description).toMatch(/the target's clothing/);
+  });
+
+  it('should convert damage and special damage to an attack', () => {
+    const { result } = convertNumeneraToDnD5e(parseNumeneraStatBlock(HOTSKIVE_TEXT));
+    const attack = result.attacks?.[0];
+
+    expect(attack?.name).toBe('Bite');
+    expect(attack?.damage.dice.count).toBe(4);
+    expect(attack?.damage.additionalDamage?.[0]?.damageType).toBe(DnD5eDamageType.FIRE);
+  });
+
+  it('should convert combat abilities and modifications to traits', () => {
+    const { result } = convertNumeneraToDnD5e(parseNumeneraStatBlock(HOTSKIVE_TEXT));
+    const names = result.traits?.map((t) => t.name) ?? [];
+
+    expect(names).toContain('Cold Immunity');
+    expect(names).toContain('Fire Aura');
+    expect(names).toContain('Perception');
+  });
+
+  it('should use speed defense for AC', () => {
+    const hotskive = parseNumeneraStatBlock(HOTSKIVE_TEXT);
+    const withoutDefense = { ...hotskive, modifications: [] };
+
+    expect(convertNumeneraToDnD5e(hotskive).result.armorClass.value).toBeGreaterThan(
+      convertNumeneraToDnD5e(withoutDefense).result.armorClass.value
+    );
+  });
+});
+
+// ============================================================================
+// PIPELINE TESTS
+// ============================================================================
+
+describe('Numenera conversion in the pipeline', () => {
+  it('should detect Numenera stat blocks', () => {
+    expect(detectSourceSystem(HOTSKIVE_TEXT).system).toBe('Numenera');
+  });
+
+  it('should apply Numenera adjustments to the adversary', () => {
+    const result = convertFromAnyText(HOTSKIVE_TEXT);
+    const adversary = result.adversary;
+
+    expect(result.sourceSystem).toBe('Numenera');
+    expect(adversary.tier).toBe(Tier.TWO);
+    expect(adversary.hp).toBe(9);
+    expect(adversary.features.map((f) => f.name)).toContain('Searing Heat');
+  });
+
+  it('should raise thresholds by the Armor bonus', () => {
+    const armored = convertFromAnyText(HOTSKIVE_TEXT).adversary;
+    const unarmored = convertFromAnyText(HOTSKIVE_TEXT.replace('Armor: 1', 'Armor: 0')).adversary;
+
+    expect(armored.thresholds.major).toBe(unarmored.thresholds.major + 1);
+    expect(armored.thresholds.severe).toBe(unarmored.thresholds.severe + 1);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * OCR Repair Unit Tests
+ *
+ * Tests the PDF copy repair pass: ligatures and invisible characters,
+ * hyphenated and wrapped lines, two-column text, flattened ability
+ * tables, the repair report, and parsing and converting with
+ * `repairOcr` enabled.
+ *
+ * @module tests/unit/ocrRepair.test
+ */
+
+import { repairOcrText } from '../../src/parsers/ocrRepair';
+import { parseStatBlockSafe } from '../../src/parsers/statBlockParser';
+import { parseDocument } from '../../src/parsers/documentParser';
+import { convertFromText } from '../../src/orchestrator/converter';
+import {
+  BALOR_2014_TEXT,
+  GOBLIN_2014_TEXT,
+  GOBLIN_PDF_TEXT,
+  GOBLIN_TWO_COLUMN_TEXT,
+} from '../fixtures/stat-block-text';
+
+// ============================================================================
+// REPAIR PASSES
+// ============================================================================
+
+describe('repairOcrText', () => {
+  it('leaves clean stat blocks unchanged', () => {
+    const { text, repairs } = repairOcrText(GOBLIN_2014_TEXT);
+
+    expect(text).toBe(GOBLIN_2014_TEXT);
+    expect(repairs).toHaveLength(0);
+  });
+
+  it('replaces ligatures and invisible characters', () => {
+    const { text, repairs } = repairOcrText('Pro\ufb01ciency\u00a0Bonus +2\nShort\u00adbow');
+
+    expect(text).toBe('Proficiency Bonus +2\nShortbow');
+    expect(repairs.map((repair) => repair.kind)).toEqual(['ligature', 'character', 'character']);
+    expect(repairs[0]?.line).toBe(1);
+    expect(repairs[2]?.line).toBe(2);
+  });
+
+  it('rejoins words hyphenated across lines', () => {
+    const { text, repairs } = repairOcrText('The goblin can take the Disengage ac-\ntion as a bonus action.');
+
+    expect(text).toBe('The goblin can take the Disengage action as a bonus action.');
+    expect(repairs[0]?.kind).toBe('hyphenation');
+    expect(repairs[0]?.description).toBe('Rejoined hyphenated word "action"');
+  });
+
+  it('rejoins wrapped field values', () => {
+    expect(repairOcrText('Hit Points\n7 (2d6)').text).toBe('Hit Points 7 (2d6)');
+    expect(repairOcrText('Hit Points 7\n(2d6)').text).toBe('Hit Points 7 (2d6)');
+    expect(repairOcrText('Hit\nPoints 7 (2d6)').text).toBe('Hit Points 7 (2d6)');
+    expect(repairOcrText('Senses darkvision 60 ft.,\npassive Perception 9').text).toBe(
+      'Senses darkvision 60 ft., passive Perception 9'
+    );
+    expect(repairOcrText('Speed 30 ft.\nSTR DEX CON INT WIS CHA').repairs).toHaveLength(0);
+  });
+
+  it('rejoins attack text broken after the action name', () => {
+    const { text } = repairOcrText(
+      'Scimitar.\nMelee Weapon Attack: +4 to hit, reach 5 ft., one target.\nHit: 5 (1d6 + 2) slashing damage.'
+    );
+
+    expect(text).toBe('Scimitar. Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.');
+  });
+
+  it('rebuilds ability tables flattened or out of order', () => {
+    const table = 'STR DEX CON INT WIS CHA\n8 (-1) 14 (+2) 10 (+0) 10 (+0) 8 (-1) 8 (-1)';
+
+    expect(repairOcrText('STR\n8 (−1)\nDEX\n14 (+2)\nCON\n10 (+0)\nINT\n10 (+0)\nWIS\n8 (−1)\nCHA\n8 (−1)').text).toBe(table);
+    expect(repairOcrText('STR DEX CON\n8 (-1) 14 (+2) 10 (+0)\nINT WIS CHA\n10 (+0) 8 (-1) 8 (-1)').text).toBe(table);
+    expect(repairOcrText('CHA WIS INT CON DEX STR\n8 (-1) 8 (-1) 10 (+0) 10 (+0) 14 (+2) 8 (-1)').text).toBe(table);
+    expect(repairOcrText(table).repairs).toHaveLength(0);
+  });
+
+  it('leaves a one-line ability table unchanged', () => {
+    const line = 'STR 26 (+8) DEX 15 (+2) CON 22 (+6) INT 20 (+5) WIS 16 (+3) CHA 22 (+6)';
+    const { text, repairs } = repairOcrText(`Speed 40 ft., fly 80 ft.\n${line}\nSaving Throws Str +14`);
+
+    expect(repairs).toHaveLength(0);
+    expect(text).toContain(line);
+    expect(repairOcrText(BALOR_2014_TEXT).repairs.filter((repair) => repair.kind === 'ability-table')).toHaveLength(0);
+  });
+
+  it('separates two columns pasted side by side', () => {
+    const { text, repairs } = repairOcrText(GOBLIN_TWO_COLUMN_TEXT);
+    const lines = text.split('\n');
+
+    expect(lines[1]).toBe('Goblin');
+    expect(lines[2]).toBe('Small humanoid (goblinoid), neutral evil');
+    expect(lines.slice(-3)[0]).toBe('Actions');
+    expect(repairs.filter((repair) => repair.kind === 'column')).toHaveLength(3);
+    // Spaced-out ability tables are not columns
+    expect(text).toContain('STR     DEX     CON     INT     WIS     CHA');
+  });
+
+  it('reports each repair with its input line', () => {
+    const { repairs } = repairOcrText(GOBLIN_PDF_TEXT);
+
+    expect(repairs.map((repair) => repair.kind).sort()).toEqual([
+      'ability-table',
+      'hyphenation',
+      'ligature',
+      'wrapped-line',
+      'wrapped-line',
+      'wrapped-line',
+      'wrapped-line',
+      'wrapped-line',
+    ]);
+    const hitPoints = repairs.find((repair) => repair.before.startsWith('Hit Points'));
+    expect(hitPoints?.line).toBe(5);
+    expect(hitPoints?.after).toBe('Hit Points 7 (2d6)');
+  });
+});
+
+// ============================================================================
+// PARSING WITH REPAIR
+// ============================================================================
+
+describe('parseStatBlockSafe with repairOcr', () => {
+  it('fails on PDF artifacts without repair', () => {
+    const result = parseStatBlockSafe(GOBLIN_PDF_TEXT);
+
+    expect(result.result).toBeUndefined();
+    expect(result.repairs).toBeUndefined();
+  });
+
+  it('parses PDF artifacts with repair', () => {
+    const { result, errors, repairs } = parseStatBlockSafe(GOBLIN_PDF_TEXT, { repairOcr: true });
+
+    expect(errors).toHaveLength(0);
+    expect(repairs?.length).toBe(8);
+    expect(result?.hitPoints.average).toBe(7);
+    expect(result?.abilityScores).toEqual({ STR: 8, DEX: 14, CON: 10, INT: 10, WIS: 8, CHA: 8 });
+    expect(result?.senses.passivePerception).toBe(9);
+    expect(result?.challengeRating.cr).toBe('1/4');
+    expect(result?.attacks?.[0]?.name).toBe('Scimitar');
+    expect(result?.attacks?.[0]?.toHit).toBe(4);
+  });
+
+  it('parses two-column text with repair', () => {
+    const { result } = parseStatBlockSafe(GOBLIN_TWO_COLUMN_TEXT, { repairOcr: true });
+
+    expect(result?.name).toBe('Goblin');
+    expect(result?.attacks?.map((attack) => attack.name)).toEqual(['Scimitar', 'Shortbow']);
+  });
+
+  it('reports repairs at document line numbers', () => {
+    const document = `Chapter 1\n\nGoblins attack.\n${GOBLIN_PDF_TEXT}`;
+    const { blocks } = parseDocument(document, { repairOcr: true });
+    const hitPoints = blocks[0]?.repairs?.find((repair) => repair.before.startsWith('Hit Points'));
+
+    expect(blocks[0]?.result?.name).toBe('Goblin');
+    expect(hitPoints?.line).toBe(8);
+  });
+
+  it('logs repairs during conversion', () => {
+    const result = convertFromText(GOBLIN_PDF_TEXT, { repairOcr: true });
+
+    expect(result.adversary.name).toBe('Goblin');
+    expect(result.conversionLog).toContain('  - Repaired 8 PDF copy artifacts');
+  });
+});
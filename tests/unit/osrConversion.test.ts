@@ -0,0 +1,133 @@
+/**
+ * OSR Conversion Unit Tests
+ *
+ * Tests carrying OSR morale, number appearing, and treasure type into
+ * the Daggerheart result.
+ *
+ * @module tests/unit/osrConversion.test
+ */
+
+import { parseOSRStatBlock } from '../../src/parsers/osrParser';
+import { convertOSRToDnD5e, createGroupFeature } from '../../src/converters/osrAdapter';
+import { parseNumberAppearing } from '../../src/models/osr';
+import { convertFromAnyText } from '../../src/orchestrator/converter';
+import { AdversaryType, FeatureType } from '../../src/models/daggerheart';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const GOBLIN_TEXT = `
+  Goblin
+  AC 6 [13], HD 1-1, Att 1 × weapon (1d6), THAC0 19 [+0], MV 60' (20'),
+  SV D14 W15 P16 B17 S18, ML 7, AL Chaotic, XP 5, NA 2d4 (6d10), TT R
+`;
+
+const RAT_TEXT = `
+  Giant Rat
+  AC 7 [12], HD 1/2, Att 1 × bite (1d3), THAC0 19 [+0], MV 120' (40'),
+  SV D12 W13 P14 B15 S16, ML 8, AL Neutral, XP 5, NA 3d6 (3d10), TT C
+`;
+
+const OGRE_TEXT = `
+  Ogre
+  AC 5 [14], HD 4+1, Att 1 × club (1d10), THAC0 15 [+4], MV 90' (30'),
+  SV D10 W11 P12 B13 S14, ML 12, AL Chaotic, XP 125, NA 1d6 (2d6), TT C
+`;
+
+// ============================================================================
+// NUMBER APPEARING
+// ============================================================================
+
+describe('parseNumberAppearing', () => {
+  it('should parse dice expressions', () => {
+    expect(parseNumberAppearing('2d4')).toEqual({ raw: '2d4', min: 2, max: 8, average: 5 });
+    expect(parseNumberAppearing('1d6+1')).toEqual({ raw: '1d6+1', min: 2, max: 7, average: 5 });
+  });
+
+  it('should parse plain counts and ranges', () => {
+    expect(parseNumberAppearing('1')).toEqual({ raw: '1', min: 1, max: 1, average: 1 });
+    expect(parseNumberAppearing('2-12')).toEqual({ raw: '2-12', min: 2, max: 12, average: 7 });
+  });
+
+  it('should return undefined when none appear', () => {
+    expect(parseNumberAppearing('0')).toBeUndefined();
+    expect(parseNumberAppearing('special')).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+describe('convertOSRToDnD5e adjustments', () => {
+  it('should turn morale into a break reaction', () => {
+    const { adjustments } = convertOSRToDnD5e(parseOSRStatBlock(GOBLIN_TEXT));
+    const morale = adjustments.moraleFeature;
+
+    expect(morale.name).toBe('Morale (7)');
+    expect(morale.type).toBe(FeatureType.REACTION);
+    expect(morale.trigger?.description).toBe('Its side suffers its first casualty, or half its side is defeated');
+    expect(morale.description).toContain('Roll 2d6. On a result above 7 (42% chance)');
+  });
+
+  it('should make morale 12 a passive', () => {
+    const { adjustments } = convertOSRToDnD5e(parseOSRStatBlock(OGRE_TEXT));
+
+    expect(adjustments.moraleFeature.name).toBe('Fearless');
+    expect(adjustments.moraleFeature.type).toBe(FeatureType.PASSIVE);
+  });
+
+  it('should pick a group type from number appearing', () => {
+    expect(convertOSRToDnD5e(parseOSRStatBlock(GOBLIN_TEXT)).adjustments.typeOverride?.type).toBe(
+      AdversaryType.MINION
+    );
+    expect(convertOSRToDnD5e(parseOSRStatBlock(RAT_TEXT)).adjustments.typeOverride?.type).toBe(
+      AdversaryType.HORDE
+    );
+    expect(convertOSRToDnD5e(parseOSRStatBlock(OGRE_TEXT)).adjustments.typeOverride).toBeUndefined();
+  });
+
+  it('should describe individual and lair treasure types', () => {
+    expect(convertOSRToDnD5e(parseOSRStatBlock(GOBLIN_TEXT)).adjustments.treasureNote).toContain(
+      'carried by each creature'
+    );
+    expect(convertOSRToDnD5e(parseOSRStatBlock(RAT_TEXT)).adjustments.treasureNote).toContain('a lair hoard');
+  });
+
+  it('should size Hordes by creatures per HP', () => {
+    const feature = createGroupFeature({ raw: '3d6', min: 3, max: 18, average: 11 }, AdversaryType.HORDE, 5);
+
+    expect(feature?.name).toBe('Horde (2/HP)');
+    expect(createGroupFeature({ raw: '1d6', min: 1, max: 6, average: 4 }, AdversaryType.STANDARD, 5)).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+describe('convertFromAnyText with OSR mechanics', () => {
+  it('should convert groups of weak creatures to sized Minions', () => {
+    const { adversary } = convertFromAnyText(GOBLIN_TEXT);
+
+    expect(adversary.type).toBe(AdversaryType.MINION);
+    expect(adversary.features.map((f) => f.name)).toEqual(['Morale (7)', 'Group (2d4)']);
+  });
+
+  it('should convert large groups to a Horde', () => {
+    const { adversary } = convertFromAnyText(RAT_TEXT);
+
+    expect(adversary.type).toBe(AdversaryType.HORDE);
+    expect(adversary.features.some((f) => /^Horde \(\d+\/HP\)$/.test(f.name))).toBe(true);
+  });
+
+  it('should add the treasure type to the loot', () => {
+    const result = convertFromAnyText(GOBLIN_TEXT, { includeLoot: true });
+
+    expect(result.loot?.note).toBe(
+      'Treasure Type R: carried by each creature, so roll this drop for every one defeated.'
+    );
+    expect(result.markdown).toContain('> Treasure Type R');
+  });
+});
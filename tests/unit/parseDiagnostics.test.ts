@@ -0,0 +1,167 @@
+/**
+ * Parse Diagnostics Unit Tests
+ *
+ * Tests field source spans and coded diagnostics from the D&D 5e,
+ * Pathfinder 2e, and OSR text parsers, including spans moved to
+ * document lines and back through the OCR repair pass.
+ *
+ * @module tests/unit/parseDiagnostics.test
+ */
+
+import { parseStatBlockSafe } from '../../src/parsers/statBlockParser';
+import { parsePF2eStatBlockSafe } from '../../src/parsers/pf2eParser';
+import { parseOSRStatBlockSafe } from '../../src/parsers/osrParser';
+import { parseDocument } from '../../src/parsers/documentParser';
+import { SourceSpan } from '../../src/parsers/diagnostics';
+import {
+  GOBLIN_2014_TEXT,
+  ADULT_RED_DRAGON_2014_TEXT,
+  GOBLIN_PDF_TEXT,
+} from '../fixtures/stat-block-text';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Returns the input text covered by a span. */
+function textAt(text: string, span: SourceSpan | undefined): string {
+  if (!span) return '';
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const covered = lines.slice(span.startLine - 1, span.endLine);
+  const last = covered.length - 1;
+  covered[last] = covered[last]?.slice(0, span.endColumn - 1) ?? '';
+  covered[0] = covered[0]?.slice(span.startColumn - 1) ?? '';
+  return covered.join('\n');
+}
+
+const PF2E_GOBLIN = `
+Goblin Warrior Creature -1
+CE Small Goblin Humanoid
+Perception +2; darkvision
+Skills Acrobatics +5, Athletics +2, Stealth +5
+Str +0, Dex +3, Con +1, Int +0, Wis -1, Cha +1
+AC 16; Fort +5, Ref +7, Will +3
+HP 6
+Speed 25 feet
+Melee dogslicer +7 (agile, finesse), Damage 1d6 slashing
+`;
+
+const OSR_GHOUL = `
+  Ghoul
+  AC 6 [13], HD 2* (9hp), Att 2 × claw (1d3 + paralysis),
+  THAC0 18 [+1], MV 90' (30'), SV D12 W13 P14 B15 S16 (1),
+  ML 9, AL Chaotic, XP 25, infravision 60'
+`;
+
+// ============================================================================
+// D&D 5e
+// ============================================================================
+
+describe('parseStatBlockSafe spans', () => {
+  it('locates every parsed field in the input', () => {
+    const { spans, diagnostics } = parseStatBlockSafe(GOBLIN_2014_TEXT);
+
+    expect(diagnostics).toHaveLength(0);
+    expect(textAt(GOBLIN_2014_TEXT, spans.name)).toBe('Goblin');
+    expect(textAt(GOBLIN_2014_TEXT, spans.hitPoints)).toBe('Hit Points 7 (2d6)');
+    expect(spans.hitPoints?.startLine).toBe(GOBLIN_2014_TEXT.split('\n').indexOf('Hit Points 7 (2d6)') + 1);
+    expect(textAt(GOBLIN_2014_TEXT, spans['attacks.0'])).toMatch(/^Scimitar\. Melee Weapon Attack/);
+    expect(textAt(GOBLIN_2014_TEXT, spans.challengeRating)).toMatch(/^Challenge 1\/4/);
+  });
+
+  it('locates section entries and whole sections', () => {
+    const { spans } = parseStatBlockSafe(ADULT_RED_DRAGON_2014_TEXT);
+
+    expect(textAt(ADULT_RED_DRAGON_2014_TEXT, spans['legendaryActions.actions.0'])).toMatch(/^Detect\./);
+    expect(textAt(ADULT_RED_DRAGON_2014_TEXT, spans.legendaryActions)).toMatch(/^Legendary Actions\n/);
+  });
+
+  it('reports failures with a code and the line that was misread', () => {
+    const text = 'Torn Page\nLarge beast, unaligned\nArmor Class 12\nHit Points many\nSpeed 30 ft.';
+    const { errors, diagnostics } = parseStatBlockSafe(text);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]?.code).toBe('missing-hit-points');
+    expect(diagnostics[0]?.severity).toBe('error');
+    expect(diagnostics[0]?.message).toBe(errors[0]);
+    expect(textAt(text, diagnostics[0]?.span)).toBe('Hit Points many');
+  });
+
+  it('reports a blank stat block without a span', () => {
+    const { diagnostics } = parseStatBlockSafe('   ');
+
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(['missing-header']);
+    expect(diagnostics[0]?.span).toBeUndefined();
+  });
+
+  it('maps spans of repaired text back to the pasted lines', () => {
+    const { spans } = parseStatBlockSafe(GOBLIN_PDF_TEXT, { repairOcr: true });
+
+    expect(spans.hitPoints?.startLine).toBe(5);
+  });
+
+  it('moves spans to document lines', () => {
+    const document = `Chapter 1\n\nGoblins attack.\n\n${GOBLIN_2014_TEXT.trim()}`;
+    const { blocks } = parseDocument(document);
+
+    expect(textAt(document, blocks[0]?.spans.name)).toBe('Goblin');
+    expect(blocks[0]?.spans.name?.startLine).toBe(5);
+    expect(textAt(document, blocks[0]?.spans.hitPoints)).toBe('Hit Points 7 (2d6)');
+  });
+});
+
+// ============================================================================
+// PATHFINDER 2e
+// ============================================================================
+
+describe('parsePF2eStatBlockSafe spans', () => {
+  it('locates every parsed field in the input', () => {
+    const { spans, diagnostics } = parsePF2eStatBlockSafe(PF2E_GOBLIN);
+
+    expect(diagnostics).toHaveLength(0);
+    expect(spans.name?.startLine).toBe(2);
+    expect(textAt(PF2E_GOBLIN, spans.ac)).toBe('AC 16; Fort +5, Ref +7, Will +3');
+    expect(textAt(PF2E_GOBLIN, spans.hp)).toBe('HP 6');
+    expect(textAt(PF2E_GOBLIN, spans['melee.0'])).toMatch(/^Melee dogslicer/);
+    expect(spans.weaknesses).toBeUndefined();
+  });
+
+  it('reports an invalid header on its line', () => {
+    const text = 'Goblin Warrior\nCE Small Goblin Humanoid\nAC 16';
+    const { diagnostics } = parsePF2eStatBlockSafe(text);
+
+    expect(diagnostics[0]?.code).toBe('invalid-header');
+    expect(textAt(text, diagnostics[0]?.span)).toBe('Goblin Warrior');
+  });
+});
+
+// ============================================================================
+// OSR
+// ============================================================================
+
+describe('parseOSRStatBlockSafe spans', () => {
+  it('locates each field within the run-on stats line', () => {
+    const { spans, diagnostics } = parseOSRStatBlockSafe(OSR_GHOUL);
+
+    expect(diagnostics).toHaveLength(0);
+    expect(textAt(OSR_GHOUL, spans.name)).toBe('Ghoul');
+    expect(textAt(OSR_GHOUL, spans.ac)).toBe('AC 6 [13]');
+    expect(textAt(OSR_GHOUL, spans.hd)).toBe('HD 2* (9hp)');
+    expect(textAt(OSR_GHOUL, spans.toHit)).toBe('THAC0 18 [+1]');
+    expect(textAt(OSR_GHOUL, spans.saves)).toBe('SV D12 W13 P14 B15 S16 (1)');
+    expect(textAt(OSR_GHOUL, spans.morale)).toBe('ML 9');
+    expect(textAt(OSR_GHOUL, spans['specialAbilities.0'])).toBe("infravision 60'");
+    expect(spans.morale?.startLine).toBe(5);
+  });
+
+  it('reports missing fields with codes', () => {
+    expect(parseOSRStatBlockSafe('Blob\nHD 2').diagnostics[0]?.code).toBe('missing-armor-class');
+    expect(parseOSRStatBlockSafe('Blob\nAC 5').diagnostics[0]?.code).toBe('missing-hit-dice');
+
+    const { result, diagnostics } = parseOSRStatBlockSafe('Blob\nAC 5, HD 2');
+    expect(result).toBeDefined();
+    expect(diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.severity])).toEqual([
+      ['missing-to-hit', 'warning'],
+    ]);
+  });
+});
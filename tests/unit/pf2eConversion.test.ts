@@ -0,0 +1,171 @@
+/**
+ * Pathfinder 2e Conversion Unit Tests
+ *
+ * Tests the native PF2e -> Daggerheart conversion: tier placement from
+ * level, weaknesses, action costs, reaction triggers, and trait tags.
+ *
+ * @module tests/unit/pf2eConversion.test
+ */
+
+import { parsePF2eStatBlock } from '../../src/parsers/pf2eParser';
+import {
+  convertPF2eToDaggerheart,
+  pf2eLevelToTierPlacement,
+} from '../../src/converters/pf2eConversion';
+import { convertFromAnyText, convertFromPF2e } from '../../src/orchestrator/converter';
+import { PF2eActionCost } from '../../src/models/pf2e';
+import {
+  AdversaryType,
+  Attribute,
+  FeatureCostType,
+  FeatureType,
+  RangeBand,
+  Tier,
+} from '../../src/models/daggerheart';
+import { assertValidAdversary } from '../helpers/testUtils';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const TROLL_TEXT = `
+  Troll Creature 5
+  CE Large Giant Troll
+  Perception +11; darkvision
+  Languages Jotun
+  Skills Athletics +12, Intimidation +12
+  Str +5, Dex +2, Con +6, Int -2, Wis +0, Cha -2
+  AC 20; Fort +17, Ref +11, Will +7
+  HP 115, regeneration 20 (deactivated by acid or fire); Weaknesses fire 10
+  Attack of Opportunity [reaction] Trigger A creature within reach uses a manipulate action; Effect The troll makes a melee Strike.
+  Speed 30 feet
+  Melee [one-action] jaws +14 (reach 10 feet), Damage 2d10+8 piercing
+  Melee [one-action] claw +14 (agile, reach 10 feet), Damage 2d8+8 slashing
+  Furious Slam [three-action] The troll slams everything nearby, DC 22 basic Reflex save.
+  Fling [two-action] The troll hurls a creature it has grabbed.
+`;
+
+// ============================================================================
+// TIER PLACEMENT
+// ============================================================================
+
+describe('pf2eLevelToTierPlacement', () => {
+  it('places levels within their tier', () => {
+    expect(pf2eLevelToTierPlacement(-1)).toEqual({ tier: Tier.ONE, placement: 0 });
+    expect(pf2eLevelToTierPlacement(5)).toEqual({ tier: Tier.TWO, placement: 0.5 });
+    expect(pf2eLevelToTierPlacement(14)).toEqual({ tier: Tier.THREE, placement: 1 });
+  });
+
+  it('caps placement for levels beyond 25', () => {
+    expect(pf2eLevelToTierPlacement(30)).toEqual({ tier: Tier.FOUR, placement: 1 });
+  });
+
+  it('scales stats with placement inside the same tier', () => {
+    const atLevel = (level: number, hp: number) =>
+      convertPF2eToDaggerheart(
+        parsePF2eStatBlock(TROLL_TEXT.replace('Creature 5', `Creature ${level}`).replace('HP 115', `HP ${hp}`))
+      );
+    const low = atLevel(3, 55);
+    const high = atLevel(7, 120);
+
+    expect(low.adversary.tier).toBe(high.adversary.tier);
+    expect(low.adversary.type).toBe(high.adversary.type);
+    expect(high.adversary.hp).toBeGreaterThan(low.adversary.hp);
+    expect(high.adversary.stress).toBeGreaterThanOrEqual(low.adversary.stress);
+  });
+});
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+describe('convertPF2eToDaggerheart', () => {
+  const { adversary, creatureType, conversionNotes } = convertPF2eToDaggerheart(
+    parsePF2eStatBlock(TROLL_TEXT)
+  );
+
+  it('produces a valid adversary', () => {
+    assertValidAdversary(adversary);
+    expect(adversary.sourceSystem).toBe('Pathfinder 2e');
+    expect(adversary.sourceCR).toBe(5);
+    expect(creatureType).toBe('Giant');
+    expect(conversionNotes[0]).toBe('Level 5 sits middle in Tier 2 (levels 3-7)');
+  });
+
+  it('converts weaknesses to vulnerability features', () => {
+    const weakness = adversary.features.find((f) => f.name === 'Fire Weakness');
+
+    expect(weakness?.type).toBe(FeatureType.PASSIVE);
+    expect(weakness?.description).toBe('When this adversary takes fire damage, it marks an additional HP.');
+  });
+
+  it('costs two-action activities Stress and three-action activities Fear', () => {
+    const fling = adversary.features.find((f) => f.name === 'Fling');
+    const slam = adversary.features.find((f) => f.name === 'Furious Slam');
+
+    expect(fling?.cost).toEqual({ type: FeatureCostType.STRESS, amount: 1 });
+    expect(slam?.cost).toEqual({ type: FeatureCostType.FEAR, amount: 1 });
+    expect(slam?.reactionRollAttribute).toBe(Attribute.AGILITY);
+    expect(slam?.reactionRollDifficulty).toBe(16);
+  });
+
+  it('keeps reaction triggers', () => {
+    const reaction = adversary.features.find((f) => f.name === 'Attack of Opportunity');
+
+    expect(reaction?.type).toBe(FeatureType.REACTION);
+    expect(reaction?.trigger?.description).toBe('A creature within reach uses a manipulate action');
+    expect(reaction?.description).toBe('The troll makes a melee Strike.');
+  });
+
+  it('converts strikes with reach', () => {
+    expect(adversary.attack.name).toBe('Jaws');
+    expect(adversary.attack.range).toBe(RangeBand.VERY_CLOSE);
+    expect(adversary.attack.damage.diceSize).toBe(10);
+    expect(adversary.additionalAttacks?.map((a) => a.name)).toEqual(['Claw']);
+  });
+
+  it('turns traits into tags', () => {
+    expect(adversary.tags).toEqual(['giant', 'troll', 'large']);
+  });
+
+  it('classifies swarms as Hordes and unique creatures as Solos', () => {
+    const swarm = parsePF2eStatBlock(TROLL_TEXT.replace('Large Giant Troll', 'Large Animal Swarm'));
+    const unique = parsePF2eStatBlock(TROLL_TEXT.replace('CE Large', 'Unique CE Large'));
+
+    expect(convertPF2eToDaggerheart(swarm).adversary.type).toBe(AdversaryType.HORDE);
+    expect(convertPF2eToDaggerheart(unique).adversary.type).toBe(AdversaryType.SOLO);
+  });
+});
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+describe('convertFromPF2e', () => {
+  it('converts text and parsed stat blocks alike', () => {
+    const fromText = convertFromPF2e(TROLL_TEXT);
+    const fromBlock = convertFromPF2e(parsePF2eStatBlock(TROLL_TEXT));
+
+    expect(fromText.adversary).toEqual(fromBlock.adversary);
+    expect(fromText.sourceSystem).toBe('Pathfinder 2e');
+    expect(fromText.markdown).toContain('Fire Weakness');
+  });
+
+  it('is used by convertFromAnyText for PF2e input', () => {
+    const result = convertFromAnyText(TROLL_TEXT);
+
+    expect(result.detection?.system).toBe('Pathfinder 2e');
+    expect(result.adversary.tags).toContain('troll');
+    expect(result.designNotes?.conversionRationale).toContain('Classified as Bruiser');
+  });
+
+  it('parses ability names and action costs', () => {
+    const troll = parsePF2eStatBlock(TROLL_TEXT);
+
+    expect(troll.activeAbilities?.map((a) => [a.name, a.actionCost])).toEqual([
+      ['Attack of Opportunity', PF2eActionCost.REACTION],
+      ['Furious Slam', PF2eActionCost.THREE],
+      ['Fling', PF2eActionCost.TWO],
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Spellcaster Conversion Unit Tests
+ *
+ * Tests looking up spells in the bundled SRD spell data and using it to
+ * give converted spell features real damage, range bands, Reaction Rolls,
+ * and conditions, with unknown spells reported.
+ *
+ * @module tests/unit/spellcasterConversion.test
+ */
+
+import { lookupSrdSpell, SRD_SPELLS } from '../../src/converters/srdSpells';
+import {
+  convertSpellcasting,
+  findUnknownSpells,
+} from '../../src/converters/spellcasterConversion';
+import { convertFromStatBlock } from '../../src/orchestrator/converter';
+import {
+  AbilityScore,
+  DnD5eCondition,
+  DnD5eDamageType,
+  InnateSpellcasting,
+  TraditionalSpellcasting,
+} from '../../src/models/dnd5e';
+import { Attribute, Condition, DamageType, RangeBand } from '../../src/models/daggerheart';
+import { createSpellcasterStatBlock } from '../helpers/testUtils';
+
+function createTraditional(spells: TraditionalSpellcasting['spells']): TraditionalSpellcasting {
+  return {
+    type: 'traditional',
+    ability: AbilityScore.INTELLIGENCE,
+    spellSaveDC: 15,
+    spellAttackBonus: 7,
+    slots: { 1: 4, 2: 3, 3: 3 },
+    spells,
+  };
+}
+
+function createInnate(spells: InnateSpellcasting['spells']): InnateSpellcasting {
+  return {
+    type: 'innate',
+    ability: AbilityScore.CHARISMA,
+    spellSaveDC: 14,
+    spells,
+  };
+}
+
+// ============================================================================
+// lookupSrdSpell
+// ============================================================================
+
+describe('lookupSrdSpell', () => {
+  it('returns SRD data for a spell', () => {
+    const fireball = lookupSrdSpell('Fireball');
+
+    expect(fireball?.level).toBe(3);
+    expect(fireball?.save).toBe(AbilityScore.DEXTERITY);
+    expect(fireball?.damage).toEqual({ count: 8, dieSize: 6, type: DnD5eDamageType.FIRE });
+    expect(fireball?.area).toEqual({ type: 'sphere', size: 20 });
+  });
+
+  it('ignores case, markup, notes, and named variants', () => {
+    expect(lookupSrdSpell('*hold person*')?.conditions).toEqual([DnD5eCondition.PARALYZED]);
+    expect(lookupSrdSpell('Mage Armor (self only)')?.name).toBe('Mage Armor');
+    expect(lookupSrdSpell('Melf’s Acid Arrow')?.name).toBe('Acid Arrow');
+    expect(lookupSrdSpell('Bigby\'s Hand')?.name).toBe('Arcane Hand');
+  });
+
+  it('returns undefined for spells outside the SRD', () => {
+    expect(lookupSrdSpell('Toll the Dead')).toBeUndefined();
+  });
+
+  it('has one entry per spell name', () => {
+    const names = SRD_SPELLS.map((spell) => spell.name.toLowerCase());
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+// ============================================================================
+// convertSpellcasting with SRD data
+// ============================================================================
+
+describe('convertSpellcasting with SRD data', () => {
+  it('gives damage spells their dice, range, and Reaction Roll', () => {
+    const result = convertSpellcasting(
+      createSpellcasterStatBlock({ spellcasting: createTraditional({ 3: [{ name: 'Fireball', level: 3 }] }) })
+    );
+    const feature = result.spellFeatures.find((f) => f.name === 'Minor Evocation');
+
+    expect(feature?.damage).toEqual({ diceCount: 8, diceSize: 6, modifier: 0, damageType: DamageType.MAGIC });
+    expect(feature?.reactionRollAttribute).toBe(Attribute.AGILITY);
+    expect(feature?.reactionRollDifficulty).toBe(15);
+    expect(feature?.target).toBe('All targets in a 20-foot sphere within Far range');
+    expect(feature?.description).toContain('Fireball (Far range; 20-foot sphere; Agility Reaction Roll; 8d6 magic damage)');
+  });
+
+  it('applies conditions and the save attribute of control spells', () => {
+    const result = convertSpellcasting(
+      createSpellcasterStatBlock({ spellcasting: createTraditional({ 2: [{ name: 'Hold Person', level: 2 }] }) })
+    );
+    const feature = result.spellFeatures.find((f) => f.name === 'Minor Enchantment');
+
+    expect(feature?.reactionRollAttribute).toBe(Attribute.INSTINCT);
+    expect(feature?.appliedConditions).toEqual([Condition.INCAPACITATED]);
+    expect(feature?.target).toBe('One target within Close range');
+  });
+
+  it('uses the cantrip\'s range and die for the spell attack', () => {
+    const result = convertSpellcasting(
+      createSpellcasterStatBlock({
+        spellcasting: createTraditional({ cantrips: [{ name: 'Shocking Grasp', level: 0 }] }),
+      })
+    );
+
+    expect(result.spellAttack?.range).toBe(RangeBand.MELEE);
+    expect(result.spellAttack?.damage.diceSize).toBe(8);
+  });
+
+  it('enriches innate spell features', () => {
+    const result = convertSpellcasting(
+      createSpellcasterStatBlock({
+        spellcasting: createInnate({ perDay1: [{ name: 'Cone of Cold', level: 5 }] }),
+      })
+    );
+    const feature = result.spellFeatures.find((f) => f.name === 'Rare Innate Magic');
+
+    expect(feature?.damage?.diceCount).toBe(8);
+    expect(feature?.damage?.diceSize).toBe(8);
+    expect(feature?.reactionRollAttribute).toBe(Attribute.STRENGTH);
+    expect(feature?.target).toBe('All targets in a 60-foot cone within Close range');
+  });
+
+  it('reports unknown spells and keeps their name-based conversion', () => {
+    const spellcasting = createTraditional({
+      cantrips: [{ name: 'Toll the Dead', level: 0 }],
+      1: [{ name: 'Chromatic Orb', level: 1 }],
+    });
+    const result = convertSpellcasting(createSpellcasterStatBlock({ spellcasting }));
+    const feature = result.spellFeatures.find((f) => f.name === 'Minor Evocation');
+
+    expect(findUnknownSpells(spellcasting)).toEqual(['Toll the Dead', 'Chromatic Orb']);
+    expect(result.unknownSpells).toEqual(['Toll the Dead', 'Chromatic Orb']);
+    expect(result.spellAttack?.name).toBe('Toll the Dead');
+    expect(feature?.damage).toBeUndefined();
+    expect(feature?.description).toContain('Roll to attack');
+  });
+});
+
+// ============================================================================
+// DESIGN NOTES
+// ============================================================================
+
+describe('design notes for spellcasters', () => {
+  it('lists spells missing from the SRD data', () => {
+    const statBlock = createSpellcasterStatBlock({
+      spellcasting: createTraditional({
+        cantrips: [{ name: 'Fire Bolt', level: 0 }],
+        1: [{ name: 'Witch Bolt', level: 1 }],
+      }),
+    });
+    const notes = convertFromStatBlock(statBlock).designNotes;
+
+    expect(notes?.conversionRationale.some((note) => note.includes('Not in the SRD spell data: Witch Bolt.'))).toBe(true);
+  });
+});
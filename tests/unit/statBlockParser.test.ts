@@ -0,0 +1,183 @@
+/**
+ * Stat Block Parser Unit Tests
+ *
+ * Tests text parsing of D&D 5e stat blocks in the 2014 and 2024 layouts:
+ * layout detection, the 2024 header lines and ability table, attack and
+ * saving throw wording, and source system detection of 2024 text.
+ *
+ * @module tests/unit/statBlockParser.test
+ */
+
+import {
+  detectStatBlockLayout,
+  parseStatBlock,
+  parseStatBlockSafe,
+} from '../../src/parsers/statBlockParser';
+import { convertFromAnyText, detectSourceSystem } from '../../src/orchestrator/converter';
+import { CreatureType } from '../../src/models/dnd5e';
+import { AdversaryType, Tier } from '../../src/models/daggerheart';
+import {
+  ADULT_RED_DRAGON_2014_TEXT,
+  ADULT_RED_DRAGON_2024_TEXT,
+  BALOR_2014_TEXT,
+  GOBLIN_2014_TEXT,
+  GOBLIN_WARRIOR_2024_TEXT,
+} from '../fixtures/stat-block-text';
+
+// ============================================================================
+// LAYOUT DETECTION TESTS
+// ============================================================================
+
+describe('detectStatBlockLayout', () => {
+  it('should detect the 2014 layout', () => {
+    expect(detectStatBlockLayout(GOBLIN_2014_TEXT)).toBe('2014');
+    expect(detectStatBlockLayout(ADULT_RED_DRAGON_2014_TEXT)).toBe('2014');
+  });
+
+  it('should detect the 2024 layout', () => {
+    expect(detectStatBlockLayout(GOBLIN_WARRIOR_2024_TEXT)).toBe('2024');
+    expect(detectStatBlockLayout(ADULT_RED_DRAGON_2024_TEXT)).toBe('2024');
+  });
+
+  it('should report the layout in the parse result', () => {
+    expect(parseStatBlockSafe(GOBLIN_2014_TEXT).layout).toBe('2014');
+    expect(parseStatBlockSafe(GOBLIN_WARRIOR_2024_TEXT).layout).toBe('2024');
+  });
+});
+
+// ============================================================================
+// 2014 LAYOUT TESTS
+// ============================================================================
+
+describe('parseStatBlock (2014 layout)', () => {
+  it('should parse the header, stats, and attacks', () => {
+    const goblin = parseStatBlock(GOBLIN_2014_TEXT);
+
+    expect(goblin.armorClass).toEqual({
+      value: 15,
+      armorType: 'leather armor',
+      additionalSources: ['shield'],
+    });
+    expect(goblin.hitPoints.average).toBe(7);
+    expect(goblin.abilityScores.DEX).toBe(14);
+    expect(goblin.challengeRating).toEqual({ cr: '1/4', xp: 50 });
+    expect(goblin.attacks?.map((attack) => attack.name)).toEqual(['Scimitar', 'Shortbow']);
+    expect(goblin.initiative).toBeUndefined();
+  });
+
+  it('should parse saving throws and the breath weapon', () => {
+    const dragon = parseStatBlock(ADULT_RED_DRAGON_2014_TEXT);
+    const breath = dragon.actions?.find((action) => action.name === 'Fire Breath');
+
+    expect(dragon.savingThrows).toHaveLength(4);
+    expect(breath?.savingThrow).toEqual({ dc: 21, ability: 'DEX' });
+    expect(breath?.recharge).toEqual({ minRoll: 5, maxRoll: 6 });
+  });
+
+  it('should split traits with multi-word names and several sentences', () => {
+    const balor = parseStatBlock(BALOR_2014_TEXT);
+
+    expect(balor.traits?.map((trait) => trait.name)).toEqual([
+      'Death Throes',
+      'Fire Aura',
+      'Magic Resistance',
+    ]);
+    expect(balor.traits?.[1]?.description).toMatch(/ignite\. A creature that touches the balor/);
+  });
+});
+
+// ============================================================================
+// 2024 LAYOUT TESTS
+// ============================================================================
+
+describe('parseStatBlock (2024 layout)', () => {
+  it('should parse AC, initiative, and HP', () => {
+    const goblin = parseStatBlock(GOBLIN_WARRIOR_2024_TEXT);
+
+    expect(goblin.creatureType).toBe(CreatureType.FEY);
+    expect(goblin.armorClass.value).toBe(15);
+    expect(goblin.initiative).toEqual({ modifier: 2, score: 12 });
+    expect(goblin.hitPoints).toEqual({ average: 10, formula: { count: 3, dieSize: 6, modifier: 0 } });
+  });
+
+  it('should read scores from the ability table and keep only proficient saves', () => {
+    const goblin = parseStatBlock(GOBLIN_WARRIOR_2024_TEXT);
+    const dragon = parseStatBlock(ADULT_RED_DRAGON_2024_TEXT);
+
+    expect(goblin.abilityScores).toEqual({ STR: 8, DEX: 15, CON: 10, INT: 10, WIS: 8, CHA: 8 });
+    expect(goblin.savingThrows).toBeUndefined();
+    expect(dragon.abilityScores.CHA).toBe(23);
+    expect(dragon.savingThrows).toEqual([
+      { ability: 'DEX', modifier: 6 },
+      { ability: 'WIS', modifier: 7 },
+    ]);
+  });
+
+  it('should parse gear and the CR line', () => {
+    const goblin = parseStatBlock(GOBLIN_WARRIOR_2024_TEXT);
+    const dragon = parseStatBlock(ADULT_RED_DRAGON_2024_TEXT);
+
+    expect(goblin.gear).toEqual(['Leather Armor', 'Scimitar', 'Shield', 'Shortbow']);
+    expect(goblin.challengeRating).toEqual({ cr: '1/4', xp: 50 });
+    expect(goblin.proficiencyBonus).toBe(2);
+    expect(dragon.challengeRating).toEqual({ cr: 17, xp: 18000 });
+    expect(dragon.proficiencyBonus).toBe(6);
+  });
+
+  it('should split combined immunities into damage and conditions', () => {
+    const dragon = parseStatBlock(ADULT_RED_DRAGON_2024_TEXT);
+
+    expect(dragon.damageModifiers?.immunities).toEqual([{ damageType: 'Fire' }]);
+    expect(dragon.conditionImmunities).toEqual(['Frightened']);
+  });
+
+  it('should parse attack rolls', () => {
+    const goblin = parseStatBlock(GOBLIN_WARRIOR_2024_TEXT);
+    const [scimitar, shortbow] = goblin.attacks ?? [];
+
+    expect(scimitar?.attackType).toBe('Melee Weapon Attack');
+    expect(scimitar?.toHit).toBe(4);
+    expect(scimitar?.range).toEqual({ reach: 5 });
+    expect(scimitar?.damage.damageType).toBe('Slashing');
+    expect(shortbow?.attackType).toBe('Ranged Weapon Attack');
+    expect(shortbow?.range).toEqual({ normal: 80, long: 320 });
+    expect(goblin.bonusActions?.[0]?.name).toBe('Nimble Escape');
+  });
+
+  it('should parse saving throw actions, traits, and legendary actions', () => {
+    const dragon = parseStatBlock(ADULT_RED_DRAGON_2024_TEXT);
+    const breath = dragon.actions?.find((action) => action.name === 'Fire Breath');
+
+    expect(dragon.traits?.map((trait) => trait.name)).toEqual(['Legendary Resistance']);
+    expect(dragon.multiattack?.attacks).toEqual([{ attackName: 'Rend', count: 3 }]);
+    expect(breath?.recharge).toEqual({ minRoll: 5, maxRoll: 6 });
+    expect(breath?.savingThrow).toEqual({ dc: 21, ability: 'DEX' });
+    expect(breath?.areaOfEffect).toEqual({ type: 'cone', size: 60 });
+    expect(breath?.damage?.dice).toEqual({ count: 17, dieSize: 6, modifier: 0 });
+    expect(dragon.legendaryActions?.count).toBe(3);
+    expect(dragon.legendaryActions?.actions).toHaveLength(2);
+  });
+});
+
+// ============================================================================
+// CONVERSION TESTS
+// ============================================================================
+
+describe('2024 layout conversion', () => {
+  it('should detect 2024 text as D&D 5e', () => {
+    const detection = detectSourceSystem(GOBLIN_WARRIOR_2024_TEXT);
+
+    expect(detection.system).toBe('D&D 5e');
+    expect(detection.indicators).toContain('Ability score table');
+    expect(detection.indicators).toContain('Attack to hit');
+  });
+
+  it('should convert a 2024 stat block end to end', () => {
+    const result = convertFromAnyText(ADULT_RED_DRAGON_2024_TEXT);
+
+    expect(result.sourceSystem).toBe('D&D 5e');
+    expect(result.adversary.tier).toBe(Tier.FOUR);
+    expect(result.adversary.type).toBe(AdversaryType.SOLO);
+    expect(result.markdown).toContain('Adult Red Dragon');
+  });
+});
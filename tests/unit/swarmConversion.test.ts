@@ -0,0 +1,157 @@
+/**
+ * Swarm and Pack Conversion Unit Tests
+ *
+ * Tests the Horde or grouped Minions decision for pack creatures, Horde
+ * stats with the damage drop at half HP, and the Swarm passive that
+ * replaces a swarm's generic resistances.
+ *
+ * @module tests/unit/swarmConversion.test
+ */
+
+import {
+  buildHordeFeature,
+  decidePackGroup,
+  detectSwarm,
+} from '../../src/converters/swarmConversion';
+import { classifyAdversary } from '../../src/converters/classifyAdversary';
+import { convertFromStatBlock, convertFromText } from '../../src/orchestrator/converter';
+import { AdversaryType, DamageType, FeatureCostType } from '../../src/models/daggerheart';
+import { createMockStatBlock } from '../helpers/testUtils';
+import { WOLF } from '../fixtures/srd-monsters';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const SWARM_OF_RATS_TEXT = `
+Swarm of Rats
+Medium swarm of Tiny beasts, unaligned
+
+Armor Class 10
+Hit Points 24 (7d8 - 7)
+Speed 30 ft.
+
+STR 9 (-1) DEX 11 (+0) CON 9 (-1) INT 2 (-4) WIS 10 (+0) CHA 3 (-4)
+
+Damage Resistances bludgeoning, piercing, slashing
+Condition Immunities charmed, frightened, grappled, paralyzed, petrified, prone, restrained, stunned
+Senses darkvision 30 ft., passive Perception 10
+Languages —
+Challenge 1/4 (50 XP)
+
+Keen Smell. The swarm has advantage on Wisdom (Perception) checks that rely on smell.
+Swarm. The swarm can occupy another creature's space and vice versa, and the swarm can move through any opening large enough for a Tiny rat. The swarm can't regain hit points or gain temporary hit points.
+
+Actions
+Bites. Melee Weapon Attack: +2 to hit, reach 0 ft., one target in the swarm's space. Hit: 7 (2d6) piercing damage, or 3 (1d6) piercing damage if the swarm has half of its hit points or fewer.
+`;
+
+const JACKAL = createMockStatBlock({
+  name: 'Jackal',
+  hitPoints: { average: 3, formula: { count: 1, dieSize: 6, modifier: 0 } },
+  challengeRating: { cr: 0, xp: 10 },
+  traits: [
+    {
+      name: 'Pack Tactics',
+      description:
+        "The jackal has advantage on an attack roll against a creature if at least one of the jackal's allies is within 5 feet of the creature.",
+    },
+  ],
+});
+
+// ============================================================================
+// DETECTION AND CLASSIFICATION
+// ============================================================================
+
+describe('decidePackGroup', () => {
+  it('makes sturdy pack creatures a Horde', () => {
+    const decision = decidePackGroup(WOLF, 0.25);
+
+    expect(decision?.type).toBe(AdversaryType.HORDE);
+    expect(decision?.reason).toContain('"Pack Tactics" with 11 HP each');
+  });
+
+  it('makes fragile pack creatures grouped Minions', () => {
+    expect(decidePackGroup(JACKAL, 0)?.type).toBe(AdversaryType.MINION);
+    expect(classifyAdversary(JACKAL).reasoning).toContain('grouped Minions that fall to a single hit');
+  });
+
+  it('ignores high-CR and non-pack creatures', () => {
+    expect(decidePackGroup(WOLF, 5)).toBeUndefined();
+    expect(decidePackGroup(createMockStatBlock(), 0.25)).toBeUndefined();
+  });
+
+  it('detects swarms by name, subtype, and trait', () => {
+    expect(detectSwarm(createMockStatBlock({ name: 'Swarm of Bats' })).isSwarm).toBe(true);
+    expect(detectSwarm(createMockStatBlock({ subtypes: ['swarm'] })).isSwarm).toBe(true);
+    expect(detectSwarm(WOLF).isSwarm).toBe(false);
+  });
+});
+
+// ============================================================================
+// HORDE STATS
+// ============================================================================
+
+describe('buildHordeFeature', () => {
+  it('halves the dice and sets the threshold at half HP', () => {
+    const horde = buildHordeFeature(
+      { diceCount: 2, diceSize: 6, modifier: 3, damageType: DamageType.PHYSICAL },
+      5
+    );
+
+    expect(horde.reducedDamage).toEqual({
+      diceCount: 1,
+      diceSize: 6,
+      modifier: 1,
+      damageType: DamageType.PHYSICAL,
+    });
+    expect(horde.threshold).toBe(3);
+  });
+
+  it('steps a single die down two sizes', () => {
+    const horde = buildHordeFeature(
+      { diceCount: 1, diceSize: 10, modifier: 0, damageType: DamageType.PHYSICAL },
+      4
+    );
+
+    expect(horde.reducedDamage?.diceSize).toBe(6);
+  });
+});
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+describe('swarm and pack conversions', () => {
+  it('fills in Horde stats for swarms and folds their resistances', () => {
+    const { adversary } = convertFromText(SWARM_OF_RATS_TEXT);
+    const names = adversary.features.map((f) => f.name);
+    const swarm = adversary.features.find((f) => f.name === 'Swarm');
+
+    expect(adversary.type).toBe(AdversaryType.SWARM);
+    expect(adversary.hp).toBe(4);
+    expect(adversary.horde?.startingDamage).toBeDefined();
+    expect(adversary.horde?.reducedDamage).toBeDefined();
+    expect(adversary.horde?.threshold).toBe(2);
+    expect(names).toContain('Horde (4/HP)');
+    expect(names).not.toContain('Damage Resistance');
+    expect(swarm?.description).toContain('Resistant to physical damage.');
+  });
+
+  it('converts Pack Tactics creatures to a Horde', () => {
+    const { adversary } = convertFromStatBlock(WOLF);
+
+    expect(adversary.type).toBe(AdversaryType.HORDE);
+    expect(adversary.horde?.threshold).toBeDefined();
+    expect(adversary.features.map((f) => f.name)).toContain('Horde (2/HP)');
+  });
+
+  it('gives grouped Minions a Fear-costed Group Attack', () => {
+    const { adversary } = convertFromStatBlock(JACKAL);
+    const groupAttack = adversary.features.find((f) => f.name === 'Group Attack');
+
+    expect(adversary.type).toBe(AdversaryType.MINION);
+    expect(adversary.features.map((f) => f.name)).toContain('Minion (3)');
+    expect(groupAttack?.cost).toEqual({ type: FeatureCostType.FEAR, amount: 1 });
+  });
+});